@@ -0,0 +1,144 @@
+'use client'
+
+/**
+ * Invite Page
+ *
+ * Aceite de convite: define nome e senha da nova conta
+ */
+
+import { useState, useEffect, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Lock, User, UserPlus } from 'lucide-react'
+import { USER_ROLE_LABELS } from '@/lib/business/access'
+import type { UserRole } from '@/types'
+
+const inputClass =
+  'w-full bg-[var(--ds-bg-surface)] border border-[var(--ds-border-default)] rounded-xl pl-11 pr-4 py-3 text-[var(--ds-text-primary)] placeholder:text-[var(--ds-text-muted)] focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent'
+
+function InviteForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+
+  const [invite, setInvite] = useState<{ email: string; role: UserRole } | null>(null)
+  const [name, setName] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/auth/invite?token=${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Convite inválido ou expirado')
+        setInvite(data)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Convite inválido ou expirado'))
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/invite', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, name, password }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Erro ao aceitar convite')
+      }
+
+      router.push('/')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao aceitar convite')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="text-center mb-8">
+        <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-linear-to-br from-emerald-500 to-emerald-600 mb-4">
+          <span className="text-3xl font-bold text-white">S</span>
+        </div>
+        <h1 className="text-2xl font-semibold tracking-tight text-white mb-2">Criar sua conta</h1>
+        {invite && (
+          <p className="text-[var(--ds-text-secondary)] mt-1">
+            {invite.email} • {USER_ROLE_LABELS[invite.role]}
+          </p>
+        )}
+      </div>
+
+      <div className="bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-2xl p-6 shadow-xl">
+        {invite ? (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="relative">
+              <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-[var(--ds-text-muted)]" />
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Seu nome"
+                autoComplete="name"
+                className={inputClass}
+                autoFocus
+              />
+            </div>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-[var(--ds-text-muted)]" />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Senha (mínimo 8 caracteres)"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </div>
+
+            {error && <p className="text-[var(--ds-status-error-text)] text-sm">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={isLoading || !name.trim() || password.length < 8}
+              className="w-full mt-3 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+            >
+              {isLoading ? (
+                <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                <>
+                  Criar conta
+                  <UserPlus className="w-4 h-4" />
+                </>
+              )}
+            </button>
+          </form>
+        ) : error ? (
+          <p className="text-[var(--ds-status-error-text)] text-sm text-center">{error}</p>
+        ) : (
+          <div className="flex justify-center py-6">
+            <div className="w-5 h-5 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function InvitePage() {
+  return (
+    <div className="min-h-screen bg-[var(--ds-bg-base)] flex items-center justify-center p-4">
+      <Suspense fallback={
+        <div className="w-5 h-5 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+      }>
+        <InviteForm />
+      </Suspense>
+    </div>
+  )
+}
@@ -12,6 +12,7 @@ const DEFAULT_STATS = {
     deliveryRate: '0%',
     activeCampaigns: '0',
     failedMessages: '0',
+    clickThroughRate: '0%',
     chartData: []
 }
 
@@ -15,6 +15,13 @@ import {
     MessageCircle,
     Sparkles,
     Workflow,
+    UserCog,
+    ScrollText,
+    Timer,
+    Webhook,
+    ArrowDownToLine,
+    Phone,
+    Contact,
 } from 'lucide-react'
 import React from 'react'
 import { HealthStatus } from '@/lib/health-check'
@@ -28,6 +35,7 @@ import { useUnreadCount } from '@/hooks/useUnreadCount'
 import { PrefetchLink } from '@/components/ui/PrefetchLink'
 import { AccountAlertBanner } from '@/components/ui/AccountAlertBanner'
 import { DashboardSidebar, type NavItem } from '@/components/layout/DashboardSidebar'
+import { WorkspaceSwitcher } from '@/components/layout/WorkspaceSwitcher'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
 import { DevModeToggle } from '@/components/ui/dev-mode-toggle'
 import { useDevMode } from '@/components/providers/DevModeProvider'
@@ -47,6 +55,8 @@ import {
     useGuidedTour,
 } from '@/components/features/setup'
 import { useOnboardingStatus } from '@/hooks/useOnboardingStatus'
+import { hasPermission, type Permission } from '@/lib/business/access'
+import type { UserRole } from '@/types'
 
 export function DashboardShell({
     children,
@@ -334,17 +344,33 @@ export function DashboardShell({
 
     // Memoize navItems to prevent recreation on every render
     // T069: Include dynamic unread badge for inbox
+    // Itens fora das permissões do papel do usuário ficam ocultos
+    const userRole: UserRole | undefined = authStatus?.user?.role
     const navItems = useMemo(() => [
-        { path: '/', label: 'Dashboard', icon: LayoutDashboard },
-        { path: '/campaigns', label: 'Campanhas', icon: MessageSquare },
-        { path: '/inbox', label: 'Inbox', icon: MessageCircle }, // Badge dinâmico renderizado no DashboardSidebar
-        { path: '/workflows', label: 'Workflow', icon: Workflow, badge: 'beta', disabled: true, hidden: !isDevMode },
+        { path: '/', label: 'Dashboard', icon: LayoutDashboard, permission: 'reports:view' as Permission },
+        { path: '/campaigns', label: 'Campanhas', icon: MessageSquare, permission: 'campaigns:view' as Permission },
+        { path: '/inbox', label: 'Inbox', icon: MessageCircle, permission: 'inbox:view' as Permission }, // Badge dinâmico renderizado no DashboardSidebar
+        { path: '/workflows', label: 'Workflow', icon: Workflow, badge: 'beta', disabled: true, hidden: !isDevMode, permission: 'automation:manage' as Permission },
         { path: '/conversations', label: 'Conversas', icon: MessageCircle, hidden: true },
-        { path: '/templates', label: 'Templates', icon: FileText },
-        { path: '/contacts', label: 'Contatos', icon: Users },
-        { path: '/settings/ai', label: 'IA', icon: Sparkles },
+        { path: '/templates', label: 'Templates', icon: FileText, permission: 'templates:view' as Permission },
+        { path: '/contacts', label: 'Contatos', icon: Users, permission: 'contacts:view' as Permission },
+        { path: '/settings/ai', label: 'IA', icon: Sparkles, permission: 'automation:manage' as Permission },
+        { path: '/settings/sla', label: 'SLA', icon: Timer, permission: 'reports:view' as Permission },
+        { path: '/settings/users', label: 'Usuários', icon: UserCog, permission: 'users:manage' as Permission },
+        { path: '/settings/audit', label: 'Auditoria', icon: ScrollText, permission: 'audit:view' as Permission },
+        { path: '/settings/phone-numbers', label: 'Números', icon: Phone, permission: 'settings:manage' as Permission },
+        { path: '/settings/webhooks', label: 'Webhooks', icon: Webhook, permission: 'settings:manage' as Permission },
+        { path: '/settings/inbound-webhooks', label: 'Webhooks de entrada', icon: ArrowDownToLine, permission: 'settings:manage' as Permission },
+        { path: '/settings/crm', label: 'CRM', icon: Contact, permission: 'settings:manage' as Permission },
         { path: '/settings', label: 'Configurações', icon: Settings },
-    ].filter(item => !item.hidden), [isDevMode])
+    ].filter(item => !item.hidden && (!userRole || !item.permission || hasPermission(userRole, item.permission))), [isDevMode, userRole])
+
+    // Papéis sem acesso ao dashboard (ex.: atendente) começam pelo Inbox
+    useEffect(() => {
+        if (pathname === '/' && userRole && !hasPermission(userRole, 'reports:view')) {
+            router.replace('/inbox')
+        }
+    }, [pathname, userRole, router])
 
     const getPageTitle = (path: string) => {
         if (path === '/') return 'Dashboard'
@@ -365,6 +391,14 @@ export function DashboardShell({
         if (path.startsWith('/submissions')) return 'Submissões'
         if (path === '/settings/ai') return 'Central de IA'
         if (path === '/settings/ai/agents') return 'Agentes IA'
+        if (path === '/settings/workspaces') return 'Workspaces'
+        if (path === '/settings/sla') return 'SLA do atendimento'
+        if (path === '/settings/users') return 'Usuários'
+        if (path === '/settings/audit') return 'Auditoria'
+        if (path === '/settings/phone-numbers') return 'Números de WhatsApp'
+        if (path === '/settings/webhooks') return 'Webhooks'
+        if (path === '/settings/inbound-webhooks') return 'Webhooks de entrada'
+        if (path === '/settings/crm') return 'CRM'
         if (path.startsWith('/settings')) return 'Configurações'
         return 'App'
     }
@@ -546,6 +580,7 @@ export function DashboardShell({
                     </div>
 
                     <div className="flex items-center gap-3">
+                        <WorkspaceSwitcher />
                         <ChecklistMiniBadge isOnboardingCompletedInDb={isOnboardingCompletedInDb} />
 
                         {/* Tutoriais de Configuração */}
@@ -21,7 +21,7 @@ export const getDashboardData = cache(async (): Promise<{
     // Stats agregados
     supabase
       .from('campaigns')
-      .select('sent, delivered, read, failed, status')
+      .select('sent, delivered, read, failed, clicks, tracked_links, status')
       .not('status', 'eq', 'Rascunho'),
 
     // Campanhas recentes (top 5)
@@ -43,12 +43,18 @@ export const getDashboardData = cache(async (): Promise<{
   let totalSent = 0
   let totalDelivered = 0
   let totalFailed = 0
+  let totalClicks = 0
+  let trackedDelivered = 0
   let activeCampaigns = 0
 
   campaigns.forEach((c) => {
     totalSent += c.sent || 0
     totalDelivered += c.delivered || 0
     totalFailed += c.failed || 0
+    if (Array.isArray(c.tracked_links) && c.tracked_links.length > 0) {
+      totalClicks += c.clicks || 0
+      trackedDelivered += c.delivered || 0
+    }
     if (c.status === 'Enviando' || c.status === 'Agendado') {
       activeCampaigns++
     }
@@ -57,6 +63,9 @@ export const getDashboardData = cache(async (): Promise<{
   const deliveryRate = totalSent > 0
     ? Math.round((totalDelivered / totalSent) * 100)
     : 0
+  const clickThroughRate = trackedDelivered > 0
+    ? Math.round((totalClicks / trackedDelivered) * 100)
+    : 0
 
   // Gerar chartData dos últimos 30 dias
   const chartData = generateChartData(allCampaignsResult.data || [])
@@ -70,6 +79,7 @@ export const getDashboardData = cache(async (): Promise<{
       deliveryRate: `${deliveryRate}%`,
       activeCampaigns: activeCampaigns.toString(),
       failedMessages: totalFailed.toString(),
+      clickThroughRate: `${clickThroughRate}%`,
       chartData
     },
     recentCampaigns
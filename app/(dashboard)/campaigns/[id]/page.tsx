@@ -24,6 +24,10 @@ export default function CampaignDetailsPage() {
       onCancelSend={controller.onCancelSend}
       onResendSkipped={controller.onResendSkipped}
       isResendingSkipped={controller.isResendingSkipped}
+      onRolloutAbTest={controller.onRolloutAbTest}
+      isRollingOutAbTest={controller.isRollingOutAbTest}
+      onToggleRecurrence={controller.onToggleRecurrence}
+      isUpdatingRecurrence={controller.isUpdatingRecurrence}
       isPausing={controller.isPausing}
       isResuming={controller.isResuming}
       isStarting={controller.isStarting}
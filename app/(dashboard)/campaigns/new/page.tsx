@@ -28,9 +28,9 @@ import { replaceTemplatePlaceholders } from '@/lib/whatsapp/placeholder'
 import { ContactQuickEditModal } from '@/components/features/contacts/ContactQuickEditModal'
 import { campaignService } from '@/services/campaignService'
 import type { CampaignPrecheckResult } from '@/services/campaignService'
-import { getBrazilUfFromPhone } from '@/lib/br-geo'
-import { normalizePhoneNumber } from '@/lib/phone-formatter'
-import { parsePhoneNumber } from 'libphonenumber-js'
+import { segmentService } from '@/services/segmentService'
+import { phoneNumberService } from '@/services/phoneNumberService'
+import { SegmentBuilder } from '@/components/features/contacts/SegmentBuilder'
 import { humanizePrecheckReason, humanizeVarSource, type ContactFixFocus, type ContactFixTarget } from '@/lib/precheck-humanizer'
 import { Calendar } from '@/components/ui/calendar'
 import DateTimePicker from '@/components/ui/date-time-picker'
@@ -39,6 +39,14 @@ import { ptBRLight as ptBR } from '@/lib/locale-pt-br-light'
 import { getPricingBreakdown } from '@/lib/whatsapp-pricing'
 import { useExchangeRate } from '@/hooks/useExchangeRate'
 import { useCampaignFolders } from '@/hooks/useCampaignFolders'
+import { AB_TEST_METRIC_LABELS, AB_TEST_RULES } from '@/lib/business/campaign/ab-testing'
+import { DRIP_CONDITION_LABELS, RECURRENCE_RULES, validateDripSteps, validateRecurrence } from '@/lib/business/campaign/scheduling'
+import { validateSendWindow } from '@/lib/business/campaign/send-window'
+import { LINK_TRACKING_RULES, buildTrackedLinkSuffix, isTrackableButtonUrl, validateTrackedLinks } from '@/lib/business/campaign/link-tracking'
+import { formatPhoneNumberOption } from '@/lib/business/whatsapp'
+import { WEEKDAY_ORDER, WEEKDAY_SHORT_LABELS } from '@/lib/business/settings/calendar'
+import { createEmptySegment, isSegmentEmpty, legacyFiltersToSegment, validateSegment } from '@/lib/business/audience/segments'
+import type { CampaignAbTestMetric, CampaignDripCondition, CampaignDripStep, CampaignSendWindow, CampaignTrackedLink, SegmentGroup } from '@/types'
 
 const steps = [
   { id: 1, label: 'Configuração' },
@@ -170,6 +178,12 @@ export default function CampaignsNewRealPage() {
   const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [selectedCountries, setSelectedCountries] = useState<string[]>([])
   const [selectedStates, setSelectedStates] = useState<string[]>([])
+  const [advancedSegment, setAdvancedSegment] = useState(false)
+  const [segmentDefinition, setSegmentDefinition] = useState<SegmentGroup>(() => createEmptySegment())
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null)
+  const [segmentName, setSegmentName] = useState('')
+  const [isSavingSegment, setIsSavingSegment] = useState(false)
+  const [segmentSaveError, setSegmentSaveError] = useState<string | null>(null)
   const [testContactSearch, setTestContactSearch] = useState('')
   const [selectedTestContact, setSelectedTestContact] = useState<Contact | null>(null)
   const [configuredContact, setConfiguredContact] = useState<Contact | null>(null)
@@ -186,6 +200,23 @@ export default function CampaignsNewRealPage() {
   const [scheduleDate, setScheduleDate] = useState(() => new Date().toLocaleDateString('en-CA'))
   const [scheduleTime, setScheduleTime] = useState(() => getDefaultScheduleTime())
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null)
+  const [abTestEnabled, setAbTestEnabled] = useState(false)
+  const [abVariantTemplates, setAbVariantTemplates] = useState<string[]>([''])
+  const [abTestPercent, setAbTestPercent] = useState<number>(AB_TEST_RULES.DEFAULT_TEST_PERCENT)
+  const [abWaitMinutes, setAbWaitMinutes] = useState<number>(AB_TEST_RULES.DEFAULT_WAIT_MINUTES)
+  const [abMetric, setAbMetric] = useState<CampaignAbTestMetric>('read_rate')
+  const [recurrenceCron, setRecurrenceCron] = useState('0 9 * * 1')
+  const [recurrenceTimezone, setRecurrenceTimezone] = useState<string>(RECURRENCE_RULES.DEFAULT_TIMEZONE)
+  const [dripSteps, setDripSteps] = useState<CampaignDripStep[]>([])
+  const [sendWindowEnabled, setSendWindowEnabled] = useState(false)
+  const [sendWindow, setSendWindow] = useState<CampaignSendWindow>({
+    days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+    start: '09:00',
+    end: '19:00',
+  })
+  const [skipDormant, setSkipDormant] = useState(false)
+  const [phoneNumberId, setPhoneNumberId] = useState('') // '' = número principal
+  const isMarketingTemplate = String(selectedTemplate?.category || '').toUpperCase() === 'MARKETING'
   const userTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, [])
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false)
   const [templateVars, setTemplateVars] = useState<{ header: TemplateVar[]; body: TemplateVar[] }>({
@@ -193,6 +224,8 @@ export default function CampaignsNewRealPage() {
     body: [],
   })
   const [templateButtonVars, setTemplateButtonVars] = useState<Record<string, string>>({})
+  // Destino dos botões de URL rastreados (índice do botão → URL final)
+  const [trackedLinkUrls, setTrackedLinkUrls] = useState<Record<number, string>>({})
   const [templateSpecError, setTemplateSpecError] = useState<string | null>(null)
   const [isLaunching, setIsLaunching] = useState(false)
   const [launchError, setLaunchError] = useState<string | null>(null)
@@ -311,20 +344,44 @@ export default function CampaignsNewRealPage() {
     staleTime: 10_000,
   })
 
+  // Chips rápidos viram um segmento simples; o construtor avançado usa a definição completa.
+  // Em ambos os casos a contagem e a lista de contatos são avaliadas no banco.
+  const activeSegment = useMemo<SegmentGroup>(
+    () =>
+      advancedSegment
+        ? segmentDefinition
+        : legacyFiltersToSegment({
+            tags: selectedTags,
+            countries: selectedCountries,
+            states: selectedStates,
+            combine: combineMode === 'and' ? 'and' : 'or',
+          }),
+    [advancedSegment, segmentDefinition, selectedTags, selectedCountries, selectedStates, combineMode]
+  )
+  const activeSegmentKey = useMemo(() => JSON.stringify(activeSegment), [activeSegment])
+  const activeSegmentValidation = useMemo(() => validateSegment(activeSegment), [activeSegment])
+
   const segmentCountQuery = useQuery({
-    queryKey: ['segment-count', combineMode, selectedTags, selectedCountries, selectedStates],
-    queryFn: async () => {
-      const params = new URLSearchParams()
-      params.set('combine', combineMode)
-      if (selectedTags.length) params.set('tags', selectedTags.join(','))
-      if (selectedCountries.length) params.set('countries', selectedCountries.join(','))
-      if (selectedStates.length) params.set('states', selectedStates.join(','))
-      return fetchJson<{ total: number; matched: number }>(`/api/contacts/segment-count?${params.toString()}`)
-    },
-    enabled: audienceMode === 'segmentos',
+    queryKey: ['segment-count', activeSegmentKey],
+    queryFn: () => segmentService.count(activeSegment),
+    enabled: audienceMode === 'segmentos' && activeSegmentValidation.valid,
     staleTime: 10_000,
   })
 
+  const phoneNumbersQuery = useQuery({
+    queryKey: ['phone-numbers'],
+    queryFn: phoneNumberService.getAll,
+    staleTime: 60_000,
+  })
+  const phoneNumbers = phoneNumbersQuery.data || []
+
+  const savedSegmentsQuery = useQuery({
+    queryKey: ['contact-segments'],
+    queryFn: segmentService.getAll,
+    enabled: audienceMode === 'segmentos',
+    staleTime: 30_000,
+  })
+
   const contactSearchResults = contactSearchQuery.data || []
 
   const sortedContactSearchResults = useMemo(() => {
@@ -519,17 +576,6 @@ export default function CampaignsNewRealPage() {
     return sampleValues[key] ?? key
   }
 
-  const resolveCountry = (phone: string): string | null => {
-    const normalized = normalizePhoneNumber(String(phone || '').trim())
-    if (!normalized) return null
-    try {
-      const parsed = parsePhoneNumber(normalized)
-      return parsed?.country || null
-    } catch {
-      return null
-    }
-  }
-
   const buildTemplateVariables = () => {
     if (!selectedTemplate) {
       return {
@@ -663,28 +709,29 @@ export default function CampaignsNewRealPage() {
       return refreshed
     }
 
-    const contacts = await fetchJson<Contact[]>('/api/contacts')
-    if (audienceMode === 'todos') return contacts
-
-    if (!selectedTags.length && !selectedCountries.length && !selectedStates.length) {
-      return contacts
+    if (audienceMode === 'todos' || isSegmentEmpty(activeSegment)) {
+      return fetchJson<Contact[]>('/api/contacts')
     }
 
-    return contacts.filter((contact) => {
-      const contactTags = Array.isArray(contact.tags) ? contact.tags : []
-      const phone = String(contact.phone || '')
-      const country = selectedCountries.length ? resolveCountry(phone) : null
-      const uf = selectedStates.length ? getBrazilUfFromPhone(phone) : null
-
-      const tagMatches = selectedTags.map((tag) => contactTags.includes(tag))
-      const countryMatches = selectedCountries.map((code) => Boolean(country && country === code))
-      const stateMatches = selectedStates.map((code) => Boolean(uf && uf === code))
-      const filters = [...tagMatches, ...countryMatches, ...stateMatches]
+    const contacts = await segmentService.getContacts(activeSegment)
+    return contacts.map((contact) => ({ ...contact, name: contact.name || '' }))
+  }
 
-      if (!filters.length) return true
-      const isMatch = combineMode === 'or' ? filters.some(Boolean) : filters.every(Boolean)
-      return isMatch
-    })
+  const handleSaveSegment = async () => {
+    const name = segmentName.trim()
+    if (!name || !activeSegmentValidation.valid) return
+    setIsSavingSegment(true)
+    setSegmentSaveError(null)
+    try {
+      const saved = await segmentService.create({ name, definition: activeSegment })
+      setSelectedSegmentId(saved.id)
+      setSegmentName('')
+      await savedSegmentsQuery.refetch()
+    } catch (err) {
+      setSegmentSaveError((err as Error).message || 'Falha ao salvar segmento')
+    } finally {
+      setIsSavingSegment(false)
+    }
   }
 
   const selectedTestCount =
@@ -736,6 +783,40 @@ export default function CampaignsNewRealPage() {
     }
   }
 
+  // Teste A/B: variante A = template principal; extras reutilizam as mesmas variáveis.
+  const buildAbTestPayload = () => {
+    const extraTemplates = abVariantTemplates.map((name) => name.trim()).filter(Boolean)
+    if (!abTestEnabled || !selectedTemplate?.name || extraTemplates.length === 0) {
+      return { abTest: null, variants: undefined }
+    }
+    const templateVariables = buildTemplateVariables()
+    return {
+      abTest: { testPercent: abTestPercent, waitMinutes: abWaitMinutes, metric: abMetric },
+      variants: [selectedTemplate.name, ...extraTemplates].map((templateName) => ({ templateName, templateVariables })),
+    }
+  }
+
+  // Rastreio de cliques: só botões que apontam para o redirect (/r/{{1}}) e têm destino.
+  const buildTrackedLinks = (): CampaignTrackedLink[] =>
+    flattenedButtons
+      .filter(({ index, button }) => button.type === 'URL' && isTrackableButtonUrl(button.url) && trackedLinkUrls[index]?.trim())
+      .map(({ index }) => ({ buttonIndex: index, url: trackedLinkUrls[index].trim() }))
+
+  // Recorrência + sequência: etapas de follow-up reutilizam as variáveis do template principal.
+  const buildSequencePayload = () => {
+    const templateVariables = buildTemplateVariables()
+    const trackedLinks = buildTrackedLinks()
+    return {
+      recurrence:
+        scheduleMode === 'recorrente' ? { cron: recurrenceCron.trim(), timezone: recurrenceTimezone.trim() } : null,
+      dripSteps: dripSteps.length > 0 ? dripSteps.map((dripStep) => ({ ...dripStep, templateVariables })) : null,
+      sendWindow: sendWindowEnabled ? sendWindow : null,
+      skipDormant: isMarketingTemplate && skipDormant,
+      phoneNumberId: phoneNumberId || null,
+      trackedLinks: trackedLinks.length > 0 ? trackedLinks : null,
+    }
+  }
+
   const handleLaunch = async () => {
     if (!selectedTemplate?.name) return
     setIsLaunching(true)
@@ -816,6 +897,8 @@ export default function CampaignsNewRealPage() {
         flowId,
         flowName,
         folderId: selectedFolderId,
+        ...buildAbTestPayload(),
+        ...buildSequencePayload(),
       })
 
       router.push(`/campaigns/${campaign.id}`)
@@ -859,6 +942,8 @@ export default function CampaignsNewRealPage() {
         flowId,
         flowName,
         folderId: selectedFolderId,
+        ...buildAbTestPayload(),
+        ...buildSequencePayload(),
         isDraft: true, // <-- Salva como rascunho
       })
 
@@ -1116,10 +1201,7 @@ export default function CampaignsNewRealPage() {
     sendToSelected,
     selectedTestContact?.id,
     configuredContact?.id,
-    combineMode,
-    selectedTags.join(','),
-    selectedCountries.join(','),
-    selectedStates.join(','),
+    activeSegmentKey,
     templateVars.header.map((item) => item.value).join('|'),
     templateVars.body.map((item) => item.value).join('|'),
     Object.entries(templateButtonVars)
@@ -1129,7 +1211,7 @@ export default function CampaignsNewRealPage() {
   ])
 
   const baseCount = statsQuery.data?.total ?? 0
-  const segmentEstimate = segmentCountQuery.data?.matched ?? baseCount
+  const segmentEstimate = activeSegmentValidation.valid ? segmentCountQuery.data?.matched ?? baseCount : 0
   const audienceCount =
     audienceMode === 'todos' ? baseCount : audienceMode === 'segmentos' ? segmentEstimate : selectedTestCount
   const isSegmentCountLoading = audienceMode === 'segmentos' && segmentCountQuery.isFetching
@@ -1374,7 +1456,9 @@ export default function CampaignsNewRealPage() {
     return missing
   }, [previewContact, templateButtonVars, templateSpec, templateVars.body, templateVars.header])
 
-  const isConfigComplete = Boolean(campaignName.trim()) && templateSelected && missingTemplateVars === 0
+  const trackedLinksValidation = validateTrackedLinks(buildTrackedLinks())
+  const isConfigComplete =
+    Boolean(campaignName.trim()) && templateSelected && missingTemplateVars === 0 && trackedLinksValidation.valid
   const isAudienceComplete = audienceMode === 'teste' ? selectedTestCount > 0 : audienceCount > 0
   const precheckNeedsFix =
     Boolean(precheckTotals && precheckTotals.skipped > 0) && (fixCandidates.length > 0 || bulkKeys.length > 0)
@@ -1384,11 +1468,33 @@ export default function CampaignsNewRealPage() {
     !isPrecheckLoading &&
     (precheckTotals?.valid ?? 0) > 0 &&
     (!precheckNeedsFix || skipIgnored)
+  const recurrenceValidation = validateRecurrence({ cron: recurrenceCron, timezone: recurrenceTimezone })
+  const dripValidation = validateDripSteps(dripSteps)
+  const sendWindowValidation = sendWindowEnabled ? validateSendWindow(sendWindow) : { valid: true }
   const isScheduleComplete =
-    scheduleMode !== 'agendar' || (scheduleDate.trim().length > 0 && scheduleTime.trim().length > 0)
+    scheduleMode === 'recorrente'
+      ? recurrenceValidation.valid
+      : scheduleMode !== 'agendar' || (scheduleDate.trim().length > 0 && scheduleTime.trim().length > 0)
+  const abExtraTemplates = abVariantTemplates.map((name) => name.trim()).filter(Boolean)
+  const isAbTestComplete =
+    !abTestEnabled ||
+    (abExtraTemplates.length > 0 &&
+      new Set([selectedTemplate?.name, ...abExtraTemplates]).size === abExtraTemplates.length + 1 &&
+      abTestPercent >= AB_TEST_RULES.MIN_TEST_PERCENT &&
+      abTestPercent <= AB_TEST_RULES.MAX_TEST_PERCENT &&
+      abWaitMinutes >= AB_TEST_RULES.MIN_WAIT_MINUTES &&
+      abWaitMinutes <= AB_TEST_RULES.MAX_WAIT_MINUTES)
+  const abVariantOptions = approvedTemplates.filter((template) => template.name !== selectedTemplate?.name)
   const canContinue =
-    step === 1 ? isConfigComplete : step === 2 ? isAudienceComplete : step === 3 ? isPrecheckOk : isScheduleComplete
-  const scheduleLabel = scheduleMode === 'agendar' ? 'Agendado' : 'Imediato'
+    step === 1
+      ? isConfigComplete
+      : step === 2
+        ? isAudienceComplete
+        : step === 3
+          ? isPrecheckOk
+          : isScheduleComplete && isAbTestComplete && dripValidation.valid && sendWindowValidation.valid
+  const scheduleLabel =
+    scheduleMode === 'agendar' ? 'Agendado' : scheduleMode === 'recorrente' ? 'Recorrente' : 'Imediato'
   const scheduleSummaryLabel =
     step >= 4
       ? scheduleLabel
@@ -1434,6 +1540,7 @@ export default function CampaignsNewRealPage() {
     if (!selectedTemplate) return
     setTemplateSpecError(null)
     setTemplateButtonVars({})
+    setTrackedLinkUrls({})
 
     try {
       const spec = buildTemplateSpecV1(selectedTemplate)
@@ -1501,6 +1608,16 @@ export default function CampaignsNewRealPage() {
     }))
   }
 
+  // Botão rastreado: a variável recebe um código de prévia (trocado por contato no envio)
+  const setTrackedLinkUrl = (buttonIndex: number, key: string, url: string) => {
+    setTrackedLinkUrls((prev) => ({ ...prev, [buttonIndex]: url }))
+    setButtonVarValue(
+      buttonIndex,
+      key,
+      url.trim() ? buildTrackedLinkSuffix(LINK_TRACKING_RULES.PREVIEW_CODE, buttonIndex) : ''
+    )
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-6 lg:flex-row lg:items-start lg:justify-between">
@@ -1987,6 +2104,29 @@ export default function CampaignsNewRealPage() {
                                   {(b.requiredKeys as string[]).map((k) => {
                                     const id = `{{${k}}}`
                                     const value = templateButtonVars[`button_${b.index}_${k}`] || ''
+                                    if (isTrackableButtonUrl(b.url)) {
+                                      const destination = trackedLinkUrls[b.index] || ''
+                                      return (
+                                        <div key={`btn-${b.index}-${k}`} className="space-y-1">
+                                          <div className="flex items-center gap-3">
+                                            <span className="rounded-lg bg-amber-100 dark:bg-amber-500/20 px-2 py-1 text-xs text-amber-700 dark:text-amber-200">{id}</span>
+                                            <input
+                                              type="url"
+                                              value={destination}
+                                              onChange={(event) => setTrackedLinkUrl(b.index, k, event.target.value)}
+                                              placeholder="Destino do link (https://...)"
+                                              className={`w-full flex-1 rounded-xl border bg-[var(--ds-bg-elevated)] px-4 py-2 text-sm text-[var(--ds-text-primary)] placeholder:text-[var(--ds-text-muted)] ${
+                                                !destination.trim() ? 'border-amber-400 dark:border-amber-400/40' : 'border-[var(--ds-border-default)]'
+                                              }`}
+                                            />
+                                            <span className="text-xs text-amber-700 dark:text-amber-300">obrigatório</span>
+                                          </div>
+                                          <p className="text-xs text-[var(--ds-text-muted)]">
+                                            Rastrear cliques: cada contato recebe um link próprio que registra o clique e redireciona para este destino.
+                                          </p>
+                                        </div>
+                                      )
+                                    }
                                     return (
                                       <div key={`btn-${b.index}-${k}`} className="flex items-center gap-3">
                                         <span className="rounded-lg bg-amber-100 dark:bg-amber-500/20 px-2 py-1 text-xs text-amber-700 dark:text-amber-200">{id}</span>
@@ -2218,7 +2358,96 @@ export default function CampaignsNewRealPage() {
                       </div>
                     </SheetContent>
                   </Sheet>
-                  {collapseQuickSegments ? (
+                  <div className="mb-4 flex items-center justify-between gap-3">
+                    <div className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">
+                      {advancedSegment ? 'Construtor de segmentos' : 'Filtros'}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (!advancedSegment && isSegmentEmpty(segmentDefinition)) {
+                          setSegmentDefinition(
+                            legacyFiltersToSegment({
+                              tags: selectedTags,
+                              countries: selectedCountries,
+                              states: selectedStates,
+                              combine: combineMode === 'and' ? 'and' : 'or',
+                            })
+                          )
+                        }
+                        setAdvancedSegment((v) => !v)
+                      }}
+                      className="text-xs text-emerald-700 dark:text-emerald-300"
+                    >
+                      {advancedSegment ? 'Voltar aos segmentos rapidos' : 'Construtor avancado (E/OU, engajamento)'}
+                    </button>
+                  </div>
+                  {advancedSegment && (
+                    <div className="space-y-4">
+                      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={selectedSegmentId || ''}
+                            onChange={(event) => {
+                              const id = event.target.value || null
+                              setSelectedSegmentId(id)
+                              const saved = (savedSegmentsQuery.data || []).find((item) => item.id === id)
+                              setSegmentDefinition(saved ? saved.definition : createEmptySegment())
+                            }}
+                            className="rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-3 py-2 text-sm text-[var(--ds-text-primary)]"
+                          >
+                            <option value="">Novo segmento</option>
+                            {(savedSegmentsQuery.data || []).map((item) => (
+                              <option key={item.id} value={item.id}>{item.name}</option>
+                            ))}
+                          </select>
+                          {savedSegmentsQuery.isLoading && (
+                            <span className="text-xs text-[var(--ds-text-muted)]">Carregando segmentos...</span>
+                          )}
+                        </div>
+                        <span className="text-xs text-[var(--ds-text-muted)]">
+                          Estimativa: {isSegmentCountLoading ? 'Calculando...' : `${audienceCount} contatos`}
+                        </span>
+                      </div>
+                      <SegmentBuilder
+                        value={segmentDefinition}
+                        onChange={(next) => {
+                          setSegmentDefinition(next)
+                          setSelectedSegmentId(null)
+                        }}
+                        tagOptions={tagsQuery.data || []}
+                        customFieldKeys={customFieldKeys}
+                      />
+                      {!activeSegmentValidation.valid && (
+                        <ul className="space-y-1 text-xs text-amber-700 dark:text-amber-300">
+                          {activeSegmentValidation.errors.map((error) => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {!selectedSegmentId && !isSegmentEmpty(segmentDefinition) && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <input
+                            value={segmentName}
+                            onChange={(event) => setSegmentName(event.target.value)}
+                            placeholder="Nome do segmento"
+                            className="rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-3 py-2 text-sm text-[var(--ds-text-primary)] placeholder:text-[var(--ds-text-muted)]"
+                          />
+                          <button
+                            type="button"
+                            onClick={handleSaveSegment}
+                            disabled={!segmentName.trim() || !activeSegmentValidation.valid || isSavingSegment}
+                            className="flex items-center gap-1 rounded-full border border-[var(--ds-border-default)] px-3 py-1.5 text-xs text-[var(--ds-text-secondary)] hover:text-[var(--ds-text-primary)] disabled:opacity-50"
+                          >
+                            <Save size={12} />
+                            {isSavingSegment ? 'Salvando...' : 'Salvar segmento'}
+                          </button>
+                          {segmentSaveError && <span className="text-xs text-red-500">{segmentSaveError}</span>}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {!advancedSegment && (collapseQuickSegments ? (
                     <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
                       <div>
                         <div className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Segmentos rapidos</div>
@@ -2404,7 +2633,7 @@ export default function CampaignsNewRealPage() {
                         </div>
                       </div>
                     </>
-                  )}
+                  ))}
                 </div>
               )}
 
@@ -2746,7 +2975,7 @@ export default function CampaignsNewRealPage() {
                   <h2 className="text-lg font-semibold text-[var(--ds-text-primary)]">Agendamento</h2>
                   <p className="text-sm text-[var(--ds-text-muted)]">Defina se o envio será agora ou programado.</p>
                 </div>
-                <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
                   <button
                     type="button"
                     onClick={() => setScheduleMode('imediato')}
@@ -2769,8 +2998,47 @@ export default function CampaignsNewRealPage() {
                   >
                     Agendar
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setScheduleMode('recorrente')}
+                    className={`rounded-xl border px-4 py-3 text-left text-sm ${
+                      scheduleMode === 'recorrente'
+                        ? 'border-emerald-600 dark:border-emerald-400/40 bg-emerald-100 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-200'
+                        : 'border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] text-[var(--ds-text-secondary)]'
+                    }`}
+                  >
+                    Recorrente
+                  </button>
                 </div>
-                <div className={`mt-4 transition ${scheduleMode === 'agendar' ? 'opacity-100' : 'opacity-40'}`}>
+                {scheduleMode === 'recorrente' && (
+                  <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Cron</label>
+                      <input
+                        value={recurrenceCron}
+                        onChange={(e) => setRecurrenceCron(e.target.value)}
+                        placeholder="0 9 * * 1"
+                        className="w-full rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 font-mono text-sm text-[var(--ds-text-primary)]"
+                      />
+                      <p className="text-xs text-[var(--ds-text-muted)]">
+                        minuto hora dia mês dia-da-semana · ex.: <span className="font-mono">0 9 * * 1</span> = toda segunda às 09:00.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Fuso horário</label>
+                      <input
+                        value={recurrenceTimezone}
+                        onChange={(e) => setRecurrenceTimezone(e.target.value)}
+                        placeholder={RECURRENCE_RULES.DEFAULT_TIMEZONE}
+                        className="w-full rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                      />
+                      {!recurrenceValidation.valid && (
+                        <p className="text-xs text-amber-500">{recurrenceValidation.reason}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+                <div className={`mt-4 transition ${scheduleMode === 'agendar' ? 'opacity-100' : 'opacity-40'} ${scheduleMode === 'recorrente' ? 'hidden' : ''}`}>
                   <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
                     <div className="space-y-2">
                       <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Data</label>
@@ -2825,6 +3093,327 @@ export default function CampaignsNewRealPage() {
                 </div>
               </div>
 
+              {/* Número remetente - apenas com mais de um número registrado */}
+              {phoneNumbers.length > 1 && (
+                <div className="rounded-2xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-surface)] p-6 shadow-[0_12px_30px_rgba(0,0,0,0.35)]">
+                  <div className="space-y-1">
+                    <h2 className="text-lg font-semibold text-[var(--ds-text-primary)]">Número remetente</h2>
+                    <p className="text-sm text-[var(--ds-text-muted)]">
+                      As respostas dos contatos chegam no Inbox pelo mesmo número.
+                    </p>
+                  </div>
+                  <select
+                    value={phoneNumberId}
+                    onChange={(e) => setPhoneNumberId(e.target.value)}
+                    className="mt-4 w-full rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                  >
+                    {phoneNumbers.map((number) => (
+                      <option key={number.phoneNumberId} value={number.isPrimary ? '' : number.phoneNumberId}>
+                        {formatPhoneNumberOption(number)}
+                        {number.isPrimary ? ' (principal)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Janela de envio - horário local do contato */}
+              <div className="rounded-2xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-surface)] p-6 shadow-[0_12px_30px_rgba(0,0,0,0.35)]">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <h2 className="text-lg font-semibold text-[var(--ds-text-primary)]">Janela de envio</h2>
+                    <p className="text-sm text-[var(--ds-text-muted)]">
+                      Envie apenas no horário local de cada contato. Quem estiver fora da janela recebe quando ela abrir.
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setSendWindowEnabled((prev) => !prev)}
+                    className={`rounded-xl border px-4 py-2 text-sm ${
+                      sendWindowEnabled
+                        ? 'border-emerald-600 dark:border-emerald-400/40 bg-emerald-100 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-200'
+                        : 'border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] text-[var(--ds-text-secondary)]'
+                    }`}
+                  >
+                    {sendWindowEnabled ? 'Ativada' : 'Desativada'}
+                  </button>
+                </div>
+                {sendWindowEnabled && (
+                  <div className="mt-4 space-y-4">
+                    <div className="flex flex-wrap gap-2">
+                      {WEEKDAY_ORDER.map((day) => {
+                        const selected = sendWindow.days.includes(day)
+                        return (
+                          <button
+                            key={day}
+                            type="button"
+                            onClick={() =>
+                              setSendWindow((prev) => ({
+                                ...prev,
+                                days: selected ? prev.days.filter((d) => d !== day) : [...prev.days, day],
+                              }))
+                            }
+                            className={`rounded-lg border px-3 py-1.5 text-xs ${
+                              selected
+                                ? 'border-emerald-600 dark:border-emerald-400/40 bg-emerald-100 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-200'
+                                : 'border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] text-[var(--ds-text-secondary)]'
+                            }`}
+                          >
+                            {WEEKDAY_SHORT_LABELS[day]}
+                          </button>
+                        )
+                      })}
+                    </div>
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Início</label>
+                        <input
+                          type="time"
+                          value={sendWindow.start}
+                          onChange={(e) => setSendWindow((prev) => ({ ...prev, start: e.target.value }))}
+                          className="w-full rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Fim</label>
+                        <input
+                          type="time"
+                          value={sendWindow.end}
+                          onChange={(e) => setSendWindow((prev) => ({ ...prev, end: e.target.value }))}
+                          className="w-full rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-[var(--ds-text-muted)]">
+                      O fuso vem do DDI/DDD do telefone (ou do campo personalizado <span className="font-mono">timezone</span>).
+                      O horário de silêncio global das Configurações também é respeitado.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {/* Pular dormentes - apenas templates de marketing */}
+              {isMarketingTemplate && (
+                <div className="rounded-2xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-surface)] p-6 shadow-[0_12px_30px_rgba(0,0,0,0.35)]">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <h2 className="text-lg font-semibold text-[var(--ds-text-primary)]">Pular contatos dormentes</h2>
+                      <p className="text-sm text-[var(--ds-text-muted)]">
+                        Não envia para contatos dormentes ou perdidos (sem engajamento recente), protegendo a qualidade do número.
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setSkipDormant((prev) => !prev)}
+                      className={`rounded-xl border px-4 py-2 text-sm ${
+                        skipDormant
+                          ? 'border-emerald-600 dark:border-emerald-400/40 bg-emerald-100 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-200'
+                          : 'border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] text-[var(--ds-text-secondary)]'
+                      }`}
+                    >
+                      {skipDormant ? 'Ativado' : 'Desativado'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Teste A/B - variantes de template */}
+              <div className="rounded-2xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-surface)] p-6 shadow-[0_12px_30px_rgba(0,0,0,0.35)]">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <h2 className="text-lg font-semibold text-[var(--ds-text-primary)]">Teste A/B</h2>
+                    <p className="text-sm text-[var(--ds-text-muted)]">
+                      Envie variantes para uma parte da audiência e dispare o vencedor para o restante.
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setAbTestEnabled((prev) => !prev)}
+                    className={`rounded-xl border px-4 py-2 text-sm ${
+                      abTestEnabled
+                        ? 'border-emerald-600 dark:border-emerald-400/40 bg-emerald-100 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-200'
+                        : 'border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] text-[var(--ds-text-secondary)]'
+                    }`}
+                  >
+                    {abTestEnabled ? 'Ativado' : 'Desativado'}
+                  </button>
+                </div>
+                {abTestEnabled && (
+                  <div className="mt-4 space-y-4">
+                    <div className="space-y-2">
+                      <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Variantes</label>
+                      <div className="rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-secondary)]">
+                        <span className="text-[var(--ds-text-muted)]">A ·</span> {selectedTemplate?.name || '—'}
+                      </div>
+                      {abVariantTemplates.map((name, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <span className="w-4 text-sm text-[var(--ds-text-muted)]">{AB_TEST_RULES.VARIANT_LABELS[index + 1]}</span>
+                          <select
+                            value={name}
+                            onChange={(e) =>
+                              setAbVariantTemplates((prev) => prev.map((item, i) => (i === index ? e.target.value : item)))
+                            }
+                            className="flex-1 rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                          >
+                            <option value="">Selecione um template</option>
+                            {abVariantOptions.map((template) => (
+                              <option key={template.name} value={template.name}>
+                                {template.name}
+                              </option>
+                            ))}
+                          </select>
+                          {abVariantTemplates.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() => setAbVariantTemplates((prev) => prev.filter((_, i) => i !== index))}
+                              className="text-xs text-[var(--ds-text-muted)] hover:text-[var(--ds-text-primary)]"
+                            >
+                              Remover
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      {abVariantTemplates.length < AB_TEST_RULES.MAX_VARIANTS - 1 && (
+                        <button
+                          type="button"
+                          onClick={() => setAbVariantTemplates((prev) => [...prev, ''])}
+                          className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400"
+                        >
+                          <Plus size={12} /> Adicionar variante
+                        </button>
+                      )}
+                      <p className="text-xs text-[var(--ds-text-muted)]">
+                        As variantes usam as mesmas variáveis preenchidas para o template principal.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Audiência do teste (%)</label>
+                        <input
+                          type="number"
+                          min={AB_TEST_RULES.MIN_TEST_PERCENT}
+                          max={AB_TEST_RULES.MAX_TEST_PERCENT}
+                          value={abTestPercent}
+                          onChange={(e) => setAbTestPercent(Number(e.target.value))}
+                          className="w-full rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Aguardar (minutos)</label>
+                        <input
+                          type="number"
+                          min={AB_TEST_RULES.MIN_WAIT_MINUTES}
+                          max={AB_TEST_RULES.MAX_WAIT_MINUTES}
+                          value={abWaitMinutes}
+                          onChange={(e) => setAbWaitMinutes(Number(e.target.value))}
+                          className="w-full rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-xs uppercase tracking-widest text-[var(--ds-text-muted)]">Métrica do vencedor</label>
+                        <select
+                          value={abMetric}
+                          onChange={(e) => setAbMetric(e.target.value as CampaignAbTestMetric)}
+                          className="w-full rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                        >
+                          {(Object.keys(AB_TEST_METRIC_LABELS) as CampaignAbTestMetric[]).map((metric) => (
+                            <option key={metric} value={metric}>
+                              {AB_TEST_METRIC_LABELS[metric]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Sequência - follow-ups para quem não engajou */}
+              <div className="rounded-2xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-surface)] p-6 shadow-[0_12px_30px_rgba(0,0,0,0.35)]">
+                <div className="space-y-1">
+                  <h2 className="text-lg font-semibold text-[var(--ds-text-primary)]">Sequência</h2>
+                  <p className="text-sm text-[var(--ds-text-muted)]">
+                    Envie follow-ups automáticos apenas para quem não engajou com a etapa anterior (opcional).
+                  </p>
+                </div>
+                <div className="mt-4 space-y-3">
+                  <div className="rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-secondary)]">
+                    <span className="text-[var(--ds-text-muted)]">Etapa 1 ·</span> {selectedTemplate?.name || '—'}
+                  </div>
+                  {dripSteps.map((dripStep, index) => (
+                    <div key={index} className="grid grid-cols-1 gap-2 md:grid-cols-[auto_1fr_120px_1fr_auto] md:items-center">
+                      <span className="text-sm text-[var(--ds-text-muted)]">Etapa {index + 2}</span>
+                      <select
+                        value={dripStep.templateName}
+                        onChange={(e) =>
+                          setDripSteps((prev) => prev.map((item, i) => (i === index ? { ...item, templateName: e.target.value } : item)))
+                        }
+                        className="rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                      >
+                        <option value="">Selecione um template</option>
+                        {approvedTemplates.map((template) => (
+                          <option key={template.name} value={template.name}>
+                            {template.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={RECURRENCE_RULES.MIN_DRIP_DELAY_DAYS}
+                        max={RECURRENCE_RULES.MAX_DRIP_DELAY_DAYS}
+                        value={dripStep.delayDays}
+                        onChange={(e) =>
+                          setDripSteps((prev) => prev.map((item, i) => (i === index ? { ...item, delayDays: Number(e.target.value) } : item)))
+                        }
+                        title="Dias após a etapa anterior"
+                        className="rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                      />
+                      <select
+                        value={dripStep.condition}
+                        onChange={(e) =>
+                          setDripSteps((prev) =>
+                            prev.map((item, i) => (i === index ? { ...item, condition: e.target.value as CampaignDripCondition } : item))
+                          )
+                        }
+                        className="rounded-xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-4 py-3 text-sm text-[var(--ds-text-primary)]"
+                      >
+                        {(Object.keys(DRIP_CONDITION_LABELS) as CampaignDripCondition[]).map((condition) => (
+                          <option key={condition} value={condition}>
+                            {DRIP_CONDITION_LABELS[condition]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setDripSteps((prev) => prev.filter((_, i) => i !== index))}
+                        className="text-xs text-[var(--ds-text-muted)] hover:text-[var(--ds-text-primary)]"
+                      >
+                        Remover
+                      </button>
+                    </div>
+                  ))}
+                  {dripSteps.length < RECURRENCE_RULES.MAX_DRIP_STEPS && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setDripSteps((prev) => [
+                          ...prev,
+                          { templateName: '', delayDays: RECURRENCE_RULES.MIN_DRIP_DELAY_DAYS, condition: 'not_read' },
+                        ])
+                      }
+                      className="flex items-center gap-1 text-xs text-emerald-500 hover:text-emerald-400"
+                    >
+                      <Plus size={12} /> Adicionar etapa
+                    </button>
+                  )}
+                  {dripSteps.length > 0 && (
+                    <p className="text-xs text-[var(--ds-text-muted)]">
+                      Os follow-ups usam as mesmas variáveis preenchidas para o template principal.
+                    </p>
+                  )}
+                </div>
+              </div>
+
               {/* Organização - Seleção de Pasta */}
               {folders.length > 0 && (
                 <div className="rounded-2xl border border-[var(--ds-border-default)] bg-[var(--ds-bg-surface)] p-6 shadow-[0_12px_30px_rgba(0,0,0,0.35)]">
@@ -2921,14 +3510,18 @@ export default function CampaignsNewRealPage() {
                 {step === 1 && templateSelected && missingTemplateVars > 0 && (
                   <>Preencha {missingTemplateVars} variável(is) obrigatória(s)</>
                 )}
-                {step === 1 && templateSelected && missingTemplateVars === 0 && !campaignName.trim() && (
+                {step === 1 && templateSelected && missingTemplateVars === 0 && !trackedLinksValidation.valid && trackedLinksValidation.reason}
+                {step === 1 && templateSelected && missingTemplateVars === 0 && trackedLinksValidation.valid && !campaignName.trim() && (
                   <>Defina o nome da campanha</>
                 )}
                 {step === 2 && !isAudienceComplete && 'Selecione um público válido'}
                 {step === 3 && isPrecheckLoading && 'Validando destinatários...'}
                 {step === 3 && !isPrecheckLoading && precheckNeedsFix && !skipIgnored && 'Corrija os ignorados ou marque para prosseguir apenas com válidos'}
                 {step === 3 && !isPrecheckLoading && precheckTotals && (precheckTotals.valid ?? 0) === 0 && 'Nenhum destinatário válido — corrija os ignorados'}
-                {step === 4 && !isScheduleComplete && 'Defina data e horário do agendamento'}
+                {step === 4 && !isScheduleComplete && (scheduleMode === 'recorrente' ? recurrenceValidation.reason : 'Defina data e horário do agendamento')}
+                {step === 4 && isScheduleComplete && !isAbTestComplete && 'Revise as variantes do teste A/B'}
+                {step === 4 && isScheduleComplete && isAbTestComplete && !dripValidation.valid && dripValidation.reason}
+                {step === 4 && isScheduleComplete && isAbTestComplete && dripValidation.valid && !sendWindowValidation.valid && sendWindowValidation.reason}
                 {canContinue && footerSummary}
               </div>
               <div className="flex items-center gap-3">
@@ -3,8 +3,8 @@ import { getCampaignsInitialData } from './actions'
 import { CampaignsClientWrapper } from './CampaignsClientWrapper'
 import { CampaignsSkeleton } from '@/components/features/campaigns/CampaignsSkeleton'
 
-// ISR: revalida a cada 60 segundos (campanhas mudam menos que dashboard)
-export const revalidate = 60
+// Dados do workspace ativo (cookie): sem cache compartilhado entre workspaces
+export const dynamic = 'force-dynamic'
 
 /**
  * Componente async que busca dados no servidor e passa para o cliente.
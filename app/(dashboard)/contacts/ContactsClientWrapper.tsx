@@ -28,6 +28,8 @@ export function ContactsClientWrapper({ initialData }: ContactsClientWrapperProp
       onStatusFilterChange={controller.setStatusFilter}
       tagFilter={controller.tagFilter}
       onTagFilterChange={controller.setTagFilter}
+      stageFilter={controller.stageFilter}
+      onStageFilterChange={controller.setStageFilter}
       currentPage={controller.currentPage}
       totalPages={controller.totalPages}
       totalFiltered={controller.totalFiltered}
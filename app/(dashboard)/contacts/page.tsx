@@ -3,8 +3,8 @@ import { getContactsInitialData } from './actions'
 import { ContactsClientWrapper } from './ContactsClientWrapper'
 import { ContactsSkeleton } from '@/components/features/contacts/ContactsSkeleton'
 
-// ISR: revalida a cada 60 segundos
-export const revalidate = 60
+// Dados do workspace ativo (cookie): sem cache compartilhado entre workspaces
+export const dynamic = 'force-dynamic'
 
 async function ContactsWithData() {
   const initialData = await getContactsInitialData()
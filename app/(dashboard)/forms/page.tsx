@@ -3,8 +3,8 @@ import { getFormsInitialData } from './actions'
 import { FormsClientWrapper } from './FormsClientWrapper'
 import { FormsSkeleton } from '@/components/features/lead-forms/FormsSkeleton'
 
-// ISR: revalida a cada 2 minutos (forms mudam pouco)
-export const revalidate = 120
+// Dados do workspace ativo (cookie): sem cache compartilhado entre workspaces
+export const dynamic = 'force-dynamic'
 
 async function FormsWithData() {
   const initialData = await getFormsInitialData()
@@ -65,12 +65,24 @@ export function InboxClientWrapper({ initialData, initialConversationId }: Inbox
         onModeFilterChange={inbox.onModeFilterChange}
         labelFilter={inbox.labelFilter}
         onLabelFilterChange={inbox.onLabelFilterChange}
+        assignmentFilter={inbox.assignmentFilter}
+        onAssignmentFilterChange={inbox.onAssignmentFilterChange}
+        sortOrder={inbox.sortOrder}
+        onSortOrderChange={inbox.onSortOrderChange}
+        // Full-text search
+        searchResults={inbox.searchResults}
+        searchTotal={inbox.searchTotal}
+        isSearchingMessages={inbox.isSearchingMessages}
+        onSelectSearchResult={inbox.onSelectSearchResult}
+        focusedMessageId={inbox.focusedMessageId}
+        onFocusedMessageShown={inbox.onFocusedMessageShown}
         // Conversation actions
         onModeToggle={inbox.onModeToggle}
         onCloseConversation={inbox.onCloseConversation}
         onReopenConversation={inbox.onReopenConversation}
         onPriorityChange={inbox.onPriorityChange}
         onLabelToggle={inbox.onLabelToggle}
+        onAssign={inbox.onAssign}
         // T050: Handoff actions
         onHandoff={inbox.onHandoff}
         onReturnToBot={inbox.onReturnToBot}
@@ -3,8 +3,8 @@ import { getDashboardData } from './actions/dashboard'
 import { DashboardSkeleton } from '@/components/features/dashboard/DashboardSkeleton'
 import { DashboardClientLoader } from './DashboardClientLoader'
 
-// ISR: revalida a cada 30 segundos
-export const revalidate = 30
+// Dados do workspace ativo (cookie): sem cache compartilhado entre workspaces
+export const dynamic = 'force-dynamic'
 
 /**
  * Componente async que busca dados no servidor e passa para o cliente.
@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import {
+  AudioLines,
   Bot,
   ChevronDown,
   ChevronUp,
@@ -34,7 +35,13 @@ import {
   type AiPromptsConfig,
   type AiRoutesConfig,
 } from '@/lib/ai/ai-center-defaults'
-import { settingsService, type OCRConfig, type OCRProviderType } from '@/services/settingsService'
+import {
+  settingsService,
+  type OCRConfig,
+  type OCRProviderType,
+  type TranscriptionConfig,
+  type TranscriptionProviderType,
+} from '@/services/settingsService'
 import { toast } from 'sonner'
 
 type PromptItem = {
@@ -67,6 +74,7 @@ type AIConfigResponse = {
   prompts: AiPromptsConfig
   fallback: AiFallbackConfig
   ocr?: OCRConfig
+  transcription?: TranscriptionConfig
 }
 
 // Modelos Gemini disponíveis para OCR
@@ -107,6 +115,17 @@ const DEFAULT_OCR_CONFIG: OCRConfig = {
   },
 }
 
+const DEFAULT_TRANSCRIPTION_CONFIG: TranscriptionConfig = {
+  provider: 'gemini',
+  geminiModel: 'gemini-2.5-flash',
+  mediaAnalysisEnabled: true,
+}
+
+const TRANSCRIPTION_PROVIDERS: Array<{ id: TranscriptionProviderType; name: string; statusKey: 'google' | 'openai'; desc: string }> = [
+  { id: 'gemini', name: 'Gemini', statusKey: 'google', desc: 'Transcreve e entende o contexto do áudio' },
+  { id: 'openai', name: 'OpenAI', statusKey: 'openai', desc: 'gpt-4o-mini-transcribe' },
+]
+
 const EMPTY_PROVIDER_STATUS: ProviderStatus = {
   isConfigured: false,
   source: 'none',
@@ -599,6 +618,10 @@ export default function AICenterPage() {
   const [isSavingOcr, setIsSavingOcr] = useState(false)
   const [showMistralKeyInput, setShowMistralKeyInput] = useState(false)
 
+  // Transcrição / mídias do inbox
+  const [transcriptionConfig, setTranscriptionConfig] = useState<TranscriptionConfig>(DEFAULT_TRANSCRIPTION_CONFIG)
+  const [isSavingTranscription, setIsSavingTranscription] = useState(false)
+
   // Collapsible sections
   const [isStrategiesOpen, setIsStrategiesOpen] = useState(false)
 
@@ -679,6 +702,10 @@ export default function AICenterPage() {
       if (data.ocr) {
         setOcrConfig(data.ocr)
       }
+
+      if (data.transcription) {
+        setTranscriptionConfig(data.transcription)
+      }
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'Erro ao carregar configuracoes de IA'
@@ -803,6 +830,35 @@ export default function AICenterPage() {
     }
   }
 
+  // Transcription Handlers
+  const handleMediaAnalysisToggle = async (enabled: boolean) => {
+    setIsSavingTranscription(true)
+    try {
+      await settingsService.saveAIConfig({ media_analysis_enabled: enabled })
+      setTranscriptionConfig((current) => ({ ...current, mediaAnalysisEnabled: enabled }))
+      toast.success(enabled ? 'Análise de mídias ativada' : 'Análise de mídias desativada')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro ao salvar análise de mídias'
+      toast.error(message)
+    } finally {
+      setIsSavingTranscription(false)
+    }
+  }
+
+  const handleTranscriptionProviderChange = async (newProvider: TranscriptionProviderType) => {
+    setIsSavingTranscription(true)
+    try {
+      await settingsService.saveAIConfig({ transcription_provider: newProvider })
+      setTranscriptionConfig((current) => ({ ...current, provider: newProvider }))
+      toast.success('Provider de transcrição atualizado')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro ao salvar provider de transcrição'
+      toast.error(message)
+    } finally {
+      setIsSavingTranscription(false)
+    }
+  }
+
   const handleSaveMistralKey = async () => {
     const apiKey = mistralKeyDraft.trim()
     if (!apiKey) {
@@ -1314,6 +1370,82 @@ export default function AICenterPage() {
           </div>
         </section>
 
+        {/* Transcription / Inbox Media Section */}
+        <section className="glass-panel rounded-2xl p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 text-sm font-semibold text-[var(--ds-text-primary)]">
+                <AudioLines className="size-4 text-emerald-300" />
+                Transcrição e mídias do inbox
+              </div>
+              <p className="text-sm text-[var(--ds-text-secondary)]">
+                Transcreve áudios e descreve imagens/documentos recebidos para atendentes e agentes.
+              </p>
+            </div>
+            <MockSwitch
+              on={transcriptionConfig.mediaAnalysisEnabled}
+              onToggle={handleMediaAnalysisToggle}
+              disabled={isSavingTranscription}
+              label="Ativar análise de mídias"
+            />
+          </div>
+
+          {transcriptionConfig.mediaAnalysisEnabled && (
+            <div className="mt-5 space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                {TRANSCRIPTION_PROVIDERS.map((item) => {
+                  const isConfigured = providerStatuses[item.statusKey].isConfigured
+                  const isActive = transcriptionConfig.provider === item.id
+                  return (
+                    <div
+                      key={item.id}
+                      className={`flex items-center justify-between gap-3 rounded-xl border p-4 transition ${
+                        isActive
+                          ? 'border-emerald-500/30 bg-emerald-500/5'
+                          : 'border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)]'
+                      }`}
+                    >
+                      <div>
+                        <div className="text-sm font-semibold text-[var(--ds-text-primary)]">{item.name}</div>
+                        <div className="text-xs text-[var(--ds-text-secondary)]">
+                          {isConfigured ? item.desc : `Requer chave ${item.name} configurada acima`}
+                        </div>
+                      </div>
+                      {isActive && isConfigured ? (
+                        <span className="rounded-full bg-emerald-500/20 px-2.5 py-1 text-xs font-medium text-emerald-300">
+                          Em uso
+                        </span>
+                      ) : isConfigured ? (
+                        <button
+                          type="button"
+                          onClick={() => handleTranscriptionProviderChange(item.id)}
+                          disabled={isSavingTranscription}
+                          className="rounded-lg border border-[var(--ds-border-default)] bg-[var(--ds-bg-hover)] px-3 py-1.5 text-xs font-medium text-[var(--ds-text-primary)] transition hover:bg-[var(--ds-bg-surface)]"
+                        >
+                          Usar {item.name}
+                        </button>
+                      ) : (
+                        <span className="rounded-full border border-amber-500/30 bg-amber-500/10 px-2.5 py-1 text-xs text-amber-300">
+                          Sem chave
+                        </span>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+
+              <div className="flex items-start gap-2 rounded-lg border border-[var(--ds-border-subtle)] bg-[var(--ds-bg-tertiary)] p-3 text-xs text-[var(--ds-text-secondary)]">
+                <Info className="mt-0.5 size-4 shrink-0 text-emerald-400" />
+                <span>
+                  Notas de voz usam o provider de transcrição; imagens e documentos usam o provider de OCR
+                  configurado acima. O texto aparece na conversa, entra na busca do inbox e é enviado ao
+                  agente de IA no lugar da mídia.
+                </span>
+              </div>
+            </div>
+          )}
+        </section>
+
         {/* Mem0 Memory Section */}
         <Mem0Panel />
 
@@ -0,0 +1,273 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { ScrollText, Download, Loader2, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Page, PageActions, PageDescription, PageHeader, PageTitle } from '@/components/ui/page'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { auditService } from '@/services/auditService'
+import type { AuditActorType, AuditLogEntry, AuditLogFilters } from '@/types'
+
+const PAGE_SIZE = 50
+
+const ACTION_OPTIONS = [
+  { value: '', label: 'Todas as ações' },
+  { value: 'campaign.', label: 'Campanhas' },
+  { value: 'template.', label: 'Templates' },
+  { value: 'contact.', label: 'Contatos' },
+  { value: 'settings.', label: 'Configurações' },
+  { value: 'attendant_token.', label: 'Tokens de atendente' },
+  { value: 'workflow.', label: 'Workflows' },
+  { value: 'update.', label: 'Atualizações' },
+  { value: 'user.', label: 'Usuários' },
+  { value: 'webhook.', label: 'Webhooks' },
+  { value: 'phone_number.', label: 'Números de WhatsApp' },
+  { value: 'inbound_webhook.', label: 'Webhooks de entrada' },
+  { value: 'crm.', label: 'Conectores de CRM' },
+  { value: 'auth.', label: 'Login/Logout' },
+]
+
+const ACTOR_LABELS: Record<AuditActorType, string> = {
+  user: 'Usuário',
+  api_key: 'Chave de API',
+  attendant: 'Atendente',
+  system: 'Sistema',
+}
+
+const selectClass =
+  'px-3 py-2 rounded-md bg-zinc-800 border border-zinc-700 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-primary-500'
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '-'
+  return new Date(date).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function EntryDetails({ entry }: { entry: AuditLogEntry }) {
+  const changes = Object.entries(entry.changes ?? {})
+  const hasMetadata = Object.keys(entry.metadata).length > 0
+
+  return (
+    <div className="space-y-3 text-xs">
+      {changes.length > 0 && (
+        <table className="w-full">
+          <thead>
+            <tr className="text-zinc-500">
+              <th className="text-left font-medium pb-1">Campo</th>
+              <th className="text-left font-medium pb-1">Antes</th>
+              <th className="text-left font-medium pb-1">Depois</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(([field, change]) => (
+              <tr key={field} className="align-top">
+                <td className="pr-3 py-0.5 font-mono text-zinc-400">{field}</td>
+                <td className="pr-3 py-0.5 text-red-300 break-all">{formatValue(change.before)}</td>
+                <td className="py-0.5 text-green-300 break-all">{formatValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {hasMetadata && (
+        <pre className="rounded bg-zinc-800/60 p-2 text-zinc-400 whitespace-pre-wrap break-all">
+          {JSON.stringify(entry.metadata, null, 2)}
+        </pre>
+      )}
+      {changes.length === 0 && !hasMetadata && <p className="text-zinc-500">Sem detalhes adicionais.</p>}
+    </div>
+  )
+}
+
+// =============================================================================
+// Main Page
+// =============================================================================
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [offset, setOffset] = useState(0)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const queryFilters: AuditLogFilters = { ...filters, limit: PAGE_SIZE, offset }
+
+  const { data, isLoading, isFetching } = useQuery({
+    queryKey: ['audit-log', queryFilters],
+    queryFn: () => auditService.list(queryFilters),
+    placeholderData: (previous) => previous,
+  })
+
+  const entries = data?.data ?? []
+  const total = data?.total ?? 0
+
+  const updateFilter = (patch: AuditLogFilters) => {
+    setFilters((current) => ({ ...current, ...patch }))
+    setOffset(0)
+  }
+
+  return (
+    <Page>
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-primary-500/10 flex items-center justify-center">
+            <ScrollText className="w-6 h-6 text-primary-400" />
+          </div>
+          <div>
+            <PageTitle>Auditoria</PageTitle>
+            <PageDescription>
+              Quem disparou, alterou ou removeu o quê — com IP e valores antes/depois
+            </PageDescription>
+          </div>
+        </div>
+        <PageActions>
+          <Button variant="outline" asChild>
+            <a href={auditService.getExportUrl(filters)} download>
+              <Download className="w-4 h-4 mr-2" />
+              Exportar CSV
+            </a>
+          </Button>
+        </PageActions>
+      </PageHeader>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            className={selectClass}
+            value={filters.action ?? ''}
+            onChange={(e) => updateFilter({ action: e.target.value || undefined })}
+          >
+            {ACTION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className={selectClass}
+            value={filters.actorType ?? ''}
+            onChange={(e) => updateFilter({ actorType: (e.target.value || undefined) as AuditActorType | undefined })}
+          >
+            <option value="">Todos os atores</option>
+            {(Object.keys(ACTOR_LABELS) as AuditActorType[]).map((type) => (
+              <option key={type} value={type}>
+                {ACTOR_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <Input
+            placeholder="ID da entidade"
+            value={filters.entityId ?? ''}
+            onChange={(e) => updateFilter({ entityId: e.target.value.trim() || undefined })}
+            className="max-w-48"
+          />
+          <Input
+            type="date"
+            value={filters.from?.slice(0, 10) ?? ''}
+            onChange={(e) => updateFilter({ from: e.target.value ? `${e.target.value}T00:00:00` : undefined })}
+            className="max-w-40"
+            title="De"
+          />
+          <Input
+            type="date"
+            value={filters.to?.slice(0, 10) ?? ''}
+            onChange={(e) => updateFilter({ to: e.target.value ? `${e.target.value}T23:59:59` : undefined })}
+            className="max-w-40"
+            title="Até"
+          />
+          {isFetching && <Loader2 className="w-4 h-4 animate-spin text-zinc-500" />}
+        </div>
+
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-48">
+              <Loader2 className="w-6 h-6 animate-spin text-zinc-500" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="p-6 text-sm text-zinc-500">Nenhum evento encontrado para os filtros selecionados.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="border-b border-zinc-800 text-xs text-zinc-500">
+                <tr>
+                  <th className="text-left font-medium px-4 py-3">Data</th>
+                  <th className="text-left font-medium px-4 py-3">Ator</th>
+                  <th className="text-left font-medium px-4 py-3">Ação</th>
+                  <th className="text-left font-medium px-4 py-3">Entidade</th>
+                  <th className="text-left font-medium px-4 py-3">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      className="border-b border-zinc-800/60 cursor-pointer hover:bg-zinc-800/40"
+                    >
+                      <td className="px-4 py-2.5 text-zinc-400 whitespace-nowrap">{formatDate(entry.createdAt)}</td>
+                      <td className="px-4 py-2.5">
+                        <span className="text-zinc-200">{entry.actorLabel || entry.actorId || '—'}</span>
+                        <span className="ml-2 text-xs text-zinc-500">{ACTOR_LABELS[entry.actorType]}</span>
+                      </td>
+                      <td className="px-4 py-2.5 font-mono text-xs text-zinc-300">{entry.action}</td>
+                      <td className="px-4 py-2.5 text-zinc-400 max-w-64 truncate">
+                        {entry.entityType ? `${entry.entityType}${entry.entityId ? ` • ${entry.entityId}` : ''}` : '—'}
+                      </td>
+                      <td className="px-4 py-2.5 text-zinc-500">{entry.ip || '—'}</td>
+                    </tr>
+                    {expandedId === entry.id && (
+                      <tr className="border-b border-zinc-800/60 bg-zinc-950/40">
+                        <td colSpan={5} className="px-4 py-3">
+                          <EntryDetails entry={entry} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm text-zinc-500">
+            <span>
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} de {total}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              >
+                <ChevronLeft size={14} />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset + PAGE_SIZE >= total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                <ChevronRight size={14} />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Page>
+  )
+}
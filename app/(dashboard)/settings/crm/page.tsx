@@ -0,0 +1,915 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  Contact,
+  Plus,
+  Copy,
+  Trash2,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  KeyRound,
+  PlugZap,
+  Download,
+  ChevronLeft,
+  ChevronRight,
+  X,
+} from 'lucide-react'
+import { Page, PageDescription, PageHeader, PageTitle } from '@/components/ui/page'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { crmService, type CrmConnectorUpdate } from '@/services/crmService'
+import { customFieldService } from '@/services/customFieldService'
+import {
+  CRM_CONTACT_FIELDS,
+  CRM_CUSTOM_FIELD_PREFIX,
+  CRM_EVENT_LABELS,
+  CRM_EVENT_TYPES,
+  CRM_PROVIDER_IDS,
+  CRM_PROVIDERS,
+  CRM_SYNC_LOG_STATUS_LABELS,
+  CRM_SYNC_MAX_ATTEMPTS,
+} from '@/lib/business/crm'
+import type {
+  CrmConnector,
+  CrmEventType,
+  CrmFieldMapping,
+  CrmListMapping,
+  CrmMappingDirection,
+  CrmProvider,
+  CrmSyncLog,
+  CrmSyncLogDirection,
+  CrmSyncLogFilters,
+  CrmSyncLogStatus,
+  CustomFieldDefinition,
+} from '@/types'
+
+const PAGE_SIZE = 50
+
+const selectClass =
+  'px-3 py-2 rounded-md bg-zinc-800 border border-zinc-700 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-primary-500'
+
+const STATUS_CLASSES: Record<CrmSyncLogStatus, string> = {
+  pending: 'bg-amber-500/10 text-amber-300',
+  success: 'bg-green-500/10 text-green-300',
+  failed: 'bg-red-500/10 text-red-300',
+  skipped: 'bg-zinc-500/10 text-zinc-400',
+}
+
+const DIRECTION_LABELS: Record<CrmMappingDirection, string> = {
+  both: 'Nos dois sentidos',
+  push: 'SmartZap → CRM',
+  pull: 'CRM → SmartZap',
+}
+
+const LOG_DIRECTION_LABELS: Record<CrmSyncLogDirection, string> = {
+  push: 'Envio',
+  pull: 'Importação',
+}
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '-'
+  return new Date(date).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+const copyToClipboard = (value: string, message: string) => {
+  navigator.clipboard.writeText(value)
+  toast.success(message)
+}
+
+const getInboundWebhookUrl = (connector: CrmConnector) =>
+  `${window.location.origin}/api/webhook/crm/${connector.id}?token=${connector.inboundToken}`
+
+const describeLog = (log: CrmSyncLog) => {
+  if (log.kind === 'event' && log.eventType) return CRM_EVENT_LABELS[log.eventType]
+  if (log.kind === 'import') return 'Importação de contatos'
+  return 'Contato'
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function EventCheckboxes({
+  value,
+  onChange,
+}: {
+  value: CrmEventType[]
+  onChange: (eventTypes: CrmEventType[]) => void
+}) {
+  const toggle = (eventType: CrmEventType) => {
+    onChange(value.includes(eventType) ? value.filter((e) => e !== eventType) : [...value, eventType])
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+      {CRM_EVENT_TYPES.map((eventType) => (
+        <label key={eventType} className="flex items-start gap-2 text-xs text-zinc-300">
+          <input
+            type="checkbox"
+            className="mt-0.5"
+            checked={value.includes(eventType)}
+            onChange={() => toggle(eventType)}
+          />
+          <span>
+            <span className="font-mono text-zinc-200">{eventType}</span>
+            <span className="block text-zinc-500">{CRM_EVENT_LABELS[eventType]}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+function FieldMappingsEditor({
+  value,
+  onChange,
+  customFields,
+}: {
+  value: CrmFieldMapping[]
+  onChange: (mappings: CrmFieldMapping[]) => void
+  customFields: CustomFieldDefinition[]
+}) {
+  const update = (index: number, patch: Partial<CrmFieldMapping>) => {
+    onChange(value.map((mapping, i) => (i === index ? { ...mapping, ...patch } : mapping)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.map((mapping, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <select
+            className={selectClass}
+            value={mapping.field}
+            onChange={(e) => update(index, { field: e.target.value })}
+          >
+            {CRM_CONTACT_FIELDS.map((field) => (
+              <option key={field.value} value={field.value}>
+                {field.label}
+              </option>
+            ))}
+            {customFields.map((field) => (
+              <option key={field.id} value={`${CRM_CUSTOM_FIELD_PREFIX}${field.key}`}>
+                {field.label}
+              </option>
+            ))}
+          </select>
+          <Input
+            placeholder="Propriedade no CRM"
+            value={mapping.crmField}
+            onChange={(e) => update(index, { crmField: e.target.value })}
+            className="max-w-56"
+          />
+          <select
+            className={selectClass}
+            value={mapping.direction}
+            onChange={(e) => update(index, { direction: e.target.value as CrmMappingDirection })}
+          >
+            {(Object.keys(DIRECTION_LABELS) as CrmMappingDirection[]).map((direction) => (
+              <option key={direction} value={direction}>
+                {DIRECTION_LABELS[direction]}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            title="Remover campo"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { field: 'name', crmField: '', direction: 'both' }])}
+      >
+        <Plus size={14} className="mr-1.5" />
+        Adicionar campo
+      </Button>
+    </div>
+  )
+}
+
+function ListMappingsEditor({
+  value,
+  onChange,
+  listLabel,
+}: {
+  value: CrmListMapping[]
+  onChange: (mappings: CrmListMapping[]) => void
+  listLabel: string
+}) {
+  const update = (index: number, patch: Partial<CrmListMapping>) => {
+    onChange(value.map((mapping, i) => (i === index ? { ...mapping, ...patch } : mapping)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.map((mapping, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder="Tag do contato"
+            value={mapping.tag}
+            onChange={(e) => update(index, { tag: e.target.value })}
+            className="max-w-56"
+          />
+          <span className="text-zinc-500">→</span>
+          <Input
+            placeholder={listLabel}
+            value={mapping.list}
+            onChange={(e) => update(index, { list: e.target.value })}
+            className="max-w-56"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            title="Remover lista"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...value, { tag: '', list: '' }])}>
+        <Plus size={14} className="mr-1.5" />
+        Adicionar lista
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Configuração do conector: só o que mudou vai no PATCH (token em branco
+ * mantém o atual).
+ */
+function ConnectorSettings({
+  connector,
+  customFields,
+  onSave,
+  isBusy,
+}: {
+  connector: CrmConnector
+  customFields: CustomFieldDefinition[]
+  onSave: (updates: CrmConnectorUpdate) => void
+  isBusy: boolean
+}) {
+  const provider = CRM_PROVIDERS[connector.provider]
+  const [name, setName] = useState(connector.name)
+  const [apiToken, setApiToken] = useState('')
+  const [baseUrl, setBaseUrl] = useState(connector.baseUrl || '')
+  const [fieldMappings, setFieldMappings] = useState(connector.fieldMappings)
+  const [listMappings, setListMappings] = useState(connector.listMappings)
+  const [optOutField, setOptOutField] = useState(connector.optOutField || '')
+  const [eventTypes, setEventTypes] = useState(connector.eventTypes)
+  const [syncContacts, setSyncContacts] = useState(connector.syncContacts)
+  const [importContacts, setImportContacts] = useState(connector.importContacts)
+
+  const handleSave = () => {
+    if (fieldMappings.some((mapping) => !mapping.crmField.trim())) {
+      toast.error('Informe a propriedade do CRM em todos os campos mapeados')
+      return
+    }
+    if (listMappings.some((mapping) => !mapping.tag.trim() || !mapping.list.trim())) {
+      toast.error('Informe a tag e a lista em todos os mapeamentos de lista')
+      return
+    }
+
+    onSave({
+      name: name.trim(),
+      ...(apiToken.trim() ? { apiToken: apiToken.trim() } : {}),
+      baseUrl: baseUrl.trim() || null,
+      fieldMappings: fieldMappings.map((mapping) => ({ ...mapping, crmField: mapping.crmField.trim() })),
+      listMappings: listMappings.map((mapping) => ({ tag: mapping.tag.trim(), list: mapping.list.trim() })),
+      optOutField: optOutField.trim() || null,
+      eventTypes,
+      syncContacts,
+      importContacts,
+    })
+    setApiToken('')
+  }
+
+  return (
+    <div className="mt-4 border-t border-zinc-800 pt-4 space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="space-y-1 text-xs text-zinc-500">
+          <span>Nome</span>
+          <Input value={name} onChange={(e) => setName(e.target.value)} />
+        </label>
+        <label className="space-y-1 text-xs text-zinc-500">
+          <span>{provider.tokenLabel}</span>
+          <Input
+            type="password"
+            placeholder={`Atual: ${connector.apiToken}`}
+            value={apiToken}
+            onChange={(e) => setApiToken(e.target.value)}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-zinc-500">
+          <span>URL da API (opcional)</span>
+          <Input
+            type="url"
+            placeholder={provider.defaultBaseUrl}
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-zinc-300">Campos</p>
+        <FieldMappingsEditor value={fieldMappings} onChange={setFieldMappings} customFields={customFields} />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-zinc-300">Tags → listas</p>
+        <ListMappingsEditor value={listMappings} onChange={setListMappings} listLabel={provider.listLabel} />
+      </div>
+
+      <label className="block space-y-1 text-xs text-zinc-500 max-w-sm">
+        <span>Propriedade de opt-out no CRM (opcional)</span>
+        <Input
+          placeholder="ex.: whatsapp_opt_out"
+          value={optOutField}
+          onChange={(e) => setOptOutField(e.target.value)}
+        />
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-zinc-300">Eventos na timeline do contato</p>
+        <EventCheckboxes value={eventTypes} onChange={setEventTypes} />
+      </div>
+
+      <div className="flex flex-wrap gap-6 text-xs text-zinc-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={syncContacts} onChange={(e) => setSyncContacts(e.target.checked)} />
+          Enviar contatos criados e alterados
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={importContacts} onChange={(e) => setImportContacts(e.target.checked)} />
+          Importar contatos do CRM
+        </label>
+      </div>
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} disabled={isBusy || !name.trim()}>
+          {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Salvar
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function ConnectorRow({
+  connector,
+  customFields,
+  onUpdate,
+  onRemove,
+  isBusy,
+}: {
+  connector: CrmConnector
+  customFields: CustomFieldDefinition[]
+  onUpdate: (updates: CrmConnectorUpdate) => void
+  onRemove: () => void
+  isBusy: boolean
+}) {
+  const queryClient = useQueryClient()
+  const [showSettings, setShowSettings] = useState(false)
+  const provider = CRM_PROVIDERS[connector.provider]
+
+  const testMutation = useMutation({
+    mutationFn: () => crmService.test(connector.id),
+    onSuccess: (result) => {
+      if (result.ok) toast.success(`Conexão com o ${provider.label} funcionando`)
+      else toast.error(result.error || 'Falha na conexão')
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const importMutation = useMutation({
+    mutationFn: () => crmService.importContacts(connector.id),
+    onSuccess: (log) => {
+      if (log.status === 'failed') toast.error(log.error || 'Falha ao importar contatos')
+      else toast.success(log.summary || 'Importação concluída')
+      queryClient.invalidateQueries({ queryKey: ['crm-connectors'] })
+      queryClient.invalidateQueries({ queryKey: ['crm-sync-logs'] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const canImport = provider.supportsImport && connector.importContacts && connector.isActive
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className={connector.isActive ? 'font-medium text-zinc-100 truncate' : 'font-medium text-zinc-500 truncate'}>
+            {connector.name}
+            {!connector.isActive && ' (desativado)'}
+          </p>
+          <p className="text-xs text-zinc-500 truncate">
+            {provider.label}
+            {connector.baseUrl ? ` • ${connector.baseUrl}` : ''}
+            {connector.lastImportAt ? ` • última importação ${formatDate(connector.lastImportAt)}` : ''}
+          </p>
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="mt-1 text-xs text-primary-400 hover:text-primary-300"
+          >
+            {connector.fieldMappings.length} campo(s), {connector.listMappings.length} lista(s),{' '}
+            {connector.eventTypes.length} evento(s)
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={testMutation.isPending}
+            onClick={() => testMutation.mutate()}
+          >
+            {testMutation.isPending ? (
+              <Loader2 size={14} className="mr-1.5 animate-spin" />
+            ) : (
+              <PlugZap size={14} className="mr-1.5" />
+            )}
+            Testar
+          </Button>
+          {canImport && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={importMutation.isPending}
+              onClick={() => importMutation.mutate()}
+            >
+              {importMutation.isPending ? (
+                <Loader2 size={14} className="mr-1.5 animate-spin" />
+              ) : (
+                <Download size={14} className="mr-1.5" />
+              )}
+              Importar
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy}
+            onClick={() => onUpdate({ isActive: !connector.isActive })}
+          >
+            {connector.isActive ? 'Desativar' : 'Reativar'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-400 hover:text-red-300"
+            onClick={onRemove}
+            disabled={isBusy}
+            title="Remover"
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+      </div>
+
+      {provider.supportsInboundWebhook && connector.importContacts && (
+        <div className="mt-3 flex items-center gap-2 rounded-md bg-zinc-800/60 px-3 py-2">
+          <p className="text-xs text-zinc-500 shrink-0">Webhook de entrada</p>
+          <code className="min-w-0 flex-1 truncate text-xs text-zinc-300">{getInboundWebhookUrl(connector)}</code>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => copyToClipboard(getInboundWebhookUrl(connector), 'URL copiada!')}
+            title="Copiar URL"
+          >
+            <Copy size={14} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={isBusy}
+            onClick={() => {
+              if (confirm(`Gerar uma nova URL? O webhook cadastrado no ${provider.label} precisa ser atualizado.`)) {
+                onUpdate({ rotateInboundToken: true })
+              }
+            }}
+            title="Gerar nova URL"
+          >
+            <KeyRound size={14} />
+          </Button>
+        </div>
+      )}
+
+      {showSettings && (
+        <ConnectorSettings
+          connector={connector}
+          customFields={customFields}
+          onSave={onUpdate}
+          isBusy={isBusy}
+        />
+      )}
+    </div>
+  )
+}
+
+function LogDetails({ log }: { log: CrmSyncLog }) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 text-xs">
+      <div>
+        <p className="mb-1 text-zinc-500">Dados</p>
+        <pre className="rounded bg-zinc-800/60 p-2 text-zinc-400 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+          {JSON.stringify(log.payload, null, 2)}
+        </pre>
+      </div>
+      <div>
+        <p className="mb-1 text-zinc-500">Resultado</p>
+        <pre className="rounded bg-zinc-800/60 p-2 text-zinc-400 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+          {log.error || log.summary || 'Sem detalhes.'}
+        </pre>
+        {log.externalId && <p className="mt-2 text-zinc-500">ID no CRM: {log.externalId}</p>}
+        {log.nextRetryAt && (
+          <p className="mt-2 text-zinc-500">Próxima tentativa: {formatDate(log.nextRetryAt)}</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Log de sincronização: envios (contatos e eventos) e importações.
+ * Reenviar cria uma nova linha com os mesmos dados.
+ */
+function SyncLogSection({ connectors }: { connectors: CrmConnector[] }) {
+  const queryClient = useQueryClient()
+  const [filters, setFilters] = useState<CrmSyncLogFilters>({})
+  const [offset, setOffset] = useState(0)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const queryFilters: CrmSyncLogFilters = { ...filters, limit: PAGE_SIZE, offset }
+
+  const { data, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['crm-sync-logs', queryFilters],
+    queryFn: () => crmService.getLogs(queryFilters),
+    placeholderData: (previous) => previous,
+  })
+
+  const retryMutation = useMutation({
+    mutationFn: crmService.retry,
+    onSuccess: () => {
+      toast.success('Sincronização reenviada')
+      queryClient.invalidateQueries({ queryKey: ['crm-sync-logs'] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const logs = data?.data ?? []
+  const total = data?.total ?? 0
+  const connectorNames = new Map(connectors.map((connector) => [connector.id, connector.name]))
+
+  const updateFilter = (patch: CrmSyncLogFilters) => {
+    setFilters((current) => ({ ...current, ...patch }))
+    setOffset(0)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-sm font-medium text-zinc-100 mr-auto">Sincronizações</h2>
+        <select
+          className={selectClass}
+          value={filters.connectorId ?? ''}
+          onChange={(e) => updateFilter({ connectorId: e.target.value || undefined })}
+        >
+          <option value="">Todos os conectores</option>
+          {connectors.map((connector) => (
+            <option key={connector.id} value={connector.id}>
+              {connector.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={filters.direction ?? ''}
+          onChange={(e) => updateFilter({ direction: (e.target.value || undefined) as CrmSyncLogDirection | undefined })}
+        >
+          <option value="">Envio e importação</option>
+          {(Object.keys(LOG_DIRECTION_LABELS) as CrmSyncLogDirection[]).map((direction) => (
+            <option key={direction} value={direction}>
+              {LOG_DIRECTION_LABELS[direction]}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={filters.status ?? ''}
+          onChange={(e) => updateFilter({ status: (e.target.value || undefined) as CrmSyncLogStatus | undefined })}
+        >
+          <option value="">Todos os status</option>
+          {(Object.keys(CRM_SYNC_LOG_STATUS_LABELS) as CrmSyncLogStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {CRM_SYNC_LOG_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} title="Atualizar">
+          {isFetching ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+        </Button>
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <Loader2 className="w-6 h-6 animate-spin text-zinc-500" />
+          </div>
+        ) : logs.length === 0 ? (
+          <p className="p-6 text-sm text-zinc-500">Nenhuma sincronização encontrada para os filtros selecionados.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="border-b border-zinc-800 text-xs text-zinc-500">
+              <tr>
+                <th className="text-left font-medium px-4 py-3">Data</th>
+                <th className="text-left font-medium px-4 py-3">Tipo</th>
+                <th className="text-left font-medium px-4 py-3">Conector</th>
+                <th className="text-left font-medium px-4 py-3">Contato</th>
+                <th className="text-left font-medium px-4 py-3">Status</th>
+                <th className="text-left font-medium px-4 py-3">Tentativas</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map((log) => (
+                <Fragment key={log.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+                    className="border-b border-zinc-800/60 cursor-pointer hover:bg-zinc-800/40"
+                  >
+                    <td className="px-4 py-2.5 text-zinc-400 whitespace-nowrap">{formatDate(log.createdAt)}</td>
+                    <td className="px-4 py-2.5 text-zinc-300">
+                      {describeLog(log)}
+                      <span className="block text-xs text-zinc-500">{LOG_DIRECTION_LABELS[log.direction]}</span>
+                    </td>
+                    <td className="px-4 py-2.5 text-zinc-400 max-w-48 truncate">
+                      {connectorNames.get(log.connectorId) || '—'}
+                    </td>
+                    <td className="px-4 py-2.5 text-zinc-400">{log.phone || '—'}</td>
+                    <td className="px-4 py-2.5">
+                      <span className={`rounded px-2 py-0.5 text-xs ${STATUS_CLASSES[log.status]}`}>
+                        {CRM_SYNC_LOG_STATUS_LABELS[log.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2.5 text-zinc-500">
+                      {log.kind === 'import' ? '—' : `${log.attempts}/${CRM_SYNC_MAX_ATTEMPTS}`}
+                    </td>
+                    <td className="px-4 py-2.5 text-right">
+                      {log.direction === 'push' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={retryMutation.isPending}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            retryMutation.mutate(log.id)
+                          }}
+                        >
+                          <RotateCcw size={14} className="mr-1.5" />
+                          Reenviar
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === log.id && (
+                    <tr className="border-b border-zinc-800/60 bg-zinc-950/40">
+                      <td colSpan={7} className="px-4 py-3">
+                        <LogDetails log={log} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-zinc-500">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} de {total}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              <ChevronLeft size={14} />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              <ChevronRight size={14} />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Main Page
+// =============================================================================
+
+export default function CrmPage() {
+  const queryClient = useQueryClient()
+  const [provider, setProvider] = useState<CrmProvider>('hubspot')
+  const [name, setName] = useState('')
+  const [apiToken, setApiToken] = useState('')
+  const [baseUrl, setBaseUrl] = useState('')
+
+  const { data: connectors = [], isLoading } = useQuery({
+    queryKey: ['crm-connectors'],
+    queryFn: crmService.getAll,
+  })
+
+  const { data: customFields = [] } = useQuery({
+    queryKey: ['customFields'],
+    queryFn: () => customFieldService.getAll('contact'),
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['crm-connectors'] })
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      crmService.create({
+        provider,
+        name: name.trim() || CRM_PROVIDERS[provider].label,
+        apiToken: apiToken.trim(),
+        baseUrl: baseUrl.trim() || null,
+      }),
+    onSuccess: () => {
+      toast.success('Conector cadastrado')
+      setName('')
+      setApiToken('')
+      setBaseUrl('')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: CrmConnectorUpdate }) => crmService.update(id, updates),
+    onSuccess: (_updated, { updates }) => {
+      toast.success(updates.rotateInboundToken ? 'Nova URL gerada' : 'Conector atualizado')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: crmService.delete,
+    onSuccess: () => {
+      toast.success('Conector removido')
+      invalidate()
+      queryClient.invalidateQueries({ queryKey: ['crm-sync-logs'] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleRemove = (connector: CrmConnector) => {
+    if (confirm(`Remover "${connector.name}"? O log de sincronização deste conector também será apagado.`)) {
+      removeMutation.mutate(connector.id)
+    }
+  }
+
+  const canCreate = apiToken.trim().length >= 8
+
+  if (isLoading) {
+    return (
+      <Page>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-zinc-500" />
+        </div>
+      </Page>
+    )
+  }
+
+  return (
+    <Page>
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-primary-500/10 flex items-center justify-center">
+            <Contact className="w-6 h-6 text-primary-400" />
+          </div>
+          <div>
+            <PageTitle>CRM</PageTitle>
+            <PageDescription>
+              Sincronize contatos com HubSpot, RD Station e Pipedrive e registre os eventos do WhatsApp na
+              timeline de cada contato
+            </PageDescription>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="space-y-6">
+        <div className="max-w-4xl space-y-6">
+          <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (canCreate) createMutation.mutate()
+              }}
+              className="space-y-3"
+            >
+              <div className="flex items-center gap-3">
+                <select
+                  className={selectClass}
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value as CrmProvider)}
+                >
+                  {CRM_PROVIDER_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {CRM_PROVIDERS[id].label}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  placeholder={`Nome (ex.: ${CRM_PROVIDERS[provider].label})`}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="max-w-48"
+                />
+                <Input
+                  type="password"
+                  placeholder={CRM_PROVIDERS[provider].tokenLabel}
+                  value={apiToken}
+                  onChange={(e) => setApiToken(e.target.value)}
+                />
+                <Button type="submit" disabled={createMutation.isPending || !canCreate}>
+                  {createMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4 mr-2" />
+                  )}
+                  Conectar
+                </Button>
+              </div>
+              <Input
+                type="url"
+                placeholder={`URL da API (opcional, padrão ${CRM_PROVIDERS[provider].defaultBaseUrl})`}
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+              />
+            </form>
+
+            <p className="border-t border-zinc-800 pt-3 text-xs text-zinc-500">
+              O conector começa com o mapeamento de campos padrão do provedor; ajuste campos, listas e eventos
+              depois de cadastrar. O contato é localizado no CRM pelo telefone ou email
+              {CRM_PROVIDERS[provider].requiresEmail ? ' (no RD Station, contatos sem email são ignorados)' : ''}.
+              Envios com erro temporário são tentados novamente até {CRM_SYNC_MAX_ATTEMPTS} vezes.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            {connectors.length === 0 ? (
+              <p className="text-sm text-zinc-500">Nenhum CRM conectado.</p>
+            ) : (
+              connectors.map((connector) => (
+                <ConnectorRow
+                  key={connector.id}
+                  connector={connector}
+                  customFields={customFields}
+                  onUpdate={(updates) => updateMutation.mutate({ id: connector.id, updates })}
+                  onRemove={() => handleRemove(connector)}
+                  isBusy={updateMutation.isPending || removeMutation.isPending}
+                />
+              ))
+            )}
+          </div>
+        </div>
+
+        <SyncLogSection connectors={connectors} />
+      </div>
+    </Page>
+  )
+}
@@ -0,0 +1,834 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  ArrowDownToLine,
+  Plus,
+  Copy,
+  Trash2,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  KeyRound,
+  X,
+} from 'lucide-react'
+import { Page, PageDescription, PageHeader, PageTitle } from '@/components/ui/page'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { inboundWebhookService, type InboundWebhookInput } from '@/services/inboundWebhookService'
+import { customFieldService } from '@/services/customFieldService'
+import { templateService } from '@/services/templateService'
+import { api } from '@/lib/builder/api-client'
+import { buildTemplateSpecV1 } from '@/lib/whatsapp/template-contract'
+import {
+  INBOUND_WEBHOOK_ACTION_LABELS,
+  INBOUND_WEBHOOK_ACTIONS,
+  INBOUND_WEBHOOK_EVENT_STATUS_LABELS,
+  INBOUND_WEBHOOK_EVENTS_KEPT,
+  listJsonPaths,
+  validateInboundWebhookAction,
+} from '@/lib/business/webhooks'
+import type {
+  CustomFieldDefinition,
+  InboundWebhook,
+  InboundWebhookAction,
+  InboundWebhookEvent,
+  InboundWebhookEventStatus,
+  InboundWebhookFieldMapping,
+  InboundWebhookTemplateVariables,
+  Template,
+} from '@/types'
+
+const selectClass =
+  'px-3 py-2 rounded-md bg-zinc-800 border border-zinc-700 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-primary-500'
+
+const STATUS_CLASSES: Record<InboundWebhookEventStatus, string> = {
+  processed: 'bg-green-500/10 text-green-300',
+  ignored: 'bg-zinc-500/10 text-zinc-400',
+  failed: 'bg-red-500/10 text-red-300',
+}
+
+const VARIABLE_GROUP_LABELS = { header: 'Cabeçalho', body: 'Corpo', buttons: 'Botão' } as const
+
+const EMPTY_MAPPING: InboundWebhookFieldMapping = { phone: '', name: '', email: '', customFields: [] }
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '-'
+  return new Date(date).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+const copyToClipboard = (value: string, message: string) => {
+  navigator.clipboard.writeText(value)
+  toast.success(message)
+}
+
+const getWebhookUrl = (webhook: InboundWebhook) =>
+  `${window.location.origin}/api/webhook/inbound/${webhook.id}?token=${webhook.token}`
+
+const parseTags = (value: string) =>
+  Array.from(new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean)))
+
+/** Variáveis que o template aprovado exige, por componente (chaves no formato do precheck) */
+const getTemplateVariableKeys = (template: Template | undefined) => {
+  if (!template) return null
+  try {
+    const spec = buildTemplateSpecV1(template)
+    return {
+      header: spec.header?.requiredKeys ?? [],
+      body: spec.body.requiredKeys,
+      buttons: spec.buttons.flatMap((button) =>
+        button.kind === 'url' ? button.requiredKeys.map((key) => `button_${button.index}_${key}`) : []
+      ),
+    }
+  } catch {
+    return null
+  }
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function FieldMappingEditor({
+  value,
+  onChange,
+  customFields,
+}: {
+  value: InboundWebhookFieldMapping
+  onChange: (mapping: InboundWebhookFieldMapping) => void
+  customFields: CustomFieldDefinition[]
+}) {
+  const fields = value.customFields || []
+  const updateField = (index: number, patch: Partial<{ key: string; path: string }>) => {
+    onChange({ ...value, customFields: fields.map((field, i) => (i === index ? { ...field, ...patch } : field)) })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="space-y-1 text-xs text-zinc-500">
+          <span>Telefone (obrigatório)</span>
+          <Input
+            placeholder="$.buyer.phone"
+            value={value.phone}
+            onChange={(e) => onChange({ ...value, phone: e.target.value })}
+            className="font-mono"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-zinc-500">
+          <span>Nome</span>
+          <Input
+            placeholder="$.buyer.name"
+            value={value.name || ''}
+            onChange={(e) => onChange({ ...value, name: e.target.value })}
+            className="font-mono"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-zinc-500">
+          <span>Email</span>
+          <Input
+            placeholder="$.buyer.email"
+            value={value.email || ''}
+            onChange={(e) => onChange({ ...value, email: e.target.value })}
+            className="font-mono"
+          />
+        </label>
+      </div>
+
+      {fields.map((field, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <select
+            className={selectClass}
+            value={field.key}
+            onChange={(e) => updateField(index, { key: e.target.value })}
+          >
+            <option value="">Campo personalizado…</option>
+            {customFields.map((customField) => (
+              <option key={customField.id} value={customField.key}>
+                {customField.label}
+              </option>
+            ))}
+          </select>
+          <span className="text-zinc-500">←</span>
+          <Input
+            placeholder="$.purchase.transaction"
+            value={field.path}
+            onChange={(e) => updateField(index, { path: e.target.value })}
+            className="max-w-72 font-mono"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onChange({ ...value, customFields: fields.filter((_, i) => i !== index) })}
+            title="Remover campo"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...value, customFields: [...fields, { key: '', path: '' }] })}
+      >
+        <Plus size={14} className="mr-1.5" />
+        Campo personalizado
+      </Button>
+    </div>
+  )
+}
+
+function TemplateVariablesEditor({
+  template,
+  value,
+  onChange,
+}: {
+  template: Template | undefined
+  value: InboundWebhookTemplateVariables
+  onChange: (variables: InboundWebhookTemplateVariables) => void
+}) {
+  const keys = getTemplateVariableKeys(template)
+  if (!template) return null
+  if (!keys) {
+    return <p className="text-xs text-red-300">Este template não pode ser enviado pelo webhook (formato não suportado).</p>
+  }
+
+  const groups = (['header', 'body', 'buttons'] as const).filter((group) => keys[group].length > 0)
+  if (groups.length === 0) {
+    return <p className="text-xs text-zinc-500">Este template não tem variáveis.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {groups.map((group) =>
+        keys[group].map((key) => (
+          <label key={`${group}-${key}`} className="flex items-center gap-2 text-xs text-zinc-500">
+            <span className="w-32 shrink-0 font-mono">
+              {VARIABLE_GROUP_LABELS[group]} {group === 'buttons' ? key.replace('button_', '#') : `{{${key}}}`}
+            </span>
+            <Input
+              placeholder="$.order.id, {{nome}} ou texto fixo"
+              value={value[group]?.[key] || ''}
+              onChange={(e) => onChange({ ...value, [group]: { ...(value[group] || {}), [key]: e.target.value } })}
+            />
+          </label>
+        ))
+      )}
+    </div>
+  )
+}
+
+type WebhookFormValue = Omit<InboundWebhookInput, 'tags'> & { tags: string }
+
+const toFormValue = (webhook?: InboundWebhook): WebhookFormValue => ({
+  name: webhook?.name || '',
+  fieldMapping: webhook ? { ...EMPTY_MAPPING, ...webhook.fieldMapping } : EMPTY_MAPPING,
+  conditionPath: webhook?.conditionPath || '',
+  conditionValue: webhook?.conditionValue || '',
+  action: webhook?.action || 'upsert_contact',
+  tags: (webhook?.tags || []).join(', '),
+  templateName: webhook?.templateName || '',
+  templateVariables: webhook?.templateVariables || {},
+  workflowId: webhook?.workflowId || '',
+})
+
+/**
+ * Formulário de criação e edição: mapeamento, condição e ação do endpoint.
+ */
+function WebhookForm({
+  webhook,
+  customFields,
+  templates,
+  workflows,
+  onSubmit,
+  onCancel,
+  isBusy,
+}: {
+  webhook?: InboundWebhook
+  customFields: CustomFieldDefinition[]
+  templates: Template[]
+  workflows: Array<{ id: string; name: string }>
+  onSubmit: (input: InboundWebhookInput) => void
+  onCancel?: () => void
+  isBusy: boolean
+}) {
+  const [form, setForm] = useState<WebhookFormValue>(() => toFormValue(webhook))
+  const update = (patch: Partial<WebhookFormValue>) => setForm((current) => ({ ...current, ...patch }))
+
+  const approvedTemplates = templates.filter((template) => template.status === 'APPROVED')
+  const selectedTemplate = approvedTemplates.find((template) => template.name === form.templateName)
+
+  const handleSubmit = () => {
+    const tags = parseTags(form.tags)
+    const input: InboundWebhookInput = {
+      ...form,
+      name: form.name.trim(),
+      tags,
+      conditionPath: form.conditionPath?.trim() || null,
+      conditionValue: form.conditionValue?.trim() || null,
+      templateName: form.action === 'send_template' ? form.templateName || null : null,
+      templateVariables: form.action === 'send_template' ? form.templateVariables : {},
+      workflowId: form.action === 'start_workflow' ? form.workflowId || null : null,
+    }
+
+    if (!input.fieldMapping.phone.trim()) {
+      toast.error('Informe o caminho do telefone no payload')
+      return
+    }
+    if ((input.fieldMapping.customFields || []).some((field) => !field.key || !field.path.trim())) {
+      toast.error('Escolha o campo e o caminho em todos os campos personalizados')
+      return
+    }
+    const actionError = validateInboundWebhookAction(input)
+    if (actionError) {
+      toast.error(actionError)
+      return
+    }
+
+    onSubmit(input)
+  }
+
+  return (
+    <div className="space-y-5">
+      <label className="block space-y-1 text-xs text-zinc-500 max-w-sm">
+        <span>Nome</span>
+        <Input
+          placeholder="ex.: Hotmart — compra aprovada"
+          value={form.name}
+          onChange={(e) => update({ name: e.target.value })}
+        />
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-zinc-300">Mapeamento (caminhos JSON do payload)</p>
+        <FieldMappingEditor
+          value={form.fieldMapping}
+          onChange={(fieldMapping) => update({ fieldMapping })}
+          customFields={customFields}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-zinc-300">Condição (opcional)</p>
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="$.event"
+            value={form.conditionPath || ''}
+            onChange={(e) => update({ conditionPath: e.target.value })}
+            className="max-w-56 font-mono"
+          />
+          <span className="text-zinc-500">=</span>
+          <Input
+            placeholder="PURCHASE_APPROVED, PURCHASE_COMPLETE"
+            value={form.conditionValue || ''}
+            onChange={(e) => update({ conditionValue: e.target.value })}
+          />
+        </div>
+        <p className="text-xs text-zinc-500">
+          Payloads que não atendem a condição ficam no inspetor como ignorados. Separe vários valores por vírgula.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="space-y-1 text-xs text-zinc-500">
+          <span>Ação</span>
+          <select
+            className={`${selectClass} w-full`}
+            value={form.action}
+            onChange={(e) => update({ action: e.target.value as InboundWebhookAction })}
+          >
+            {INBOUND_WEBHOOK_ACTIONS.map((action) => (
+              <option key={action} value={action}>
+                {INBOUND_WEBHOOK_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-zinc-500">
+          <span>Tags do contato{form.action === 'add_tag' ? ' (obrigatório)' : ''}</span>
+          <Input
+            placeholder="comprador, curso-x"
+            value={form.tags}
+            onChange={(e) => update({ tags: e.target.value })}
+          />
+        </label>
+      </div>
+
+      {form.action === 'send_template' && (
+        <div className="space-y-2">
+          <select
+            className={selectClass}
+            value={form.templateName || ''}
+            onChange={(e) => update({ templateName: e.target.value, templateVariables: {} })}
+          >
+            <option value="">Selecione um template aprovado…</option>
+            {approvedTemplates.map((template) => (
+              <option key={template.id} value={template.name}>
+                {template.name} ({template.language})
+              </option>
+            ))}
+          </select>
+          <TemplateVariablesEditor
+            template={selectedTemplate}
+            value={form.templateVariables || {}}
+            onChange={(templateVariables) => update({ templateVariables })}
+          />
+        </div>
+      )}
+
+      {form.action === 'start_workflow' && (
+        <div className="space-y-1">
+          <select
+            className={selectClass}
+            value={form.workflowId || ''}
+            onChange={(e) => update({ workflowId: e.target.value })}
+          >
+            <option value="">Selecione um workflow…</option>
+            {workflows.map((workflow) => (
+              <option key={workflow.id} value={workflow.id}>
+                {workflow.name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-zinc-500">
+            O workflow recebe o telefone do contato e o payload completo em <code>webhook</code>. Só versões
+            publicadas são executadas.
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancelar
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={isBusy || !form.name.trim()}>
+          {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {webhook ? 'Salvar' : 'Criar webhook'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function PayloadPaths({ payload }: { payload: unknown }) {
+  const paths = listJsonPaths(payload)
+
+  return (
+    <div className="rounded bg-zinc-800/60 p-2 max-h-64 overflow-auto">
+      {paths.length === 0 ? (
+        <p className="text-xs text-zinc-500">Payload vazio.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <tbody>
+            {paths.map(({ path, value }) => (
+              <tr key={path} className="align-top">
+                <td className="pr-2 py-0.5">
+                  <button
+                    onClick={() => copyToClipboard(path, 'Caminho copiado!')}
+                    className="font-mono text-primary-400 hover:text-primary-300 text-left break-all"
+                    title="Copiar caminho"
+                  >
+                    {path}
+                  </button>
+                </td>
+                <td className="py-0.5 text-zinc-400 break-all">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Inspetor dos últimos payloads: caminhos clicáveis para montar o mapeamento
+ * e reprocessamento com a configuração atual.
+ */
+function EventsInspector({ webhook }: { webhook: InboundWebhook }) {
+  const queryClient = useQueryClient()
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const { data: events = [], isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['inbound-webhook-events', webhook.id],
+    queryFn: () => inboundWebhookService.getEvents(webhook.id),
+  })
+
+  const replayMutation = useMutation({
+    mutationFn: (event: InboundWebhookEvent) => inboundWebhookService.replay(webhook.id, event.id),
+    onSuccess: (event) => {
+      if (event.status === 'failed') toast.error(event.error || 'Falha ao reprocessar')
+      else toast.success(event.summary || 'Payload reprocessado')
+      queryClient.invalidateQueries({ queryKey: ['inbound-webhook-events', webhook.id] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  return (
+    <div className="mt-4 border-t border-zinc-800 pt-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <p className="text-xs font-medium text-zinc-300 mr-auto">
+          Últimos payloads recebidos (até {INBOUND_WEBHOOK_EVENTS_KEPT})
+        </p>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} title="Atualizar">
+          {isFetching ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-24">
+          <Loader2 className="w-5 h-5 animate-spin text-zinc-500" />
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-zinc-500">
+          Nenhum payload recebido ainda. Envie um evento de teste da plataforma para a URL acima.
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="border-b border-zinc-800 text-xs text-zinc-500">
+            <tr>
+              <th className="text-left font-medium px-2 py-2">Data</th>
+              <th className="text-left font-medium px-2 py-2">Status</th>
+              <th className="text-left font-medium px-2 py-2">Contato</th>
+              <th className="text-left font-medium px-2 py-2">Resultado</th>
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event) => (
+              <Fragment key={event.id}>
+                <tr
+                  onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                  className="border-b border-zinc-800/60 cursor-pointer hover:bg-zinc-800/40"
+                >
+                  <td className="px-2 py-2 text-zinc-400 whitespace-nowrap">{formatDate(event.createdAt)}</td>
+                  <td className="px-2 py-2">
+                    <span className={`rounded px-2 py-0.5 text-xs ${STATUS_CLASSES[event.status]}`}>
+                      {INBOUND_WEBHOOK_EVENT_STATUS_LABELS[event.status]}
+                    </span>
+                  </td>
+                  <td className="px-2 py-2 text-zinc-400">{event.phone || '—'}</td>
+                  <td className="px-2 py-2 text-xs text-zinc-500 max-w-72 truncate">
+                    {event.error || event.summary || '—'}
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={replayMutation.isPending}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        replayMutation.mutate(event)
+                      }}
+                    >
+                      <RotateCcw size={14} className="mr-1.5" />
+                      Reprocessar
+                    </Button>
+                  </td>
+                </tr>
+                {expandedId === event.id && (
+                  <tr className="border-b border-zinc-800/60 bg-zinc-950/40">
+                    <td colSpan={5} className="px-2 py-3">
+                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 text-xs">
+                        <div>
+                          <p className="mb-1 text-zinc-500">Caminhos (clique para copiar)</p>
+                          <PayloadPaths payload={event.payload} />
+                        </div>
+                        <div>
+                          <p className="mb-1 text-zinc-500">Payload</p>
+                          <pre className="rounded bg-zinc-800/60 p-2 text-zinc-400 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+                            {JSON.stringify(event.payload, null, 2)}
+                          </pre>
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function WebhookRow({
+  webhook,
+  customFields,
+  templates,
+  workflows,
+  onUpdate,
+  onRemove,
+  isBusy,
+}: {
+  webhook: InboundWebhook
+  customFields: CustomFieldDefinition[]
+  templates: Template[]
+  workflows: Array<{ id: string; name: string }>
+  onUpdate: (updates: Partial<InboundWebhookInput> & { isActive?: boolean; rotateToken?: boolean }) => void
+  onRemove: () => void
+  isBusy: boolean
+}) {
+  const [panel, setPanel] = useState<'settings' | 'events' | null>(null)
+
+  const target =
+    webhook.action === 'send_template'
+      ? webhook.templateName
+      : webhook.action === 'start_workflow'
+        ? workflows.find((workflow) => workflow.id === webhook.workflowId)?.name || webhook.workflowId
+        : webhook.tags.join(', ')
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className={webhook.isActive ? 'font-medium text-zinc-100 truncate' : 'font-medium text-zinc-500 truncate'}>
+            {webhook.name}
+            {!webhook.isActive && ' (desativado)'}
+          </p>
+          <p className="text-xs text-zinc-500 truncate">
+            {INBOUND_WEBHOOK_ACTION_LABELS[webhook.action]}
+            {target ? ` • ${target}` : ''}
+            {webhook.conditionPath ? ` • quando ${webhook.conditionPath} = ${webhook.conditionValue || '(qualquer)'}` : ''}
+          </p>
+          <p className="text-xs text-zinc-500">Último payload: {formatDate(webhook.lastReceivedAt)}</p>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPanel(panel === 'events' ? null : 'events')}
+          >
+            Payloads
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPanel(panel === 'settings' ? null : 'settings')}
+          >
+            Configurar
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy}
+            onClick={() => onUpdate({ isActive: !webhook.isActive })}
+          >
+            {webhook.isActive ? 'Desativar' : 'Reativar'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-400 hover:text-red-300"
+            onClick={onRemove}
+            disabled={isBusy}
+            title="Remover"
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-3 flex items-center gap-2 rounded-md bg-zinc-800/60 px-3 py-2">
+        <p className="text-xs text-zinc-500 shrink-0">URL</p>
+        <code className="min-w-0 flex-1 truncate text-xs text-zinc-300">{getWebhookUrl(webhook)}</code>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => copyToClipboard(getWebhookUrl(webhook), 'URL copiada!')}
+          title="Copiar URL"
+        >
+          <Copy size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={isBusy}
+          onClick={() => {
+            if (confirm('Gerar uma nova URL? A plataforma que envia os eventos precisa ser atualizada.')) {
+              onUpdate({ rotateToken: true })
+            }
+          }}
+          title="Gerar nova URL"
+        >
+          <KeyRound size={14} />
+        </Button>
+      </div>
+
+      {panel === 'settings' && (
+        <div className="mt-4 border-t border-zinc-800 pt-4">
+          <WebhookForm
+            webhook={webhook}
+            customFields={customFields}
+            templates={templates}
+            workflows={workflows}
+            onSubmit={onUpdate}
+            isBusy={isBusy}
+          />
+        </div>
+      )}
+      {panel === 'events' && <EventsInspector webhook={webhook} />}
+    </div>
+  )
+}
+
+// =============================================================================
+// Main Page
+// =============================================================================
+
+export default function InboundWebhooksPage() {
+  const queryClient = useQueryClient()
+  const [isCreating, setIsCreating] = useState(false)
+
+  const { data: webhooks = [], isLoading } = useQuery({
+    queryKey: ['inbound-webhooks'],
+    queryFn: inboundWebhookService.getAll,
+  })
+
+  const { data: customFields = [] } = useQuery({
+    queryKey: ['customFields'],
+    queryFn: () => customFieldService.getAll('contact'),
+  })
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['templates'],
+    queryFn: templateService.getAll,
+  })
+
+  const { data: workflows = [] } = useQuery({
+    queryKey: ['builder-workflows'],
+    queryFn: api.workflow.getAll,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['inbound-webhooks'] })
+
+  const createMutation = useMutation({
+    mutationFn: inboundWebhookService.create,
+    onSuccess: () => {
+      toast.success('Webhook criado. Copie a URL e cadastre na plataforma de origem.')
+      setIsCreating(false)
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({
+      id,
+      updates,
+    }: {
+      id: string
+      updates: Partial<InboundWebhookInput> & { isActive?: boolean; rotateToken?: boolean }
+    }) => inboundWebhookService.update(id, updates),
+    onSuccess: (_updated, { updates }) => {
+      toast.success(updates.rotateToken ? 'Nova URL gerada' : 'Webhook atualizado')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: inboundWebhookService.delete,
+    onSuccess: () => {
+      toast.success('Webhook removido')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleRemove = (webhook: InboundWebhook) => {
+    if (confirm(`Remover "${webhook.name}"? A URL deixa de funcionar e os payloads guardados serão apagados.`)) {
+      removeMutation.mutate(webhook.id)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Page>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-zinc-500" />
+        </div>
+      </Page>
+    )
+  }
+
+  return (
+    <Page>
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-primary-500/10 flex items-center justify-center">
+            <ArrowDownToLine className="w-6 h-6 text-primary-400" />
+          </div>
+          <div>
+            <PageTitle>Webhooks de entrada</PageTitle>
+            <PageDescription>
+              Receba eventos de checkouts e lojas (Hotmart, Kiwify, Shopify) e transforme o JSON em contato, tag,
+              template ou workflow
+            </PageDescription>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="max-w-4xl space-y-6">
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+          {isCreating ? (
+            <WebhookForm
+              customFields={customFields}
+              templates={templates}
+              workflows={workflows}
+              onSubmit={(input) => createMutation.mutate(input)}
+              onCancel={() => setIsCreating(false)}
+              isBusy={createMutation.isPending}
+            />
+          ) : (
+            <Button onClick={() => setIsCreating(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Novo webhook
+            </Button>
+          )}
+
+          <p className="border-t border-zinc-800 pt-3 text-xs text-zinc-500">
+            Cada webhook tem uma URL com token. Os caminhos usam notação JSON (<code>$.buyer.phone</code>,{' '}
+            <code>$.items[0].sku</code>); envie um evento de teste e use o inspetor de payloads para copiar os
+            caminhos. Toda ação cria ou atualiza o contato pelo telefone; contatos com opt-out não recebem template.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {webhooks.length === 0 ? (
+            <p className="text-sm text-zinc-500">Nenhum webhook de entrada criado.</p>
+          ) : (
+            webhooks.map((webhook) => (
+              <WebhookRow
+                key={webhook.id}
+                webhook={webhook}
+                customFields={customFields}
+                templates={templates}
+                workflows={workflows}
+                onUpdate={(updates) => updateMutation.mutate({ id: webhook.id, updates })}
+                onRemove={() => handleRemove(webhook)}
+                isBusy={updateMutation.isPending || removeMutation.isPending}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </Page>
+  )
+}
@@ -102,6 +102,18 @@ export default function SettingsPage() {
             saveAutoSuppression={controller.saveAutoSuppression}
             isSavingAutoSuppression={controller.isSavingAutoSuppression}
 
+            // Horário de silêncio
+            quietHours={controller.quietHours}
+            quietHoursLoading={controller.quietHoursLoading}
+            saveQuietHours={controller.saveQuietHours}
+            isSavingQuietHours={controller.isSavingQuietHours}
+
+            // Atribuição de conversões
+            conversionAttribution={controller.conversionAttribution}
+            conversionAttributionLoading={controller.conversionAttributionLoading}
+            saveConversionAttribution={controller.saveConversionAttribution}
+            isSavingConversionAttribution={controller.isSavingConversionAttribution}
+
             // Agendamento (Google Calendar)
             calendarBooking={controller.calendarBooking}
             calendarBookingLoading={controller.calendarBookingLoading}
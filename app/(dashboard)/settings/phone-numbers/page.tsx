@@ -0,0 +1,305 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Phone, Plus, Trash2, Loader2, RefreshCw, Star } from 'lucide-react'
+import { Page, PageActions, PageDescription, PageHeader, PageTitle } from '@/components/ui/page'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { phoneNumberService } from '@/services/phoneNumberService'
+import { aiAgentService } from '@/services/aiAgentService'
+import {
+  PHONE_NUMBER_LABEL_MAX_LENGTH,
+  PHONE_NUMBER_QUALITY_LABELS,
+  getPhoneNumberDisplayName,
+} from '@/lib/business/whatsapp'
+import type { AIAgent, WhatsAppPhoneNumber } from '@/types'
+
+const selectClass =
+  'px-3 py-2 rounded-md bg-zinc-800 border border-zinc-700 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-primary-500'
+
+const QUALITY_CLASSES: Record<string, string> = {
+  GREEN: 'bg-green-500/10 text-green-300',
+  YELLOW: 'bg-amber-500/10 text-amber-300',
+  RED: 'bg-red-500/10 text-red-300',
+}
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '-'
+  return new Date(date).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function PhoneNumberRow({
+  number,
+  agents,
+  onUpdate,
+  onRemove,
+  isBusy,
+}: {
+  number: WhatsAppPhoneNumber
+  agents: AIAgent[]
+  onUpdate: (updates: { label?: string | null; aiAgentId?: string | null }) => void
+  onRemove: () => void
+  isBusy: boolean
+}) {
+  const [label, setLabel] = useState(number.label || '')
+  const quality = (number.qualityRating || 'UNKNOWN').toUpperCase()
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="font-medium text-zinc-100 truncate flex items-center gap-2">
+            {getPhoneNumberDisplayName(number)}
+            {number.isPrimary && (
+              <span className="inline-flex items-center gap-1 rounded bg-primary-500/10 px-1.5 py-0.5 text-[10px] text-primary-300">
+                <Star size={10} /> Principal
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-zinc-500 truncate">
+            {number.displayPhoneNumber || '-'} · ID {number.phoneNumberId}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0 text-xs">
+          <span className={`rounded px-2 py-0.5 ${QUALITY_CLASSES[quality] || 'bg-zinc-800 text-zinc-400'}`}>
+            Qualidade: {PHONE_NUMBER_QUALITY_LABELS[quality] || quality}
+          </span>
+          {number.messagingLimitTier && (
+            <span className="rounded bg-zinc-800 px-2 py-0.5 text-zinc-400">{number.messagingLimitTier}</span>
+          )}
+          {!number.isPrimary && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-red-400 hover:text-red-300"
+              onClick={onRemove}
+              disabled={isBusy}
+              title="Remover"
+            >
+              <Trash2 size={14} />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          placeholder="Rótulo (ex.: Vendas)"
+          value={label}
+          maxLength={PHONE_NUMBER_LABEL_MAX_LENGTH}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur()
+          }}
+          onBlur={() => {
+            if (label.trim() !== (number.label || '')) onUpdate({ label: label.trim() || null })
+          }}
+          className="max-w-56"
+        />
+
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          Agente de IA
+          <select
+            className={selectClass}
+            value={number.aiAgentId || ''}
+            disabled={isBusy}
+            onChange={(e) => onUpdate({ aiAgentId: e.target.value || null })}
+          >
+            <option value="">Agente padrão</option>
+            {agents.map((agent) => (
+              <option key={agent.id} value={agent.id}>
+                {agent.name}
+                {!agent.is_active ? ' (inativo)' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {number.limitsUpdatedAt && (
+          <span className="text-xs text-zinc-500">Limites lidos em {formatDate(number.limitsUpdatedAt)}</span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// =============================================================================
+// Main Page
+// =============================================================================
+
+export default function PhoneNumbersPage() {
+  const queryClient = useQueryClient()
+  const [selectedId, setSelectedId] = useState('')
+  const [newLabel, setNewLabel] = useState('')
+
+  const { data: numbers = [], isLoading } = useQuery({
+    queryKey: ['phone-numbers'],
+    queryFn: phoneNumberService.getAll,
+  })
+
+  const availableQuery = useQuery({
+    queryKey: ['phone-numbers', 'available'],
+    queryFn: phoneNumberService.getAvailable,
+    staleTime: 60_000,
+  })
+
+  const { data: agents = [] } = useQuery({
+    queryKey: ['ai-agents'],
+    queryFn: aiAgentService.list,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['phone-numbers'] })
+
+  const registerMutation = useMutation({
+    mutationFn: () => phoneNumberService.register({ phoneNumberId: selectedId, label: newLabel.trim() || null }),
+    onSuccess: () => {
+      toast.success('Número registrado')
+      setSelectedId('')
+      setNewLabel('')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ phoneNumberId, updates }: { phoneNumberId: string; updates: Parameters<typeof phoneNumberService.update>[1] }) =>
+      phoneNumberService.update(phoneNumberId, updates),
+    onSuccess: () => {
+      toast.success('Número atualizado')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: phoneNumberService.remove,
+    onSuccess: () => {
+      toast.success('Número removido')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleRemove = (number: WhatsAppPhoneNumber) => {
+    if (confirm(`Remover "${getPhoneNumberDisplayName(number)}"? Conversas e campanhas deste número passam a usar o principal.`)) {
+      removeMutation.mutate(number.phoneNumberId)
+    }
+  }
+
+  const registeredIds = new Set(numbers.map((number) => number.phoneNumberId))
+  const unregistered = (availableQuery.data || []).filter((number) => !registeredIds.has(number.id))
+
+  if (isLoading) {
+    return (
+      <Page>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-zinc-500" />
+        </div>
+      </Page>
+    )
+  }
+
+  return (
+    <Page>
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-primary-500/10 flex items-center justify-center">
+            <Phone className="w-6 h-6 text-primary-400" />
+          </div>
+          <div>
+            <PageTitle>Números de WhatsApp</PageTitle>
+            <PageDescription>
+              Use vários números da sua conta: cada campanha escolhe o remetente e cada conversa é respondida pelo número que a recebeu
+            </PageDescription>
+          </div>
+        </div>
+        <PageActions>
+          <Button variant="outline" size="sm" onClick={() => availableQuery.refetch()} disabled={availableQuery.isFetching}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${availableQuery.isFetching ? 'animate-spin' : ''}`} />
+            Buscar na Meta
+          </Button>
+        </PageActions>
+      </PageHeader>
+
+      <div className="max-w-3xl space-y-6">
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-3">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (selectedId) registerMutation.mutate()
+            }}
+            className="flex items-center gap-3"
+          >
+            <select
+              className={`${selectClass} flex-1`}
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              disabled={availableQuery.isLoading}
+            >
+              <option value="">
+                {availableQuery.isLoading
+                  ? 'Carregando números da conta...'
+                  : unregistered.length === 0
+                    ? 'Todos os números da conta já estão registrados'
+                    : 'Selecione um número da conta'}
+              </option>
+              {unregistered.map((number) => (
+                <option key={number.id} value={number.id}>
+                  {[number.display_phone_number, number.verified_name].filter(Boolean).join(' · ') || number.id}
+                </option>
+              ))}
+            </select>
+            <Input
+              placeholder="Rótulo (opcional)"
+              value={newLabel}
+              maxLength={PHONE_NUMBER_LABEL_MAX_LENGTH}
+              onChange={(e) => setNewLabel(e.target.value)}
+              className="max-w-48"
+            />
+            <Button type="submit" disabled={registerMutation.isPending || !selectedId}>
+              {registerMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4 mr-2" />
+              )}
+              Registrar
+            </Button>
+          </form>
+          {availableQuery.isError && (
+            <p className="text-xs text-red-400">{(availableQuery.error as Error).message}</p>
+          )}
+          <p className="border-t border-zinc-800 pt-3 text-xs text-zinc-500">
+            Os números usam o token da conta configurado em Ajustes. O principal atende campanhas sem remetente
+            escolhido; qualidade e tier são atualizados a cada consulta de limites.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {numbers.length === 0 ? (
+            <p className="text-sm text-zinc-500">Nenhum número registrado. Configure as credenciais em Ajustes.</p>
+          ) : (
+            numbers.map((number) => (
+              <PhoneNumberRow
+                key={number.phoneNumberId}
+                number={number}
+                agents={agents}
+                onUpdate={(updates) => updateMutation.mutate({ phoneNumberId: number.phoneNumberId, updates })}
+                onRemove={() => handleRemove(number)}
+                isBusy={updateMutation.isPending || removeMutation.isPending}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </Page>
+  )
+}
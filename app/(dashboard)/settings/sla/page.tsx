@@ -0,0 +1,371 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Timer, Loader2, Save, BarChart3 } from 'lucide-react'
+import { Page, PageDescription, PageHeader, PageTitle } from '@/components/ui/page'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { inboxService } from '@/services/inboxService'
+import { hasPermission } from '@/lib/business/access'
+import { SLA_PRIORITY_ORDER, validateSlaConfig } from '@/lib/business/inbox'
+import { WEEKDAY_LABELS } from '@/lib/business/settings/calendar'
+import type { ConversationPriority, SlaConfig, SlaReportEntry, SlaSummary, UserRole, WorkingHoursDay } from '@/types'
+
+const SLA_CONFIG_KEY = ['inbox-sla-config']
+
+const PRIORITY_LABELS: Record<ConversationPriority, string> = {
+  urgent: 'Urgente',
+  high: 'Alta',
+  normal: 'Normal',
+  low: 'Baixa',
+}
+
+const REPORT_PERIOD_DAYS = 30
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10)
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '—'
+  if (minutes < 60) return `${Math.round(minutes)} min`
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  return rest > 0 ? `${hours}h ${rest}min` : `${hours}h`
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function SlaConfigSection({ canEdit }: { canEdit: boolean }) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<SlaConfig | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: SLA_CONFIG_KEY,
+    queryFn: inboxService.getSlaConfig,
+  })
+
+  useEffect(() => {
+    if (data?.config) setDraft(data.config)
+  }, [data])
+
+  const saveMutation = useMutation({
+    mutationFn: inboxService.saveSlaConfig,
+    onSuccess: (config) => {
+      queryClient.setQueryData(SLA_CONFIG_KEY, { config, source: 'db' })
+      toast.success('SLA salvo. Os novos prazos valem para os próximos atendimentos.')
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  if (isLoading || !draft) {
+    return (
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 flex items-center justify-center h-40">
+        <Loader2 className="w-6 h-6 animate-spin text-zinc-500" />
+      </div>
+    )
+  }
+
+  const validation = validateSlaConfig(draft)
+
+  const updatePolicy = (priority: ConversationPriority, field: 'firstResponseMinutes' | 'resolutionMinutes', value: string) => {
+    setDraft({
+      ...draft,
+      policies: { ...draft.policies, [priority]: { ...draft.policies[priority], [field]: Number(value) } },
+    })
+  }
+
+  // Editar início/fim descarta os períodos múltiplos herdados do agendamento
+  const updateDay = (day: WorkingHoursDay['day'], patch: Partial<WorkingHoursDay>) => {
+    setDraft({
+      ...draft,
+      workingHours: draft.workingHours.map((d) => {
+        if (d.day !== day) return d
+        const next = { ...d, ...patch }
+        if (patch.start !== undefined || patch.end !== undefined) delete next.slots
+        return next
+      }),
+    })
+  }
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-5">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-medium text-zinc-100">Metas por prioridade</h2>
+          <p className="text-xs text-zinc-500 mt-1">
+            O relógio começa quando a conversa passa para atendimento humano e para na primeira resposta
+            do atendente (notas internas não contam) e no fechamento da conversa.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-300 shrink-0">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            disabled={!canEdit}
+            onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+          />
+          Ativo
+        </label>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="text-xs text-zinc-500">
+          <tr>
+            <th className="text-left font-medium pb-2">Prioridade</th>
+            <th className="text-left font-medium pb-2">Primeira resposta (min)</th>
+            <th className="text-left font-medium pb-2">Resolução (min)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {SLA_PRIORITY_ORDER.map((priority) => (
+            <tr key={priority}>
+              <td className="py-1.5 pr-4 text-zinc-300">{PRIORITY_LABELS[priority]}</td>
+              <td className="py-1.5 pr-4">
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.policies[priority].firstResponseMinutes}
+                  disabled={!canEdit}
+                  onChange={(e) => updatePolicy(priority, 'firstResponseMinutes', e.target.value)}
+                  className="max-w-32"
+                />
+              </td>
+              <td className="py-1.5">
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.policies[priority].resolutionMinutes}
+                  disabled={!canEdit}
+                  onChange={(e) => updatePolicy(priority, 'resolutionMinutes', e.target.value)}
+                  className="max-w-32"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-3 border-t border-zinc-800 pt-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-zinc-300">
+            <input
+              type="checkbox"
+              checked={draft.businessHoursOnly}
+              disabled={!canEdit}
+              onChange={(e) => setDraft({ ...draft, businessHoursOnly: e.target.checked })}
+            />
+            Contar apenas o horário comercial
+          </label>
+          <Input
+            value={draft.timezone}
+            disabled={!canEdit}
+            onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+            className="max-w-56"
+            title="Fuso horário"
+          />
+        </div>
+
+        {draft.businessHoursOnly && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {draft.workingHours.map((day) => (
+              <div key={day.day} className="flex items-center gap-2 text-xs text-zinc-300">
+                <label className="flex items-center gap-2 w-24">
+                  <input
+                    type="checkbox"
+                    checked={day.enabled}
+                    disabled={!canEdit}
+                    onChange={(e) => updateDay(day.day, { enabled: e.target.checked })}
+                  />
+                  {WEEKDAY_LABELS[day.day]}
+                </label>
+                {day.slots && day.slots.length > 0 ? (
+                  <span className="text-zinc-500">
+                    {day.slots.map((slot) => `${slot.start}–${slot.end}`).join(', ')}
+                  </span>
+                ) : (
+                  <>
+                    <Input
+                      type="time"
+                      value={day.start}
+                      disabled={!canEdit || !day.enabled}
+                      onChange={(e) => updateDay(day.day, { start: e.target.value })}
+                      className="max-w-28 h-8"
+                    />
+                    <span className="text-zinc-500">até</span>
+                    <Input
+                      type="time"
+                      value={day.end}
+                      disabled={!canEdit || !day.enabled}
+                      onChange={(e) => updateDay(day.day, { end: e.target.value })}
+                      className="max-w-28 h-8"
+                    />
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {data?.source === 'default' && (
+          <p className="text-xs text-zinc-500">Horário comercial e fuso carregados do agendamento.</p>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-red-400">{validation.valid ? '' : validation.errors[0]}</p>
+          <Button
+            onClick={() => saveMutation.mutate(draft)}
+            disabled={!validation.valid || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Salvar
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SummaryCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <p className="text-xs text-zinc-500">{label}</p>
+      <p className="text-xl font-semibold text-zinc-100 mt-1">{value}</p>
+      {hint && <p className="text-[11px] text-zinc-500 mt-0.5">{hint}</p>}
+    </div>
+  )
+}
+
+function ReportTable({ title, entries }: { title: string; entries: SlaReportEntry[] }) {
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <h3 className="px-4 pt-4 pb-2 text-sm font-medium text-zinc-100">{title}</h3>
+      {entries.length === 0 ? (
+        <p className="px-4 pb-4 text-sm text-zinc-500">Sem atendimentos no período.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="border-b border-zinc-800 text-xs text-zinc-500">
+            <tr>
+              <th className="text-left font-medium px-4 py-2">Nome</th>
+              <th className="text-right font-medium px-4 py-2">Conversas</th>
+              <th className="text-right font-medium px-4 py-2">1ª resposta (média)</th>
+              <th className="text-right font-medium px-4 py-2">Resolução (média)</th>
+              <th className="text-right font-medium px-4 py-2">Estouros 1ª resp.</th>
+              <th className="text-right font-medium px-4 py-2">Estouros resolução</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.key} className="border-b border-zinc-800/60 last:border-0">
+                <td className="px-4 py-2 text-zinc-200">
+                  <span className="flex items-center gap-2">
+                    {entry.color && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }} />}
+                    {entry.name}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-right text-zinc-400">{entry.conversations}</td>
+                <td className="px-4 py-2 text-right text-zinc-300">{formatMinutes(entry.avgFirstResponseMinutes)}</td>
+                <td className="px-4 py-2 text-right text-zinc-300">{formatMinutes(entry.avgResolutionMinutes)}</td>
+                <td className={`px-4 py-2 text-right ${entry.firstResponseBreaches > 0 ? 'text-red-400' : 'text-zinc-500'}`}>
+                  {entry.firstResponseBreaches}
+                </td>
+                <td className={`px-4 py-2 text-right ${entry.resolutionBreaches > 0 ? 'text-red-400' : 'text-zinc-500'}`}>
+                  {entry.resolutionBreaches}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function SlaReportSection() {
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - REPORT_PERIOD_DAYS * 24 * 60 * 60 * 1000)))
+  const [to, setTo] = useState(() => toDateInput(new Date()))
+
+  const range = {
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59`).toISOString() : undefined,
+  }
+
+  const { data: report, isLoading, isFetching } = useQuery({
+    queryKey: ['inbox-sla-report', range],
+    queryFn: () => inboxService.getSlaReport(range),
+    placeholderData: (previous) => previous,
+  })
+
+  const total: SlaSummary | null = report?.total ?? null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2 mr-auto">
+          <BarChart3 className="w-4 h-4 text-primary-400" />
+          <h2 className="text-sm font-medium text-zinc-100">Relatório</h2>
+        </div>
+        <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="max-w-40" title="De" />
+        <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="max-w-40" title="Até" />
+        {isFetching && <Loader2 className="w-4 h-4 animate-spin text-zinc-500" />}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="w-6 h-6 animate-spin text-zinc-500" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            <SummaryCard label="Atendimentos humanos" value={String(total?.conversations ?? 0)} />
+            <SummaryCard label="Primeira resposta (média)" value={formatMinutes(total?.avgFirstResponseMinutes ?? null)} />
+            <SummaryCard label="Resolução (média)" value={formatMinutes(total?.avgResolutionMinutes ?? null)} />
+            <SummaryCard
+              label="Estouros de SLA"
+              value={String((total?.firstResponseBreaches ?? 0) + (total?.resolutionBreaches ?? 0))}
+              hint={`${total?.firstResponseBreaches ?? 0} na 1ª resposta • ${total?.resolutionBreaches ?? 0} na resolução`}
+            />
+          </div>
+          <ReportTable title="Por atendente" entries={report?.byAttendant ?? []} />
+          <ReportTable title="Por etiqueta" entries={report?.byLabel ?? []} />
+        </>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Main Page
+// =============================================================================
+
+export default function SlaPage() {
+  const queryClient = useQueryClient()
+  const userRole = queryClient.getQueryData<{ user?: { role?: UserRole } }>(['authStatus'])?.user?.role
+  const canEdit = !userRole || hasPermission(userRole, 'settings:manage')
+
+  return (
+    <Page>
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-primary-500/10 flex items-center justify-center">
+            <Timer className="w-6 h-6 text-primary-400" />
+          </div>
+          <div>
+            <PageTitle>SLA do atendimento</PageTitle>
+            <PageDescription>
+              Prazos de primeira resposta e resolução das conversas em atendimento humano
+            </PageDescription>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="space-y-6">
+        <SlaConfigSection canEdit={canEdit} />
+        <SlaReportSection />
+      </div>
+    </Page>
+  )
+}
@@ -0,0 +1,533 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  Users,
+  UserPlus,
+  Copy,
+  Trash2,
+  Loader2,
+  History,
+  X,
+  ListOrdered,
+  Plus,
+} from 'lucide-react'
+import { Page, PageDescription, PageHeader, PageTitle } from '@/components/ui/page'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { userService } from '@/services/userService'
+import { useInboxQueues } from '@/hooks/useInboxQueues'
+import type { QueueParams } from '@/services/inboxService'
+import { USER_ROLES, USER_ROLE_LABELS, hasPermission } from '@/lib/business/access'
+import { INBOX_QUEUE_STRATEGY_LABELS } from '@/lib/business/inbox'
+import type { DashboardUser, InboxQueue, InboxQueueStrategy, UserRole } from '@/types'
+
+type InvitableRole = Exclude<UserRole, 'owner'>
+
+const INVITABLE_ROLES = USER_ROLES.filter((role): role is InvitableRole => role !== 'owner')
+
+const selectClass =
+  'px-3 py-2 rounded-md bg-zinc-800 border border-zinc-700 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-primary-500'
+
+const QUEUE_STRATEGIES = Object.keys(INBOX_QUEUE_STRATEGY_LABELS) as InboxQueueStrategy[]
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function UserActivity({ userId }: { userId: string }) {
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['users', userId, 'activity'],
+    queryFn: () => userService.getActivity(userId),
+  })
+
+  if (isLoading) return <Loader2 className="w-4 h-4 animate-spin text-zinc-500" />
+  if (entries.length === 0) return <p className="text-xs text-zinc-500">Nenhuma atividade registrada.</p>
+
+  return (
+    <ul className="space-y-1.5">
+      {entries.map((entry) => (
+        <li key={entry.id} className="flex items-center justify-between gap-3 text-xs">
+          <span className="text-zinc-300 font-mono">{entry.action}</span>
+          <span className="text-zinc-500">
+            {entry.ip && `${entry.ip} • `}
+            {formatDate(entry.createdAt)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function UserRow({
+  user,
+  onUpdate,
+  onRemove,
+  isBusy,
+}: {
+  user: DashboardUser
+  onUpdate: (updates: { role?: UserRole; isActive?: boolean }) => void
+  onRemove: () => void
+  isBusy: boolean
+}) {
+  const [showActivity, setShowActivity] = useState(false)
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-9 h-9 rounded-lg flex items-center justify-center font-semibold bg-primary-500/10 text-primary-400">
+            {user.name.charAt(0).toUpperCase()}
+          </div>
+          <div className="min-w-0">
+            <p className={user.isActive ? 'font-medium text-zinc-100 truncate' : 'font-medium text-zinc-500 truncate'}>
+              {user.name}
+              {!user.isActive && ' (desativado)'}
+            </p>
+            <p className="text-xs text-zinc-500 truncate">
+              {user.email} • Último acesso: {formatDate(user.lastLoginAt)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          <select
+            className={selectClass}
+            value={user.role}
+            disabled={isBusy}
+            onChange={(e) => onUpdate({ role: e.target.value as UserRole })}
+          >
+            {USER_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {USER_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy}
+            onClick={() => onUpdate({ isActive: !user.isActive })}
+          >
+            {user.isActive ? 'Desativar' : 'Reativar'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setShowActivity(!showActivity)}
+            title="Atividade"
+          >
+            <History size={14} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-400 hover:text-red-300"
+            onClick={onRemove}
+            disabled={isBusy}
+            title="Remover"
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+      </div>
+
+      {showActivity && (
+        <div className="mt-4 border-t border-zinc-800 pt-4">
+          <UserActivity userId={user.id} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function QueueRow({
+  queue,
+  members,
+  onUpdate,
+  onRemove,
+  isBusy,
+}: {
+  queue: InboxQueue
+  members: DashboardUser[]
+  onUpdate: (updates: Partial<Pick<InboxQueue, 'strategy' | 'member_user_ids' | 'is_default'>>) => void
+  onRemove: () => void
+  isBusy: boolean
+}) {
+  const toggleMember = (userId: string) => {
+    const memberIds = queue.member_user_ids.includes(userId)
+      ? queue.member_user_ids.filter((id) => id !== userId)
+      : [...queue.member_user_ids, userId]
+    onUpdate({ member_user_ids: memberIds })
+  }
+
+  return (
+    <div className="rounded-lg bg-zinc-800/50 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-medium text-zinc-200 truncate">
+          {queue.name}
+          {queue.is_default && <span className="ml-2 text-xs text-primary-400">padrão</span>}
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <select
+            className={selectClass}
+            value={queue.strategy}
+            disabled={isBusy}
+            onChange={(e) => onUpdate({ strategy: e.target.value as InboxQueueStrategy })}
+          >
+            {QUEUE_STRATEGIES.map((strategy) => (
+              <option key={strategy} value={strategy}>
+                {INBOX_QUEUE_STRATEGY_LABELS[strategy]}
+              </option>
+            ))}
+          </select>
+          {!queue.is_default && (
+            <Button variant="outline" size="sm" disabled={isBusy} onClick={() => onUpdate({ is_default: true })}>
+              Tornar padrão
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-400 hover:text-red-300"
+            onClick={onRemove}
+            disabled={isBusy}
+            title="Remover fila"
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+      </div>
+
+      {members.length === 0 ? (
+        <p className="text-xs text-zinc-500">Nenhum usuário ativo pode atender conversas.</p>
+      ) : (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {members.map((member) => (
+            <label key={member.id} className="flex items-center gap-2 text-xs text-zinc-300">
+              <input
+                type="checkbox"
+                checked={queue.member_user_ids.includes(member.id)}
+                disabled={isBusy}
+                onChange={() => toggleMember(member.id)}
+              />
+              {member.name}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Filas de atendimento: após o handoff, a conversa vai para um membro da fila
+ * (rodízio ou menos ocupado) e ele é avisado por push.
+ */
+function QueuesSection({ users }: { users: DashboardUser[] }) {
+  const [name, setName] = useState('')
+  const [strategy, setStrategy] = useState<InboxQueueStrategy>('round_robin')
+  const { queues, create, update, delete: remove, isCreating, isUpdating, isDeleting } = useInboxQueues()
+
+  const members = users.filter((user) => user.isActive && hasPermission(user.role, 'inbox:reply'))
+
+  const handleCreate = async () => {
+    try {
+      await create({ name: name.trim(), strategy, is_default: queues.length === 0 })
+      setName('')
+      toast.success('Fila criada')
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  const handleUpdate = async (id: string, updates: Partial<QueueParams>) => {
+    try {
+      await update({ ...updates, id })
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  const handleRemove = async (queue: InboxQueue) => {
+    if (!confirm(`Remover a fila "${queue.name}"? As conversas continuam com o responsável atual.`)) return
+    try {
+      await remove(queue.id)
+      toast.success('Fila removida')
+    } catch (error) {
+      toast.error((error as Error).message)
+    }
+  }
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-3">
+      <div className="flex items-center gap-2">
+        <ListOrdered className="w-4 h-4 text-primary-400" />
+        <h2 className="text-sm font-medium text-zinc-100">Filas de atendimento</h2>
+      </div>
+      <p className="text-xs text-zinc-500">
+        Quando uma conversa é transferida para humano, ela é atribuída a um membro da fila da conversa
+        (ou da fila padrão), que recebe uma notificação.
+      </p>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (name.trim()) handleCreate()
+        }}
+        className="flex items-center gap-3"
+      >
+        <Input placeholder="Nome da fila" value={name} onChange={(e) => setName(e.target.value)} />
+        <select
+          className={selectClass}
+          value={strategy}
+          onChange={(e) => setStrategy(e.target.value as InboxQueueStrategy)}
+        >
+          {QUEUE_STRATEGIES.map((option) => (
+            <option key={option} value={option}>
+              {INBOX_QUEUE_STRATEGY_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <Button type="submit" disabled={isCreating || !name.trim()}>
+          {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Criar
+        </Button>
+      </form>
+
+      {queues.length > 0 && (
+        <div className="space-y-2 border-t border-zinc-800 pt-3">
+          {queues.map((queue) => (
+            <QueueRow
+              key={queue.id}
+              queue={queue}
+              members={members}
+              onUpdate={(updates) => handleUpdate(queue.id, updates)}
+              onRemove={() => handleRemove(queue)}
+              isBusy={isUpdating || isDeleting}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Main Page
+// =============================================================================
+
+export default function UsersPage() {
+  const queryClient = useQueryClient()
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<InvitableRole>('agent')
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null)
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ['users'],
+    queryFn: userService.getAll,
+  })
+
+  const { data: invites = [] } = useQuery({
+    queryKey: ['users', 'invites'],
+    queryFn: userService.getInvites,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['users'] })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: { role?: UserRole; isActive?: boolean } }) =>
+      userService.update(id, updates),
+    onSuccess: () => {
+      toast.success('Usuário atualizado')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: userService.remove,
+    onSuccess: () => {
+      toast.success('Usuário removido')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const inviteMutation = useMutation({
+    mutationFn: () => userService.invite(email.trim(), role),
+    onSuccess: (created) => {
+      setInviteUrl(created.inviteUrl)
+      setEmail('')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: userService.revokeInvite,
+    onSuccess: () => {
+      toast.success('Convite revogado')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleRemove = (user: DashboardUser) => {
+    if (confirm(`Remover "${user.name}"? O acesso ao painel será encerrado imediatamente.`)) {
+      removeMutation.mutate(user.id)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Page>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-zinc-500" />
+        </div>
+      </Page>
+    )
+  }
+
+  return (
+    <Page>
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-primary-500/10 flex items-center justify-center">
+            <Users className="w-6 h-6 text-primary-400" />
+          </div>
+          <div>
+            <PageTitle>Usuários</PageTitle>
+            <PageDescription>
+              Convide a equipe e defina o que cada pessoa pode ver e fazer no painel
+            </PageDescription>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="max-w-3xl space-y-6">
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-3">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (email.trim()) inviteMutation.mutate()
+            }}
+            className="flex items-center gap-3"
+          >
+            <Input
+              type="email"
+              placeholder="E-mail do convidado"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <select
+              className={selectClass}
+              value={role}
+              onChange={(e) => setRole(e.target.value as InvitableRole)}
+            >
+              {INVITABLE_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {USER_ROLE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" disabled={inviteMutation.isPending || !email.trim()}>
+              {inviteMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <UserPlus className="w-4 h-4 mr-2" />
+              )}
+              Convidar
+            </Button>
+          </form>
+
+          {inviteUrl && (
+            <div className="rounded-lg border border-green-500/20 bg-green-500/5 p-3">
+              <p className="mb-2 text-xs text-green-300">
+                Envie este link ao convidado. Ele não será exibido novamente e expira em 7 dias.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-zinc-800 px-2 py-1 text-xs text-zinc-200">{inviteUrl}</code>
+                <button
+                  onClick={() => {
+                    navigator.clipboard.writeText(inviteUrl)
+                    toast.success('Link copiado!')
+                  }}
+                  className="p-1.5 rounded hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200 transition-colors"
+                  title="Copiar link"
+                >
+                  <Copy size={14} />
+                </button>
+                <button
+                  onClick={() => setInviteUrl(null)}
+                  className="p-1.5 rounded hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200 transition-colors"
+                  title="Fechar"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {invites.length > 0 && (
+            <ul className="space-y-2 border-t border-zinc-800 pt-3">
+              {invites.map((invite) => (
+                <li key={invite.id} className="flex items-center justify-between gap-3 rounded-lg bg-zinc-800/50 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-zinc-200 truncate">{invite.email}</p>
+                    <p className="text-xs text-zinc-500">
+                      {USER_ROLE_LABELS[invite.role]} • Expira em {formatDate(invite.expiresAt)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(invite.id)}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    Revogar
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {users.length === 0 ? (
+            <p className="text-sm text-zinc-500">
+              Nenhum usuário cadastrado. Até o primeiro convite, o acesso é feito apenas pela senha mestra.
+            </p>
+          ) : (
+            users.map((user) => (
+              <UserRow
+                key={user.id}
+                user={user}
+                onUpdate={(updates) => updateMutation.mutate({ id: user.id, updates })}
+                onRemove={() => handleRemove(user)}
+                isBusy={updateMutation.isPending || removeMutation.isPending}
+              />
+            ))
+          )}
+        </div>
+
+        <QueuesSection users={users} />
+      </div>
+    </Page>
+  )
+}
@@ -0,0 +1,548 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  Webhook,
+  Plus,
+  Copy,
+  Trash2,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  KeyRound,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react'
+import { Page, PageDescription, PageHeader, PageTitle } from '@/components/ui/page'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { webhookService } from '@/services/webhookService'
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_MAX_ATTEMPTS,
+} from '@/lib/business/webhooks'
+import type {
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType,
+} from '@/types'
+
+const PAGE_SIZE = 50
+
+const selectClass =
+  'px-3 py-2 rounded-md bg-zinc-800 border border-zinc-700 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-primary-500'
+
+const STATUS_CLASSES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-amber-500/10 text-amber-300',
+  delivering: 'bg-blue-500/10 text-blue-300',
+  success: 'bg-green-500/10 text-green-300',
+  failed: 'bg-red-500/10 text-red-300',
+}
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '-'
+  return new Date(date).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+const copyToClipboard = (value: string, message: string) => {
+  navigator.clipboard.writeText(value)
+  toast.success(message)
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function EventCheckboxes({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: WebhookEventType[]
+  onChange: (eventTypes: WebhookEventType[]) => void
+  disabled?: boolean
+}) {
+  const toggle = (eventType: WebhookEventType) => {
+    onChange(value.includes(eventType) ? value.filter((e) => e !== eventType) : [...value, eventType])
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+      {WEBHOOK_EVENT_TYPES.map((eventType) => (
+        <label key={eventType} className="flex items-start gap-2 text-xs text-zinc-300">
+          <input
+            type="checkbox"
+            className="mt-0.5"
+            checked={value.includes(eventType)}
+            disabled={disabled}
+            onChange={() => toggle(eventType)}
+          />
+          <span>
+            <span className="font-mono text-zinc-200">{eventType}</span>
+            <span className="block text-zinc-500">{WEBHOOK_EVENT_LABELS[eventType]}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+function EndpointRow({
+  endpoint,
+  onUpdate,
+  onRemove,
+  isBusy,
+}: {
+  endpoint: WebhookEndpoint
+  onUpdate: (updates: { eventTypes?: WebhookEventType[]; isActive?: boolean; rotateSecret?: boolean }) => void
+  onRemove: () => void
+  isBusy: boolean
+}) {
+  const [showEvents, setShowEvents] = useState(false)
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className={endpoint.isActive ? 'font-medium text-zinc-100 truncate' : 'font-medium text-zinc-500 truncate'}>
+            {endpoint.name}
+            {!endpoint.isActive && ' (desativado)'}
+          </p>
+          <p className="text-xs text-zinc-500 truncate">{endpoint.url}</p>
+          <button
+            onClick={() => setShowEvents(!showEvents)}
+            className="mt-1 text-xs text-primary-400 hover:text-primary-300"
+          >
+            {endpoint.eventTypes.length} evento(s) assinado(s)
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy}
+            onClick={() => onUpdate({ isActive: !endpoint.isActive })}
+          >
+            {endpoint.isActive ? 'Desativar' : 'Reativar'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => copyToClipboard(endpoint.secret, 'Segredo copiado!')}
+            title="Copiar segredo de assinatura"
+          >
+            <Copy size={14} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={isBusy}
+            onClick={() => {
+              if (confirm('Gerar um novo segredo? O receptor precisa ser atualizado para validar as próximas entregas.')) {
+                onUpdate({ rotateSecret: true })
+              }
+            }}
+            title="Gerar novo segredo"
+          >
+            <KeyRound size={14} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-400 hover:text-red-300"
+            onClick={onRemove}
+            disabled={isBusy}
+            title="Remover"
+          >
+            <Trash2 size={14} />
+          </Button>
+        </div>
+      </div>
+
+      {showEvents && (
+        <div className="mt-4 border-t border-zinc-800 pt-4">
+          <EventCheckboxes
+            value={endpoint.eventTypes}
+            disabled={isBusy}
+            onChange={(eventTypes) => {
+              if (eventTypes.length === 0) {
+                toast.error('Selecione pelo menos um evento')
+                return
+              }
+              onUpdate({ eventTypes })
+            }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function DeliveryDetails({ delivery }: { delivery: WebhookDelivery }) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 text-xs">
+      <div>
+        <p className="mb-1 text-zinc-500">Payload</p>
+        <pre className="rounded bg-zinc-800/60 p-2 text-zinc-400 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+          {JSON.stringify(delivery.payload, null, 2)}
+        </pre>
+      </div>
+      <div>
+        <p className="mb-1 text-zinc-500">
+          Resposta {delivery.responseStatus ? `(HTTP ${delivery.responseStatus})` : ''}
+        </p>
+        <pre className="rounded bg-zinc-800/60 p-2 text-zinc-400 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+          {delivery.responseBody || delivery.error || 'Sem resposta.'}
+        </pre>
+        {delivery.nextRetryAt && (
+          <p className="mt-2 text-zinc-500">Próxima tentativa: {formatDate(delivery.nextRetryAt)}</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Log de entregas: cada tentativa atualiza a linha; reenviar cria uma nova
+ * entrega com o mesmo ID de evento.
+ */
+function DeliveriesSection({ endpoints }: { endpoints: WebhookEndpoint[] }) {
+  const queryClient = useQueryClient()
+  const [filters, setFilters] = useState<WebhookDeliveryFilters>({})
+  const [offset, setOffset] = useState(0)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const queryFilters: WebhookDeliveryFilters = { ...filters, limit: PAGE_SIZE, offset }
+
+  const { data, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['webhook-deliveries', queryFilters],
+    queryFn: () => webhookService.getDeliveries(queryFilters),
+    placeholderData: (previous) => previous,
+  })
+
+  const redeliverMutation = useMutation({
+    mutationFn: webhookService.redeliver,
+    onSuccess: () => {
+      toast.success('Evento reenviado')
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const deliveries = data?.data ?? []
+  const total = data?.total ?? 0
+  const endpointNames = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint.name]))
+
+  const updateFilter = (patch: WebhookDeliveryFilters) => {
+    setFilters((current) => ({ ...current, ...patch }))
+    setOffset(0)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-sm font-medium text-zinc-100 mr-auto">Entregas</h2>
+        <select
+          className={selectClass}
+          value={filters.endpointId ?? ''}
+          onChange={(e) => updateFilter({ endpointId: e.target.value || undefined })}
+        >
+          <option value="">Todos os endpoints</option>
+          {endpoints.map((endpoint) => (
+            <option key={endpoint.id} value={endpoint.id}>
+              {endpoint.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={filters.eventType ?? ''}
+          onChange={(e) => updateFilter({ eventType: (e.target.value || undefined) as WebhookEventType | undefined })}
+        >
+          <option value="">Todos os eventos</option>
+          {WEBHOOK_EVENT_TYPES.map((eventType) => (
+            <option key={eventType} value={eventType}>
+              {eventType}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={filters.status ?? ''}
+          onChange={(e) => updateFilter({ status: (e.target.value || undefined) as WebhookDeliveryStatus | undefined })}
+        >
+          <option value="">Todos os status</option>
+          {(Object.keys(WEBHOOK_DELIVERY_STATUS_LABELS) as WebhookDeliveryStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {WEBHOOK_DELIVERY_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} title="Atualizar">
+          {isFetching ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+        </Button>
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <Loader2 className="w-6 h-6 animate-spin text-zinc-500" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="p-6 text-sm text-zinc-500">Nenhuma entrega encontrada para os filtros selecionados.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="border-b border-zinc-800 text-xs text-zinc-500">
+              <tr>
+                <th className="text-left font-medium px-4 py-3">Data</th>
+                <th className="text-left font-medium px-4 py-3">Evento</th>
+                <th className="text-left font-medium px-4 py-3">Endpoint</th>
+                <th className="text-left font-medium px-4 py-3">Status</th>
+                <th className="text-left font-medium px-4 py-3">Tentativas</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <Fragment key={delivery.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                    className="border-b border-zinc-800/60 cursor-pointer hover:bg-zinc-800/40"
+                  >
+                    <td className="px-4 py-2.5 text-zinc-400 whitespace-nowrap">{formatDate(delivery.createdAt)}</td>
+                    <td className="px-4 py-2.5 font-mono text-xs text-zinc-300">{delivery.eventType}</td>
+                    <td className="px-4 py-2.5 text-zinc-400 max-w-48 truncate">
+                      {endpointNames.get(delivery.endpointId) || '—'}
+                    </td>
+                    <td className="px-4 py-2.5">
+                      <span className={`rounded px-2 py-0.5 text-xs ${STATUS_CLASSES[delivery.status]}`}>
+                        {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}
+                        {delivery.responseStatus ? ` • ${delivery.responseStatus}` : ''}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2.5 text-zinc-500">
+                      {delivery.attempts}/{WEBHOOK_MAX_ATTEMPTS}
+                    </td>
+                    <td className="px-4 py-2.5 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={redeliverMutation.isPending}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          redeliverMutation.mutate(delivery.id)
+                        }}
+                      >
+                        <RotateCcw size={14} className="mr-1.5" />
+                        Reenviar
+                      </Button>
+                    </td>
+                  </tr>
+                  {expandedId === delivery.id && (
+                    <tr className="border-b border-zinc-800/60 bg-zinc-950/40">
+                      <td colSpan={6} className="px-4 py-3">
+                        <DeliveryDetails delivery={delivery} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-zinc-500">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} de {total}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              <ChevronLeft size={14} />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              <ChevronRight size={14} />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Main Page
+// =============================================================================
+
+export default function WebhooksPage() {
+  const queryClient = useQueryClient()
+  const [name, setName] = useState('')
+  const [url, setUrl] = useState('')
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([])
+
+  const { data: endpoints = [], isLoading } = useQuery({
+    queryKey: ['webhook-endpoints'],
+    queryFn: webhookService.getAll,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['webhook-endpoints'] })
+
+  const createMutation = useMutation({
+    mutationFn: () => webhookService.create({ name: name.trim(), url: url.trim(), eventTypes }),
+    onSuccess: () => {
+      toast.success('Webhook cadastrado')
+      setName('')
+      setUrl('')
+      setEventTypes([])
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Parameters<typeof webhookService.update>[1] }) =>
+      webhookService.update(id, updates),
+    onSuccess: (_updated, { updates }) => {
+      toast.success(updates.rotateSecret ? 'Novo segredo gerado' : 'Webhook atualizado')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: webhookService.delete,
+    onSuccess: () => {
+      toast.success('Webhook removido')
+      invalidate()
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleRemove = (endpoint: WebhookEndpoint) => {
+    if (confirm(`Remover "${endpoint.name}"? O log de entregas deste endpoint também será apagado.`)) {
+      removeMutation.mutate(endpoint.id)
+    }
+  }
+
+  const canCreate = !!name.trim() && !!url.trim() && eventTypes.length > 0
+
+  if (isLoading) {
+    return (
+      <Page>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-zinc-500" />
+        </div>
+      </Page>
+    )
+  }
+
+  return (
+    <Page>
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-primary-500/10 flex items-center justify-center">
+            <Webhook className="w-6 h-6 text-primary-400" />
+          </div>
+          <div>
+            <PageTitle>Webhooks</PageTitle>
+            <PageDescription>
+              Envie eventos do SmartZap para seus sistemas, com assinatura HMAC e novas tentativas automáticas
+            </PageDescription>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="space-y-6">
+        <div className="max-w-3xl space-y-6">
+          <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 space-y-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (canCreate) createMutation.mutate()
+              }}
+              className="space-y-4"
+            >
+              <div className="flex items-center gap-3">
+                <Input
+                  placeholder="Nome (ex.: CRM)"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="max-w-48"
+                />
+                <Input
+                  type="url"
+                  placeholder="https://seu-sistema.com/webhooks/smartzap"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                />
+                <Button type="submit" disabled={createMutation.isPending || !canCreate}>
+                  {createMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4 mr-2" />
+                  )}
+                  Cadastrar
+                </Button>
+              </div>
+              <EventCheckboxes value={eventTypes} onChange={setEventTypes} />
+            </form>
+
+            <p className="border-t border-zinc-800 pt-3 text-xs text-zinc-500">
+              Cada entrega é um POST JSON com os headers <code>X-SmartZap-Event</code>,{' '}
+              <code>X-SmartZap-Delivery</code> e <code>X-SmartZap-Timestamp</code>. Valide{' '}
+              <code>X-SmartZap-Signature</code> (<code>sha256=</code> HMAC-SHA256 de{' '}
+              <code>{'{timestamp}.{corpo}'}</code> com o segredo do endpoint). Respostas fora de 2xx são
+              tentadas novamente até {WEBHOOK_MAX_ATTEMPTS} vezes, com intervalo crescente.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            {endpoints.length === 0 ? (
+              <p className="text-sm text-zinc-500">Nenhum webhook cadastrado.</p>
+            ) : (
+              endpoints.map((endpoint) => (
+                <EndpointRow
+                  key={endpoint.id}
+                  endpoint={endpoint}
+                  onUpdate={(updates) => updateMutation.mutate({ id: endpoint.id, updates })}
+                  onRemove={() => handleRemove(endpoint)}
+                  isBusy={updateMutation.isPending || removeMutation.isPending}
+                />
+              ))
+            )}
+          </div>
+        </div>
+
+        <DeliveriesSection endpoints={endpoints} />
+      </div>
+    </Page>
+  )
+}
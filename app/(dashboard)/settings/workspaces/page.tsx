@@ -0,0 +1,504 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  Building2,
+  Plus,
+  Copy,
+  Trash2,
+  Loader2,
+  KeyRound,
+  Pencil,
+  Check,
+  X,
+  ArrowRightLeft,
+  Users,
+} from 'lucide-react'
+import { Page, PageDescription, PageHeader, PageTitle } from '@/components/ui/page'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { workspaceService } from '@/services/workspaceService'
+import { userService } from '@/services/userService'
+import { USER_ROLE_LABELS, hasPermission } from '@/lib/business/access'
+import type { Workspace } from '@/types'
+
+const DEFAULT_WORKSPACE_ID = 'ws_default'
+
+const selectClass =
+  'px-3 py-2 rounded-md bg-zinc-800 border border-zinc-700 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-primary-500'
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '-'
+  return new Date(date).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function ApiKeysSection({ workspace }: { workspace: Workspace }) {
+  const queryClient = useQueryClient()
+  const [name, setName] = useState('')
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const queryKey = ['workspaces', workspace.id, 'api-keys']
+
+  const { data: keys = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => workspaceService.getApiKeys(workspace.id),
+  })
+
+  const createMutation = useMutation({
+    mutationFn: (keyName: string) => workspaceService.createApiKey(workspace.id, keyName),
+    onSuccess: (created) => {
+      setCreatedKey(created.key)
+      setName('')
+      queryClient.invalidateQueries({ queryKey })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: string) => workspaceService.revokeApiKey(workspace.id, keyId),
+    onSuccess: () => {
+      toast.success('Chave revogada')
+      queryClient.invalidateQueries({ queryKey })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  return (
+    <div className="mt-4 space-y-3 border-t border-zinc-800 pt-4">
+      <h5 className="flex items-center gap-2 text-sm font-medium text-zinc-300">
+        <KeyRound size={14} className="text-primary-400" />
+        Chaves de API
+      </h5>
+      <p className="text-xs text-zinc-500">
+        Integrações que usam estas chaves só acessam os dados deste workspace.
+      </p>
+
+      {createdKey && (
+        <div className="rounded-lg border border-green-500/20 bg-green-500/5 p-3">
+          <p className="mb-2 text-xs text-green-300">
+            Copie a chave agora. Ela não será exibida novamente.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-zinc-800 px-2 py-1 text-xs text-zinc-200">{createdKey}</code>
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(createdKey)
+                toast.success('Chave copiada!')
+              }}
+              className="p-1.5 rounded hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200 transition-colors"
+              title="Copiar chave"
+            >
+              <Copy size={14} />
+            </button>
+            <button
+              onClick={() => setCreatedKey(null)}
+              className="p-1.5 rounded hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200 transition-colors"
+              title="Fechar"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-zinc-500" />
+      ) : keys.length === 0 ? (
+        <p className="text-xs text-zinc-500">Nenhuma chave criada.</p>
+      ) : (
+        <ul className="space-y-2">
+          {keys.map((key) => (
+            <li key={key.id} className="flex items-center justify-between gap-3 rounded-lg bg-zinc-800/50 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className={key.revokedAt ? 'text-zinc-500 line-through' : 'text-zinc-200'}>{key.name}</p>
+                <p className="text-xs text-zinc-500">
+                  {key.keyPrefix}… • Criada em {formatDate(key.createdAt)}
+                  {key.lastUsedAt && ` • Último uso: ${formatDate(key.lastUsedAt)}`}
+                  {key.revokedAt && ` • Revogada em ${formatDate(key.revokedAt)}`}
+                </p>
+              </div>
+              {!key.revokedAt && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Revogar a chave "${key.name}"? Integrações que a usam deixarão de funcionar.`)) {
+                      revokeMutation.mutate(key.id)
+                    }
+                  }}
+                  className="text-red-400 hover:text-red-300"
+                >
+                  Revogar
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (name.trim()) createMutation.mutate(name.trim())
+        }}
+        className="flex items-center gap-2"
+      >
+        <Input
+          placeholder="Nome da chave (ex: CRM)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="max-w-xs"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={createMutation.isPending || !name.trim()}>
+          {createMutation.isPending ? (
+            <Loader2 size={14} className="mr-1.5 animate-spin" />
+          ) : (
+            <Plus size={14} className="mr-1.5" />
+          )}
+          Gerar chave
+        </Button>
+      </form>
+    </div>
+  )
+}
+
+/**
+ * Usuários com acesso ao workspace. Proprietários e administradores acessam
+ * todos os workspaces e não precisam ser adicionados.
+ */
+function MembersSection({ workspace }: { workspace: Workspace }) {
+  const queryClient = useQueryClient()
+  const [userId, setUserId] = useState('')
+  const queryKey = ['workspaces', workspace.id, 'members']
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => workspaceService.getMembers(workspace.id),
+  })
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['users'],
+    queryFn: userService.getAll,
+  })
+
+  const candidates = users.filter(
+    (user) => !hasPermission(user.role, 'workspaces:manage') && !members.some((member) => member.id === user.id)
+  )
+
+  const addMutation = useMutation({
+    mutationFn: (id: string) => workspaceService.addMember(workspace.id, id),
+    onSuccess: () => {
+      setUserId('')
+      queryClient.invalidateQueries({ queryKey })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => workspaceService.removeMember(workspace.id, id),
+    onSuccess: () => {
+      toast.success('Acesso removido')
+      queryClient.invalidateQueries({ queryKey })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  return (
+    <div className="mt-4 space-y-3 border-t border-zinc-800 pt-4">
+      <h5 className="flex items-center gap-2 text-sm font-medium text-zinc-300">
+        <Users size={14} className="text-primary-400" />
+        Membros
+      </h5>
+      <p className="text-xs text-zinc-500">
+        Usuários com acesso a este workspace. Proprietários e administradores acessam todos.
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-zinc-500" />
+      ) : members.length === 0 ? (
+        <p className="text-xs text-zinc-500">Nenhum membro.</p>
+      ) : (
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <li key={member.id} className="flex items-center justify-between gap-3 rounded-lg bg-zinc-800/50 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="text-zinc-200 truncate">{member.name}</p>
+                <p className="text-xs text-zinc-500 truncate">
+                  {member.email} • {USER_ROLE_LABELS[member.role]}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={removeMutation.isPending}
+                onClick={() => {
+                  if (confirm(`Remover o acesso de "${member.name}" a este workspace?`)) {
+                    removeMutation.mutate(member.id)
+                  }
+                }}
+                className="text-red-400 hover:text-red-300"
+              >
+                Remover
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {candidates.length > 0 && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (userId) addMutation.mutate(userId)
+          }}
+          className="flex items-center gap-2"
+        >
+          <select className={selectClass} value={userId} onChange={(e) => setUserId(e.target.value)}>
+            <option value="">Selecione um usuário</option>
+            {candidates.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name} ({USER_ROLE_LABELS[user.role]})
+              </option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" variant="outline" disabled={addMutation.isPending || !userId}>
+            {addMutation.isPending ? (
+              <Loader2 size={14} className="mr-1.5 animate-spin" />
+            ) : (
+              <Plus size={14} className="mr-1.5" />
+            )}
+            Adicionar
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
+
+function WorkspaceCard({
+  workspace,
+  isCurrent,
+  onSwitch,
+  onRename,
+  onDelete,
+  isDeleting,
+}: {
+  workspace: Workspace
+  isCurrent: boolean
+  onSwitch: () => void
+  onRename: (name: string) => void
+  onDelete: () => void
+  isDeleting: boolean
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [name, setName] = useState(workspace.name)
+
+  const submitRename = () => {
+    if (name.trim() && name.trim() !== workspace.name) onRename(name.trim())
+    setIsEditing(false)
+  }
+
+  return (
+    <div className={`bg-zinc-900 border rounded-xl p-5 ${isCurrent ? 'border-primary-500/40' : 'border-zinc-800'}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-10 h-10 rounded-lg flex items-center justify-center text-lg font-semibold bg-primary-500/10 text-primary-400">
+            {workspace.name.charAt(0).toUpperCase()}
+          </div>
+          <div className="min-w-0">
+            {isEditing ? (
+              <div className="flex items-center gap-1">
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && submitRename()}
+                  className="h-8 max-w-xs"
+                  autoFocus
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={submitRename}>
+                  <Check size={14} />
+                </Button>
+              </div>
+            ) : (
+              <h4 className="font-medium text-zinc-100 truncate">{workspace.name}</h4>
+            )}
+            <p className="text-xs text-zinc-500">
+              Criado em {formatDate(workspace.createdAt)}
+              {isCurrent && ' • Ativo'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          {!isCurrent && (
+            <Button variant="outline" size="sm" onClick={onSwitch}>
+              <ArrowRightLeft size={14} className="mr-1.5" />
+              Usar
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setIsEditing(!isEditing)} title="Renomear">
+            <Pencil size={14} />
+          </Button>
+          {workspace.id !== DEFAULT_WORKSPACE_ID && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-red-400 hover:text-red-300"
+              onClick={onDelete}
+              disabled={isDeleting}
+              title="Excluir"
+            >
+              {isDeleting ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <MembersSection workspace={workspace} />
+      <ApiKeysSection workspace={workspace} />
+    </div>
+  )
+}
+
+// =============================================================================
+// Main Page
+// =============================================================================
+
+export default function WorkspacesPage() {
+  const queryClient = useQueryClient()
+  const [newName, setNewName] = useState('')
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['workspaces', 'current'],
+    queryFn: workspaceService.getCurrent,
+  })
+
+  const workspaces = data?.workspaces ?? []
+  const currentId = data?.current?.id
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['workspaces', 'current'] })
+
+  const createMutation = useMutation({
+    mutationFn: workspaceService.create,
+    onSuccess: () => {
+      toast.success('Workspace criado')
+      setNewName('')
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => workspaceService.rename(id, name),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: workspaceService.delete,
+    onSuccess: () => {
+      toast.success('Workspace removido')
+      setDeletingId(null)
+      invalidate()
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+      setDeletingId(null)
+    },
+  })
+
+  const handleSwitch = async (id: string) => {
+    try {
+      await workspaceService.select(id)
+      window.location.href = '/'
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Falha ao trocar de workspace')
+    }
+  }
+
+  const handleDelete = (workspace: Workspace) => {
+    if (confirm(`Remover "${workspace.name}"? Contatos, campanhas, templates e configurações deste workspace serão apagados.`)) {
+      setDeletingId(workspace.id)
+      deleteMutation.mutate(workspace.id)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Page>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-zinc-500" />
+        </div>
+      </Page>
+    )
+  }
+
+  return (
+    <Page>
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-primary-500/10 flex items-center justify-center">
+            <Building2 className="w-6 h-6 text-primary-400" />
+          </div>
+          <div>
+            <PageTitle>Workspaces</PageTitle>
+            <PageDescription>
+              Cada workspace tem seus próprios contatos, campanhas, templates, credenciais e configurações
+            </PageDescription>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="max-w-3xl space-y-6">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (newName.trim()) createMutation.mutate(newName.trim())
+          }}
+          className="bg-zinc-900 border border-zinc-800 rounded-xl p-6 flex items-center gap-3"
+        >
+          <Input
+            placeholder="Nome do novo workspace (ex: Cliente ACME)"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button type="submit" disabled={createMutation.isPending || !newName.trim()}>
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            Criar
+          </Button>
+        </form>
+
+        <div className="space-y-4">
+          {workspaces.map((workspace) => (
+            <WorkspaceCard
+              key={workspace.id}
+              workspace={workspace}
+              isCurrent={workspace.id === currentId}
+              onSwitch={() => handleSwitch(workspace.id)}
+              onRename={(name) => renameMutation.mutate({ id: workspace.id, name })}
+              onDelete={() => handleDelete(workspace)}
+              isDeleting={deletingId === workspace.id}
+            />
+          ))}
+        </div>
+      </div>
+    </Page>
+  )
+}
@@ -62,6 +62,7 @@ function getTriggerLabel(workflow: WorkflowItem): string {
   if (typeof triggerType === "string" && triggerType.trim()) {
     const trimmed = triggerType.trim();
     if (trimmed === "Keywords") return "Palavras-chave";
+    if (trimmed === "Intent") return "Intenção (IA)";
     if (trimmed === "Webhook") return "Webhook";
     if (trimmed === "Manual") return "Manual";
     return trimmed;
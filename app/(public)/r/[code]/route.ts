@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runWithWorkspace } from '@/lib/workspace-context'
+import { findCampaignLinkTarget, recordCampaignLinkClick } from '@/lib/campaign-link-tracking'
+
+export const dynamic = 'force-dynamic'
+
+type Params = { params: Promise<{ code: string }> }
+
+/**
+ * GET /r/[code]
+ * Redirect dos botões de URL rastreados: registra o clique do contato e
+ * envia para o destino configurado na campanha.
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  const { code } = await params
+
+  const target = await findCampaignLinkTarget(code)
+  if (!target) {
+    return new NextResponse('Link não encontrado ou expirado.', {
+      status: 404,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    })
+  }
+
+  await runWithWorkspace(target.workspaceId, () =>
+    recordCampaignLinkClick(target, request.headers.get('user-agent'))
+  ).catch((e) => {
+    // O contato sempre chega ao destino, mesmo se o registro falhar
+    console.warn('[LinkTracking] Falha ao registrar clique (best-effort):', e)
+  })
+
+  return NextResponse.redirect(target.url, {
+    status: 302,
+    headers: { 'Cache-Control': 'no-store' },
+  })
+}
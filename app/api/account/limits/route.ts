@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
 import { fetchWithTimeout, safeText } from '@/lib/server-http'
+import { phoneNumberDb } from '@/lib/supabase-db'
 
 // Tier limits mapping
 const TIER_LIMITS: Record<string, number> = {
@@ -66,7 +67,13 @@ async function fetchLimitsFromMeta(phoneNumberId: string, accessToken: string) {
   
   const maxUniqueUsersPerDay = TIER_LIMITS[messagingTier] || 250
 
+  // Qualidade/tier ficam registrados por número (best-effort: número pode não estar registrado)
+  await phoneNumberDb
+    .recordLimits(phoneNumberId, { qualityRating: qualityScore, messagingLimitTier: messagingTier })
+    .catch((e) => console.warn('[AccountLimits] Falha ao registrar limites do número (best-effort):', e))
+
   return {
+    phoneNumberId,
     messagingTier,
     maxUniqueUsersPerDay: maxUniqueUsersPerDay === Infinity ? -1 : maxUniqueUsersPerDay,
     throughputLevel,
@@ -78,8 +85,9 @@ async function fetchLimitsFromMeta(phoneNumberId: string, accessToken: string) {
 }
 
 // GET /api/account/limits - Fetch limits usando credenciais salvas (Supabase/env)
-export async function GET() {
-  const credentials = await getWhatsAppCredentials()
+// ?phoneNumberId= consulta um número específico (padrão: principal)
+export async function GET(request: NextRequest) {
+  const credentials = await getWhatsAppCredentials(request.nextUrl.searchParams.get('phoneNumberId'))
   
   if (!credentials?.phoneNumberId || !credentials?.accessToken) {
     return NextResponse.json({ 
@@ -105,6 +113,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   let phoneNumberId: string | undefined
   let accessToken: string | undefined
+  let requestedPhoneNumberId: string | null = null
 
   // Try to get from request body first
   try {
@@ -113,6 +122,9 @@ export async function POST(request: NextRequest) {
     if (body.phoneNumberId && body.accessToken && !body.accessToken.includes('***')) {
       phoneNumberId = body.phoneNumberId
       accessToken = body.accessToken
+    } else if (typeof body.phoneNumberId === 'string') {
+      // Só o número: usa o token salvo (números da mesma WABA)
+      requestedPhoneNumberId = body.phoneNumberId
     }
   } catch {
     // Sem body (ou body inválido): fallback para credenciais salvas
@@ -120,7 +132,7 @@ export async function POST(request: NextRequest) {
 
   // Fallback para credenciais salvas (Supabase/env)
   if (!phoneNumberId || !accessToken) {
-    const credentials = await getWhatsAppCredentials()
+    const credentials = await getWhatsAppCredentials(requestedPhoneNumberId)
     if (credentials) {
       phoneNumberId = credentials.phoneNumberId
       accessToken = credentials.accessToken
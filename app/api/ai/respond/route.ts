@@ -13,8 +13,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { inboxDb } from '@/lib/inbox/inbox-db'
+import { completeHandoff } from '@/lib/inbox/inbox-assignment'
 import { processChatAgent, type ContactContext } from '@/lib/ai/agents/chat-agent'
 import { sendWhatsAppMessage, sendTypingIndicator } from '@/lib/whatsapp-send'
+import { getWhatsAppCredentials, type WhatsAppCredentials } from '@/lib/whatsapp-credentials'
 import { getSupabaseAdmin } from '@/lib/supabase'
 import { redis } from '@/lib/redis'
 import type { AIAgent } from '@/types'
@@ -129,7 +131,7 @@ export async function POST(req: NextRequest) {
     }
 
     // 5. Busca agente
-    const agent = await getAgentForConversation(conversation.ai_agent_id)
+    const agent = await getAgentForConversation(conversation.ai_agent_id, conversation.phone_number_id)
 
     if (!agent) {
       console.log(`❌ [AI-RESPOND] No agent configured`)
@@ -143,6 +145,9 @@ export async function POST(req: NextRequest) {
 
     console.log(`🤖 [AI-RESPOND] Using agent: ${agent.name} (${agent.model})`)
 
+    // Respostas saem pelo número que recebeu a conversa
+    const credentials = (await getWhatsAppCredentials(conversation.phone_number_id)) ?? undefined
+
     // 6. Busca mensagens recentes
     const { messages } = await inboxDb.listMessages(conversationId, { limit: 20 })
     console.log(`🤖 [AI-RESPOND] Found ${messages.length} messages`)
@@ -178,7 +183,7 @@ export async function POST(req: NextRequest) {
       console.log(`❌ [AI-RESPOND] AI failed: ${result.error}`)
 
       // Auto-handoff em caso de erro
-      await handleAutoHandoff(conversationId, conversation.phone, result.error || 'AI processing failed')
+      await handleAutoHandoff(conversationId, conversation.phone, result.error || 'AI processing failed', credentials)
 
       return NextResponse.json({
         success: false,
@@ -212,7 +217,7 @@ export async function POST(req: NextRequest) {
 
       // Envia typing indicator antes de cada parte (se tiver message_id)
       if (typingMessageId) {
-        await sendTypingIndicator({ messageId: typingMessageId })
+        await sendTypingIndicator({ messageId: typingMessageId, credentials })
         console.log(`⌨️ [AI-RESPOND] Typing indicator sent for part ${i + 1}`)
       }
 
@@ -229,6 +234,7 @@ export async function POST(req: NextRequest) {
         type: 'text',
         text: part,
         replyToMessageId: shouldQuote ? typingMessageId : undefined,
+        credentials,
       })
 
       if (shouldQuote) {
@@ -269,6 +275,11 @@ export async function POST(req: NextRequest) {
       console.log(`🔄 [AI-RESPOND] Processing handoff request...`)
 
       await inboxDb.updateConversation(conversationId, { mode: 'human' })
+      await completeHandoff(conversationId, {
+        source: 'ai',
+        reason: result.response.handoffReason,
+        summary: result.response.handoffSummary,
+      })
 
       await inboxDb.createMessage({
         conversation_id: conversationId,
@@ -345,9 +356,9 @@ async function getContactData(contactId: string): Promise<ContactContext | undef
 
 /**
  * Busca o agente de IA para uma conversa
- * Prioridade: agente específico da conversa → agente padrão
+ * Prioridade: agente específico da conversa → agente do número → agente padrão
  */
-async function getAgentForConversation(agentId: string | null): Promise<AIAgent | null> {
+async function getAgentForConversation(agentId: string | null, phoneNumberId?: string | null): Promise<AIAgent | null> {
   const supabase = getSupabaseAdmin()
   if (!supabase) return null
 
@@ -357,6 +368,20 @@ async function getAgentForConversation(agentId: string | null): Promise<AIAgent
     if (data) return data as AIAgent
   }
 
+  // Agente vinculado ao número da conversa
+  if (phoneNumberId) {
+    const { data: number } = await supabase
+      .from('whatsapp_phone_numbers')
+      .select('ai_agent_id')
+      .eq('phone_number_id', phoneNumberId)
+      .maybeSingle()
+
+    if (number?.ai_agent_id) {
+      const { data } = await supabase.from('ai_agents').select('*').eq('id', number.ai_agent_id).single()
+      if (data) return data as AIAgent
+    }
+  }
+
   // Fallback para agente padrão
   const { data } = await supabase
     .from('ai_agents')
@@ -375,7 +400,8 @@ async function getAgentForConversation(agentId: string | null): Promise<AIAgent
 async function handleAutoHandoff(
   conversationId: string,
   phone: string,
-  errorMessage: string
+  errorMessage: string,
+  credentials?: WhatsAppCredentials
 ): Promise<void> {
   console.log(`🚨 [AI-RESPOND] Auto-handoff due to error: ${errorMessage}`)
 
@@ -387,6 +413,7 @@ async function handleAutoHandoff(
     to: phone,
     type: 'text',
     text: fallbackMessage,
+    credentials,
   })
 
   if (sendResult.success && sendResult.messageId) {
@@ -402,6 +429,7 @@ async function handleAutoHandoff(
 
   // Muda para modo humano
   await inboxDb.updateConversation(conversationId, { mode: 'human' })
+  await completeHandoff(conversationId, { source: 'ai_fallback', reason: errorMessage })
 
   // Cria nota interna
   await inboxDb.createMessage({
@@ -1,6 +1,7 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import type { AttendantToken, UpdateAttendantTokenDTO } from '@/types';
+import { recordAuditEvent } from '@/lib/audit';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -41,7 +42,7 @@ export async function GET(request: Request, { params }: RouteParams) {
 // PATCH - Atualizar token
 // =============================================================================
 
-export async function PATCH(request: Request, { params }: RouteParams) {
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
     const body: UpdateAttendantTokenDTO = await request.json();
@@ -78,6 +79,12 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
+    const { data: existing } = await supabase
+      .from('attendant_tokens')
+      .select('name, permissions, is_active, expires_at')
+      .eq('id', id)
+      .maybeSingle();
+
     const { data, error } = await supabase
       .from('attendant_tokens')
       .update(updateData)
@@ -100,6 +107,16 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
+    await recordAuditEvent(request, {
+      action: 'attendant_token.update',
+      entityType: 'attendant_token',
+      entityId: id,
+      before: existing
+        ? Object.fromEntries(Object.keys(updateData).map((key) => [key, existing[key as keyof typeof existing]]))
+        : null,
+      after: updateData,
+    });
+
     return NextResponse.json(data as AttendantToken);
   } catch (error) {
     console.error('[API] Erro inesperado:', error);
@@ -114,10 +131,16 @@ export async function PATCH(request: Request, { params }: RouteParams) {
 // DELETE - Remover token
 // =============================================================================
 
-export async function DELETE(request: Request, { params }: RouteParams) {
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
 
+    const { data: existing } = await supabase
+      .from('attendant_tokens')
+      .select('name')
+      .eq('id', id)
+      .maybeSingle();
+
     const { error } = await supabase
       .from('attendant_tokens')
       .delete()
@@ -131,6 +154,13 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       );
     }
 
+    await recordAuditEvent(request, {
+      action: 'attendant_token.delete',
+      entityType: 'attendant_token',
+      entityId: id,
+      before: existing ? { name: existing.name } : null,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('[API] Erro inesperado:', error);
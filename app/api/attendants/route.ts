@@ -1,6 +1,7 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { randomBytes } from 'crypto';
+import { recordAuditEvent } from '@/lib/audit';
 import type {
   AttendantToken,
   CreateAttendantTokenDTO,
@@ -40,7 +41,7 @@ export async function GET() {
 // POST - Criar novo token de atendente
 // =============================================================================
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const body: CreateAttendantTokenDTO = await request.json();
 
@@ -81,6 +82,13 @@ export async function POST(request: Request) {
       );
     }
 
+    await recordAuditEvent(request, {
+      action: 'attendant_token.create',
+      entityType: 'attendant_token',
+      entityId: data.id,
+      after: { name: data.name, permissions: data.permissions, expires_at: data.expires_at },
+    });
+
     return NextResponse.json(data as AttendantToken, { status: 201 });
   } catch (error) {
     console.error('[API] Erro inesperado:', error);
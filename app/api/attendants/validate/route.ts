@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import type { AttendantToken } from '@/types';
+import { WORKSPACE_COOKIE, runUnscoped, runWithWorkspace } from '@/lib/workspace-context';
+import { ATTENDANT_COOKIE } from '@/lib/audit';
 
 // =============================================================================
 // POST - Validar token e registrar acesso
@@ -17,12 +19,12 @@ export async function POST(request: Request) {
       );
     }
 
-    // Buscar token
-    const { data, error } = await supabase
+    // Buscar token (único entre workspaces)
+    const { data, error } = await runUnscoped(async () => supabase
       .from('attendant_tokens')
       .select('*')
       .eq('token', token)
-      .single();
+      .single());
 
     if (error || !data) {
       return NextResponse.json(
@@ -32,6 +34,7 @@ export async function POST(request: Request) {
     }
 
     const attendant = data as AttendantToken;
+    const workspaceId = (data as { workspace_id: string }).workspace_id;
 
     // Verificar se está ativo
     if (!attendant.is_active) {
@@ -50,16 +53,16 @@ export async function POST(request: Request) {
     }
 
     // Atualizar último acesso e contador
-    await supabase
+    await runWithWorkspace(workspaceId, async () => supabase
       .from('attendant_tokens')
       .update({
         last_used_at: new Date().toISOString(),
         access_count: attendant.access_count + 1,
       })
-      .eq('id', attendant.id);
+      .eq('id', attendant.id));
 
     // Retornar dados do atendente (sem o token em si)
-    return NextResponse.json({
+    const response = NextResponse.json({
       valid: true,
       attendant: {
         id: attendant.id,
@@ -67,6 +70,22 @@ export async function POST(request: Request) {
         permissions: attendant.permissions,
       },
     });
+
+    // O atendimento passa a operar no workspace do atendente
+    response.cookies.set(WORKSPACE_COOKIE, workspaceId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+    });
+    // Atribui ações do atendimento a este atendente no histórico de auditoria
+    response.cookies.set(ATTENDANT_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+    });
+    return response;
   } catch (error) {
     console.error('[API] Erro ao validar token:', error);
     return NextResponse.json(
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server'
+import { auditLogDb } from '@/lib/supabase-db'
+import { parseAuditLogFilters } from '@/lib/audit'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import type { AuditLogEntry } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+const PAGE_SIZE = 1000
+const MAX_ROWS = 10_000
+
+const csvEscape = (value: unknown) => {
+  const s = value === null || value === undefined ? '' : String(value)
+  // RFC4180-ish: quote when needed, double-escape quotes
+  const needsQuotes = /[",\n\r]/.test(s)
+  const escaped = s.replace(/"/g, '""')
+  return needsQuotes ? `"${escaped}"` : escaped
+}
+
+/**
+ * GET /api/audit-log/export
+ * Baixa o histórico de auditoria em CSV (mesmos filtros da listagem, até 10 mil linhas).
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'audit:view')
+  if (denied) return denied
+
+  try {
+    const filters = parseAuditLogFilters(request.nextUrl.searchParams)
+
+    const entries: AuditLogEntry[] = []
+    for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+      const { data } = await auditLogDb.list({ ...filters, limit: PAGE_SIZE, offset })
+      entries.push(...data)
+      if (data.length < PAGE_SIZE) break
+    }
+
+    const header = [
+      'created_at',
+      'actor_type',
+      'actor_id',
+      'actor_label',
+      'action',
+      'entity_type',
+      'entity_id',
+      'ip',
+      'changes',
+      'metadata',
+    ]
+
+    const lines = [header.join(',')]
+    for (const entry of entries) {
+      lines.push(
+        [
+          csvEscape(entry.createdAt),
+          csvEscape(entry.actorType),
+          csvEscape(entry.actorId),
+          csvEscape(entry.actorLabel),
+          csvEscape(entry.action),
+          csvEscape(entry.entityType),
+          csvEscape(entry.entityId),
+          csvEscape(entry.ip),
+          csvEscape(entry.changes ? JSON.stringify(entry.changes) : ''),
+          csvEscape(Object.keys(entry.metadata).length > 0 ? JSON.stringify(entry.metadata) : ''),
+        ].join(',')
+      )
+    }
+
+    // BOM ajuda Excel/Sheets a reconhecer UTF-8
+    const csv = `\ufeff${lines.join('\n')}\n`
+    const filename = `auditoria_${new Date().toISOString().slice(0, 10)}.csv`
+
+    return new Response(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store, no-cache, must-revalidate',
+        Pragma: 'no-cache',
+        Expires: '0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to export audit log:', error)
+    return new Response('Falha ao exportar histórico de auditoria', { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditLogDb } from '@/lib/supabase-db'
+import { parseAuditLogFilters } from '@/lib/audit'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/audit-log
+ * Histórico de auditoria filtrável (action, actorType, entityType, entityId, from, to)
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'audit:view')
+  if (denied) return denied
+
+  try {
+    const filters = parseAuditLogFilters(request.nextUrl.searchParams)
+    const result = await auditLogDb.list(filters)
+    return NextResponse.json({ ...result, limit: filters.limit, offset: filters.offset })
+  } catch (error) {
+    console.error('Failed to list audit log:', error)
+    return NextResponse.json(
+      { error: 'Falha ao buscar histórico de auditoria', details: (error as Error).message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Invite API
+ *
+ * GET: Dados do convite (e-mail e papel) para a tela de aceite
+ * POST: Aceita o convite, cria a conta e inicia a sessão
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { acceptInvite, getInviteByToken } from '@/lib/user-auth'
+import { recordAuditEvent, sessionUserActor } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token') || ''
+    const invite = await getInviteByToken(token)
+
+    if (!invite) {
+      return NextResponse.json({ error: 'Convite inválido ou expirado' }, { status: 404 })
+    }
+
+    return NextResponse.json({ email: invite.email, role: invite.role, expiresAt: invite.expiresAt })
+  } catch (error) {
+    console.error('Invite lookup error:', error)
+    return NextResponse.json({ error: 'Erro ao buscar convite' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token, name, password } = body
+
+    const result = await acceptInvite(String(token || ''), String(name || ''), String(password || ''))
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    if (result.user) {
+      await recordAuditEvent(
+        request,
+        { action: 'user.invite_accept', entityType: 'user', entityId: result.user.id, metadata: { role: result.user.role } },
+        sessionUserActor(result.user)
+      )
+    }
+
+    return NextResponse.json({ success: true, company: result.company })
+  } catch (error) {
+    console.error('Accept invite error:', error)
+    return NextResponse.json({ error: 'Erro ao aceitar convite' }, { status: 500 })
+  }
+}
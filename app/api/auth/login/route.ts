@@ -1,11 +1,12 @@
 /**
  * Login API
  * 
- * POST: Login with password
+ * POST: Login with password (MASTER_PASSWORD) or email + password (user account)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { loginUser, isSetupComplete } from '@/lib/user-auth'
+import { recordAuditEvent, sessionUserActor } from '@/lib/audit'
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,7 +20,7 @@ export async function POST(request: NextRequest) {
     }
     
     const body = await request.json()
-    const { password } = body
+    const { password, email } = body
     if (!password) {
       return NextResponse.json(
         { error: 'Senha é obrigatória' },
@@ -27,7 +28,7 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    const result = await loginUser(password)
+    const result = await loginUser(password, typeof email === 'string' && email.trim() ? email : undefined)
     
     if (!result.success) {
       return NextResponse.json(
@@ -36,6 +37,12 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    await recordAuditEvent(
+      request,
+      { action: 'auth.login' },
+      result.user ? sessionUserActor(result.user) : { type: 'user', id: null, label: 'MASTER_PASSWORD' }
+    )
+
     return NextResponse.json({
       success: true,
       company: result.company
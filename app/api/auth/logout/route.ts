@@ -4,11 +4,13 @@
  * POST: Logout and clear session
  */
 
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { logoutUser } from '@/lib/user-auth'
+import { recordAuditEvent } from '@/lib/audit'
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    await recordAuditEvent(request, { action: 'auth.logout' })
     await logoutUser()
     
     return NextResponse.json({ success: true })
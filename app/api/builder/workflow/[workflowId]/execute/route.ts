@@ -6,7 +6,9 @@ import {
   getCompanyId,
   toSavedWorkflow,
 } from "@/lib/builder/workflow-db";
-import { executeWorkflow } from "@/lib/builder/workflow-executor.workflow";
+import type { WorkflowPause } from "@/lib/builder/workflow-executor.workflow";
+import { runWorkflowWithWaits } from "@/lib/builder/workflow-waits";
+import { matchKeywordRule, parseKeywordRules } from "@/lib/business/workflow";
 import { validateWorkflowSchema } from "@/lib/shared/workflow-schema";
 
 type BuilderWorkflowInput = {
@@ -19,10 +21,14 @@ type BuilderWorkflowInput = {
   };
   startNodeIds?: string[];
   initialVariables?: Record<string, unknown>;
+  /** Continuation of a run paused outside Upstash (Delay / reply timeout) */
+  pause?: WorkflowPause;
+  /** Run that paused: the continuation keeps writing to it */
+  executionId?: string;
 };
 
 export const { POST } = serve<BuilderWorkflowInput>(async (context) => {
-  const { workflowId, input } = context.requestPayload;
+  const { workflowId, input, pause } = context.requestPayload;
   const supabase = getSupabaseAdmin();
   if (!supabase) {
     return {
@@ -52,82 +58,74 @@ export const { POST } = serve<BuilderWorkflowInput>(async (context) => {
     | undefined;
   const inboundMessage = input?.message || "";
 
-  const executionId = nanoid();
-  await supabase.from("workflow_runs").insert({
-    id: executionId,
-    workflow_id: workflowId,
-    version_id: record.workflow.active_version_id,
-    status: "running",
-    trigger_type: triggerType ?? null,
-    input: input ?? {},
-    started_at: new Date().toISOString(),
+  // Step: the run survives the replays after each Delay / reply timeout sleep
+  const executionId = await context.run("create-run", async () => {
+    if (pause && context.requestPayload.executionId) {
+      return context.requestPayload.executionId;
+    }
+    const id = nanoid();
+    await supabase.from("workflow_runs").insert({
+      id,
+      workflow_id: workflowId,
+      version_id: record.workflow.active_version_id,
+      status: "running",
+      trigger_type: pause ? "Resume" : (triggerType ?? null),
+      input: input ?? {},
+      started_at: new Date().toISOString(),
+    });
+    return id;
   });
 
-  if (triggerType === "Keywords" && !context.requestPayload.startNodeIds) {
-    const keywordListRaw = triggerNode?.data.config?.keywordList as
-      | string
-      | undefined;
-    const keywords = (keywordListRaw || "")
-      .split(/\r?\n/)
-      .map((entry) => entry.trim())
-      .filter(Boolean);
-    const normalizedMessage = inboundMessage.toLowerCase();
+  // Intent triggers are classified by the caller (inbound webhook); here we
+  // only require the message that was classified.
+  const isMessageTrigger = triggerType === "Keywords" || triggerType === "Intent";
+  if (isMessageTrigger && !context.requestPayload.startNodeIds && !pause) {
+    const skipReason = !inboundMessage.trim()
+      ? "missing_message"
+      : triggerType === "Keywords" &&
+          !parseKeywordRules(triggerNode?.data.config).some((rule) =>
+            matchKeywordRule(rule, inboundMessage)
+          )
+        ? "keyword_not_matched"
+        : null;
 
-    if (!normalizedMessage) {
+    if (skipReason) {
       await supabase
         .from("workflow_runs")
         .update({
           status: "skipped",
-          output: { reason: "missing_message" },
+          output: { reason: skipReason },
           finished_at: new Date().toISOString(),
         })
         .eq("id", executionId);
       return {
         executionId,
         status: "skipped",
-        output: { reason: "missing_message" },
-      };
-    }
-
-    const matched = keywords.some((keyword) =>
-      normalizedMessage.includes(keyword.toLowerCase())
-    );
-    if (!matched) {
-      await supabase
-        .from("workflow_runs")
-        .update({
-          status: "skipped",
-          output: { reason: "keyword_not_matched" },
-          finished_at: new Date().toISOString(),
-        })
-        .eq("id", executionId);
-      return {
-        executionId,
-        status: "skipped",
-        output: { reason: "keyword_not_matched" },
+        output: { reason: skipReason },
       };
     }
   }
 
-  const execution = await context.run(`execute-workflow-${workflowId}`, () =>
-    executeWorkflow({
-      nodes: workflow.nodes,
-      edges: workflow.edges,
-      triggerInput: input ?? {},
-      executionId,
-      workflowId,
-      startNodeIds: context.requestPayload.startNodeIds,
-      initialVariables: context.requestPayload.initialVariables,
-    })
-  );
+  const execution = await runWorkflowWithWaits(context, {
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    triggerInput: input ?? {},
+    executionId,
+    workflowId,
+    startNodeIds: context.requestPayload.startNodeIds,
+    initialVariables: context.requestPayload.initialVariables,
+    pause,
+  });
 
   return {
     executionId,
-    status: execution.paused
-      ? "waiting"
-      : execution.success
-        ? "success"
-        : "failed",
+    status: !execution
+      ? "completed"
+      : execution.paused
+        ? "waiting"
+        : execution.success
+          ? "success"
+          : "failed",
     output: execution,
   };
 });
@@ -6,9 +6,12 @@ import {
   getCompanyId,
   toSavedWorkflow,
 } from "@/lib/builder/workflow-db";
-import { executeWorkflow } from "@/lib/builder/workflow-executor.workflow";
+import { runWorkflowWithWaits } from "@/lib/builder/workflow-waits";
 import { validateWorkflowSchema } from "@/lib/shared/workflow-schema";
-import { completeConversation } from "@/lib/builder/workflow-conversations";
+import {
+  settleConversation,
+  type ConversationState,
+} from "@/lib/builder/workflow-conversations";
 
 type ResumeWorkflowInput = {
   workflowId: string;
@@ -38,14 +41,17 @@ export const { POST } = serve<ResumeWorkflowInput>(async (context) => {
     };
   }
 
-  const { data: conversation } = conversationId
-    ? await supabase
-        .from("workflow_conversations")
-        .select("*")
-        .eq("id", conversationId)
-        .eq("status", "waiting")
-        .maybeSingle()
-    : { data: null };
+  // Step: replays after a Delay / reply timeout sleep must see the same
+  // conversation, even though it is no longer waiting by then
+  const conversation = await context.run("load-conversation", async () => {
+    const { data } = await supabase
+      .from("workflow_conversations")
+      .select("*")
+      .eq("id", conversationId)
+      .eq("status", "waiting")
+      .maybeSingle();
+    return (data as ConversationState | null) ?? null;
+  });
 
   if (!conversation) {
     return {
@@ -103,17 +109,6 @@ export const { POST } = serve<ResumeWorkflowInput>(async (context) => {
     };
   }
 
-  const executionId = nanoid();
-  await supabase.from("workflow_runs").insert({
-    id: executionId,
-    workflow_id: workflowId,
-    version_id: record.workflow.active_version_id,
-    status: "running",
-    trigger_type: "Resume",
-    input: input ?? {},
-    started_at: new Date().toISOString(),
-  });
-
   const conversationVars =
     (conversation.variables as Record<string, unknown> | null) || {};
   const nextVariables = {
@@ -124,27 +119,58 @@ export const { POST } = serve<ResumeWorkflowInput>(async (context) => {
     input?.from || conversation.phone || input?.to || ""
   );
 
-  const execution = await context.run(`execute-workflow-${workflowId}`, () =>
-    executeWorkflow({
-      nodes: workflow.nodes,
-      edges: workflow.edges,
-      triggerInput: {
-        from: fromPhone,
-        to: fromPhone,
-        message: incomingMessage,
-      },
-      executionId,
-      workflowId,
-      startNodeIds: [resumeNodeId],
-      initialVariables: nextVariables,
-    })
+  // Claims the reply before running: a reply timeout firing at the same time
+  // finds the conversation already completed (and vice versa)
+  const claimed = await context.run("complete-conversation", async () =>
+    Boolean(
+      await settleConversation(supabase, conversation.id, "completed", nextVariables)
+    )
   );
+  if (!claimed) {
+    return {
+      executionId: nanoid(),
+      status: "failed",
+      error: "Conversation no longer waiting",
+    };
+  }
+
+  const executionId = await context.run("create-run", async () => {
+    const id = nanoid();
+    await supabase.from("workflow_runs").insert({
+      id,
+      workflow_id: workflowId,
+      version_id: record.workflow.active_version_id,
+      status: "running",
+      trigger_type: "Resume",
+      input: input ?? {},
+      started_at: new Date().toISOString(),
+    });
+    return id;
+  });
 
-  await completeConversation(supabase, conversation.id, nextVariables);
+  const execution = await runWorkflowWithWaits(context, {
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+    triggerInput: {
+      from: fromPhone,
+      to: fromPhone,
+      message: incomingMessage,
+    },
+    executionId,
+    workflowId,
+    startNodeIds: [resumeNodeId],
+    initialVariables: nextVariables,
+  });
 
   return {
     executionId,
-    status: execution.success ? "success" : "failed",
+    status: !execution
+      ? "completed"
+      : execution.paused
+        ? "waiting"
+        : execution.success
+          ? "success"
+          : "failed",
     output: execution,
   };
 });
@@ -1,4 +1,4 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseAdmin } from "@/lib/supabase";
 import {
   createNewVersion,
@@ -7,12 +7,13 @@ import {
 } from "@/lib/builder/workflow-db";
 import { syncWorkflowSchedule, clearWorkflowSchedule } from "@/lib/builder/workflow-schedule";
 import { settingsDb } from "@/lib/supabase-db";
+import { recordAuditEvent } from "@/lib/audit";
 
 type RouteParams = {
   params: Promise<{ workflowId: string }>;
 };
 
-export async function POST(_request: Request, { params }: RouteParams) {
+export async function POST(request: NextRequest, { params }: RouteParams) {
   const { workflowId } = await params;
   const supabase = getSupabaseAdmin();
   if (!supabase) {
@@ -71,6 +72,15 @@ export async function POST(_request: Request, { params }: RouteParams) {
     await clearWorkflowSchedule(workflowId);
   }
 
+  await recordAuditEvent(request, {
+    action: "workflow.publish",
+    entityType: "workflow",
+    entityId: workflowId,
+    metadata: { version: published.version },
+    before: { activeVersionId: previousVersionId ?? null },
+    after: { activeVersionId: published.id },
+  });
+
   return NextResponse.json({
     success: true,
     versionId: published.id,
@@ -1,14 +1,15 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseAdmin } from "@/lib/supabase";
 import { getCompanyId } from "@/lib/builder/workflow-db";
 import { clearWorkflowSchedule, syncWorkflowSchedule } from "@/lib/builder/workflow-schedule";
 import { settingsDb } from "@/lib/supabase-db";
+import { recordAuditEvent } from "@/lib/audit";
 
 type RouteParams = {
   params: Promise<{ workflowId: string }>;
 };
 
-export async function POST(request: Request, { params }: RouteParams) {
+export async function POST(request: NextRequest, { params }: RouteParams) {
   const { workflowId } = await params;
   const supabase = getSupabaseAdmin();
   if (!supabase) {
@@ -40,6 +41,12 @@ export async function POST(request: Request, { params }: RouteParams) {
     );
   }
 
+  const { data: currentWorkflow } = await supabase
+    .from("workflows")
+    .select("active_version_id")
+    .eq("id", workflowId)
+    .maybeSingle<{ active_version_id: string | null }>();
+
   const now = new Date().toISOString();
   await supabase.from("workflows").update({
     active_version_id: versionId,
@@ -89,5 +96,13 @@ export async function POST(request: Request, { params }: RouteParams) {
 
   const companyId = await getCompanyId(supabase);
 
+  await recordAuditEvent(request, {
+    action: "workflow.rollback",
+    entityType: "workflow",
+    entityId: workflowId,
+    before: { activeVersionId: currentWorkflow?.active_version_id ?? null },
+    after: { activeVersionId: versionId },
+  });
+
   return NextResponse.json({ success: true, versionId, companyId });
 }
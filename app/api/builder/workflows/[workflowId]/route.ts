@@ -195,6 +195,11 @@ function normalizeEdge(edge: unknown): WorkflowEdge {
     id: String((edge as { id?: unknown } | null)?.id ?? ""),
     source: String((edge as { source?: unknown } | null)?.source ?? ""),
     target: String((edge as { target?: unknown } | null)?.target ?? ""),
+    sourceHandle:
+      typeof (edge as { sourceHandle?: unknown } | null)?.sourceHandle ===
+      "string"
+        ? (edge as { sourceHandle?: string }).sourceHandle
+        : null,
     type:
       typeof (edge as { type?: unknown } | null)?.type === "string"
         ? (edge as { type?: string }).type
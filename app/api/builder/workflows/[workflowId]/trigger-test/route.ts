@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseAdmin } from "@/lib/supabase";
+import {
+  findMatchingWorkflow,
+  loadTriggerDefinitions,
+} from "@/lib/builder/workflow-triggers";
+import { parseTriggerDefinition } from "@/lib/business/workflow";
+import { settingsDb } from "@/lib/supabase-db";
+
+type RouteParams = {
+  params: Promise<{ workflowId: string }>;
+};
+
+/**
+ * Simula qual fluxo dispararia para uma mensagem recebida, usando o gatilho
+ * em edição deste fluxo no lugar da versão publicada. Não executa nada.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { workflowId } = await params;
+  const supabase = getSupabaseAdmin();
+  if (!supabase) {
+    return NextResponse.json(
+      { error: "Supabase not configured" },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const message = typeof body?.message === "string" ? body.message.trim() : "";
+  if (!message) {
+    return NextResponse.json(
+      { error: "Informe a mensagem de teste" },
+      { status: 400 }
+    );
+  }
+
+  const [defaultWorkflowId, published] = await Promise.all([
+    settingsDb.get("workflow_builder_default_id"),
+    loadTriggerDefinitions(supabase),
+  ]);
+
+  const draft =
+    body?.config && typeof body.config === "object"
+      ? parseTriggerDefinition(workflowId, body.config as Record<string, unknown>)
+      : null;
+  const definitions = [
+    ...(draft ? [draft] : []),
+    ...published.filter((definition) => definition.workflowId !== workflowId),
+  ].filter((definition) => definition.workflowId !== defaultWorkflowId);
+
+  const match = await findMatchingWorkflow(definitions, message);
+  const targetWorkflowId = match?.workflowId || defaultWorkflowId || null;
+
+  let workflowName: string | null = null;
+  if (targetWorkflowId) {
+    const { data } = await supabase
+      .from("workflows")
+      .select("name")
+      .eq("id", targetWorkflowId)
+      .maybeSingle();
+    workflowName = (data?.name as string | undefined) ?? null;
+  }
+
+  return NextResponse.json({
+    workflowId: targetWorkflowId,
+    workflowName,
+    isCurrentWorkflow: targetWorkflowId === workflowId,
+    source: match?.kind ?? (targetWorkflowId ? "default" : null),
+    match,
+  });
+}
@@ -7,6 +7,8 @@ import {
   toSavedWorkflow,
 } from "@/lib/builder/workflow-db";
 import { executeWorkflow } from "@/lib/builder/workflow-executor.workflow";
+import { logWorkflowCompleteDb } from "@/lib/builder/workflow-logging";
+import { scheduleWorkflowContinuation } from "@/lib/builder/workflow-waits";
 import { settingsDb } from "@/lib/supabase-db";
 
 type RouteParams = {
@@ -56,9 +58,42 @@ export async function POST(request: Request, { params }: RouteParams) {
     workflowId,
   });
 
+  // Delay / reply timeout: the wait continues (same run) in the Upstash execute route
+  let scheduleError: string | null = null;
+  if (execution.pause) {
+    try {
+      await scheduleWorkflowContinuation({
+        workflowId,
+        executionId,
+        input: body ?? {},
+        pause: execution.pause,
+        origin: new URL(request.url).origin,
+      });
+    } catch (error) {
+      console.error("[Webhook] Failed to schedule workflow continuation:", error);
+      scheduleError = `Failed to schedule workflow continuation: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+      // Nothing will resume the run: do not leave it waiting
+      await logWorkflowCompleteDb({
+        executionId,
+        status: "error",
+        error: scheduleError,
+        startTime: Date.now(),
+      });
+    }
+  }
+
   return NextResponse.json({
     executionId,
-    status: execution.success ? "success" : "failed",
+    status: scheduleError
+      ? "failed"
+      : execution.paused
+        ? "waiting"
+        : execution.success
+          ? "success"
+          : "failed",
+    ...(scheduleError ? { error: scheduleError } : {}),
     output: execution,
   });
 }
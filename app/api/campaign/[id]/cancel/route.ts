@@ -12,12 +12,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 import { campaignDb } from '@/lib/supabase-db'
 import { CampaignStatus } from '@/types'
+import { recordAuditEvent } from '@/lib/audit'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
 export async function POST(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: campaignId } = await params
@@ -97,6 +98,15 @@ export async function POST(
 
     console.log(`🛑 Campaign ${campaignId} cancelled.`)
 
+    await recordAuditEvent(request, {
+      action: 'campaign.cancel',
+      entityType: 'campaign',
+      entityId: campaignId,
+      metadata: { name: campaign?.name },
+      before: { status: row.status },
+      after: { status: CampaignStatus.CANCELLED },
+    })
+
     return NextResponse.json({ ok: true, status: 'cancelled', campaignId, campaign })
   } catch (error) {
     console.error('Error cancelling campaign:', error)
@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { campaignDb } from '@/lib/supabase-db'
 import { CampaignStatus } from '@/types'
+import { recordAuditEvent } from '@/lib/audit'
 
 export async function POST(
   request: NextRequest,
@@ -28,6 +29,14 @@ export async function POST(
 
     console.log(`⏸️ Campaign ${campaignId} paused.`)
 
+    await recordAuditEvent(request, {
+      action: 'campaign.pause',
+      entityType: 'campaign',
+      entityId: campaignId,
+      metadata: { name: campaign.name },
+      after: { status: CampaignStatus.PAUSED },
+    })
+
     return NextResponse.json({
       status: 'paused',
       campaignId,
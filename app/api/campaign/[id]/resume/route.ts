@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { campaignDb } from '@/lib/supabase-db'
 import { CampaignStatus } from '@/types'
+import { recordAuditEvent } from '@/lib/audit'
 
 export async function POST(
   request: NextRequest,
@@ -29,6 +30,14 @@ export async function POST(
 
     console.log(`▶️ Campaign ${campaignId} resumed.`)
 
+    await recordAuditEvent(request, {
+      action: 'campaign.resume',
+      entityType: 'campaign',
+      entityId: campaignId,
+      metadata: { name: campaign.name },
+      after: { status: CampaignStatus.SENDING },
+    })
+
     return NextResponse.json({ status: 'resumed', campaignId })
   } catch (error) {
     console.error('Error resuming campaign:', error)
@@ -2,16 +2,27 @@ import { NextRequest, NextResponse } from 'next/server'
 import { Client } from '@upstash/workflow'
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
 import { supabase } from '@/lib/supabase'
-import { templateDb } from '@/lib/supabase-db'
+import { campaignDb, campaignVariantDb, templateDb } from '@/lib/supabase-db'
 import { getAdaptiveThrottleConfigWithSource } from '@/lib/whatsapp-adaptive-throttle'
+import { getQuietHoursConfig } from '@/lib/quiet-hours'
 
 import { precheckContactForTemplate } from '@/lib/whatsapp/template-contract'
 import { normalizePhoneNumber } from '@/lib/phone-formatter'
 import { getActiveSuppressionsByPhone } from '@/lib/phone-suppressions'
 import { fetchWithTimeout, safeJson } from '@/lib/server-http'
+import { splitAudienceForAbTest } from '@/lib/business/campaign/ab-testing'
+import { applyTrackedLinkVariables, LINK_TRACKING_RULES } from '@/lib/business/campaign/link-tracking'
+import { resolveAbTestRollout, scheduleAbTestRollout, updateAbTestState } from '@/lib/campaign-ab-test'
+import { spawnDripStep, spawnRecurrenceRun } from '@/lib/campaign-sequences'
+import { shouldSkipForEngagement } from '@/lib/business/contact/engagement'
+import { ensureContactEngagementSchedule } from '@/lib/contact-engagement'
 
 import { CampaignStatus, ContactStatus } from '@/types'
+import type { CampaignAbTest, CampaignSendWindow, CampaignTrackedLink, CampaignVariant, ContactLifecycleStage } from '@/types'
 import { unauthorizedResponse, verifyApiKey } from '@/lib/auth'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
 import { createHash } from 'crypto'
 
 interface DispatchContact {
@@ -29,6 +40,8 @@ interface DispatchContactResolved {
   name: string
   email?: string
   custom_fields?: Record<string, unknown>
+  // Teste A/B: variante atribuída (ausente = holdout ou campanha sem A/B)
+  variantId?: string
 }
 
 // Ensure this route runs in Node.js (env access + better compatibility in dev)
@@ -68,6 +81,17 @@ function dedupeBy<T>(items: T[], keyFn: (x: T) => string): T[] {
   return out
 }
 
+function toTemplateSnapshot(template: any) {
+  return {
+    name: template.name,
+    language: template.language,
+    parameter_format: template.parameterFormat || 'positional',
+    spec_hash: template.specHash ?? null,
+    fetched_at: template.fetchedAt ?? null,
+    components: template.components || template.content || [],
+  }
+}
+
 function isHttpUrl(value: string): boolean {
   const v = String(value || '').trim()
   return /^https?:\/\//i.test(v)
@@ -176,12 +200,68 @@ export async function POST(request: NextRequest) {
     }
   }
 
+  // Sessão do dashboard: o papel do usuário precisa permitir disparos
+  if (!signature && hasSession) {
+    const denied = await requireSessionOrApiKey(request, 'campaigns:dispatch')
+    if (denied) return denied
+  }
+
   const body = bodyText ? JSON.parse(bodyText) : {}
-  const { campaignId, templateName, whatsappCredentials, templateVariables, flowId } = body
-  const trigger: 'schedule' | 'manual' | string | undefined = body?.trigger
+  const { whatsappCredentials, flowId } = body
+  let { campaignId, templateName, templateVariables } = body
+  const trigger: 'schedule' | 'manual' | 'ab_rollout' | 'recurrence' | 'drip_step' | string | undefined = body?.trigger
   const scheduledAtFromJob: string | undefined = body?.scheduledAt
   let { contacts } = body
 
+  // Teste A/B: rollout do vencedor (job agendado no fim do teste ou "Enviar vencedor agora").
+  // O template/variáveis passam a ser os da variante vencedora.
+  let rolloutVariantId: string | null = null
+  if (trigger === 'ab_rollout') {
+    const decision = await resolveAbTestRollout(campaignId, body?.variantId)
+    if (!decision.ok) {
+      return NextResponse.json(
+        { status: decision.status, message: decision.message },
+        { status: decision.status === 'ignored' ? 202 : 400 }
+      )
+    }
+    rolloutVariantId = decision.winner.id
+    templateName = decision.winner.templateName
+    templateVariables = decision.winner.templateVariables ?? undefined
+    contacts = undefined
+  }
+  const isAbRollout = Boolean(rolloutVariantId)
+
+  // Recorrência (cron) e sequência (drip): cada execução/etapa vira uma campanha-filha
+  // com contadores e trace próprios. A partir daqui o dispatch segue com a filha.
+  if (trigger === 'recurrence' || trigger === 'drip_step') {
+    let run
+    try {
+      run = trigger === 'recurrence'
+        ? await spawnRecurrenceRun(
+            campaignId,
+            request.headers.get('upstash-message-id') || new Date().toISOString().slice(0, 16)
+          )
+        : await spawnDripStep(campaignId, Number(body?.step))
+    } catch (e) {
+      console.error('[Dispatch] Falha ao criar campanha-filha da sequência:', e)
+      return NextResponse.json(
+        { error: 'Falha ao criar execução da campanha', details: (e as Error)?.message },
+        { status: 500 }
+      )
+    }
+
+    if (!run.ok) {
+      return NextResponse.json(
+        { status: run.status, message: run.message },
+        { status: run.status === 'ignored' ? 202 : 400 }
+      )
+    }
+    campaignId = run.campaign.id
+    templateName = run.campaign.templateName
+    templateVariables = run.campaign.templateVariables
+    contacts = undefined
+  }
+
   // Correlation id para todo o "run" (precheck + workflow + webhook)
   // - Deve ser gerado cedo para que rows skipped/pending no precheck também recebam trace_id.
   // - O workflow reutiliza este mesmo traceId.
@@ -195,7 +275,7 @@ export async function POST(request: NextRequest) {
   const [campaignResult, initialTemplate] = await Promise.all([
     supabase
       .from('campaigns')
-      .select('status, scheduled_date, template_variables, template_spec_hash')
+      .select('status, scheduled_date, template_variables, template_spec_hash, ab_test, send_window, skip_dormant, phone_number_id, tracked_links')
       .eq('id', campaignId)
       .single(),
     templateDb.getByName(templateName),
@@ -354,19 +434,70 @@ export async function POST(request: NextRequest) {
     console.warn('[Dispatch] Falha ao salvar snapshot do template na campanha (best-effort):', e)
   }
 
+  // =====================
+  // TESTE A/B (fase de teste): variantes + templates de cada variante
+  // =====================
+  const abTest = ((campaignRow as any).ab_test as CampaignAbTest | null) ?? null
+  let abVariants: CampaignVariant[] = []
+  const variantTemplates = new Map<string, { template: any; variables: any }>()
+
+  if (abTest?.status === 'testing' && !isAbRollout) {
+    try {
+      abVariants = await campaignVariantDb.getByCampaignId(campaignId)
+    } catch (e) {
+      console.error('[Dispatch] Falha ao carregar variantes A/B:', e)
+      return NextResponse.json({ error: 'Falha ao carregar variantes do teste A/B' }, { status: 500 })
+    }
+
+    for (const variant of abVariants) {
+      const variantTemplate = variant.templateName === templateName
+        ? template
+        : await templateDb.getByName(variant.templateName)
+      if (!variantTemplate) {
+        return NextResponse.json(
+          { error: `Template "${variant.templateName}" da variante ${variant.label} não encontrado no banco local. Sincronize Templates antes de disparar.` },
+          { status: 400 }
+        )
+      }
+      variantTemplates.set(variant.id, {
+        template: variantTemplate,
+        variables: variant.templateVariables ?? resolvedTemplateVariables,
+      })
+    }
+  }
+  const isAbTestPhase = abVariants.length > 1
+
   // If no contacts provided, fetch from campaign_contacts (for cloned/scheduled campaigns)
   if (!contacts || !Array.isArray(contacts) || contacts.length === 0) {
     // First get campaign contacts with their contact_id
-    const { data: existingContacts, error } = await supabase
+    // Rollout A/B: apenas o holdout ainda pendente (e retries de um rollout anterior)
+    let existingQuery = supabase
       .from('campaign_contacts')
       .select('phone, name, email, contact_id, custom_fields')
       .eq('campaign_id', campaignId)
+    if (isAbRollout) {
+      existingQuery = existingQuery.in('ab_phase', ['holdout', 'rollout']).eq('status', 'pending')
+    }
+    const { data: existingContacts, error } = await existingQuery
 
     if (error) {
       console.error('Failed to fetch existing contacts:', error)
       return NextResponse.json({ error: 'Failed to fetch contacts' }, { status: 500 })
     }
 
+    if (isAbRollout && (!existingContacts || existingContacts.length === 0)) {
+      // Nada pendente para o vencedor (ex.: audiência pequena): encerra o teste.
+      await updateAbTestState(campaignId, { status: 'completed' })
+      await campaignDb.updateStatus(campaignId, {
+        status: CampaignStatus.COMPLETED,
+        completedAt: new Date().toISOString(),
+      })
+      return NextResponse.json(
+        { status: 'skipped', count: 0, message: 'Nenhum contato pendente para o vencedor do teste A/B.' },
+        { status: 202 }
+      )
+    }
+
     if (!existingContacts || existingContacts.length === 0) {
       return NextResponse.json({ error: 'No contacts found for campaign' }, { status: 400 })
     }
@@ -510,9 +641,9 @@ export async function POST(request: NextRequest) {
 
   // Run status and suppressions lookups in parallel (they're independent)
   const [contactStatusResult, suppressionsResult] = await Promise.all([
-    // Fetch contact statuses
+    // Fetch contact statuses (+ estágio do ciclo de vida para skip_dormant)
     uniqueContactIds.length > 0
-      ? supabase.from('contacts').select('id, status').in('id', uniqueContactIds)
+      ? supabase.from('contacts').select('id, status, lifecycle_stage').in('id', uniqueContactIds)
       : Promise.resolve({ data: null, error: null }),
     // Fetch suppressions
     getActiveSuppressionsByPhone(normalizedPhonesForSuppression).catch((e) => {
@@ -523,15 +654,29 @@ export async function POST(request: NextRequest) {
 
   // Process contact statuses
   const statusByContactId = new Map<string, string>()
+  const stageByContactId = new Map<string, ContactLifecycleStage>()
   if (contactStatusResult.error) {
     console.warn('[Dispatch] Falha ao carregar status dos contatos (best-effort):', contactStatusResult.error)
   } else {
     for (const row of (contactStatusResult.data || []) as any[]) {
       if (!row?.id) continue
       statusByContactId.set(String(row.id), String(row.status || ''))
+      if (row.lifecycle_stage) stageByContactId.set(String(row.id), row.lifecycle_stage as ContactLifecycleStage)
     }
   }
 
+  // Pular dormentes: protege a quality rating do número em campanhas de marketing.
+  const skipDormant = Boolean((campaignRow as any).skip_dormant)
+  if (skipDormant) {
+    await ensureContactEngagementSchedule().catch((e) => {
+      console.warn('[Dispatch] Falha ao agendar recálculo de engajamento (best-effort):', e)
+    })
+  }
+
+  // Rastreio de cliques: o workflow gera o código de cada contato e preenche o botão;
+  // aqui o pré-check usa um código de exemplo para não pular contatos pela variável do botão.
+  const trackedLinks = ((campaignRow as any).tracked_links as CampaignTrackedLink[] | null) ?? null
+
   // Process suppressions
   const suppressionsByPhone = suppressionsResult instanceof Map
     ? new Map(
@@ -542,8 +687,26 @@ export async function POST(request: NextRequest) {
   const validContacts: DispatchContactResolved[] = []
   const skippedContacts: Array<{ contact: DispatchContact; code: string; reason: string; normalizedPhone?: string }> = []
 
+  // Teste A/B: divisão determinística (mesma campanha → mesma atribuição em retries).
+  // Contatos sem variante ficam no holdout e recebem o vencedor depois.
+  const variantByContactId = new Map<string, string>()
+  if (isAbTestPhase) {
+    const split = splitAudienceForAbTest(
+      dedupedInput,
+      abVariants.map((v) => v.id),
+      abTest!.testPercent,
+      (c) => String(c.contactId),
+      campaignId
+    )
+    for (const t of split.test) variantByContactId.set(String(t.item.contactId), t.variantId)
+  }
+
   for (const c of dedupedInput) {
     const contactId = c.contactId
+    const variantId = isAbTestPhase
+      ? variantByContactId.get(String(contactId))
+      : (rolloutVariantId ?? undefined)
+    const variantTemplate = variantId ? variantTemplates.get(variantId) : undefined
 
     // Opt-out global (contacts.status)
     const contactStatus = contactId ? statusByContactId.get(String(contactId)) : null
@@ -558,6 +721,21 @@ export async function POST(request: NextRequest) {
       continue
     }
 
+    const contactStage = contactId ? stageByContactId.get(String(contactId)) : null
+    const templateCategory = (variantTemplate?.template ?? template)?.category
+    if (shouldSkipForEngagement(contactStage, { skipDormant, templateCategory })) {
+      const normalizedPhone = normalizePhoneNumber(String(c.phone || '').trim())
+      skippedContacts.push({
+        contact: c,
+        code: 'DORMANT',
+        reason: contactStage === 'churned'
+          ? 'Contato perdido (sem engajamento recente) — campanha pula dormentes.'
+          : 'Contato dormente — campanha pula dormentes.',
+        normalizedPhone,
+      })
+      continue
+    }
+
     const precheck = precheckContactForTemplate(
       {
         phone: c.phone,
@@ -566,8 +744,13 @@ export async function POST(request: NextRequest) {
         custom_fields: c.custom_fields,
         contactId: contactId || null,
       },
-      template as any,
-      resolvedTemplateVariables
+      (variantTemplate?.template ?? template) as any,
+      applyTrackedLinkVariables(
+        (variantTemplate?.template ?? template) as any,
+        variantTemplate?.variables ?? resolvedTemplateVariables,
+        trackedLinks,
+        LINK_TRACKING_RULES.PREVIEW_CODE
+      )
     )
 
     if (!precheck.ok) {
@@ -581,6 +764,7 @@ export async function POST(request: NextRequest) {
       email: c.email,
       custom_fields: c.custom_fields,
       contactId: contactId as string,
+      variantId,
     })
   }
 
@@ -677,6 +861,12 @@ export async function POST(request: NextRequest) {
       skip_code: null,
       skip_reason: null,
       error: null,
+      ...(isAbTestPhase || isAbRollout
+        ? {
+            variant_id: c.variantId ?? null,
+            ab_phase: isAbRollout ? 'rollout' : (c.variantId ? 'test' : 'holdout'),
+          }
+        : {}),
     }))
 
     const rowsSkipped = skippedContacts
@@ -801,6 +991,37 @@ export async function POST(request: NextRequest) {
     )
   }
 
+  // Teste A/B: o holdout fica pending até o rollout do vencedor.
+  const sendContacts = isAbTestPhase ? validContacts.filter((c) => Boolean(c.variantId)) : validContacts
+  const holdoutCount = validContacts.length - sendContacts.length
+
+  if (isAbTestPhase && sendContacts.length === 0 && holdoutCount > 0) {
+    // Todas as variantes foram ignoradas no pré-check: pula direto para a espera do rollout.
+    try {
+      await scheduleAbTestRollout(campaignId)
+    } catch (e) {
+      console.warn('[Dispatch] Falha ao agendar rollout A/B:', e)
+    }
+    return NextResponse.json(
+      {
+        status: 'skipped',
+        count: 0,
+        skipped: skippedContacts.length,
+        holdout: holdoutCount,
+        message: 'Nenhum contato válido nas variantes do teste A/B; vencedor será enviado ao restante.',
+      },
+      { status: 202 }
+    )
+  }
+
+  if (isAbRollout && validContacts.length === 0) {
+    await updateAbTestState(campaignId, { status: 'completed' })
+    await campaignDb.updateStatus(campaignId, {
+      status: CampaignStatus.COMPLETED,
+      completedAt: new Date().toISOString(),
+    })
+  }
+
   // Se não há ninguém válido, não faz sentido enfileirar workflow
   if (validContacts.length === 0) {
     return NextResponse.json(
@@ -814,12 +1035,14 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  // Get credentials: Body (if valid) > DB (Supabase settings) > Env
+  // Get credentials: número da campanha > Body (if valid) > DB (Supabase settings)
   let phoneNumberId: string | undefined
   let accessToken: string | undefined
+  const campaignPhoneNumberId = ((campaignRow as any).phone_number_id as string | null) ?? null
 
-  // Try from body first (only if not masked)
-  if (whatsappCredentials?.phoneNumberId &&
+  // Try from body first (only if not masked and the campaign has no sending number)
+  if (!campaignPhoneNumberId &&
+    whatsappCredentials?.phoneNumberId &&
     whatsappCredentials?.accessToken &&
     !whatsappCredentials.accessToken.includes('***')) {
     phoneNumberId = whatsappCredentials.phoneNumberId
@@ -827,8 +1050,9 @@ export async function POST(request: NextRequest) {
   }
 
   // Fallback to Centralized Helper (DB > Env)
+  // O throttle adaptativo é por phoneNumberId, então cada número mantém seu próprio estado
   if (!phoneNumberId || !accessToken) {
-    const credentials = await getWhatsAppCredentials()
+    const credentials = await getWhatsAppCredentials(campaignPhoneNumberId)
     if (credentials) {
       phoneNumberId = credentials.phoneNumberId
       accessToken = credentials.accessToken
@@ -940,11 +1164,46 @@ export async function POST(request: NextRequest) {
     const throttleSource = throttleConfigResult?.source ?? 'fallback'
     console.log(`[Dispatch] Throttle config source: ${throttleSource}`, throttleConfig ? JSON.stringify(throttleConfig) : 'null')
 
+    // Janela de envio (campanha) + horário de silêncio (global): o workflow segura
+    // os contatos fora do horário local e libera quando a janela abrir.
+    const sendWindow = ((campaignRow as any).send_window as CampaignSendWindow | null) ?? null
+    const quietHoursConfig = await getQuietHoursConfig().catch((e) => {
+      console.warn('[Dispatch] Falha ao carregar horário de silêncio (best-effort):', e)
+      return null
+    })
+
+    // Teste A/B: cada variante leva seu template/variáveis; contatos agrupados por variante
+    // para que cada batch do workflow use um único template.
+    const abVariantsPayload = isAbTestPhase
+      ? Object.fromEntries(
+          abVariants.map((v) => {
+            const vt = variantTemplates.get(v.id)!
+            return [v.id, {
+              templateName: v.templateName,
+              templateVariables: vt.variables,
+              templateSnapshot: toTemplateSnapshot(vt.template),
+            }]
+          })
+        )
+      : undefined
+
+    if (abVariantsPayload) {
+      for (const [variantId, v] of Object.entries(abVariantsPayload)) {
+        await campaignVariantDb.updateSnapshot(variantId, v.templateSnapshot).catch((e) => {
+          console.warn('[Dispatch] Falha ao salvar snapshot da variante (best-effort):', e)
+        })
+      }
+    }
+
+    const workflowContacts = isAbTestPhase
+      ? abVariants.flatMap((v) => sendContacts.filter((c) => c.variantId === v.id))
+      : sendContacts
+
     const workflowPayload = {
       campaignId,
       traceId,
       templateName,
-      contacts: validContacts,
+      contacts: workflowContacts,
       templateVariables: resolvedTemplateVariables,
       templateSnapshot: {
         name: template.name,
@@ -958,6 +1217,11 @@ export async function POST(request: NextRequest) {
       accessToken,
       // Config de throttle passada do dispatch para evitar dependência de DB no QStash
       throttleConfig,
+      sendWindow,
+      quietHours: quietHoursConfig?.enabled ? quietHoursConfig : null,
+      trackedLinks,
+      ...(isAbTestPhase ? { abPhase: 'test' as const, variants: abVariantsPayload } : {}),
+      ...(isAbRollout ? { abPhase: 'rollout' as const } : {}),
     }
 
     // BYPASS apenas em localhost REAL (dev local) - nunca em Vercel (preview ou prod)
@@ -973,7 +1237,7 @@ export async function POST(request: NextRequest) {
 
       const response = await fetchWithTimeout(`${baseUrl}/api/campaign/workflow`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getWorkspaceHeaders()) },
         body: JSON.stringify(workflowPayload),
         timeoutMs: 30000,
       })
@@ -995,8 +1259,8 @@ export async function POST(request: NextRequest) {
       // PROD: Use QStash for reliable async execution
       const workflowClient = new Client({ token: process.env.QSTASH_TOKEN })
       try {
-        // Headers para bypass de Vercel Deployment Protection
-        const headers: Record<string, string> = {}
+        // Workspace da campanha + bypass de Vercel Deployment Protection
+        const headers: Record<string, string> = await getWorkspaceHeaders()
         const bypassSecret = process.env.VERCEL_AUTOMATION_BYPASS_SECRET
         if (bypassSecret) {
           headers['x-vercel-protection-bypass'] = bypassSecret
@@ -1005,19 +1269,36 @@ export async function POST(request: NextRequest) {
         await workflowClient.trigger({
           url: `${baseUrl}/api/campaign/workflow`,
           body: workflowPayload,
-          headers: Object.keys(headers).length > 0 ? headers : undefined,
+          headers,
         })
       } catch (err) {
         throw err
       }
     }
 
+    await recordAuditEvent(request, {
+      action: 'campaign.dispatch',
+      entityType: 'campaign',
+      entityId: campaignId,
+      metadata: {
+        templateName,
+        count: sendContacts.length,
+        skipped: skippedContacts.length,
+        traceId,
+        ...(signature ? { trigger: 'qstash' } : {}),
+        ...(isAbTestPhase ? { abPhase: 'test' } : isAbRollout ? { abPhase: 'rollout' } : {}),
+      },
+    })
+
     return NextResponse.json({
       status: 'queued',
-      count: validContacts.length,
+      count: sendContacts.length,
       skipped: skippedContacts.length,
+      ...(isAbTestPhase ? { holdout: holdoutCount } : {}),
       traceId,
-      message: `${validContacts.length} mensagens enfileiradas • ${skippedContacts.length} ignoradas por validação`
+      message: isAbTestPhase
+        ? `${sendContacts.length} mensagens enfileiradas (teste A/B) • ${holdoutCount} aguardando o vencedor • ${skippedContacts.length} ignoradas por validação`
+        : `${sendContacts.length} mensagens enfileiradas • ${skippedContacts.length} ignoradas por validação`
     }, { status: 202 })
 
   } catch (error) {
@@ -2,6 +2,7 @@ import { serve } from '@upstash/workflow/nextjs'
 import { campaignDb, templateDb } from '@/lib/supabase-db'
 import { supabase } from '@/lib/supabase'
 import { CampaignStatus, ContactStatus } from '@/types'
+import type { CampaignSendWindow, CampaignTrackedLink, QuietHoursConfig } from '@/types'
 import { getUserFriendlyMessageForMetaError, normalizeMetaErrorTextForStorage } from '@/lib/whatsapp-errors'
 import { buildMetaTemplatePayload, precheckContactForTemplate, renderTemplatePreviewText } from '@/lib/whatsapp/template-contract'
 import { syncCampaignTemplateToInbox } from '@/lib/inbox/inbox-service'
@@ -11,6 +12,12 @@ import { recordStableBatch, recordThroughputExceeded, getAdaptiveThrottleConfigW
 import { normalizePhoneNumber } from '@/lib/phone-formatter'
 import { getActiveSuppressionsByPhone } from '@/lib/phone-suppressions'
 import { maybeAutoSuppressByFailure } from '@/lib/auto-suppression'
+import { scheduleAbTestRollout, updateAbTestState } from '@/lib/campaign-ab-test'
+import { scheduleNextDripStep } from '@/lib/campaign-sequences'
+import { emitWebhookEvent } from '@/lib/outbound-webhooks'
+import { planContactSendTimes } from '@/lib/business/campaign/send-window'
+import { applyTrackedLinkVariables } from '@/lib/business/campaign/link-tracking'
+import { generateCampaignLinkCode } from '@/lib/campaign-link-tracking'
 import { createCampaignProgressBroadcaster, broadcastCampaignPhase } from '@/lib/realtime-broadcast-server'
 import { createHash } from 'crypto'
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
@@ -270,6 +277,17 @@ interface Contact {
   name: string
   custom_fields?: Record<string, unknown>
   email?: string
+  // Teste A/B: variante do contato (chave em CampaignWorkflowInput.variants)
+  variantId?: string
+}
+
+type WorkflowTemplateSnapshot = {
+  name: string
+  language?: string
+  parameter_format?: 'positional' | 'named'
+  spec_hash?: string | null
+  fetched_at?: string | null
+  components?: any
 }
 
 interface CampaignWorkflowInput {
@@ -278,14 +296,7 @@ interface CampaignWorkflowInput {
   templateName: string
   contacts: Contact[]
   templateVariables?: { header: string[], headerMediaId?: string, body: string[], buttons?: Record<string, string> }  // Meta API structure
-  templateSnapshot?: {
-    name: string
-    language?: string
-    parameter_format?: 'positional' | 'named'
-    spec_hash?: string | null
-    fetched_at?: string | null
-    components?: any
-  }
+  templateSnapshot?: WorkflowTemplateSnapshot
   phoneNumberId: string
   accessToken: string
   isResend?: boolean
@@ -301,6 +312,18 @@ interface CampaignWorkflowInput {
     minIncreaseGapSec: number
     sendFloorDelayMs: number
   } | null
+  // Teste A/B: 'test' envia as variantes (e agenda o rollout ao final); 'rollout' envia o vencedor
+  abPhase?: 'test' | 'rollout'
+  variants?: Record<string, {
+    templateName: string
+    templateVariables?: CampaignWorkflowInput['templateVariables']
+    templateSnapshot?: WorkflowTemplateSnapshot
+  }>
+  // Janela de envio (campanha) e horário de silêncio (global), avaliados no fuso do contato
+  sendWindow?: CampaignSendWindow | null
+  quietHours?: QuietHoursConfig | null
+  // Rastreio de cliques: cada contato recebe um código curto no sufixo do botão de URL
+  trackedLinks?: CampaignTrackedLink[] | null
 }
 
 async function claimPendingForSend(
@@ -398,6 +421,7 @@ async function updateContactStatus(
     skipCode?: string
     skipReason?: string
     traceId?: string
+    linkCode?: string
   }
 ): Promise<{ ok: boolean; reason?: 'no_rows' | 'error' }> {
   try {
@@ -420,6 +444,7 @@ async function updateContactStatus(
       update.sent_at = now
       update.message_id = opts?.messageId || null
       update.error = null
+      if (opts?.linkCode) update.link_code = opts.linkCode
 
       // Idempotência: se estamos re-enviando, limpamos rastros antigos.
       update.failed_at = null
@@ -510,7 +535,7 @@ async function updateContactStatus(
 // Each step is a separate HTTP request, bypasses Vercel 10s timeout
 const workflowHandler = serve<CampaignWorkflowInput>(
   async (context) => {
-    const { campaignId, templateName, contacts, templateVariables, phoneNumberId, accessToken, templateSnapshot, traceId: incomingTraceId, throttleConfig: payloadThrottleConfig } = context.requestPayload
+    const { campaignId, templateName: campaignTemplateName, contacts, templateVariables: campaignTemplateVariables, phoneNumberId, accessToken, templateSnapshot: campaignTemplateSnapshot, traceId: incomingTraceId, throttleConfig: payloadThrottleConfig, abPhase, variants, sendWindow, quietHours, trackedLinks } = context.requestPayload
 
     const traceId = (incomingTraceId && String(incomingTraceId).trim().length > 0)
       ? String(incomingTraceId).trim()
@@ -543,7 +568,8 @@ const workflowHandler = serve<CampaignWorkflowInput>(
         ok: true,
         extra: {
           contacts: contacts?.length || 0,
-          hasTemplateSnapshot: Boolean(templateSnapshot),
+          hasTemplateSnapshot: Boolean(campaignTemplateSnapshot),
+          abPhase: abPhase || null,
           isResend: Boolean((context.requestPayload as any)?.isResend),
         },
       })
@@ -574,7 +600,7 @@ const workflowHandler = serve<CampaignWorkflowInput>(
       })
 
       console.log(`📊 Campaign ${campaignId} started with ${contacts.length} contacts (traceId=${traceId})`)
-      console.log(`📝 Template variables: ${JSON.stringify(templateVariables || [])}`)
+      console.log(`📝 Template variables: ${JSON.stringify(campaignTemplateVariables || [])}`)
     })
 
     if (shouldStopWorkflow === 'cancelled') {
@@ -584,7 +610,7 @@ const workflowHandler = serve<CampaignWorkflowInput>(
 
     // Step 2: Preparar batches (usa config do payload ou fallback para DB)
     // IMPORTANTE: Chamadas assíncronas devem estar dentro de context.run()
-    const { batches, BATCH_SIZE, cfgForBatching } = await context.run('prepare-batches', async () => {
+    const { batches, batchReleaseAt, BATCH_SIZE, cfgForBatching } = await context.run('prepare-batches', async () => {
       // Prioridade: config do payload (passada pelo dispatch) > DB > env > default
       let cfg: Awaited<ReturnType<typeof getAdaptiveThrottleConfigWithSource>> | null = null
       if (payloadThrottleConfig) {
@@ -599,13 +625,65 @@ const workflowHandler = serve<CampaignWorkflowInput>(
         ? Math.max(1, Math.min(200, Math.floor(rawBatchSize)))
         : 10
 
+      // Teste A/B: batches nunca misturam variantes (cada batch usa um único template).
+      const groups: Contact[][] = []
+      if (variants) {
+        const byVariant = new Map<string, Contact[]>()
+        for (const c of contacts) {
+          const key = String(c.variantId || '')
+          if (!byVariant.has(key)) byVariant.set(key, [])
+          byVariant.get(key)!.push(c)
+        }
+        groups.push(...byVariant.values())
+      } else {
+        groups.push(contacts)
+      }
+
+      // Janela de envio / horário de silêncio: contatos fora do horário local ficam "pending"
+      // e seus batches só rodam quando a janela abrir (releaseAt). Batches imediatos vêm primeiro.
+      const timedGroups: Array<{ releaseAt: string | null; contacts: Contact[] }> = []
+      let unreachableCount = 0
+      for (const group of groups) {
+        const plan = planContactSendTimes(
+          group,
+          new Date(),
+          { window: sendWindow ?? null, quietHours: quietHours ?? null },
+          quietHours?.defaultTimezone
+        )
+        if (plan.ready.length > 0) timedGroups.push({ releaseAt: null, contacts: plan.ready })
+        for (const held of plan.held) timedGroups.push({ releaseAt: held.releaseAt, contacts: held.contacts })
+        unreachableCount += plan.unreachable.length
+      }
+      timedGroups.sort((a, b) => (a.releaseAt || '').localeCompare(b.releaseAt || ''))
+
+      const heldCount = timedGroups.filter((g) => g.releaseAt).reduce((acc, g) => acc + g.contacts.length, 0)
+      if (heldCount > 0 || unreachableCount > 0) {
+        await emitWorkflowTrace({
+          traceId,
+          campaignId,
+          step: 'prepare-batches',
+          phase: 'send_window_hold',
+          ok: true,
+          extra: {
+            held: heldCount,
+            unreachable: unreachableCount,
+            releases: Array.from(new Set(timedGroups.map((g) => g.releaseAt).filter(Boolean))),
+          },
+        })
+        console.log(`🕘 ${heldCount} contact(s) held until their send window opens; ${unreachableCount} without an open window (kept pending)`)
+      }
+
       const contactBatches: Contact[][] = []
-      for (let i = 0; i < contacts.length; i += batchSize) {
-        contactBatches.push(contacts.slice(i, i + batchSize))
+      const releaseTimes: Array<string | null> = []
+      for (const group of timedGroups) {
+        for (let i = 0; i < group.contacts.length; i += batchSize) {
+          contactBatches.push(group.contacts.slice(i, i + batchSize))
+          releaseTimes.push(group.releaseAt)
+        }
       }
 
       console.log(`📦 Prepared ${contactBatches.length} batches of up to ${batchSize} contacts each (batchSize=${batchSize})`)
-      return { batches: contactBatches, BATCH_SIZE: batchSize, cfgForBatching: cfg }
+      return { batches: contactBatches, batchReleaseAt: releaseTimes, BATCH_SIZE: batchSize, cfgForBatching: cfg }
     })
 
     // Step 3+: Process contacts in smaller batches
@@ -613,6 +691,17 @@ const workflowHandler = serve<CampaignWorkflowInput>(
     for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
       const batch = batches[batchIndex]
 
+      // Template do batch: variante A/B (quando houver) ou o template da campanha.
+      const batchVariant = variants && batch[0]?.variantId ? variants[batch[0].variantId] : undefined
+      const templateName = batchVariant?.templateName || campaignTemplateName
+      const templateVariables = batchVariant ? batchVariant.templateVariables : campaignTemplateVariables
+      const templateSnapshot = batchVariant ? batchVariant.templateSnapshot : campaignTemplateSnapshot
+
+      // Janela de envio: dorme (durável) até o horário local dos contatos deste batch abrir.
+      const releaseAt = batchReleaseAt?.[batchIndex] ?? null
+      if (releaseAt && releaseAt !== batchReleaseAt[batchIndex - 1]) {
+        await context.sleepUntil(`send-window-${batchIndex}`, new Date(releaseAt))
+      }
 
       await context.run(`send-batch-${batchIndex}`, async () => {
         const step = `send-batch-${batchIndex}`
@@ -1344,6 +1433,12 @@ const workflowHandler = serve<CampaignWorkflowInput>(
 
             const activeTemplateForContact = refreshedTemplateForBatch || templateForBatch
 
+            // Rastreio de cliques: código curto do contato no sufixo do botão de URL (/r/{{1}})
+            const linkCode = trackedLinks && trackedLinks.length > 0 ? generateCampaignLinkCode() : undefined
+            const contactTemplateVariables = linkCode
+              ? applyTrackedLinkVariables(activeTemplateForContact as any, templateVariables, trackedLinks, linkCode)
+              : templateVariables
+
             // Contrato Ouro: pré-check/guard-rail por contato (documented-only)
             const precheck = precheckContactForTemplate(
               {
@@ -1354,7 +1449,7 @@ const workflowHandler = serve<CampaignWorkflowInput>(
                 contactId: contact.contactId || null,
               },
               activeTemplateForContact as any,
-              templateVariables as any
+              contactTemplateVariables as any
             )
 
             if (!precheck.ok) {
@@ -1559,7 +1654,7 @@ const workflowHandler = serve<CampaignWorkflowInput>(
                 campaignId,
                 { contactId: contact.contactId, phone: contact.phone },
                 'sent',
-                { sendingAt: sendingAtIso, messageId, traceId }
+                { sendingAt: sendingAtIso, messageId, traceId, linkCode }
               )
               dbTimeMs += Date.now() - db0
 
@@ -1578,6 +1673,7 @@ const workflowHandler = serve<CampaignWorkflowInput>(
                 resolvedValues: valuesForSend,
                 campaignId,
                 template: activeTemplateForSync as any,
+                phoneNumberId,
               }).catch((err) => {
                 console.warn(`[workflow] inbox sync failed for ${maskPhone(contact.phone)}:`, err)
               })
@@ -1695,7 +1791,7 @@ const workflowHandler = serve<CampaignWorkflowInput>(
                         campaignId,
                         { contactId: contact.contactId, phone: contact.phone },
                         'sent',
-                        { sendingAt: sendingAtIso, messageId, traceId }
+                        { sendingAt: sendingAtIso, messageId, traceId, linkCode }
                       )
                       dbTimeMs += Date.now() - db0
                       lastSentAtInBatch = new Date().toISOString()
@@ -1828,7 +1924,7 @@ const workflowHandler = serve<CampaignWorkflowInput>(
                         campaignId,
                         { contactId: contact.contactId, phone: contact.phone },
                         'sent',
-                        { sendingAt: sendingAtIso, messageId, traceId }
+                        { sendingAt: sendingAtIso, messageId, traceId, linkCode }
                       )
                       dbTimeMs += Date.now() - db0
                       lastSentAtInBatch = new Date().toISOString()
@@ -2420,12 +2516,43 @@ const workflowHandler = serve<CampaignWorkflowInput>(
         finalStatus = CampaignStatus.FAILED
       }
 
-      await campaignDb.updateStatus(campaignId, {
-        status: finalStatus,
-        completedAt: new Date().toISOString()
-      })
+      if (abPhase === 'test') {
+        // Teste A/B: campanha segue "Enviando" até o rollout do vencedor (holdout ainda pendente).
+        finalStatus = CampaignStatus.SENDING
+        await scheduleAbTestRollout(campaignId)
+        console.log(`🧪 Campaign ${campaignId} A/B test sent; winner rollout scheduled.`)
+      } else {
+        await campaignDb.updateStatus(campaignId, {
+          status: finalStatus,
+          completedAt: new Date().toISOString()
+        })
+
+        if (abPhase === 'rollout') {
+          await updateAbTestState(campaignId, { status: 'completed' })
+        }
 
-      console.log(`🎉 Campaign ${campaignId} completed!`)
+        // Sequência (drip): agenda a próxima etapa para quem não engajou
+        if (finalStatus === CampaignStatus.COMPLETED) {
+          try {
+            await scheduleNextDripStep(campaignId)
+          } catch (e) {
+            console.warn('[Workflow] Falha ao agendar próxima etapa da sequência (best-effort):', e)
+          }
+        }
+
+        await emitWebhookEvent('campaign.completed', {
+          campaign_id: campaignId,
+          name: campaign?.name ?? null,
+          status: finalStatus,
+          recipients: campaign?.recipients ?? 0,
+          sent: campaign?.sent ?? 0,
+          delivered: campaign?.delivered ?? 0,
+          read: campaign?.read ?? 0,
+          failed: campaign?.failed ?? 0,
+        })
+
+        console.log(`🎉 Campaign ${campaignId} completed!`)
+      }
 
       await emitWorkflowTrace({
         traceId,
@@ -2532,7 +2659,7 @@ const workflowHandler = serve<CampaignWorkflowInput>(
             {
               campaign_id: campaignId,
               trace_id: traceId,
-              template_name: templateName,
+              template_name: campaignTemplateName,
               recipients: contacts?.length || null,
               sent_total: sentTotal,
               failed_total: failedTotal,
@@ -1,8 +1,10 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { Client as QStashClient } from '@upstash/qstash'
 import { supabase } from '@/lib/supabase'
 import { campaignDb } from '@/lib/supabase-db'
+import { clearCampaignRecurrence } from '@/lib/campaign-sequences'
 import { CampaignStatus } from '@/types'
+import { recordAuditEvent } from '@/lib/audit'
 
 // Registry in-memory (dev-only) for localhost scheduling.
 // QStash cannot reach localhost, então usamos um setTimeout em dev.
@@ -24,14 +26,15 @@ interface Params {
  * Regras:
  * - Só faz sentido para campanhas em status SCHEDULED.
  * - É idempotente: se não houver messageId, apenas limpa o scheduledAt.
+ * - Campanha recorrente: pausa o cron (execuções já criadas não são afetadas).
  */
-export async function POST(_request: Request, { params }: Params) {
+export async function POST(request: NextRequest, { params }: Params) {
   try {
     const { id } = await params
 
     const { data: row, error } = await supabase
       .from('campaigns')
-      .select('id, status, scheduled_date, qstash_schedule_message_id')
+      .select('id, status, scheduled_date, qstash_schedule_message_id, recurrence')
       .eq('id', id)
       .single()
 
@@ -73,6 +76,10 @@ export async function POST(_request: Request, { params }: Params) {
       }
     }
 
+    if ((row as any).recurrence) {
+      await clearCampaignRecurrence(id)
+    }
+
     // Clear schedule fields and revert to draft
     await campaignDb.updateStatus(id, {
       status: CampaignStatus.DRAFT,
@@ -84,6 +91,16 @@ export async function POST(_request: Request, { params }: Params) {
     })
 
     const updated = await campaignDb.getById(id)
+
+    await recordAuditEvent(request, {
+      action: 'campaign.cancel_schedule',
+      entityType: 'campaign',
+      entityId: id,
+      metadata: { name: updated?.name },
+      before: { status: row.status, scheduledAt: row.scheduled_date },
+      after: { status: CampaignStatus.DRAFT, scheduledAt: null },
+    })
+
     return NextResponse.json({ ok: true, campaign: updated })
   } catch (error) {
     console.error('Failed to cancel schedule:', error)
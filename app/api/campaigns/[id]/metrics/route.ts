@@ -1,6 +1,11 @@
 import { NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
-import { campaignDb } from '@/lib/supabase-db'
+import { campaignDb, campaignVariantDb, conversionDb, templateDb } from '@/lib/supabase-db'
+import { getCampaignVariantStats } from '@/lib/campaign-ab-test'
+import { computeVariantRates } from '@/lib/business/campaign/ab-testing'
+import { getCampaignLinkStats } from '@/lib/campaign-link-tracking'
+import { computeClickThroughRate } from '@/lib/business/campaign/link-tracking'
+import { calculateCampaignCost } from '@/lib/whatsapp-pricing'
 
 export const dynamic = 'force-dynamic'
 
@@ -39,10 +44,100 @@ function isMissingTableError(err: any): boolean {
   return msg.includes('does not exist') || msg.includes('relation') && msg.includes('does not exist')
 }
 
+/**
+ * Funil por variante (teste A/B). Retorna null para campanhas sem A/B.
+ */
+async function loadAbTestMetrics(campaignId: string) {
+  try {
+    const campaign = await campaignDb.getById(campaignId)
+    if (!campaign?.abTest) return null
+
+    const [variants, stats] = await Promise.all([
+      campaignVariantDb.getByCampaignId(campaignId),
+      getCampaignVariantStats(campaignId),
+    ])
+
+    return {
+      config: campaign.abTest,
+      variants: variants.map((variant) => {
+        const variantStats = stats.find((s) => s.variantId === variant.id) || {
+          variantId: variant.id, total: 0, sent: 0, delivered: 0, read: 0, failed: 0, clicked: 0, submitted: 0,
+        }
+        return { ...variant, stats: variantStats, rates: computeVariantRates(variantStats) }
+      }),
+    }
+  } catch (e) {
+    console.warn('[metrics] ab test metrics error (best-effort)', e)
+    return null
+  }
+}
+
+/**
+ * Cliques nos botões de URL rastreados. Retorna null para campanhas sem rastreio.
+ */
+async function loadLinkMetrics(campaignId: string) {
+  try {
+    const campaign = await campaignDb.getById(campaignId)
+    const trackedLinks = campaign?.trackedLinks || []
+    if (!campaign || trackedLinks.length === 0) return null
+
+    const clicks = safeNumber(campaign.clicks) ?? 0
+    const delivered = safeNumber(campaign.delivered) ?? 0
+
+    return {
+      trackedLinks,
+      clicks,
+      delivered,
+      clickThroughRate: computeClickThroughRate(clicks, delivered),
+      buttons: await getCampaignLinkStats(campaignId, trackedLinks),
+    }
+  } catch (e) {
+    console.warn('[metrics] link metrics error (best-effort)', e)
+    return null
+  }
+}
+
+/**
+ * Receita atribuída à campanha e custo estimado (USD, tabela da Meta).
+ * Retorna null enquanto não houver conversões.
+ */
+async function loadConversionMetrics(campaignId: string) {
+  try {
+    const stats = await conversionDb.getCampaignStats(campaignId)
+    if (stats.length === 0) return null
+
+    const campaign = await campaignDb.getById(campaignId)
+    if (!campaign) return null
+
+    const template = campaign.templateName ? await templateDb.getByName(campaign.templateName) : undefined
+    const category = template?.category || 'MARKETING'
+    // A Meta cobra por mensagem entregue
+    const billableMessages = safeNumber(campaign.delivered) ?? 0
+
+    return {
+      ...stats[0],
+      totalConversions: stats.reduce((sum, s) => sum + s.conversions, 0),
+      byCurrency: stats,
+      category,
+      billableMessages,
+      costUsd: calculateCampaignCost(category, billableMessages),
+    }
+  } catch (e) {
+    console.warn('[metrics] conversion metrics error (best-effort)', e)
+    return null
+  }
+}
+
 export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
   const { id } = await ctx.params
   if (!id) return noStoreJson({ error: 'Missing campaign id' }, { status: 400 })
 
+  const [abTest, links, conversions] = await Promise.all([
+    loadAbTestMetrics(id),
+    loadLinkMetrics(id),
+    loadConversionMetrics(id),
+  ])
+
   // 1) Prefer métricas persistidas (run/batch) quando existir
   try {
     // Executar queries em paralelo para reduzir latência
@@ -87,6 +182,9 @@ export async function GET(_req: Request, ctx: { params: Promise<{ id: string }>
         current: run,
         baseline: baseline || [],
         source: 'run_metrics',
+        abTest,
+        links,
+        conversions,
       })
     }
 
@@ -126,6 +224,9 @@ export async function GET(_req: Request, ctx: { params: Promise<{ id: string }>
         },
         baseline: baseline || [],
         source: 'run_metrics',
+        abTest,
+        links,
+        conversions,
         hint,
       })
     }
@@ -197,6 +298,9 @@ export async function GET(_req: Request, ctx: { params: Promise<{ id: string }>
     },
     baseline: baselineFallback,
     source: 'campaigns_fallback',
+    abTest,
+    links,
+    conversions,
     hint: 'Métricas avançadas (run/batch) ainda não estão disponíveis. Aplique a migration 0008_add_campaign_performance_metrics.sql no Supabase e execute uma nova campanha para gerar o baseline por execução.',
   })
 }
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { campaignDb } from '@/lib/supabase-db'
+import { CampaignRecurrenceSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { clearCampaignRecurrence, syncCampaignRecurrence } from '@/lib/campaign-sequences'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface Params {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * PUT /api/campaigns/[id]/recurrence
+ * Cria/atualiza o cron da campanha recorrente (também usado para retomar).
+ */
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+
+    const validation = validateBody(CampaignRecurrenceSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const campaign = await campaignDb.getById(id)
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campanha não encontrada' }, { status: 404 })
+    }
+    if (campaign.parentCampaignId) {
+      return NextResponse.json(
+        { error: 'Execuções e etapas de sequência não podem ser recorrentes' },
+        { status: 409 }
+      )
+    }
+
+    const recurrence = await syncCampaignRecurrence(id, validation.data)
+    return NextResponse.json({ ok: true, recurrence })
+  } catch (error) {
+    console.error('Failed to update campaign recurrence:', error)
+    return NextResponse.json(
+      { error: 'Falha ao atualizar recorrência', details: (error as Error).message },
+      { status: 502 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/campaigns/[id]/recurrence
+ * Pausa a recorrência (remove o schedule do QStash; configuração é mantida).
+ */
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+
+    const recurrence = await clearCampaignRecurrence(id)
+    if (!recurrence) {
+      return NextResponse.json({ error: 'Campanha não é recorrente' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true, recurrence })
+  } catch (error) {
+    console.error('Failed to pause campaign recurrence:', error)
+    return NextResponse.json(
+      { error: 'Falha ao pausar recorrência', details: (error as Error).message },
+      { status: 500 }
+    )
+  }
+}
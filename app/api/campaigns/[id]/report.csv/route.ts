@@ -40,7 +40,7 @@ export async function GET(_request: Request, { params }: Params) {
     // Relatório por destinatário (campaign_contacts)
     const { data, error } = await supabase
       .from('campaign_contacts')
-      .select('contact_id,name,phone,email,status,message_id,sent_at,delivered_at,read_at,error')
+      .select('id,contact_id,name,phone,email,status,message_id,sent_at,delivered_at,read_at,link_clicked_at,error')
       .eq('campaign_id', id)
       .order('sent_at', { ascending: false })
 
@@ -53,6 +53,23 @@ export async function GET(_request: Request, { params }: Params) {
 
     const rows = Array.isArray(data) ? data : []
 
+    // Cliques em links rastreados (total por destinatário, inclui repetidos)
+    const clicksByCampaignContact = new Map<string, number>()
+    if (campaign.trackedLinks && campaign.trackedLinks.length > 0) {
+      const { data: clicks, error: clicksError } = await supabase
+        .from('campaign_link_clicks')
+        .select('campaign_contact_id')
+        .eq('campaign_id', id)
+
+      if (clicksError) {
+        console.warn('[report.csv] Falha ao carregar cliques (best-effort):', clicksError)
+      }
+      for (const click of (clicks || []) as any[]) {
+        const key = String(click.campaign_contact_id)
+        clicksByCampaignContact.set(key, (clicksByCampaignContact.get(key) || 0) + 1)
+      }
+    }
+
     const header = [
       'contact_id',
       'name',
@@ -63,6 +80,8 @@ export async function GET(_request: Request, { params }: Params) {
       'sent_at',
       'delivered_at',
       'read_at',
+      'link_clicked_at',
+      'link_clicks',
       'error',
     ]
 
@@ -79,6 +98,8 @@ export async function GET(_request: Request, { params }: Params) {
           csvEscape((row as any).sent_at),
           csvEscape((row as any).delivered_at),
           csvEscape((row as any).read_at),
+          csvEscape((row as any).link_clicked_at),
+          csvEscape(clicksByCampaignContact.get(String((row as any).id)) || 0),
           csvEscape((row as any).error),
         ].join(',')
       )
@@ -4,6 +4,7 @@ import { Client } from '@upstash/workflow'
 import { supabase } from '@/lib/supabase'
 import { templateDb, campaignDb } from '@/lib/supabase-db'
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
 
 import { precheckContactForTemplate } from '@/lib/whatsapp/template-contract'
 import { fetchWithTimeout, safeJson } from '@/lib/server-http'
@@ -620,7 +621,7 @@ export async function POST(_request: Request, { params }: Params) {
     if (isLocalhost) {
       const response = await fetchWithTimeout(`${baseUrl}/api/campaign/workflow`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getWorkspaceHeaders()) },
         body: JSON.stringify(workflowPayload),
         timeoutMs: 30000,
       })
@@ -641,6 +642,7 @@ export async function POST(_request: Request, { params }: Params) {
       await workflowClient.trigger({
         url: `${baseUrl}/api/campaign/workflow`,
         body: workflowPayload,
+        headers: await getWorkspaceHeaders(),
       })
     }
 
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
-import { campaignDb, campaignFolderDb, campaignTagDb } from '@/lib/supabase-db'
+import { campaignDb, campaignFolderDb, campaignTagDb, campaignVariantDb } from '@/lib/supabase-db'
 import { supabase } from '@/lib/supabase'
+import type { Campaign, CampaignVariant } from '@/types'
 
 // Force dynamic rendering (no caching)
 export const dynamic = 'force-dynamic'
@@ -45,9 +46,34 @@ export async function GET(request: Request, { params }: Params) {
     }
     const tags = await campaignTagDb.getForCampaign(id)
 
+    // Teste A/B: variantes (best-effort; migration pode não ter sido aplicada)
+    let variants: CampaignVariant[] = []
+    if (campaign.abTest) {
+      try {
+        variants = await campaignVariantDb.getByCampaignId(id)
+      } catch (e) {
+        console.warn('[Campaign] Falha ao buscar variantes A/B (best-effort):', e)
+      }
+    }
+
+    // Recorrência/sequência: execuções e etapas (campanhas-filhas) + campanha-mãe
+    let children: Campaign[] = []
+    let parentCampaign: { id: string; name: string } | null = null
+    try {
+      if (campaign.recurrence || campaign.sequenceStep === 1) {
+        children = await campaignDb.getChildren(id)
+      }
+      if (campaign.parentCampaignId) {
+        const parent = await campaignDb.getById(campaign.parentCampaignId)
+        parentCampaign = parent ? { id: parent.id, name: parent.name } : null
+      }
+    } catch (e) {
+      console.warn('[Campaign] Falha ao buscar campanhas da sequência (best-effort):', e)
+    }
+
     // No cache for campaign data (needs real-time updates)
     return NextResponse.json(
-      { ...campaign, submissionsCount, folder, tags },
+      { ...campaign, submissionsCount, folder, tags, variants, children, parentCampaign },
       {
         headers: {
           'Cache-Control': 'no-store, no-cache, must-revalidate',
@@ -3,6 +3,8 @@ import { campaignDb, campaignContactDb } from '@/lib/supabase-db'
 import { CreateCampaignSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
 import { Client as QStashClient } from '@upstash/qstash'
 import { fetchWithTimeout, safeText } from '@/lib/server-http'
+import { syncCampaignRecurrence } from '@/lib/campaign-sequences'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
 
 // Force dynamic - NO caching at all
 export const dynamic = 'force-dynamic'
@@ -126,6 +128,15 @@ export async function POST(request: Request) {
       flowId: data.flowId,  // Flow/MiniApp reference (se o template usar Flow)
       flowName: data.flowName,
       folderId: data.folderId,  // Organização por pasta
+      abTest: data.abTest ?? null,  // Teste A/B (variants[0] = template principal)
+      variants: data.abTest ? data.variants : undefined,
+      // Recorrência é ativada abaixo (após salvar os contatos) via QStash schedule
+      recurrence: data.recurrence ? { ...data.recurrence, active: false, runCount: 0 } : null,
+      dripSteps: data.dripSteps ?? null,
+      sendWindow: data.sendWindow ?? null,
+      skipDormant: data.skipDormant ?? false,
+      phoneNumberId: data.phoneNumberId ?? null,
+      trackedLinks: data.trackedLinks ?? null,
     })
 
     // If contacts were provided, add them to campaign_contacts
@@ -143,6 +154,24 @@ export async function POST(request: Request) {
       )
     }
 
+    // Recorrente: cada disparo do cron cria uma campanha-filha com a audiência desta campanha.
+    if (data.recurrence) {
+      try {
+        const recurrence = await syncCampaignRecurrence(campaign.id, data.recurrence)
+        return NextResponse.json({ ...campaign, recurrence }, { status: 201 })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.error('[Campaigns] QStash schedule (recorrência) failed:', message)
+        return NextResponse.json(
+          {
+            error: 'Falha ao agendar recorrência (QStash)',
+            details: message,
+          },
+          { status: 502 }
+        )
+      }
+    }
+
     // If scheduled, enqueue a one-shot QStash message to trigger dispatch at the right time.
     if (data.scheduledAt) {
       const scheduledMs = new Date(data.scheduledAt).getTime()
@@ -188,6 +217,8 @@ export async function POST(request: Request) {
             delayMs,
           })
 
+          // Captura o workspace agora: o timer roda fora da requisição
+          const workspaceHeaders = await getWorkspaceHeaders()
           const t = setTimeout(async () => {
             try {
               console.info('[Campaigns][LocalScheduler] firing', {
@@ -196,7 +227,7 @@ export async function POST(request: Request) {
               })
               const resp = await fetchWithTimeout(`${baseUrl}/api/campaign/dispatch`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: { 'Content-Type': 'application/json', ...workspaceHeaders },
                 body: JSON.stringify({
                   campaignId: campaign.id,
                   templateName: campaign.templateName,
@@ -242,6 +273,7 @@ export async function POST(request: Request) {
               trigger: 'schedule',
               scheduledAt: scheduledAtIso,
             },
+            headers: await getWorkspaceHeaders(),
             // One-shot schedule
             delay: delaySeconds,
             retries: 3,
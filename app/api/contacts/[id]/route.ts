@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { contactDb } from '@/lib/supabase-db'
 import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { queueCrmContactSync } from '@/lib/crm/crm-sync'
 
 interface Params {
   params: Promise<{ id: string }>
@@ -61,6 +63,8 @@ export async function PATCH(request: Request, { params }: Params) {
       )
     }
 
+    await queueCrmContactSync({ contactId: contact.id, reason: 'updated' })
+
     return NextResponse.json(contact)
   } catch (error) {
     console.error('Failed to update contact:', error)
@@ -81,7 +85,16 @@ export async function DELETE(request: Request, { params }: Params) {
     if (auth) return auth
 
     const { id } = await params
+    const existing = await contactDb.getById(id)
     await contactDb.delete(id)
+
+    await recordAuditEvent(request as NextRequest, {
+      action: 'contact.delete',
+      entityType: 'contact',
+      entityId: id,
+      before: existing ? { name: existing.name, phone: existing.phone, email: existing.email } : null,
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Failed to delete contact:', error)
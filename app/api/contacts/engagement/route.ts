@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { LIFECYCLE_STAGES } from '@/lib/business/contact/engagement'
+import {
+  ensureContactEngagementSchedule,
+  getContactEngagementState,
+  refreshContactEngagement,
+} from '@/lib/contact-engagement'
+import type { ContactLifecycleStage } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/contacts/engagement
+ * Distribuição de contatos por estágio + último recálculo
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSessionOrApiKey(request)
+    if (auth) return auth
+
+    const [state, ...counts] = await Promise.all([
+      getContactEngagementState(),
+      ...LIFECYCLE_STAGES.map((stage) =>
+        supabase.from('contacts').select('id', { count: 'exact', head: true }).eq('lifecycle_stage', stage)
+      ),
+    ])
+
+    const stages = {} as Record<ContactLifecycleStage, number>
+    LIFECYCLE_STAGES.forEach((stage, i) => {
+      stages[stage] = counts[i].count || 0
+    })
+
+    return NextResponse.json({ stages, lastRunAt: state.lastRunAt, scheduled: Boolean(state.scheduleId) })
+  } catch (error) {
+    console.error('Failed to fetch contact engagement:', error)
+    return NextResponse.json(
+      { error: 'Falha ao buscar engajamento', details: (error as Error).message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/contacts/engagement
+ * Recalcula score e estágio (job diário do QStash ou "Recalcular" manual)
+ */
+export async function POST(request: NextRequest) {
+  // Auth: o job diário envia o segredo do worker como Bearer; o "Recalcular" manual usa sessão ou API key
+  const auth = await requireSessionOrApiKey(request)
+  if (auth) return auth
+
+  const body = await request.json().catch(() => ({}))
+  const isScheduled = body?.trigger === 'schedule'
+
+  try {
+    const result = await refreshContactEngagement()
+
+    if (!isScheduled) {
+      await ensureContactEngagementSchedule().catch((e) => {
+        console.warn('[Engagement] Falha ao agendar recálculo diário (best-effort):', e)
+      })
+    }
+
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error) {
+    console.error('Failed to refresh contact engagement:', error)
+    return NextResponse.json(
+      { error: 'Falha ao recalcular engajamento', details: (error as Error).message },
+      { status: 500 }
+    )
+  }
+}
@@ -18,8 +18,9 @@ export async function GET(request: Request) {
     const search = url.searchParams.get('search') || ''
     const status = url.searchParams.get('status') || ''
     const tag = url.searchParams.get('tag') || ''
+    const stage = url.searchParams.get('stage') || ''
 
-    const ids = await contactDb.getIds({ search, status, tag })
+    const ids = await contactDb.getIds({ search, status, tag, stage })
     return NextResponse.json(ids, {
       headers: {
         'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
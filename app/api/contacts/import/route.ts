@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { contactDb } from '@/lib/supabase-db'
 import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { recordAuditEvent } from '@/lib/audit'
 import { ImportContactsSchema, validateBody, formatZodErrors, extractErrorMessage } from '@/lib/api-validation'
 import { ContactStatus } from '@/types'
 
@@ -38,6 +39,12 @@ export async function POST(request: Request) {
 
     const result = await contactDb.import(contactsWithDefaults)
 
+    await recordAuditEvent(request as NextRequest, {
+      action: 'contact.import',
+      entityType: 'contact',
+      metadata: { total: contacts.length, inserted: result.inserted, updated: result.updated },
+    })
+
     return NextResponse.json({
       inserted: result.inserted,
       updated: result.updated,
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { contactDb } from '@/lib/supabase-db'
 import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { emitWebhookEvent } from '@/lib/outbound-webhooks'
+import { queueCrmContactSync } from '@/lib/crm/crm-sync'
 import {
   CreateContactSchema,
   DeleteContactsSchema,
@@ -26,13 +29,15 @@ export async function GET(request: Request) {
     const search = url.searchParams.get('search') || ''
     const status = url.searchParams.get('status') || ''
     const tag = url.searchParams.get('tag') || ''
+    const stage = url.searchParams.get('stage') || ''
 
     const wantsPaged =
       limitParam !== null ||
       offsetParam !== null ||
       search.length > 0 ||
       status.length > 0 ||
-      tag.length > 0
+      tag.length > 0 ||
+      stage.length > 0
 
     if (wantsPaged) {
       const limitRaw = Number(limitParam)
@@ -46,6 +51,7 @@ export async function GET(request: Request) {
         search,
         status,
         tag,
+        stage,
       })
 
       return NextResponse.json(
@@ -105,7 +111,22 @@ export async function POST(request: Request) {
       email: validation.data.email ?? undefined,
     }
 
+    // add() atualiza quando o telefone já existe: só contato novo gera evento
+    const existing = await contactDb.getByPhone(contactData.phone)
     const contact = await contactDb.add(contactData)
+
+    if (!existing) {
+      await emitWebhookEvent('contact.created', {
+        contact_id: contact.id,
+        name: contact.name || null,
+        phone: contact.phone,
+        email: contact.email ?? null,
+        tags: contact.tags || [],
+        source: 'api',
+      })
+    }
+    await queueCrmContactSync({ contactId: contact.id, reason: existing ? 'updated' : 'created' })
+
     return NextResponse.json(contact, { status: 201 })
   } catch (error: any) {
     console.error('Failed to add contact:', error)
@@ -137,6 +158,13 @@ export async function DELETE(request: Request) {
     }
 
     const deleted = await contactDb.deleteMany(validation.data.ids)
+
+    await recordAuditEvent(request as NextRequest, {
+      action: 'contact.bulk_delete',
+      entityType: 'contact',
+      metadata: { deleted, ids: validation.data.ids },
+    })
+
     return NextResponse.json({ deleted })
   } catch (error) {
     console.error('Failed to delete contacts:', error)
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { parsePhoneNumber } from 'libphonenumber-js'
-import { supabase } from '@/lib/supabase'
-import { getBrazilUfFromPhone } from '@/lib/br-geo'
-import { normalizePhoneNumber } from '@/lib/phone-formatter'
+import { segmentDb } from '@/lib/supabase-db'
+import { legacyFiltersToSegment } from '@/lib/business/audience/segments'
+import { SegmentDefinitionSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
 import { requireSessionOrApiKey } from '@/lib/request-auth'
+import type { SegmentGroup } from '@/types'
 
 const parseList = (value: string | null): string[] => {
   if (!value) return []
@@ -13,20 +13,15 @@ const parseList = (value: string | null): string[] => {
     .filter(Boolean)
 }
 
-const resolveCountry = (phone: string): string | null => {
-  const normalized = normalizePhoneNumber(String(phone || '').trim())
-  if (!normalized) return null
-  try {
-    const parsed = parsePhoneNumber(normalized)
-    return parsed?.country || null
-  } catch {
-    return null
-  }
+const countSegment = async (definition: SegmentGroup) => {
+  const { total, matched } = await segmentDb.count(definition)
+  return NextResponse.json({ total, matched })
 }
 
 /**
  * GET /api/contacts/segment-count
- * Retorna contagem real de contatos com filtros por tags, pais (ISO) e UF (BR)
+ * Retorna contagem real de contatos com filtros por tags, pais (ISO) e UF (BR),
+ * ou de um segmento salvo (?segmentId=). A avaliação acontece no Postgres.
  */
 export async function GET(request: Request) {
   try {
@@ -34,41 +29,60 @@ export async function GET(request: Request) {
     if (auth) return auth
 
     const url = new URL(request.url)
-    const tags = parseList(url.searchParams.get('tags'))
-    const countries = parseList(url.searchParams.get('countries'))
-    const states = parseList(url.searchParams.get('states'))
-    const combine = (url.searchParams.get('combine') || 'or').toLowerCase() === 'and' ? 'and' : 'or'
-
-    const { data, error } = await supabase
-      .from('contacts')
-      .select('phone,tags')
 
-    if (error) throw error
+    const segmentId = url.searchParams.get('segmentId')
+    if (segmentId) {
+      const segment = await segmentDb.getById(segmentId)
+      if (!segment) {
+        return NextResponse.json({ error: 'Segmento não encontrado' }, { status: 404 })
+      }
+      return countSegment(segment.definition)
+    }
 
-    const contacts = data || []
-    const total = contacts.length
+    return countSegment(legacyFiltersToSegment({
+      tags: parseList(url.searchParams.get('tags')),
+      countries: parseList(url.searchParams.get('countries')),
+      states: parseList(url.searchParams.get('states')),
+      combine: (url.searchParams.get('combine') || 'or').toLowerCase() === 'and' ? 'and' : 'or',
+    }))
+  } catch (error) {
+    console.error('Failed to compute segment count:', error)
+    return NextResponse.json(
+      { error: 'Falha ao calcular contagem', details: (error as Error).message },
+      { status: 500 }
+    )
+  }
+}
 
-    if (!tags.length && !countries.length && !states.length) {
-      return NextResponse.json({ total, matched: total })
-    }
+/**
+ * POST /api/contacts/segment-count
+ * Contagem para uma definição do construtor de segmentos (grupos E/OU).
+ * Body: { definition } ou { segmentId }
+ */
+export async function POST(request: Request) {
+  try {
+    const auth = await requireSessionOrApiKey(request as NextRequest)
+    if (auth) return auth
 
-    const matched = contacts.reduce((count, contact) => {
-      const contactTags = Array.isArray(contact.tags) ? contact.tags : []
-      const phone = String(contact.phone || '')
-      const country = countries.length ? resolveCountry(phone) : null
-      const uf = states.length ? getBrazilUfFromPhone(phone) : null
+    const body = await request.json().catch(() => ({}))
 
-      const tagMatches = tags.map((tag) => contactTags.includes(tag))
-      const countryMatches = countries.map((code) => Boolean(country && country === code))
-      const stateMatches = states.map((code) => Boolean(uf && uf === code))
-      const filters = [...tagMatches, ...countryMatches, ...stateMatches]
+    if (body?.segmentId) {
+      const segment = await segmentDb.getById(String(body.segmentId))
+      if (!segment) {
+        return NextResponse.json({ error: 'Segmento não encontrado' }, { status: 404 })
+      }
+      return countSegment(segment.definition)
+    }
 
-      if (!filters.length) return count + 1
-      const isMatch = combine === 'or' ? filters.some(Boolean) : filters.every(Boolean)
-      return isMatch ? count + 1 : count
-    }, 0)
+    const validation = validateBody(SegmentDefinitionSchema, body?.definition)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Segmento inválido', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
 
-    return NextResponse.json({ total, matched })
+    return countSegment(validation.data)
   } catch (error) {
     console.error('Failed to compute segment count:', error)
     return NextResponse.json(
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { segmentDb } from '@/lib/supabase-db'
+import { SegmentDefinitionSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * POST /api/contacts/segment
+ * Retorna os contatos que casam com um segmento (avaliado no Postgres).
+ * Body: { definition } ou { segmentId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireSessionOrApiKey(request)
+    if (auth) return auth
+
+    const body = await request.json().catch(() => ({}))
+
+    let definition
+    if (body?.segmentId) {
+      const segment = await segmentDb.getById(String(body.segmentId))
+      if (!segment) {
+        return NextResponse.json({ error: 'Segmento não encontrado' }, { status: 404 })
+      }
+      definition = segment.definition
+    } else {
+      const validation = validateBody(SegmentDefinitionSchema, body?.definition)
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: 'Segmento inválido', details: formatZodErrors(validation.error) },
+          { status: 400 }
+        )
+      }
+      definition = validation.data
+    }
+
+    const contacts = await segmentDb.getContacts(definition)
+    return NextResponse.json(contacts, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to resolve segment contacts:', error)
+    return NextResponse.json(
+      { error: 'Falha ao buscar contatos do segmento', details: (error as Error).message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { conversionDb } from '@/lib/supabase-db'
+import { CreateConversionSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { recordConversion } from '@/lib/conversions'
+import type { ConversionAttribution } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+const ATTRIBUTIONS = new Set<ConversionAttribution>(['campaign', 'conversation', 'none'])
+
+/**
+ * GET /api/conversions?campaignId=&aiAgentId=&attribution=&limit=50&offset=0
+ * Lista as conversões do workspace (mais recentes primeiro)
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request)
+  if (denied) return denied
+
+  try {
+    const params = request.nextUrl.searchParams
+    const limit = Number(params.get('limit') || 50)
+    const offset = Number(params.get('offset') || 0)
+    const attribution = params.get('attribution') as ConversionAttribution | null
+
+    const result = await conversionDb.list({
+      campaignId: params.get('campaignId') || undefined,
+      aiAgentId: params.get('aiAgentId') || undefined,
+      attribution: attribution && ATTRIBUTIONS.has(attribution) ? attribution : undefined,
+      limit: Number.isFinite(limit) ? Math.min(Math.max(Math.trunc(limit), 1), 200) : 50,
+      offset: Number.isFinite(offset) ? Math.max(Math.trunc(offset), 0) : 0,
+    })
+
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch conversions:', error)
+    return NextResponse.json({ error: 'Falha ao buscar conversões' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/conversions
+ * Registra uma venda/pedido e atribui à campanha ou conversa que levou à compra.
+ * Idempotente por orderId: reenvios devolvem a conversão existente (200).
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request)
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+
+    const validation = validateBody(CreateConversionSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const { conversion, duplicate } = await recordConversion(validation.data)
+
+    return NextResponse.json({ ...conversion, duplicate }, { status: duplicate ? 200 : 201 })
+  } catch (error: any) {
+    console.error('Failed to record conversion:', error)
+    return NextResponse.json(
+      { error: 'Falha ao registrar conversão', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -3,9 +3,8 @@ import { customFieldDefDb } from '@/lib/supabase-db'
 import { validateBody, formatZodErrors } from '@/lib/api-validation'
 import { z } from 'zod'
 
-// Cache GET requests for 10 minutes - custom fields rarely change
-// POST/PUT/DELETE remain dynamic by default
-export const revalidate = 600
+// Dados do workspace ativo: sem cache compartilhado entre workspaces
+export const dynamic = 'force-dynamic'
 
 // Schema for creating a custom field definition
 const CreateCustomFieldSchema = z.object({
@@ -1,8 +1,8 @@
 import { NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
 
-// Allow 60s cache on Vercel Edge - dashboard uses realtime/polling for updates
-export const revalidate = 60
+// Dados do workspace ativo: sem cache compartilhado entre workspaces
+export const dynamic = 'force-dynamic'
 
 export async function GET() {
   try {
@@ -19,6 +19,12 @@ export async function GET() {
       const deliveryRate = totalSent > 0
         ? Math.round((totalDelivered / totalSent) * 100)
         : 0
+      // CTR dos links rastreados: só considera entregas de campanhas com rastreio
+      const totalClicks = viewData.total_clicks || 0
+      const trackedDelivered = viewData.tracked_delivered || 0
+      const clickThroughRate = trackedDelivered > 0
+        ? Math.round((totalClicks / trackedDelivered) * 100)
+        : 0
 
       return NextResponse.json({
         totalSent,
@@ -27,6 +33,8 @@ export async function GET() {
         totalFailed: viewData.total_failed || 0,
         activeCampaigns: (viewData.active_campaigns || 0) + (viewData.scheduled_campaigns || 0),
         deliveryRate,
+        totalClicks,
+        clickThroughRate,
         // Extra stats from view
         sent24h: viewData.sent_24h || 0,
         delivered24h: viewData.delivered_24h || 0,
@@ -38,7 +46,7 @@ export async function GET() {
     // This path will be removed once migration 0033 is applied
     const { data, error } = await supabase
       .from('campaigns')
-      .select('sent, delivered, read, failed, status')
+      .select('sent, delivered, read, failed, clicks, tracked_links, status')
 
     if (error) throw error
 
@@ -47,6 +55,8 @@ export async function GET() {
     let totalDelivered = 0
     let totalRead = 0
     let totalFailed = 0
+    let totalClicks = 0
+    let trackedDelivered = 0
     let activeCampaigns = 0
 
     const activeStatuses = new Set([
@@ -61,6 +71,10 @@ export async function GET() {
       totalDelivered += row.delivered || 0
       totalRead += row.read || 0
       totalFailed += row.failed || 0
+      if (Array.isArray(row.tracked_links) && row.tracked_links.length > 0) {
+        totalClicks += row.clicks || 0
+        trackedDelivered += row.delivered || 0
+      }
       const status = String(row.status || '').trim().toLowerCase()
       if (activeStatuses.has(status)) {
         activeCampaigns++
@@ -71,6 +85,9 @@ export async function GET() {
     const deliveryRate = totalSent > 0
       ? Math.round((totalDelivered / totalSent) * 100)
       : 0
+    const clickThroughRate = trackedDelivered > 0
+      ? Math.round((totalClicks / trackedDelivered) * 100)
+      : 0
 
     return NextResponse.json({
       totalSent,
@@ -79,6 +96,8 @@ export async function GET() {
       totalFailed,
       activeCampaigns,
       deliveryRate,
+      totalClicks,
+      clickThroughRate,
     })
   } catch (error) {
     // If Supabase is not configured (e.g. during build/install), return empty stats instead of 500
@@ -91,6 +110,8 @@ export async function GET() {
             totalFailed: 0,
             activeCampaigns: 0,
             deliveryRate: 0,
+            totalClicks: 0,
+            clickThroughRate: 0,
         })
     }
 
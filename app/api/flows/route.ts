@@ -1,9 +1,8 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 
-// Cache GET requests for 5 minutes - flows rarely change
-// POST/PUT/DELETE remain dynamic by default
-export const revalidate = 300
+// Dados do workspace ativo: sem cache compartilhado entre workspaces
+export const dynamic = 'force-dynamic'
 
 import { supabase } from '@/lib/supabase'
 import { settingsDb } from '@/lib/supabase-db'
@@ -0,0 +1,29 @@
+/**
+ * GET /api/inbox/assignees - Users who can be assigned to conversations
+ */
+
+import { NextResponse } from 'next/server'
+import { extractErrorMessage } from '@/lib/api-validation'
+import { userDb } from '@/lib/supabase-db'
+import { hasPermission } from '@/lib/business/access'
+import type { InboxAssignee } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+export async function GET() {
+  try {
+    const users = await userDb.getAll()
+    const assignees: InboxAssignee[] = users
+      .filter((user) => user.isActive && hasPermission(user.role, 'inbox:reply'))
+      .map(({ id, name, role }) => ({ id, name, role }))
+
+    return NextResponse.json(assignees)
+  } catch (error) {
+    console.error('[GET /api/inbox/assignees]', error)
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
@@ -9,6 +9,7 @@ import {
   tool,
   type UIMessage,
 } from 'ai'
+import { NextRequest } from 'next/server'
 import { z } from 'zod'
 import { extractErrorMessage } from '@/lib/api-validation'
 import { createClient } from '@/lib/supabase-server'
@@ -16,6 +17,8 @@ import { createLanguageModel, getProviderFromModel } from '@/lib/ai/provider-fac
 import { DEFAULT_MODEL_ID } from '@/lib/ai/model'
 import { sendMessage as sendWhatsAppMessageToDB } from '@/lib/inbox/inbox-service'
 import { getConversationById } from '@/lib/inbox/inbox-db'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
+import { completeHandoff } from '@/lib/inbox/inbox-assignment'
 import type { AIAgent, InboxConversation } from '@/types'
 
 // Allow streaming responses up to 30 seconds
@@ -159,7 +162,7 @@ async function persistAILog(params: {
 // POST Handler
 // =============================================================================
 
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
   const startTime = Date.now()
 
   try {
@@ -175,6 +178,9 @@ export async function POST(req: Request) {
 
     const { messages, conversationId, agentId } = parsed.data
 
+    const denied = await requireConversationAccess(req, conversationId)
+    if (denied) return denied
+
     // Fetch agent and conversation in parallel
     const [agent, conversation] = await Promise.all([
       getAgent(agentId),
@@ -284,6 +290,11 @@ export async function POST(req: Request) {
                     handoff_summary: params.handoffSummary || params.handoffReason,
                   })
                   .eq('id', conversationId)
+                await completeHandoff(conversationId, {
+                  source: 'ai',
+                  reason: params.handoffReason,
+                  summary: params.handoffSummary,
+                })
               }
             }
 
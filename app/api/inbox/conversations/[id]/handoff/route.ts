@@ -9,6 +9,8 @@ import { z } from 'zod'
 import { createClient } from '@/lib/supabase-server'
 import { cancelDebounce } from '@/lib/ai/agents/chat-agent'
 import type { ConversationMode } from '@/types'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
+import { completeHandoff } from '@/lib/inbox/inbox-assignment'
 
 // Request body schema
 const handoffSchema = z.object({
@@ -26,6 +28,8 @@ export async function POST(
 ) {
   try {
     const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
     const supabase = await createClient()
 
     // Validate conversation exists
@@ -98,6 +102,9 @@ export async function POST(
       )
     }
 
+    // Distribui para um atendente da fila (rodízio / menos ocupado)
+    const assignedUserId = await completeHandoff(id, { source: 'manual', reason, summary })
+
     // Create internal note about handoff
     await supabase.from('inbox_messages').insert({
       conversation_id: id,
@@ -117,7 +124,7 @@ export async function POST(
 
     return NextResponse.json({
       success: true,
-      conversation: updated,
+      conversation: assignedUserId ? { ...updated, assigned_user_id: assignedUserId } : updated,
       message: `Conversa transferida para atendimento humano${pauseMinutes > 0 ? `. Automação pausada por ${pauseMinutes} minutos.` : '.'}`,
     })
   } catch (error) {
@@ -139,6 +146,8 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
     const supabase = await createClient()
 
     // Validate conversation exists
@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { extractErrorMessage } from '@/lib/api-validation'
 import { listMessages, sendMessage } from '@/lib/inbox/inbox-service'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
 
 // Regex para ISO 8601 datetime com precisão variável (Supabase pode retornar 1-6 dígitos)
 const ISO_DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,6})?(?:Z|[+-]\d{2}:\d{2})$/
@@ -37,6 +38,8 @@ export async function GET(
 ) {
   try {
     const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
     const { searchParams } = new URL(request.url)
 
     const parsed = querySchema.safeParse({
@@ -72,6 +75,8 @@ export async function POST(
 ) {
   try {
     const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
     const body = await request.json()
 
     const parsed = postSchema.safeParse(body)
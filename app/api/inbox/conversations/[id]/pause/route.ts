@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
 import { z } from 'zod'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
 
 const pauseSchema = z.object({
   duration_minutes: z.number().int().min(1).max(1440), // 1 minute to 24 hours
@@ -19,6 +20,8 @@ interface RouteContext {
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
     const supabase = await createClient()
     const body = await request.json()
 
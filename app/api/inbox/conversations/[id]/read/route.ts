@@ -5,6 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { extractErrorMessage } from '@/lib/api-validation'
 import { markAsRead } from '@/lib/inbox/inbox-service'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -16,6 +17,8 @@ export async function POST(
 ) {
   try {
     const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
 
     await markAsRead(id)
 
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
 
 interface RouteContext {
   params: Promise<{ id: string }>
@@ -13,6 +14,8 @@ interface RouteContext {
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
     const supabase = await createClient()
 
     // Atualizar conversa para modo bot
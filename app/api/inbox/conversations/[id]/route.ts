@@ -5,7 +5,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { extractErrorMessage } from '@/lib/api-validation'
-import { getConversation, patchConversation, deleteConversation } from '@/lib/inbox/inbox-service'
+import { getConversation, patchConversation, deleteConversation, publishConversationSummary } from '@/lib/inbox/inbox-service'
+import { getAssignedUserScope, requireConversationAccess } from '@/lib/inbox/inbox-access'
+import { assignConversation } from '@/lib/inbox/inbox-assignment'
+import { recordAuditEvent } from '@/lib/audit'
 
 const patchSchema = z.object({
   status: z.enum(['open', 'closed']).optional(),
@@ -13,6 +16,8 @@ const patchSchema = z.object({
   priority: z.enum(['low', 'normal', 'high', 'urgent']).optional(),
   ai_agent_id: z.string().uuid().optional(),
   labels: z.array(z.string().uuid()).optional(),
+  assigned_user_id: z.string().min(1).nullable().optional(),
+  queue_id: z.string().uuid().nullable().optional(),
 })
 
 interface RouteParams {
@@ -25,6 +30,8 @@ export async function GET(
 ) {
   try {
     const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
 
     const conversation = await getConversation(id)
 
@@ -51,6 +58,8 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
     const body = await request.json()
 
     const parsed = patchSchema.safeParse(body)
@@ -62,7 +71,41 @@ export async function PATCH(
       )
     }
 
-    const conversation = await patchConversation(id, parsed.data)
+    const { assigned_user_id, ...updates } = parsed.data
+
+    // Atribuir/reatribuir (ou trocar de fila) exige acesso a todas as conversas
+    if ((assigned_user_id !== undefined || updates.queue_id !== undefined) && await getAssignedUserScope(request)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const current = await getConversation(id)
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    let conversation = Object.keys(updates).length > 0
+      ? await patchConversation(id, updates)
+      : current
+
+    // Encerramento: resumo da conversa na timeline dos CRMs
+    if (updates.status === 'closed' && current.status !== 'closed') {
+      await publishConversationSummary(id)
+    }
+
+    // Reatribuição: notifica o novo responsável por push
+    if (assigned_user_id !== undefined && assigned_user_id !== (current.assigned_user_id ?? null)) {
+      conversation = await assignConversation(id, assigned_user_id)
+      await recordAuditEvent(request, {
+        action: 'conversation.assign',
+        entityType: 'conversation',
+        entityId: id,
+        before: { assigned_user_id: current.assigned_user_id ?? null },
+        after: { assigned_user_id },
+      })
+    }
 
     return NextResponse.json(conversation)
   } catch (error) {
@@ -80,6 +123,8 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
 
     await deleteConversation(id)
 
@@ -0,0 +1,40 @@
+/**
+ * DELETE /api/inbox/conversations/[id]/scheduled/[itemId]
+ * Cancela um agendamento pendente (o histórico do item é mantido)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { extractErrorMessage } from '@/lib/api-validation'
+import { cancelScheduledItem } from '@/lib/inbox/inbox-scheduled'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
+
+interface RouteParams {
+  params: Promise<{ id: string; itemId: string }>
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, itemId } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
+
+    const item = await cancelScheduledItem(id, itemId)
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Agendamento não encontrado ou já processado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(item)
+  } catch (error) {
+    console.error('[DELETE /api/inbox/conversations/[id]/scheduled/[itemId]]', error)
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * GET/POST /api/inbox/conversations/[id]/scheduled
+ * Mensagens agendadas e lembretes de follow-up da conversa
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { extractErrorMessage } from '@/lib/api-validation'
+import { listScheduledItems, scheduleItem } from '@/lib/inbox/inbox-scheduled'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
+import { getRequestUser } from '@/lib/request-auth'
+import { INBOX_SCHEDULED_MESSAGE_MAX_CHARS, validateScheduledItem } from '@/lib/business/inbox'
+
+const postSchema = z.object({
+  kind: z.enum(['message', 'follow_up']),
+  due_at: z.string().datetime({ offset: true }),
+  content: z.string().max(INBOX_SCHEDULED_MESSAGE_MAX_CHARS).optional(),
+  fallback_template_name: z.string().trim().min(1).max(512).nullish(),
+  fallback_template_variables: z.record(z.string(), z.unknown()).nullish(),
+  note: z.string().trim().max(500).nullish(),
+})
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
+
+    const items = await listScheduledItems(id)
+    return NextResponse.json(items)
+  } catch (error) {
+    console.error('[GET /api/inbox/conversations/[id]/scheduled]', error)
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id } = await params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
+    const body = await request.json().catch(() => ({}))
+
+    const parsed = postSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { kind, due_at, content, fallback_template_name, fallback_template_variables, note } = parsed.data
+    const dto = {
+      kind,
+      due_at: new Date(due_at).toISOString(),
+      content: kind === 'message' ? content?.trim() ?? '' : null,
+      fallback_template_name: kind === 'message' ? fallback_template_name ?? null : null,
+      fallback_template_variables: kind === 'message' ? fallback_template_variables ?? null : null,
+      note: note || null,
+    }
+
+    const validation = validateScheduledItem(dto)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.errors[0], details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const user = await getRequestUser(request)
+    const item = await scheduleItem(id, dto, user?.id ?? null)
+
+    return NextResponse.json(item, { status: 201 })
+  } catch (error) {
+    console.error('[POST /api/inbox/conversations/[id]/scheduled]', error)
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
@@ -5,6 +5,9 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
+import { assignConversation } from '@/lib/inbox/inbox-assignment'
+import { getRequestUser } from '@/lib/request-auth'
 
 interface RouteContext {
   params: Promise<{ id: string }>
@@ -13,6 +16,8 @@ interface RouteContext {
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params
+    const denied = await requireConversationAccess(request, id)
+    if (denied) return denied
     const supabase = await createClient()
 
     // Atualizar conversa para modo humano
@@ -45,9 +50,15 @@ export async function POST(request: NextRequest, context: RouteContext) {
       )
     }
 
+    // Quem assume uma conversa sem responsável passa a ser o responsável
+    const user = await getRequestUser(request)
+    const assigned = user?.id && !conversation.assigned_user_id
+      ? await assignConversation(id, user.id, { notify: false })
+      : conversation
+
     return NextResponse.json({
       success: true,
-      conversation,
+      conversation: assigned,
       message: 'Conversa assumida com sucesso',
     })
   } catch (error) {
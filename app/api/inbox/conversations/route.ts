@@ -6,6 +6,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { extractErrorMessage } from '@/lib/api-validation'
 import { listConversations } from '@/lib/inbox/inbox-service'
+import { getAssignedUserScope } from '@/lib/inbox/inbox-access'
+import { getRequestUser } from '@/lib/request-auth'
 import type { ConversationStatus, ConversationMode } from '@/types'
 
 const querySchema = z.object({
@@ -13,6 +15,11 @@ const querySchema = z.object({
   mode: z.enum(['bot', 'human']).optional(),
   label: z.string().uuid().optional(),
   search: z.string().optional(),
+  /** me = atribuídas ao usuário da sessão; unassigned = sem responsável */
+  assigned: z.enum(['me', 'unassigned']).optional(),
+  queue: z.string().uuid().optional(),
+  /** sla = prazo de SLA mais próximo primeiro (atrasadas no topo) */
+  sort: z.enum(['recent', 'sla']).optional(),
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(100).default(20),
 })
@@ -26,6 +33,9 @@ export async function GET(request: NextRequest) {
       mode: searchParams.get('mode') || undefined,
       label: searchParams.get('label') || undefined,
       search: searchParams.get('search') || undefined,
+      assigned: searchParams.get('assigned') || undefined,
+      queue: searchParams.get('queue') || undefined,
+      sort: searchParams.get('sort') || undefined,
       page: searchParams.get('page') || 1,
       limit: searchParams.get('limit') || 20,
     })
@@ -37,11 +47,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    let assignedUserId = await getAssignedUserScope(request)
+    if (parsed.data.assigned === 'me' && !assignedUserId) {
+      const user = await getRequestUser(request)
+      // MASTER_PASSWORD e chaves de API não recebem conversas
+      if (!user?.id) {
+        return NextResponse.json({ conversations: [], total: 0, page: parsed.data.page, totalPages: 0 })
+      }
+      assignedUserId = user.id
+    }
+
     const result = await listConversations({
       status: parsed.data.status as ConversationStatus | undefined,
       mode: parsed.data.mode as ConversationMode | undefined,
       labelId: parsed.data.label,
       search: parsed.data.search,
+      assignedUserId,
+      unassigned: parsed.data.assigned === 'unassigned',
+      queueId: parsed.data.queue,
+      sort: parsed.data.sort,
       page: parsed.data.page,
       limit: parsed.data.limit,
     })
@@ -1,12 +1,14 @@
 /**
  * POST /api/inbox/media/upload - Upload media to Meta for sending via WhatsApp
  *
- * Accepts FormData with 'file'. Returns media_id for use in send message.
+ * Accepts FormData with 'file' (and optional 'conversationId', to upload with the
+ * conversation's WhatsApp number). Returns media_id for use in send message.
  * Meta limits: image 5MB, audio 16MB, video 16MB, document 100MB
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
+import { getConversationById } from '@/lib/inbox/inbox-db'
 import { safeJson } from '@/lib/server-http'
 
 const MIME_TO_TYPE: Record<string, 'image' | 'audio' | 'video' | 'document'> = {
@@ -39,7 +41,13 @@ const SIZE_LIMITS: Record<string, number> = {
 
 export async function POST(request: NextRequest) {
   try {
-    const credentials = await getWhatsAppCredentials()
+    const formData = await request.formData()
+    const conversationId = formData.get('conversationId')
+    const conversation = typeof conversationId === 'string' && conversationId
+      ? await getConversationById(conversationId)
+      : null
+
+    const credentials = await getWhatsAppCredentials(conversation?.phone_number_id)
     if (!credentials?.accessToken || !credentials?.phoneNumberId) {
       return NextResponse.json(
         { error: 'WhatsApp credentials not configured' },
@@ -47,7 +55,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const formData = await request.formData()
     const file = formData.get('file')
     if (!file || !(file instanceof File)) {
       return NextResponse.json(
@@ -0,0 +1,114 @@
+/**
+ * PATCH/DELETE /api/inbox/queues/[id] - Update and delete attendance queues
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { extractErrorMessage } from '@/lib/api-validation'
+import { updateExistingQueue, removeQueue } from '@/lib/inbox/inbox-service'
+import { getQueueById } from '@/lib/inbox/inbox-db'
+import { recordAuditEvent } from '@/lib/audit'
+
+const patchSchema = z.object({
+  name: z.string().trim().min(1).max(60).optional(),
+  strategy: z.enum(['round_robin', 'least_busy']).optional(),
+  member_user_ids: z.array(z.string().min(1)).max(200).optional(),
+  is_default: z.boolean().optional(),
+})
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const parsed = patchSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // Ensure at least one field is being updated
+    if (Object.keys(parsed.data).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      )
+    }
+
+    const before = await getQueueById(id)
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Queue not found' },
+        { status: 404 }
+      )
+    }
+
+    const queue = await updateExistingQueue(id, parsed.data)
+
+    await recordAuditEvent(request, {
+      action: 'inbox_queue.update',
+      entityType: 'inbox_queue',
+      entityId: id,
+      before: {
+        name: before.name,
+        strategy: before.strategy,
+        member_user_ids: before.member_user_ids,
+        is_default: before.is_default,
+      },
+      after: {
+        name: queue.name,
+        strategy: queue.strategy,
+        member_user_ids: queue.member_user_ids,
+        is_default: queue.is_default,
+      },
+    })
+
+    return NextResponse.json(queue)
+  } catch (error) {
+    console.error('[PATCH /api/inbox/queues/[id]]', error)
+
+    // Handle unique constraint violation
+    if (error instanceof Error && error.message.includes('duplicate')) {
+      return NextResponse.json(
+        { error: 'Queue with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+
+    const before = await getQueueById(id)
+    await removeQueue(id)
+
+    await recordAuditEvent(request, {
+      action: 'inbox_queue.delete',
+      entityType: 'inbox_queue',
+      entityId: id,
+      metadata: { name: before?.name ?? null },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[DELETE /api/inbox/queues/[id]]', error)
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * GET/POST /api/inbox/queues - List and create attendance queues
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { extractErrorMessage } from '@/lib/api-validation'
+import { listQueues, createNewQueue } from '@/lib/inbox/inbox-service'
+import { recordAuditEvent } from '@/lib/audit'
+
+const postSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  strategy: z.enum(['round_robin', 'least_busy']).default('round_robin'),
+  member_user_ids: z.array(z.string().min(1)).max(200).default([]),
+  is_default: z.boolean().default(false),
+})
+
+export async function GET() {
+  try {
+    const queues = await listQueues()
+    return NextResponse.json(queues)
+  } catch (error) {
+    console.error('[GET /api/inbox/queues]', error)
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const parsed = postSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const queue = await createNewQueue(parsed.data)
+
+    await recordAuditEvent(request, {
+      action: 'inbox_queue.create',
+      entityType: 'inbox_queue',
+      entityId: queue.id,
+      after: parsed.data,
+    })
+
+    return NextResponse.json(queue, { status: 201 })
+  } catch (error) {
+    console.error('[POST /api/inbox/queues]', error)
+
+    // Handle unique constraint violation
+    if (error instanceof Error && error.message.includes('duplicate')) {
+      return NextResponse.json(
+        { error: 'Queue with this name already exists' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * GET /api/inbox/search - Full-text search over the inbox history
+ * Mensagens, transcrições/texto de mídias, resumos de handoff e contatos.
+ * Também usada por ferramentas externas (chave de API do workspace).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { extractErrorMessage } from '@/lib/api-validation'
+import { searchConversations } from '@/lib/inbox/inbox-service'
+import { getAssignedUserScope } from '@/lib/inbox/inbox-access'
+import { INBOX_SEARCH_MAX_RESULTS, INBOX_SEARCH_MIN_CHARS } from '@/lib/business/inbox'
+
+const querySchema = z.object({
+  q: z.string().trim().min(INBOX_SEARCH_MIN_CHARS).max(200),
+  limit: z.coerce.number().int().positive().max(INBOX_SEARCH_MAX_RESULTS).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const parsed = querySchema.safeParse({
+      q: searchParams.get('q') ?? '',
+      limit: searchParams.get('limit') || 20,
+      offset: searchParams.get('offset') || 0,
+    })
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await searchConversations({
+      query: parsed.data.q,
+      limit: parsed.data.limit,
+      offset: parsed.data.offset,
+      assignedUserId: await getAssignedUserScope(request),
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[GET /api/inbox/search]', error)
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
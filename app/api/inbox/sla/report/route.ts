@@ -0,0 +1,54 @@
+/**
+ * GET /api/inbox/sla/report - SLA metrics per attendant and per label
+ * Query: from, to (ISO; default: últimos 30 dias)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { extractErrorMessage } from '@/lib/api-validation'
+import { getSlaReport } from '@/lib/inbox/inbox-sla'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+const DEFAULT_PERIOD_DAYS = 30
+
+const querySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const parsed = querySchema.safeParse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    })
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const to = parsed.data.to ?? new Date().toISOString()
+    const from = parsed.data.from
+      ?? new Date(new Date(to).getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    if (new Date(from) > new Date(to)) {
+      return NextResponse.json({ error: 'Período inválido: início depois do fim' }, { status: 400 })
+    }
+
+    const report = await getSlaReport(from, to)
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('[GET /api/inbox/sla/report]', error)
+    return NextResponse.json(
+      { error: extractErrorMessage(error, 'Internal server error') },
+      { status: 500 }
+    )
+  }
+}
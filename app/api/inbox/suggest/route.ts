@@ -4,6 +4,7 @@
  * Used by the AI Co-pilot feature in the inbox
  */
 
+import { NextRequest } from 'next/server'
 import { streamText, tool } from 'ai'
 import { z } from 'zod'
 import { extractErrorMessage } from '@/lib/api-validation'
@@ -11,6 +12,8 @@ import { createClient } from '@/lib/supabase-server'
 import { createLanguageModel, getProviderFromModel } from '@/lib/ai/provider-factory'
 import { DEFAULT_MODEL_ID } from '@/lib/ai/model'
 import { inboxDb } from '@/lib/inbox/inbox-db'
+import { requireConversationAccess } from '@/lib/inbox/inbox-access'
+import { formatMessageForAI } from '@/lib/business/inbox'
 import type { AIAgent, InboxConversation } from '@/types'
 
 // Allow up to 30 seconds for AI generation
@@ -118,7 +121,7 @@ IMPORTANTE: Use a ferramenta "suggest" para enviar sua sugestão.`
 // POST Handler
 // =============================================================================
 
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
     const parsed = requestSchema.safeParse(body)
@@ -132,6 +135,9 @@ export async function POST(req: Request) {
 
     const { conversationId } = parsed.data
 
+    const denied = await requireConversationAccess(req, conversationId)
+    if (denied) return denied
+
     // Get conversation with messages
     const conversation = await inboxDb.getConversation(conversationId)
     if (!conversation) {
@@ -159,12 +165,12 @@ export async function POST(req: Request) {
     // Get recent messages for context
     const { messages } = await inboxDb.listMessages(conversationId, { limit: 10 })
 
-    // Convert messages to AI format
+    // Convert messages to AI format (localização, contatos e reações em texto)
     const aiMessages = messages
       .filter((m) => m.message_type !== 'internal_note')
       .map((m) => ({
         role: (m.direction === 'inbound' ? 'user' : 'assistant') as 'user' | 'assistant',
-        content: m.content,
+        content: formatMessageForAI(m, messages),
       }))
 
     // Create AI model using provider factory (supports Google, OpenAI, Anthropic)
@@ -3,24 +3,29 @@ import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
 import { normalizeSubscribedFields, type MetaSubscribedApp } from '@/lib/meta-webhook-subscription'
 import { fetchWithTimeout, safeJson } from '@/lib/server-http'
 import { getVerifyToken } from '@/lib/verify-token'
+import { DEFAULT_WORKSPACE_ID, getCurrentWorkspaceId } from '@/lib/workspace-context'
 
 const META_API_VERSION = 'v24.0'
 const META_API_BASE = `https://graph.facebook.com/${META_API_VERSION}`
 
 /**
  * Computa a URL do webhook do SmartZap baseado no ambiente
+ * (workspaces adicionais recebem `?workspace=` para rotear os eventos)
  */
-function computeWebhookUrl(): string {
+async function computeWebhookUrl(): Promise<string> {
   const vercelEnv = process.env.VERCEL_ENV || null
 
+  let url = 'http://localhost:3000/api/webhook'
   if (vercelEnv === 'production' && process.env.VERCEL_PROJECT_PRODUCTION_URL) {
-    return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL.trim()}/api/webhook`
+    url = `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL.trim()}/api/webhook`
   } else if (process.env.VERCEL_URL) {
-    return `https://${process.env.VERCEL_URL.trim()}/api/webhook`
+    url = `https://${process.env.VERCEL_URL.trim()}/api/webhook`
   } else if (process.env.NEXT_PUBLIC_APP_URL) {
-    return `${process.env.NEXT_PUBLIC_APP_URL.trim()}/api/webhook`
+    url = `${process.env.NEXT_PUBLIC_APP_URL.trim()}/api/webhook`
   }
-  return 'http://localhost:3000/api/webhook'
+
+  const workspaceId = await getCurrentWorkspaceId()
+  return workspaceId === DEFAULT_WORKSPACE_ID ? url : `${url}?workspace=${workspaceId}`
 }
 
 /**
@@ -146,7 +151,7 @@ export async function GET() {
     }
   }
 
-  const smartzapWebhookUrl = computeWebhookUrl()
+  const smartzapWebhookUrl = await computeWebhookUrl()
   const isWabaOverrideSmartZap = hierarchy?.wabaOverride
     ? hierarchy.wabaOverride.includes('/api/webhook')
     : false
@@ -196,7 +201,7 @@ export async function POST(request: Request) {
 
   // Se não forneceu callbackUrl, usa a URL do SmartZap
   if (!callbackUrl) {
-    callbackUrl = computeWebhookUrl()
+    callbackUrl = await computeWebhookUrl()
   }
 
   // Validação: localhost não funciona com a Meta (ela precisa acessar a URL publicamente)
@@ -3,6 +3,10 @@ import { leadFormDb, contactDb } from '@/lib/supabase-db'
 import { SubmitLeadFormSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
 import { processPhoneNumber } from '@/lib/phone-formatter'
 import { ContactStatus } from '@/types'
+import type { LeadForm } from '@/types'
+import { DEFAULT_WORKSPACE_ID, runWithWorkspace } from '@/lib/workspace-context'
+import { emitWebhookEvent } from '@/lib/outbound-webhooks'
+import { queueCrmContactSync } from '@/lib/crm/crm-sync'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
@@ -22,9 +26,15 @@ function corsHeaders() {
  * Submete dados do formulário e cria/atualiza contato com a tag do formulário
  */
 export async function POST(request: Request, { params }: Params) {
+  const { slug } = await params
+  const form = await leadFormDb.getBySlug(slug).catch(() => undefined)
+
+  // Contato é criado no workspace dono do formulário
+  return runWithWorkspace(form?.workspaceId ?? DEFAULT_WORKSPACE_ID, () => submitLeadForm(request, form))
+}
+
+async function submitLeadForm(request: Request, form: LeadForm | undefined) {
   try {
-    const { slug } = await params
-    const form = await leadFormDb.getBySlug(slug)
 
     if (!form) {
       return NextResponse.json(
@@ -125,6 +135,7 @@ export async function POST(request: Request, { params }: Params) {
       normalizedCustomFields[key] = String(raw)
     }
 
+    const existing = await contactDb.getByPhone(normalized)
     const createdOrUpdated = await contactDb.upsertMergeTagsByPhone(
       {
         name,
@@ -137,6 +148,36 @@ export async function POST(request: Request, { params }: Params) {
       [form.tag]
     )
 
+    // Sinal de engajamento (score/estágio são recalculados pelo job diário)
+    await contactDb.markLeadCapture(createdOrUpdated.id).catch((e) => {
+      console.warn('[LeadForm] Falha ao registrar captação (best-effort):', e)
+    })
+
+    if (!existing) {
+      await emitWebhookEvent('contact.created', {
+        contact_id: createdOrUpdated.id,
+        name: createdOrUpdated.name || null,
+        phone: createdOrUpdated.phone,
+        email: createdOrUpdated.email ?? null,
+        tags: createdOrUpdated.tags || [],
+        source: 'lead_form',
+      })
+    }
+    await queueCrmContactSync({ contactId: createdOrUpdated.id, reason: existing ? 'updated' : 'created' })
+
+    await emitWebhookEvent('lead_form.submitted', {
+      form_id: form.id,
+      form_name: form.name,
+      form_slug: form.slug,
+      tag: form.tag,
+      contact_id: createdOrUpdated.id,
+      is_new_contact: !existing,
+      name,
+      phone: normalized,
+      email: email ?? null,
+      custom_fields: normalizedCustomFields,
+    })
+
     return NextResponse.json(
       {
         success: true,
@@ -1,12 +1,14 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
+import { getRequestUser } from '@/lib/request-auth'
 
 /**
  * POST /api/push/subscribe
  *
  * Salva uma nova subscription de push no banco
+ * (vinculada ao usuário da sessão, para avisos de conversas atribuídas)
  */
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const subscription = await request.json()
 
@@ -15,6 +17,7 @@ export async function POST(request: Request) {
     }
 
     const supabase = await createClient()
+    const user = await getRequestUser(request)
 
     // Upsert: atualiza se já existir, insere se não
     const { error } = await supabase.from('push_subscriptions').upsert(
@@ -22,6 +25,7 @@ export async function POST(request: Request) {
         endpoint: subscription.endpoint,
         keys: subscription.keys,
         user_agent: request.headers.get('user-agent'),
+        user_id: user?.id ?? null,
         last_used_at: new Date().toISOString(),
       },
       {
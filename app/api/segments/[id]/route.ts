@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { segmentDb } from '@/lib/supabase-db'
+import { UpdateSegmentSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/segments/[id]
+ * Retorna um segmento salvo
+ */
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const segment = await segmentDb.getById(id)
+    if (!segment) {
+      return NextResponse.json({ error: 'Segmento não encontrado' }, { status: 404 })
+    }
+    return NextResponse.json(segment)
+  } catch (error: any) {
+    console.error('Failed to fetch segment:', error)
+    return NextResponse.json(
+      { error: 'Falha ao buscar segmento', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/segments/[id]
+ * Atualiza nome, descrição ou regras do segmento
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = validateBody(UpdateSegmentSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const updated = await segmentDb.update(id, validation.data)
+    if (!updated) {
+      return NextResponse.json({ error: 'Segmento não encontrado' }, { status: 404 })
+    }
+
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    console.error('Failed to update segment:', error)
+    return NextResponse.json(
+      { error: 'Falha ao atualizar segmento', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/segments/[id]
+ * Remove um segmento salvo (campanhas já criadas não são afetadas)
+ */
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    await segmentDb.delete(id)
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to delete segment:', error)
+    return NextResponse.json(
+      { error: 'Falha ao deletar segmento', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
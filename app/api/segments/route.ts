@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { segmentDb } from '@/lib/supabase-db'
+import { CreateSegmentSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/segments
+ * Lista segmentos de contatos salvos
+ */
+export async function GET() {
+  try {
+    const segments = await segmentDb.getAll()
+    return NextResponse.json(segments, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+        Pragma: 'no-cache',
+        Expires: '0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch segments:', error)
+    return NextResponse.json({ error: 'Falha ao buscar segmentos' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/segments
+ * Salva um segmento reutilizável
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    const validation = validateBody(CreateSegmentSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const created = await segmentDb.create(validation.data)
+    return NextResponse.json(created, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to create segment:', error)
+    return NextResponse.json(
+      { error: 'Falha ao salvar segmento', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
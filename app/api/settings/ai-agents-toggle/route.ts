@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 const SETTING_KEY = 'ai_agents_global_enabled'
 
@@ -66,6 +67,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const auditBefore = await snapshotSettings([SETTING_KEY])
+
     const { error } = await adminClient
       .from('settings')
       .upsert({
@@ -79,6 +82,8 @@ export async function POST(request: NextRequest) {
       throw error
     }
 
+    await recordSettingsChange(request, 'ai-agents-toggle', [SETTING_KEY], auditBefore)
+
     return NextResponse.json({
       success: true,
       enabled,
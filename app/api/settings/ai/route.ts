@@ -8,6 +8,7 @@ import { clearSettingsCache } from '@/lib/ai'
 import { DEFAULT_AI_FALLBACK, DEFAULT_AI_GATEWAY, DEFAULT_AI_PROMPTS, DEFAULT_AI_ROUTES } from '@/lib/ai/ai-center-defaults'
 import { DEFAULT_MODEL_ID } from '@/lib/ai/model'
 import { DEFAULT_OCR_MODEL } from '@/lib/ai/ocr/providers/gemini'
+import { DEFAULT_TRANSCRIPTION_MODEL } from '@/lib/ai/transcription/providers/gemini'
 import {
   clearAiCenterCache,
   getAiFallbackConfig,
@@ -20,6 +21,7 @@ import {
   prepareAiRoutesUpdate,
 } from '@/lib/ai/ai-center-config'
 import { extractErrorMessage } from '@/lib/api-validation'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 /**
  * Validation result with support for warnings (valid but with issues)
@@ -163,6 +165,9 @@ export async function GET() {
                 'ai_prompts',
                 'ocr_provider',
                 'ocr_gemini_model',
+                'transcription_provider',
+                'transcription_gemini_model',
+                'inbox_media_analysis_enabled',
                 // Prompts de estratégia (chaves individuais - fonte única: banco)
                 'strategyMarketing',
                 'strategyUtility',
@@ -229,6 +234,11 @@ export async function GET() {
         const ocrProvider = (settingsMap.get('ocr_provider') as 'gemini' | 'mistral') || 'gemini'
         const ocrGeminiModel = settingsMap.get('ocr_gemini_model') || DEFAULT_OCR_MODEL
 
+        // Transcrição de áudios e análise de mídias do inbox
+        const transcriptionProvider = (settingsMap.get('transcription_provider') as 'gemini' | 'openai') || 'gemini'
+        const transcriptionGeminiModel = settingsMap.get('transcription_gemini_model') || DEFAULT_TRANSCRIPTION_MODEL
+        const mediaAnalysisEnabled = settingsMap.get('inbox_media_analysis_enabled') !== 'false'
+
         return NextResponse.json({
             // Saved configuration
             provider: savedProvider,
@@ -269,6 +279,12 @@ export async function GET() {
                     tokenPreview: mistralKey ? getPreview(mistralKey) : null,
                 },
             },
+            // Inbox media: transcription + image/document analysis
+            transcription: {
+                provider: transcriptionProvider,
+                geminiModel: transcriptionGeminiModel,
+                mediaAnalysisEnabled,
+            },
         })
     } catch (error) {
         console.error('Error fetching AI settings:', error)
@@ -295,10 +311,17 @@ export async function POST(request: NextRequest) {
             ocr_provider,
             ocr_gemini_model,
             mistral_api_key,
+            // Transcription / inbox media fields
+            transcription_provider,
+            transcription_gemini_model,
+            media_analysis_enabled,
         } = body
 
+        const hasTranscriptionFields =
+            !!transcription_provider || !!transcription_gemini_model || typeof media_analysis_enabled === 'boolean'
+
         // At least one field must be provided
-        if (!apiKey && !provider && !model && !routes && !fallback && !gateway && !prompts && !ocr_provider && !ocr_gemini_model && !mistral_api_key) {
+        if (!apiKey && !provider && !model && !routes && !fallback && !gateway && !prompts && !ocr_provider && !ocr_gemini_model && !mistral_api_key && !hasTranscriptionFields) {
             return NextResponse.json(
                 { error: 'At least one field is required' },
                 { status: 400 }
@@ -429,6 +452,21 @@ export async function POST(request: NextRequest) {
             updates.push({ key: 'ocr_gemini_model', value: ocr_gemini_model, updated_at: now })
         }
 
+        // Transcription: Save provider selection
+        if (transcription_provider && ['gemini', 'openai'].includes(transcription_provider)) {
+            updates.push({ key: 'transcription_provider', value: transcription_provider, updated_at: now })
+        }
+
+        // Transcription: Save Gemini model
+        if (transcription_gemini_model) {
+            updates.push({ key: 'transcription_gemini_model', value: transcription_gemini_model, updated_at: now })
+        }
+
+        // Inbox media analysis on/off
+        if (typeof media_analysis_enabled === 'boolean') {
+            updates.push({ key: 'inbox_media_analysis_enabled', value: String(media_analysis_enabled), updated_at: now })
+        }
+
         // OCR: Validate and save Mistral API key
         if (mistral_api_key) {
             const validationResult = await validateMistralApiKey(mistral_api_key)
@@ -443,6 +481,9 @@ export async function POST(request: NextRequest) {
 
         // Upsert all updates
         if (updates.length > 0) {
+            const auditKeys = updates.map(u => u.key)
+            const auditBefore = await snapshotSettings(auditKeys)
+
             const { error } = await supabase.admin
                 ?.from('settings')
                 .upsert(updates) || { error: new Error('Supabase not configured') }
@@ -451,6 +492,8 @@ export async function POST(request: NextRequest) {
                 console.error('Supabase error:', error)
                 throw new Error('Failed to save to database')
             }
+
+            await recordSettingsChange(request, 'ai', auditKeys, auditBefore)
         }
 
         clearSettingsCache()
@@ -492,6 +535,8 @@ export async function DELETE(request: NextRequest) {
 
         const keyName = keyMap[provider]
 
+        const auditBefore = await snapshotSettings([keyName])
+
         // Delete the key from database
         const { error } = await supabase.admin
             ?.from('settings')
@@ -504,6 +549,7 @@ export async function DELETE(request: NextRequest) {
         }
 
         clearSettingsCache()
+        await recordSettingsChange(request, 'ai', [keyName], auditBefore)
 
         return NextResponse.json({
             success: true,
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { isSupabaseConfigured, supabase } from '@/lib/supabase'
 import { checkBookingPrerequisites } from '@/lib/ai/tools/booking-tool'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 const BOOKING_FLOW_ID_KEY = 'booking_flow_id'
 
@@ -83,6 +84,7 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json().catch(() => ({}))
     const { flowId } = body
+    const auditBefore = await snapshotSettings([BOOKING_FLOW_ID_KEY])
 
     // Validate flowId
     if (flowId !== null && flowId !== undefined) {
@@ -116,6 +118,7 @@ export async function POST(request: NextRequest) {
 
       // Save flow ID
       await settingsDb.set(BOOKING_FLOW_ID_KEY, flowId.trim())
+      await recordSettingsChange(request, 'booking', [BOOKING_FLOW_ID_KEY], auditBefore)
 
       return NextResponse.json({
         ok: true,
@@ -135,6 +138,8 @@ export async function POST(request: NextRequest) {
 
     if (deleteError) {
       console.error('[booking settings] Delete error:', deleteError)
+    } else {
+      await recordSettingsChange(request, 'booking', [BOOKING_FLOW_ID_KEY], auditBefore)
     }
 
     return NextResponse.json({
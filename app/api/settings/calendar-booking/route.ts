@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { isSupabaseConfigured } from '@/lib/supabase'
 import { clampInt, boolFromUnknown } from '@/lib/validation-utils'
+import { recordAuditEvent } from '@/lib/audit'
 
 const CONFIG_KEY = 'calendar_booking_config'
 
@@ -173,6 +174,13 @@ export async function POST(request: NextRequest) {
     })
 
     await settingsDb.set(CONFIG_KEY, JSON.stringify(next))
+    await recordAuditEvent(request, {
+      action: 'settings.update',
+      entityType: 'settings',
+      entityId: 'calendar-booking',
+      before: current.config,
+      after: next,
+    })
 
     return NextResponse.json({ ok: true, config: next })
   } catch (error) {
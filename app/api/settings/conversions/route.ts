@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { DEFAULT_ATTRIBUTION_CONFIG, validateAttributionConfig } from '@/lib/business/conversions'
+import { getAttributionConfigWithSource, parseAttributionConfig, saveAttributionConfig } from '@/lib/conversions'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function GET() {
+  try {
+    const { config, source } = await getAttributionConfigWithSource()
+    return NextResponse.json({ ok: true, source, config })
+  } catch (error) {
+    console.error('Error fetching conversion attribution config:', error)
+    // Evita 500 para não quebrar telas que consultam config.
+    return NextResponse.json({ ok: true, source: 'default', config: DEFAULT_ATTRIBUTION_CONFIG, warning: 'Falha ao carregar config; usando default.' })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ ok: false, error: 'Supabase não configurado. Complete o setup antes de salvar.' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    const current = await getAttributionConfigWithSource()
+
+    // Valida antes do merge para não mascarar entrada inválida com o valor atual
+    if (body.windowDays !== undefined) {
+      const validation = validateAttributionConfig({ windowDays: Number(body.windowDays) })
+      if (!validation.valid) {
+        return NextResponse.json({ ok: false, error: validation.reason }, { status: 400 })
+      }
+    }
+
+    const next = parseAttributionConfig(body, current.config)
+
+    await saveAttributionConfig(next)
+    await recordAuditEvent(request, {
+      action: 'settings.update',
+      entityType: 'settings',
+      entityId: 'conversions',
+      before: current.config,
+      after: next,
+    })
+
+    return NextResponse.json({ ok: true, config: next })
+  } catch (error) {
+    console.error('Error saving conversion attribution config:', error)
+    return NextResponse.json({ ok: false, error: 'Failed to save config' }, { status: 502 })
+  }
+}
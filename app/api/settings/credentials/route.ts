@@ -2,10 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { isSupabaseConfigured } from '@/lib/supabase'
 import { fetchWithTimeout, safeJson, isAbortError } from '@/lib/server-http'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
+const CREDENTIAL_KEYS = ['phoneNumberId', 'businessAccountId', 'accessToken', 'isConnected', 'metaAppId', 'metaAppSecret']
+
 // Credenciais armazenadas apenas no Supabase settings table
 // Configuradas via UI no onboarding pós-instalação
 
@@ -128,12 +131,14 @@ export async function POST(request: NextRequest) {
     const phoneData = await safeJson<any>(testResponse)
 
     // Save to Database (Persist across refreshes)
+    const auditBefore = await snapshotSettings(CREDENTIAL_KEYS)
     await settingsDb.saveAll({
       phoneNumberId,
       businessAccountId,
       accessToken,
       isConnected: true
     })
+    await recordSettingsChange(request, 'credentials', CREDENTIAL_KEYS, auditBefore)
 
     return NextResponse.json({
       success: true,
@@ -154,8 +159,10 @@ export async function POST(request: NextRequest) {
 }
 
 // DELETE - Clear credentials from DB
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   try {
+    const auditBefore = await snapshotSettings(CREDENTIAL_KEYS)
+
     // Remove credenciais principais
     await settingsDb.saveAll({
       phoneNumberId: '',
@@ -170,6 +177,8 @@ export async function DELETE() {
       settingsDb.set('metaAppSecret', ''),
     ])
 
+    await recordSettingsChange(request, 'credentials', CREDENTIAL_KEYS, auditBefore)
+
     return NextResponse.json({
       success: true,
       message: 'Credentials removed from database.'
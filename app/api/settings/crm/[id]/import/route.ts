@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { crmConnectorDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { CRM_PROVIDERS } from '@/lib/business/crm'
+import { importCrmContacts } from '@/lib/crm/crm-sync'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+export const maxDuration = 60
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/settings/crm/[id]/import
+ * Importa os contatos alterados no CRM desde a última importação
+ * (também pode ser chamado por um cron externo com a API key)
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const connector = await crmConnectorDb.getById(id)
+    if (!connector) {
+      return NextResponse.json({ error: 'Conector não encontrado' }, { status: 404 })
+    }
+    if (!connector.isActive || !connector.importContacts) {
+      return NextResponse.json({ error: 'Importação desativada neste conector' }, { status: 400 })
+    }
+    if (!CRM_PROVIDERS[connector.provider].supportsImport) {
+      return NextResponse.json(
+        { error: `${CRM_PROVIDERS[connector.provider].label} não permite importação; use o webhook de entrada` },
+        { status: 400 }
+      )
+    }
+
+    const log = await importCrmContacts(connector)
+
+    await recordAuditEvent(request, {
+      action: 'crm.import',
+      entityType: 'crm_connector',
+      entityId: id,
+      metadata: { logId: log.id, status: log.status, summary: log.summary, error: log.error },
+    })
+
+    return NextResponse.json(log, { status: log.status === 'failed' ? 502 : 200 })
+  } catch (error: any) {
+    console.error('Failed to import CRM contacts:', error)
+    return NextResponse.json(
+      { error: 'Falha ao importar contatos', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { crmConnectorDb } from '@/lib/supabase-db'
+import { UpdateCrmConnectorSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { validateWebhookEndpointUrl } from '@/lib/business/webhooks'
+import { clearCrmConnectorCache, generateCrmInboundToken, serializeCrmConnector } from '@/lib/crm/crm-sync'
+import { recordAuditEvent } from '@/lib/audit'
+import type { CrmConnector } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+const auditSnapshot = (connector: CrmConnector) => ({
+  name: connector.name,
+  baseUrl: connector.baseUrl,
+  fieldMappings: connector.fieldMappings,
+  listMappings: connector.listMappings,
+  optOutField: connector.optOutField,
+  eventTypes: connector.eventTypes,
+  syncContacts: connector.syncContacts,
+  importContacts: connector.importContacts,
+  isActive: connector.isActive,
+})
+
+/**
+ * PATCH /api/settings/crm/[id]
+ * Altera token, mapeamentos, eventos ou status; `rotateInboundToken` gera nova URL de entrada
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = validateBody(UpdateCrmConnectorSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const { rotateInboundToken, baseUrl, optOutField, ...changes } = validation.data
+    if (baseUrl) {
+      const urlError = validateWebhookEndpointUrl(baseUrl)
+      if (urlError) return NextResponse.json({ error: urlError }, { status: 400 })
+    }
+
+    const current = await crmConnectorDb.getById(id)
+    if (!current) {
+      return NextResponse.json({ error: 'Conector não encontrado' }, { status: 404 })
+    }
+
+    const updated = await crmConnectorDb.update(id, {
+      ...changes,
+      ...(baseUrl !== undefined ? { baseUrl: baseUrl || null } : {}),
+      ...(optOutField !== undefined ? { optOutField: optOutField || null } : {}),
+      ...(changes.eventTypes ? { eventTypes: Array.from(new Set(changes.eventTypes)) } : {}),
+      ...(rotateInboundToken ? { inboundToken: generateCrmInboundToken() } : {}),
+    })
+    clearCrmConnectorCache()
+
+    await recordAuditEvent(request, {
+      action: 'crm.update',
+      entityType: 'crm_connector',
+      entityId: id,
+      before: auditSnapshot(current),
+      after: updated ? auditSnapshot(updated) : null,
+      metadata: {
+        ...(changes.apiToken ? { apiTokenChanged: true } : {}),
+        ...(rotateInboundToken ? { inboundTokenRotated: true } : {}),
+      },
+    })
+
+    return NextResponse.json(updated ? serializeCrmConnector(updated) : null)
+  } catch (error: any) {
+    console.error('Failed to update CRM connector:', error)
+    return NextResponse.json(
+      { error: 'Falha ao atualizar conector', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/settings/crm/[id]
+ * Remove o conector, os vínculos de contato e o log de sincronização dele
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const current = await crmConnectorDb.getById(id)
+    if (!current) {
+      return NextResponse.json({ error: 'Conector não encontrado' }, { status: 404 })
+    }
+
+    await crmConnectorDb.delete(id)
+    clearCrmConnectorCache()
+
+    await recordAuditEvent(request, {
+      action: 'crm.delete',
+      entityType: 'crm_connector',
+      entityId: id,
+      before: { provider: current.provider, name: current.name },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to delete CRM connector:', error)
+    return NextResponse.json(
+      { error: 'Falha ao remover conector', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { crmConnectorDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { createCrmAdapter } from '@/lib/crm/crm-providers'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/settings/crm/[id]/test
+ * Confere token e URL chamando a API do CRM
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  const { id } = await params
+  const connector = await crmConnectorDb.getById(id)
+  if (!connector) {
+    return NextResponse.json({ error: 'Conector não encontrado' }, { status: 404 })
+  }
+
+  try {
+    await createCrmAdapter(connector).testConnection()
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    return NextResponse.json({
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
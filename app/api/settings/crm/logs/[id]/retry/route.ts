@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { retryCrmSyncLog } from '@/lib/crm/crm-sync'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/settings/crm/logs/[id]/retry
+ * Reenvia um contato/evento para o CRM (nova linha no log)
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const log = await retryCrmSyncLog(id)
+    if (!log) {
+      return NextResponse.json({ error: 'Sincronização não encontrada' }, { status: 404 })
+    }
+
+    await recordAuditEvent(request, {
+      action: 'crm.retry',
+      entityType: 'crm_connector',
+      entityId: log.connectorId,
+      metadata: { logId: id, newLogId: log.id, kind: log.kind, eventType: log.eventType },
+    })
+
+    return NextResponse.json(log, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to retry CRM sync:', error)
+    return NextResponse.json(
+      { error: 'Falha ao reenviar', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { crmSyncLogDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { parseCrmSyncLogFilters } from '@/lib/crm/crm-sync'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/settings/crm/logs
+ * Log de sincronização (filtros: connectorId, direction, status, limit, offset)
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const filters = parseCrmSyncLogFilters(request.nextUrl.searchParams)
+    const result = await crmSyncLogDb.list(filters)
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch CRM sync logs:', error)
+    return NextResponse.json({ error: 'Falha ao buscar log de sincronização' }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { crmConnectorDb } from '@/lib/supabase-db'
+import { CreateCrmConnectorSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { DEFAULT_CRM_FIELD_MAPPINGS } from '@/lib/business/crm'
+import { validateWebhookEndpointUrl } from '@/lib/business/webhooks'
+import { clearCrmConnectorCache, generateCrmInboundToken, serializeCrmConnector } from '@/lib/crm/crm-sync'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/settings/crm
+ * Lista os conectores de CRM do workspace (tokens mascarados)
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const connectors = await crmConnectorDb.getAll()
+    return NextResponse.json(connectors.map(serializeCrmConnector), {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch CRM connectors:', error)
+    return NextResponse.json({ error: 'Falha ao buscar conectores' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/settings/crm
+ * Cadastra um conector (sem mapeamento informado, usa o padrão do provedor)
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const body = await request.json()
+
+    const validation = validateBody(CreateCrmConnectorSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const data = validation.data
+    const urlError = data.baseUrl ? validateWebhookEndpointUrl(data.baseUrl) : null
+    if (urlError) {
+      return NextResponse.json({ error: urlError }, { status: 400 })
+    }
+
+    const connector = await crmConnectorDb.create({
+      provider: data.provider,
+      name: data.name,
+      apiToken: data.apiToken,
+      baseUrl: data.baseUrl || null,
+      fieldMappings: data.fieldMappings ?? DEFAULT_CRM_FIELD_MAPPINGS[data.provider],
+      listMappings: data.listMappings ?? [],
+      optOutField: data.optOutField || null,
+      eventTypes: Array.from(new Set(data.eventTypes ?? [])),
+      syncContacts: data.syncContacts ?? true,
+      importContacts: data.importContacts ?? false,
+      inboundToken: generateCrmInboundToken(),
+    })
+    clearCrmConnectorCache()
+
+    await recordAuditEvent(request, {
+      action: 'crm.create',
+      entityType: 'crm_connector',
+      entityId: connector.id,
+      after: { provider: connector.provider, name: connector.name, baseUrl: connector.baseUrl, eventTypes: connector.eventTypes },
+    })
+
+    return NextResponse.json(serializeCrmConnector(connector), { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to create CRM connector:', error)
+    return NextResponse.json(
+      { error: 'Falha ao cadastrar conector', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
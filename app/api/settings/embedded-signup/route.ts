@@ -2,9 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { getMetaAppCredentials } from '@/lib/meta-app-credentials'
 import { fetchWithTimeout, safeJson, isAbortError } from '@/lib/server-http'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 export const dynamic = 'force-dynamic'
 
+const CREDENTIAL_KEYS = ['phoneNumberId', 'businessAccountId', 'accessToken', 'isConnected']
+
 /**
  * POST /api/settings/embedded-signup
  *
@@ -124,12 +127,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Etapa 4: Salvar credenciais no banco
+    const auditBefore = await snapshotSettings(CREDENTIAL_KEYS)
     await settingsDb.saveAll({
       phoneNumberId: resolvedPhoneNumberId,
       businessAccountId: resolvedBusinessAccountId,
       accessToken,
       isConnected: true,
     })
+    await recordSettingsChange(request, 'credentials', CREDENTIAL_KEYS, auditBefore)
 
     console.log(
       `[EmbeddedSignup] Conectado com sucesso: WABA=${resolvedBusinessAccountId}, Phone=${resolvedPhoneNumberId}, BizApp=${isOnBizApp}`
@@ -2,9 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { isSupabaseConfigured } from '@/lib/supabase'
 import { settingsDb } from '@/lib/supabase-db'
 import { getGoogleCalendarCredentialsPublic } from '@/lib/google-calendar'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 const CLIENT_ID_KEY = 'googleCalendarClientId'
 const CLIENT_SECRET_KEY = 'googleCalendarClientSecret'
+const AUDIT_KEYS = [CLIENT_ID_KEY, CLIENT_SECRET_KEY]
 
 export async function GET() {
   try {
@@ -30,8 +32,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Client ID e Client Secret sao obrigatorios' }, { status: 400 })
     }
 
+    const auditBefore = await snapshotSettings(AUDIT_KEYS)
     await settingsDb.set(CLIENT_ID_KEY, clientId)
     await settingsDb.set(CLIENT_SECRET_KEY, clientSecret)
+    await recordSettingsChange(request, 'google-calendar', AUDIT_KEYS, auditBefore)
 
     return NextResponse.json({ ok: true })
   } catch (error) {
@@ -40,14 +44,16 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   try {
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Supabase nao configurado' }, { status: 400 })
     }
 
+    const auditBefore = await snapshotSettings(AUDIT_KEYS)
     await settingsDb.set(CLIENT_ID_KEY, '')
     await settingsDb.set(CLIENT_SECRET_KEY, '')
+    await recordSettingsChange(request, 'google-calendar', AUDIT_KEYS, auditBefore)
 
     return NextResponse.json({ ok: true })
   } catch (error) {
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { isSupabaseConfigured } from '@/lib/supabase'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 const SETTINGS_KEYS = {
   enabled: 'helicone_enabled',
@@ -89,6 +90,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const auditKeys = Object.values(SETTINGS_KEYS)
+    const auditBefore = await snapshotSettings(auditKeys)
+
     // Processa API key
     if (typeof apiKey === 'string') {
       if (apiKey.trim() === '') {
@@ -107,6 +111,7 @@ export async function POST(request: NextRequest) {
 
     // Salva o status
     await settingsDb.set(SETTINGS_KEYS.enabled, enabled ? 'true' : 'false')
+    await recordSettingsChange(request, 'helicone', auditKeys, auditBefore)
 
     // Busca config atualizada para retornar
     const updatedKey = await settingsDb.get(SETTINGS_KEYS.apiKey)
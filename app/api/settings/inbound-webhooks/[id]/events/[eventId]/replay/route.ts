@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { inboundWebhookDb, inboundWebhookEventDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { processInboundWebhook } from '@/lib/inbound-webhooks'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string; eventId: string }> }
+
+/**
+ * POST /api/settings/inbound-webhooks/[id]/events/[eventId]/replay
+ * Reprocessa um payload guardado com a configuração atual (novo registro no inspetor)
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id, eventId } = await params
+
+    const webhook = await inboundWebhookDb.getById(id)
+    const source = await inboundWebhookEventDb.getById(eventId)
+    if (!webhook || !source || source.webhookId !== id) {
+      return NextResponse.json({ error: 'Payload não encontrado' }, { status: 404 })
+    }
+
+    const event = await processInboundWebhook(webhook, source.payload)
+
+    await recordAuditEvent(request, {
+      action: 'inbound_webhook.replay',
+      entityType: 'inbound_webhook',
+      entityId: id,
+      metadata: { eventId, newEventId: event.id, status: event.status },
+    })
+
+    return NextResponse.json(event, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to replay inbound webhook payload:', error)
+    return NextResponse.json(
+      { error: 'Falha ao reprocessar payload', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
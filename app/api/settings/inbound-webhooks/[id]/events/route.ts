@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { inboundWebhookEventDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { INBOUND_WEBHOOK_EVENTS_KEPT } from '@/lib/business/webhooks'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/settings/inbound-webhooks/[id]/events?limit=20
+ * Últimos payloads recebidos pelo endpoint (inspetor para montar o mapeamento)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const limit = Number(request.nextUrl.searchParams.get('limit') || 20)
+    const safeLimit = Number.isFinite(limit) ? Math.min(Math.max(Math.trunc(limit), 1), INBOUND_WEBHOOK_EVENTS_KEPT) : 20
+
+    const events = await inboundWebhookEventDb.listByWebhook(id, safeLimit)
+    return NextResponse.json(events, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch inbound webhook events:', error)
+    return NextResponse.json({ error: 'Falha ao buscar payloads recebidos' }, { status: 500 })
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { inboundWebhookDb } from '@/lib/supabase-db'
+import { UpdateInboundWebhookSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { normalizeInboundFieldMapping, validateInboundWebhookAction } from '@/lib/business/webhooks'
+import { generateInboundWebhookToken } from '@/lib/inbound-webhooks'
+import { recordAuditEvent } from '@/lib/audit'
+import type { InboundWebhook } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+const auditSnapshot = (webhook: InboundWebhook) => ({
+  name: webhook.name,
+  fieldMapping: webhook.fieldMapping,
+  conditionPath: webhook.conditionPath,
+  conditionValue: webhook.conditionValue,
+  action: webhook.action,
+  tags: webhook.tags,
+  templateName: webhook.templateName,
+  templateVariables: webhook.templateVariables,
+  workflowId: webhook.workflowId,
+  isActive: webhook.isActive,
+})
+
+/**
+ * PATCH /api/settings/inbound-webhooks/[id]
+ * Altera mapeamento, condição, ação ou status; `rotateToken` invalida a URL atual
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = validateBody(UpdateInboundWebhookSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const current = await inboundWebhookDb.getById(id)
+    if (!current) {
+      return NextResponse.json({ error: 'Webhook não encontrado' }, { status: 404 })
+    }
+
+    const { rotateToken, fieldMapping, conditionPath, conditionValue, templateName, workflowId, tags, ...changes } = validation.data
+    const next = {
+      action: changes.action ?? current.action,
+      tags: tags ? Array.from(new Set(tags)) : current.tags,
+      templateName: templateName !== undefined ? templateName || null : current.templateName,
+      workflowId: workflowId !== undefined ? workflowId || null : current.workflowId,
+    }
+    const actionError = validateInboundWebhookAction(next)
+    if (actionError) {
+      return NextResponse.json({ error: actionError }, { status: 400 })
+    }
+
+    const updated = await inboundWebhookDb.update(id, {
+      ...changes,
+      ...next,
+      ...(fieldMapping ? { fieldMapping: normalizeInboundFieldMapping(fieldMapping) } : {}),
+      ...(conditionPath !== undefined ? { conditionPath: conditionPath || null } : {}),
+      ...(conditionValue !== undefined ? { conditionValue: conditionValue || null } : {}),
+      ...(rotateToken ? { token: generateInboundWebhookToken() } : {}),
+    })
+
+    await recordAuditEvent(request, {
+      action: 'inbound_webhook.update',
+      entityType: 'inbound_webhook',
+      entityId: id,
+      before: auditSnapshot(current),
+      after: updated ? auditSnapshot(updated) : null,
+      metadata: rotateToken ? { tokenRotated: true } : undefined,
+    })
+
+    return NextResponse.json(updated ?? null)
+  } catch (error: any) {
+    console.error('Failed to update inbound webhook:', error)
+    return NextResponse.json(
+      { error: 'Falha ao atualizar webhook de entrada', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/settings/inbound-webhooks/[id]
+ * Remove o endpoint e os payloads guardados (a URL deixa de responder)
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const current = await inboundWebhookDb.getById(id)
+    if (!current) {
+      return NextResponse.json({ error: 'Webhook não encontrado' }, { status: 404 })
+    }
+
+    await inboundWebhookDb.delete(id)
+
+    await recordAuditEvent(request, {
+      action: 'inbound_webhook.delete',
+      entityType: 'inbound_webhook',
+      entityId: id,
+      before: { name: current.name, action: current.action },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to delete inbound webhook:', error)
+    return NextResponse.json(
+      { error: 'Falha ao remover webhook de entrada', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { inboundWebhookDb } from '@/lib/supabase-db'
+import { CreateInboundWebhookSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { normalizeInboundFieldMapping, validateInboundWebhookAction } from '@/lib/business/webhooks'
+import { generateInboundWebhookToken } from '@/lib/inbound-webhooks'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/settings/inbound-webhooks
+ * Lista os webhooks de entrada do workspace (com token, para montar a URL)
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const webhooks = await inboundWebhookDb.getAll()
+    return NextResponse.json(webhooks, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch inbound webhooks:', error)
+    return NextResponse.json({ error: 'Falha ao buscar webhooks de entrada' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/settings/inbound-webhooks
+ * Cria um endpoint (token gerado aqui) com mapeamento, condição e ação
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const body = await request.json()
+
+    const validation = validateBody(CreateInboundWebhookSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const data = validation.data
+    const tags = Array.from(new Set(data.tags ?? []))
+    const actionError = validateInboundWebhookAction({ ...data, tags })
+    if (actionError) {
+      return NextResponse.json({ error: actionError }, { status: 400 })
+    }
+
+    const webhook = await inboundWebhookDb.create({
+      name: data.name,
+      token: generateInboundWebhookToken(),
+      fieldMapping: normalizeInboundFieldMapping(data.fieldMapping),
+      conditionPath: data.conditionPath || null,
+      conditionValue: data.conditionValue || null,
+      action: data.action,
+      tags,
+      templateName: data.templateName || null,
+      templateVariables: data.templateVariables ?? {},
+      workflowId: data.workflowId || null,
+    })
+
+    await recordAuditEvent(request, {
+      action: 'inbound_webhook.create',
+      entityType: 'inbound_webhook',
+      entityId: webhook.id,
+      after: { name: webhook.name, action: webhook.action, templateName: webhook.templateName, workflowId: webhook.workflowId },
+    })
+
+    return NextResponse.json(webhook, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to create inbound webhook:', error)
+    return NextResponse.json(
+      { error: 'Falha ao criar webhook de entrada', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { DEFAULT_SLA_CONFIG, validateSlaConfig } from '@/lib/business/inbox'
+import { isValidTimezone } from '@/lib/business/campaign/scheduling'
+import { getSlaConfigWithSource, parseSlaConfig, saveSlaConfig } from '@/lib/inbox/inbox-sla'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function GET() {
+  try {
+    const { config, source } = await getSlaConfigWithSource()
+    return NextResponse.json({ ok: true, source, config })
+  } catch (error) {
+    console.error('Error fetching inbox SLA config:', error)
+    // Evita 500 para não quebrar telas que consultam config.
+    return NextResponse.json({ ok: true, source: 'default', config: DEFAULT_SLA_CONFIG, warning: 'Falha ao carregar config; usando default.' })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ ok: false, error: 'Supabase não configurado. Complete o setup antes de salvar.' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    if (body.timezone !== undefined && !isValidTimezone(String(body.timezone))) {
+      return NextResponse.json({ ok: false, error: `Fuso horário inválido: "${body.timezone}"` }, { status: 400 })
+    }
+
+    const current = await getSlaConfigWithSource()
+    const next = parseSlaConfig(body, current.config)
+
+    const validation = validateSlaConfig(next)
+    if (!validation.valid) {
+      return NextResponse.json({ ok: false, error: validation.errors[0], errors: validation.errors }, { status: 400 })
+    }
+
+    await saveSlaConfig(next)
+    await recordAuditEvent(request, {
+      action: 'settings.update',
+      entityType: 'settings',
+      entityId: 'inbox-sla',
+      before: current.config,
+      after: next,
+    })
+
+    return NextResponse.json({ ok: true, config: next })
+  } catch (error) {
+    console.error('Error saving inbox SLA config:', error)
+    return NextResponse.json({ ok: false, error: 'Failed to save config' }, { status: 502 })
+  }
+}
@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { z } from 'zod'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 const INBOX_RETENTION_KEY = 'inbox_retention_days'
 const HUMAN_MODE_TIMEOUT_KEY = 'inbox_human_mode_timeout_hours'
@@ -54,6 +55,9 @@ export async function PATCH(request: NextRequest) {
 
     const { retention_days, human_mode_timeout_hours } = parsed.data
 
+    const auditKeys = [INBOX_RETENTION_KEY, HUMAN_MODE_TIMEOUT_KEY]
+    const auditBefore = await snapshotSettings(auditKeys)
+
     // Save settings in parallel
     const updates: Promise<void>[] = []
 
@@ -66,6 +70,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     await Promise.all(updates)
+    await recordSettingsChange(request, 'inbox', auditKeys, auditBefore)
 
     // Return updated settings
     const [retentionRaw, timeoutRaw] = await Promise.all([
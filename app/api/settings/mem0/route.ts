@@ -11,6 +11,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { isSupabaseConfigured } from '@/lib/supabase'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -96,6 +97,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const auditKeys = Object.values(SETTINGS_KEYS)
+    const auditBefore = await snapshotSettings(auditKeys)
+
     // Processa API key (Mem0 keys começam com "m0-")
     if (typeof apiKey === 'string') {
       if (apiKey.trim() === '') {
@@ -114,6 +118,7 @@ export async function POST(request: NextRequest) {
 
     // Salva o status
     await settingsDb.set(SETTINGS_KEYS.enabled, enabled ? 'true' : 'false')
+    await recordSettingsChange(request, 'mem0', auditKeys, auditBefore)
 
     // Busca config atualizada para retornar
     const updatedKey = await settingsDb.get(SETTINGS_KEYS.apiKey)
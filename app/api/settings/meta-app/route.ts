@@ -2,10 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { getMetaAppConfigPublic } from '@/lib/meta-app-credentials'
 import { isSupabaseConfigured } from '@/lib/supabase'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
+const META_APP_KEYS = ['metaAppId', 'metaAppSecret']
+
 // GET - Retorna status público (não expõe o secret)
 export async function GET() {
   try {
@@ -48,10 +51,12 @@ export async function POST(request: NextRequest) {
 
     // Para upload (Resumable Upload API), precisamos apenas do App ID.
     // O App Secret é opcional e só é usado em diagnósticos (/debug_token).
+    const auditBefore = await snapshotSettings(META_APP_KEYS)
     await settingsDb.set('metaAppId', appId)
     if (appSecret) {
       await settingsDb.set('metaAppSecret', appSecret)
     }
+    await recordSettingsChange(request, 'meta-app', META_APP_KEYS, auditBefore)
 
     const cfg = await getMetaAppConfigPublic()
     return NextResponse.json({ success: true, ...cfg })
@@ -62,14 +67,16 @@ export async function POST(request: NextRequest) {
 }
 
 // DELETE - Remove do DB (não mexe nas env vars)
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   try {
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Supabase não configurado. Complete o setup antes de remover.' }, { status: 400 })
     }
 
+    const auditBefore = await snapshotSettings(META_APP_KEYS)
     await settingsDb.set('metaAppId', '')
     await settingsDb.set('metaAppSecret', '')
+    await recordSettingsChange(request, 'meta-app', META_APP_KEYS, auditBefore)
 
     const cfg = await getMetaAppConfigPublic()
     return NextResponse.json({ success: true, ...cfg })
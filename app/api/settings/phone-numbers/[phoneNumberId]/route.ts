@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { phoneNumberDb } from '@/lib/supabase-db'
+import { UpdatePhoneNumberSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { recordAuditEvent } from '@/lib/audit'
+import type { WhatsAppPhoneNumber } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ phoneNumberId: string }> }
+
+const auditSnapshot = (number: WhatsAppPhoneNumber) => ({
+  displayPhoneNumber: number.displayPhoneNumber,
+  label: number.label,
+  aiAgentId: number.aiAgentId,
+})
+
+/**
+ * PATCH /api/settings/phone-numbers/[phoneNumberId]
+ * Altera o rótulo ou o agente de IA que atende as conversas do número
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { phoneNumberId } = await params
+    const body = await request.json()
+
+    const validation = validateBody(UpdatePhoneNumberSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const current = await phoneNumberDb.getByPhoneNumberId(phoneNumberId)
+    if (!current) {
+      return NextResponse.json({ error: 'Número não encontrado' }, { status: 404 })
+    }
+
+    const { label, aiAgentId } = validation.data
+    const updated = await phoneNumberDb.update(phoneNumberId, {
+      ...(label !== undefined ? { label: label || null } : {}),
+      ...(aiAgentId !== undefined ? { aiAgentId } : {}),
+    })
+
+    await recordAuditEvent(request, {
+      action: 'phone_number.update',
+      entityType: 'phone_number',
+      entityId: phoneNumberId,
+      before: auditSnapshot(current),
+      after: updated ? auditSnapshot(updated) : null,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    console.error('Failed to update phone number:', error)
+    return NextResponse.json(
+      { error: 'Falha ao atualizar número', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/settings/phone-numbers/[phoneNumberId]
+ * Remove o número do workspace (o principal só muda em Ajustes)
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { phoneNumberId } = await params
+
+    const current = await phoneNumberDb.getByPhoneNumberId(phoneNumberId)
+    if (!current) {
+      return NextResponse.json({ error: 'Número não encontrado' }, { status: 404 })
+    }
+    if (current.isPrimary) {
+      return NextResponse.json(
+        { error: 'O número principal não pode ser removido. Troque o principal em Ajustes.' },
+        { status: 400 }
+      )
+    }
+
+    await phoneNumberDb.delete(phoneNumberId)
+
+    await recordAuditEvent(request, {
+      action: 'phone_number.remove',
+      entityType: 'phone_number',
+      entityId: phoneNumberId,
+      before: auditSnapshot(current),
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to remove phone number:', error)
+    return NextResponse.json(
+      { error: 'Falha ao remover número', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { phoneNumberDb, settingsDb } from '@/lib/supabase-db'
+import { RegisterPhoneNumberSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
+import { fetchWithTimeout, safeJson } from '@/lib/server-http'
+import { sortPhoneNumbers } from '@/lib/business/whatsapp'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/settings/phone-numbers
+ * Números de WhatsApp do workspace (o principal é registrado automaticamente)
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request)
+  if (denied) return denied
+
+  try {
+    let numbers = await phoneNumberDb.getAll()
+
+    const primary = await settingsDb.get('phoneNumberId')
+    if (primary && !numbers.some((number) => number.phoneNumberId === primary)) {
+      await phoneNumberDb.upsert({ phoneNumberId: primary })
+      numbers = await phoneNumberDb.getAll()
+    }
+
+    return NextResponse.json(sortPhoneNumbers(numbers), {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch phone numbers:', error)
+    return NextResponse.json({ error: 'Falha ao buscar números' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/settings/phone-numbers
+ * Registra um número da WABA (dados conferidos na Meta com o token salvo)
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const body = await request.json()
+
+    const validation = validateBody(RegisterPhoneNumberSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const credentials = await getWhatsAppCredentials()
+    if (!credentials) {
+      return NextResponse.json(
+        { error: 'Credenciais não configuradas. Configure em Ajustes.' },
+        { status: 401 }
+      )
+    }
+
+    const { phoneNumberId, label } = validation.data
+    const response = await fetchWithTimeout(
+      `https://graph.facebook.com/v24.0/${encodeURIComponent(phoneNumberId)}?fields=id,display_phone_number,verified_name,quality_rating`,
+      { headers: { Authorization: `Bearer ${credentials.accessToken}` }, timeoutMs: 8000 }
+    )
+    const meta = await safeJson<any>(response)
+    if (!response.ok || !meta?.id) {
+      return NextResponse.json(
+        { error: meta?.error?.message || 'Número não encontrado na conta do WhatsApp' },
+        { status: 400 }
+      )
+    }
+
+    const number = await phoneNumberDb.upsert({
+      phoneNumberId,
+      displayPhoneNumber: meta.display_phone_number ?? null,
+      verifiedName: meta.verified_name ?? null,
+      qualityRating: meta.quality_rating ?? null,
+      ...(label !== undefined ? { label: label || null } : {}),
+    })
+
+    await recordAuditEvent(request, {
+      action: 'phone_number.register',
+      entityType: 'phone_number',
+      entityId: phoneNumberId,
+      after: { displayPhoneNumber: number.displayPhoneNumber, label: number.label },
+    })
+
+    return NextResponse.json(number, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to register phone number:', error)
+    return NextResponse.json(
+      { error: 'Falha ao registrar número', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
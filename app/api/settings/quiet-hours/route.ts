@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { validateQuietHours, DEFAULT_QUIET_HOURS } from '@/lib/business/campaign/send-window'
+import { isValidTimezone } from '@/lib/business/campaign/scheduling'
+import { getQuietHoursConfigWithSource, parseQuietHoursConfig, saveQuietHoursConfig } from '@/lib/quiet-hours'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function GET() {
+  try {
+    const { config, source } = await getQuietHoursConfigWithSource()
+    return NextResponse.json({ ok: true, source, config })
+  } catch (error) {
+    console.error('Error fetching quiet hours config:', error)
+    // Evita 500 para não quebrar telas que consultam config.
+    return NextResponse.json({ ok: true, source: 'default', config: DEFAULT_QUIET_HOURS, warning: 'Falha ao carregar config; usando default.' })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ ok: false, error: 'Supabase não configurado. Complete o setup antes de salvar.' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    const current = await getQuietHoursConfigWithSource()
+
+    // Valida antes do merge para não mascarar entrada inválida com o valor atual
+    const validation = validateQuietHours({
+      start: String(body.start ?? current.config.start),
+      end: String(body.end ?? current.config.end),
+    })
+    if (!validation.valid) {
+      return NextResponse.json({ ok: false, error: validation.reason }, { status: 400 })
+    }
+    if (body.defaultTimezone !== undefined && !isValidTimezone(String(body.defaultTimezone))) {
+      return NextResponse.json({ ok: false, error: `Fuso horário inválido: "${body.defaultTimezone}"` }, { status: 400 })
+    }
+
+    const next = parseQuietHoursConfig(body, current.config)
+
+    await saveQuietHoursConfig(next)
+    await recordAuditEvent(request, {
+      action: 'settings.update',
+      entityType: 'settings',
+      entityId: 'quiet-hours',
+      before: current.config,
+      after: next,
+    })
+
+    return NextResponse.json({ ok: true, config: next })
+  } catch (error) {
+    console.error('Error saving quiet hours config:', error)
+    return NextResponse.json({ ok: false, error: 'Failed to save config' }, { status: 502 })
+  }
+}
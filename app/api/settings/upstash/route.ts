@@ -2,10 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 import { isSupabaseConfigured } from '@/lib/supabase'
 import { fetchWithTimeout } from '@/lib/server-http'
+import { recordSettingsChange, snapshotSettings } from '@/lib/audit'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
+const UPSTASH_KEYS = ['upstashEmail', 'upstashApiKey']
+
 /**
  * Credenciais do Upstash para métricas de uso do QStash.
  * Opcional - se não configurado, o painel de infraestrutura mostra zeros para QStash.
@@ -64,10 +67,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Salvar no banco
+    const auditBefore = await snapshotSettings(UPSTASH_KEYS)
     await Promise.all([
       settingsDb.set('upstashEmail', email),
       settingsDb.set('upstashApiKey', apiKey),
     ])
+    await recordSettingsChange(request, 'upstash', UPSTASH_KEYS, auditBefore)
 
     return NextResponse.json({
       success: true,
@@ -83,12 +88,14 @@ export async function POST(request: NextRequest) {
 }
 
 // DELETE - Remover credenciais
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   try {
+    const auditBefore = await snapshotSettings(UPSTASH_KEYS)
     await Promise.all([
       settingsDb.set('upstashEmail', ''),
       settingsDb.set('upstashApiKey', ''),
     ])
+    await recordSettingsChange(request, 'upstash', UPSTASH_KEYS, auditBefore)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { webhookEndpointDb } from '@/lib/supabase-db'
+import { UpdateWebhookEndpointSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { validateWebhookEndpointUrl } from '@/lib/business/webhooks'
+import { clearWebhookEndpointCache, generateWebhookSecret } from '@/lib/outbound-webhooks'
+import { recordAuditEvent } from '@/lib/audit'
+import type { WebhookEndpoint } from '@/types'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+const auditSnapshot = (endpoint: WebhookEndpoint) => ({
+  name: endpoint.name,
+  url: endpoint.url,
+  eventTypes: endpoint.eventTypes,
+  isActive: endpoint.isActive,
+  secret: endpoint.secret,
+})
+
+/**
+ * PATCH /api/settings/webhooks/[id]
+ * Altera nome, URL, eventos ou status; `rotateSecret` gera um novo segredo
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = validateBody(UpdateWebhookEndpointSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const { rotateSecret, ...changes } = validation.data
+    if (changes.url) {
+      const urlError = validateWebhookEndpointUrl(changes.url)
+      if (urlError) return NextResponse.json({ error: urlError }, { status: 400 })
+    }
+
+    const current = await webhookEndpointDb.getById(id)
+    if (!current) {
+      return NextResponse.json({ error: 'Webhook não encontrado' }, { status: 404 })
+    }
+
+    const updated = await webhookEndpointDb.update(id, {
+      ...changes,
+      ...(changes.eventTypes ? { eventTypes: Array.from(new Set(changes.eventTypes)) } : {}),
+      ...(rotateSecret ? { secret: generateWebhookSecret() } : {}),
+    })
+    clearWebhookEndpointCache()
+
+    await recordAuditEvent(request, {
+      action: 'webhook.update',
+      entityType: 'webhook_endpoint',
+      entityId: id,
+      before: auditSnapshot(current),
+      after: updated ? auditSnapshot(updated) : null,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    console.error('Failed to update webhook endpoint:', error)
+    return NextResponse.json(
+      { error: 'Falha ao atualizar webhook', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/settings/webhooks/[id]
+ * Remove o endpoint e o log de entregas dele
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const current = await webhookEndpointDb.getById(id)
+    if (!current) {
+      return NextResponse.json({ error: 'Webhook não encontrado' }, { status: 404 })
+    }
+
+    await webhookEndpointDb.delete(id)
+    clearWebhookEndpointCache()
+
+    await recordAuditEvent(request, {
+      action: 'webhook.delete',
+      entityType: 'webhook_endpoint',
+      entityId: id,
+      before: { name: current.name, url: current.url, eventTypes: current.eventTypes },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to delete webhook endpoint:', error)
+    return NextResponse.json(
+      { error: 'Falha ao remover webhook', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
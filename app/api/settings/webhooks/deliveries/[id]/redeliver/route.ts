@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { redeliverWebhook } from '@/lib/outbound-webhooks'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/settings/webhooks/deliveries/[id]/redeliver
+ * Reenvia o evento da entrega (nova linha no log, mesmo event_id)
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const delivery = await redeliverWebhook(id)
+    if (!delivery) {
+      return NextResponse.json({ error: 'Entrega não encontrada' }, { status: 404 })
+    }
+
+    await recordAuditEvent(request, {
+      action: 'webhook.redeliver',
+      entityType: 'webhook_endpoint',
+      entityId: delivery.endpointId,
+      metadata: { deliveryId: id, newDeliveryId: delivery.id, eventId: delivery.eventId, eventType: delivery.eventType },
+    })
+
+    return NextResponse.json(delivery, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to redeliver webhook:', error)
+    return NextResponse.json(
+      { error: 'Falha ao reenviar evento', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { webhookDeliveryDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { parseWebhookDeliveryFilters } from '@/lib/outbound-webhooks'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/settings/webhooks/deliveries
+ * Log de entregas (filtros: endpointId, eventType, status, limit, offset)
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const filters = parseWebhookDeliveryFilters(request.nextUrl.searchParams)
+    const result = await webhookDeliveryDb.list(filters)
+    return NextResponse.json(result, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch webhook deliveries:', error)
+    return NextResponse.json({ error: 'Falha ao buscar entregas' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { webhookEndpointDb } from '@/lib/supabase-db'
+import { CreateWebhookEndpointSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { validateWebhookEndpointUrl } from '@/lib/business/webhooks'
+import { clearWebhookEndpointCache, generateWebhookSecret } from '@/lib/outbound-webhooks'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/settings/webhooks
+ * Lista os endpoints de webhooks de saída do workspace
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const endpoints = await webhookEndpointDb.getAll()
+    return NextResponse.json(endpoints, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch webhook endpoints:', error)
+    return NextResponse.json({ error: 'Falha ao buscar webhooks' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/settings/webhooks
+ * Cadastra um endpoint (o segredo de assinatura é gerado aqui)
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'settings:manage')
+  if (denied) return denied
+
+  try {
+    const body = await request.json()
+
+    const validation = validateBody(CreateWebhookEndpointSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const urlError = validateWebhookEndpointUrl(validation.data.url)
+    if (urlError) {
+      return NextResponse.json({ error: urlError }, { status: 400 })
+    }
+
+    const endpoint = await webhookEndpointDb.create({
+      ...validation.data,
+      eventTypes: Array.from(new Set(validation.data.eventTypes)),
+      secret: generateWebhookSecret(),
+    })
+    clearWebhookEndpointCache()
+
+    await recordAuditEvent(request, {
+      action: 'webhook.create',
+      entityType: 'webhook_endpoint',
+      entityId: endpoint.id,
+      after: { name: endpoint.name, url: endpoint.url, eventTypes: endpoint.eventTypes },
+    })
+
+    return NextResponse.json(endpoint, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to create webhook endpoint:', error)
+    return NextResponse.json(
+      { error: 'Falha ao cadastrar webhook', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
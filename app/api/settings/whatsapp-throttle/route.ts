@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
-import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
+import { getWhatsAppCredentials, listWhatsAppPhoneNumberIds } from '@/lib/whatsapp-credentials'
 import { getAdaptiveThrottleState, setAdaptiveThrottleState } from '@/lib/whatsapp-adaptive-throttle'
 import { isSupabaseConfigured } from '@/lib/supabase'
 import { clampInt, boolFromUnknown } from '@/lib/validation-utils'
+import { recordAuditEvent } from '@/lib/audit'
 
 const CONFIG_KEY = 'whatsapp_adaptive_throttle_config'
 
@@ -78,17 +79,24 @@ export async function GET() {
       state = await getAdaptiveThrottleState(phoneNumberId)
     }
 
+    // Estado aprendido por número (cada número tem seu próprio limite de throughput)
+    const phoneNumberIds = await listWhatsAppPhoneNumberIds()
+    const states = await Promise.all(
+      phoneNumberIds.map(async (id) => ({ phoneNumberId: id, state: await getAdaptiveThrottleState(id) }))
+    )
+
     return NextResponse.json({
       ok: true,
       source,
       phoneNumberId,
       config,
       state,
+      states,
     })
   } catch (error) {
     console.error('Error fetching whatsapp throttle config:', error)
     // Evita 500 para não quebrar UX; devolve config do env como fallback.
-    return NextResponse.json({ ok: true, source: 'env', phoneNumberId: null, config: configFromEnv(), state: null, warning: 'Falha ao carregar config; usando env.' })
+    return NextResponse.json({ ok: true, source: 'env', phoneNumberId: null, config: configFromEnv(), state: null, states: [], warning: 'Falha ao carregar config; usando env.' })
   }
 }
 
@@ -123,20 +131,30 @@ export async function POST(request: NextRequest) {
     }
 
     await settingsDb.set(CONFIG_KEY, JSON.stringify(next))
+    await recordAuditEvent(request, {
+      action: 'settings.update',
+      entityType: 'settings',
+      entityId: 'whatsapp-throttle',
+      before: current.config,
+      after: next,
+    })
 
-    // Optional: reset learning state for current phone number
+    // Optional: reset learning state (um número específico ou todos os números)
     if (body.resetState === true) {
-      const credentials = await getWhatsAppCredentials()
-      const phoneNumberId = credentials?.phoneNumberId
-      if (phoneNumberId) {
-        await setAdaptiveThrottleState(phoneNumberId, {
-          targetMps: next.startMps,
-          cooldownUntil: null,
-          lastIncreaseAt: null,
-          lastDecreaseAt: null,
-          updatedAt: new Date().toISOString(),
-        })
-      }
+      const phoneNumberIds = typeof body.phoneNumberId === 'string' && body.phoneNumberId.trim()
+        ? [body.phoneNumberId.trim()]
+        : await listWhatsAppPhoneNumberIds()
+      await Promise.all(
+        phoneNumberIds.map((phoneNumberId) =>
+          setAdaptiveThrottleState(phoneNumberId, {
+            targetMps: next.startMps,
+            cooldownUntil: null,
+            lastIncreaseAt: null,
+            lastDecreaseAt: null,
+            updatedAt: new Date().toISOString(),
+          })
+        )
+      )
     }
 
     return NextResponse.json({ ok: true, config: next })
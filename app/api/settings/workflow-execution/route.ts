@@ -1,4 +1,4 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { settingsDb } from "@/lib/supabase-db";
 import { isSupabaseConfigured } from "@/lib/supabase";
 import {
@@ -6,6 +6,7 @@ import {
   getWorkflowExecutionConfig,
 } from "@/lib/builder/workflow-execution-settings";
 import { clampInt } from "@/lib/validation-utils";
+import { recordAuditEvent } from "@/lib/audit";
 
 const CONFIG_KEY = "workflow_execution_config";
 
@@ -34,7 +35,7 @@ export async function GET() {
   }
 }
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     if (!isSupabaseConfigured()) {
       return NextResponse.json(
@@ -66,6 +67,13 @@ export async function POST(request: Request) {
 
     await settingsDb.set(CONFIG_KEY, JSON.stringify(next));
     clearWorkflowExecutionConfigCache();
+    await recordAuditEvent(request, {
+      action: 'settings.update',
+      entityType: 'settings',
+      entityId: 'workflow-execution',
+      before: current.config,
+      after: next,
+    });
 
     return NextResponse.json({ ok: true, config: next });
   } catch (error) {
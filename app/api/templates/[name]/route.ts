@@ -3,6 +3,7 @@ import { extractErrorMessage } from '@/lib/api-validation'
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
 import { fetchWithTimeout, safeJson } from '@/lib/server-http'
 import { ensureHeaderMediaPreviewUrl } from '@/lib/whatsapp/template-media-preview'
+import { recordAuditEvent } from '@/lib/audit'
 
 // GET /api/templates/[name] - Buscar template específico
 export async function GET(
@@ -144,6 +145,12 @@ export async function DELETE(
       )
     }
 
+    await recordAuditEvent(request, {
+      action: 'template.delete',
+      entityType: 'template',
+      entityId: name,
+    })
+
     return NextResponse.json({
       success: true,
       message: `Template "${name}" deletado com sucesso!`
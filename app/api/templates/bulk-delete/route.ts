@@ -3,6 +3,7 @@ import { extractErrorMessage } from '@/lib/api-validation'
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
 import { z } from 'zod'
 import { fetchWithTimeout, safeJson } from '@/lib/server-http'
+import { recordAuditEvent } from '@/lib/audit'
 
 const BulkDeleteSchema = z.object({
   names: z.array(z.string()).min(1, 'Selecione pelo menos um template')
@@ -80,6 +81,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (results.deleted > 0) {
+      await recordAuditEvent(request, {
+        action: 'template.bulk_delete',
+        entityType: 'template',
+        metadata: { names: results.success, failed: results.errors.map((e) => e.name) },
+      })
+    }
+
     return NextResponse.json(results)
 
   } catch (error) {
@@ -3,6 +3,7 @@ import { z } from 'zod'
 import { CreateTemplateSchema } from '@/lib/whatsapp/validators/template.schema'
 import { templateService } from '@/lib/whatsapp/template.service'
 import { MetaAPIError } from '@/lib/whatsapp/errors'
+import { recordAuditEvent } from '@/lib/audit'
 
 export async function POST(request: NextRequest) {
   try {
@@ -46,6 +47,12 @@ export async function POST(request: NextRequest) {
       if (outcome.status === 'fulfilled') {
         if (outcome.value.success) {
           results.push(outcome.value.result)
+          await recordAuditEvent(request, {
+            action: 'template.create',
+            entityType: 'template',
+            entityId: outcome.value.name,
+            metadata: { id: outcome.value.result.id, category: outcome.value.result.category, status: outcome.value.result.status },
+          })
         } else {
           errors.push({ name: outcome.value.name, error: outcome.value.error })
         }
@@ -7,9 +7,8 @@ import { canonicalTemplateCategory } from '@/lib/template-category'
 import { createHash } from 'crypto'
 import { fetchWithTimeout, safeJson } from '@/lib/server-http'
 
-// Cache GET requests for 5 minutes - templates rarely change
-// POST/PUT/DELETE remain dynamic by default
-export const revalidate = 300
+// Dados do workspace ativo: sem cache compartilhado entre workspaces
+export const dynamic = 'force-dynamic'
 
 interface MetaTemplateComponent {
   type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS'
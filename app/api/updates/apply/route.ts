@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { recordAuditEvent } from '@/lib/audit'
 import fs from 'fs'
 import path from 'path'
 import type { VozSmartConfig } from '@/types/vozsmart-config'
@@ -230,6 +231,19 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await recordAuditEvent(request, {
+      action: 'update.apply',
+      entityType: 'system',
+      entityId: latestVersion,
+      metadata: {
+        filesUpdated: commitResult.filesUpdated,
+        commit: commitResult.commit?.sha,
+        redeployTriggered,
+      },
+      before: { coreVersion: config.coreVersion },
+      after: { coreVersion: latestVersion },
+    })
+
     return NextResponse.json<ApplyUpdateResponse>({
       success: true,
       version: latestVersion,
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auditLogDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/users/[id]/activity
+ * Histórico de ações do usuário (mais recentes primeiro)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'users:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const entries = await auditLogDb.listByActor('user', id)
+    return NextResponse.json(entries)
+  } catch (error) {
+    console.error('Failed to fetch user activity:', error)
+    return NextResponse.json({ error: 'Falha ao buscar histórico do usuário' }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { userDb } from '@/lib/supabase-db'
+import { UpdateUserSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { getRequestUser, requireSessionOrApiKey } from '@/lib/request-auth'
+import { clearSessionUserCache } from '@/lib/user-auth'
+import { canManageRole } from '@/lib/business/access'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * PATCH /api/users/[id]
+ * Altera nome, papel ou status do usuário
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'users:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = validateBody(UpdateUserSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const target = await userDb.getById(id)
+    if (!target) {
+      return NextResponse.json({ error: 'Usuário não encontrado' }, { status: 404 })
+    }
+
+    // Chaves de API não têm papel: equivalem ao proprietário
+    const actor = await getRequestUser(request)
+    const actorRole = actor?.role ?? 'owner'
+    const { role, isActive } = validation.data
+
+    if (!canManageRole(actorRole, target.role) || (role && !canManageRole(actorRole, role))) {
+      return NextResponse.json({ error: 'Seu papel não permite alterar este usuário' }, { status: 403 })
+    }
+
+    if (actor?.id === id && ((role && role !== target.role) || isActive === false)) {
+      return NextResponse.json({ error: 'Você não pode alterar o próprio papel ou se desativar' }, { status: 400 })
+    }
+
+    const updated = await userDb.update(id, validation.data)
+    clearSessionUserCache()
+
+    await recordAuditEvent(request, {
+      action: role && role !== target.role ? 'user.role_change' : 'user.update',
+      entityType: 'user',
+      entityId: id,
+      before: { name: target.name, role: target.role, isActive: target.isActive },
+      after: updated ? { name: updated.name, role: updated.role, isActive: updated.isActive } : null,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    console.error('Failed to update user:', error)
+    return NextResponse.json(
+      { error: 'Falha ao atualizar usuário', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/users/[id]
+ * Remove a conta (conversas atribuídas voltam a ficar sem responsável)
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'users:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const target = await userDb.getById(id)
+    if (!target) {
+      return NextResponse.json({ error: 'Usuário não encontrado' }, { status: 404 })
+    }
+
+    const actor = await getRequestUser(request)
+    if (actor?.id === id) {
+      return NextResponse.json({ error: 'Você não pode remover a própria conta' }, { status: 400 })
+    }
+    if (!canManageRole(actor?.role ?? 'owner', target.role)) {
+      return NextResponse.json({ error: 'Seu papel não permite remover este usuário' }, { status: 403 })
+    }
+
+    await userDb.delete(id)
+    clearSessionUserCache()
+
+    await recordAuditEvent(request, {
+      action: 'user.remove',
+      entityType: 'user',
+      entityId: id,
+      before: { email: target.email, name: target.name, role: target.role },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to delete user:', error)
+    return NextResponse.json(
+      { error: 'Falha ao remover usuário', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
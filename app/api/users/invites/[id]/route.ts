@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { userInviteDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * DELETE /api/users/invites/[id]
+ * Revoga um convite pendente
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const denied = await requireSessionOrApiKey(request, 'users:manage')
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    await userInviteDb.revoke(id)
+
+    await recordAuditEvent(request, { action: 'user.invite_revoke', entityType: 'user_invite', entityId: id })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to revoke invite:', error)
+    return NextResponse.json(
+      { error: 'Falha ao revogar convite', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
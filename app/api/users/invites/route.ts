@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { userDb, userInviteDb } from '@/lib/supabase-db'
+import { CreateUserInviteSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { getRequestUser, requireSessionOrApiKey } from '@/lib/request-auth'
+import { createInviteToken } from '@/lib/user-auth'
+import { canManageRole } from '@/lib/business/access'
+import { recordAuditEvent } from '@/lib/audit'
+import { getCurrentWorkspaceId } from '@/lib/workspace-context'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/users/invites
+ * Convites pendentes
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'users:manage')
+  if (denied) return denied
+
+  try {
+    const invites = await userInviteDb.listPending()
+    return NextResponse.json(invites)
+  } catch (error) {
+    console.error('Failed to fetch invites:', error)
+    return NextResponse.json({ error: 'Falha ao buscar convites' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/users/invites
+ * Cria um convite. O link (com o token) só é retornado aqui.
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'users:manage')
+  if (denied) return denied
+
+  try {
+    const body = await request.json()
+
+    const validation = validateBody(CreateUserInviteSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const { email, role } = validation.data
+    const actor = await getRequestUser(request)
+    if (!canManageRole(actor?.role ?? 'owner', role)) {
+      return NextResponse.json({ error: 'Seu papel não permite convidar com este papel' }, { status: 403 })
+    }
+
+    if (await userDb.getCredentialsByEmail(email)) {
+      return NextResponse.json({ error: 'Já existe uma conta com este e-mail' }, { status: 409 })
+    }
+
+    const { token, tokenHash, expiresAt } = createInviteToken()
+    const invite = await userInviteDb.create({
+      email,
+      role,
+      workspaceId: await getCurrentWorkspaceId(),
+      tokenHash,
+      invitedBy: actor?.id ?? null,
+      expiresAt,
+    })
+
+    await recordAuditEvent(request, {
+      action: 'user.invite',
+      entityType: 'user_invite',
+      entityId: invite.id,
+      metadata: { email: invite.email, role },
+    })
+
+    const inviteUrl = `${request.nextUrl.origin}/invite?token=${encodeURIComponent(token)}`
+    return NextResponse.json({ ...invite, inviteUrl }, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to create invite:', error)
+    return NextResponse.json(
+      { error: 'Falha ao criar convite', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
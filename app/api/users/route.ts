@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { userDb } from '@/lib/supabase-db'
+import { requireSessionOrApiKey } from '@/lib/request-auth'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/users
+ * Lista os usuários da instalação
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSessionOrApiKey(request, 'users:manage')
+  if (denied) return denied
+
+  try {
+    const users = await userDb.getAll()
+    return NextResponse.json(users, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch users:', error)
+    return NextResponse.json({ error: 'Falha ao buscar usuários' }, { status: 500 })
+  }
+}
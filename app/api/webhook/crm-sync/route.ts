@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processCrmSyncLog } from '@/lib/crm/crm-sync'
+import { isWorkerRequestAuthorized } from '@/lib/worker-auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/webhook/crm-sync
+ * Worker da sincronização com os CRMs (chamado pelo QStash).
+ * Sempre responde 200 quando a tentativa foi registrada: o retry com backoff
+ * é nosso, não do QStash.
+ */
+export async function POST(req: NextRequest) {
+  if (!isWorkerRequestAuthorized(req)) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const logId = typeof body?.logId === 'string' ? body.logId : ''
+  if (!logId) {
+    return NextResponse.json({ ok: false, error: 'logId é obrigatório' }, { status: 400 })
+  }
+
+  try {
+    const result = await processCrmSyncLog(logId)
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, status: result.status, message: result.message })
+    }
+    return NextResponse.json({
+      ok: true,
+      status: result.log.status,
+      attempts: result.log.attempts,
+    })
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    )
+  }
+}
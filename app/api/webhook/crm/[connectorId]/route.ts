@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'node:crypto'
+import { crmConnectorDb } from '@/lib/supabase-db'
+import { runWithWorkspace } from '@/lib/workspace-context'
+import { CRM_PROVIDERS } from '@/lib/business/crm'
+import { handleCrmInboundWebhook } from '@/lib/crm/crm-sync'
+
+export const dynamic = 'force-dynamic'
+
+type Params = { params: Promise<{ connectorId: string }> }
+
+function tokenMatches(expected: string, received: string | null): boolean {
+  if (!received) return false
+  const a = Buffer.from(expected)
+  const b = Buffer.from(received)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * POST /api/webhook/crm/[connectorId]?token=...
+ * Webhook de entrada do CRM (RD Station, Pipedrive): cria/atualiza os contatos
+ * recebidos conforme o mapeamento do conector.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const { connectorId } = await params
+
+  const workspaceId = await crmConnectorDb.findWorkspaceId(connectorId)
+  if (!workspaceId) {
+    return NextResponse.json({ error: 'Conector não encontrado' }, { status: 404 })
+  }
+
+  return runWithWorkspace(workspaceId, async () => {
+    const connector = await crmConnectorDb.getById(connectorId)
+    const token = request.nextUrl.searchParams.get('token') || request.headers.get('x-smartzap-token')
+    if (!connector || !tokenMatches(connector.inboundToken, token)) {
+      return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+    }
+
+    if (!connector.isActive || !connector.importContacts) {
+      return NextResponse.json({ ok: false, message: 'Importação desativada neste conector' })
+    }
+    if (!CRM_PROVIDERS[connector.provider].supportsInboundWebhook) {
+      return NextResponse.json(
+        { error: `${CRM_PROVIDERS[connector.provider].label} não envia webhooks de contato` },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body) {
+      return NextResponse.json({ error: 'JSON inválido' }, { status: 400 })
+    }
+
+    const log = await handleCrmInboundWebhook(connector, body)
+    return NextResponse.json(
+      { ok: log.status !== 'failed', status: log.status, summary: log.summary },
+      { status: log.status === 'failed' ? 500 : 200 }
+    )
+  })
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'node:crypto'
+import { inboundWebhookDb } from '@/lib/supabase-db'
+import { runWithWorkspace } from '@/lib/workspace-context'
+import { INBOUND_WEBHOOK_MAX_PAYLOAD_BYTES } from '@/lib/business/webhooks'
+import { processInboundWebhook } from '@/lib/inbound-webhooks'
+
+export const dynamic = 'force-dynamic'
+
+type Params = { params: Promise<{ id: string }> }
+
+function tokenMatches(expected: string, received: string | null): boolean {
+  if (!received) return false
+  const a = Buffer.from(expected)
+  const b = Buffer.from(received)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * POST /api/webhook/inbound/[id]?token=...
+ * Gatilho genérico: recebe o JSON da plataforma externa, aplica o mapeamento
+ * e executa a ação do endpoint. O token também pode vir no header x-smartzap-token.
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  const { id } = await params
+
+  const workspaceId = await inboundWebhookDb.findWorkspaceId(id)
+  if (!workspaceId) {
+    return NextResponse.json({ error: 'Webhook não encontrado' }, { status: 404 })
+  }
+
+  return runWithWorkspace(workspaceId, async () => {
+    const webhook = await inboundWebhookDb.getById(id)
+    const token = request.nextUrl.searchParams.get('token') || request.headers.get('x-smartzap-token')
+    if (!webhook || !tokenMatches(webhook.token, token)) {
+      return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+    }
+
+    const raw = await request.text()
+    if (Buffer.byteLength(raw, 'utf8') > INBOUND_WEBHOOK_MAX_PAYLOAD_BYTES) {
+      return NextResponse.json({ error: 'Payload muito grande' }, { status: 413 })
+    }
+
+    let payload: unknown
+    try {
+      payload = JSON.parse(raw)
+    } catch {
+      return NextResponse.json({ error: 'JSON inválido' }, { status: 400 })
+    }
+    if (!payload || typeof payload !== 'object') {
+      return NextResponse.json({ error: 'JSON inválido' }, { status: 400 })
+    }
+
+    const event = await processInboundWebhook(webhook, payload)
+    // Falha de mapeamento é configuração nossa: 200 evita retentativas infinitas da plataforma
+    return NextResponse.json({
+      ok: event.status !== 'failed',
+      status: event.status,
+      summary: event.summary,
+      error: event.error,
+    })
+  })
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processScheduledItem } from '@/lib/inbox/inbox-scheduled'
+import { isWorkerRequestAuthorized } from '@/lib/worker-auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/webhook/inbox-scheduled
+ * Worker das mensagens agendadas e lembretes do inbox (chamado pelo QStash no horário).
+ * Falhas de envio ficam registradas no item e respondem 200: só erros inesperados
+ * voltam 500 para o QStash retentar (itens já processados são ignorados).
+ */
+export async function POST(req: NextRequest) {
+  if (!isWorkerRequestAuthorized(req)) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const itemId = typeof body?.itemId === 'string' ? body.itemId : ''
+  if (!itemId) {
+    return NextResponse.json({ ok: false, error: 'itemId é obrigatório' }, { status: 400 })
+  }
+
+  try {
+    const result = await processScheduledItem(itemId)
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, status: result.status, message: result.message })
+    }
+    return NextResponse.json({ ok: true, status: result.item.status })
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { settingsDb } from '@/lib/supabase-db'
 
 import { getVerifyToken } from '@/lib/verify-token'
+import { DEFAULT_WORKSPACE_ID, getCurrentWorkspaceId } from '@/lib/workspace-context'
 
 export async function GET() {
   // Build webhook URL - prioritize Vercel Production URL
@@ -24,6 +25,12 @@ export async function GET() {
     webhookUrl = 'http://localhost:3000/api/webhook'
   }
 
+  // Workspaces adicionais: a URL identifica o workspace (verify token e eventos)
+  const workspaceId = await getCurrentWorkspaceId()
+  if (workspaceId !== DEFAULT_WORKSPACE_ID) {
+    webhookUrl = `${webhookUrl}?workspace=${workspaceId}`
+  }
+
   const webhookToken = await getVerifyToken()
 
   // Stats are now tracked in Supabase (campaign_contacts table)
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { attemptWebhookDelivery } from '@/lib/outbound-webhooks'
+import { isWorkerRequestAuthorized } from '@/lib/worker-auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/webhook/outbound
+ * Worker das entregas de webhooks de saída (chamado pelo QStash).
+ * Sempre responde 200 quando a tentativa foi registrada: o retry com backoff
+ * é nosso, não do QStash.
+ */
+export async function POST(req: NextRequest) {
+  if (!isWorkerRequestAuthorized(req)) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const deliveryId = typeof body?.deliveryId === 'string' ? body.deliveryId : ''
+  if (!deliveryId) {
+    return NextResponse.json({ ok: false, error: 'deliveryId é obrigatório' }, { status: 400 })
+  }
+
+  try {
+    const result = await attemptWebhookDelivery(deliveryId)
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, status: result.status, message: result.message })
+    }
+    return NextResponse.json({
+      ok: true,
+      status: result.delivery.status,
+      attempts: result.delivery.attempts,
+    })
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    )
+  }
+}
@@ -31,16 +31,22 @@ import { shouldProcessWhatsAppStatusEvent } from '@/lib/whatsapp-webhook-dedupe'
 
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
 import { applyFlowMappingToContact } from '@/lib/flow-mapping'
-import { settingsDb } from '@/lib/supabase-db'
+import { phoneNumberDb, settingsDb, workspaceDb } from '@/lib/supabase-db'
+import { DEFAULT_WORKSPACE_ID, getWorkspaceHeaders, isValidWorkspaceId, runWithWorkspace } from '@/lib/workspace-context'
+import { recordCampaignButtonClick } from '@/lib/campaign-button-clicks'
+import { emitWebhookEvent } from '@/lib/outbound-webhooks'
+import { queueCrmContactSync, queueCrmEvent } from '@/lib/crm/crm-sync'
 import { ensureWorkflowRecord, getCompanyId } from '@/lib/builder/workflow-db'
 import { Client as WorkflowClient } from '@upstash/workflow'
 import { getPendingConversation } from '@/lib/builder/workflow-conversations'
+import { findMatchingWorkflow, loadTriggerDefinitions } from '@/lib/builder/workflow-triggers'
 
 // T046-T048: Inbox integration
 import {
   handleInboundMessage,
   handleDeliveryStatus,
 } from '@/lib/inbox/inbox-webhook'
+import { parseInboundStructuredContent } from '@/lib/business/inbox'
 
 // Coexistence: WhatsApp Business App webhooks
 import {
@@ -220,6 +226,14 @@ async function markContactOptOutAndSuppress(input: {
   } catch (e) {
     console.warn('[Webhook] Falha ao upsert phone_suppressions (best-effort):', e)
   }
+
+  await emitWebhookEvent('contact.opted_out', {
+    phone,
+    source: input.source,
+    reason: input.reason,
+    metadata: input.metadata || {},
+  })
+  await queueCrmContactSync({ phone, reason: 'opted_out' })
 }
 
 function maskTokenPreview(token: string | null | undefined): string {
@@ -432,65 +446,6 @@ function humanizeOptionId(value: string): string {
   return withSpaces.charAt(0).toUpperCase() + withSpaces.slice(1)
 }
 
-function normalizeInboundText(input: string): string {
-  return String(input || '')
-    .trim()
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/\p{Diacritic}/gu, '')
-}
-
-type KeywordWorkflow = {
-  workflowId: string
-  keywords: string[]
-}
-
-async function loadKeywordWorkflows(
-  excludeWorkflowId: string | null
-): Promise<KeywordWorkflow[]> {
-  const { data } = await supabase
-    .from('workflow_versions')
-    .select('workflow_id, nodes, published_at')
-    .eq('status', 'published')
-    .order('published_at', { ascending: false })
-
-  return (data || [])
-    .filter((version: any) => version?.workflow_id && version?.nodes)
-    .filter((version: any) => version.workflow_id !== excludeWorkflowId)
-    .map((version: any) => {
-      const triggerNode = (version.nodes as any[]).find(
-        (node) => node?.data?.type === 'trigger'
-      )
-      const triggerType = triggerNode?.data?.config?.triggerType
-      if (triggerType !== 'Keywords') return null
-      const keywordListRaw = triggerNode?.data?.config?.keywordList as string | undefined
-      const keywords = (keywordListRaw || '')
-        .split(/\r?\n/)
-        .map((entry) => normalizeInboundText(entry))
-        .filter(Boolean)
-      if (!version.workflow_id || keywords.length === 0) return null
-      return {
-        workflowId: version.workflow_id,
-        keywords,
-      }
-    })
-    .filter((entry): entry is KeywordWorkflow => Boolean(entry))
-}
-
-function findMatchingWorkflow(
-  workflows: KeywordWorkflow[],
-  message: string
-): string | null {
-  const normalizedMessage = normalizeInboundText(message)
-  if (!normalizedMessage) return null
-  for (const workflow of workflows) {
-    if (workflow.keywords.some((keyword) => keyword === normalizedMessage)) {
-      return workflow.workflowId
-    }
-  }
-  return null
-}
-
 function isMissingColumnError(e: unknown, columnName: string): boolean {
   const msg = e instanceof Error ? e.message : String((e as any)?.message || e || '')
   return msg.toLowerCase().includes('column') && msg.toLowerCase().includes(columnName.toLowerCase())
@@ -521,8 +476,43 @@ function isMissingTableError(e: unknown, tableName: string): boolean {
   return false
 }
 
+/**
+ * Workspace de cada entry do webhook: `?workspace=` da URL de callback
+ * ou, quando vários workspaces compartilham o mesmo App da Meta, o dono
+ * do WABA (entry.id) / phone_number_id nas settings.
+ */
+async function resolveEntryWorkspace(request: NextRequest, entry: any): Promise<string> {
+  const fromQuery = request.nextUrl.searchParams.get('workspace')
+  if (isValidWorkspaceId(fromQuery)) return fromQuery
+
+  // Número registrado é mais específico que a WABA (vários números por instalação)
+  const phoneNumberId = entry?.changes?.[0]?.value?.metadata?.phone_number_id
+  if (phoneNumberId) {
+    const byRegistered = await phoneNumberDb.findWorkspaceId(String(phoneNumberId))
+    if (byRegistered) return byRegistered
+  }
+
+  const wabaId = entry?.id ? String(entry.id) : null
+  if (wabaId) {
+    const byWaba = await workspaceDb.findBySetting('businessAccountId', wabaId)
+    if (byWaba) return byWaba
+  }
+
+  if (phoneNumberId) {
+    const byPhone = await workspaceDb.findBySetting('phoneNumberId', String(phoneNumberId))
+    if (byPhone) return byPhone
+  }
+
+  return DEFAULT_WORKSPACE_ID
+}
+
 // Meta Webhook Verification
 export async function GET(request: NextRequest) {
+  const workspaceId = request.nextUrl.searchParams.get('workspace')
+  return runWithWorkspace(isValidWorkspaceId(workspaceId) ? workspaceId : DEFAULT_WORKSPACE_ID, () => verifyWebhook(request))
+}
+
+async function verifyWebhook(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
   const mode = searchParams.get('hub.mode')
   const token = searchParams.get('hub.verify_token')
@@ -572,6 +562,24 @@ export async function POST(request: NextRequest) {
   if (!body) {
     return NextResponse.json({ status: 'ignored', error: 'Body inválido' }, { status: 400 })
   }
+
+  // Cada workspace tem seu número: agrupa as entries por workspace e processa
+  // cada grupo no escopo dele (settings, contatos, inbox e workflows isolados).
+  const entriesByWorkspace = new Map<string, unknown[]>()
+  for (const entry of Array.isArray(body.entry) ? body.entry : []) {
+    const workspaceId = await resolveEntryWorkspace(request, entry)
+    entriesByWorkspace.set(workspaceId, [...(entriesByWorkspace.get(workspaceId) || []), entry])
+  }
+  if (entriesByWorkspace.size === 0) entriesByWorkspace.set(DEFAULT_WORKSPACE_ID, [])
+
+  let response: NextResponse = NextResponse.json({ status: 'ok' })
+  for (const [workspaceId, entry] of entriesByWorkspace) {
+    response = await runWithWorkspace(workspaceId, () => handleWebhookEvent(request, { ...body, entry }))
+  }
+  return response
+}
+
+async function handleWebhookEvent(request: NextRequest, body: any): Promise<NextResponse> {
   const supabaseAdmin = getSupabaseAdmin()
   if (!supabaseAdmin) {
     return NextResponse.json({ status: 'error', error: 'Supabase not configured' }, { status: 500 })
@@ -588,12 +596,12 @@ export async function POST(request: NextRequest) {
     entryCount: Array.isArray(body?.entry) ? body.entry.length : 0,
   }))
 
-  // OTIMIZAÇÃO V2: Paraleliza busca de defaultWorkflowId + keywordWorkflows
+  // OTIMIZAÇÃO V2: Paraleliza busca de defaultWorkflowId + gatilhos dos fluxos
   // Antes: 2 queries sequenciais (~200ms cada)
   // Depois: 1 batch paralelo (~200ms total)
-  const [defaultWorkflowIdFromDb, allKeywordWorkflows] = await Promise.all([
+  const [defaultWorkflowIdFromDb, allTriggerDefinitions] = await Promise.all([
     settingsDb.get('workflow_builder_default_id'),
-    loadKeywordWorkflows(null), // Carrega todos, filtra depois
+    loadTriggerDefinitions(supabaseAdmin), // Carrega todos, filtra depois
   ])
 
   const defaultWorkflowId =
@@ -602,9 +610,9 @@ export async function POST(request: NextRequest) {
     null
 
   // Filtra o workflow padrão (se existir) para evitar execução duplicada
-  const keywordWorkflows = defaultWorkflowId
-    ? allKeywordWorkflows.filter((w) => w.workflowId !== defaultWorkflowId)
-    : allKeywordWorkflows
+  const triggerDefinitions = defaultWorkflowId
+    ? allTriggerDefinitions.filter((w) => w.workflowId !== defaultWorkflowId)
+    : allTriggerDefinitions
 
   try {
     const entries = body.entry || []
@@ -742,6 +750,32 @@ export async function POST(request: NextRequest) {
             }
           }
 
+          // Publicado só depois de (B), e só quando o status mudou (campanha ou inbox)
+          const emitStatusChanged = () =>
+            emitWebhookEvent('message.status', {
+              message_id: messageId,
+              status,
+              recipient_id: (statusUpdate as any)?.recipient_id || null,
+              timestamp: eventTsIso,
+              errors: (statusUpdate as any)?.errors ?? null,
+            })
+
+          // T048: Update inbox message delivery status (best-effort)
+          const applyInboxDeliveryStatus = async (): Promise<boolean> => {
+            try {
+              return await handleDeliveryStatus({
+                messageId,
+                status: status as 'sent' | 'delivered' | 'read' | 'failed',
+                timestamp: eventTsIso || undefined,
+                errors: (statusUpdate as any)?.errors ?? undefined,
+              })
+            } catch (inboxError) {
+              // Best-effort: don't fail webhook if inbox update fails
+              console.warn('[Webhook] Failed to update inbox delivery status:', inboxError)
+              return false
+            }
+          }
+
           // (B) Aplicar no banco (fonte da verdade)
           try {
             if (status === 'failed') {
@@ -757,6 +791,7 @@ export async function POST(request: NextRequest) {
               if (lookupErr) throw lookupErr
               const existingUpdate = Array.isArray(rows) ? rows[0] : (rows as any)
               if (!existingUpdate) {
+                if (await applyInboxDeliveryStatus()) await emitStatusChanged()
                 if (eventId) {
                   await markEventAttempt({ eventId, state: 'unmatched', error: 'campaign_contact_not_found' })
                   await enqueueWebhookStatusReconcileBestEffort('unmatched_failed')
@@ -884,6 +919,11 @@ export async function POST(request: NextRequest) {
                 }
               }
 
+              const inboxChangedFailed = await applyInboxDeliveryStatus()
+              if ((updatedRowsFailed && updatedRowsFailed.length > 0) || inboxChangedFailed) {
+                await emitStatusChanged()
+              }
+
               if (eventId) {
                 await markEventAttempt({ eventId, state: 'applied', campaignId, campaignContactId: existingUpdate.id })
               }
@@ -915,17 +955,17 @@ export async function POST(request: NextRequest) {
               })
             }
 
-            // T048: Update inbox message delivery status (best-effort)
-            try {
-              await handleDeliveryStatus({
-                messageId,
-                status: status as 'sent' | 'delivered' | 'read' | 'failed',
-                timestamp: eventTsIso || undefined,
-                errors: (statusUpdate as any)?.errors ?? undefined,
+            // Entrega/leitura de campanha na timeline do contato nos CRMs
+            if (result.reason === 'applied' && result.phone && (status === 'delivered' || status === 'read')) {
+              await queueCrmEvent(status === 'read' ? 'campaign.read' : 'campaign.delivered', {
+                phone: result.phone,
+                data: { campaign_id: result.campaignId || null, message_id: messageId },
               })
-            } catch (inboxError) {
-              // Best-effort: don't fail webhook if inbox update fails
-              console.warn('[Webhook] Failed to update inbox delivery status:', inboxError)
+            }
+
+            const inboxChanged = await applyInboxDeliveryStatus()
+            if (result.reason === 'applied' || inboxChanged) {
+              await emitStatusChanged()
             }
 
             if (eventId) {
@@ -972,6 +1012,13 @@ export async function POST(request: NextRequest) {
           const phoneNumberId = change?.value?.metadata?.phone_number_id || null
           console.log(`📩 Incoming message from ${from}: ${messageType}${text ? ` | text="${text}"` : ''}`)
 
+          // Clique em botão de campanha (métrica de funil / teste A/B) — best-effort
+          try {
+            await recordCampaignButtonClick(message)
+          } catch (e) {
+            console.warn('[Webhook] Falha ao registrar clique em botão (best-effort):', e)
+          }
+
           // =================================================================
           // T046-T047: Persist to Inbox and trigger AI if mode=bot
           // =================================================================
@@ -981,6 +1028,7 @@ export async function POST(request: NextRequest) {
             message.video?.url ||
             message.audio?.url ||
             message.document?.url ||
+            message.sticker?.url ||
             null
           if (!mediaUrl) {
             const mediaId =
@@ -988,6 +1036,7 @@ export async function POST(request: NextRequest) {
               message.video?.id ||
               message.audio?.id ||
               message.document?.id ||
+              message.sticker?.id ||
               null
             if (mediaId) {
               mediaUrl = await resolveMediaIdToUrl(mediaId).catch(() => null)
@@ -1001,9 +1050,27 @@ export async function POST(request: NextRequest) {
               text,
               timestamp: message.timestamp,
               mediaUrl,
+              mimeType:
+                message.audio?.mime_type ||
+                message.image?.mime_type ||
+                message.document?.mime_type ||
+                null,
+              fileName: message.document?.filename || null,
               phoneNumberId: phoneNumberId || undefined,
+              ...parseInboundStructuredContent(message),
             })
             console.log(`📥 Inbox: conversation=${inboxResult.conversationId}, message=${inboxResult.messageId}, ai=${inboxResult.triggeredAI}`)
+
+            await emitWebhookEvent('message.received', {
+              message_id: message.id || null,
+              from_phone: normalizePhoneNumber(from),
+              type: messageType,
+              text: text || null,
+              media_url: mediaUrl,
+              timestamp: message.timestamp || null,
+              phone_number_id: phoneNumberId,
+              conversation_id: inboxResult.conversationId,
+            })
           } catch (inboxError) {
             // Best-effort: don't fail webhook if inbox persist fails
             console.warn('[Webhook] Failed to persist to inbox:', inboxError)
@@ -1041,10 +1108,10 @@ export async function POST(request: NextRequest) {
           }
 
           // =================================================================
-          // Workflow Builder (MVP): run keyword/default workflow
+          // Workflow Builder (MVP): run keyword/intent/default workflow
           // =================================================================
-          const matchedWorkflowId = findMatchingWorkflow(keywordWorkflows, text)
-          const targetWorkflowId = matchedWorkflowId || defaultWorkflowId
+          const triggerMatch = text ? await findMatchingWorkflow(triggerDefinitions, text) : null
+          const targetWorkflowId = triggerMatch?.workflowId || defaultWorkflowId
 
           if (targetWorkflowId && text && from) {
             try {
@@ -1059,8 +1126,8 @@ export async function POST(request: NextRequest) {
 
               const workflowClient = new WorkflowClient({ token: process.env.QSTASH_TOKEN! })
 
-              // Headers para bypass de proteção Vercel se necessário
-              const headers: Record<string, string> = {}
+              // Workspace do número + bypass de proteção Vercel se necessário
+              const headers: Record<string, string> = await getWorkspaceHeaders()
               const bypassSecret = process.env.VERCEL_AUTOMATION_BYPASS_SECRET
               if (bypassSecret) {
                 headers['x-vercel-protection-bypass'] = bypassSecret
@@ -1072,7 +1139,7 @@ export async function POST(request: NextRequest) {
                   workflowId: targetWorkflowId,
                   input: { from, to: from, message: text },
                 },
-                headers: Object.keys(headers).length > 0 ? headers : undefined,
+                headers,
               })
             } catch (e) {
               console.error('[Webhook] Failed to trigger builder workflow:', e)
@@ -1314,7 +1381,24 @@ export async function POST(request: NextRequest) {
                 }
               }
 
-              // Enviar payload para webhook externo (se configurado)
+              await emitWebhookEvent('flow.submitted', {
+                message_id: messageId || null,
+                from_phone: normalizedFrom,
+                flow_id: flowId,
+                flow_name: flowName,
+                flow_token: flowToken,
+                phone_number_id: phoneNumberId,
+                contact_id: contactId,
+                campaign_id: campaignId,
+                response_json: responseJson,
+              })
+              await queueCrmEvent('flow.submitted', {
+                contactId,
+                phone: normalizedFrom,
+                data: { flow_id: flowId, flow_name: flowName, campaign_id: campaignId, response: responseJson },
+              })
+
+              // Enviar payload para webhook externo legado (se configurado no agendamento)
               try {
                 const settings = await getCalendarBookingSettings()
                 const timezone = settings?.timezone || 'America/Sao_Paulo'
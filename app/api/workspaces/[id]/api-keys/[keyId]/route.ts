@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { workspaceApiKeyDb } from '@/lib/supabase-db'
+import { clearWorkspaceApiKeyCache } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string; keyId: string }> }
+
+/**
+ * DELETE /api/workspaces/[id]/api-keys/[keyId]
+ * Revoga a chave (o registro fica para histórico)
+ */
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id, keyId } = await params
+    await workspaceApiKeyDb.revoke(id, keyId)
+    clearWorkspaceApiKeyCache()
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to revoke workspace API key:', error)
+    return NextResponse.json(
+      { error: 'Falha ao revogar chave de API', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { workspaceApiKeyDb, workspaceDb } from '@/lib/supabase-db'
+import { CreateWorkspaceApiKeySchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { generateApiKey, hashApiKey } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/workspaces/[id]/api-keys
+ * Lista as chaves de API do workspace (somente prefixo; a chave não é armazenada)
+ */
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const keys = await workspaceApiKeyDb.list(id)
+    return NextResponse.json(keys)
+  } catch (error) {
+    console.error('Failed to fetch workspace API keys:', error)
+    return NextResponse.json({ error: 'Falha ao buscar chaves de API' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/workspaces/[id]/api-keys
+ * Gera uma chave restrita ao workspace. A chave completa só é retornada aqui.
+ */
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = validateBody(CreateWorkspaceApiKeySchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const workspace = await workspaceDb.getById(id)
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace não encontrado' }, { status: 404 })
+    }
+
+    const key = generateApiKey()
+    const created = await workspaceApiKeyDb.create({
+      workspaceId: workspace.id,
+      name: validation.data.name,
+      keyHash: hashApiKey(key),
+      keyPrefix: key.slice(0, 9),
+    })
+
+    return NextResponse.json({ ...created, key }, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to create workspace API key:', error)
+    return NextResponse.json(
+      { error: 'Falha ao gerar chave de API', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { workspaceMemberDb } from '@/lib/supabase-db'
+import { clearSessionUserCache } from '@/lib/user-auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string; userId: string }> }
+
+/**
+ * DELETE /api/workspaces/[id]/members/[userId]
+ * Remove o acesso do usuário ao workspace (vale em até 30s para sessões abertas)
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const { id, userId } = await params
+    await workspaceMemberDb.remove(id, userId)
+    clearSessionUserCache()
+
+    await recordAuditEvent(request, {
+      action: 'workspace.member_remove',
+      entityType: 'user',
+      entityId: userId,
+      metadata: { workspaceId: id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to remove workspace member:', error)
+    return NextResponse.json(
+      { error: 'Falha ao remover membro', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { userDb, workspaceDb, workspaceMemberDb } from '@/lib/supabase-db'
+import { AddWorkspaceMemberSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { clearSessionUserCache } from '@/lib/user-auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/workspaces/[id]/members
+ * Usuários com acesso ao workspace (owner/admin acessam todos sem associação)
+ */
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const [memberIds, users] = await Promise.all([workspaceMemberDb.listUserIds(id), userDb.getAll()])
+    return NextResponse.json(users.filter((user) => memberIds.includes(user.id)))
+  } catch (error) {
+    console.error('Failed to fetch workspace members:', error)
+    return NextResponse.json({ error: 'Falha ao buscar membros' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/workspaces/[id]/members
+ * Dá acesso ao workspace para um usuário
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = validateBody(AddWorkspaceMemberSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const [workspace, user] = await Promise.all([
+      workspaceDb.getById(id),
+      userDb.getById(validation.data.userId),
+    ])
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace não encontrado' }, { status: 404 })
+    }
+    if (!user) {
+      return NextResponse.json({ error: 'Usuário não encontrado' }, { status: 404 })
+    }
+
+    await workspaceMemberDb.add(workspace.id, user.id)
+    clearSessionUserCache()
+
+    await recordAuditEvent(request, {
+      action: 'workspace.member_add',
+      entityType: 'user',
+      entityId: user.id,
+      metadata: { workspaceId: workspace.id, email: user.email },
+    })
+
+    return NextResponse.json(user, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to add workspace member:', error)
+    return NextResponse.json(
+      { error: 'Falha ao adicionar membro', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
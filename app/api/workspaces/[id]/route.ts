@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { workspaceDb } from '@/lib/supabase-db'
+import { WorkspaceNameSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { DEFAULT_WORKSPACE_ID } from '@/lib/workspace-context'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+type Params = { params: Promise<{ id: string }> }
+
+/**
+ * PATCH /api/workspaces/[id]
+ * Renomeia o workspace
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = validateBody(WorkspaceNameSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const updated = await workspaceDb.rename(id, validation.data.name)
+    if (!updated) {
+      return NextResponse.json({ error: 'Workspace não encontrado' }, { status: 404 })
+    }
+
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    console.error('Failed to rename workspace:', error)
+    return NextResponse.json(
+      { error: 'Falha ao renomear workspace', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[id]
+ * Remove o workspace e todos os dados dele (o principal não pode ser removido)
+ */
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params
+    if (id === DEFAULT_WORKSPACE_ID) {
+      return NextResponse.json({ error: 'O workspace principal não pode ser removido' }, { status: 400 })
+    }
+
+    await workspaceDb.delete(id)
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('Failed to delete workspace:', error)
+    return NextResponse.json(
+      { error: 'Falha ao remover workspace', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
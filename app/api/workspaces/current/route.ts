@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { workspaceDb, workspaceMemberDb } from '@/lib/supabase-db'
+import { SelectWorkspaceSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+import { WORKSPACE_COOKIE, getCurrentWorkspaceId } from '@/lib/workspace-context'
+import { getRequestUser } from '@/lib/request-auth'
+import { canAccessWorkspace, hasPermission } from '@/lib/business/access'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/workspaces/current
+ * Workspace ativo + lista para o seletor do dashboard (apenas os workspaces do usuário)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const [currentId, allWorkspaces, user] = await Promise.all([
+      getCurrentWorkspaceId(),
+      workspaceDb.getAll(),
+      getRequestUser(request),
+    ])
+
+    // Chaves de API não têm papel: equivalem ao proprietário
+    const role = user?.role ?? 'owner'
+    const memberWorkspaceIds = user?.id ? await workspaceMemberDb.listWorkspaceIds(user.id) : []
+    const workspaces = allWorkspaces.filter((w) => canAccessWorkspace(role, w.id, memberWorkspaceIds))
+    const current = workspaces.find((w) => w.id === currentId) ?? workspaces[0] ?? null
+
+    return NextResponse.json(
+      { current, workspaces, canSwitch: hasPermission(role, 'workspaces:manage') },
+      { headers: { 'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0' } }
+    )
+  } catch (error) {
+    console.error('Failed to fetch current workspace:', error)
+    return NextResponse.json({ error: 'Falha ao buscar workspace atual' }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/workspaces/current
+ * Troca o workspace ativo da sessão (cookie). Exige workspaces:manage (ver proxy).
+ */
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json()
+
+    const validation = validateBody(SelectWorkspaceSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const workspace = await workspaceDb.getById(validation.data.workspaceId)
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace não encontrado' }, { status: 404 })
+    }
+
+    const response = NextResponse.json({ current: workspace })
+    response.cookies.set(WORKSPACE_COOKIE, workspace.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365,
+    })
+    return response
+  } catch (error: any) {
+    console.error('Failed to switch workspace:', error)
+    return NextResponse.json(
+      { error: 'Falha ao trocar de workspace', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { workspaceDb } from '@/lib/supabase-db'
+import { WorkspaceNameSchema, validateBody, formatZodErrors } from '@/lib/api-validation'
+
+export const dynamic = 'force-dynamic'
+export const revalidate = 0
+
+/**
+ * GET /api/workspaces
+ * Lista os workspaces da instalação
+ */
+export async function GET() {
+  try {
+    const workspaces = await workspaceDb.getAll()
+    return NextResponse.json(workspaces, {
+      headers: {
+        'Cache-Control': 'private, no-store, no-cache, must-revalidate, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to fetch workspaces:', error)
+    return NextResponse.json({ error: 'Falha ao buscar workspaces' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/workspaces
+ * Cria um workspace vazio (credenciais e dados são configurados depois, já dentro dele)
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    const validation = validateBody(WorkspaceNameSchema, body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Dados inválidos', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      )
+    }
+
+    const created = await workspaceDb.create(validation.data.name)
+    return NextResponse.json(created, { status: 201 })
+  } catch (error: any) {
+    console.error('Failed to create workspace:', error)
+    return NextResponse.json(
+      { error: 'Falha ao criar workspace', details: String(error?.message || '') },
+      { status: 500 }
+    )
+  }
+}
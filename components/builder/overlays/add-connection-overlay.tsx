@@ -19,6 +19,7 @@ import {
   getIntegration,
   getIntegrationLabels,
   getSortedIntegrationTypes,
+  isNativeIntegration,
 } from "@/lib/builder/plugins";
 import { getIntegrationDescriptions } from "@/lib/builder/plugins-registry";
 import { AiGatewayConsentOverlay } from "./ai-gateway-consent-overlay";
@@ -37,7 +38,7 @@ const SYSTEM_INTEGRATION_DESCRIPTIONS: Record<string, string> = {
 
 // Get all integration types (plugins + system)
 const getIntegrationTypes = (): IntegrationType[] => [
-  ...getSortedIntegrationTypes(),
+  ...getSortedIntegrationTypes().filter((type) => !isNativeIntegration(type)),
   ...SYSTEM_INTEGRATION_TYPES,
 ];
 
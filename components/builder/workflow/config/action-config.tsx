@@ -36,6 +36,7 @@ import {
   findActionById,
   getActionsByCategory,
   getAllIntegrations,
+  isNativeIntegration,
   isFieldGroup,
   type ActionConfigField,
 } from "@/lib/builder/plugins";
@@ -334,7 +335,10 @@ export function ActionConfig({
   };
 
   const showConnection = Boolean(
-    integrationType && isOwner && integrationType !== "whatsapp"
+    integrationType &&
+      isOwner &&
+      integrationType !== "whatsapp" &&
+      !isNativeIntegration(integrationType)
   );
   const showExecutionFields = false;
 
@@ -62,7 +62,19 @@ const SYSTEM_ACTIONS: ActionType[] = [
   {
     id: "Delay",
     label: "Delay",
-    description: "Aguardar por um tempo",
+    description: "Aguardar um tempo ou ate uma data",
+    category: "Sistema",
+  },
+  {
+    id: "For Each",
+    label: "Para cada",
+    description: "Repetir etapas para cada item de uma lista",
+    category: "Sistema",
+  },
+  {
+    id: "Call Workflow",
+    label: "Chamar fluxo",
+    description: "Executar outro fluxo publicado e usar a saida",
     category: "Sistema",
   },
   {
@@ -1,5 +1,7 @@
 "use client";
 
+import { useQuery } from "@tanstack/react-query";
+import { useAtomValue } from "jotai";
 import { CodeEditor } from "@/components/builder/ui/code-editor";
 import { Input } from "@/components/builder/ui/input";
 import { Label } from "@/components/builder/ui/label";
@@ -11,6 +13,17 @@ import {
   SelectValue,
 } from "@/components/builder/ui/select";
 import { TemplateBadgeInput } from "@/components/builder/ui/template-badge-input";
+import { TemplateBadgeTextarea } from "@/components/builder/ui/template-badge-textarea";
+import { api } from "@/lib/builder/api-client";
+import { currentWorkflowIdAtom } from "@/lib/builder/workflow-store";
+import {
+  FOR_EACH_DEFAULT_MAX_ITERATIONS,
+  FOR_EACH_MAX_ITERATIONS,
+  WAIT_UNIT_LABELS,
+  WORKFLOW_WAIT_MAX_DAYS,
+  type DelayMode,
+  type WaitUnit,
+} from "@/lib/business/workflow";
 import { SchemaBuilder, type SchemaField } from "../schema-builder";
 
 export interface SystemActionFieldsProps {
@@ -192,6 +205,14 @@ function ConditionFields({
   );
 }
 
+/** ISO datetime -> value of <input type="datetime-local"> (local time) */
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  if (!iso || Number.isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
 function DelayFields({
   config,
   onUpdateConfig,
@@ -201,20 +222,241 @@ function DelayFields({
   onUpdateConfig: (key: string, value: string) => void;
   disabled: boolean;
 }) {
+  const mode = (config?.delayMode as DelayMode) || "duration";
+  const legacyDelayMs = !config?.delayAmount && config?.delayMs;
+
   return (
-    <div className="space-y-2">
-      <Label htmlFor="delayMs">Atraso (ms)</Label>
-      <Input
-        disabled={disabled}
-        id="delayMs"
-        onChange={(e) => onUpdateConfig("delayMs", e.target.value)}
-        placeholder="1000"
-        value={(config?.delayMs as string) || ""}
-      />
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="delayMode">Aguardar</Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("delayMode", value)}
+          value={mode}
+        >
+          <SelectTrigger className="w-full" id="delayMode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="duration">Por um tempo</SelectItem>
+            <SelectItem value="until">Ate uma data e hora</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {mode === "until" ? (
+        <div className="space-y-2">
+          <Label htmlFor="delayUntil">Data e hora</Label>
+          <Input
+            disabled={disabled}
+            id="delayUntil"
+            onChange={(e) => {
+              const date = new Date(e.target.value);
+              onUpdateConfig(
+                "delayUntil",
+                Number.isNaN(date.getTime()) ? "" : date.toISOString()
+              );
+            }}
+            type="datetime-local"
+            value={toDateTimeLocal((config?.delayUntil as string) || "")}
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="delayAmount">Duracao</Label>
+            <Input
+              disabled={disabled}
+              id="delayAmount"
+              min={0}
+              onChange={(e) => onUpdateConfig("delayAmount", e.target.value)}
+              placeholder="30"
+              type="number"
+              value={(config?.delayAmount as string) || ""}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delayUnit">Unidade</Label>
+            <Select
+              disabled={disabled}
+              onValueChange={(value) => onUpdateConfig("delayUnit", value)}
+              value={(config?.delayUnit as string) || "minutes"}
+            >
+              <SelectTrigger className="w-full" id="delayUnit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(WAIT_UNIT_LABELS) as WaitUnit[]).map((unit) => (
+                  <SelectItem key={unit} value={unit}>
+                    {WAIT_UNIT_LABELS[unit]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
       <p className="text-muted-foreground text-xs">
-        Wait before continuing to the next node.
+        {legacyDelayMs
+          ? `Atraso atual: ${String(config.delayMs)} ms. Informe a duracao para substituir.`
+          : `O fluxo pausa e continua sozinho no horario (maximo de ${WORKFLOW_WAIT_MAX_DAYS} dias).`}
       </p>
-    </div>
+    </>
+  );
+}
+
+function ForEachFields({
+  config,
+  onUpdateConfig,
+  disabled,
+}: {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+}) {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="items">Lista</Label>
+        <TemplateBadgeInput
+          disabled={disabled}
+          id="items"
+          onChange={(value) => onUpdateConfig("items", value)}
+          placeholder="{{HTTP Request.data.items}}"
+          value={(config?.items as string) || ""}
+        />
+        <p className="text-muted-foreground text-xs">
+          Lista JSON de uma etapa anterior ou um item por linha. Use @ para
+          referenciar o item atual nas etapas ligadas a saida &quot;cada
+          item&quot;.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="maxIterations">Maximo de itens</Label>
+          <Input
+            disabled={disabled}
+            id="maxIterations"
+            max={FOR_EACH_MAX_ITERATIONS}
+            min={1}
+            onChange={(e) => onUpdateConfig("maxIterations", e.target.value)}
+            placeholder={String(FOR_EACH_DEFAULT_MAX_ITERATIONS)}
+            type="number"
+            value={(config?.maxIterations as string) || ""}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="itemVariable">Variavel do item</Label>
+          <Input
+            disabled={disabled}
+            id="itemVariable"
+            onChange={(e) => onUpdateConfig("itemVariable", e.target.value)}
+            placeholder="item"
+            value={(config?.itemVariable as string) || ""}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="onItemError">Se um item falhar</Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("onItemError", value)}
+          value={(config?.onItemError as string) || "stop"}
+        >
+          <SelectTrigger className="w-full" id="onItemError">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="stop">Parar o fluxo</SelectItem>
+            <SelectItem value="continue">Seguir para o proximo item</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Itens acima do maximo (ate {FOR_EACH_MAX_ITERATIONS}) sao ignorados.
+        Delay e Perguntar nao podem ser usados dentro do loop.
+      </p>
+    </>
+  );
+}
+
+function CallWorkflowFields({
+  config,
+  onUpdateConfig,
+  disabled,
+}: {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+}) {
+  const currentWorkflowId = useAtomValue(currentWorkflowIdAtom);
+  const { data: workflows = [] } = useQuery({
+    queryKey: ["builder-workflows"],
+    queryFn: api.workflow.getAll,
+  });
+  // Only published workflows can be called
+  const callableWorkflows = workflows.filter(
+    (workflow) =>
+      workflow.id !== currentWorkflowId && workflow.lastPublishedVersion
+  );
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="targetWorkflowId">Fluxo</Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("targetWorkflowId", value)}
+          value={(config?.targetWorkflowId as string) || ""}
+        >
+          <SelectTrigger className="w-full" id="targetWorkflowId">
+            <SelectValue placeholder="Selecione um fluxo publicado" />
+          </SelectTrigger>
+          <SelectContent>
+            {callableWorkflows.map((workflow) => (
+              <SelectItem key={workflow.id} value={workflow.id}>
+                {workflow.name} (v{workflow.lastPublishedVersion})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="inputMapping">Entrada</Label>
+        <TemplateBadgeTextarea
+          disabled={disabled}
+          id="inputMapping"
+          onChange={(value) => onUpdateConfig("inputMapping", value)}
+          placeholder={"cpf: {{Extrair dados.cpf}}\nemail: {{var.email}}"}
+          rows={4}
+          value={(config?.inputMapping as string) || ""}
+        />
+        <p className="text-muted-foreground text-xs">
+          Um campo por linha (chave: valor) ou um objeto JSON. O fluxo chamado
+          recebe esses campos como dados do gatilho.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="inheritTrigger">Dados do gatilho atual</Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("inheritTrigger", value)}
+          value={(config?.inheritTrigger as string) || "on"}
+        >
+          <SelectTrigger className="w-full" id="inheritTrigger">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="on">Repassar (mesmo contato)</SelectItem>
+            <SelectItem value="off">Enviar so a entrada</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Roda a versao publicada e devolve a saida da ultima etapa e as
+        variaveis do fluxo chamado. Fluxos com Delay ou Perguntar nao
+        podem ser chamados.
+      </p>
+    </>
   );
 }
 
@@ -350,6 +592,22 @@ export function SystemActionFields({
           onUpdateConfig={onUpdateConfig}
         />
       );
+    case "For Each":
+      return (
+        <ForEachFields
+          config={config}
+          disabled={disabled}
+          onUpdateConfig={onUpdateConfig}
+        />
+      );
+    case "Call Workflow":
+      return (
+        <CallWorkflowFields
+          config={config}
+          disabled={disabled}
+          onUpdateConfig={onUpdateConfig}
+        />
+      );
     case "Set Variable":
       return (
         <VariableFields
@@ -0,0 +1,122 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/builder/ui/button";
+import { Input } from "@/components/builder/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/builder/ui/select";
+import {
+  isValidKeywordRegex,
+  KEYWORD_MATCH_MODE_LABELS,
+  KEYWORD_MATCH_MODES,
+  KEYWORD_REGEX_MAX_CHARS,
+  type KeywordMatchMode,
+  type KeywordRule,
+} from "@/lib/business/workflow";
+
+type KeywordRulesEditorProps = {
+  rules: KeywordRule[];
+  onChange: (rules: KeywordRule[]) => void;
+  disabled?: boolean;
+};
+
+const MODE_PLACEHOLDERS: Record<KeywordMatchMode, string> = {
+  exact: "cardapio",
+  starts_with: "quero comprar",
+  contains: "preco",
+  regex: "^pedido\\s*\\d+",
+  fuzzy: "orcamento",
+};
+
+export function KeywordRulesEditor({
+  rules,
+  onChange,
+  disabled,
+}: KeywordRulesEditorProps) {
+  const updateRule = (index: number, updates: Partial<KeywordRule>) => {
+    const next = [...rules];
+    next[index] = { ...next[index], ...updates };
+    onChange(next);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  const addRule = () => {
+    onChange([...rules, { value: "", mode: "contains" }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule, index) => {
+        const invalidRegex =
+          rule.mode === "regex" &&
+          rule.value.trim() !== "" &&
+          !isValidKeywordRegex(rule.value);
+
+        return (
+          <div className="space-y-1" key={index}>
+            <div className="flex gap-2">
+              <Select
+                disabled={disabled}
+                onValueChange={(value) =>
+                  updateRule(index, { mode: value as KeywordMatchMode })
+                }
+                value={rule.mode}
+              >
+                <SelectTrigger className="w-36 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KEYWORD_MATCH_MODES.map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {KEYWORD_MATCH_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                aria-invalid={invalidRegex}
+                className={rule.mode === "regex" ? "font-mono text-xs" : ""}
+                disabled={disabled}
+                maxLength={rule.mode === "regex" ? KEYWORD_REGEX_MAX_CHARS : undefined}
+                onChange={(e) => updateRule(index, { value: e.target.value })}
+                placeholder={MODE_PLACEHOLDERS[rule.mode]}
+                value={rule.value}
+              />
+              <Button
+                disabled={disabled}
+                onClick={() => removeRule(index)}
+                size="icon"
+                variant="ghost"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {invalidRegex && (
+              <p className="ml-1 text-destructive text-xs">
+                Expressao regular invalida
+              </p>
+            )}
+          </div>
+        );
+      })}
+      <Button
+        className="w-full"
+        disabled={disabled}
+        onClick={addRule}
+        size="sm"
+        variant="outline"
+      >
+        <Plus className="h-4 w-4" />
+        Adicionar palavra-chave
+      </Button>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { Clock, Copy, Hash, Play, Webhook } from "lucide-react";
+import { Clock, Copy, Hash, Play, Sparkles, Webhook } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/builder/ui/button";
 import { CodeEditor } from "@/components/builder/ui/code-editor";
@@ -15,7 +15,40 @@ import {
 } from "@/components/builder/ui/select";
 import { TimezoneSelect } from "@/components/builder/ui/timezone-select";
 import { TemplateBadgeTextarea } from "@/components/builder/ui/template-badge-textarea";
+import {
+  DEFAULT_INTENT_MIN_CONFIDENCE,
+  KEYWORD_MATCH_MODES,
+  parseKeywordRules,
+  serializeKeywordRules,
+  type KeywordRule,
+} from "@/lib/business/workflow";
+import { KeywordRulesEditor } from "./keyword-rules-editor";
 import { SchemaBuilder, type SchemaField } from "./schema-builder";
+import { TriggerTester } from "./trigger-tester";
+
+const INTENT_CONFIDENCE_OPTIONS = ["0.5", "0.6", "0.7", "0.8", "0.9"];
+
+/**
+ * Regras em edicao: mantem as linhas ainda vazias (o parser as descarta) e
+ * converte a lista antiga (keywordList) na primeira edicao.
+ */
+function getEditableKeywordRules(config: Record<string, unknown>): KeywordRule[] {
+  const raw = config?.keywordRules;
+  if (typeof raw === "string" && raw.trim()) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) {
+        return parsed.map((rule) => ({
+          value: typeof rule?.value === "string" ? rule.value : "",
+          mode: KEYWORD_MATCH_MODES.includes(rule?.mode) ? rule.mode : "exact",
+        }));
+      }
+    } catch {
+      // JSON invalido: usa o parser padrao
+    }
+  }
+  return parseKeywordRules(config);
+}
 
 type TriggerConfigProps = {
   config: Record<string, unknown>;
@@ -68,6 +101,12 @@ export function TriggerConfig({
                 Palavras-chave
               </div>
             </SelectItem>
+            <SelectItem value="Intent">
+              <div className="flex items-center gap-2">
+                <Sparkles className="h-4 w-4" />
+                Intencao (IA)
+              </div>
+            </SelectItem>
             <SelectItem value="Schedule">
               <div className="flex items-center gap-2">
                 <Clock className="h-4 w-4" />
@@ -155,23 +194,105 @@ export function TriggerConfig({
 
       {/* Keywords fields */}
       {config?.triggerType === "Keywords" && (
+        <div className="space-y-2">
+          <Label className="ml-1">Palavras-chave</Label>
+          <KeywordRulesEditor
+            disabled={disabled}
+            onChange={(rules) =>
+              onUpdateConfig("keywordRules", serializeKeywordRules(rules))
+            }
+            rules={getEditableKeywordRules(config)}
+          />
+          <p className="text-muted-foreground text-xs">
+            Dispara quando a mensagem recebida casa com qualquer regra.
+            Acentos, maiusculas e pontuacao sao ignorados (exceto em regex).
+          </p>
+        </div>
+      )}
+
+      {/* Intent fields */}
+      {config?.triggerType === "Intent" && (
         <>
           <div className="space-y-2">
-            <Label className="ml-1" htmlFor="keywordList">
-              Palavras-chave (uma por linha)
+            <Label className="ml-1" htmlFor="intentDescription">
+              O que o cliente quer
             </Label>
             <TemplateBadgeTextarea
               disabled={disabled}
-              id="keywordList"
-              onChange={(value) => onUpdateConfig("keywordList", value)}
-              placeholder={"preco\nvendas\norcamento\nsuporte"}
-              rows={6}
-              value={(config?.keywordList as string) || ""}
+              id="intentDescription"
+              onChange={(value) => onUpdateConfig("intentDescription", value)}
+              placeholder="Cliente quer cancelar a assinatura ou o pedido"
+              rows={3}
+              value={(config?.intentDescription as string) || ""}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="ml-1" htmlFor="intentExamples">
+              Exemplos de mensagens (uma por linha)
+            </Label>
+            <TemplateBadgeTextarea
+              disabled={disabled}
+              id="intentExamples"
+              onChange={(value) => onUpdateConfig("intentExamples", value)}
+              placeholder={"nao quero mais\ncomo faco para cancelar?"}
+              rows={4}
+              value={(config?.intentExamples as string) || ""}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="ml-1" htmlFor="intentMinConfidence">
+              Confianca minima
+            </Label>
+            <Select
+              disabled={disabled}
+              onValueChange={(value) =>
+                onUpdateConfig("intentMinConfidence", value)
+              }
+              value={
+                (config?.intentMinConfidence as string) ||
+                String(DEFAULT_INTENT_MIN_CONFIDENCE)
+              }
+            >
+              <SelectTrigger className="w-full" id="intentMinConfidence">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INTENT_CONFIDENCE_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {Math.round(Number(option) * 100)}%
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-muted-foreground text-xs">
+              A IA so e consultada quando nenhum fluxo de palavras-chave casa.
+            </p>
+          </div>
+        </>
+      )}
+
+      {/* Message trigger priority + tester */}
+      {(config?.triggerType === "Keywords" ||
+        config?.triggerType === "Intent") && (
+        <>
+          <div className="space-y-2">
+            <Label className="ml-1" htmlFor="triggerPriority">
+              Prioridade
+            </Label>
+            <Input
+              disabled={disabled}
+              id="triggerPriority"
+              onChange={(e) => onUpdateConfig("triggerPriority", e.target.value)}
+              placeholder="0"
+              step={1}
+              type="number"
+              value={(config?.triggerPriority as string) || ""}
             />
             <p className="text-muted-foreground text-xs">
-              Dispara quando a mensagem recebida contem qualquer palavra-chave.
+              Quando mais de um fluxo casa, vence o de maior prioridade.
             </p>
           </div>
+          <TriggerTester config={config} workflowId={workflowId} />
         </>
       )}
 
@@ -0,0 +1,108 @@
+"use client";
+
+import { FlaskConical, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/builder/ui/button";
+import { Input } from "@/components/builder/ui/input";
+import { Label } from "@/components/builder/ui/label";
+import { api } from "@/lib/builder/api-client";
+import {
+  KEYWORD_MATCH_MODE_LABELS,
+  type KeywordMatchMode,
+} from "@/lib/business/workflow";
+
+type TriggerTesterProps = {
+  config: Record<string, unknown>;
+  workflowId?: string;
+};
+
+type TriggerTestResult = Awaited<ReturnType<typeof api.workflow.testTrigger>>;
+
+function describeResult(result: TriggerTestResult): string {
+  if (!result.workflowId) {
+    return "Nenhum fluxo dispararia para esta mensagem.";
+  }
+  const target = result.isCurrentWorkflow
+    ? "Este fluxo"
+    : `O fluxo "${result.workflowName || result.workflowId}"`;
+
+  if (result.match?.kind === "keywords") {
+    const mode =
+      KEYWORD_MATCH_MODE_LABELS[result.match.rule.mode as KeywordMatchMode] ||
+      result.match.rule.mode;
+    return `${target} dispararia pela palavra-chave "${result.match.rule.value}" (${mode}, prioridade ${result.match.priority}).`;
+  }
+  if (result.match?.kind === "intent") {
+    const confidence = Math.round(result.match.confidence * 100);
+    return `${target} dispararia pela intencao (confianca ${confidence}%)${result.match.reason ? `: ${result.match.reason}` : "."}`;
+  }
+  return `${target} dispararia como fluxo padrao (nenhum gatilho casou).`;
+}
+
+/**
+ * Simula uma mensagem recebida contra os fluxos publicados, usando o gatilho
+ * em edicao deste fluxo.
+ */
+export function TriggerTester({ config, workflowId }: TriggerTesterProps) {
+  const [message, setMessage] = useState("");
+  const [result, setResult] = useState<TriggerTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const handleTest = async () => {
+    if (!workflowId || !message.trim()) return;
+    setIsTesting(true);
+    try {
+      setResult(await api.workflow.testTrigger(workflowId, message, config));
+    } catch (error) {
+      setResult(null);
+      toast.error(
+        error instanceof Error ? error.message : "Falha ao testar o gatilho"
+      );
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="ml-1" htmlFor="triggerTestMessage">
+        Testar mensagem
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          disabled={!workflowId || isTesting}
+          id="triggerTestMessage"
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleTest();
+            }
+          }}
+          placeholder="Ex.: quanto custa o plano mensal?"
+          value={message}
+        />
+        <Button
+          disabled={!workflowId || isTesting || !message.trim()}
+          onClick={handleTest}
+          size="icon"
+          variant="outline"
+        >
+          {isTesting ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <FlaskConical className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+      <p className="text-muted-foreground text-xs">
+        {result
+          ? describeResult(result)
+          : workflowId
+            ? "Mostra qual fluxo dispararia, considerando a prioridade dos outros fluxos publicados."
+            : "Salve o fluxo para testar o gatilho."}
+      </p>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useCallback, useEffect, useRef } from "react";
 import { useAtomValue, useSetAtom } from "jotai";
 import { api } from "@/lib/builder/api-client";
 import { integrationsAtom } from "@/lib/builder/integrations-store";
-import { findActionById } from "@/lib/builder/plugins";
+import { findActionById, isNativeIntegration } from "@/lib/builder/plugins";
 import type { IntegrationType } from "@/lib/builder/types/integration";
 import {
   isWorkflowOwnerAtom,
@@ -105,7 +105,7 @@ export function useAutoSelectIntegration(selectedNode: WorkflowNode | null) {
         (action?.integration as IntegrationType | undefined) ||
         SYSTEM_ACTION_INTEGRATIONS[actionType];
 
-      if (!integrationType) {
+      if (!integrationType || isNativeIntegration(integrationType)) {
         // No integration needed, remove from pending
         setPendingIntegrationNodes((prev: Set<string>) => {
           const next = new Set(prev);
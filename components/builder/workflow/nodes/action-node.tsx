@@ -1,6 +1,6 @@
 "use client";
 
-import type { NodeProps } from "@xyflow/react";
+import { Handle, Position, type NodeProps } from "@xyflow/react";
 import { useAtomValue } from "jotai";
 import {
   AlertTriangle,
@@ -9,11 +9,14 @@ import {
   Database,
   EyeOff,
   GitBranch,
+  Hourglass,
+  Repeat,
+  Workflow,
   XCircle,
   Zap,
 } from "lucide-react";
 import Image from "next/image";
-import { memo, useState } from "react";
+import { Fragment, memo, useState } from "react";
 import {
   Node,
   NodeDescription,
@@ -31,7 +34,23 @@ import {
   selectedExecutionIdAtom,
   type WorkflowNodeData,
 } from "@/lib/builder/workflow-store";
-import { findActionById, getIntegration } from "@/lib/builder/plugins";
+import {
+  findActionById,
+  getIntegration,
+  isNativeIntegration,
+} from "@/lib/builder/plugins";
+import {
+  AI_FALLBACK_HANDLE,
+  AI_MODEL_DEFAULT,
+  FOR_EACH_ITEM_HANDLE,
+  formatWaitDuration,
+  isAiMockMode,
+  parseAiCategories,
+  REPLY_TIMEOUT_HANDLE,
+  resolveDelayResumeAt,
+  resolveReplyTimeoutAt,
+} from "@/lib/business/workflow";
+import { AI_PROVIDERS } from "@/lib/ai/providers";
 
 // Helper to get display name for AI model
 const getModelDisplayName = (modelId: string): string => {
@@ -68,7 +87,13 @@ const getModelDisplayName = (modelId: string): string => {
     "openai/dall-e-3": "DALL-E 3",
     "google/imagen-4.0-generate": "Imagen 4.0",
   };
-  return modelNames[modelId] || modelId;
+  return (
+    modelNames[modelId] ||
+    AI_PROVIDERS.flatMap((provider) => provider.models).find(
+      (model) => model.id === modelId
+    )?.name ||
+    modelId
+  );
 };
 
 // System action labels (non-plugin actions)
@@ -78,6 +103,8 @@ const SYSTEM_ACTION_LABELS: Record<string, string> = {
   Condition: "Condicao",
   "Execute Code": "Sistema",
   Delay: "Atraso",
+  "For Each": "Loop",
+  "Call Workflow": "Subfluxo",
   "Set Variable": "Variáveis",
   "Get Variable": "Variáveis",
 };
@@ -118,9 +145,9 @@ const requiresIntegration = (actionType: string): boolean => {
     return true;
   }
 
-  // Plugin actions always require integration
+  // Plugin actions require integration, except native ones (contacts)
   const action = findActionById(actionType);
-  return action !== undefined;
+  return action !== undefined && !isNativeIntegration(action.integration);
 };
 
 // Helper to get provider logo for action type
@@ -136,7 +163,11 @@ const getProviderLogo = (actionType: string) => {
     case "Condition":
       return <GitBranch className="size-12 text-pink-300" strokeWidth={1.5} />;
     case "Delay":
-      return <AlertTriangle className="size-12 text-yellow-300" strokeWidth={1.5} />;
+      return <Hourglass className="size-12 text-yellow-300" strokeWidth={1.5} />;
+    case "For Each":
+      return <Repeat className="size-12 text-violet-300" strokeWidth={1.5} />;
+    case "Call Workflow":
+      return <Workflow className="size-12 text-teal-300" strokeWidth={1.5} />;
     case "Set Variable":
     case "Get Variable":
       return <Code className="size-12 text-cyan-300" strokeWidth={1.5} />;
@@ -188,6 +219,49 @@ const StatusBadge = ({
   );
 };
 
+const isAskQuestionNode = (actionType: string): boolean =>
+  actionType === "Ask Question" ||
+  findActionById(actionType)?.slug === "ask-question";
+
+const isAiNode = (actionType: string): boolean =>
+  findActionById(actionType)?.integration === "ai";
+
+const isClassifyNode = (actionType: string): boolean => {
+  const action = findActionById(actionType);
+  return action?.integration === "ai" && action.slug === "classify";
+};
+
+// Wait shown on Delay and Ask Question (reply timeout) nodes
+const getWaitLabel = (
+  actionType: string,
+  config: Record<string, unknown> = {}
+): string | null => {
+  // Durations are resolved from the epoch, so resumeAt is the duration itself
+  const epoch = new Date(0);
+  if (actionType === "Delay") {
+    if (config.delayMode === "until") {
+      const until = new Date(String(config.delayUntil || ""));
+      return Number.isNaN(until.getTime())
+        ? null
+        : `Ate ${until.toLocaleString("pt-BR", {
+            day: "2-digit",
+            month: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+          })}`;
+    }
+    const delay = resolveDelayResumeAt(config, epoch);
+    return delay.ok ? formatWaitDuration(delay.resumeAt.getTime()) : null;
+  }
+  if (isAskQuestionNode(actionType)) {
+    const timeout = resolveReplyTimeoutAt(config, epoch);
+    return timeout?.ok
+      ? `Sem resposta: ${formatWaitDuration(timeout.resumeAt.getTime())}`
+      : null;
+  }
+  return null;
+};
+
 // Model badge component for AI nodes
 const ModelBadge = ({ model }: { model: string }) => {
   if (!model) {
@@ -339,10 +413,22 @@ export const ActionNode = memo(({ data, selected, id }: ActionNodeProps) => {
         (data.config?.imageModel as string) || "google/imagen-4.0-generate"
       );
     }
+    if (isAiNode(actionType)) {
+      const model = (data.config?.aiModel as string) || AI_MODEL_DEFAULT;
+      return model === AI_MODEL_DEFAULT ? null : model;
+    }
     return null;
   };
 
   const aiModel = getAiModel();
+  const waitLabel = getWaitLabel(actionType, data.config);
+  const hasReplyTimeout =
+    isAskQuestionNode(actionType) && waitLabel !== null;
+  const isMockAi = isAiNode(actionType) && isAiMockMode(data.config?.mockMode);
+  // Classify has one source handle per category instead of the default one
+  const categories = isClassifyNode(actionType)
+    ? parseAiCategories(data.config?.categories)
+    : null;
   const isDisabled = data.enabled === false;
 
   return (
@@ -353,7 +439,7 @@ export const ActionNode = memo(({ data, selected, id }: ActionNodeProps) => {
         isDisabled && "opacity-50"
       )}
       data-testid={`action-node-${id}`}
-      handles={{ target: true, source: true }}
+      handles={{ target: true, source: categories === null }}
       status={status}
     >
       {/* Disabled badge in top left */}
@@ -390,8 +476,82 @@ export const ActionNode = memo(({ data, selected, id }: ActionNodeProps) => {
           )}
           {/* Model badge for AI nodes */}
           {aiModel && <ModelBadge model={aiModel} />}
+          {waitLabel && (
+            <div className="rounded-full border border-muted-foreground/50 px-2 py-0.5 font-medium text-[10px] text-muted-foreground">
+              {waitLabel}
+            </div>
+          )}
+          {isMockAi && (
+            <div className="rounded-full border border-amber-400/50 px-2 py-0.5 font-medium text-[10px] text-amber-400">
+              Modo mock
+            </div>
+          )}
         </div>
       </div>
+
+      {/* Classify branches: one per category, plus "no category" below */}
+      {categories?.map((category, index) => {
+        const top = `${((index + 1) / (categories.length + 1)) * 100}%`;
+        return (
+          <Fragment key={category.handle}>
+            <Handle
+              id={category.handle}
+              position={Position.Right}
+              style={{ top }}
+              type="source"
+            />
+            <span
+              className="-translate-y-1/2 absolute right-3 max-w-16 truncate text-[10px] text-muted-foreground"
+              style={{ top }}
+            >
+              {category.name}
+            </span>
+          </Fragment>
+        );
+      })}
+      {categories && (
+        <>
+          <Handle
+            className="!bg-amber-400"
+            id={AI_FALLBACK_HANDLE}
+            position={Position.Bottom}
+            type="source"
+          />
+          <span className="-translate-x-1/2 absolute bottom-2 left-1/2 text-[10px] text-amber-400">
+            sem categoria
+          </span>
+        </>
+      )}
+
+      {/* For Each: the body runs once per item from this handle */}
+      {actionType === "For Each" && (
+        <>
+          <Handle
+            className="!bg-violet-400"
+            id={FOR_EACH_ITEM_HANDLE}
+            position={Position.Bottom}
+            type="source"
+          />
+          <span className="-translate-x-1/2 absolute bottom-2 left-1/2 text-[10px] text-violet-400">
+            cada item
+          </span>
+        </>
+      )}
+
+      {/* "No reply" path of Ask Question with a reply timeout */}
+      {hasReplyTimeout && (
+        <>
+          <Handle
+            className="!bg-amber-400"
+            id={REPLY_TIMEOUT_HANDLE}
+            position={Position.Bottom}
+            type="source"
+          />
+          <span className="-translate-x-1/2 absolute bottom-2 left-1/2 text-[10px] text-amber-400">
+            sem resposta
+          </span>
+        </>
+      )}
     </Node>
   );
 });
@@ -6,13 +6,14 @@ import { CollapsibleSection } from "./collapsible-section";
 import { JsonWithLinks } from "./json-with-links";
 import { OutputDisplay } from "./output-display";
 import type { ExecutionLogEntryProps } from "./types";
-import { formatDuration } from "./utils";
+import { formatDuration, getNestedLogLabel } from "./utils";
 
 /**
  * Component for rendering individual execution log entries
  */
 export function ExecutionLogEntry({
   log,
+  depth = 0,
   isExpanded,
   onToggle,
   getStatusIcon,
@@ -20,8 +21,14 @@ export function ExecutionLogEntry({
   isFirst,
   isLast,
 }: ExecutionLogEntryProps) {
+  const nestedLabel = getNestedLogLabel(log);
+
   return (
-    <div className="relative flex gap-3" key={log.id}>
+    <div
+      className="relative flex gap-3"
+      key={log.id}
+      style={depth > 0 ? { marginLeft: depth * 16 } : undefined}
+    >
       {/* Timeline connector */}
       <div className="relative -ml-px flex flex-col items-center pt-2">
         {!isFirst && (
@@ -59,6 +66,11 @@ export function ExecutionLogEntry({
                 <span className="truncate font-medium text-sm transition-colors group-hover:text-foreground">
                   {log.nodeName || log.nodeType}
                 </span>
+                {nestedLabel && (
+                  <span className="shrink-0 rounded-full border border-muted-foreground/50 px-2 py-0.5 font-medium text-[10px] text-muted-foreground">
+                    {nestedLabel}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -5,7 +5,7 @@ import { cn } from "@/lib/builder/utils";
 import { getRelativeTime } from "@/lib/builder/utils/time";
 import { ExecutionLogEntry } from "./execution-log-entry";
 import type { RunListItemProps } from "./types";
-import { formatDuration } from "./utils";
+import { formatDuration, getLogDepths } from "./utils";
 
 /**
  * Component for rendering a single execution run item
@@ -24,6 +24,8 @@ export function RunListItem({
   getStatusIcon,
   getStatusDotClass,
 }: RunListItemProps) {
+  const logDepths = getLogDepths(executionLogs);
+
   return (
     <div
       className={cn(
@@ -103,6 +105,7 @@ export function RunListItem({
             <div className="p-4">
               {executionLogs.map((log, logIndex) => (
                 <ExecutionLogEntry
+                  depth={logDepths.get(log.id)}
                   getStatusDotClass={getStatusDotClass}
                   getStatusIcon={getStatusIcon}
                   isExpanded={expandedLogs.has(log.id)}
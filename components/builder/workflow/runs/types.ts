@@ -32,6 +32,8 @@ export type WorkflowRunsProps = {
 
 export type ExecutionLogEntryProps = {
   log: ExecutionLog;
+  /** Nesting level (steps run by a For Each iteration or a called workflow) */
+  depth?: number;
   isExpanded: boolean;
   onToggle: () => void;
   getStatusIcon: (status: string) => JSX.Element;
@@ -60,6 +60,53 @@ export function createExecutionLogsMap(logs: ExecutionLog[]): ExecutionLogsMap {
   return logsMap;
 }
 
+// Nodes that run other steps inside the run; their log input lists those nodes
+const NESTING_NODE_TYPES = new Set(["For Each", "Call Workflow"]);
+
+function getNestedNodeIds(log: ExecutionLog): Set<string> | null {
+  if (!NESTING_NODE_TYPES.has(log.nodeType)) {
+    return null;
+  }
+  const nodeIds = (log.input as { nodeIds?: unknown } | null)?.nodeIds;
+  return Array.isArray(nodeIds) ? new Set(nodeIds.map(String)) : null;
+}
+
+/**
+ * Nesting level of each log (by log id): steps run by a For Each iteration or
+ * by a called workflow are indented under the log of that node
+ */
+export function getLogDepths(logs: ExecutionLog[]): Map<string, number> {
+  const depths = new Map<string, number>();
+  const scopes: Set<string>[] = [];
+  for (const log of logs) {
+    while (scopes.length > 0 && !scopes[scopes.length - 1].has(log.nodeId)) {
+      scopes.pop();
+    }
+    depths.set(log.id, scopes.length);
+    const nodeIds = getNestedNodeIds(log);
+    if (nodeIds) {
+      scopes.push(nodeIds);
+    }
+  }
+  return depths;
+}
+
+/**
+ * Short label for For Each iterations ("Item 2/5") and called workflows
+ */
+export function getNestedLogLabel(log: ExecutionLog): string | null {
+  const input = (log.input ?? {}) as Record<string, unknown>;
+  if (log.nodeType === "For Each" && typeof input.iteration === "number") {
+    return `Item ${input.iteration}/${String(input.total ?? "?")}`;
+  }
+  if (log.nodeType === "Call Workflow" && typeof input.workflowName === "string") {
+    return typeof input.version === "number"
+      ? `${input.workflowName} v${input.version}`
+      : input.workflowName;
+  }
+  return null;
+}
+
 /**
  * Check if a string is a URL
  */
@@ -8,6 +8,7 @@ import {
   findActionById,
   flattenConfigFields,
   getIntegrationLabels,
+  isNativeIntegration,
 } from "@/lib/builder/plugins";
 import type {
   MissingIntegrationInfo,
@@ -243,7 +244,7 @@ export function getMissingIntegrations(
     const requiredIntegrationType =
       action?.integration || BUILTIN_ACTION_INTEGRATIONS[actionType];
 
-    if (!requiredIntegrationType) {
+    if (!requiredIntegrationType || isNativeIntegration(requiredIntegrationType)) {
       continue;
     }
 
@@ -16,6 +16,10 @@ import {
   CampaignPerformancePanel,
   CampaignTelemetryPanel,
   CampaignFlowPanel,
+  CampaignAbTestPanel,
+  CampaignLinksPanel,
+  CampaignConversionsPanel,
+  CampaignSequencePanel,
   MessageLogTable,
   PreparingCampaignView,
   CampaignDetailsViewProps,
@@ -48,12 +52,16 @@ export const CampaignDetailsView: React.FC<CampaignDetailsViewProps> = ({
   onCancelSchedule,
   onCancelSend,
   onResendSkipped,
+  onRolloutAbTest,
+  onToggleRecurrence,
   isPausing,
   isResuming,
   isStarting,
   isCancelingSchedule,
   isCancelingSend,
   isResendingSkipped,
+  isRollingOutAbTest,
+  isUpdatingRecurrence,
   canPause,
   canResume,
   canStart,
@@ -216,6 +224,27 @@ export const CampaignDetailsView: React.FC<CampaignDetailsViewProps> = ({
       {/* Flow/MiniApp Panel - exibido apenas se a campanha usa Flow */}
       <CampaignFlowPanel campaign={campaign} />
 
+      {/* A/B Test Panel - exibido apenas se a campanha tem teste A/B */}
+      <CampaignAbTestPanel
+        abTest={metrics?.abTest}
+        onRolloutWinner={onRolloutAbTest}
+        isRollingOut={isRollingOutAbTest}
+      />
+
+      {/* Links rastreados - exibido apenas se a campanha rastreia botões de URL */}
+      <CampaignLinksPanel links={metrics?.links} />
+
+      {/* Conversões - receita atribuída, ROAS e custo por conversão */}
+      <CampaignConversionsPanel conversions={metrics?.conversions} />
+
+      {/* Recorrência / sequência - execuções e etapas (campanhas-filhas) */}
+      <CampaignSequencePanel
+        campaign={campaign}
+        navigate={navigate}
+        onToggleRecurrence={onToggleRecurrence}
+        isUpdatingRecurrence={isUpdatingRecurrence}
+      />
+
       {/* Performance Panel - Dev only */}
       {isDevMode && (
         <CampaignPerformancePanel
@@ -0,0 +1,160 @@
+'use client';
+
+import React from 'react';
+import { FlaskConical, Trophy, Send, Loader2, Clock } from 'lucide-react';
+import { AB_TEST_METRIC_LABELS } from '@/lib/business/campaign/ab-testing';
+import type { CampaignAbTestStatus } from '@/types';
+import type { CampaignAbTestPanelProps, CampaignAbTestVariantMetrics } from './types';
+
+const STATUS_LABELS: Record<CampaignAbTestStatus, string> = {
+  testing: 'Testando variantes',
+  waiting: 'Aguardando vencedor',
+  rolling_out: 'Enviando vencedor',
+  completed: 'Concluído',
+};
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const FunnelRow: React.FC<{ label: string; count: number; rate: number | null; highlight?: boolean }> = ({
+  label,
+  count,
+  rate,
+  highlight,
+}) => (
+  <div>
+    <div className="flex items-center justify-between text-xs mb-1">
+      <span className={highlight ? 'text-primary-400 font-medium' : 'text-gray-400'}>{label}</span>
+      <span className="text-gray-300 font-mono">
+        {count.toLocaleString('pt-BR')}
+        {rate !== null && <span className="text-gray-500"> · {formatPercent(rate)}</span>}
+      </span>
+    </div>
+    <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+      <div
+        className={`h-full rounded-full ${highlight ? 'bg-primary-500' : 'bg-zinc-500'}`}
+        style={{ width: `${Math.min(100, Math.max(0, (rate ?? 1) * 100))}%` }}
+      />
+    </div>
+  </div>
+);
+
+/**
+ * Painel do teste A/B
+ * Exibe o funil por variante (enviadas → entregues → lidas → cliques → respostas do Flow)
+ * e permite enviar o vencedor antes do prazo configurado.
+ */
+export const CampaignAbTestPanel: React.FC<CampaignAbTestPanelProps> = ({ abTest, onRolloutWinner, isRollingOut }) => {
+  if (!abTest || !Array.isArray(abTest.variants) || abTest.variants.length === 0) return null;
+
+  const { config, variants } = abTest;
+  const status = config.status || 'testing';
+  const canRollout = status === 'waiting' && Boolean(onRolloutWinner);
+  const rolloutAtDisplay = config.rolloutAt
+    ? new Date(config.rolloutAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+    : null;
+
+  const isMetricHighlight = (metric: typeof config.metric) => config.metric === metric;
+
+  const renderVariant = (variant: CampaignAbTestVariantMetrics) => {
+    const isWinner = variant.isWinner || config.winnerVariantId === variant.id;
+    return (
+      <div
+        key={variant.id}
+        className={`bg-zinc-800/50 border rounded-lg p-4 ${isWinner ? 'border-primary-500/50' : 'border-white/5'}`}
+      >
+        <div className="flex items-start justify-between gap-2 mb-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold text-white">Variante {variant.label}</span>
+              {isWinner && (
+                <span className="inline-flex items-center gap-1 text-xs text-primary-400">
+                  <Trophy size={12} /> Vencedora
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 font-mono truncate" title={variant.templateName}>
+              {variant.templateName}
+            </p>
+          </div>
+          {canRollout && (
+            <button
+              type="button"
+              onClick={() => onRolloutWinner?.(variant.id)}
+              disabled={isRollingOut}
+              className="shrink-0 text-xs px-2 py-1 rounded-md border border-white/10 text-gray-300 hover:text-white hover:bg-white/5 disabled:opacity-50 transition-colors"
+            >
+              Enviar esta
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <FunnelRow label="Enviadas" count={variant.stats.sent} rate={null} />
+          <FunnelRow label="Entregues" count={variant.stats.delivered} rate={variant.rates.deliveryRate} />
+          <FunnelRow
+            label="Lidas"
+            count={variant.stats.read}
+            rate={variant.rates.readRate}
+            highlight={isMetricHighlight('read_rate')}
+          />
+          <FunnelRow
+            label="Cliques em botão"
+            count={variant.stats.clicked}
+            rate={variant.rates.clickRate}
+            highlight={isMetricHighlight('click_rate')}
+          />
+          <FunnelRow
+            label="Respostas (Flow)"
+            count={variant.stats.submitted}
+            rate={variant.rates.submissionRate}
+            highlight={isMetricHighlight('submission_rate')}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-white/10 rounded-xl p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary-500/20 flex items-center justify-center">
+            <FlaskConical size={20} className="text-primary-400" />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <h3 className="font-semibold text-white">Teste A/B</h3>
+              <span className="text-xs text-gray-400">{STATUS_LABELS[status]}</span>
+            </div>
+            <p className="text-sm text-gray-400">
+              {config.testPercent}% da audiência · vencedor por {AB_TEST_METRIC_LABELS[config.metric].toLowerCase()}
+            </p>
+          </div>
+        </div>
+
+        {canRollout && (
+          <button
+            type="button"
+            onClick={() => onRolloutWinner?.()}
+            disabled={isRollingOut}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {isRollingOut ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+            Enviar vencedor agora
+          </button>
+        )}
+      </div>
+
+      <div className={`grid gap-4 ${variants.length > 2 ? 'md:grid-cols-2 xl:grid-cols-4' : 'md:grid-cols-2'}`}>
+        {variants.map(renderVariant)}
+      </div>
+
+      {status === 'waiting' && rolloutAtDisplay && (
+        <p className="flex items-center justify-center gap-1.5 text-xs text-gray-500 mt-4">
+          <Clock size={12} />
+          O vencedor será enviado automaticamente ao restante da audiência em {rolloutAtDisplay}.
+        </p>
+      )}
+    </div>
+  );
+};
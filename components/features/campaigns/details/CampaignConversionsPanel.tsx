@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import { DollarSign } from 'lucide-react';
+import { useExchangeRate } from '@/hooks/useExchangeRate';
+import { computeConversionMetrics } from '@/lib/business/conversions';
+import { usdToBrl } from '@/lib/whatsapp-pricing';
+import type { CampaignConversionsPanelProps } from './types';
+
+const formatMoney = (value: number, currency: string) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+
+const Metric: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-zinc-800/50 border border-white/5 rounded-lg p-4">
+    <p className="text-xs text-gray-400 mb-1">{label}</p>
+    <p className="text-xl font-bold text-white font-mono">{value}</p>
+    {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+  </div>
+);
+
+/**
+ * Painel de conversões
+ * Receita atribuída à campanha (API de conversões), ROAS e custo por conversão
+ * sobre o custo estimado das mensagens entregues (tabela de preços da Meta).
+ */
+export const CampaignConversionsPanel: React.FC<CampaignConversionsPanelProps> = ({ conversions }) => {
+  const { rate } = useExchangeRate();
+
+  if (!conversions || conversions.totalConversions === 0) return null;
+
+  const { currency, revenue, costUsd, billableMessages, byCurrency } = conversions;
+
+  // Custo vem em USD: converte para a moeda da receita quando possível
+  const cost = currency === 'USD' ? costUsd : currency === 'BRL' && rate ? usdToBrl(costUsd, rate) : null;
+  const { roas, costPerConversion } = computeConversionMetrics({
+    revenue,
+    conversions: conversions.conversions,
+    cost: cost ?? 0,
+  });
+
+  return (
+    <div className="bg-zinc-900/50 border border-white/10 rounded-xl p-6 mt-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center">
+          <DollarSign size={20} className="text-emerald-400" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-white">Conversões</h3>
+          <p className="text-sm text-gray-400">
+            {conversions.totalConversions.toLocaleString('pt-BR')} venda(s) atribuída(s) à campanha
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+        <Metric label="Receita" value={formatMoney(revenue, currency)} />
+        <Metric
+          label="Custo estimado"
+          value={cost !== null ? formatMoney(cost, currency) : formatMoney(costUsd, 'USD')}
+          hint={`${billableMessages.toLocaleString('pt-BR')} mensagens entregues`}
+        />
+        <Metric label="ROAS" value={cost !== null && roas !== null ? `${roas.toFixed(2)}x` : '—'} />
+        <Metric
+          label="Custo por conversão"
+          value={cost !== null && costPerConversion !== null ? formatMoney(costPerConversion, currency) : '—'}
+        />
+      </div>
+
+      {byCurrency.length > 1 && (
+        <p className="text-xs text-gray-500 mt-4">
+          Também há vendas em outras moedas (fora do ROAS):{' '}
+          {byCurrency
+            .slice(1)
+            .map((s) => `${formatMoney(s.revenue, s.currency)} (${s.conversions})`)
+            .join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+'use client';
+
+import React from 'react';
+import { MousePointerClick, ExternalLink } from 'lucide-react';
+import type { CampaignLinksPanelProps } from './types';
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+/**
+ * Painel de links rastreados
+ * Exibe o CTR da campanha (contatos que clicaram / entregues) e os cliques por botão de URL.
+ */
+export const CampaignLinksPanel: React.FC<CampaignLinksPanelProps> = ({ links }) => {
+  if (!links || !Array.isArray(links.buttons) || links.buttons.length === 0) return null;
+
+  const { clicks, delivered, clickThroughRate, buttons } = links;
+
+  return (
+    <div className="bg-zinc-900/50 border border-white/10 rounded-xl p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-amber-500/20 flex items-center justify-center">
+            <MousePointerClick size={20} className="text-amber-400" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-white">Cliques em links</h3>
+            <p className="text-sm text-gray-400">
+              {clicks.toLocaleString('pt-BR')} de {delivered.toLocaleString('pt-BR')} entregues clicaram
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-white font-mono">{formatPercent(clickThroughRate)}</p>
+          <p className="text-xs text-gray-500">CTR</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {buttons.map((button) => {
+          const share = clicks > 0 ? Math.min(1, button.uniqueClickers / clicks) : 0;
+          return (
+            <div key={button.buttonIndex} className="bg-zinc-800/50 border border-white/5 rounded-lg p-4">
+              <div className="flex items-center justify-between gap-3 text-xs mb-2">
+                <div className="min-w-0">
+                  <span className="text-sm font-semibold text-white">Botão {button.buttonIndex + 1}</span>
+                  {button.url && (
+                    <a
+                      href={button.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-gray-500 hover:text-gray-300 font-mono truncate"
+                      title={button.url}
+                    >
+                      <ExternalLink size={11} className="shrink-0" />
+                      <span className="truncate">{button.url}</span>
+                    </a>
+                  )}
+                </div>
+                <span className="shrink-0 text-gray-300 font-mono">
+                  {button.uniqueClickers.toLocaleString('pt-BR')} contatos
+                  <span className="text-gray-500"> · {button.clicks.toLocaleString('pt-BR')} cliques</span>
+                </span>
+              </div>
+              <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                <div className="h-full rounded-full bg-amber-500" style={{ width: `${share * 100}%` }} />
+              </div>
+              {button.lastClickedAt && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Último clique em{' '}
+                  {new Date(button.lastClickedAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
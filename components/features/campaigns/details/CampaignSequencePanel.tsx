@@ -0,0 +1,133 @@
+'use client';
+
+import React from 'react';
+import { Repeat, ListOrdered, CornerLeftUp, Pause, Play, Loader2, ChevronRight } from 'lucide-react';
+import { DRIP_CONDITION_LABELS } from '@/lib/business/campaign/scheduling';
+import { getCampaignStatusClass, formatScheduledTime } from './utils';
+import type { CampaignSequencePanelProps } from './types';
+
+/**
+ * Painel de recorrência / sequência (drip)
+ * Mostra a configuração e as campanhas-filhas (execuções do cron ou etapas de follow-up),
+ * cada uma com seus próprios contadores.
+ */
+export const CampaignSequencePanel: React.FC<CampaignSequencePanelProps> = ({
+  campaign,
+  navigate,
+  onToggleRecurrence,
+  isUpdatingRecurrence,
+}) => {
+  const recurrence = campaign.recurrence;
+  const dripSteps = campaign.dripSteps || [];
+  const children = campaign.children || [];
+  const parent = campaign.parentCampaign;
+
+  if (!recurrence && dripSteps.length === 0 && children.length === 0 && !parent) return null;
+
+  const isDripChild = Boolean(parent) && (campaign.sequenceStep ?? 0) >= 2;
+
+  return (
+    <div className="bg-zinc-900/50 border border-white/10 rounded-xl p-6 mt-6">
+      {parent && (
+        <button
+          type="button"
+          onClick={() => navigate(`/campaigns/${parent.id}`)}
+          className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors mb-4"
+        >
+          <CornerLeftUp size={14} />
+          {isDripChild ? `Etapa ${campaign.sequenceStep} da sequência de` : 'Execução da campanha recorrente'}
+          <span className="text-white">{parent.name}</span>
+        </button>
+      )}
+
+      {recurrence && (
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-500/20 flex items-center justify-center">
+              <Repeat size={20} className="text-primary-400" />
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                <h3 className="font-semibold text-white">Campanha recorrente</h3>
+                <span className={`text-xs ${recurrence.active ? 'text-primary-400' : 'text-amber-400'}`}>
+                  {recurrence.active ? 'Ativa' : 'Pausada'}
+                </span>
+              </div>
+              <p className="text-sm text-gray-400">
+                <span className="font-mono">{recurrence.cron}</span> · {recurrence.timezone}
+                {' · '}
+                {recurrence.runCount ?? 0} execução(ões)
+                {recurrence.lastRunAt && <> · última em {formatScheduledTime(recurrence.lastRunAt)}</>}
+              </p>
+            </div>
+          </div>
+
+          {onToggleRecurrence && (
+            <button
+              type="button"
+              onClick={() => onToggleRecurrence(!recurrence.active)}
+              disabled={isUpdatingRecurrence}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm border border-white/10 text-gray-300 hover:text-white hover:bg-white/5 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              {isUpdatingRecurrence
+                ? <Loader2 size={14} className="animate-spin" />
+                : recurrence.active ? <Pause size={14} /> : <Play size={14} />}
+              {recurrence.active ? 'Pausar' : 'Retomar'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {dripSteps.length > 0 && (
+        <div className="mb-4">
+          <div className="flex items-center gap-2 mb-2">
+            <ListOrdered size={16} className="text-primary-400" />
+            <h3 className="text-sm font-semibold text-white">Sequência</h3>
+          </div>
+          <ol className="space-y-1 text-sm text-gray-400">
+            <li>
+              <span className="text-gray-500">1.</span> {campaign.templateName} <span className="text-gray-500">· envio inicial</span>
+            </li>
+            {dripSteps.map((step, index) => (
+              <li key={index}>
+                <span className="text-gray-500">{index + 2}.</span> {step.templateName}{' '}
+                <span className="text-gray-500">
+                  · {step.delayDays} dia(s) depois · {DRIP_CONDITION_LABELS[step.condition].toLowerCase()}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {children.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs uppercase tracking-widest text-gray-500">
+            {recurrence ? 'Execuções' : 'Etapas enviadas'}
+          </h4>
+          {children.map((child) => (
+            <button
+              key={child.id}
+              type="button"
+              onClick={() => navigate(`/campaigns/${child.id}`)}
+              className="w-full flex items-center justify-between gap-3 bg-zinc-800/50 border border-white/5 hover:border-white/10 rounded-lg px-4 py-3 text-left transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">{child.name}</p>
+                <p className="text-xs text-gray-500">
+                  {child.recipients} destinatário(s) · {child.sent} enviadas · {child.delivered} entregues · {child.read} lidas
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className={`text-xs px-2 py-0.5 rounded-full border ${getCampaignStatusClass(child.status)}`}>
+                  {child.status}
+                </span>
+                <ChevronRight size={14} className="text-gray-500" />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -8,6 +8,10 @@ export { CampaignStatsGrid } from './CampaignStatsGrid';
 export { CampaignPerformancePanel } from './CampaignPerformancePanel';
 export { CampaignTelemetryPanel } from './CampaignTelemetryPanel';
 export { CampaignFlowPanel } from './CampaignFlowPanel';
+export { CampaignAbTestPanel } from './CampaignAbTestPanel';
+export { CampaignLinksPanel } from './CampaignLinksPanel';
+export { CampaignConversionsPanel } from './CampaignConversionsPanel';
+export { CampaignSequencePanel } from './CampaignSequencePanel';
 export { MessageLogTable } from './MessageLogTable';
 
 // Types
@@ -21,6 +25,14 @@ export type {
   CampaignStatsGridProps,
   CampaignPerformancePanelProps,
   CampaignTelemetryPanelProps,
+  CampaignAbTestMetrics,
+  CampaignAbTestVariantMetrics,
+  CampaignAbTestPanelProps,
+  CampaignLinkMetrics,
+  CampaignLinksPanelProps,
+  CampaignConversionMetrics,
+  CampaignConversionsPanelProps,
+  CampaignSequencePanelProps,
   MessageLogTableProps,
   PreparingCampaignViewProps,
   TemplatePreviewModalProps,
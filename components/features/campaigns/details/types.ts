@@ -1,4 +1,5 @@
-import { Campaign, CampaignStatus, Message, MessageStatus, RealtimeLatencyTelemetry } from '@/types';
+import { Campaign, CampaignAbTest, CampaignConversionStats, CampaignLinkStats, CampaignStatus, CampaignTrackedLink, CampaignVariant, CampaignVariantStats, Message, MessageStatus, RealtimeLatencyTelemetry } from '@/types';
+import type { VariantRates } from '@/lib/business/campaign/ab-testing';
 
 // Navigate function type compatible with Next.js
 export type NavigateFn = (path: string, options?: { replace?: boolean }) => void;
@@ -49,12 +50,16 @@ export interface CampaignDetailsViewProps {
   onCancelSchedule?: () => void;
   onCancelSend?: () => void;
   onResendSkipped?: () => void;
+  onRolloutAbTest?: (variantId?: string) => void;
+  onToggleRecurrence?: (active: boolean) => void;
   isPausing?: boolean;
   isResuming?: boolean;
   isStarting?: boolean;
   isCancelingSchedule?: boolean;
   isCancelingSend?: boolean;
   isResendingSkipped?: boolean;
+  isRollingOutAbTest?: boolean;
+  isUpdatingRecurrence?: boolean;
   canPause?: boolean;
   canResume?: boolean;
   canStart?: boolean;
@@ -134,6 +139,57 @@ export interface CampaignPerformancePanelProps {
   limiterInfo: { value: string; subvalue: string; color: string };
 }
 
+export interface CampaignAbTestVariantMetrics extends CampaignVariant {
+  stats: CampaignVariantStats;
+  rates: VariantRates;
+}
+
+// Shape de metrics.abTest retornado por /api/campaigns/[id]/metrics
+export interface CampaignAbTestMetrics {
+  config: CampaignAbTest;
+  variants: CampaignAbTestVariantMetrics[];
+}
+
+export interface CampaignAbTestPanelProps {
+  abTest?: CampaignAbTestMetrics | null;
+  onRolloutWinner?: (variantId?: string) => void;
+  isRollingOut?: boolean;
+}
+
+// Shape de metrics.links retornado por /api/campaigns/[id]/metrics
+export interface CampaignLinkMetrics {
+  trackedLinks: CampaignTrackedLink[];
+  clicks: number;
+  delivered: number;
+  clickThroughRate: number;
+  buttons: CampaignLinkStats[];
+}
+
+export interface CampaignLinksPanelProps {
+  links?: CampaignLinkMetrics | null;
+}
+
+// Shape de metrics.conversions retornado por /api/campaigns/[id]/metrics
+// (campos de topo = moeda com maior receita)
+export interface CampaignConversionMetrics extends CampaignConversionStats {
+  totalConversions: number;
+  byCurrency: CampaignConversionStats[];
+  category: string;
+  billableMessages: number;
+  costUsd: number;
+}
+
+export interface CampaignConversionsPanelProps {
+  conversions?: CampaignConversionMetrics | null;
+}
+
+export interface CampaignSequencePanelProps {
+  campaign: Campaign;
+  navigate: NavigateFn;
+  onToggleRecurrence?: (active: boolean) => void;
+  isUpdatingRecurrence?: boolean;
+}
+
 export interface CampaignTelemetryPanelProps {
   telemetry: RealtimeLatencyTelemetry;
 }
@@ -3,7 +3,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import dynamic from 'next/dynamic';
 import { Trash2, UploadCloud, Download, FileText, Plus } from 'lucide-react';
-import { Contact, ContactStatus, CustomFieldDefinition } from '../../../types';
+import { Contact, ContactLifecycleStage, ContactStatus, CustomFieldDefinition } from '../../../types';
 import { CustomFieldsSheet } from './CustomFieldsSheet';
 import { Page, PageActions, PageDescription, PageHeader, PageTitle } from '@/components/ui/page';
 import { Container } from '@/components/ui/container';
@@ -53,6 +53,8 @@ export interface ContactListViewProps {
   onStatusFilterChange: (status: ContactStatus | 'ALL' | 'SUPPRESSED') => void;
   tagFilter: string;
   onTagFilterChange: (tag: string) => void;
+  stageFilter: ContactLifecycleStage | 'ALL';
+  onStageFilterChange: (stage: ContactLifecycleStage | 'ALL') => void;
 
   // Pagination
   currentPage: number;
@@ -104,6 +106,8 @@ export const ContactListView: React.FC<ContactListViewProps> = ({
   onStatusFilterChange,
   tagFilter,
   onTagFilterChange,
+  stageFilter,
+  onStageFilterChange,
   currentPage,
   totalPages,
   totalFiltered,
@@ -164,13 +168,14 @@ export const ContactListView: React.FC<ContactListViewProps> = ({
 
   // Computed values
   const showSuppressionDetails = statusFilter === 'SUPPRESSED';
-  const hasActiveFilters = statusFilter !== 'ALL' || tagFilter !== 'ALL' || !!searchTerm;
+  const hasActiveFilters = statusFilter !== 'ALL' || tagFilter !== 'ALL' || stageFilter !== 'ALL' || !!searchTerm;
 
   const handleClearFilters = useCallback(() => {
     onSearchChange('');
     onStatusFilterChange('ALL');
     onTagFilterChange('ALL');
-  }, [onSearchChange, onStatusFilterChange, onTagFilterChange]);
+    onStageFilterChange('ALL');
+  }, [onSearchChange, onStatusFilterChange, onTagFilterChange, onStageFilterChange]);
 
   // Memoized toggle handler to prevent ContactFilters re-render
   const handleToggleFilters = useCallback(() => setShowFilters((prev) => !prev), []);
@@ -324,6 +329,8 @@ export const ContactListView: React.FC<ContactListViewProps> = ({
           tagFilter={tagFilter}
           onTagFilterChange={onTagFilterChange}
           tags={tags}
+          stageFilter={stageFilter}
+          onStageFilterChange={onStageFilterChange}
           showFilters={showFilters}
           onToggleFilters={handleToggleFilters}
         />
@@ -0,0 +1,332 @@
+'use client'
+
+import { Plus, Trash2, FolderPlus, Activity } from 'lucide-react'
+import {
+  SEGMENT_ENGAGEMENT_LABELS,
+  SEGMENT_FIELD_LABELS,
+  SEGMENT_FIELD_OPERATORS,
+  SEGMENT_OPERATOR_LABELS,
+  SEGMENT_RULES,
+  createEmptySegment,
+  createEngagementCondition,
+  createSegmentCondition,
+} from '@/lib/business/audience/segments'
+import type {
+  SegmentCondition,
+  SegmentEngagementCondition,
+  SegmentEngagementEvent,
+  SegmentField,
+  SegmentGroup,
+  SegmentOperator,
+  SegmentRule,
+} from '@/types'
+
+export interface SegmentBuilderProps {
+  value: SegmentGroup
+  onChange: (value: SegmentGroup) => void
+  /** Sugestões para condições de tags */
+  tagOptions?: string[]
+  /** Chaves de campos personalizados disponíveis */
+  customFieldKeys?: string[]
+}
+
+const inputClass =
+  'rounded-lg border border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)] px-2 py-1.5 text-xs text-[var(--ds-text-primary)] placeholder:text-[var(--ds-text-muted)]'
+
+const LIST_OPERATORS: SegmentOperator[] = ['in_list', 'not_in_list']
+const VALUELESS_OPERATORS: SegmentOperator[] = ['exists', 'not_exists']
+const VALUE_PLACEHOLDERS: Partial<Record<SegmentField, string>> = {
+  ddi: 'ex.: 55',
+  uf: 'ex.: SP',
+  lifecycle_stage: 'new, engaged, dormant, churned',
+  engagement_score: '0-100',
+}
+
+function ConditionEditor({
+  condition,
+  onChange,
+  tagOptions,
+  customFieldKeys,
+}: {
+  condition: SegmentCondition
+  onChange: (next: SegmentCondition) => void
+  tagOptions: string[]
+  customFieldKeys: string[]
+}) {
+  const operators = SEGMENT_FIELD_OPERATORS[condition.field]
+  const isList = LIST_OPERATORS.includes(condition.operator)
+  const isDate = condition.operator === 'before' || condition.operator === 'after'
+  const isNumeric = condition.operator === 'greater_than' || condition.operator === 'less_than'
+
+  return (
+    <>
+      <select
+        value={condition.field}
+        onChange={(e) => onChange({ ...createSegmentCondition(e.target.value as SegmentField), key: condition.key })}
+        className={inputClass}
+      >
+        {(Object.keys(SEGMENT_FIELD_LABELS) as SegmentField[]).map((field) => (
+          <option key={field} value={field}>{SEGMENT_FIELD_LABELS[field]}</option>
+        ))}
+      </select>
+
+      {condition.field === 'custom_field' && (
+        <select
+          value={condition.key || ''}
+          onChange={(e) => onChange({ ...condition, key: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">Campo...</option>
+          {customFieldKeys.map((key) => (
+            <option key={key} value={key}>{key}</option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value={condition.operator}
+        onChange={(e) => {
+          const operator = e.target.value as SegmentOperator
+          const wasList = LIST_OPERATORS.includes(condition.operator)
+          const nextIsList = LIST_OPERATORS.includes(operator)
+          onChange({ ...condition, operator, value: wasList === nextIsList ? condition.value : nextIsList ? [] : '' })
+        }}
+        className={inputClass}
+      >
+        {operators.map((op) => (
+          <option key={op} value={op}>{SEGMENT_OPERATOR_LABELS[op]}</option>
+        ))}
+      </select>
+
+      {!VALUELESS_OPERATORS.includes(condition.operator) && (
+        isList ? (
+          <input
+            value={Array.isArray(condition.value) ? condition.value.join(', ') : ''}
+            onChange={(e) => onChange({ ...condition, value: e.target.value.split(',').map((v) => v.trimStart()) })}
+            placeholder="valor1, valor2"
+            className={`${inputClass} min-w-40 flex-1`}
+          />
+        ) : (
+          <input
+            type={isDate ? 'date' : isNumeric ? 'number' : 'text'}
+            list={condition.field === 'tags' ? 'segment-builder-tags' : undefined}
+            value={Array.isArray(condition.value) ? '' : String(condition.value ?? '')}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder={VALUE_PLACEHOLDERS[condition.field] || 'valor'}
+            className={`${inputClass} min-w-32 flex-1`}
+          />
+        )
+      )}
+
+      {condition.field === 'tags' && (
+        <datalist id="segment-builder-tags">
+          {tagOptions.map((tag) => <option key={tag} value={tag} />)}
+        </datalist>
+      )}
+    </>
+  )
+}
+
+function EngagementEditor({
+  condition,
+  onChange,
+}: {
+  condition: SegmentEngagementCondition
+  onChange: (next: SegmentEngagementCondition) => void
+}) {
+  return (
+    <>
+      <select
+        value={condition.negate ? 'no' : 'yes'}
+        onChange={(e) => onChange({ ...condition, negate: e.target.value === 'no' })}
+        className={inputClass}
+      >
+        <option value="yes">Fez</option>
+        <option value="no">Não fez</option>
+      </select>
+
+      <select
+        value={condition.event}
+        onChange={(e) => onChange({ ...createEngagementCondition(e.target.value as SegmentEngagementEvent), negate: condition.negate, withinDays: condition.withinDays })}
+        className={inputClass}
+      >
+        {(Object.keys(SEGMENT_ENGAGEMENT_LABELS) as SegmentEngagementEvent[]).map((event) => (
+          <option key={event} value={event}>{SEGMENT_ENGAGEMENT_LABELS[event]}</option>
+        ))}
+      </select>
+
+      {condition.event === 'submitted_flow' && (
+        <input
+          value={condition.flowId || ''}
+          onChange={(e) => onChange({ ...condition, flowId: e.target.value || null })}
+          placeholder="ID do Flow (opcional)"
+          className={`${inputClass} min-w-32 flex-1`}
+        />
+      )}
+
+      {condition.event === 'clicked_button' && (
+        <input
+          value={condition.buttonText || ''}
+          onChange={(e) => onChange({ ...condition, buttonText: e.target.value || null })}
+          placeholder="Texto do botão (opcional)"
+          className={`${inputClass} min-w-32 flex-1`}
+        />
+      )}
+
+      {condition.event === 'clicked_link' && (
+        <input
+          value={condition.campaignId || ''}
+          onChange={(e) => onChange({ ...condition, campaignId: e.target.value || null })}
+          placeholder="ID da campanha (opcional)"
+          className={`${inputClass} min-w-32 flex-1`}
+        />
+      )}
+
+      <div className="flex items-center gap-1 text-xs text-[var(--ds-text-muted)]">
+        <span>nos últimos</span>
+        <input
+          type="number"
+          min={1}
+          max={SEGMENT_RULES.MAX_WITHIN_DAYS}
+          value={condition.withinDays ?? ''}
+          onChange={(e) => onChange({ ...condition, withinDays: e.target.value ? Number(e.target.value) : null })}
+          placeholder="∞"
+          className={`${inputClass} w-16`}
+        />
+        <span>dias</span>
+      </div>
+    </>
+  )
+}
+
+function GroupEditor({
+  group,
+  onChange,
+  onRemove,
+  depth,
+  tagOptions,
+  customFieldKeys,
+}: {
+  group: SegmentGroup
+  onChange: (next: SegmentGroup) => void
+  onRemove?: () => void
+  depth: number
+  tagOptions: string[]
+  customFieldKeys: string[]
+}) {
+  const updateRule = (index: number, next: SegmentRule) =>
+    onChange({ ...group, rules: group.rules.map((rule, i) => (i === index ? next : rule)) })
+  const removeRule = (index: number) => onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) })
+  const addRule = (rule: SegmentRule) => onChange({ ...group, rules: [...group.rules, rule] })
+
+  return (
+    <div
+      className={`space-y-2 rounded-xl border p-3 ${
+        depth === 1
+          ? 'border-[var(--ds-border-default)] bg-[var(--ds-bg-elevated)]'
+          : 'border-dashed border-[var(--ds-border-strong)] bg-[var(--ds-bg-surface)]'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs text-[var(--ds-text-secondary)]">
+          <span>Contatos que atendem</span>
+          <select
+            value={group.combinator}
+            onChange={(e) => onChange({ ...group, combinator: e.target.value as SegmentGroup['combinator'] })}
+            className={inputClass}
+          >
+            <option value="and">TODAS (E)</option>
+            <option value="or">QUALQUER (OU)</option>
+          </select>
+          <span>as condições</span>
+        </div>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="text-[var(--ds-text-muted)] hover:text-red-400" title="Remover grupo">
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-xs text-[var(--ds-text-muted)]">Sem condições: inclui todos os contatos.</p>
+      )}
+
+      {group.rules.map((rule, index) =>
+        rule.type === 'group' ? (
+          <GroupEditor
+            key={index}
+            group={rule}
+            onChange={(next) => updateRule(index, next)}
+            onRemove={() => removeRule(index)}
+            depth={depth + 1}
+            tagOptions={tagOptions}
+            customFieldKeys={customFieldKeys}
+          />
+        ) : (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            {index > 0 && (
+              <span className="text-[10px] font-semibold uppercase tracking-widest text-emerald-700 dark:text-emerald-300">
+                {group.combinator === 'and' ? 'E' : 'OU'}
+              </span>
+            )}
+            {rule.type === 'condition' ? (
+              <ConditionEditor
+                condition={rule}
+                onChange={(next) => updateRule(index, next)}
+                tagOptions={tagOptions}
+                customFieldKeys={customFieldKeys}
+              />
+            ) : (
+              <EngagementEditor condition={rule} onChange={(next) => updateRule(index, next)} />
+            )}
+            <button type="button" onClick={() => removeRule(index)} className="text-[var(--ds-text-muted)] hover:text-red-400" title="Remover condição">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        )
+      )}
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        <button
+          type="button"
+          onClick={() => addRule(createSegmentCondition())}
+          className="flex items-center gap-1 rounded-full border border-[var(--ds-border-default)] px-3 py-1 text-xs text-[var(--ds-text-secondary)] hover:text-[var(--ds-text-primary)]"
+        >
+          <Plus size={12} /> Condição
+        </button>
+        <button
+          type="button"
+          onClick={() => addRule(createEngagementCondition())}
+          className="flex items-center gap-1 rounded-full border border-[var(--ds-border-default)] px-3 py-1 text-xs text-[var(--ds-text-secondary)] hover:text-[var(--ds-text-primary)]"
+        >
+          <Activity size={12} /> Engajamento
+        </button>
+        {depth < SEGMENT_RULES.MAX_DEPTH && (
+          <button
+            type="button"
+            onClick={() => addRule(createEmptySegment(group.combinator === 'and' ? 'or' : 'and'))}
+            className="flex items-center gap-1 rounded-full border border-[var(--ds-border-default)] px-3 py-1 text-xs text-[var(--ds-text-secondary)] hover:text-[var(--ds-text-primary)]"
+          >
+            <FolderPlus size={12} /> Grupo
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Construtor de segmentos com grupos E/OU aninhados.
+ * Apenas edita a definição; contagem e avaliação acontecem no servidor.
+ */
+export function SegmentBuilder({ value, onChange, tagOptions = [], customFieldKeys = [] }: SegmentBuilderProps) {
+  return (
+    <GroupEditor
+      group={value}
+      onChange={onChange}
+      depth={1}
+      tagOptions={tagOptions}
+      customFieldKeys={customFieldKeys}
+    />
+  )
+}
@@ -3,6 +3,8 @@
 import React from 'react';
 import { Search, Filter } from 'lucide-react';
 import { ContactStatus, StatusOption } from './types';
+import { LIFECYCLE_STAGES, LIFECYCLE_STAGE_LABELS } from '@/lib/business/contact';
+import type { ContactLifecycleStage } from '@/types';
 
 export interface ContactFiltersProps {
   // Search
@@ -18,6 +20,10 @@ export interface ContactFiltersProps {
   onTagFilterChange: (tag: string) => void;
   tags: string[];
 
+  // Lifecycle stage filter
+  stageFilter: ContactLifecycleStage | 'ALL';
+  onStageFilterChange: (stage: ContactLifecycleStage | 'ALL') => void;
+
   // Filter visibility
   showFilters: boolean;
   onToggleFilters: () => void;
@@ -39,6 +45,8 @@ export const ContactFilters: React.FC<ContactFiltersProps> = ({
   tagFilter,
   onTagFilterChange,
   tags,
+  stageFilter,
+  onStageFilterChange,
   showFilters,
   onToggleFilters
 }) => {
@@ -61,7 +69,7 @@ export const ContactFilters: React.FC<ContactFiltersProps> = ({
       <div className="flex items-center gap-3">
         <button
           onClick={onToggleFilters}
-          className={`p-2.5 rounded-xl border transition-colors focus-visible:outline focus-visible:outline-2 focus-visible:outline-primary-500 focus-visible:outline-offset-2 ${showFilters || statusFilter !== 'ALL' || tagFilter !== 'ALL'
+          className={`p-2.5 rounded-xl border transition-colors focus-visible:outline focus-visible:outline-2 focus-visible:outline-primary-500 focus-visible:outline-offset-2 ${showFilters || statusFilter !== 'ALL' || tagFilter !== 'ALL' || stageFilter !== 'ALL'
             ? 'text-primary-400 bg-primary-500/10 border-primary-500/30'
             : 'text-[var(--ds-text-secondary)] hover:text-[var(--ds-text-primary)] hover:bg-[var(--ds-bg-hover)] border-[var(--ds-border-default)]'
             }`}
@@ -95,6 +103,19 @@ export const ContactFilters: React.FC<ContactFiltersProps> = ({
             <option key={tag} value={tag}>{tag}</option>
           ))}
         </select>
+
+        {/* Lifecycle Stage Filter */}
+        <select
+          value={stageFilter}
+          onChange={(e) => onStageFilterChange(e.target.value as ContactLifecycleStage | 'ALL')}
+          className="px-4 py-2.5 text-sm font-medium bg-[var(--ds-bg-elevated)] text-[var(--ds-text-primary)] hover:text-[var(--ds-text-primary)] rounded-xl border border-[var(--ds-border-default)] transition-colors outline-none cursor-pointer focus-visible:outline focus-visible:outline-2 focus-visible:outline-primary-500 focus-visible:outline-offset-2"
+          aria-label="Filtrar contatos por estágio"
+        >
+          <option value="ALL">Todos Estágios</option>
+          {LIFECYCLE_STAGES.map(stage => (
+            <option key={stage} value={stage}>{LIFECYCLE_STAGE_LABELS[stage]}</option>
+          ))}
+        </select>
       </div>
     </div>
   );
@@ -10,6 +10,8 @@ import { calculateRelativeTime, getContactInitials } from './utils';
 import { ContactCardList } from './ContactCard';
 import { useIsMobile } from '@/hooks/useMediaQuery';
 import { formatPhoneNumberDisplay } from '@/lib/phone-formatter';
+import { LIFECYCLE_STAGE_LABELS } from '@/lib/business/contact';
+import type { ContactLifecycleStage } from '@/types';
 
 export interface ContactTableProps {
   contacts: Contact[];
@@ -23,6 +25,13 @@ export interface ContactTableProps {
   onDeleteClick: (id: string) => void;
 }
 
+const STAGE_BADGE: Record<ContactLifecycleStage, 'info' | 'success' | 'warning' | 'error'> = {
+  new: 'info',
+  engaged: 'success',
+  dormant: 'warning',
+  churned: 'error',
+};
+
 export const ContactTable: React.FC<ContactTableProps> = ({
   contacts,
   isLoading,
@@ -35,7 +44,7 @@ export const ContactTable: React.FC<ContactTableProps> = ({
   onDeleteClick
 }) => {
   const isMobile = useIsMobile();
-  const tableColSpan = showSuppressionDetails ? 8 : 7;
+  const tableColSpan = showSuppressionDetails ? 9 : 8;
 
   // Mobile: render cards instead of table
   if (isMobile) {
@@ -72,6 +81,7 @@ export const ContactTable: React.FC<ContactTableProps> = ({
             <th scope="col" className="px-6 py-4 font-medium">Contato</th>
             <th scope="col" className="px-6 py-4 font-medium">Tags</th>
             <th scope="col" className="px-6 py-4 font-medium">Status</th>
+            <th scope="col" className="px-6 py-4 font-medium">Engajamento</th>
             {showSuppressionDetails && (
               <th scope="col" className="px-6 py-4 font-medium">Motivo</th>
             )}
@@ -180,6 +190,16 @@ const ContactTableRow = React.memo(
             {contact.status === ContactStatus.OPT_IN ? 'OPT_IN' : contact.status === ContactStatus.OPT_OUT ? 'OPT_OUT' : 'DESCONHECIDO'}
           </StatusBadge>
         </td>
+        <td className="px-6 py-5">
+          <div className="flex items-center gap-2">
+            <StatusBadge status={STAGE_BADGE[contact.lifecycleStage || 'new']} size="sm">
+              {LIFECYCLE_STAGE_LABELS[contact.lifecycleStage || 'new']}
+            </StatusBadge>
+            <span className="text-xs font-mono text-[var(--ds-text-muted)]" title="Score de engajamento (0-100)">
+              {contact.engagementScore ?? 0}
+            </span>
+          </div>
+        </td>
         {showSuppressionDetails && (
           <td className="px-6 py-5 text-xs text-[var(--ds-text-secondary)]">
             <div className="text-sm text-[var(--ds-text-primary)]">{contact.suppressionReason || '—'}</div>
@@ -7,7 +7,7 @@ import { formatDateFull } from '@/lib/date-formatter';
 import { Container } from '@/components/ui/container';
 import { StatCard } from '@/components/ui/stat-card';
 import { StatusBadge } from '@/components/ui/status-badge';
-import { Send, TrendingUp, AlertCircle, CheckCircle2, MoreHorizontal, ArrowUpRight } from 'lucide-react';
+import { Send, TrendingUp, AlertCircle, CheckCircle2, MoreHorizontal, ArrowUpRight, MousePointerClick } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from '@/components/ui/lazy-charts';
 import { Campaign, CampaignStatus } from '../../../types';
 import { DashboardStats } from '../../../services/dashboardService';
@@ -89,7 +89,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ stats, recentCampa
       </PageHeader>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6">
         <StatCard
           title="Total Enviado"
           value={stats.sent24h}
@@ -104,6 +104,13 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ stats, recentCampa
           color="emerald"
           loading={isLoading}
         />
+        <StatCard
+          title="Taxa de Cliques"
+          value={stats.clickThroughRate}
+          icon={MousePointerClick}
+          color="amber"
+          loading={isLoading}
+        />
         <StatCard
           title="Campanhas Ativas"
           value={stats.activeCampaigns}
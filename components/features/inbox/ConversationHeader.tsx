@@ -11,7 +11,9 @@
  */
 
 import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
 import { useAIAgentsGlobalToggle } from '@/hooks/useAIAgents'
+import { useInboxAssignees } from '@/hooks/useInboxQueues'
 import {
   Bot,
   User,
@@ -27,6 +29,7 @@ import {
   Trash2,
   Settings2,
   Brain,
+  UserCog,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -67,6 +70,8 @@ import type {
 } from '@/types'
 import { ContactMemoriesSheet } from './ContactMemoriesSheet'
 import { formatPhoneNumberDisplay } from '@/lib/phone-formatter'
+import { phoneNumberService } from '@/services/phoneNumberService'
+import { findPhoneNumber, getPhoneNumberDisplayName } from '@/lib/business/whatsapp'
 
 export interface ConversationHeaderProps {
   conversation: InboxConversation
@@ -76,6 +81,8 @@ export interface ConversationHeaderProps {
   onReopen: () => void
   onPriorityChange: (priority: ConversationPriority) => void
   onLabelToggle: (labelId: string) => void
+  /** Assign / reassign the conversation (null = unassigned) */
+  onAssign?: (userId: string | null) => void
   /** Transfer conversation to human agent (with optional reason/summary) */
   onHandoff?: (params?: { reason?: string; summary?: string; pauseMinutes?: number }) => void
   /** Return conversation to bot mode */
@@ -123,6 +130,7 @@ export function ConversationHeader({
   onReopen,
   onPriorityChange,
   onLabelToggle,
+  onAssign,
   onHandoff,
   onReturnToBot,
   onPause,
@@ -136,7 +144,7 @@ export function ConversationHeader({
   isResuming,
   isDeleting,
 }: ConversationHeaderProps) {
-  const { phone, contact, mode, status, priority, labels: conversationLabels, automation_paused_until, human_mode_expires_at, ai_agent } = conversation
+  const { phone, contact, mode, status, priority, labels: conversationLabels, automation_paused_until, human_mode_expires_at, ai_agent, assigned_user_id } = conversation
 
   // Delete confirmation dialog state
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
@@ -147,6 +155,19 @@ export function ConversationHeader({
   // Check if AI agents are globally enabled
   const { enabled: aiGlobalEnabled } = useAIAgentsGlobalToggle()
 
+  // Users who can receive conversations
+  const { assignees } = useInboxAssignees()
+  const assigneeName = assignees.find((a) => a.id === assigned_user_id)?.name
+
+  // Número que recebeu a conversa (só aparece quando o workspace tem mais de um)
+  const { data: phoneNumbers = [] } = useQuery({
+    queryKey: ['phone-numbers'],
+    queryFn: phoneNumberService.getAll,
+    staleTime: 5 * 60_000,
+  })
+  const receivingNumber =
+    phoneNumbers.length > 1 ? findPhoneNumber(phoneNumbers, conversation.phone_number_id) : undefined
+
   const displayName = contact?.name || phone
   const agentName = ai_agent?.name
   const initials = displayName
@@ -236,7 +257,11 @@ export function ConversationHeader({
               </Tooltip>
             )}
           </div>
-          <span className="text-[10px] text-[var(--ds-text-muted)]">{formatPhoneNumberDisplay(phone, 'e164')}</span>
+          <span className="text-[10px] text-[var(--ds-text-muted)]">
+            {formatPhoneNumberDisplay(phone, 'e164')}
+            {assigneeName && <> · {assigneeName}</>}
+            {receivingNumber && <> · via {getPhoneNumberDisplayName(receivingNumber)}</>}
+          </span>
         </div>
       </div>
 
@@ -338,6 +363,29 @@ export function ConversationHeader({
               </DropdownMenuSubContent>
             </DropdownMenuSub>
 
+            {/* Assignee submenu */}
+            {onAssign && assignees.length > 0 && (
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <UserCog className="h-4 w-4 mr-2" />
+                  Responsável
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuRadioGroup
+                    value={assigned_user_id ?? ''}
+                    onValueChange={(v) => onAssign(v || null)}
+                  >
+                    <DropdownMenuRadioItem value="">Sem responsável</DropdownMenuRadioItem>
+                    {assignees.map((assignee) => (
+                      <DropdownMenuRadioItem key={assignee.id} value={assignee.id}>
+                        {assignee.name}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            )}
+
             {/* Labels submenu */}
             {labels.length > 0 && (
               <DropdownMenuSub>
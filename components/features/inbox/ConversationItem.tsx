@@ -13,6 +13,7 @@
 import React, { memo } from 'react'
 import { cn } from '@/lib/utils'
 import { formatRelativeTime } from '@/lib/date-utils'
+import { getSlaState, SLA_STATUS_LABELS } from '@/lib/business/inbox'
 import type { InboxConversation } from '@/types'
 
 export interface ConversationItemProps {
@@ -53,6 +54,12 @@ export const ConversationItem = memo(function ConversationItem({
   // Format time
   const timeAgo = formatRelativeTime(last_message_at)
 
+  // SLA do atendimento humano (avaliado no render; a lista é atualizada via realtime)
+  const sla = getSlaState(conversation)
+  const slaTitle = sla.dueAt
+    ? `${sla.target === 'first_response' ? 'Primeira resposta' : 'Resolução'} até ${new Date(sla.dueAt).toLocaleString('pt-BR')}`
+    : undefined
+
   return (
     <button
       onClick={onClick}
@@ -111,6 +118,17 @@ export const ConversationItem = memo(function ConversationItem({
               fechada
             </span>
           )}
+          {sla.status !== 'ok' && (
+            <span
+              title={slaTitle}
+              className={cn(
+                'shrink-0 text-[9px] px-1 py-0.5 rounded',
+                sla.status === 'breached' ? 'text-red-300 bg-red-500/15' : 'text-amber-300 bg-amber-500/15'
+              )}
+            >
+              {SLA_STATUS_LABELS[sla.status].toLowerCase()}
+            </span>
+          )}
           <p
             className={cn(
               'text-[11px] truncate',
@@ -11,7 +11,7 @@
  */
 
 import React, { useState, useMemo } from 'react'
-import { Search, SlidersHorizontal, Bot, User, X, Inbox } from 'lucide-react'
+import { Search, SlidersHorizontal, Bot, User, UserCheck, UserX, X, Inbox, Clock, AlarmClock } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Input } from '@/components/ui/input'
 import {
@@ -25,7 +25,9 @@ import {
 import { ConversationItem } from './ConversationItem'
 import { AttendantsPopover } from './AttendantsPopover'
 import { InboxSettingsPopover } from './InboxSettingsPopover'
-import type { InboxConversation, InboxLabel, ConversationStatus, ConversationMode } from '@/types'
+import { InboxSearchResults } from './InboxSearchResults'
+import type { InboxConversation, InboxLabel, InboxSearchHit, ConversationStatus, ConversationMode } from '@/types'
+import type { ConversationAssignmentFilter, ConversationSort } from '@/services/inboxService'
 
 export interface ConversationListProps {
   conversations: InboxConversation[]
@@ -48,6 +50,17 @@ export interface ConversationListProps {
   onModeFilterChange: (mode: ConversationMode | null) => void
   labelFilter: string | null
   onLabelFilterChange: (labelId: string | null) => void
+  /** "Atribuídas a mim" / "Sem responsável" */
+  assignmentFilter?: ConversationAssignmentFilter | null
+  onAssignmentFilterChange?: (assignment: ConversationAssignmentFilter | null) => void
+  sortOrder?: ConversationSort
+  onSortOrderChange?: (sort: ConversationSort) => void
+
+  /** Busca textual: trechos de mensagens/transcrições que casam com a busca */
+  searchResults?: InboxSearchHit[]
+  searchTotal?: number
+  isSearchingMessages?: boolean
+  onSelectSearchResult?: (hit: InboxSearchHit) => void
 }
 
 export function ConversationList({
@@ -68,6 +81,14 @@ export function ConversationList({
   onModeFilterChange,
   labelFilter,
   onLabelFilterChange,
+  assignmentFilter = null,
+  onAssignmentFilterChange,
+  sortOrder = 'recent',
+  onSortOrderChange,
+  searchResults = [],
+  searchTotal = 0,
+  isSearchingMessages = false,
+  onSelectSearchResult,
 }: ConversationListProps) {
   const [showFilters, setShowFilters] = useState(false)
 
@@ -77,14 +98,16 @@ export function ConversationList({
     if (statusFilter) count++
     if (modeFilter) count++
     if (labelFilter) count++
+    if (assignmentFilter) count++
     return count
-  }, [statusFilter, modeFilter, labelFilter])
+  }, [statusFilter, modeFilter, labelFilter, assignmentFilter])
 
   // Clear all filters
   const clearFilters = () => {
     onStatusFilterChange(null)
     onModeFilterChange(null)
     onLabelFilterChange(null)
+    onAssignmentFilterChange?.(null)
     onSearchChange('')
   }
 
@@ -188,6 +211,59 @@ export function ConversationList({
                 Humano
               </DropdownMenuCheckboxItem>
 
+              {onAssignmentFilterChange && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-[10px] text-[var(--ds-text-muted)] uppercase tracking-wide">Atribuição</DropdownMenuLabel>
+                  <DropdownMenuCheckboxItem
+                    checked={assignmentFilter === null}
+                    onCheckedChange={() => onAssignmentFilterChange(null)}
+                    className="text-xs"
+                  >
+                    Todas
+                  </DropdownMenuCheckboxItem>
+                  <DropdownMenuCheckboxItem
+                    checked={assignmentFilter === 'me'}
+                    onCheckedChange={() => onAssignmentFilterChange('me')}
+                    className="text-xs"
+                  >
+                    <UserCheck className="h-3 w-3 mr-1.5" />
+                    Atribuídas a mim
+                  </DropdownMenuCheckboxItem>
+                  <DropdownMenuCheckboxItem
+                    checked={assignmentFilter === 'unassigned'}
+                    onCheckedChange={() => onAssignmentFilterChange('unassigned')}
+                    className="text-xs"
+                  >
+                    <UserX className="h-3 w-3 mr-1.5" />
+                    Sem responsável
+                  </DropdownMenuCheckboxItem>
+                </>
+              )}
+
+              {onSortOrderChange && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-[10px] text-[var(--ds-text-muted)] uppercase tracking-wide">Ordenar</DropdownMenuLabel>
+                  <DropdownMenuCheckboxItem
+                    checked={sortOrder === 'recent'}
+                    onCheckedChange={() => onSortOrderChange('recent')}
+                    className="text-xs"
+                  >
+                    <Clock className="h-3 w-3 mr-1.5" />
+                    Mais recentes
+                  </DropdownMenuCheckboxItem>
+                  <DropdownMenuCheckboxItem
+                    checked={sortOrder === 'sla'}
+                    onCheckedChange={() => onSortOrderChange('sla')}
+                    className="text-xs"
+                  >
+                    <AlarmClock className="h-3 w-3 mr-1.5" />
+                    Atrasadas primeiro (SLA)
+                  </DropdownMenuCheckboxItem>
+                </>
+              )}
+
               {labels.length > 0 && (
                 <>
                   <DropdownMenuSeparator />
@@ -258,7 +334,7 @@ export function ConversationList({
               </div>
             ))}
           </div>
-        ) : conversations.length === 0 ? (
+        ) : conversations.length === 0 && searchResults.length === 0 && !isSearchingMessages ? (
           // Empty state - minimal
           <div className="flex flex-col items-center justify-center h-48 text-center px-6">
             <div className="w-10 h-10 rounded-full bg-[var(--ds-bg-surface)]/50 flex items-center justify-center mb-2.5">
@@ -289,6 +365,15 @@ export function ConversationList({
                 onClick={() => onSelect(conversation.id)}
               />
             ))}
+            {onSelectSearchResult && (
+              <InboxSearchResults
+                results={searchResults}
+                total={searchTotal}
+                isSearching={isSearchingMessages}
+                selectedConversationId={selectedId}
+                onSelect={onSelectSearchResult}
+              />
+            )}
             {hasNextPage && (
               <div className="px-2 py-3 flex justify-center">
                 <button
@@ -0,0 +1,99 @@
+'use client'
+
+/**
+ * InboxSearchResults - Trechos encontrados pela busca textual
+ *
+ * Mensagens, transcrições, resumos de handoff e contatos que casam com a busca,
+ * com as palavras encontradas destacadas. Clicar abre a conversa na mensagem.
+ */
+
+import React, { memo } from 'react'
+import { Loader2, TextSearch } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatRelativeTime } from '@/lib/date-utils'
+import { INBOX_SEARCH_SOURCE_LABELS, toHighlightSegments } from '@/lib/business/inbox'
+import type { InboxSearchHit } from '@/types'
+
+export interface InboxSearchResultsProps {
+  results: InboxSearchHit[]
+  total: number
+  isSearching: boolean
+  selectedConversationId: string | null
+  onSelect: (hit: InboxSearchHit) => void
+}
+
+const SearchResultItem = memo(function SearchResultItem({
+  hit,
+  isSelected,
+  onClick,
+}: {
+  hit: InboxSearchHit
+  isSelected: boolean
+  onClick: () => void
+}) {
+  const segments = toHighlightSegments(hit.snippet, hit.highlights)
+
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'w-full px-2 py-2 text-left rounded-lg transition-all duration-150',
+        'hover:bg-[var(--ds-bg-hover)]',
+        isSelected && 'bg-[var(--ds-bg-surface)]/80'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-[var(--ds-text-primary)] truncate">
+          {hit.contact_name || hit.phone}
+        </span>
+        <span className="text-[10px] text-[var(--ds-text-muted)] shrink-0">
+          {formatRelativeTime(hit.matched_at)}
+        </span>
+      </div>
+      <p className="mt-0.5 text-[11px] leading-snug text-[var(--ds-text-secondary)] line-clamp-2 break-words">
+        {segments.map((segment, index) =>
+          segment.highlighted ? (
+            <mark key={index} className="bg-amber-400/25 text-[var(--ds-text-primary)] rounded-sm px-0.5">
+              {segment.text}
+            </mark>
+          ) : (
+            <React.Fragment key={index}>{segment.text}</React.Fragment>
+          )
+        )}
+      </p>
+      <span className="mt-0.5 block text-[10px] text-[var(--ds-text-muted)]">
+        {INBOX_SEARCH_SOURCE_LABELS[hit.source]}
+      </span>
+    </button>
+  )
+})
+
+export function InboxSearchResults({
+  results,
+  total,
+  isSearching,
+  selectedConversationId,
+  onSelect,
+}: InboxSearchResultsProps) {
+  if (!isSearching && results.length === 0) return null
+
+  return (
+    <div className="px-1.5 pt-2 pb-1">
+      <div className="flex items-center gap-1.5 px-2 pb-1">
+        <TextSearch className="h-3 w-3 text-[var(--ds-text-muted)]" />
+        <span className="text-[10px] uppercase tracking-wide text-[var(--ds-text-muted)]">
+          Nas mensagens{total > 0 ? ` (${total})` : ''}
+        </span>
+        {isSearching && <Loader2 className="h-3 w-3 animate-spin text-[var(--ds-text-muted)]" />}
+      </div>
+      {results.map((hit) => (
+        <SearchResultItem
+          key={`${hit.conversation_id}:${hit.message_id ?? hit.source}`}
+          hit={hit}
+          isSelected={selectedConversationId === hit.conversation_id}
+          onClick={() => onSelect(hit)}
+        />
+      ))}
+    </div>
+  )
+}
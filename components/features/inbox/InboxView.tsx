@@ -26,10 +26,12 @@ import type {
   InboxMessage,
   InboxLabel,
   InboxQuickReply,
+  InboxSearchHit,
   ConversationStatus,
   ConversationMode,
   ConversationPriority,
 } from '@/types'
+import type { ConversationAssignmentFilter, ConversationSort } from '@/services/inboxService'
 
 export interface InboxViewProps {
   // Conversations
@@ -77,6 +79,19 @@ export interface InboxViewProps {
   onModeFilterChange: (mode: ConversationMode | null) => void
   labelFilter: string | null
   onLabelFilterChange: (labelId: string | null) => void
+  assignmentFilter: ConversationAssignmentFilter | null
+  onAssignmentFilterChange: (assignment: ConversationAssignmentFilter | null) => void
+  sortOrder?: ConversationSort
+  onSortOrderChange?: (sort: ConversationSort) => void
+
+  // Full-text search (mensagens, transcrições, resumos)
+  searchResults?: InboxSearchHit[]
+  searchTotal?: number
+  isSearchingMessages?: boolean
+  onSelectSearchResult?: (hit: InboxSearchHit) => void
+  /** Mensagem a exibir/destacar no painel (resultado da busca) */
+  focusedMessageId?: string | null
+  onFocusedMessageShown?: () => void
 
   // Conversation actions
   onModeToggle: () => void
@@ -84,6 +99,8 @@ export interface InboxViewProps {
   onReopenConversation: () => void
   onPriorityChange: (priority: ConversationPriority) => void
   onLabelToggle: (labelId: string) => void
+  /** Assign / reassign the conversation (null = unassigned) */
+  onAssign?: (userId: string | null) => void
   /** T050: Handoff to human */
   onHandoff?: (params?: { reason?: string; summary?: string; pauseMinutes?: number }) => void
   /** T050: Return to bot */
@@ -128,11 +145,22 @@ export function InboxView({
   onModeFilterChange,
   labelFilter,
   onLabelFilterChange,
+  assignmentFilter,
+  onAssignmentFilterChange,
+  sortOrder,
+  onSortOrderChange,
+  searchResults,
+  searchTotal,
+  isSearchingMessages,
+  onSelectSearchResult,
+  focusedMessageId,
+  onFocusedMessageShown,
   onModeToggle,
   onCloseConversation,
   onReopenConversation,
   onPriorityChange,
   onLabelToggle,
+  onAssign,
   onHandoff,
   onReturnToBot,
   onDeleteConversation,
@@ -216,6 +244,14 @@ export function InboxView({
                   onModeFilterChange={onModeFilterChange}
                   labelFilter={labelFilter}
                   onLabelFilterChange={onLabelFilterChange}
+                  assignmentFilter={assignmentFilter}
+                  onAssignmentFilterChange={onAssignmentFilterChange}
+                  sortOrder={sortOrder}
+                  onSortOrderChange={onSortOrderChange}
+                  searchResults={searchResults}
+                  searchTotal={searchTotal}
+                  isSearchingMessages={isSearchingMessages}
+                  onSelectSearchResult={onSelectSearchResult}
                 />
               </ErrorBoundary>
             </div>
@@ -240,12 +276,15 @@ export function InboxView({
                 onRefreshQuickReplies={onRefreshQuickReplies}
                 hasMoreMessages={hasMoreMessages}
                 onLoadMore={onLoadMoreMessages}
+                focusedMessageId={focusedMessageId}
+                onFocusedMessageShown={onFocusedMessageShown}
                 onSendMessage={onSendMessage}
                 onModeToggle={onModeToggle}
                 onClose={onCloseConversation}
                 onReopen={onReopenConversation}
                 onPriorityChange={onPriorityChange}
                 onLabelToggle={onLabelToggle}
+                onAssign={onAssign}
                 onHandoff={onHandoff}
                 onReturnToBot={onReturnToBot}
                 onDelete={onDeleteConversation}
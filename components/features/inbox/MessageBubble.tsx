@@ -23,15 +23,40 @@ import {
   Image as ImageIcon,
   Video,
   Music,
+  MapPin,
+  ExternalLink,
+  UserRound,
+  UserPlus,
+  Loader2,
+  Smile,
+  AudioLines,
+  ScanText,
 } from 'lucide-react'
+import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
 import { formatTime } from '@/lib/date-utils'
+import {
+  MEDIA_ANALYSIS_LABELS,
+  getLocationMapUrl,
+  getMessageMediaAnalysis,
+  getMessageStructuredContent,
+  type MessageReactionSummary,
+} from '@/lib/business/inbox'
+import { contactService } from '@/services/contactService'
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
-import type { InboxMessage, DeliveryStatus, Sentiment } from '@/types'
+import { ContactStatus } from '@/types'
+import type {
+  InboxMessage,
+  DeliveryStatus,
+  Sentiment,
+  InboxLocation,
+  InboxMediaAnalysis,
+  InboxSharedContact,
+} from '@/types'
 import { WhatsAppFormattedText } from '@/lib/whatsapp-text-formatter'
 
 // ========== Template Message Detection & Parsing ==========
@@ -171,6 +196,8 @@ export interface MessageBubbleProps {
   message: InboxMessage
   /** Name of the AI agent for displaying in AI responses */
   agentName?: string
+  /** Current reactions to this message (attached below the bubble) */
+  reactions?: MessageReactionSummary[]
   /** Whether this is the first message in a group from same sender */
   isFirstInGroup?: boolean
   /** Whether this is the last message in a group from same sender */
@@ -320,7 +347,7 @@ function TemplateMessageContent({ parsed, time, deliveryStatus }: {
 
 // ========== Media Message Renderer ==========
 
-const MEDIA_TYPES = ['image', 'video', 'audio', 'document'] as const
+const MEDIA_TYPES = ['image', 'video', 'audio', 'document', 'sticker'] as const
 
 function getMediaProxyUrl(messageId: string): string {
   if (typeof window === 'undefined') return ''
@@ -341,19 +368,20 @@ function MediaContent({
   const proxyUrl = hasMedia ? getMediaProxyUrl(id) : null
 
   const mt = message_type
-  if (mt !== 'image' && mt !== 'video' && mt !== 'audio' && mt !== 'document')
+  if (!(MEDIA_TYPES as readonly string[]).includes(mt))
     return null
 
-  if (mt === 'image' && proxyUrl && !imgError) {
+  if ((mt === 'image' || mt === 'sticker') && proxyUrl && !imgError) {
+    const isSticker = mt === 'sticker'
     return (
       <div className={cn('overflow-hidden', borderRadius)}>
         <img
           src={proxyUrl}
-          alt={content || 'Imagem'}
-          className="max-w-full max-h-[280px] object-contain block"
+          alt={isSticker ? 'Figurinha' : content || 'Imagem'}
+          className={cn('object-contain block', isSticker ? 'w-32 h-32' : 'max-w-full max-h-[280px]')}
           onError={() => setImgError(true)}
         />
-        {content && (
+        {content && !isSticker && (
           <p className="mt-2 text-sm whitespace-pre-wrap break-words">
             <WhatsAppFormattedText text={content} />
           </p>
@@ -415,12 +443,14 @@ function MediaContent({
     video: <Video className="h-8 w-8" />,
     audio: <Music className="h-8 w-8" />,
     document: <FileText className="h-8 w-8" />,
+    sticker: <Smile className="h-8 w-8" />,
   }
   const labels: Record<string, string> = {
     image: isOutbound ? 'Imagem enviada' : 'Imagem',
     video: isOutbound ? 'Vídeo enviado' : 'Vídeo',
     audio: isOutbound ? 'Áudio enviado' : 'Áudio',
     document: isOutbound ? 'Documento enviado' : 'Documento',
+    sticker: isOutbound ? 'Figurinha enviada' : 'Figurinha',
   }
   const isPlaceholder = !content || /^\[.+\]$/.test(content.trim())
   const displayLabel = isPlaceholder ? (labels[mt] || 'Mídia') : content
@@ -434,6 +464,158 @@ function MediaContent({
   )
 }
 
+// ========== Structured Message Renderers ==========
+
+/** Margem do recorte do mapa em graus (~500m) */
+const MAP_PREVIEW_DELTA = 0.004
+
+function LocationContent({ location }: { location: InboxLocation }) {
+  const { latitude, longitude } = location
+  const bbox = [
+    longitude - MAP_PREVIEW_DELTA,
+    latitude - MAP_PREVIEW_DELTA,
+    longitude + MAP_PREVIEW_DELTA,
+    latitude + MAP_PREVIEW_DELTA,
+  ].join(',')
+  const embedUrl = `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${latitude},${longitude}`
+
+  return (
+    <div className="w-[260px] max-w-full space-y-2">
+      <iframe
+        src={embedUrl}
+        title={location.name || 'Localização'}
+        loading="lazy"
+        className="w-full h-[150px] rounded-lg border-0 pointer-events-none bg-black/20"
+      />
+      <div className="flex items-start gap-2">
+        <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-400" />
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{location.name || 'Localização'}</p>
+          {location.address && (
+            <p className="text-xs text-[var(--ds-text-secondary)] break-words">{location.address}</p>
+          )}
+        </div>
+      </div>
+      <a
+        href={getLocationMapUrl(location)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+      >
+        <ExternalLink className="h-3 w-3" />
+        Abrir no mapa
+      </a>
+    </div>
+  )
+}
+
+function SharedContactCard({ contact }: { contact: InboxSharedContact }) {
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+  const phone = contact.phones[0]?.wa_id ? `+${contact.phones[0].wa_id}` : contact.phones[0]?.phone
+
+  const handleSave = async () => {
+    if (!phone) return
+    setIsSaving(true)
+    try {
+      await contactService.add({
+        name: contact.name,
+        phone,
+        email: contact.emails[0] || null,
+        status: ContactStatus.OPT_IN,
+        tags: [],
+        custom_fields: {},
+      } as any)
+      setIsSaved(true)
+      toast.success(`${contact.name} salvo nos contatos`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Erro ao salvar contato')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="w-[240px] max-w-full rounded-lg bg-black/15 p-3">
+      <div className="flex items-center gap-2.5">
+        <span className="h-9 w-9 rounded-full bg-black/20 flex items-center justify-center flex-shrink-0">
+          <UserRound className="h-4 w-4" />
+        </span>
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{contact.name}</p>
+          {contact.organization && (
+            <p className="text-xs text-[var(--ds-text-secondary)] truncate">{contact.organization}</p>
+          )}
+        </div>
+      </div>
+      {(contact.phones.length > 0 || contact.emails.length > 0) && (
+        <div className="mt-2 space-y-0.5">
+          {contact.phones.map((p, i) => (
+            <p key={`p-${i}`} className="text-xs font-mono text-[var(--ds-text-secondary)] truncate">{p.phone}</p>
+          ))}
+          {contact.emails.map((email, i) => (
+            <p key={`e-${i}`} className="text-xs text-[var(--ds-text-secondary)] truncate">{email}</p>
+          ))}
+        </div>
+      )}
+      {phone && (
+        <button
+          onClick={handleSave}
+          disabled={isSaving || isSaved}
+          className="mt-3 w-full inline-flex items-center justify-center gap-1.5 h-8 rounded-md bg-black/20 hover:bg-black/30 text-xs font-medium transition-colors disabled:opacity-60"
+        >
+          {isSaving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <UserPlus className="h-3.5 w-3.5" />}
+          {isSaved ? 'Contato salvo' : 'Salvar como contato'}
+        </button>
+      )}
+    </div>
+  )
+}
+
+/** Acima disso o texto extraído começa recolhido */
+const MEDIA_TEXT_PREVIEW_CHARS = 280
+
+function MediaAnalysisText({ analysis }: { analysis: InboxMediaAnalysis }) {
+  const [expanded, setExpanded] = useState(false)
+  const isLong = analysis.text.length > MEDIA_TEXT_PREVIEW_CHARS
+  const text = isLong && !expanded ? `${analysis.text.slice(0, MEDIA_TEXT_PREVIEW_CHARS).trimEnd()}…` : analysis.text
+  const Icon = analysis.kind === 'transcription' ? AudioLines : ScanText
+
+  return (
+    <div className="mt-2 pt-2 border-t border-black/10 max-w-[320px]">
+      <div className="flex items-center gap-1 text-[10px] uppercase tracking-wide opacity-60">
+        <Icon className="h-3 w-3" />
+        {MEDIA_ANALYSIS_LABELS[analysis.kind]}
+      </div>
+      <p className="mt-1 text-sm whitespace-pre-wrap break-words opacity-90">{text}</p>
+      {isLong && (
+        <button
+          onClick={() => setExpanded((v) => !v)}
+          className="mt-1 text-[11px] opacity-70 hover:opacity-100 transition-opacity"
+        >
+          {expanded ? 'Ver menos' : 'Ver mais'}
+        </button>
+      )}
+    </div>
+  )
+}
+
+function ReactionChips({ reactions, isInbound }: { reactions: MessageReactionSummary[]; isInbound: boolean }) {
+  return (
+    <div className={cn('flex gap-0.5 -mt-1.5 z-10', isInbound ? 'ml-2' : 'mr-2')}>
+      {reactions.map((r) => (
+        <span
+          key={r.direction}
+          title={r.direction === 'inbound' ? 'Reação do contato' : 'Sua reação'}
+          className="px-1.5 py-0.5 rounded-full text-xs leading-none bg-[var(--ds-bg-surface)] border border-[var(--ds-border-subtle)] shadow-sm"
+        >
+          {r.emoji}
+        </span>
+      ))}
+    </div>
+  )
+}
+
 // Check if message is a handoff/system message
 function isHandoffMessage(content: string): boolean {
   return content.includes('**Transferência') || content.includes('**Motivo:**')
@@ -456,6 +638,7 @@ function parseHandoffMessage(content: string): { title: string; reason: string;
 export const MessageBubble = memo(function MessageBubble({
   message,
   agentName,
+  reactions,
   isFirstInGroup = true,
   isLastInGroup = true,
 }: MessageBubbleProps) {
@@ -474,7 +657,11 @@ export const MessageBubble = memo(function MessageBubble({
     message_type === 'image' ||
     message_type === 'video' ||
     message_type === 'audio' ||
-    message_type === 'document'
+    message_type === 'document' ||
+    message_type === 'sticker'
+
+  const structured = useMemo(() => getMessageStructuredContent(message), [message])
+  const mediaAnalysis = useMemo(() => getMessageMediaAnalysis(message), [message])
 
   const isInbound = direction === 'inbound'
   const isAIResponse = !isInbound && (message.ai_response_id || ai_sources)
@@ -574,9 +761,28 @@ export const MessageBubble = memo(function MessageBubble({
             isAIResponse && !isTemplate && 'bg-emerald-700/70 text-emerald-50'
           )}
         >
-          {/* Media message - image, video, audio, document */}
+          {/* Media message - image, video, audio, document, sticker */}
           {isMediaMessage ? (
-            <MediaContent message={message} borderRadius={getBorderRadius()} />
+            <>
+              <MediaContent message={message} borderRadius={getBorderRadius()} />
+              {/* Transcrição do áudio / descrição da imagem / texto do documento */}
+              {mediaAnalysis && <MediaAnalysisText analysis={mediaAnalysis} />}
+            </>
+          ) : message_type === 'location' && structured.location ? (
+            <LocationContent location={structured.location} />
+          ) : message_type === 'contacts' && structured.contacts?.length ? (
+            <div className="space-y-2">
+              {structured.contacts.map((contact, i) => (
+                <SharedContactCard key={i} contact={contact} />
+              ))}
+            </div>
+          ) : message_type === 'reaction' ? (
+            // Reação a uma mensagem que não está carregada na tela
+            <p className="text-sm text-[var(--ds-text-secondary)] italic">
+              {structured.reaction?.emoji
+                ? `Reagiu com ${structured.reaction.emoji} a uma mensagem anterior`
+                : 'Removeu a reação de uma mensagem anterior'}
+            </p>
           ) : isTemplate && parsedTemplate ? (
             <TemplateMessageContent
               parsed={parsedTemplate}
@@ -612,6 +818,10 @@ export const MessageBubble = memo(function MessageBubble({
           )}
         </div>
 
+        {reactions && reactions.length > 0 && (
+          <ReactionChips reactions={reactions} isInbound={isInbound} />
+        )}
+
         {/* Footer - only on last message of group, and not for templates (they have their own footer) */}
         {isLastInGroup && !isTemplate && (
           <div className={cn(
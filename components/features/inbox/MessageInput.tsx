@@ -9,6 +9,7 @@
  * - Smooth micro-interactions
  * - Refined button states
  * - Inline shortcut autocomplete (/comando)
+ * - Scheduled messages and follow-up reminders (conversa com ID)
  */
 
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react'
@@ -21,6 +22,8 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip'
 import { QuickRepliesPopover } from './QuickRepliesPopover'
+import { SchedulePopover } from './SchedulePopover'
+import { ScheduledItemsList } from './ScheduledItemsList'
 import { inboxService } from '@/services/inboxService'
 import type { InboxQuickReply } from '@/types'
 
@@ -163,7 +166,7 @@ export function MessageInput({
       setIsUploading(true)
       setUploadError(null)
       try {
-        const result = await inboxService.uploadMedia(pendingFile.file)
+        const result = await inboxService.uploadMedia(pendingFile.file, conversationId)
         const caption = value.trim() || undefined
         onSend({
           content: caption ?? '',
@@ -192,7 +195,7 @@ export function MessageInput({
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto'
     }
-  }, [value, pendingFile, isSending, disabled, isUploading, onSend, clearPendingFile])
+  }, [value, pendingFile, isSending, disabled, isUploading, onSend, clearPendingFile, conversationId])
 
   // Insert quick reply content (from popover)
   const handleQuickReplySelect = useCallback((content: string) => {
@@ -317,6 +320,9 @@ export function MessageInput({
       isFocused ? 'border-[var(--ds-border-strong)]' : 'border-[var(--ds-border-subtle)]',
       'bg-[var(--ds-bg-elevated)]'
     )}>
+      {/* Scheduled messages / follow-ups of the conversation */}
+      {conversationId && <ScheduledItemsList conversationId={conversationId} />}
+
       {/* Pending file preview */}
       {pendingFile && (
         <div className="px-3 py-2 border-b border-[var(--ds-border-subtle)] flex items-center gap-3">
@@ -419,6 +425,16 @@ export function MessageInput({
           onRefresh={onRefreshQuickReplies}
         />
 
+        {/* Schedule message / follow-up reminder */}
+        {conversationId && (
+          <SchedulePopover
+            conversationId={conversationId}
+            draft={value}
+            disabled={disabled || isSending || !!pendingFile}
+            onMessageScheduled={() => setValue('')}
+          />
+        )}
+
         {/* AI Suggest button */}
         {showAISuggest && (
           <Tooltip>
@@ -10,9 +10,10 @@
  * - Header blends into content area
  */
 
-import React, { useRef, useEffect, useCallback, useState } from 'react'
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react'
 import { Loader2, ChevronDown } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { collectReactions, getMessageStructuredContent } from '@/lib/business/inbox'
 import { MessageBubble } from './MessageBubble'
 import { MessageInput } from './MessageInput'
 import { ConversationHeader } from './ConversationHeader'
@@ -44,6 +45,10 @@ export interface MessagePanelProps {
   hasMoreMessages: boolean
   onLoadMore: () => void
 
+  /** Mensagem a rolar/destacar (resultado da busca); carrega páginas anteriores até achá-la */
+  focusedMessageId?: string | null
+  onFocusedMessageShown?: () => void
+
   // Actions
   onSendMessage: (
     content: string | import('@/services/inboxService').SendMessageParams
@@ -53,6 +58,8 @@ export interface MessagePanelProps {
   onReopen: () => void
   onPriorityChange: (priority: ConversationPriority) => void
   onLabelToggle: (labelId: string) => void
+  /** Assign / reassign the conversation (null = unassigned) */
+  onAssign?: (userId: string | null) => void
   /** T050: Handoff to human agent */
   onHandoff?: (params?: { reason?: string; summary?: string; pauseMinutes?: number }) => void
   /** T050: Return to bot mode */
@@ -80,12 +87,15 @@ export function MessagePanel({
   onRefreshQuickReplies,
   hasMoreMessages,
   onLoadMore,
+  focusedMessageId,
+  onFocusedMessageShown,
   onSendMessage,
   onModeToggle,
   onClose,
   onReopen,
   onPriorityChange,
   onLabelToggle,
+  onAssign,
   onHandoff,
   onReturnToBot,
   onDelete,
@@ -99,6 +109,21 @@ export function MessagePanel({
   const isAtBottomRef = useRef(true)
   const prevMessagesLengthRef = useRef(messages.length)
   const [showScrollButton, setShowScrollButton] = useState(false)
+  const [highlightedId, setHighlightedId] = useState<string | null>(null)
+
+  // Reações aparecem presas à mensagem reagida; sem ela na tela, viram uma linha própria
+  const { visibleMessages, reactionsByMessage } = useMemo(() => {
+    const reactions = collectReactions(messages)
+    const loadedIds = new Set(messages.map((m) => m.whatsapp_message_id).filter(Boolean))
+    return {
+      reactionsByMessage: reactions,
+      visibleMessages: messages.filter((m) => {
+        if (m.message_type !== 'reaction') return true
+        const target = getMessageStructuredContent(m).reaction?.message_id
+        return !target || !loadedIds.has(target)
+      }),
+    }
+  }, [messages])
 
   // Check if user is at bottom
   const checkIfAtBottom = useCallback(() => {
@@ -149,6 +174,33 @@ export function MessagePanel({
     }
   }, [conversation?.id])
 
+  // Jump to the message found by the search
+  useEffect(() => {
+    if (!focusedMessageId || isLoadingMessages) return
+
+    const el = scrollRef.current?.querySelector<HTMLElement>(`[data-message-id="${focusedMessageId}"]`)
+    if (el) {
+      isAtBottomRef.current = false
+      el.scrollIntoView({ block: 'center', behavior: 'smooth' })
+      setHighlightedId(focusedMessageId)
+      onFocusedMessageShown?.()
+      return
+    }
+
+    // Ainda não carregada: busca mensagens anteriores até encontrar
+    if (hasMoreMessages && !isLoadingMore) {
+      onLoadMore()
+    } else if (!hasMoreMessages) {
+      onFocusedMessageShown?.()
+    }
+  }, [focusedMessageId, visibleMessages, isLoadingMessages, hasMoreMessages, isLoadingMore, onLoadMore, onFocusedMessageShown])
+
+  useEffect(() => {
+    if (!highlightedId) return
+    const timer = setTimeout(() => setHighlightedId(null), 2500)
+    return () => clearTimeout(timer)
+  }, [highlightedId])
+
   // No conversation selected
   if (!conversation && !isLoadingConversation) {
     return (
@@ -198,6 +250,7 @@ export function MessagePanel({
           onReopen={onReopen}
           onPriorityChange={onPriorityChange}
           onLabelToggle={onLabelToggle}
+          onAssign={onAssign}
           onHandoff={onHandoff}
           onReturnToBot={onReturnToBot}
           onDelete={onDelete}
@@ -255,21 +308,30 @@ export function MessagePanel({
           </div>
         ) : (
           <div className="flex flex-col w-full">
-            {messages.map((message, index) => {
+            {visibleMessages.map((message, index) => {
               // Determine grouping
-              const prevMessage = messages[index - 1]
-              const nextMessage = messages[index + 1]
+              const prevMessage = visibleMessages[index - 1]
+              const nextMessage = visibleMessages[index + 1]
               const isFirstInGroup = !prevMessage || prevMessage.direction !== message.direction
               const isLastInGroup = !nextMessage || nextMessage.direction !== message.direction
 
               return (
-                <MessageBubble
+                <div
                   key={message.id}
-                  message={message}
-                  agentName={conversation?.ai_agent?.name}
-                  isFirstInGroup={isFirstInGroup}
-                  isLastInGroup={isLastInGroup}
-                />
+                  data-message-id={message.id}
+                  className={cn(
+                    'rounded-xl transition-colors duration-700',
+                    highlightedId === message.id && 'bg-amber-400/10'
+                  )}
+                >
+                  <MessageBubble
+                    message={message}
+                    agentName={conversation?.ai_agent?.name}
+                    reactions={message.whatsapp_message_id ? reactionsByMessage.get(message.whatsapp_message_id) : undefined}
+                    isFirstInGroup={isFirstInGroup}
+                    isLastInGroup={isLastInGroup}
+                  />
+                </div>
               )
             })}
           </div>
@@ -0,0 +1,311 @@
+'use client'
+
+/**
+ * SchedulePopover - Agendar a mensagem do compositor ou um lembrete de follow-up
+ *
+ * - Mensagem: enviada no horário escolhido. Se a janela de 24h estiver fechada
+ *   nesse momento, vai o template de fallback (opcional) no lugar do texto.
+ * - Lembrete: se o cliente não responder até o prazo, a conversa volta ao topo
+ *   com prioridade alta.
+ */
+
+import React, { useMemo, useState } from 'react'
+import { BellRing, CalendarClock, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { useFallbackTemplates, useInboxScheduled } from '@/hooks/useInboxScheduled'
+import { buildTemplateSpecV1 } from '@/lib/whatsapp/template-contract'
+import {
+  FOLLOW_UP_PRESETS,
+  buildFallbackTemplateVariables,
+  getSchedulePresets,
+} from '@/lib/business/inbox'
+import type { InboxScheduledItemKind } from '@/types'
+
+const NO_FALLBACK = '__none__'
+
+export interface SchedulePopoverProps {
+  conversationId: string
+  /** Texto atual do compositor (conteúdo da mensagem agendada) */
+  draft: string
+  disabled?: boolean
+  /** Chamado após agendar a mensagem (limpa o compositor) */
+  onMessageScheduled?: () => void
+}
+
+function toDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function toTimeInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export function SchedulePopover({
+  conversationId,
+  draft,
+  disabled,
+  onMessageScheduled,
+}: SchedulePopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [kind, setKind] = useState<InboxScheduledItemKind>('message')
+  const [date, setDate] = useState('')
+  const [time, setTime] = useState('09:00')
+  const [fallbackName, setFallbackName] = useState(NO_FALLBACK)
+  const [fallbackValues, setFallbackValues] = useState<Record<string, string>>({})
+  const [followUpHours, setFollowUpHours] = useState(48)
+  const [note, setNote] = useState('')
+
+  const { schedule, isScheduling } = useInboxScheduled(conversationId)
+  const { templates, isLoading: templatesLoading } = useFallbackTemplates(open && kind === 'message')
+
+  const presets = useMemo(() => (open ? getSchedulePresets() : []), [open])
+
+  const fallbackTemplate = templates.find((t) => t.name === fallbackName)
+  const fallbackSpec = useMemo(() => {
+    if (!fallbackTemplate) return null
+    try {
+      return buildTemplateSpecV1(fallbackTemplate)
+    } catch {
+      return null
+    }
+  }, [fallbackTemplate])
+
+  const content = draft.trim()
+
+  const handleOpenChange = (next: boolean) => {
+    if (next && !date) {
+      const tomorrow = getSchedulePresets()[1].date
+      setDate(toDateInput(tomorrow))
+      setTime(toTimeInput(tomorrow))
+    }
+    setOpen(next)
+  }
+
+  const handleFallbackChange = (name: string) => {
+    setFallbackName(name)
+    setFallbackValues({})
+  }
+
+  const handleSubmit = async () => {
+    try {
+      if (kind === 'message') {
+        const dueAt = new Date(`${date}T${time}`)
+        if (Number.isNaN(dueAt.getTime())) {
+          toast.error('Escolha a data e o horário do envio')
+          return
+        }
+        await schedule({
+          kind: 'message',
+          due_at: dueAt.toISOString(),
+          content,
+          fallback_template_name: fallbackTemplate?.name ?? null,
+          fallback_template_variables: fallbackTemplate
+            ? buildFallbackTemplateVariables(
+                fallbackSpec?.parameterFormat ?? 'positional',
+                fallbackSpec?.body.requiredKeys ?? [],
+                fallbackValues
+              )
+            : null,
+        })
+        toast.success('Mensagem agendada')
+        onMessageScheduled?.()
+      } else {
+        await schedule({
+          kind: 'follow_up',
+          due_at: new Date(Date.now() + followUpHours * 60 * 60 * 1000).toISOString(),
+          note: note.trim() || null,
+        })
+        toast.success('Lembrete criado')
+        setNote('')
+      }
+      setOpen(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Falha ao agendar')
+    }
+  }
+
+  const canSubmit = !isScheduling && (kind === 'follow_up' || (content.length > 0 && !!date && !!time))
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={disabled}
+              className="h-9 w-9 text-[var(--ds-text-secondary)] hover:text-[var(--ds-text-primary)]"
+            >
+              <CalendarClock className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Agendar</p>
+        </TooltipContent>
+      </Tooltip>
+      <PopoverContent align="start" side="top" className="w-80 p-0" sideOffset={8}>
+        {/* Tipo */}
+        <div className="flex gap-1 p-2 border-b border-[var(--ds-border-subtle)]">
+          {([
+            { value: 'message', label: 'Agendar mensagem', icon: CalendarClock },
+            { value: 'follow_up', label: 'Lembrete', icon: BellRing },
+          ] as const).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setKind(value)}
+              className={cn(
+                'flex-1 flex items-center justify-center gap-1.5 h-7 rounded-md text-xs transition-colors',
+                kind === value
+                  ? 'bg-[var(--ds-bg-surface)] text-[var(--ds-text-primary)]'
+                  : 'text-[var(--ds-text-muted)] hover:text-[var(--ds-text-secondary)]'
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {kind === 'message' ? (
+          <div className="p-3 space-y-3">
+            {content ? (
+              <p className="text-xs text-[var(--ds-text-secondary)] line-clamp-3 whitespace-pre-wrap rounded-md bg-[var(--ds-bg-surface)]/60 px-2 py-1.5">
+                {content}
+              </p>
+            ) : (
+              <p className="text-[11px] text-[var(--ds-text-muted)]">
+                Escreva a mensagem no campo de texto antes de agendar.
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-1">
+              {presets.map((preset) => (
+                <button
+                  key={preset.label}
+                  type="button"
+                  onClick={() => {
+                    setDate(toDateInput(preset.date))
+                    setTime(toTimeInput(preset.date))
+                  }}
+                  className="px-2 h-6 rounded-full text-[11px] border border-[var(--ds-border-subtle)] text-[var(--ds-text-secondary)] hover:bg-[var(--ds-bg-hover)] transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="h-8 text-xs"
+              />
+              <Input
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="h-8 w-24 text-xs"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <span className="text-[11px] font-medium text-[var(--ds-text-secondary)]">
+                Se a janela de 24h estiver fechada
+              </span>
+              <Select value={fallbackName} onValueChange={handleFallbackChange}>
+                <SelectTrigger className="w-full h-8 text-xs">
+                  <SelectValue placeholder={templatesLoading ? 'Carregando templates...' : 'Selecione o template'} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_FALLBACK} className="text-xs">
+                    Não enviar (marcar como falha)
+                  </SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.name} className="text-xs">
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {fallbackSpec?.body.requiredKeys.map((key) => (
+                <Input
+                  key={key}
+                  value={fallbackValues[key] ?? ''}
+                  onChange={(e) => setFallbackValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                  placeholder={`{{${key}}} — ex.: {{nome}}`}
+                  className="h-7 text-xs"
+                />
+              ))}
+              <p className="text-[10px] text-[var(--ds-text-muted)] leading-relaxed">
+                A janela é verificada no horário do envio. Aberta, vai o texto; fechada, vai o template.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="p-3 space-y-3">
+            <p className="text-[11px] text-[var(--ds-text-muted)] leading-relaxed">
+              Se o cliente não responder até lá, a conversa volta ao topo com prioridade alta.
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {FOLLOW_UP_PRESETS.map((preset) => (
+                <button
+                  key={preset.hours}
+                  type="button"
+                  onClick={() => setFollowUpHours(preset.hours)}
+                  className={cn(
+                    'px-2 h-6 rounded-full text-[11px] border transition-colors',
+                    followUpHours === preset.hours
+                      ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400'
+                      : 'border-[var(--ds-border-subtle)] text-[var(--ds-text-secondary)] hover:bg-[var(--ds-bg-hover)]'
+                  )}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Observação (opcional)"
+              maxLength={500}
+              className="h-8 text-xs"
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end p-2 border-t border-[var(--ds-border-subtle)]">
+          <Button size="sm" className="h-7 text-xs" onClick={handleSubmit} disabled={!canSubmit}>
+            {isScheduling && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            {kind === 'message' ? 'Agendar envio' : 'Criar lembrete'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
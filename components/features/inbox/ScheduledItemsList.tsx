@@ -0,0 +1,127 @@
+'use client'
+
+/**
+ * ScheduledItemsList - Agendamentos pendentes da conversa (acima do compositor)
+ * Mostra também as falhas recentes para o atendente reagendar.
+ */
+
+import React, { useState } from 'react'
+import { AlertCircle, BellRing, CalendarClock, ChevronDown, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { formatShortDate, formatTime } from '@/lib/date-utils'
+import { INBOX_SCHEDULED_STATUS_LABELS } from '@/lib/business/inbox'
+import { useInboxScheduled } from '@/hooks/useInboxScheduled'
+import type { InboxScheduledItem } from '@/types'
+
+/** Falhas exibidas por até 24h após o processamento */
+const RECENT_FAILURE_MS = 24 * 60 * 60 * 1000
+
+export interface ScheduledItemsListProps {
+  conversationId: string
+}
+
+function formatDueAt(dueAt: string): string {
+  return `${formatShortDate(dueAt)} às ${formatTime(dueAt)}`
+}
+
+function ScheduledItemRow({
+  item,
+  onCancel,
+  isCancelling,
+}: {
+  item: InboxScheduledItem
+  onCancel: () => void
+  isCancelling: boolean
+}) {
+  const failed = item.status === 'failed'
+  const Icon = failed ? AlertCircle : item.kind === 'follow_up' ? BellRing : CalendarClock
+
+  return (
+    <div className="flex items-start gap-2 px-3 py-1.5">
+      <Icon className={cn('h-3.5 w-3.5 mt-0.5 shrink-0', failed ? 'text-red-400' : 'text-emerald-400')} />
+      <div className="flex-1 min-w-0">
+        <p className="text-xs text-[var(--ds-text-primary)] truncate">
+          {item.kind === 'follow_up'
+            ? item.note || 'Lembrete se o cliente não responder'
+            : item.content}
+        </p>
+        <p className="text-[10px] text-[var(--ds-text-muted)] truncate">
+          {failed
+            ? `${INBOX_SCHEDULED_STATUS_LABELS.failed}: ${item.error || 'erro desconhecido'}`
+            : `${item.kind === 'follow_up' ? 'Lembrete' : 'Envio'} ${formatDueAt(item.due_at)}${
+                item.fallback_template_name ? ` · fallback: ${item.fallback_template_name}` : ''
+              }`}
+        </p>
+      </div>
+      {!failed && (
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isCancelling}
+          title="Cancelar agendamento"
+          className="p-1 rounded text-[var(--ds-text-muted)] hover:text-[var(--ds-text-primary)] hover:bg-[var(--ds-bg-hover)] transition-colors disabled:opacity-50"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export function ScheduledItemsList({ conversationId }: ScheduledItemsListProps) {
+  const [expanded, setExpanded] = useState(false)
+  const { items, pendingItems, cancel, isCancelling } = useInboxScheduled(conversationId)
+
+  const recentFailures = items.filter(
+    (item) =>
+      item.status === 'failed' &&
+      !!item.processed_at &&
+      Date.now() - new Date(item.processed_at).getTime() < RECENT_FAILURE_MS
+  )
+  const visible = [...pendingItems, ...recentFailures]
+  if (visible.length === 0) return null
+
+  const handleCancel = async (itemId: string) => {
+    try {
+      await cancel(itemId)
+      toast.success('Agendamento cancelado')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Falha ao cancelar')
+    }
+  }
+
+  return (
+    <div className="border-b border-[var(--ds-border-subtle)]">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="w-full flex items-center gap-1.5 px-3 py-1.5 text-[11px] text-[var(--ds-text-secondary)] hover:text-[var(--ds-text-primary)] transition-colors"
+      >
+        <CalendarClock className="h-3.5 w-3.5" />
+        <span>
+          {pendingItems.length === 1 ? '1 agendamento' : `${pendingItems.length} agendamentos`}
+          {recentFailures.length > 0 && (
+            <span className="text-red-400">
+              {' · '}
+              {recentFailures.length === 1 ? '1 falha' : `${recentFailures.length} falhas`}
+            </span>
+          )}
+        </span>
+        <ChevronDown className={cn('h-3.5 w-3.5 ml-auto transition-transform', expanded && 'rotate-180')} />
+      </button>
+      {expanded && (
+        <div className="pb-1 max-h-40 overflow-y-auto">
+          {visible.map((item) => (
+            <ScheduledItemRow
+              key={item.id}
+              item={item}
+              onCancel={() => handleCancel(item.id)}
+              isCancelling={isCancelling}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
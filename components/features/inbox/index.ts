@@ -11,4 +11,7 @@ export { MessageBubble, type MessageBubbleProps } from './MessageBubble'
 export { MessageInput, type MessageInputProps } from './MessageInput'
 export { ConversationHeader, type ConversationHeaderProps } from './ConversationHeader'
 export { QuickRepliesPopover, type QuickRepliesPopoverProps } from './QuickRepliesPopover'
+export { SchedulePopover, type SchedulePopoverProps } from './SchedulePopover'
+export { ScheduledItemsList, type ScheduledItemsListProps } from './ScheduledItemsList'
 export { AttendantsPopover } from './AttendantsPopover'
+export { InboxSearchResults, type InboxSearchResultsProps } from './InboxSearchResults'
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { DollarSign, Save, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { SectionHeader } from '@/components/ui/section-header';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { CONVERSION_RULES, DEFAULT_ATTRIBUTION_CONFIG, validateAttributionConfig } from '@/lib/business/conversions';
+import type { ConversionAttributionInfo, SaveConversionAttributionFn } from './types';
+
+export interface ConversionAttributionPanelProps {
+  conversionAttribution?: ConversionAttributionInfo | null;
+  conversionAttributionLoading?: boolean;
+  saveConversionAttribution?: SaveConversionAttributionFn;
+  isSaving?: boolean;
+}
+
+export function ConversionAttributionPanel({
+  conversionAttribution,
+  conversionAttributionLoading,
+  saveConversionAttribution,
+  isSaving,
+}: ConversionAttributionPanelProps) {
+  const config = conversionAttribution?.config;
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(() => ({ ...DEFAULT_ATTRIBUTION_CONFIG, ...config }));
+
+  // Keep draft in sync when server data arrives (unless editing)
+  useEffect(() => {
+    if (!config) return;
+    if (isEditing) return;
+    setDraft({ ...config });
+  }, [config?.windowDays, config?.includeConversations, isEditing]);
+
+  const handleSave = async () => {
+    if (!saveConversionAttribution) return;
+
+    const validation = validateAttributionConfig(draft);
+    if (!validation.valid) {
+      toast.error(validation.reason);
+      return;
+    }
+
+    await saveConversionAttribution({
+      windowDays: draft.windowDays,
+      includeConversations: draft.includeConversations,
+    });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="glass-panel rounded-2xl p-8">
+      <SectionHeader
+        title="Atribuição de Conversões"
+        description="Vendas enviadas pela API de conversões são atribuídas à última campanha entregue ou clicada pelo contato dentro da janela. Sem campanha, a venda vai para a conversa do inbox (e o agente de IA) que atendeu o contato."
+        color="brand"
+        icon={DollarSign}
+        actions={
+          <div className="flex items-center gap-2">
+            {isEditing && (
+              <button
+                onClick={handleSave}
+                disabled={!!isSaving}
+                className="h-10 px-5 rounded-xl bg-primary-500 hover:bg-primary-400 text-black font-semibold transition-all text-sm flex items-center gap-2 shadow-lg shadow-primary-500/10 disabled:opacity-50"
+                title="Salvar atribuição de conversões"
+              >
+                {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Salvar
+              </button>
+            )}
+            <button
+              onClick={() => setIsEditing((v) => !v)}
+              className="h-10 px-4 rounded-xl bg-[var(--ds-bg-hover)] text-[var(--ds-text-primary)] hover:bg-[var(--ds-bg-surface)] border border-[var(--ds-border-default)] hover:border-[var(--ds-border-strong)] transition-all text-sm font-medium"
+            >
+              {isEditing ? 'Fechar' : 'Configurar'}
+            </button>
+          </div>
+        }
+      />
+
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-xl p-4">
+          <div className="text-xs text-[var(--ds-text-muted)]">Janela</div>
+          {conversionAttributionLoading ? (
+            <div className="mt-2 text-sm text-[var(--ds-text-secondary)] flex items-center gap-2">
+              <Loader2 size={14} className="animate-spin" /> Carregando…
+            </div>
+          ) : (
+            <div className="mt-2">
+              <div className="text-sm text-[var(--ds-text-primary)] flex items-center gap-2 flex-wrap">
+                <span className="font-mono">{config?.windowDays ?? DEFAULT_ATTRIBUTION_CONFIG.windowDays} dia(s)</span>
+                <span className="text-xs text-[var(--ds-text-secondary)]">fonte: {conversionAttribution?.source || '—'}</span>
+              </div>
+              <div className="mt-2 text-xs text-[var(--ds-text-secondary)] flex items-center gap-2">
+                Atendimento do inbox:
+                {config?.includeConversations ?? DEFAULT_ATTRIBUTION_CONFIG.includeConversations ? (
+                  <StatusBadge status="success">Considerado</StatusBadge>
+                ) : (
+                  <StatusBadge status="default">Ignorado</StatusBadge>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-xl p-4">
+          <div className="text-xs text-[var(--ds-text-muted)]">Integração</div>
+          <div className="mt-2 text-xs text-[var(--ds-text-secondary)] leading-relaxed">
+            Envie cada venda para <span className="font-mono">POST /api/conversions</span> com a chave de API, o{' '}
+            <span className="font-mono">value</span> e o telefone, email ou <span className="font-mono">contactId</span> do
+            comprador. Informe <span className="font-mono">orderId</span> para evitar vendas duplicadas.
+          </div>
+        </div>
+      </div>
+
+      {isEditing && (
+        <div className="mt-6 p-5 bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-2xl">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm font-medium text-[var(--ds-text-primary)]">Configurações</div>
+            <label className="flex items-center gap-2 text-sm text-[var(--ds-text-primary)]">
+              <input
+                type="checkbox"
+                checked={!!draft.includeConversations}
+                onChange={(e) => setDraft((s) => ({ ...s, includeConversations: e.target.checked }))}
+                className="accent-emerald-500"
+              />
+              Atribuir ao atendimento quando não houver campanha
+            </label>
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-[var(--ds-text-secondary)] mb-1">Janela (dias)</label>
+              <input
+                type="number"
+                min={CONVERSION_RULES.MIN_WINDOW_DAYS}
+                max={CONVERSION_RULES.MAX_WINDOW_DAYS}
+                value={draft.windowDays}
+                onChange={(e) => setDraft((s) => ({ ...s, windowDays: Number(e.target.value) }))}
+                className="w-full px-3 py-2 bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-lg text-sm text-[var(--ds-text-primary)] font-mono"
+              />
+              <p className="text-[11px] text-[var(--ds-text-muted)] mt-1">
+                Vendas até {CONVERSION_RULES.MAX_WINDOW_DAYS} dias após o último toque.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Moon, Save, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { SectionHeader } from '@/components/ui/section-header';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { DEFAULT_QUIET_HOURS, validateQuietHours } from '@/lib/business/campaign/send-window';
+import type { QuietHoursInfo, SaveQuietHoursFn } from './types';
+
+export interface QuietHoursPanelProps {
+  quietHours?: QuietHoursInfo | null;
+  quietHoursLoading?: boolean;
+  saveQuietHours?: SaveQuietHoursFn;
+  isSaving?: boolean;
+}
+
+export function QuietHoursPanel({
+  quietHours,
+  quietHoursLoading,
+  saveQuietHours,
+  isSaving,
+}: QuietHoursPanelProps) {
+  const config = quietHours?.config;
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(() => ({ ...DEFAULT_QUIET_HOURS, ...config }));
+
+  // Keep draft in sync when server data arrives (unless editing)
+  useEffect(() => {
+    if (!config) return;
+    if (isEditing) return;
+    setDraft({ ...config });
+  }, [config?.enabled, config?.start, config?.end, config?.defaultTimezone, isEditing]);
+
+  const handleSave = async () => {
+    if (!saveQuietHours) return;
+
+    const validation = validateQuietHours(draft);
+    if (!validation.valid) {
+      toast.error(validation.reason);
+      return;
+    }
+
+    await saveQuietHours({
+      enabled: draft.enabled,
+      start: draft.start,
+      end: draft.end,
+      defaultTimezone: draft.defaultTimezone.trim(),
+    });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="glass-panel rounded-2xl p-8">
+      <SectionHeader
+        title="Horário de Silêncio"
+        description="Nenhuma campanha envia mensagens neste intervalo, no horário local de cada contato. Quem estiver fora do horário fica pendente e recebe quando o silêncio terminar."
+        color="brand"
+        icon={Moon}
+        actions={
+          <div className="flex items-center gap-2">
+            {isEditing && (
+              <button
+                onClick={handleSave}
+                disabled={!!isSaving}
+                className="h-10 px-5 rounded-xl bg-primary-500 hover:bg-primary-400 text-black font-semibold transition-all text-sm flex items-center gap-2 shadow-lg shadow-primary-500/10 disabled:opacity-50"
+                title="Salvar horário de silêncio"
+              >
+                {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Salvar
+              </button>
+            )}
+            <button
+              onClick={() => setIsEditing((v) => !v)}
+              className="h-10 px-4 rounded-xl bg-[var(--ds-bg-hover)] text-[var(--ds-text-primary)] hover:bg-[var(--ds-bg-surface)] border border-[var(--ds-border-default)] hover:border-[var(--ds-border-strong)] transition-all text-sm font-medium"
+            >
+              {isEditing ? 'Fechar' : 'Configurar'}
+            </button>
+          </div>
+        }
+      />
+
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-xl p-4">
+          <div className="text-xs text-[var(--ds-text-muted)]">Status</div>
+          {quietHoursLoading ? (
+            <div className="mt-2 text-sm text-[var(--ds-text-secondary)] flex items-center gap-2">
+              <Loader2 size={14} className="animate-spin" /> Carregando…
+            </div>
+          ) : (
+            <div className="mt-2">
+              <div className="text-sm text-[var(--ds-text-primary)] flex items-center gap-2 flex-wrap">
+                {config?.enabled ? (
+                  <StatusBadge status="success">Ativo</StatusBadge>
+                ) : (
+                  <StatusBadge status="default">Inativo</StatusBadge>
+                )}
+                <span className="text-xs text-[var(--ds-text-secondary)]">fonte: {quietHours?.source || '—'}</span>
+              </div>
+              <div className="mt-2 text-xs text-[var(--ds-text-secondary)]">
+                Silêncio: <span className="font-mono text-[var(--ds-text-primary)]">{config?.start ?? '—'}–{config?.end ?? '—'}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-xl p-4">
+          <div className="text-xs text-[var(--ds-text-muted)]">Fuso do contato</div>
+          <div className="mt-2 text-xs text-[var(--ds-text-secondary)] leading-relaxed">
+            Inferido pelo DDI/DDD do telefone. Para sobrescrever, preencha o campo personalizado{' '}
+            <span className="font-mono">timezone</span> (ex.: <span className="font-mono">Europe/Lisbon</span>).
+            Sem informação, usa <span className="font-mono">{config?.defaultTimezone ?? DEFAULT_QUIET_HOURS.defaultTimezone}</span>.
+          </div>
+        </div>
+      </div>
+
+      {isEditing && (
+        <div className="mt-6 p-5 bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-2xl">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm font-medium text-[var(--ds-text-primary)]">Configurações</div>
+            <label className="flex items-center gap-2 text-sm text-[var(--ds-text-primary)]">
+              <input
+                type="checkbox"
+                checked={!!draft.enabled}
+                onChange={(e) => setDraft((s) => ({ ...s, enabled: e.target.checked }))}
+                className="accent-emerald-500"
+              />
+              Ativar horário de silêncio
+            </label>
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-[var(--ds-text-secondary)] mb-1">Início</label>
+              <input
+                type="time"
+                value={draft.start}
+                onChange={(e) => setDraft((s) => ({ ...s, start: e.target.value }))}
+                className="w-full px-3 py-2 bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-lg text-sm text-[var(--ds-text-primary)] font-mono"
+              />
+              <p className="text-[11px] text-[var(--ds-text-muted)] mt-1">A partir deste horário nada é enviado.</p>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-[var(--ds-text-secondary)] mb-1">Fim</label>
+              <input
+                type="time"
+                value={draft.end}
+                onChange={(e) => setDraft((s) => ({ ...s, end: e.target.value }))}
+                className="w-full px-3 py-2 bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-lg text-sm text-[var(--ds-text-primary)] font-mono"
+              />
+              <p className="text-[11px] text-[var(--ds-text-muted)] mt-1">Pode ser no dia seguinte (ex.: 21:00–08:00).</p>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-[var(--ds-text-secondary)] mb-1">Fuso padrão</label>
+              <input
+                type="text"
+                value={draft.defaultTimezone}
+                onChange={(e) => setDraft((s) => ({ ...s, defaultTimezone: e.target.value }))}
+                className="w-full px-3 py-2 bg-[var(--ds-bg-elevated)] border border-[var(--ds-border-default)] rounded-lg text-sm text-[var(--ds-text-primary)] font-mono"
+              />
+              <p className="text-[11px] text-[var(--ds-text-muted)] mt-1">Usado quando o fuso do contato não é identificado.</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { TestContactPanel } from './TestContactPanel';
 import { AutoSuppressionPanel } from './AutoSuppressionPanel';
+import { QuietHoursPanel } from './QuietHoursPanel';
+import { ConversionAttributionPanel } from './ConversionAttributionPanel';
 import { WorkflowExecutionPanel } from './WorkflowExecutionPanel';
 import { StatusCard } from './StatusCard';
 import { TurboConfigSection } from './TurboConfigSection';
@@ -74,6 +76,18 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   saveAutoSuppression,
   isSavingAutoSuppression,
 
+  // Horário de silêncio
+  quietHours,
+  quietHoursLoading,
+  saveQuietHours,
+  isSavingQuietHours,
+
+  // Atribuição de conversões
+  conversionAttribution,
+  conversionAttributionLoading,
+  saveConversionAttribution,
+  isSavingConversionAttribution,
+
   // Calendar Booking
   calendarBooking,
   calendarBookingLoading,
@@ -243,6 +257,26 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           />
         )}
 
+        {/* Horário de silêncio (janela global de disparo) */}
+        {settings.isConnected && saveQuietHours && (
+          <QuietHoursPanel
+            quietHours={quietHours}
+            quietHoursLoading={quietHoursLoading}
+            saveQuietHours={saveQuietHours}
+            isSaving={isSavingQuietHours}
+          />
+        )}
+
+        {/* Atribuição de conversões (janela do último toque) */}
+        {settings.isConnected && saveConversionAttribution && (
+          <ConversionAttributionPanel
+            conversionAttribution={conversionAttribution}
+            conversionAttributionLoading={conversionAttributionLoading}
+            saveConversionAttribution={saveConversionAttribution}
+            isSaving={isSavingConversionAttribution}
+          />
+        )}
+
         {/* Execução do workflow (global) - Dev only */}
         {isDevMode && settings.isConnected && saveWorkflowExecution && (
           <WorkflowExecutionPanel
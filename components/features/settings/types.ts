@@ -1,4 +1,4 @@
-import { AppSettings, CalendarBookingConfig, WorkflowExecutionConfig } from '../../../types';
+import { AppSettings, CalendarBookingConfig, ConversionAttributionConfig, QuietHoursConfig, WorkflowExecutionConfig } from '../../../types';
 import { AccountLimits } from '../../../lib/meta-limits';
 import { PhoneNumber } from '../../../hooks/useSettings';
 import type { AiFallbackConfig, AiPromptsConfig, AiRoutesConfig } from '../../../lib/ai/ai-center-defaults';
@@ -90,6 +90,18 @@ export interface AutoSuppressionInfo {
   };
 }
 
+export interface QuietHoursInfo {
+  ok: boolean;
+  source?: 'db' | 'default';
+  config?: QuietHoursConfig;
+}
+
+export interface ConversionAttributionInfo {
+  ok: boolean;
+  source?: 'db' | 'default';
+  config?: ConversionAttributionConfig;
+}
+
 export interface CalendarBookingInfo {
   ok: boolean;
   source?: 'db' | 'default';
@@ -141,6 +153,10 @@ export type SaveAutoSuppressionFn = (data: {
   };
 }) => Promise<void>;
 
+export type SaveQuietHoursFn = (data: Partial<QuietHoursConfig>) => Promise<void>;
+
+export type SaveConversionAttributionFn = (data: Partial<ConversionAttributionConfig>) => Promise<void>;
+
 // ============================================================================
 // SettingsView Props
 // ============================================================================
@@ -215,6 +231,18 @@ export interface SettingsViewProps {
   saveAutoSuppression?: SaveAutoSuppressionFn;
   isSavingAutoSuppression?: boolean;
 
+  // Quiet hours (global send window)
+  quietHours?: QuietHoursInfo | null;
+  quietHoursLoading?: boolean;
+  saveQuietHours?: SaveQuietHoursFn;
+  isSavingQuietHours?: boolean;
+
+  // Conversion attribution (window + inbox fallback)
+  conversionAttribution?: ConversionAttributionInfo | null;
+  conversionAttributionLoading?: boolean;
+  saveConversionAttribution?: SaveConversionAttributionFn;
+  isSavingConversionAttribution?: boolean;
+
   // Calendar Booking
   calendarBooking?: CalendarBookingInfo | null;
   calendarBookingLoading?: boolean;
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useQuery } from '@tanstack/react-query'
+import { Building2, Check, ChevronsUpDown, Loader2, Settings2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { workspaceService } from '@/services/workspaceService'
+
+/**
+ * Seletor do workspace ativo (header do dashboard).
+ * A troca grava o cookie no servidor e recarrega a aplicação inteira,
+ * para não reaproveitar nenhum cache do workspace anterior.
+ */
+export function WorkspaceSwitcher() {
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null)
+
+  const { data } = useQuery({
+    queryKey: ['workspaces', 'current'],
+    queryFn: workspaceService.getCurrent,
+    staleTime: 60_000,
+  })
+
+  const current = data?.current
+  const workspaces = data?.workspaces ?? []
+
+  const handleSelect = async (workspaceId: string) => {
+    if (workspaceId === current?.id) return
+    setSwitchingTo(workspaceId)
+    try {
+      await workspaceService.select(workspaceId)
+      window.location.href = '/'
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Falha ao trocar de workspace')
+      setSwitchingTo(null)
+    }
+  }
+
+  // Só quem gerencia workspaces troca de workspace; os demais ficam no deles
+  if (!current || !data?.canSwitch) return null
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="flex items-center gap-2 rounded-lg border border-[var(--ds-border-default)] px-3 py-1.5 text-sm text-[var(--ds-text-secondary)] hover:text-[var(--ds-text-primary)] transition-colors focus-visible:outline focus-visible:outline-2 focus-visible:outline-primary-500 focus-visible:outline-offset-2"
+          aria-label={`Workspace atual: ${current.name}`}
+        >
+          {switchingTo ? (
+            <Loader2 size={14} className="animate-spin" aria-hidden="true" />
+          ) : (
+            <Building2 size={14} aria-hidden="true" />
+          )}
+          <span className="max-w-40 truncate">{current.name}</span>
+          <ChevronsUpDown size={12} className="text-[var(--ds-text-muted)]" aria-hidden="true" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+        {workspaces.map((workspace) => (
+          <DropdownMenuItem
+            key={workspace.id}
+            disabled={!!switchingTo}
+            onClick={() => handleSelect(workspace.id)}
+          >
+            <span className="flex-1 truncate">{workspace.name}</span>
+            {workspace.id === current.id && <Check size={14} className="ml-2" />}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/settings/workspaces">
+            <Settings2 size={14} className="mr-2" />
+            Gerenciar workspaces
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -37,13 +37,15 @@ export class LimitsFetchError extends Error {
 /**
  * Fetches account limits from backend API
  * Backend usa credenciais salvas (Supabase settings / env) — não precisa passar do frontend
+ *
+ * @param phoneNumberId - Número específico (padrão: principal)
  */
-async function fetchLimitsFromAPI(): Promise<AccountLimits> {
+async function fetchLimitsFromAPI(phoneNumberId?: string | null): Promise<AccountLimits> {
   // Chama a API sem credenciais no body (backend usa credenciais salvas)
   const response = await fetch('/api/account/limits', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({}), // Body vazio: backend usa credenciais salvas
+    body: JSON.stringify(phoneNumberId ? { phoneNumberId } : {}), // Sem token: backend usa credenciais salvas
   });
   
   const data = await response.json();
@@ -66,8 +68,8 @@ async function fetchLimitsFromAPI(): Promise<AccountLimits> {
     );
   }
   
-  // Cache the result
-  cacheLimits(data);
+  // Cache the result (o cache local guarda só o número principal)
+  if (!phoneNumberId) cacheLimits(data);
   
   return data;
 }
@@ -75,27 +77,31 @@ async function fetchLimitsFromAPI(): Promise<AccountLimits> {
 /**
  * Main hook for account limits
  * NO FALLBACKS - returns error state if limits cannot be fetched
+ *
+ * @param phoneNumberId - Número remetente (qualidade/tier são por número; padrão: principal)
  */
-export function useAccountLimits() {
+export function useAccountLimits(phoneNumberId?: string | null) {
   const queryClient = useQueryClient();
+  const queryKey = phoneNumberId ? [...LIMITS_QUERY_KEY, phoneNumberId] : LIMITS_QUERY_KEY;
   
   const query = useQuery({
-    queryKey: LIMITS_QUERY_KEY,
+    queryKey,
     queryFn: async () => {
       // Check cache first (only if not stale)
-      const cached = getCachedLimits();
+      const cached = phoneNumberId ? null : getCachedLimits();
       
       if (cached && !areLimitsStale(cached)) {
         return cached;
       }
       
       // Fetch fresh data - will throw if fails
-      return fetchLimitsFromAPI();
+      return fetchLimitsFromAPI(phoneNumberId);
     },
     staleTime: 60 * 60 * 1000, // 1 hour
     gcTime: 24 * 60 * 60 * 1000, // 24 hours
     // Initialize with cached data (if valid)
     initialData: () => {
+      if (phoneNumberId) return undefined;
       const cached = getCachedLimits();
       return cached && !areLimitsStale(cached) ? cached : undefined;
     },
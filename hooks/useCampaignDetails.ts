@@ -389,6 +389,40 @@ export const useCampaignDetailsController = () => {
     }
   })
 
+  // Teste A/B: envia o vencedor agora (opcionalmente forçando uma variante)
+  const rolloutAbTestMutation = useMutation({
+    mutationFn: (variantId?: string) => campaignService.rolloutAbTestWinner(id!, variantId),
+    onSuccess: async (result) => {
+      toast.success(result.message || 'Vencedor enviado para o restante da audiência')
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['campaign', id] }),
+        queryClient.invalidateQueries({ queryKey: ['campaignMetrics', id] }),
+        queryClient.invalidateQueries({ queryKey: ['campaignMessages', id] }),
+      ])
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || 'Erro ao enviar vencedor do teste A/B')
+    }
+  })
+
+  // Recorrência: pausar/retomar o cron
+  const recurrenceMutation = useMutation({
+    mutationFn: (active: boolean) => {
+      const recurrence = activeCampaign?.recurrence
+      if (active && recurrence) {
+        return campaignService.updateRecurrence(id!, { cron: recurrence.cron, timezone: recurrence.timezone })
+      }
+      return campaignService.pauseRecurrence(id!)
+    },
+    onSuccess: async (recurrence) => {
+      toast.success(recurrence.active ? 'Recorrência retomada' : 'Recorrência pausada')
+      await queryClient.invalidateQueries({ queryKey: ['campaign', id] })
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || 'Erro ao atualizar recorrência')
+    }
+  })
+
   // Use extracted pure function for filtering
   const filteredMessages = useMemo(() => {
     return filterMessages(allLoadedMessages, { searchTerm });
@@ -453,7 +487,9 @@ export const useCampaignDetailsController = () => {
   // Can perform actions?
   const canPause = activeCampaign?.status === CampaignStatus.SENDING;
   const canResume = activeCampaign?.status === CampaignStatus.PAUSED;
-  const canStart = activeCampaign?.status === CampaignStatus.SCHEDULED || activeCampaign?.status === CampaignStatus.DRAFT;
+  // Campanha recorrente não é disparada diretamente: cada execução do cron cria uma campanha-filha
+  const canStart = !activeCampaign?.recurrence &&
+    (activeCampaign?.status === CampaignStatus.SCHEDULED || activeCampaign?.status === CampaignStatus.DRAFT);
   const canCancelSchedule = activeCampaign?.status === CampaignStatus.SCHEDULED;
   const canCancelSend = activeCampaign?.status === CampaignStatus.SENDING || activeCampaign?.status === CampaignStatus.PAUSED;
 
@@ -496,6 +532,10 @@ export const useCampaignDetailsController = () => {
     canStart,
     onResendSkipped: handleResendSkipped,
     isResendingSkipped,
+    onRolloutAbTest: (variantId?: string) => rolloutAbTestMutation.mutate(variantId),
+    isRollingOutAbTest: rolloutAbTestMutation.isPending,
+    onToggleRecurrence: (active: boolean) => recurrenceMutation.mutate(active),
+    isUpdatingRecurrence: recurrenceMutation.isPending,
     filterStatus,
     setFilterStatus,
   };
@@ -1,7 +1,7 @@
 import { useState, useCallback, useMemo } from 'react';
 import { toast } from 'sonner';
 import { contactService } from '../services';
-import { ContactStatus } from '../types';
+import { ContactLifecycleStage, ContactStatus } from '../types';
 import {
   toggleContactSelection,
   toggleSelectAllContacts,
@@ -16,6 +16,7 @@ export interface ContactSelectionFilters {
   search: string;
   status: ContactStatus | 'ALL' | 'SUPPRESSED';
   tag: string;
+  stage?: ContactLifecycleStage | 'ALL';
 }
 
 /**
@@ -52,6 +53,7 @@ export function useContactSelection(
         search: filters.search.trim(),
         status: filters.status,
         tag: filters.tag,
+        stage: filters.stage,
       })
       .then((ids) => {
         setSelectedIds(selectAllContactsGlobal(ids));
@@ -59,7 +61,7 @@ export function useContactSelection(
       .catch((error: any) => {
         toast.error(error.message || 'Erro ao selecionar todos os contatos');
       });
-  }, [filters.search, filters.status, filters.tag]);
+  }, [filters.search, filters.status, filters.tag, filters.stage]);
 
   // Clear all selections
   const clearSelection = useCallback(() => {
@@ -3,7 +3,7 @@ import { useSearchParams } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { contactService } from '../services';
-import { Contact, ContactStatus } from '../types';
+import { Contact, ContactLifecycleStage, ContactStatus } from '../types';
 import { customFieldService } from '../services/customFieldService';
 import { PAGINATION, CACHE } from '@/lib/constants';
 import { invalidateContacts } from '@/lib/query-invalidation';
@@ -23,6 +23,7 @@ interface ContactsQueryParams {
   search: string
   status: ContactStatus | 'ALL' | 'SUPPRESSED'
   tag: string
+  stage: ContactLifecycleStage | 'ALL'
 }
 
 /**
@@ -36,6 +37,7 @@ const createContactsQueryKey = (params: ContactsQueryParams) => [
     search: (params.search || '').trim().toLowerCase(),
     status: params.status || 'ALL',
     tag: params.tag || 'ALL',
+    stage: params.stage || 'ALL',
   }
 ] as const;
 
@@ -49,6 +51,7 @@ export const useContactsController = (initialData?: ContactsInitialData) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<ContactStatus | 'ALL' | 'SUPPRESSED'>('ALL');
   const [tagFilter, setTagFilter] = useState<string>('ALL');
+  const [stageFilter, setStageFilter] = useState<ContactLifecycleStage | 'ALL'>('ALL');
   const [currentPage, setCurrentPage] = useState(1);
 
   // Modal State
@@ -69,11 +72,12 @@ export const useContactsController = (initialData?: ContactsInitialData) => {
     search: searchTerm,
     status: statusFilter,
     tag: tagFilter,
+    stage: stageFilter,
   };
   const contactsQueryKey = createContactsQueryKey(queryParams);
 
   // Se temos initialData e estamos na página 1 sem filtros, usamos como dados iniciais
-  const isFirstPageNoFilters = currentPage === 1 && !searchTerm.trim() && statusFilter === 'ALL' && tagFilter === 'ALL'
+  const isFirstPageNoFilters = currentPage === 1 && !searchTerm.trim() && statusFilter === 'ALL' && tagFilter === 'ALL' && stageFilter === 'ALL'
   const contactsInitial = isFirstPageNoFilters && initialData
     ? { data: initialData.contacts, total: initialData.total }
     : undefined
@@ -86,6 +90,7 @@ export const useContactsController = (initialData?: ContactsInitialData) => {
       search: searchTerm.trim(),
       status: statusFilter,
       tag: tagFilter,
+      stage: stageFilter,
     }),
     initialData: contactsInitial,
     staleTime: CACHE.contacts,
@@ -345,11 +350,16 @@ export const useContactsController = (initialData?: ContactsInitialData) => {
     setCurrentPage(1);
   }, []);
 
+  const handleStageFilterChange = useCallback((stage: ContactLifecycleStage | 'ALL') => {
+    setStageFilter(stage);
+    setCurrentPage(1);
+  }, []);
+
   // --- Selection Logic (extracted to reusable hook) ---
   const pageContactIds = useMemo(() => contacts.map(c => c.id), [contacts]);
   const selectionFilters = useMemo(
-    () => ({ search: searchTerm, status: statusFilter, tag: tagFilter }),
-    [searchTerm, statusFilter, tagFilter]
+    () => ({ search: searchTerm, status: statusFilter, tag: tagFilter, stage: stageFilter }),
+    [searchTerm, statusFilter, tagFilter, stageFilter]
   );
   const {
     selectedIds,
@@ -450,6 +460,8 @@ export const useContactsController = (initialData?: ContactsInitialData) => {
     setStatusFilter: handleStatusFilterChange,
     tagFilter,
     setTagFilter: handleTagFilterChange,
+    stageFilter,
+    setStageFilter: handleStageFilterChange,
 
     // Pagination
     currentPage,
@@ -12,6 +12,8 @@ import {
 } from '@tanstack/react-query'
 import {
   inboxService,
+  type ConversationAssignmentFilter,
+  type ConversationSort,
   type ConversationListParams,
   type ConversationListResult,
 } from '@/services/inboxService'
@@ -44,6 +46,8 @@ export interface UseConversationsParams {
   mode?: ConversationMode
   labelId?: string
   search?: string
+  assigned?: ConversationAssignmentFilter
+  sort?: ConversationSort
   initialData?: InboxConversation[]
 }
 
@@ -52,11 +56,11 @@ const CONVERSATIONS_PAGE_SIZE = PAGINATION.inboxConversations
 export function useConversations(params: UseConversationsParams = {}) {
   const queryClient = useQueryClient()
   const channelRef = useRef<ReturnType<typeof createRealtimeChannel> | null>(null)
-  const { limit = CONVERSATIONS_PAGE_SIZE, status, mode, labelId, search, initialData } = params
+  const { limit = CONVERSATIONS_PAGE_SIZE, status, mode, labelId, search, assigned, sort, initialData } = params
 
   const queryParams: Omit<ConversationListParams, 'page'> = useMemo(
-    () => ({ limit, status, mode, labelId, search }),
-    [limit, status, mode, labelId, search]
+    () => ({ limit, status, mode, labelId, search, assigned, sort }),
+    [limit, status, mode, labelId, search, assigned, sort]
   )
 
   const queryKey = [...CONVERSATIONS_LIST_KEY, 'infinite', queryParams]
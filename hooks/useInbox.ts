@@ -10,9 +10,12 @@ import { useConversations, useConversationMutations } from './useConversations'
 import { useConversationWithMessages } from './useConversation'
 import { useLabels } from './useLabels'
 import { useQuickReplies } from './useQuickReplies'
+import { useInboxSearch } from './useInboxSearch'
 import { useInboxSettings, getHumanModeTimeoutMs } from './useInboxSettings'
 import { aiAgentService, type UpdateAIAgentParams } from '@/services/aiAgentService'
-import type { ConversationStatus, ConversationMode, ConversationPriority, AIAgent, InboxConversation, InboxLabel, InboxQuickReply } from '@/types'
+import type { ConversationAssignmentFilter, ConversationSort } from '@/services/inboxService'
+import { hasPermission } from '@/lib/business/access'
+import type { ConversationStatus, ConversationMode, ConversationPriority, AIAgent, InboxConversation, InboxLabel, InboxQuickReply, InboxSearchHit, UserRole } from '@/types'
 
 export interface InboxInitialData {
   conversations?: InboxConversation[]
@@ -39,6 +42,8 @@ export function useInbox(options: UseInboxOptions = {}) {
   const [statusFilter, setStatusFilter] = useState<ConversationStatus | null>('open')
   const [modeFilter, setModeFilter] = useState<ConversationMode | null>(null)
   const [labelFilter, setLabelFilter] = useState<string | null>(null)
+  const [assignmentFilter, setAssignmentFilter] = useState<ConversationAssignmentFilter | null>(null)
+  const [sortOrder, setSortOrder] = useState<ConversationSort>('recent')
 
   // Selected conversation ID (from URL or state)
   const [selectedId, setSelectedId] = useState<string | null>(
@@ -68,9 +73,21 @@ export function useInbox(options: UseInboxOptions = {}) {
     mode: modeFilter ?? undefined,
     labelId: labelFilter ?? undefined,
     search: search || undefined,
+    assigned: assignmentFilter ?? undefined,
+    sort: sortOrder,
     initialData: options.initialData?.conversations,
   })
 
+  // Full-text search (mensagens, transcrições, resumos de handoff)
+  const {
+    results: searchResults,
+    total: searchTotal,
+    isSearching: isSearchingMessages,
+  } = useInboxSearch(search)
+
+  // Mensagem a destacar no painel (resultado da busca)
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null)
+
   // Conversation mutations
   const conversationMutations = useConversationMutations()
 
@@ -156,6 +173,7 @@ export function useInbox(options: UseInboxOptions = {}) {
   const handleSelectConversation = useCallback(
     (id: string | null) => {
       setSelectedId(id)
+      setFocusedMessageId(null)
       if (id) {
         // Update URL without full navigation
         const url = new URL(window.location.href)
@@ -170,6 +188,17 @@ export function useInbox(options: UseInboxOptions = {}) {
     [router]
   )
 
+  // Open the conversation of a search hit, scrolled to the matched message
+  const handleSelectSearchResult = useCallback(
+    (hit: InboxSearchHit) => {
+      handleSelectConversation(hit.conversation_id)
+      setFocusedMessageId(hit.message_id)
+    },
+    [handleSelectConversation]
+  )
+
+  const handleFocusedMessageShown = useCallback(() => setFocusedMessageId(null), [])
+
   // Handle sending a message
   // Auto-transfers to human mode when operator sends a manual message
   const handleSendMessage = useCallback(
@@ -226,6 +255,19 @@ export function useInbox(options: UseInboxOptions = {}) {
     [selectedConversation, updateConversation]
   )
 
+  // Assign / reassign (the new assignee is notified by push).
+  // Roles limited to their own conversations cannot reassign.
+  const userRole = queryClient.getQueryData<{ user?: { role?: UserRole } }>(['authStatus'])?.user?.role
+  const canAssign = !userRole || hasPermission(userRole, 'inbox:view_all')
+
+  const handleAssign = useCallback(
+    async (userId: string | null) => {
+      if (!selectedConversation) return
+      await updateConversation({ assigned_user_id: userId })
+    },
+    [selectedConversation, updateConversation]
+  )
+
   // Toggle label
   const handleLabelToggle = useCallback(
     async (labelId: string) => {
@@ -307,6 +349,18 @@ export function useInbox(options: UseInboxOptions = {}) {
     onModeFilterChange: setModeFilter,
     labelFilter,
     onLabelFilterChange: setLabelFilter,
+    assignmentFilter,
+    onAssignmentFilterChange: setAssignmentFilter,
+    sortOrder,
+    onSortOrderChange: setSortOrder,
+
+    // Full-text search
+    searchResults,
+    searchTotal,
+    isSearchingMessages,
+    onSelectSearchResult: handleSelectSearchResult,
+    focusedMessageId,
+    onFocusedMessageShown: handleFocusedMessageShown,
 
     // Conversation actions
     onModeToggle: handleModeToggle,
@@ -314,6 +368,7 @@ export function useInbox(options: UseInboxOptions = {}) {
     onReopenConversation: handleReopenConversation,
     onPriorityChange: handlePriorityChange,
     onLabelToggle: handleLabelToggle,
+    onAssign: canAssign ? handleAssign : undefined,
     // T050: Handoff actions
     onHandoff: handleHandoff,
     onReturnToBot: handleReturnToBot,
@@ -0,0 +1,74 @@
+/**
+ * useInboxQueues - Attendance queues and assignable users
+ * Queues drive the automatic assignment of conversations after a handoff
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { inboxService, type QueueParams } from '@/services/inboxService'
+import { CACHE } from '@/lib/constants'
+
+const QUEUES_KEY = ['inbox-queues']
+const ASSIGNEES_KEY = ['inbox-assignees']
+
+// =============================================================================
+// Assignees Hook
+// =============================================================================
+
+export function useInboxAssignees() {
+  const assigneesQuery = useQuery({
+    queryKey: ASSIGNEES_KEY,
+    queryFn: inboxService.listAssignees,
+    staleTime: CACHE.labels,
+  })
+
+  return {
+    assignees: assigneesQuery.data ?? [],
+    isLoading: assigneesQuery.isLoading,
+  }
+}
+
+// =============================================================================
+// Queues Hook
+// =============================================================================
+
+export function useInboxQueues() {
+  const queryClient = useQueryClient()
+
+  const queuesQuery = useQuery({
+    queryKey: QUEUES_KEY,
+    queryFn: inboxService.listQueues,
+    staleTime: CACHE.labels,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUEUES_KEY })
+
+  const createMutation = useMutation({
+    mutationFn: inboxService.createQueue,
+    onSuccess: invalidate,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...params }: Partial<QueueParams> & { id: string }) =>
+      inboxService.updateQueue(id, params),
+    onSuccess: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: inboxService.deleteQueue,
+    onSuccess: invalidate,
+  })
+
+  return {
+    queues: queuesQuery.data ?? [],
+    isLoading: queuesQuery.isLoading,
+    error: queuesQuery.error,
+
+    create: createMutation.mutateAsync,
+    update: updateMutation.mutateAsync,
+    delete: deleteMutation.mutateAsync,
+
+    isCreating: createMutation.isPending,
+    isUpdating: updateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * useInboxScheduled - Scheduled messages and follow-up reminders of a conversation
+ * Criados no compositor; processados no horário pelo worker do servidor
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { inboxService } from '@/services/inboxService'
+import { templateService } from '@/services/templateService'
+import { CACHE } from '@/lib/constants'
+import type { CreateInboxScheduledItemDTO } from '@/types'
+
+const SCHEDULED_KEY = 'inbox-scheduled'
+
+/** Enquanto houver itens pendentes, acompanha o processamento */
+const PENDING_REFETCH_MS = 60 * 1000
+
+export function useInboxScheduled(conversationId: string | null) {
+  const queryClient = useQueryClient()
+  const queryKey = [SCHEDULED_KEY, conversationId]
+
+  const scheduledQuery = useQuery({
+    queryKey,
+    queryFn: () => inboxService.listScheduledItems(conversationId!),
+    enabled: !!conversationId,
+    staleTime: CACHE.inbox,
+    refetchInterval: (query) =>
+      query.state.data?.some((item) => item.status === 'scheduled' || item.status === 'processing')
+        ? PENDING_REFETCH_MS
+        : false,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey })
+
+  const scheduleMutation = useMutation({
+    mutationFn: (params: CreateInboxScheduledItemDTO) => inboxService.scheduleItem(conversationId!, params),
+    onSuccess: invalidate,
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: (itemId: string) => inboxService.cancelScheduledItem(conversationId!, itemId),
+    onSuccess: invalidate,
+  })
+
+  const items = scheduledQuery.data ?? []
+
+  return {
+    items,
+    pendingItems: items.filter((item) => item.status === 'scheduled'),
+    isLoading: scheduledQuery.isLoading,
+
+    schedule: scheduleMutation.mutateAsync,
+    cancel: cancelMutation.mutateAsync,
+
+    isScheduling: scheduleMutation.isPending,
+    isCancelling: cancelMutation.isPending,
+  }
+}
+
+/**
+ * Templates aprovados para o fallback (janela de 24h fechada no horário do envio)
+ */
+export function useFallbackTemplates(enabled: boolean) {
+  const templatesQuery = useQuery({
+    queryKey: ['templates'],
+    queryFn: templateService.getAll,
+    select: (data) => data.filter((t) => t.status === 'APPROVED'),
+    enabled,
+    staleTime: CACHE.templates,
+    refetchOnMount: false,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  })
+
+  return {
+    templates: templatesQuery.data ?? [],
+    isLoading: templatesQuery.isLoading,
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * useInboxSearch - Full-text search over the inbox history
+ * Mensagens, transcrições, resumos de handoff e contatos (com trechos destacados)
+ */
+
+import { useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { inboxService } from '@/services/inboxService'
+import { isSearchableQuery } from '@/lib/business/inbox'
+import { CACHE } from '@/lib/constants'
+
+const SEARCH_KEY = 'inbox-search'
+
+/** Espera o usuário parar de digitar antes de buscar */
+const SEARCH_DEBOUNCE_MS = 350
+
+const SEARCH_LIMIT = 20
+
+export function useInboxSearch(search: string) {
+  const [query, setQuery] = useState(search.trim())
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  const enabled = isSearchableQuery(query)
+
+  const searchQuery = useQuery({
+    queryKey: [SEARCH_KEY, query],
+    queryFn: () => inboxService.searchInbox({ query, limit: SEARCH_LIMIT }),
+    enabled,
+    staleTime: CACHE.inbox,
+    refetchOnWindowFocus: false,
+  })
+
+  return {
+    results: enabled ? searchQuery.data?.results ?? [] : [],
+    total: enabled ? searchQuery.data?.total ?? 0 : 0,
+    isSearching: enabled && searchQuery.isFetching,
+  }
+}
@@ -198,6 +198,24 @@ export const useSettingsController = () => {
     retry: false,
   });
 
+  // Horário de silêncio (dependent on isConnected)
+  const quietHoursQuery = useQuery({
+    queryKey: ['quietHours'],
+    queryFn: settingsService.getQuietHours,
+    enabled: !!settingsData?.isConnected,
+    staleTime: 30 * 1000,
+    retry: false,
+  });
+
+  // Atribuição de conversões (dependent on isConnected)
+  const conversionAttributionQuery = useQuery({
+    queryKey: ['conversionAttribution'],
+    queryFn: settingsService.getConversionAttribution,
+    enabled: !!settingsData?.isConnected,
+    staleTime: 30 * 1000,
+    retry: false,
+  });
+
   // Calendar Booking - derived from consolidated query
   const calendarBookingQuery = {
     data: allSettingsQuery.data?.calendarBooking,
@@ -350,6 +368,28 @@ export const useSettingsController = () => {
     },
   });
 
+  const saveQuietHoursMutation = useMutation({
+    mutationFn: settingsService.saveQuietHours,
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: ['quietHours'] });
+      toast.success('Horário de silêncio salvo!');
+    },
+    onError: (err: any) => {
+      toast.error(err?.message || 'Erro ao salvar horário de silêncio');
+    },
+  });
+
+  const saveConversionAttributionMutation = useMutation({
+    mutationFn: settingsService.saveConversionAttribution,
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: ['conversionAttribution'] });
+      toast.success('Atribuição de conversões salva!');
+    },
+    onError: (err: any) => {
+      toast.error(err?.message || 'Erro ao salvar atribuição de conversões');
+    },
+  });
+
   const saveCalendarBookingMutation = useMutation({
     mutationFn: settingsService.saveCalendarBookingConfig,
     onSuccess: async () => {
@@ -835,6 +875,18 @@ export const useSettingsController = () => {
     saveAutoSuppression: saveAutoSuppressionMutation.mutateAsync,
     isSavingAutoSuppression: saveAutoSuppressionMutation.isPending,
 
+    // Horário de silêncio (janela global de disparo)
+    quietHours: quietHoursQuery.data || null,
+    quietHoursLoading: quietHoursQuery.isLoading,
+    saveQuietHours: saveQuietHoursMutation.mutateAsync,
+    isSavingQuietHours: saveQuietHoursMutation.isPending,
+
+    // Atribuição de conversões (janela e fallback para o inbox)
+    conversionAttribution: conversionAttributionQuery.data || null,
+    conversionAttributionLoading: conversionAttributionQuery.isLoading,
+    saveConversionAttribution: saveConversionAttributionMutation.mutateAsync,
+    isSavingConversionAttribution: saveConversionAttributionMutation.isPending,
+
     // Calendar Booking (Google Calendar)
     calendarBooking: calendarBookingQuery.data || null,
     calendarBookingLoading: calendarBookingQuery.isLoading,
@@ -0,0 +1,9 @@
+/**
+ * Next.js instrumentation (executado uma vez no boot do servidor).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { registerWorkspaceScope } = await import('./lib/workspace-scope')
+    registerWorkspaceScope()
+  }
+}
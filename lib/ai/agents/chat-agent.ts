@@ -17,6 +17,7 @@
 
 import { z } from 'zod'
 import { getSupabaseAdmin } from '@/lib/supabase'
+import { formatMessageForAI } from '@/lib/business/inbox'
 import type { AIAgent, InboxConversation, InboxMessage } from '@/types'
 
 // NOTE: AI dependencies are imported DYNAMICALLY inside processChatAgent
@@ -240,7 +241,7 @@ function convertToAIMessages(
     .filter((m) => m.message_type !== 'internal_note')
     .map((m) => ({
       role: (m.direction === 'inbound' ? 'user' : 'assistant') as 'user' | 'assistant',
-      content: m.content,
+      content: formatMessageForAI(m, messages),
     }))
 }
 
@@ -318,7 +319,8 @@ export async function processChatAgent(
 
   // Setup message context
   const lastUserMessage = messages.filter((m) => m.direction === 'inbound').slice(-1)[0]
-  const inputText = lastUserMessage?.content || ''
+  // Áudio/imagem entram como o texto extraído (transcrição, descrição)
+  const inputText = lastUserMessage ? formatMessageForAI(lastUserMessage, messages) : ''
   const messageIds = messages.map((m) => m.id)
   const aiMessages = convertToAIMessages(messages.slice(-10))
 
@@ -519,7 +521,7 @@ export async function processChatAgent(
           }),
           execute: async () => {
             console.log(`[chat-agent] 📅 LLM requested booking flow for: ${conversation.phone}`)
-            const result = await sendBookingFlow(conversation.phone)
+            const result = await sendBookingFlow(conversation.phone, conversation.phone_number_id)
 
             if (result.success) {
               console.log(`[chat-agent] 📅 Booking flow sent successfully: ${result.messageId}`)
@@ -549,6 +551,7 @@ export async function processChatAgent(
 
     if (lastUserMessage?.whatsapp_message_id && allowReactions) {
       const { sendReaction } = await import('@/lib/whatsapp-send')
+      const { getWhatsAppCredentials } = await import('@/lib/whatsapp-credentials')
 
       const reactToMessageTool = tool({
         description: 'Reage à mensagem do usuário com um emoji. A reação aparece grudada na mensagem dele como feedback visual instantâneo.',
@@ -562,6 +565,7 @@ export async function processChatAgent(
             to: conversation.phone,
             messageId: lastUserMessage.whatsapp_message_id!,
             emoji,
+            credentials: (await getWhatsAppCredentials(conversation.phone_number_id)) ?? undefined,
           })
 
           if (result.success) {
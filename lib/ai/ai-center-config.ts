@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase'
+import { getCurrentWorkspaceId } from '@/lib/workspace-context'
 import {
   DEFAULT_AI_FALLBACK,
   DEFAULT_AI_GATEWAY,
@@ -22,11 +23,16 @@ const SETTINGS_KEYS = {
 } as const
 
 const CACHE_TTL = 60000
-let cacheTime = 0
-let cachedRoutes: AiRoutesConfig | null = null
-let cachedFallback: AiFallbackConfig | null = null
-let cachedPrompts: AiPromptsConfig | null = null
-let cachedGateway: AiGatewayConfig | null = null
+
+// Cache por workspace (cada workspace tem suas próprias settings de IA)
+type AiCenterCache = {
+  time: number
+  routes?: AiRoutesConfig
+  fallback?: AiFallbackConfig
+  prompts?: AiPromptsConfig
+  gateway?: AiGatewayConfig
+}
+const caches = new Map<string, AiCenterCache>()
 
 function parseJsonSetting<T>(value: string | null, fallback: T): T {
   if (!value) return fallback
@@ -141,30 +147,36 @@ async function getSettingValue(key: string): Promise<string | null> {
   return data.value
 }
 
-function isCacheValid(): boolean {
-  return Date.now() - cacheTime < CACHE_TTL
+async function getCache(): Promise<AiCenterCache> {
+  const workspaceId = await getCurrentWorkspaceId()
+  const cache = caches.get(workspaceId)
+  if (cache && Date.now() - cache.time < CACHE_TTL) return cache
+  const fresh: AiCenterCache = { time: Date.now() }
+  caches.set(workspaceId, fresh)
+  return fresh
 }
 
 export async function getAiRoutesConfig(): Promise<AiRoutesConfig> {
-  if (cachedRoutes && isCacheValid()) return cachedRoutes
+  const cache = await getCache()
+  if (cache.routes) return cache.routes
   const raw = await getSettingValue(SETTINGS_KEYS.routes)
   const parsed = parseJsonSetting<Partial<AiRoutesConfig>>(raw, DEFAULT_AI_ROUTES)
-  cachedRoutes = normalizeRoutes(parsed)
-  cacheTime = Date.now()
-  return cachedRoutes
+  cache.routes = normalizeRoutes(parsed)
+  return cache.routes
 }
 
 export async function getAiFallbackConfig(): Promise<AiFallbackConfig> {
-  if (cachedFallback && isCacheValid()) return cachedFallback
+  const cache = await getCache()
+  if (cache.fallback) return cache.fallback
   const raw = await getSettingValue(SETTINGS_KEYS.fallback)
   const parsed = parseJsonSetting<Partial<AiFallbackConfig>>(raw, DEFAULT_AI_FALLBACK)
-  cachedFallback = normalizeFallback(parsed)
-  cacheTime = Date.now()
-  return cachedFallback
+  cache.fallback = normalizeFallback(parsed)
+  return cache.fallback
 }
 
 export async function getAiPromptsConfig(): Promise<AiPromptsConfig> {
-  if (cachedPrompts && isCacheValid()) return cachedPrompts
+  const cache = await getCache()
+  if (cache.prompts) return cache.prompts
 
   // Busca prompts base do JSON ai_prompts
   const rawBase = await getSettingValue(SETTINGS_KEYS.prompts)
@@ -180,21 +192,20 @@ export async function getAiPromptsConfig(): Promise<AiPromptsConfig> {
   const strategyPrompts = normalizeStrategyPrompts({ marketing, utility, bypass })
 
   // Combina os dois
-  cachedPrompts = {
+  cache.prompts = {
     ...basePrompts,
     ...strategyPrompts,
   }
-  cacheTime = Date.now()
-  return cachedPrompts
+  return cache.prompts
 }
 
 export async function getAiGatewayConfig(): Promise<AiGatewayConfig> {
-  if (cachedGateway && isCacheValid()) return cachedGateway
+  const cache = await getCache()
+  if (cache.gateway) return cache.gateway
   const raw = await getSettingValue(SETTINGS_KEYS.gateway)
   const parsed = parseJsonSetting<Partial<AiGatewayConfig>>(raw, DEFAULT_AI_GATEWAY)
-  cachedGateway = normalizeGateway(parsed)
-  cacheTime = Date.now()
-  return cachedGateway
+  cache.gateway = normalizeGateway(parsed)
+  return cache.gateway
 }
 
 export async function isAiRouteEnabled(routeKey: keyof AiRoutesConfig): Promise<boolean> {
@@ -219,9 +230,5 @@ export function prepareAiGatewayUpdate(input?: Partial<AiGatewayConfig> | null):
 }
 
 export function clearAiCenterCache() {
-  cacheTime = 0
-  cachedRoutes = null
-  cachedFallback = null
-  cachedPrompts = null
-  cachedGateway = null
+  caches.clear()
 }
@@ -11,12 +11,15 @@ export {
     generateText,
     streamText,
     generateJSON,
+    parseJSONResponse,
+    JSON_ONLY_INSTRUCTION,
     clearSettingsCache,
     MissingAIKeyError,
     type AISettings,
     type GenerateTextOptions,
     type StreamTextOptions,
     type GenerateTextResult,
+    type GenerateTextUsage,
     type ChatMessage,
 } from './unified-ai-service';
 
@@ -45,7 +45,7 @@ export class GeminiOCRProvider implements OCRProvider {
     private modelId: string = DEFAULT_OCR_MODEL
   ) {}
 
-  async process({ content, mimeType, fileName }: OCRProcessParams): Promise<OCRResult> {
+  async process({ content, mimeType, fileName, prompt }: OCRProcessParams): Promise<OCRResult> {
     const google = createGoogleGenerativeAI({ apiKey: this.apiKey })
     const model = google(this.modelId)
 
@@ -77,7 +77,7 @@ export class GeminiOCRProvider implements OCRProvider {
               data: fileData,
               mediaType: mimeType,
             },
-            { type: 'text', text: OCR_PROMPT },
+            { type: 'text', text: prompt || OCR_PROMPT },
           ],
         },
       ],
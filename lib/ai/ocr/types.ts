@@ -15,6 +15,11 @@ export interface OCRProcessParams {
   mimeType: string
   /** Nome do arquivo (para logs) */
   fileName: string
+  /**
+   * Instrução customizada (ex.: descrever uma foto além de extrair o texto).
+   * Só providers baseados em LLM usam; APIs dedicadas de OCR ignoram.
+   */
+  prompt?: string
 }
 
 /**
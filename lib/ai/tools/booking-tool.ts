@@ -9,6 +9,7 @@
 import { settingsDb } from '@/lib/supabase-db'
 import { isSupabaseConfigured, supabase } from '@/lib/supabase'
 import { sendFlowMessage } from '@/lib/whatsapp-send'
+import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
 
 // =============================================================================
 // TYPES
@@ -177,9 +178,10 @@ export async function getBookingConfig(): Promise<BookingConfig | null> {
  * Send a booking flow message to a phone number.
  *
  * @param phoneNumber - Recipient phone number
+ * @param phoneNumberId - Sending WhatsApp number (conversation's number; default = primary)
  * @returns Result with success status and message ID
  */
-export async function sendBookingFlow(phoneNumber: string): Promise<SendBookingFlowResult> {
+export async function sendBookingFlow(phoneNumber: string, phoneNumberId?: string | null): Promise<SendBookingFlowResult> {
   const config = await getBookingConfig()
 
   if (!config) {
@@ -197,6 +199,7 @@ export async function sendBookingFlow(phoneNumber: string): Promise<SendBookingF
     ctaText: config.ctaText,
     headerText: config.headerText,
     flowAction: 'navigate',
+    credentials: (await getWhatsAppCredentials(phoneNumberId)) ?? undefined,
   })
 
   return {
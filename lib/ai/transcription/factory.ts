@@ -0,0 +1,88 @@
+/**
+ * Transcription Provider Factory
+ *
+ * Gerencia a criação e seleção de providers de transcrição.
+ * Busca configurações do Supabase (settings) e faz fallback para env vars.
+ *
+ * Configurações no banco:
+ * - `transcription_provider`: 'gemini' | 'openai' (default: 'gemini')
+ * - `transcription_gemini_model`: modelo Gemini (default: 'gemini-2.5-flash')
+ * - `gemini_api_key`: API key do Gemini (fallback: env GEMINI_API_KEY)
+ * - `openai_api_key`: API key da OpenAI (fallback: env OPENAI_API_KEY)
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase'
+import { GeminiTranscriptionProvider, DEFAULT_TRANSCRIPTION_MODEL } from './providers/gemini'
+import { OpenAITranscriptionProvider } from './providers/openai'
+import type { TranscriptionProvider } from './types'
+
+/** Providers de transcrição disponíveis */
+export type TranscriptionProviderName = 'gemini' | 'openai'
+
+/** Provider padrão quando nenhum é especificado */
+const DEFAULT_PROVIDER: TranscriptionProviderName = 'gemini'
+
+/**
+ * Obtém um provider de transcrição configurado
+ *
+ * @param preferredProvider - Provider preferido (sobrescreve config do banco)
+ * @returns Provider configurado ou null se nenhum estiver disponível
+ */
+export async function getTranscriptionProvider(
+  preferredProvider?: TranscriptionProviderName
+): Promise<TranscriptionProvider | null> {
+  const supabase = getSupabaseAdmin()
+
+  let settingsMap = new Map<string, string>()
+
+  if (supabase) {
+    const { data: settings } = await supabase
+      .from('settings')
+      .select('key, value')
+      .in('key', ['gemini_api_key', 'openai_api_key', 'transcription_provider', 'transcription_gemini_model'])
+
+    settingsMap = new Map(settings?.map((s) => [s.key, s.value]) || [])
+  }
+
+  // Determinar qual provider usar (parâmetro > banco > default)
+  const providerName =
+    preferredProvider ||
+    (settingsMap.get('transcription_provider') as TranscriptionProviderName) ||
+    DEFAULT_PROVIDER
+
+  // Obter API keys (banco > env)
+  const geminiKey =
+    settingsMap.get('gemini_api_key') ||
+    process.env.GOOGLE_GENERATIVE_AI_API_KEY ||
+    process.env.GEMINI_API_KEY
+  const openaiKey = settingsMap.get('openai_api_key') || process.env.OPENAI_API_KEY
+
+  const geminiModel = settingsMap.get('transcription_gemini_model') || DEFAULT_TRANSCRIPTION_MODEL
+
+  const providers: Record<TranscriptionProviderName, () => TranscriptionProvider | null> = {
+    gemini: () => (geminiKey ? new GeminiTranscriptionProvider(geminiKey, geminiModel) : null),
+    openai: () => (openaiKey ? new OpenAITranscriptionProvider(openaiKey) : null),
+  }
+
+  // Tentar provider preferido primeiro
+  let provider = providers[providerName]?.()
+
+  // Fallback: tentar outros providers se o preferido não estiver configurado
+  if (!provider) {
+    for (const [name, factory] of Object.entries(providers)) {
+      if (name !== providerName) {
+        provider = factory()
+        if (provider) {
+          console.log(`[transcription] Fallback to ${name} (${providerName} not configured)`)
+          break
+        }
+      }
+    }
+  }
+
+  if (!provider) {
+    console.warn('[transcription] No transcription provider available - check API keys')
+  }
+
+  return provider
+}
@@ -0,0 +1,51 @@
+/**
+ * Transcription Provider System
+ *
+ * Transcrição de áudios (notas de voz) recebidos no inbox, no mesmo formato
+ * plugável do sistema de OCR (`lib/ai/ocr`).
+ *
+ * @example
+ * ```ts
+ * import { transcribeAudio } from '@/lib/ai/transcription'
+ *
+ * const result = await transcribeAudio(audioBuffer, 'audio/ogg; codecs=opus', 'voz.ogg')
+ * if (result) console.log(result.text)
+ * ```
+ */
+
+// Re-export tipos
+export * from './types'
+
+// Re-export factory
+export { getTranscriptionProvider, type TranscriptionProviderName } from './factory'
+
+// Re-export providers (para uso direto se necessário)
+export { GeminiTranscriptionProvider, DEFAULT_TRANSCRIPTION_MODEL } from './providers/gemini'
+export { OpenAITranscriptionProvider } from './providers/openai'
+
+import { getTranscriptionProvider, type TranscriptionProviderName } from './factory'
+import type { TranscriptionResult } from './types'
+
+/**
+ * Transcreve um áudio com o provider configurado
+ *
+ * @returns Resultado da transcrição ou null se nenhum provider estiver disponível
+ *   (erros do provider são propagados para quem chamou decidir o fallback)
+ */
+export async function transcribeAudio(
+  content: ArrayBuffer,
+  mimeType: string,
+  fileName: string,
+  options: { language?: string; preferredProvider?: TranscriptionProviderName } = {}
+): Promise<TranscriptionResult | null> {
+  const provider = await getTranscriptionProvider(options.preferredProvider)
+  if (!provider) return null
+
+  console.log(`[transcription] Transcribing ${fileName} with ${provider.name}...`)
+
+  const result = await provider.transcribe({ content, mimeType, fileName, language: options.language })
+
+  console.log(`[transcription] Success: ${result.text.length} chars from ${fileName}`)
+
+  return result
+}
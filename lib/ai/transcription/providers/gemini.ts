@@ -0,0 +1,64 @@
+/**
+ * Gemini Transcription Provider
+ *
+ * Usa modelos Gemini (entrada de áudio nativa) para transcrever notas de voz.
+ * O modelo é configurável via setting `transcription_gemini_model`.
+ */
+
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { generateText } from 'ai'
+import type { TranscriptionParams, TranscriptionProvider, TranscriptionResult } from '../types'
+
+/** Modelo padrão para transcrição - bom custo/benefício */
+export const DEFAULT_TRANSCRIPTION_MODEL = 'gemini-2.5-flash'
+
+const TRANSCRIPTION_PROMPT = `Transcribe this audio verbatim.
+
+Rules:
+- Output ONLY the transcription, in the language spoken
+- Do NOT translate, summarize or add commentary
+- Keep numbers, names and values exactly as spoken
+- If the audio has no speech, output an empty string`
+
+export class GeminiTranscriptionProvider implements TranscriptionProvider {
+  name = 'gemini'
+
+  constructor(
+    private apiKey: string,
+    private modelId: string = DEFAULT_TRANSCRIPTION_MODEL
+  ) {}
+
+  async transcribe({ content, mimeType, fileName, language }: TranscriptionParams): Promise<TranscriptionResult> {
+    const google = createGoogleGenerativeAI({ apiKey: this.apiKey })
+    const model = google(this.modelId)
+
+    const { text } = await generateText({
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            // Gemini não aceita parâmetros de codec no MIME type (audio/ogg; codecs=opus)
+            { type: 'file', data: Buffer.from(content), mediaType: mimeType.split(';')[0].trim() },
+            {
+              type: 'text',
+              text: language ? `${TRANSCRIPTION_PROMPT}\n- Expected language: ${language}` : TRANSCRIPTION_PROMPT,
+            },
+          ],
+        },
+      ],
+    })
+
+    console.log(`[transcription:gemini] Transcribed ${fileName} with ${this.modelId}`)
+
+    return {
+      text: text.trim(),
+      provider: this.name,
+      model: this.modelId,
+    }
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return !!this.apiKey
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * OpenAI Transcription Provider
+ *
+ * Usa a API de transcrição da OpenAI (gpt-4o-mini-transcribe).
+ * Aceita ogg/opus direto (formato das notas de voz do WhatsApp).
+ *
+ * API: https://api.openai.com/v1/audio/transcriptions
+ */
+
+import type { TranscriptionParams, TranscriptionProvider, TranscriptionResult } from '../types'
+
+const OPENAI_TRANSCRIPTION_API = 'https://api.openai.com/v1/audio/transcriptions'
+const OPENAI_TRANSCRIPTION_MODEL = 'gpt-4o-mini-transcribe'
+
+/** Extensão esperada pela API (ela valida o nome do arquivo) */
+function getFileExtension(mimeType: string): string {
+  const base = mimeType.split(';')[0].trim()
+  const map: Record<string, string> = {
+    'audio/ogg': 'ogg',
+    'audio/opus': 'ogg',
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/aac': 'm4a',
+    'audio/amr': 'amr',
+    'audio/wav': 'wav',
+    'audio/webm': 'webm',
+  }
+  return map[base] || 'ogg'
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  name = 'openai'
+
+  constructor(private apiKey: string) {}
+
+  async transcribe({ content, mimeType, fileName, language }: TranscriptionParams): Promise<TranscriptionResult> {
+    const form = new FormData()
+    form.append('model', OPENAI_TRANSCRIPTION_MODEL)
+    form.append('response_format', 'json')
+    if (language) form.append('language', language)
+    form.append(
+      'file',
+      new Blob([content], { type: mimeType.split(';')[0].trim() }),
+      `audio.${getFileExtension(mimeType)}`
+    )
+
+    const response = await fetch(OPENAI_TRANSCRIPTION_API, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error(`[transcription:openai] API error (${response.status}):`, errorText)
+      throw new Error(`OpenAI transcription failed: ${response.status} - ${errorText}`)
+    }
+
+    const data = (await response.json()) as { text?: string }
+
+    console.log(`[transcription:openai] Transcribed ${fileName} with ${OPENAI_TRANSCRIPTION_MODEL}`)
+
+    return {
+      text: (data.text || '').trim(),
+      provider: this.name,
+      model: OPENAI_TRANSCRIPTION_MODEL,
+    }
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return !!this.apiKey
+  }
+}
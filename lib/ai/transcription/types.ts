@@ -0,0 +1,53 @@
+/**
+ * Transcription Provider System - Tipos e Interfaces
+ *
+ * Providers de transcrição de áudio (notas de voz do WhatsApp) usados pelo inbox
+ * para que atendentes e agentes de IA leiam o que o cliente falou.
+ */
+
+/**
+ * Parâmetros para transcrição
+ */
+export interface TranscriptionParams {
+  /** Conteúdo do áudio */
+  content: ArrayBuffer
+  /** MIME type do áudio (ex.: audio/ogg; codecs=opus) */
+  mimeType: string
+  /** Nome do arquivo (para logs) */
+  fileName: string
+  /** Idioma esperado (ISO 639-1). Ajuda a precisão em áudios curtos */
+  language?: string
+}
+
+/**
+ * Resultado da transcrição
+ */
+export interface TranscriptionResult {
+  /** Texto transcrito */
+  text: string
+  /** Nome do provider usado */
+  provider: string
+  /** Modelo usado (se aplicável) */
+  model?: string
+}
+
+/**
+ * Interface que todos os providers de transcrição devem implementar
+ */
+export interface TranscriptionProvider {
+  /** Nome do provider */
+  name: string
+
+  /** Transcreve o áudio */
+  transcribe(params: TranscriptionParams): Promise<TranscriptionResult>
+
+  /** Verifica se o provider está configurado (tem API key) */
+  isConfigured(): Promise<boolean>
+}
+
+/**
+ * Verifica se um arquivo é áudio transcritível
+ */
+export function needsTranscription(mimeType: string): boolean {
+  return mimeType.startsWith('audio/')
+}
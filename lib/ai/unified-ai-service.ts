@@ -14,6 +14,7 @@
 import { generateText as vercelGenerateText, streamText as vercelStreamText } from 'ai';
 
 import { supabase } from '@/lib/supabase';
+import { getCurrentWorkspaceId } from '@/lib/workspace-context';
 import { type AIProvider, getDefaultModel } from './providers';
 import { getAiFallbackConfig, getAiGatewayConfig } from './ai-center-config';
 import { toGatewayModelId, type AiGatewayConfig } from './ai-center-defaults';
@@ -58,10 +59,18 @@ export interface StreamTextOptions extends GenerateTextOptions {
     onComplete?: (text: string) => void;
 }
 
+export interface GenerateTextUsage {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
 export interface GenerateTextResult {
     text: string;
     provider: AIProvider;
     model: string;
+    /** Tokens consumidos (apenas em `generateText`; 0 quando o provedor não informa). */
+    usage?: GenerateTextUsage;
 }
 
 export class MissingAIKeyError extends Error {
@@ -78,18 +87,22 @@ export class MissingAIKeyError extends Error {
 // SETTINGS CACHE
 // =============================================================================
 
-let settingsCache: AISettings | null = null;
-let settingsCacheTime = 0;
+// Por workspace: cada workspace tem seu provider/chaves
+const settingsCache = new Map<string, { settings: AISettings; time: number }>();
 const CACHE_TTL = 60000; // 1 minute
 
 async function getAISettings(): Promise<AISettings> {
     const now = Date.now();
+    const workspaceId = await getCurrentWorkspaceId();
 
     // Return cached if valid
-    if (settingsCache && now - settingsCacheTime < CACHE_TTL) {
-        return settingsCache;
+    const cached = settingsCache.get(workspaceId);
+    if (cached && now - cached.time < CACHE_TTL) {
+        return cached.settings;
     }
 
+    let settings: AISettings;
+
     // Default settings
     const defaultSettings: AISettings = {
         provider: 'google',
@@ -104,7 +117,7 @@ async function getAISettings(): Promise<AISettings> {
 
     try {
         // Try to load from DB
-        const { data: settings } = await supabase.admin
+        const { data: rows } = await supabase.admin
             ?.from('settings')
             .select('key, value')
             .in('key', [
@@ -115,8 +128,8 @@ async function getAISettings(): Promise<AISettings> {
                 'anthropic_api_key'
             ]) || { data: null };
 
-        if (settings && settings.length > 0) {
-            const settingsMap = new Map(settings.map(s => [s.key, s.value as string]));
+        if (rows && rows.length > 0) {
+            const settingsMap = new Map(rows.map(s => [s.key, s.value as string]));
 
             const provider = (settingsMap.get('ai_provider') as AIProvider) || defaultSettings.provider;
             const model = settingsMap.get('ai_model') || getDefaultModel(provider)?.id || '';
@@ -129,17 +142,17 @@ async function getAISettings(): Promise<AISettings> {
 
             const apiKey = providerKeys[provider] || '';
 
-            settingsCache = { provider, model, apiKey, providerKeys };
+            settings = { provider, model, apiKey, providerKeys };
         } else {
-            settingsCache = defaultSettings;
+            settings = defaultSettings;
         }
     } catch (error) {
         console.warn('[AI Service] Failed to load settings from DB, using defaults:', error);
-        settingsCache = defaultSettings;
+        settings = defaultSettings;
     }
 
-    settingsCacheTime = now;
-    return settingsCache;
+    settingsCache.set(workspaceId, { settings, time: now });
+    return settings;
 }
 
 /**
@@ -151,8 +164,7 @@ async function getAISettings(): Promise<AISettings> {
  * @returns Nada.
  */
 export function clearSettingsCache() {
-    settingsCache = null;
-    settingsCacheTime = 0;
+    settingsCache.clear();
 }
 
 // =============================================================================
@@ -266,6 +278,17 @@ async function getLanguageModel(
     }
 }
 
+/** Uso de tokens do AI SDK (campos podem vir indefinidos, conforme o provedor). */
+function toUsage(usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number } | undefined): GenerateTextUsage {
+    const inputTokens = usage?.inputTokens ?? 0;
+    const outputTokens = usage?.outputTokens ?? 0;
+    return {
+        inputTokens,
+        outputTokens,
+        totalTokens: usage?.totalTokens ?? inputTokens + outputTokens,
+    };
+}
+
 // =============================================================================
 // MAIN API
 // =============================================================================
@@ -280,7 +303,8 @@ async function getLanguageModel(
  * para fallbacks automáticos gerenciados pelo Gateway.
  *
  * @param options Opções de geração (prompt/mensagens, system, temperatura, etc.).
- * @returns Objeto com `text` e metadados do provedor/modelo efetivamente usados.
+ * @returns Objeto com `text`, metadados do provedor/modelo efetivamente usados e
+ * o uso de tokens.
  */
 export async function generateText(options: GenerateTextOptions): Promise<GenerateTextResult> {
     const settings = await getAISettings();
@@ -292,7 +316,7 @@ export async function generateText(options: GenerateTextOptions): Promise<Genera
     const { model, gatewayEnabled, gatewayConfig } = await getLanguageModel(
         providerId,
         modelId,
-        settings.apiKey,
+        settings.providerKeys?.[providerId] ?? settings.apiKey,
         settings
     );
 
@@ -324,6 +348,7 @@ export async function generateText(options: GenerateTextOptions): Promise<Genera
             text: result.text,
             provider: providerId,
             model: modelId,
+            usage: toUsage(result.usage),
         };
     } catch (error) {
         // Se Gateway habilitado, ele já tentou os fallbacks - não tenta de novo
@@ -370,6 +395,7 @@ export async function generateText(options: GenerateTextOptions): Promise<Genera
                     text: fallbackResult.text,
                     provider,
                     model: fallbackModel,
+                    usage: toUsage(fallbackResult.usage),
                 };
             } catch (fallbackError) {
                 lastError = fallbackError;
@@ -402,7 +428,7 @@ export async function streamText(options: StreamTextOptions): Promise<GenerateTe
     const { model, gatewayEnabled, gatewayConfig } = await getLanguageModel(
         providerId,
         modelId,
-        settings.apiKey,
+        settings.providerKeys?.[providerId] ?? settings.apiKey,
         settings
     );
 
@@ -445,6 +471,9 @@ export async function streamText(options: StreamTextOptions): Promise<GenerateTe
     };
 }
 
+/** Instrução anexada ao system prompt quando a resposta deve ser só JSON. */
+export const JSON_ONLY_INSTRUCTION = '\n\nRespond with valid JSON only, no markdown.';
+
 /**
  * Gera uma resposta em JSON via IA.
  *
@@ -459,33 +488,49 @@ export async function streamText(options: StreamTextOptions): Promise<GenerateTe
 export async function generateJSON<T = unknown>(options: GenerateTextOptions): Promise<T> {
     const result = await generateText({
         ...options,
-        system: (options.system || '') + '\n\nRespond with valid JSON only, no markdown.',
+        system: (options.system || '') + JSON_ONLY_INSTRUCTION,
     });
 
     try {
-        // Clean markdown code blocks if present
-        const cleanText = result.text
-            .replace(/```json\n?/g, '')
-            .replace(/```\n?/g, '')
-            .trim();
-
-        // 1) tentativa direta
-        try {
-            return JSON.parse(cleanText) as T;
-        } catch {
-            // 2) fallback: às vezes o modelo insiste em adicionar texto antes/depois.
-            const extracted = extractFirstJsonValue(cleanText);
-            if (extracted) {
-                return JSON.parse(extracted) as T;
-            }
-            throw new Error('AI response was not valid JSON');
-        }
+        return parseJSONResponse<T>(result.text);
     } catch {
         console.error('[AI Service] Failed to parse JSON response:', result.text);
         throw new Error('AI response was not valid JSON');
     }
 }
 
+/**
+ * Faz o parse de uma resposta de IA que deveria ser JSON.
+ *
+ * Remove cercas de markdown e, se ainda assim falhar, extrai o primeiro
+ * objeto/array do texto. Útil quando o chamador precisa do `GenerateTextResult`
+ * completo (ex.: uso de tokens) e não pode usar `generateJSON`.
+ *
+ * @typeParam T Tipo esperado do JSON.
+ * @param text Texto retornado pelo modelo.
+ * @returns Objeto JSON parseado, tipado como `T`.
+ * @throws Erro se o texto não contiver JSON válido.
+ */
+export function parseJSONResponse<T = unknown>(text: string): T {
+    // Clean markdown code blocks if present
+    const cleanText = text
+        .replace(/```json\n?/g, '')
+        .replace(/```\n?/g, '')
+        .trim();
+
+    // 1) tentativa direta
+    try {
+        return JSON.parse(cleanText) as T;
+    } catch {
+        // 2) fallback: às vezes o modelo insiste em adicionar texto antes/depois.
+        const extracted = extractFirstJsonValue(cleanText);
+        if (extracted) {
+            return JSON.parse(extracted) as T;
+        }
+        throw new Error('AI response was not valid JSON');
+    }
+}
+
 // =============================================================================
 // JSON EXTRACTION (fallback)
 // =============================================================================
@@ -562,6 +607,7 @@ export const ai = {
     generateText,
     streamText,
     generateJSON,
+    parseJSONResponse,
     clearSettingsCache,
     getSettings: getAISettings,
 };
@@ -6,8 +6,16 @@
  */
 
 import { z } from 'zod'
-import { CampaignStatus, ContactStatus } from '@/types'
+import { CampaignStatus, ContactStatus, type SegmentGroup, type SegmentRule } from '@/types'
 import { normalizePhoneNumber } from '@/lib/phone-formatter'
+import { AB_TEST_RULES } from '@/lib/business/campaign/ab-testing'
+import { RECURRENCE_RULES, validateRecurrence } from '@/lib/business/campaign/scheduling'
+import { validateSendWindow } from '@/lib/business/campaign/send-window'
+import { LINK_TRACKING_RULES, validateTrackedLinks } from '@/lib/business/campaign/link-tracking'
+import { validateSegment } from '@/lib/business/audience/segments'
+import { PHONE_NUMBER_LABEL_MAX_LENGTH } from '@/lib/business/whatsapp/phone-numbers'
+import { parseJsonPath } from '@/lib/business/webhooks/inbound'
+import { CONVERSION_RULES } from '@/lib/business/conversions/attribution'
 
 // ============================================================================
 // Shared Phone Schema (normalizes to E.164)
@@ -85,10 +93,283 @@ export const BulkSetContactCustomFieldSchema = z.object({
   value: z.string().min(1, 'Valor é obrigatório').max(500, 'Valor muito longo'),
 })
 
+// ============================================================================
+// Segment Schemas
+// ============================================================================
+
+const SegmentRuleSchema: z.ZodType<SegmentRule> = z.lazy(() => z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('condition'),
+    field: z.enum(['name', 'email', 'phone', 'status', 'tags', 'created_at', 'uf', 'ddi', 'lifecycle_stage', 'engagement_score', 'custom_field']),
+    key: z.string().max(60).optional(),
+    operator: z.enum([
+      'equals', 'not_equals', 'contains', 'not_contains', 'greater_than', 'less_than',
+      'before', 'after', 'in_list', 'not_in_list', 'exists', 'not_exists',
+    ]),
+    value: z.union([z.string().max(500), z.number(), z.array(z.string().max(200)), z.null()]).optional(),
+  }),
+  z.object({
+    type: z.literal('engagement'),
+    event: z.enum(['read_last_campaign', 'replied_inbox', 'submitted_flow', 'clicked_button', 'clicked_link']),
+    negate: z.boolean().optional(),
+    withinDays: z.number().int().nullable().optional(),
+    campaignId: z.string().nullable().optional(),
+    flowId: z.string().nullable().optional(),
+    buttonText: z.string().max(200).nullable().optional(),
+  }),
+  z.object({
+    type: z.literal('group'),
+    combinator: z.enum(['and', 'or']),
+    rules: z.array(SegmentRuleSchema),
+  }),
+]))
+
+// Definição completa (grupo raiz) com as regras de negócio (profundidade, valores por operador)
+export const SegmentDefinitionSchema = z.object({
+  type: z.literal('group'),
+  combinator: z.enum(['and', 'or']),
+  rules: z.array(SegmentRuleSchema),
+}).superRefine((data, ctx) => {
+  const result = validateSegment(data as SegmentGroup)
+  for (const message of result.errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['rules'] })
+  }
+})
+
+export const CreateSegmentSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100, 'Nome muito longo'),
+  description: z.string().max(500, 'Descrição muito longa').optional().nullable(),
+  definition: SegmentDefinitionSchema,
+})
+
+export const UpdateSegmentSchema = CreateSegmentSchema.partial()
+
+// ============================================================================
+// Workspace Schemas
+// ============================================================================
+
+export const WorkspaceNameSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(80, 'Nome muito longo'),
+})
+
+export const SelectWorkspaceSchema = z.object({
+  workspaceId: z.string().regex(/^ws_[\w-]{1,64}$/, 'Workspace inválido'),
+})
+
+export const CreateWorkspaceApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(80, 'Nome muito longo'),
+})
+
+export const AddWorkspaceMemberSchema = z.object({
+  userId: z.string().trim().min(1, 'Usuário é obrigatório'),
+})
+
+// ============================================================================
+// User Schemas
+// ============================================================================
+
+const InvitableRoleSchema = z.enum(['admin', 'campaign_manager', 'agent', 'analyst'])
+
+export const CreateUserInviteSchema = z.object({
+  email: z.string().trim().email('E-mail inválido'),
+  role: InvitableRoleSchema,
+})
+
+export const UpdateUserSchema = z.object({
+  name: z.string().trim().min(2, 'Nome muito curto').max(100, 'Nome muito longo').optional(),
+  role: z.enum(['owner', 'admin', 'campaign_manager', 'agent', 'analyst']).optional(),
+  isActive: z.boolean().optional(),
+})
+
+// ============================================================================
+// Outbound Webhook Schemas
+// ============================================================================
+
+const WebhookEventTypeSchema = z.enum([
+  'message.received',
+  'message.status',
+  'campaign.completed',
+  'contact.created',
+  'contact.opted_out',
+  'flow.submitted',
+  'lead_form.submitted',
+  'conversation.handoff',
+])
+
+export const CreateWebhookEndpointSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(80, 'Nome muito longo'),
+  url: z.string().trim().url('URL inválida').max(2048, 'URL muito longa'),
+  eventTypes: z.array(WebhookEventTypeSchema).min(1, 'Selecione pelo menos um evento'),
+})
+
+export const UpdateWebhookEndpointSchema = CreateWebhookEndpointSchema.partial().extend({
+  isActive: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+})
+
+// ============================================================================
+// WhatsApp Phone Number Schemas
+// ============================================================================
+
+export const RegisterPhoneNumberSchema = z.object({
+  phoneNumberId: z.string().trim().regex(/^\d{5,32}$/, 'ID do número inválido'),
+  label: z.string().trim().max(PHONE_NUMBER_LABEL_MAX_LENGTH, 'Rótulo muito longo').optional().nullable(),
+})
+
+export const UpdatePhoneNumberSchema = z.object({
+  label: z.string().trim().max(PHONE_NUMBER_LABEL_MAX_LENGTH, 'Rótulo muito longo').optional().nullable(),
+  aiAgentId: z.string().uuid('Agente inválido').optional().nullable(),
+})
+
+// ============================================================================
+// CRM Connector Schemas
+// ============================================================================
+
+const CrmFieldMappingSchema = z.object({
+  field: z.string().trim().regex(/^(name|email|phone|custom:[\w-]{1,64})$/, 'Campo do contato inválido'),
+  crmField: z.string().trim().min(1, 'Informe a propriedade do CRM').max(120),
+  direction: z.enum(['both', 'push', 'pull']),
+})
+
+const CrmListMappingSchema = z.object({
+  tag: z.string().trim().min(1, 'Informe a tag').max(100),
+  list: z.string().trim().min(1, 'Informe a lista').max(120),
+})
+
+const CrmConnectorFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(80, 'Nome muito longo'),
+  apiToken: z.string().trim().min(8, 'Token inválido').max(512),
+  baseUrl: z.string().trim().url('URL inválida').max(2048).optional().nullable().or(z.literal('')),
+  fieldMappings: z.array(CrmFieldMappingSchema).max(50),
+  listMappings: z.array(CrmListMappingSchema).max(50),
+  optOutField: z.string().trim().max(120).optional().nullable(),
+  eventTypes: z.array(z.enum(['campaign.delivered', 'campaign.read', 'conversation.summary', 'flow.submitted'])),
+  syncContacts: z.boolean(),
+  importContacts: z.boolean(),
+})
+
+// Sem mapeamento de campos informado, o conector usa o padrão do provedor
+export const CreateCrmConnectorSchema = CrmConnectorFieldsSchema.partial({
+  fieldMappings: true,
+  listMappings: true,
+  eventTypes: true,
+  syncContacts: true,
+  importContacts: true,
+}).extend({
+  provider: z.enum(['hubspot', 'rdstation', 'pipedrive']),
+})
+
+export const UpdateCrmConnectorSchema = CrmConnectorFieldsSchema.partial().extend({
+  isActive: z.boolean().optional(),
+  rotateInboundToken: z.boolean().optional(),
+})
+
+// ============================================================================
+// Inbound Webhook Schemas
+// ============================================================================
+
+const JsonPathSchema = z.string().trim().max(300, 'Caminho muito longo').refine(
+  (path) => parseJsonPath(path) !== null,
+  'Caminho JSON inválido (ex.: $.buyer.phone)'
+)
+
+const InboundWebhookVariablesSchema = z.record(z.string(), z.string().max(1000, 'Valor muito longo'))
+
+const InboundWebhookFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(80, 'Nome muito longo'),
+  fieldMapping: z.object({
+    phone: JsonPathSchema,
+    name: JsonPathSchema.optional().or(z.literal('')),
+    email: JsonPathSchema.optional().or(z.literal('')),
+    customFields: z.array(z.object({
+      key: z.string().trim().min(1, 'Informe o campo personalizado').max(64),
+      path: JsonPathSchema,
+    })).max(30).optional(),
+  }),
+  conditionPath: JsonPathSchema.optional().nullable().or(z.literal('')),
+  conditionValue: z.string().trim().max(300).optional().nullable(),
+  action: z.enum(['upsert_contact', 'add_tag', 'send_template', 'start_workflow']),
+  tags: z.array(z.string().trim().min(1).max(100)).max(20),
+  templateName: z.string().trim().max(512).optional().nullable(),
+  templateVariables: z.object({
+    header: InboundWebhookVariablesSchema.optional(),
+    body: InboundWebhookVariablesSchema.optional(),
+    buttons: InboundWebhookVariablesSchema.optional(),
+  }),
+  workflowId: z.string().trim().max(200).optional().nullable(),
+})
+
+export const CreateInboundWebhookSchema = InboundWebhookFieldsSchema.partial({
+  tags: true,
+  templateVariables: true,
+})
+
+export const UpdateInboundWebhookSchema = InboundWebhookFieldsSchema.partial().extend({
+  isActive: z.boolean().optional(),
+  rotateToken: z.boolean().optional(),
+})
+
+// ============================================================================
+// Conversion Schemas
+// ============================================================================
+
+export const CreateConversionSchema = z.object({
+  value: z.coerce.number()
+    .min(0, 'Valor não pode ser negativo')
+    .max(CONVERSION_RULES.MAX_VALUE, 'Valor muito alto'),
+  currency: z.string()
+    .trim()
+    .regex(/^[A-Za-z]{3}$/, 'Moeda deve ser um código ISO de 3 letras (ex.: BRL)')
+    .transform((v) => v.toUpperCase())
+    .default('BRL'),
+  phone: phoneSchema.optional(),
+  email: z.string().trim().email('Email inválido').optional(),
+  contactId: z.string().trim().min(1).max(100).optional(),
+  orderId: z.string().trim().min(1).max(CONVERSION_RULES.MAX_ORDER_ID_LENGTH).optional(),
+  occurredAt: z.string().datetime({ offset: true, message: 'Data inválida (use ISO 8601)' }).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+}).refine((data) => Boolean(data.phone || data.email || data.contactId), {
+  message: 'Informe telefone, email ou contactId do comprador',
+  path: ['phone'],
+})
+
 // ============================================================================
 // Campaign Schemas
 // ============================================================================
 
+export const CampaignRecurrenceSchema = z.object({
+  cron: z.string().min(1, 'Expressão cron é obrigatória').max(100),
+  timezone: z.string().min(1).max(64).default(RECURRENCE_RULES.DEFAULT_TIMEZONE),
+}).superRefine((data, ctx) => {
+  const result = validateRecurrence(data)
+  if (!result.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.reason || 'Recorrência inválida', path: ['cron'] })
+  }
+})
+
+export const CampaignSendWindowSchema = z.object({
+  days: z.array(z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])).min(1, 'Selecione ao menos um dia da semana'),
+  start: z.string().regex(/^\d{2}:\d{2}$/, 'Horário inválido (use HH:mm)'),
+  end: z.string().regex(/^\d{2}:\d{2}$/, 'Horário inválido (use HH:mm)'),
+}).superRefine((data, ctx) => {
+  const result = validateSendWindow(data)
+  if (!result.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.reason || 'Janela de envio inválida', path: ['start'] })
+  }
+})
+
+export const CampaignTrackedLinksSchema = z.array(
+  z.object({
+    buttonIndex: z.number().int().min(0).max(9),
+    url: z.string().trim().min(1, 'Informe o destino do link').max(LINK_TRACKING_RULES.MAX_URL_LENGTH),
+  })
+).max(10).superRefine((data, ctx) => {
+  const result = validateTrackedLinks(data)
+  if (!result.valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.reason || 'Links rastreados inválidos' })
+  }
+})
+
 export const CreateCampaignSchema = z.object({
   name: z.string()
     .min(1, 'Nome é obrigatório')
@@ -119,7 +400,54 @@ export const CreateCampaignSchema = z.object({
   flowName: z.string().max(200).optional().nullable(),
   // Organização
   folderId: z.string().uuid().optional().nullable(),
-})
+  // Teste A/B: variants[0] é o template principal (variante A)
+  abTest: z.object({
+    testPercent: z.number().int().min(AB_TEST_RULES.MIN_TEST_PERCENT).max(AB_TEST_RULES.MAX_TEST_PERCENT),
+    waitMinutes: z.number().int().min(AB_TEST_RULES.MIN_WAIT_MINUTES).max(AB_TEST_RULES.MAX_WAIT_MINUTES),
+    metric: z.enum(['read_rate', 'click_rate', 'submission_rate']),
+  }).optional().nullable(),
+  variants: z.array(
+    z.object({
+      templateName: z.string().min(1, 'Template da variante é obrigatório'),
+      templateVariables: z.object({
+        header: z.array(z.string()),
+        headerMediaId: z.string().optional(),
+        body: z.array(z.string()),
+        buttons: z.record(z.string(), z.string()).optional()
+      }).optional().nullable(),
+    })
+  ).max(AB_TEST_RULES.MAX_VARIANTS, `Teste A/B aceita no máximo ${AB_TEST_RULES.MAX_VARIANTS} variantes`).optional(),
+  // Recorrência: cron (5 campos) avaliado no timezone informado
+  recurrence: CampaignRecurrenceSchema.optional().nullable(),
+  // Sequência (drip): etapas enviadas após a primeira mensagem
+  dripSteps: z.array(
+    z.object({
+      templateName: z.string().min(1, 'Template da etapa é obrigatório'),
+      templateVariables: z.object({
+        header: z.array(z.string()),
+        headerMediaId: z.string().optional(),
+        body: z.array(z.string()),
+        buttons: z.record(z.string(), z.string()).optional()
+      }).optional().nullable(),
+      delayDays: z.number().int()
+        .min(RECURRENCE_RULES.MIN_DRIP_DELAY_DAYS)
+        .max(RECURRENCE_RULES.MAX_DRIP_DELAY_DAYS),
+      condition: z.enum(['not_read', 'not_replied', 'not_submitted']),
+    })
+  ).max(RECURRENCE_RULES.MAX_DRIP_STEPS, `Sequência aceita no máximo ${RECURRENCE_RULES.MAX_DRIP_STEPS} etapas`).optional().nullable(),
+  // Janela de envio no horário local de cada contato (fora dela o contato aguarda)
+  sendWindow: CampaignSendWindowSchema.optional().nullable(),
+  skipDormant: z.boolean().optional(),
+  phoneNumberId: z.string().trim().min(1).max(64).optional().nullable(),
+  // Rastreio de cliques: destino de cada botão de URL que aponta para /r/{{1}}
+  trackedLinks: CampaignTrackedLinksSchema.optional().nullable(),
+}).refine(
+  (data) => !data.abTest || (data.variants?.length ?? 0) >= AB_TEST_RULES.MIN_VARIANTS,
+  { message: `Teste A/B precisa de pelo menos ${AB_TEST_RULES.MIN_VARIANTS} variantes`, path: ['variants'] }
+).refine(
+  (data) => !(data.recurrence && data.scheduledAt),
+  { message: 'Campanha recorrente não pode ter agendamento único', path: ['scheduledAt'] }
+)
 
 export const UpdateCampaignSchema = z.object({
   name: z.string().max(100).optional(),
@@ -0,0 +1,173 @@
+/**
+ * Audit Log (server-only)
+ *
+ * Registro append-only de quem fez o quê. Sempre best-effort: uma falha ao
+ * gravar o histórico nunca interrompe a ação auditada.
+ */
+
+import type { NextRequest } from 'next/server'
+import { verifyApiKey } from '@/lib/auth'
+import { supabase } from '@/lib/supabase'
+import { auditLogDb } from '@/lib/supabase-db'
+import { getSessionUser, type SessionUser } from '@/lib/user-auth'
+import { getCurrentWorkspaceId, runUnscoped } from '@/lib/workspace-context'
+import { diffAuditChanges } from '@/lib/business/audit'
+import type { AuditActorType, AuditLogFilters } from '@/types'
+
+/** Token do atendente (gravado em /api/attendants/validate), usado só para atribuição */
+export const ATTENDANT_COOKIE = 'smartzap_attendant'
+
+export interface AuditActor {
+  type: AuditActorType
+  id?: string | null
+  label?: string | null
+}
+
+export interface AuditEvent {
+  /** Ex.: user.invite, user.role_change, auth.login */
+  action: string
+  entityType?: string
+  entityId?: string | null
+  metadata?: Record<string, unknown>
+  /** Snapshots antes/depois: apenas os campos alterados são gravados */
+  before?: object | null
+  after?: object | null
+}
+
+export function sessionUserActor(user: SessionUser): AuditActor {
+  return { type: 'user', id: user.id, label: user.name }
+}
+
+function getRequestIp(request: NextRequest): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim()
+  return request.headers.get('x-real-ip')
+}
+
+async function resolveAttendantActor(request: NextRequest): Promise<AuditActor | null> {
+  const token = request.cookies.get(ATTENDANT_COOKIE)?.value
+  if (!token) return null
+
+  const { data } = await runUnscoped(async () => supabase
+    .from('attendant_tokens')
+    .select('id,name')
+    .eq('token', token)
+    .maybeSingle())
+
+  return data ? { type: 'attendant', id: data.id, label: data.name } : null
+}
+
+/**
+ * Ator da requisição: chave de API, usuário da sessão, token de atendente ou sistema.
+ */
+export async function resolveAuditActor(request: NextRequest | null): Promise<AuditActor> {
+  if (request && (request.headers.get('authorization') || request.headers.get('x-api-key'))) {
+    const auth = await verifyApiKey(request)
+    if (auth.valid) {
+      const raw = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || request.headers.get('x-api-key') || ''
+      const label = auth.keyType === 'admin' ? 'SMARTZAP_ADMIN_KEY' : auth.workspaceId ? 'Chave de workspace' : 'SMARTZAP_API_KEY'
+      return { type: 'api_key', id: raw.slice(0, 9) || null, label }
+    }
+  }
+
+  const user = await getSessionUser()
+  if (user) return sessionUserActor(user)
+
+  const attendant = request ? await resolveAttendantActor(request) : null
+  if (attendant) return attendant
+
+  return { type: 'system', label: 'Sistema' }
+}
+
+export async function recordAuditEvent(
+  request: NextRequest | null,
+  event: AuditEvent,
+  actor?: AuditActor
+): Promise<void> {
+  try {
+    const resolved = actor ?? await resolveAuditActor(request)
+    await auditLogDb.insert({
+      workspaceId: await getCurrentWorkspaceId(),
+      actorType: resolved.type,
+      actorId: resolved.id ?? null,
+      actorLabel: resolved.label ?? null,
+      action: event.action,
+      entityType: event.entityType ?? null,
+      entityId: event.entityId ?? null,
+      metadata: event.metadata ?? {},
+      changes: event.before || event.after
+        ? diffAuditChanges(event.before as Record<string, unknown>, event.after as Record<string, unknown>)
+        : null,
+      ip: request ? getRequestIp(request) : null,
+    })
+  } catch (error) {
+    console.warn('[Audit] Falha ao registrar evento (best-effort):', error)
+  }
+}
+
+function parseSettingValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value ?? null
+  const trimmed = value.trim()
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return value
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Valores atuais de chaves da tabela settings (JSON já parseado),
+ * lidos direto do banco para o diff antes/depois.
+ */
+export async function snapshotSettings(keys: string[]): Promise<Record<string, unknown>> {
+  const snapshot: Record<string, unknown> = Object.fromEntries(keys.map((key) => [key, null]))
+  try {
+    const { data } = await supabase.from('settings').select('key, value').in('key', keys)
+    for (const row of data || []) snapshot[row.key] = parseSettingValue(row.value)
+  } catch (error) {
+    console.warn('[Audit] Falha ao ler configurações (best-effort):', error)
+  }
+  return snapshot
+}
+
+/**
+ * Registra `settings.update` com o diff das chaves alteradas.
+ * `before` vem de `snapshotSettings(keys)` antes da alteração.
+ */
+export async function recordSettingsChange(
+  request: NextRequest | null,
+  area: string,
+  keys: string[],
+  before: Record<string, unknown>
+): Promise<void> {
+  await recordAuditEvent(request, {
+    action: 'settings.update',
+    entityType: 'settings',
+    entityId: area,
+    before,
+    after: await snapshotSettings(keys),
+  })
+}
+
+const AUDIT_ACTOR_TYPES: AuditActorType[] = ['user', 'api_key', 'attendant', 'system']
+
+/**
+ * Filtros da tela de auditoria a partir da query string.
+ */
+export function parseAuditLogFilters(searchParams: URLSearchParams): AuditLogFilters {
+  const actorType = searchParams.get('actorType') as AuditActorType | null
+  const limitRaw = Number(searchParams.get('limit'))
+  const offsetRaw = Number(searchParams.get('offset'))
+
+  return {
+    action: searchParams.get('action') || undefined,
+    actorType: actorType && AUDIT_ACTOR_TYPES.includes(actorType) ? actorType : undefined,
+    entityType: searchParams.get('entityType') || undefined,
+    entityId: searchParams.get('entityId') || undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    limit: Math.max(1, Math.min(200, Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50)),
+    offset: Math.max(0, Number.isFinite(offsetRaw) ? offsetRaw : 0),
+  }
+}
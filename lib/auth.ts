@@ -1,4 +1,4 @@
-import { randomBytes } from 'crypto'
+import { createHash, randomBytes } from 'crypto'
 
 /**
  * Authentication & Authorization Middleware
@@ -8,6 +8,7 @@ import { randomBytes } from 'crypto'
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
 
 // ============================================================================
 // Types
@@ -17,6 +18,8 @@ export interface AuthResult {
   valid: boolean
   error?: string
   keyType?: 'admin' | 'api'
+  /** Chave de workspace: acesso restrito a este workspace */
+  workspaceId?: string
 }
 
 // ============================================================================
@@ -38,11 +41,15 @@ export const PUBLIC_ENDPOINTS = [
   '/api/webhook',        // Meta webhook verification
   '/api/health',         // Health check
   '/api/system',         // System status (public info only)
-  '/api/flows',          // Workflow management (internal dashboard)
   '/api/flow-engine',    // Workflow execution engine (internal)
   '/api/campaign/dispatch', // QStash dispatch webhook (signature verified)
 ]
 
+// Public only on the exact path (sub-routes stay protected)
+export const PUBLIC_EXACT_ENDPOINTS = [
+  '/api/flows/endpoint', // WhatsApp Flows data_exchange (encrypted by Meta)
+]
+
 // ============================================================================
 // API Key Verification
 // ============================================================================
@@ -85,12 +92,66 @@ export async function verifyApiKey(request: NextRequest): Promise<AuthResult> {
     return { valid: true, keyType: 'api' }
   }
 
+  const workspaceId = await findWorkspaceForApiKey(apiKey)
+  if (workspaceId) {
+    return { valid: true, keyType: 'api', workspaceId }
+  }
+
   return {
     valid: false,
     error: 'Invalid API key'
   }
 }
 
+// Cache curto: o proxy valida a chave a cada requisição
+const WORKSPACE_KEY_CACHE_TTL_MS = 60_000
+const workspaceKeyCache = new Map<string, { workspaceId: string | null; expiresAt: number }>()
+
+/**
+ * Resolve o workspace de uma chave de API de workspace (null = inválida/revogada).
+ */
+async function findWorkspaceForApiKey(apiKey: string): Promise<string | null> {
+  if (!apiKey.startsWith('szap_')) return null
+
+  const keyHash = hashApiKey(apiKey)
+  const cached = workspaceKeyCache.get(keyHash)
+  if (cached && cached.expiresAt > Date.now()) return cached.workspaceId
+
+  let workspaceId: string | null = null
+  try {
+    const { data } = await supabase
+      .from('workspace_api_keys')
+      .select('id, workspace_id')
+      .eq('key_hash', keyHash)
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (data) {
+      workspaceId = data.workspace_id as string
+      void supabase
+        .from('workspace_api_keys')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', data.id)
+        .then(({ error }) => {
+          if (error) console.warn('[auth] Falha ao registrar uso da chave (best-effort):', error)
+        })
+    }
+  } catch (e) {
+    console.warn('[auth] Falha ao validar chave de workspace:', e)
+    return null
+  }
+
+  workspaceKeyCache.set(keyHash, { workspaceId, expiresAt: Date.now() + WORKSPACE_KEY_CACHE_TTL_MS })
+  return workspaceId
+}
+
+/**
+ * Invalida o cache de chaves (após revogar uma chave).
+ */
+export function clearWorkspaceApiKeyCache(): void {
+  workspaceKeyCache.clear()
+}
+
 /**
  * Check if request is for an admin endpoint
  */
@@ -102,7 +163,10 @@ export function isAdminEndpoint(pathname: string): boolean {
  * Check if request is for a public endpoint
  */
 export function isPublicEndpoint(pathname: string): boolean {
-  return PUBLIC_ENDPOINTS.some(endpoint => pathname.startsWith(endpoint))
+  return (
+    PUBLIC_EXACT_ENDPOINTS.includes(pathname) ||
+    PUBLIC_ENDPOINTS.some(endpoint => pathname.startsWith(endpoint))
+  )
 }
 
 /**
@@ -172,3 +236,10 @@ export function forbiddenResponse(message: string = 'Forbidden'): NextResponse {
 export function generateApiKey(): string {
   return 'szap_' + randomBytes(24).toString('base64url').slice(0, 32)
 }
+
+/**
+ * Hash persistido das chaves de workspace (a chave em si nunca é salva)
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex')
+}
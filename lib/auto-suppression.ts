@@ -2,6 +2,7 @@ import { supabase } from '@/lib/supabase'
 import { normalizePhoneNumber } from '@/lib/phone-formatter'
 import { getActiveSuppressionsByPhone, upsertPhoneSuppression } from '@/lib/phone-suppressions'
 import { settingsDb } from '@/lib/supabase-db'
+import { getCurrentWorkspaceId } from '@/lib/workspace-context'
 
 export type AutoSuppressionInput = {
   phone: string
@@ -30,7 +31,8 @@ export type AutoSuppressionConfig = {
 
 const CONFIG_KEY = 'auto_suppression_config'
 const CACHE_TTL_MS = 30_000
-let _cache: { value: AutoSuppressionConfig; at: number } | null = null
+// Config é por workspace: o cache só vale para o workspace que o preencheu
+let _cache: { value: AutoSuppressionConfig; at: number; workspaceId: string } | null = null
 
 function clampInt(n: unknown, min: number, max: number): number {
   const v = Number(n)
@@ -62,13 +64,14 @@ function defaultConfig(): AutoSuppressionConfig {
 
 export async function getAutoSuppressionConfig(): Promise<AutoSuppressionConfig> {
   const now = Date.now()
-  if (_cache && now - _cache.at < CACHE_TTL_MS) return _cache.value
+  const workspaceId = await getCurrentWorkspaceId()
+  if (_cache && _cache.workspaceId === workspaceId && now - _cache.at < CACHE_TTL_MS) return _cache.value
 
   const def = defaultConfig()
   try {
     const raw = await settingsDb.get(CONFIG_KEY)
     if (!raw) {
-      _cache = { value: def, at: now }
+      _cache = { value: def, at: now, workspaceId }
       return def
     }
     const parsed = JSON.parse(raw)
@@ -86,10 +89,10 @@ export async function getAutoSuppressionConfig(): Promise<AutoSuppressionConfig>
         ttl3Days: clampInt((parsed as any)?.undeliverable131026?.ttl3Days, 1, 3650) || def.undeliverable131026.ttl3Days,
       },
     }
-    _cache = { value: cfg, at: now }
+    _cache = { value: cfg, at: now, workspaceId }
     return cfg
   } catch {
-    _cache = { value: def, at: now }
+    _cache = { value: def, at: now, workspaceId }
     return def
   }
 }
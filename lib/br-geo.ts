@@ -78,3 +78,32 @@ export function isBrazilPhone(phone: string): boolean {
   const normalized = normalizePhoneNumber(String(phone || '').trim())
   return !!normalized && normalized.startsWith('+55')
 }
+
+// Mapeamento UF -> fuso horário (IANA)
+// Fernando de Noronha e o oeste do AM são exceções raras e ficam com o fuso da capital.
+const UF_TO_TIMEZONE: Record<string, string> = {
+  AC: 'America/Rio_Branco',
+  AM: 'America/Manaus',
+  RR: 'America/Boa_Vista',
+  RO: 'America/Porto_Velho',
+  MT: 'America/Cuiaba',
+  MS: 'America/Campo_Grande',
+  PA: 'America/Belem',
+  AP: 'America/Belem',
+  TO: 'America/Araguaina',
+  MA: 'America/Fortaleza',
+  PI: 'America/Fortaleza',
+  CE: 'America/Fortaleza',
+  RN: 'America/Fortaleza',
+  PB: 'America/Fortaleza',
+  PE: 'America/Recife',
+  AL: 'America/Maceio',
+  SE: 'America/Maceio',
+  BA: 'America/Bahia',
+}
+
+export function getBrazilTimezoneFromPhone(phone: string): string | null {
+  const uf = getBrazilUfFromPhone(phone)
+  if (!uf) return null
+  return UF_TO_TIMEZONE[uf] || 'America/Sao_Paulo'
+}
@@ -510,6 +510,30 @@ export const workflowApi = {
       body: JSON.stringify(input),
     }),
 
+  // Simulate which workflow an inbound message would trigger
+  testTrigger: (
+    id: string,
+    message: string,
+    config?: Record<string, unknown>
+  ) =>
+    apiCall<{
+      workflowId: string | null;
+      workflowName: string | null;
+      isCurrentWorkflow: boolean;
+      source: "keywords" | "intent" | "default" | null;
+      match:
+        | {
+            kind: "keywords";
+            rule: { value: string; mode: string };
+            priority: number;
+          }
+        | { kind: "intent"; confidence: number; reason?: string }
+        | null;
+    }>(`/api/builder/workflows/${id}/trigger-test`, {
+      method: "POST",
+      body: JSON.stringify({ message, config }),
+    }),
+
   // Get workflow code
   getCode: (id: string) =>
     apiCall<{ code: string; workflowName: string }>(
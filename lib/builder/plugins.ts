@@ -1,4 +1,7 @@
 import type { ComponentType } from "react";
+import { Contact, Sparkles } from "lucide-react";
+import { AI_PROVIDERS } from "@/lib/ai/providers";
+import { AI_MODEL_DEFAULT } from "@/lib/business/workflow";
 import type { IntegrationType } from "./types/integration";
 
 export type SelectOption = {
@@ -81,6 +84,8 @@ export type IntegrationPlugin = {
   label: string;
   description: string;
   icon?: ComponentType<{ className?: string }>;
+  /** Runs on the workspace's own data: no connection to configure */
+  native?: boolean;
   formFields?: Array<{
     id: string;
     label: string;
@@ -94,6 +99,72 @@ export type IntegrationPlugin = {
   actions: PluginAction[];
 };
 
+// Who the contact nodes act on (same resolution as the WhatsApp recipient)
+const CONTACT_TARGET_FIELDS: ActionConfigFieldBase[] = [
+  {
+    key: "toSource",
+    label: "Contato",
+    type: "select",
+    options: [
+      { label: "Da mensagem recebida", value: "inbound" },
+      { label: "Numero manual", value: "manual" },
+    ],
+    defaultValue: "inbound",
+  },
+  {
+    key: "to",
+    label: "Telefone",
+    type: "template-input",
+    placeholder: "+5511999999999",
+    showWhen: { field: "toSource", equals: "manual" },
+  },
+];
+
+// Model and mock mode shared by the AI nodes ("default" = AI settings model)
+const AI_MODEL_FIELD: ActionConfigFieldBase = {
+  key: "aiModel",
+  label: "Modelo",
+  type: "select",
+  options: [
+    { label: "Padrao (Configuracoes de IA)", value: AI_MODEL_DEFAULT },
+    ...AI_PROVIDERS.flatMap((provider) =>
+      provider.models.map((model) => ({ label: model.name, value: model.id }))
+    ),
+  ],
+  defaultValue: AI_MODEL_DEFAULT,
+};
+
+const AI_TEST_GROUP: ActionConfigFieldGroup = {
+  label: "Teste",
+  type: "group",
+  fields: [
+    {
+      key: "mockMode",
+      label: "Modo mock",
+      type: "select",
+      options: [
+        { label: "Desligado (chama o modelo)", value: "off" },
+        { label: "Ligado (resposta fixa, sem custo)", value: "on" },
+      ],
+      defaultValue: "off",
+    },
+    {
+      key: "mockResponse",
+      label: "Resposta do modelo",
+      type: "template-textarea",
+      placeholder: "Vazio = resposta de exemplo",
+      rows: 3,
+      showWhen: { field: "mockMode", equals: "on" },
+    },
+  ],
+};
+
+const AI_METRIC_OUTPUTS: OutputField[] = [
+  { field: "model", description: "Modelo usado" },
+  { field: "usage.totalTokens", description: "Tokens consumidos" },
+  { field: "latencyMs", description: "Tempo de resposta (ms)" },
+];
+
 const integrations: IntegrationPlugin[] = [
   {
     type: "whatsapp",
@@ -183,10 +254,35 @@ const integrations: IntegrationPlugin[] = [
             placeholder: "user_answer",
             required: true,
           },
+          {
+            label: "Sem resposta",
+            type: "group",
+            fields: [
+              {
+                key: "replyTimeoutAmount",
+                label: "Esperar no maximo",
+                type: "number",
+                min: 1,
+                placeholder: "Vazio = espera para sempre",
+              },
+              {
+                key: "replyTimeoutUnit",
+                label: "Unidade",
+                type: "select",
+                options: [
+                  { label: "Minutos", value: "minutes" },
+                  { label: "Horas", value: "hours" },
+                  { label: "Dias", value: "days" },
+                ],
+                defaultValue: "hours",
+              },
+            ],
+          },
         ],
         outputFields: [
           { field: "status", description: "Status da conversa" },
           { field: "conversationId", description: "ID da conversa" },
+          { field: "timeoutAt", description: "Fim da espera pela resposta" },
         ],
       },
       {
@@ -450,6 +546,472 @@ const integrations: IntegrationPlugin[] = [
       },
     ],
   },
+  {
+    type: "contacts",
+    label: "Contatos",
+    description: "Atualizar contatos, tags, etiquetas e atendimento",
+    icon: Contact,
+    native: true,
+    actions: [
+      {
+        slug: "upsert-contact",
+        label: "Criar/atualizar contato",
+        description: "Salvar o contato com nome, email, tags e campos",
+        category: "Contatos",
+        stepFunction: "upsertContactStep",
+        stepImportPath: "contacts/upsert-contact",
+        configFields: [
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "name",
+            label: "Nome",
+            type: "template-input",
+            placeholder: "{{var.nome}}",
+          },
+          {
+            key: "email",
+            label: "Email",
+            type: "template-input",
+            placeholder: "{{var.email}}",
+          },
+          {
+            key: "tags",
+            label: "Tags",
+            type: "template-input",
+            placeholder: "lead, whatsapp",
+          },
+          {
+            key: "customFields",
+            label: "Campos personalizados (JSON)",
+            type: "template-textarea",
+            placeholder: '{"cidade":"{{var.cidade}}"}',
+            rows: 3,
+          },
+        ],
+        outputFields: [
+          { field: "contactId", description: "ID do contato" },
+          { field: "created", description: "Contato novo (true/false)" },
+          { field: "name", description: "Nome" },
+          { field: "phone", description: "Telefone" },
+          { field: "email", description: "Email" },
+          { field: "tags", description: "Tags do contato" },
+          { field: "customFields", description: "Campos personalizados" },
+        ],
+      },
+      {
+        slug: "set-custom-field",
+        label: "Definir campo personalizado",
+        description: "Salvar um valor (ex.: resposta de uma pergunta) no contato",
+        category: "Contatos",
+        stepFunction: "setCustomFieldStep",
+        stepImportPath: "contacts/set-custom-field",
+        configFields: [
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "fieldKey",
+            label: "Campo",
+            type: "text",
+            placeholder: "cidade",
+            required: true,
+          },
+          {
+            key: "fieldValue",
+            label: "Valor",
+            type: "template-input",
+            placeholder: "{{var.user_answer}}",
+            required: true,
+          },
+        ],
+        outputFields: [
+          { field: "contactId", description: "ID do contato" },
+          { field: "key", description: "Campo" },
+          { field: "value", description: "Valor salvo" },
+          { field: "previousValue", description: "Valor anterior" },
+        ],
+      },
+      {
+        slug: "add-tag",
+        label: "Adicionar tag",
+        description: "Adicionar tags ao contato",
+        category: "Contatos",
+        stepFunction: "addTagStep",
+        stepImportPath: "contacts/add-tag",
+        configFields: [
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "tags",
+            label: "Tags",
+            type: "template-input",
+            placeholder: "vip, interessado",
+            required: true,
+          },
+        ],
+        outputFields: [
+          { field: "contactId", description: "ID do contato" },
+          { field: "tags", description: "Tags do contato" },
+          { field: "added", description: "Tags adicionadas" },
+        ],
+      },
+      {
+        slug: "remove-tag",
+        label: "Remover tag",
+        description: "Remover tags do contato",
+        category: "Contatos",
+        stepFunction: "removeTagStep",
+        stepImportPath: "contacts/remove-tag",
+        configFields: [
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "tags",
+            label: "Tags",
+            type: "template-input",
+            placeholder: "interessado",
+            required: true,
+          },
+        ],
+        outputFields: [
+          { field: "contactId", description: "ID do contato" },
+          { field: "tags", description: "Tags do contato" },
+          { field: "removed", description: "Tags removidas" },
+        ],
+      },
+      {
+        slug: "opt-out",
+        label: "Registrar opt-out",
+        description: "Parar de enviar mensagens para o contato",
+        category: "Contatos",
+        stepFunction: "optOutStep",
+        stepImportPath: "contacts/opt-out",
+        configFields: [
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "reason",
+            label: "Motivo",
+            type: "template-input",
+            placeholder: "Pediu para nao receber mensagens",
+          },
+        ],
+        outputFields: [
+          { field: "contactId", description: "ID do contato" },
+          { field: "phone", description: "Telefone" },
+          { field: "status", description: "Status do contato" },
+        ],
+      },
+      {
+        slug: "opt-in",
+        label: "Registrar opt-in",
+        description: "Voltar a enviar mensagens para o contato",
+        category: "Contatos",
+        stepFunction: "optInStep",
+        stepImportPath: "contacts/opt-in",
+        configFields: [...CONTACT_TARGET_FIELDS],
+        outputFields: [
+          { field: "contactId", description: "ID do contato" },
+          { field: "phone", description: "Telefone" },
+          { field: "status", description: "Status do contato" },
+          { field: "previousStatus", description: "Status anterior" },
+        ],
+      },
+      {
+        slug: "assign-label",
+        label: "Aplicar etiqueta",
+        description: "Aplicar uma etiqueta na conversa do inbox",
+        category: "Contatos",
+        stepFunction: "assignLabelStep",
+        stepImportPath: "contacts/assign-label",
+        configFields: [
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "labelName",
+            label: "Etiqueta",
+            type: "template-input",
+            placeholder: "Suporte",
+            required: true,
+          },
+          {
+            key: "createIfMissing",
+            label: "Se a etiqueta nao existir",
+            type: "select",
+            options: [
+              { label: "Criar etiqueta", value: "true" },
+              { label: "Falhar", value: "false" },
+            ],
+            defaultValue: "true",
+          },
+        ],
+        outputFields: [
+          { field: "conversationId", description: "ID da conversa" },
+          { field: "labelId", description: "ID da etiqueta" },
+          { field: "labelName", description: "Etiqueta" },
+          { field: "labelCreated", description: "Etiqueta criada (true/false)" },
+        ],
+      },
+      {
+        slug: "handoff",
+        label: "Transferir para humano",
+        description: "Passar a conversa para um atendente com um resumo",
+        category: "Contatos",
+        stepFunction: "handoffStep",
+        stepImportPath: "contacts/handoff",
+        configFields: [
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "reason",
+            label: "Motivo",
+            type: "template-input",
+            placeholder: "Cliente pediu um atendente",
+          },
+          {
+            key: "summary",
+            label: "Resumo para o atendente",
+            type: "template-textarea",
+            placeholder: "Cliente quer falar sobre: {{var.user_answer}}",
+            rows: 4,
+            required: true,
+          },
+          {
+            key: "priority",
+            label: "Prioridade",
+            type: "select",
+            options: [
+              { label: "Baixa", value: "low" },
+              { label: "Normal", value: "normal" },
+              { label: "Alta", value: "high" },
+              { label: "Urgente", value: "urgent" },
+            ],
+            defaultValue: "high",
+          },
+        ],
+        outputFields: [
+          { field: "conversationId", description: "ID da conversa" },
+          { field: "assignedUserId", description: "Atendente atribuido" },
+          { field: "priority", description: "Prioridade" },
+        ],
+      },
+      {
+        slug: "add-to-audience",
+        label: "Adicionar a campanha",
+        description: "Incluir o contato no publico de uma campanha em rascunho ou agendada",
+        category: "Contatos",
+        stepFunction: "addToAudienceStep",
+        stepImportPath: "contacts/add-to-audience",
+        configFields: [
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "campaignId",
+            label: "ID da campanha",
+            type: "template-input",
+            placeholder: "ID da campanha (rascunho ou agendada)",
+            required: true,
+          },
+        ],
+        outputFields: [
+          { field: "campaignId", description: "ID da campanha" },
+          { field: "contactId", description: "ID do contato" },
+          { field: "added", description: "Incluido agora (true/false)" },
+          { field: "reason", description: "Motivo quando nao incluido" },
+          { field: "recipients", description: "Total de destinatarios" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "ai",
+    label: "IA",
+    description: "Classificar, extrair dados, responder e resumir com IA",
+    icon: Sparkles,
+    native: true,
+    actions: [
+      {
+        slug: "classify",
+        label: "Classificar texto",
+        description: "Escolher uma categoria para o texto, com um caminho por categoria",
+        category: "IA",
+        stepFunction: "classifyStep",
+        stepImportPath: "ai/classify",
+        configFields: [
+          AI_MODEL_FIELD,
+          {
+            key: "text",
+            label: "Texto",
+            type: "template-textarea",
+            placeholder: "{{var.resposta}}",
+            rows: 3,
+            required: true,
+          },
+          {
+            key: "categories",
+            label: "Categorias (uma por linha)",
+            type: "template-textarea",
+            placeholder: "Vendas: quer comprar ou pedir preco\nSuporte: problema com um pedido",
+            rows: 5,
+            required: true,
+          },
+          {
+            key: "minConfidence",
+            label: "Confianca minima (%)",
+            type: "number",
+            min: 0,
+            placeholder: "Abaixo disso segue o caminho sem categoria",
+          },
+          {
+            key: "instructions",
+            label: "Instrucoes",
+            type: "template-textarea",
+            placeholder: "Contexto extra para o classificador",
+            rows: 2,
+          },
+          AI_TEST_GROUP,
+        ],
+        outputFields: [
+          { field: "category", description: "Categoria escolhida (vazio = nenhuma)" },
+          { field: "confidence", description: "Confianca (0-1)" },
+          { field: "reason", description: "Justificativa" },
+          ...AI_METRIC_OUTPUTS,
+        ],
+      },
+      {
+        slug: "extract",
+        label: "Extrair dados",
+        description: "Ler campos de uma resposta livre e salvar como variaveis",
+        category: "IA",
+        stepFunction: "extractStep",
+        stepImportPath: "ai/extract",
+        configFields: [
+          AI_MODEL_FIELD,
+          {
+            key: "text",
+            label: "Texto",
+            type: "template-textarea",
+            placeholder: "{{var.resposta}}",
+            rows: 3,
+            required: true,
+          },
+          {
+            key: "schema",
+            label: "Campos (cada um vira {{var.campo}})",
+            type: "schema-builder",
+            required: true,
+          },
+          {
+            key: "instructions",
+            label: "Instrucoes",
+            type: "template-textarea",
+            placeholder: "Ex.: datas no formato AAAA-MM-DD",
+            rows: 2,
+          },
+          AI_TEST_GROUP,
+        ],
+        outputFields: [
+          { field: "values", description: "Campos extraidos" },
+          { field: "missing", description: "Campos nao informados no texto" },
+          ...AI_METRIC_OUTPUTS,
+        ],
+      },
+      {
+        slug: "generate-reply",
+        label: "Gerar resposta",
+        description: "Escrever uma mensagem a partir de um prompt e da base de conhecimento",
+        category: "IA",
+        stepFunction: "generateReplyStep",
+        stepImportPath: "ai/generate-reply",
+        configFields: [
+          AI_MODEL_FIELD,
+          {
+            key: "prompt",
+            label: "Prompt",
+            type: "template-textarea",
+            placeholder: "Responda a duvida do cliente: {{var.pergunta}}",
+            rows: 4,
+            required: true,
+          },
+          {
+            key: "instructions",
+            label: "Instrucoes (tom, tamanho)",
+            type: "template-textarea",
+            placeholder: "Seja breve e use no maximo 2 frases",
+            rows: 2,
+          },
+          {
+            label: "Base de conhecimento",
+            type: "group",
+            fields: [
+              {
+                key: "agentId",
+                label: "ID do agente de IA",
+                type: "template-input",
+                placeholder: "Vazio = sem base de conhecimento",
+              },
+              {
+                key: "knowledgeQuery",
+                label: "Buscar por",
+                type: "template-input",
+                placeholder: "Vazio = usa o prompt",
+              },
+            ],
+          },
+          AI_TEST_GROUP,
+        ],
+        outputFields: [
+          { field: "text", description: "Resposta gerada" },
+          { field: "knowledgeChunks", description: "Trechos da base usados" },
+          ...AI_METRIC_OUTPUTS,
+        ],
+      },
+      {
+        slug: "summarize",
+        label: "Resumir conversa",
+        description: "Resumir a conversa do contato no inbox ou um texto",
+        category: "IA",
+        stepFunction: "summarizeStep",
+        stepImportPath: "ai/summarize",
+        configFields: [
+          AI_MODEL_FIELD,
+          {
+            key: "summarySource",
+            label: "Resumir",
+            type: "select",
+            options: [
+              { label: "Conversa do contato", value: "conversation" },
+              { label: "Texto", value: "text" },
+            ],
+            defaultValue: "conversation",
+          },
+          ...CONTACT_TARGET_FIELDS,
+          {
+            key: "maxMessages",
+            label: "Ultimas mensagens",
+            type: "number",
+            min: 1,
+            placeholder: "30",
+            showWhen: { field: "summarySource", equals: "conversation" },
+          },
+          {
+            key: "text",
+            label: "Texto",
+            type: "template-textarea",
+            placeholder: "{{var.historico}}",
+            rows: 4,
+            showWhen: { field: "summarySource", equals: "text" },
+          },
+          {
+            key: "instructions",
+            label: "Instrucoes",
+            type: "template-textarea",
+            placeholder: "Ex.: liste os produtos citados",
+            rows: 2,
+          },
+          AI_TEST_GROUP,
+        ],
+        outputFields: [
+          { field: "summary", description: "Resumo" },
+          { field: "conversationId", description: "ID da conversa" },
+          { field: "messageCount", description: "Mensagens resumidas" },
+          ...AI_METRIC_OUTPUTS,
+        ],
+      },
+    ],
+  },
 ];
 
 function getSafeIntegrations(): IntegrationPlugin[] {
@@ -492,6 +1054,10 @@ export function getIntegration(type: IntegrationType | undefined) {
   return getSafeIntegrations().find((integration) => integration.type === type);
 }
 
+export function isNativeIntegration(type: IntegrationType | undefined): boolean {
+  return Boolean(getIntegration(type)?.native);
+}
+
 export function getIntegrationLabels(): Record<string, string> {
   return getSafeIntegrations().reduce((acc, integration) => {
     acc[integration.type] = integration.label;
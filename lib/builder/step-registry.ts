@@ -12,6 +12,19 @@ const STEP_IMPORTERS: Record<string, () => Promise<unknown>> = {
   "whatsapp/send-media": () => import("./steps/whatsapp/send-media"),
   "whatsapp/send-buttons": () => import("./steps/whatsapp/send-buttons"),
   "whatsapp/send-list": () => import("./steps/whatsapp/send-list"),
+  "contacts/upsert-contact": () => import("./steps/contacts/upsert-contact"),
+  "contacts/set-custom-field": () => import("./steps/contacts/set-custom-field"),
+  "contacts/add-tag": () => import("./steps/contacts/add-tag"),
+  "contacts/remove-tag": () => import("./steps/contacts/remove-tag"),
+  "contacts/opt-out": () => import("./steps/contacts/opt-out"),
+  "contacts/opt-in": () => import("./steps/contacts/opt-in"),
+  "contacts/assign-label": () => import("./steps/contacts/assign-label"),
+  "contacts/handoff": () => import("./steps/contacts/handoff"),
+  "contacts/add-to-audience": () => import("./steps/contacts/add-to-audience"),
+  "ai/classify": () => import("./steps/ai/classify"),
+  "ai/extract": () => import("./steps/ai/extract"),
+  "ai/generate-reply": () => import("./steps/ai/generate-reply"),
+  "ai/summarize": () => import("./steps/ai/summarize"),
 };
 
 export function getStepImporter(actionType: string): StepImporter | null {
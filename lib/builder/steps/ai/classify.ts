@@ -0,0 +1,76 @@
+import "server-only";
+
+import { parseJSONResponse } from "@/lib/ai";
+import {
+  buildClassifyPrompt,
+  buildMockResponse,
+  parseAiCategories,
+  resolveClassification,
+} from "@/lib/business/workflow";
+import { withStepLogging } from "../step-handler";
+import {
+  runAiCompletion,
+  toAiMetrics,
+  type AiStepInput,
+  type AiStepResult,
+} from "./shared";
+
+export type ClassifyInput = AiStepInput & {
+  text?: string;
+  categories?: string;
+  minConfidence?: string | number;
+};
+
+export async function classifyStep(input: ClassifyInput): Promise<AiStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const text = String(input.text || "").trim();
+    if (!text) {
+      return { success: false, error: "Text to classify is required" };
+    }
+    const categories = parseAiCategories(input.categories);
+    if (categories.length === 0) {
+      return { success: false, error: "At least one category is required" };
+    }
+
+    const { system, prompt } = buildClassifyPrompt(
+      text,
+      categories,
+      input.instructions
+    );
+    const completion = await runAiCompletion(input, {
+      system,
+      prompt,
+      json: true,
+      temperature: 0,
+      maxOutputTokens: 200,
+      mockResponse: buildMockResponse("classify", { categories }),
+    });
+
+    let answer: unknown;
+    try {
+      answer = parseJSONResponse(completion.text);
+    } catch {
+      return {
+        success: false,
+        error: "AI response was not valid JSON",
+        details: { response: completion.text, ...toAiMetrics(completion) },
+      };
+    }
+
+    // The executor follows only the edges of `handle`
+    const classification = resolveClassification(
+      answer,
+      categories,
+      input.minConfidence
+    );
+    return {
+      success: true,
+      data: { ...classification, ...toAiMetrics(completion) },
+    };
+  });
+}
+classifyStep.maxRetries = 0;
+
+export const _integrationType = "ai";
@@ -0,0 +1,71 @@
+import "server-only";
+
+import { parseJSONResponse } from "@/lib/ai";
+import {
+  buildExtractPrompt,
+  buildMockResponse,
+  coerceExtractedValues,
+  parseExtractionSchema,
+} from "@/lib/business/workflow";
+import { withStepLogging } from "../step-handler";
+import {
+  runAiCompletion,
+  toAiMetrics,
+  type AiStepInput,
+  type AiStepResult,
+} from "./shared";
+
+export type ExtractInput = AiStepInput & {
+  text?: string;
+  schema?: string;
+};
+
+export async function extractStep(input: ExtractInput): Promise<AiStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const text = String(input.text || "").trim();
+    if (!text) {
+      return { success: false, error: "Text to extract from is required" };
+    }
+    const fields = parseExtractionSchema(input.schema);
+    if (fields.length === 0) {
+      return { success: false, error: "At least one field is required" };
+    }
+
+    const { system, prompt } = buildExtractPrompt(
+      text,
+      fields,
+      input.instructions
+    );
+    const completion = await runAiCompletion(input, {
+      system,
+      prompt,
+      json: true,
+      temperature: 0,
+      maxOutputTokens: 1024,
+      mockResponse: buildMockResponse("extract", { fields }),
+    });
+
+    let answer: unknown;
+    try {
+      answer = parseJSONResponse(completion.text);
+    } catch {
+      return {
+        success: false,
+        error: "AI response was not valid JSON",
+        details: { response: completion.text, ...toAiMetrics(completion) },
+      };
+    }
+
+    // The executor copies `values` into the workflow variables
+    const { values, missing } = coerceExtractedValues(answer, fields);
+    return {
+      success: true,
+      data: { values, missing, ...values, ...toAiMetrics(completion) },
+    };
+  });
+}
+extractStep.maxRetries = 0;
+
+export const _integrationType = "ai";
@@ -0,0 +1,132 @@
+import "server-only";
+
+import {
+  buildEmbeddingConfigFromAgent,
+  buildRerankConfigFromAgent,
+  findRelevantContent,
+  hasIndexedContent,
+} from "@/lib/ai/rag-store";
+import { getSupabaseAdmin } from "@/lib/supabase";
+import {
+  buildMockResponse,
+  buildReplyPrompt,
+  isAiMockMode,
+} from "@/lib/business/workflow";
+import type { AIAgent, EmbeddingProvider } from "@/types";
+import { withStepLogging } from "../step-handler";
+import {
+  runAiCompletion,
+  toAiMetrics,
+  type AiStepInput,
+  type AiStepResult,
+} from "./shared";
+
+// Settings key (and env fallback) of the API key of each embedding provider
+const EMBEDDING_API_KEY_MAP: Record<
+  EmbeddingProvider,
+  { settingKey: string; envVar: string }
+> = {
+  google: { settingKey: "gemini_api_key", envVar: "GEMINI_API_KEY" },
+  openai: { settingKey: "openai_api_key", envVar: "OPENAI_API_KEY" },
+  voyage: { settingKey: "voyage_api_key", envVar: "VOYAGE_API_KEY" },
+  cohere: { settingKey: "cohere_api_key", envVar: "COHERE_API_KEY" },
+};
+
+export type GenerateReplyInput = AiStepInput & {
+  prompt?: string;
+  agentId?: string;
+  knowledgeQuery?: string;
+};
+
+async function getAgent(agentId: string): Promise<AIAgent | null> {
+  const supabase = getSupabaseAdmin();
+  if (!supabase) return null;
+  const { data } = await supabase
+    .from("ai_agents")
+    .select("*")
+    .eq("id", agentId)
+    .maybeSingle();
+  return (data as AIAgent | null) ?? null;
+}
+
+async function getEmbeddingApiKey(
+  provider: EmbeddingProvider
+): Promise<string | null> {
+  const config = EMBEDDING_API_KEY_MAP[provider] || EMBEDDING_API_KEY_MAP.google;
+  const supabase = getSupabaseAdmin();
+  const { data } = supabase
+    ? await supabase
+        .from("settings")
+        .select("value")
+        .eq("key", config.settingKey)
+        .maybeSingle()
+    : { data: null };
+  return (data?.value as string | undefined) || process.env[config.envVar] || null;
+}
+
+/** Knowledge base excerpts of the agent for the query (empty when not indexed) */
+async function searchKnowledge(agent: AIAgent, query: string): Promise<string[]> {
+  if (!(await hasIndexedContent(agent.id))) {
+    return [];
+  }
+  const apiKey = await getEmbeddingApiKey(agent.embedding_provider || "google");
+  if (!apiKey) {
+    console.warn("[AI Step] Embedding API key missing, skipping knowledge base");
+    return [];
+  }
+
+  const results = await findRelevantContent({
+    agentId: agent.id,
+    query,
+    embeddingConfig: buildEmbeddingConfigFromAgent(agent, apiKey),
+    rerankConfig: await buildRerankConfigFromAgent(agent),
+    topK: agent.rag_max_results || 5,
+    threshold: agent.rag_similarity_threshold || 0.5,
+  });
+  return results.map((result) => result.content);
+}
+
+export async function generateReplyStep(
+  input: GenerateReplyInput
+): Promise<AiStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const prompt = String(input.prompt || "").trim();
+    if (!prompt) {
+      return { success: false, error: "Prompt is required" };
+    }
+
+    // Mock mode never leaves the app (no embeddings either)
+    const agentId = String(input.agentId || "").trim();
+    let knowledge: string[] = [];
+    if (agentId && !isAiMockMode(input.mockMode)) {
+      const agent = await getAgent(agentId);
+      if (!agent) {
+        return { success: false, error: `AI agent not found: "${agentId}"` };
+      }
+      const query = String(input.knowledgeQuery || "").trim() || prompt;
+      knowledge = await searchKnowledge(agent, query);
+    }
+
+    const request = buildReplyPrompt(prompt, knowledge, input.instructions);
+    const completion = await runAiCompletion(input, {
+      ...request,
+      temperature: 0.7,
+      maxOutputTokens: 1024,
+      mockResponse: buildMockResponse("generate-reply"),
+    });
+
+    return {
+      success: true,
+      data: {
+        text: completion.text,
+        knowledgeChunks: knowledge.length,
+        ...toAiMetrics(completion),
+      },
+    };
+  });
+}
+generateReplyStep.maxRetries = 0;
+
+export const _integrationType = "ai";
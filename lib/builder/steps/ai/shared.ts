@@ -0,0 +1,118 @@
+import "server-only";
+
+import { AI_PROVIDERS, ai, JSON_ONLY_INSTRUCTION } from "@/lib/ai";
+import {
+  AI_MODEL_DEFAULT,
+  isAiMockMode,
+  normalizeAiUsage,
+  type AiUsage,
+} from "@/lib/business/workflow";
+import type { StepInput } from "../step-handler";
+
+export type AiStepResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; error: string; details?: unknown };
+
+export type AiStepInput = StepInput & {
+  aiModel?: string;
+  mockMode?: string;
+  mockResponse?: string;
+  instructions?: string;
+};
+
+export type AiCompletion = {
+  text: string;
+  model: string;
+  provider: string | null;
+  usage: AiUsage;
+  latencyMs: number;
+  mocked: boolean;
+};
+
+type AiCompletionRequest = {
+  system: string;
+  prompt: string;
+  /** Model answer used in mock mode when the node has no `mockResponse` */
+  mockResponse: string;
+  json?: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+};
+
+function resolveModel(
+  aiModel: string | undefined
+): { provider?: (typeof AI_PROVIDERS)[number]["id"]; model?: string } {
+  const modelId = String(aiModel || "").trim();
+  if (!modelId || modelId === AI_MODEL_DEFAULT) {
+    return {};
+  }
+  const provider = AI_PROVIDERS.find((entry) =>
+    entry.models.some((model) => model.id === modelId)
+  );
+  if (!provider) {
+    throw new Error(`Unknown AI model: "${modelId}"`);
+  }
+  return { provider: provider.id, model: modelId };
+}
+
+/**
+ * Calls the model picked in the node (default: the model of the AI settings),
+ * or answers with the mock response when the node is in mock mode. Usage and
+ * latency go to the step output, so they land in the execution log.
+ */
+export async function runAiCompletion(
+  input: AiStepInput,
+  request: AiCompletionRequest
+): Promise<AiCompletion> {
+  const startedAt = Date.now();
+
+  if (isAiMockMode(input.mockMode)) {
+    return {
+      text: String(input.mockResponse || "").trim() || request.mockResponse,
+      model: "mock",
+      provider: null,
+      usage: normalizeAiUsage(null),
+      latencyMs: Date.now() - startedAt,
+      mocked: true,
+    };
+  }
+
+  const { provider, model } = resolveModel(input.aiModel);
+  const result = await ai.generateText({
+    system: request.json
+      ? request.system + JSON_ONLY_INSTRUCTION
+      : request.system,
+    prompt: request.prompt,
+    provider,
+    model,
+    temperature: request.temperature,
+    maxOutputTokens: request.maxOutputTokens,
+  });
+
+  const completion: AiCompletion = {
+    text: result.text.trim(),
+    model: result.model,
+    provider: result.provider,
+    usage: normalizeAiUsage(result.usage),
+    latencyMs: Date.now() - startedAt,
+    mocked: false,
+  };
+  console.info("[AI Step] Completion:", {
+    node: input._context?.nodeName ?? null,
+    model: `${completion.provider}/${completion.model}`,
+    totalTokens: completion.usage.totalTokens,
+    latencyMs: completion.latencyMs,
+  });
+  return completion;
+}
+
+/** Model, tokens and latency shared by the output of every AI node */
+export function toAiMetrics(completion: AiCompletion): Record<string, unknown> {
+  return {
+    model: completion.model,
+    provider: completion.provider,
+    usage: completion.usage,
+    latencyMs: completion.latencyMs,
+    mocked: completion.mocked,
+  };
+}
@@ -0,0 +1,115 @@
+import "server-only";
+
+import { inboxDb } from "@/lib/inbox/inbox-db";
+import {
+  buildMockResponse,
+  buildSummaryPrompt,
+  formatConversationTranscript,
+} from "@/lib/business/workflow";
+import { formatMessageForAI } from "@/lib/business/inbox";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient, type ResolveRecipientInput } from "../whatsapp/shared";
+import {
+  runAiCompletion,
+  toAiMetrics,
+  type AiStepInput,
+  type AiStepResult,
+} from "./shared";
+
+const DEFAULT_MAX_MESSAGES = 30;
+const MAX_MESSAGES_LIMIT = 100;
+
+export type SummarizeInput = AiStepInput &
+  ResolveRecipientInput & {
+    summarySource?: string;
+    text?: string;
+    maxMessages?: string | number;
+  };
+
+/** Recent inbox messages of the contact as a transcript */
+async function loadConversationTranscript(
+  phone: string,
+  maxMessages: number
+): Promise<{ conversationId: string; messageCount: number; transcript: string } | null> {
+  const conversation = await inboxDb.findConversationByPhone(phone);
+  if (!conversation) {
+    return null;
+  }
+  const { messages } = await inboxDb.listMessages(conversation.id, {
+    limit: maxMessages,
+  });
+  const visible = messages.filter(
+    (message) => message.message_type !== "internal_note"
+  );
+  return {
+    conversationId: conversation.id,
+    messageCount: visible.length,
+    transcript: formatConversationTranscript(
+      visible.map((message) => ({
+        direction: message.direction,
+        text: formatMessageForAI(message, messages),
+      }))
+    ),
+  };
+}
+
+export async function summarizeStep(
+  input: SummarizeInput
+): Promise<AiStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    let transcript = "";
+    let conversationId: string | null = null;
+    let messageCount = 0;
+
+    if (input.summarySource === "text") {
+      transcript = String(input.text || "").trim();
+      if (!transcript) {
+        return { success: false, error: "Text to summarize is required" };
+      }
+    } else {
+      const recipient = resolveRecipient(input);
+      if (!recipient.ok) {
+        return { success: false, error: recipient.error };
+      }
+      const requested = Number(input.maxMessages);
+      const maxMessages =
+        Number.isInteger(requested) && requested > 0
+          ? Math.min(requested, MAX_MESSAGES_LIMIT)
+          : DEFAULT_MAX_MESSAGES;
+      const conversation = await loadConversationTranscript(
+        recipient.to,
+        maxMessages
+      );
+      if (!conversation || !conversation.transcript) {
+        return {
+          success: false,
+          error: `No inbox messages to summarize for ${recipient.to}`,
+        };
+      }
+      ({ transcript, conversationId, messageCount } = conversation);
+    }
+
+    const request = buildSummaryPrompt(transcript, input.instructions);
+    const completion = await runAiCompletion(input, {
+      ...request,
+      temperature: 0.3,
+      maxOutputTokens: 512,
+      mockResponse: buildMockResponse("summarize"),
+    });
+
+    return {
+      success: true,
+      data: {
+        summary: completion.text,
+        conversationId,
+        messageCount,
+        ...toAiMetrics(completion),
+      },
+    };
+  });
+}
+summarizeStep.maxRetries = 0;
+
+export const _integrationType = "ai";
@@ -0,0 +1,49 @@
+import "server-only";
+
+import { contactDb } from "@/lib/supabase-db";
+import { addTags, parseTagInput } from "@/lib/business/workflow";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import {
+  ensureContact,
+  notifyContactSaved,
+  type ContactStepInput,
+  type ContactStepResult,
+} from "./shared";
+
+export type AddTagInput = ContactStepInput & {
+  tags?: string;
+};
+
+export async function addTagStep(
+  input: AddTagInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    const tags = parseTagInput(input.tags);
+    if (tags.length === 0) {
+      return { success: false, error: "At least one tag is required" };
+    }
+
+    const { contact, created } = await ensureContact(recipient.to);
+    const result = addTags(contact.tags || [], tags);
+    if (result.added.length > 0) {
+      const updated = await contactDb.update(contact.id, { tags: result.tags });
+      await notifyContactSaved(updated ?? contact, created);
+    }
+
+    return {
+      success: true,
+      data: { contactId: contact.id, tags: result.tags, added: result.added },
+    };
+  });
+}
+addTagStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
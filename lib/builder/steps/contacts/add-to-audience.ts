@@ -0,0 +1,87 @@
+import "server-only";
+
+import { campaignContactDb, campaignDb } from "@/lib/supabase-db";
+import { isCampaignAudienceOpen } from "@/lib/business/workflow";
+import { ContactStatus } from "@/types";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import {
+  ensureContact,
+  notifyContactSaved,
+  type ContactStepInput,
+  type ContactStepResult,
+} from "./shared";
+
+export type AddToAudienceInput = ContactStepInput & {
+  campaignId?: string;
+};
+
+export async function addToAudienceStep(
+  input: AddToAudienceInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    const campaignId = String(input.campaignId || "").trim();
+    if (!campaignId) {
+      return { success: false, error: "Campaign is required" };
+    }
+
+    const campaign = await campaignDb.getById(campaignId);
+    if (!campaign) {
+      return { success: false, error: `Campaign not found: "${campaignId}"` };
+    }
+    if (!isCampaignAudienceOpen(campaign.status)) {
+      return {
+        success: false,
+        error: `Campaign "${campaign.name}" no longer accepts recipients (${campaign.status})`,
+      };
+    }
+
+    const { contact, created } = await ensureContact(recipient.to);
+    if (created) {
+      await notifyContactSaved(contact, true);
+    }
+
+    // Opted-out contacts never receive campaigns: the workflow goes on
+    if (contact.status === ContactStatus.OPT_OUT) {
+      return {
+        success: true,
+        data: {
+          campaignId,
+          contactId: contact.id,
+          added: false,
+          reason: "opted_out",
+          recipients: campaign.recipients ?? 0,
+        },
+      };
+    }
+
+    const result = await campaignContactDb.addToAudience(campaignId, {
+      contactId: contact.id,
+      phone: contact.phone,
+      name: contact.name || "",
+      email: contact.email,
+      custom_fields: contact.custom_fields,
+    });
+
+    return {
+      success: true,
+      data: {
+        campaignId,
+        contactId: contact.id,
+        added: result.added,
+        reason: result.added ? null : "already_in_audience",
+        recipients: result.recipients,
+      },
+    };
+  });
+}
+addToAudienceStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
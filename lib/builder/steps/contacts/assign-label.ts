@@ -0,0 +1,69 @@
+import "server-only";
+
+import { contactDb } from "@/lib/supabase-db";
+import {
+  assignLabel,
+  createNewLabel,
+  findOrCreateConversation,
+  listLabels,
+} from "@/lib/inbox/inbox-service";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import type { ContactStepInput, ContactStepResult } from "./shared";
+
+export type AssignLabelInput = ContactStepInput & {
+  labelName?: string;
+  createIfMissing?: string | boolean;
+};
+
+export async function assignLabelStep(
+  input: AssignLabelInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    const labelName = String(input.labelName || "").trim();
+    if (!labelName) {
+      return { success: false, error: "Label is required" };
+    }
+
+    const labels = await listLabels();
+    let label = labels.find(
+      (item) => item.name.trim().toLowerCase() === labelName.toLowerCase()
+    );
+    const createLabel =
+      input.createIfMissing !== false && input.createIfMissing !== "false";
+    if (!label && !createLabel) {
+      return { success: false, error: `Label not found: "${labelName}"` };
+    }
+    const labelCreated = !label;
+    if (!label) {
+      label = await createNewLabel({ name: labelName });
+    }
+
+    const contact = await contactDb.getByPhone(recipient.to);
+    const conversation = await findOrCreateConversation(
+      recipient.to,
+      contact?.id
+    );
+    await assignLabel(conversation.id, label.id);
+
+    return {
+      success: true,
+      data: {
+        conversationId: conversation.id,
+        labelId: label.id,
+        labelName: label.name,
+        labelCreated,
+      },
+    };
+  });
+}
+assignLabelStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
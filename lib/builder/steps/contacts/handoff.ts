@@ -0,0 +1,63 @@
+import "server-only";
+
+import { contactDb } from "@/lib/supabase-db";
+import {
+  executeHandoff,
+  findOrCreateConversation,
+} from "@/lib/inbox/inbox-service";
+import { resolveHandoffPriority } from "@/lib/business/workflow";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import type { ContactStepInput, ContactStepResult } from "./shared";
+
+export type HandoffInput = ContactStepInput & {
+  reason?: string;
+  summary?: string;
+  priority?: string;
+};
+
+export async function handoffStep(
+  input: HandoffInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    const summary = String(input.summary || "").trim();
+    if (!summary) {
+      return { success: false, error: "Handoff summary is required" };
+    }
+    const reason = String(input.reason || "").trim() || "Transferido pelo fluxo";
+    const priority = resolveHandoffPriority(input.priority);
+
+    // Human mode stops the AI agent; the queue assigns an attendant
+    const contact = await contactDb.getByPhone(recipient.to);
+    const conversation = await findOrCreateConversation(
+      recipient.to,
+      contact?.id
+    );
+    const handedOff = await executeHandoff(
+      conversation.id,
+      reason,
+      summary,
+      priority,
+      "workflow"
+    );
+
+    return {
+      success: true,
+      data: {
+        conversationId: handedOff.id,
+        assignedUserId: handedOff.assigned_user_id ?? null,
+        priority,
+      },
+    };
+  });
+}
+handoffStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
@@ -0,0 +1,47 @@
+import "server-only";
+
+import { contactDb } from "@/lib/supabase-db";
+import { ContactStatus } from "@/types";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import {
+  ensureContact,
+  notifyContactSaved,
+  type ContactStepInput,
+  type ContactStepResult,
+} from "./shared";
+
+export type OptInInput = ContactStepInput;
+
+export async function optInStep(
+  input: OptInInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    // update() also lifts the phone suppressions when the status becomes opt-in
+    const { contact, created } = await ensureContact(recipient.to);
+    const updated = await contactDb.update(contact.id, {
+      status: ContactStatus.OPT_IN,
+    });
+    await notifyContactSaved(updated ?? contact, created);
+
+    return {
+      success: true,
+      data: {
+        contactId: contact.id,
+        phone: recipient.to,
+        status: ContactStatus.OPT_IN,
+        previousStatus: created ? null : contact.status,
+      },
+    };
+  });
+}
+optInStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
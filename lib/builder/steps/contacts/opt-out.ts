@@ -0,0 +1,77 @@
+import "server-only";
+
+import { contactDb } from "@/lib/supabase-db";
+import { upsertPhoneSuppression } from "@/lib/phone-suppressions";
+import { emitWebhookEvent } from "@/lib/outbound-webhooks";
+import { queueCrmContactSync } from "@/lib/crm/crm-sync";
+import { ContactStatus } from "@/types";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import {
+  ensureContact,
+  notifyContactSaved,
+  type ContactStepInput,
+  type ContactStepResult,
+} from "./shared";
+
+export type OptOutInput = ContactStepInput & {
+  reason?: string;
+};
+
+export async function optOutStep(
+  input: OptOutInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    const reason = String(input.reason || "").trim() || "Opt-out pelo fluxo";
+    const metadata = {
+      workflowId: input._context?.workflowId ?? null,
+      executionId: input._context?.executionId ?? null,
+    };
+
+    // Unlike the inbound keyword opt-out, a node is an explicit decision of
+    // the business: the contact status changes too, not only the suppression
+    const { contact, created } = await ensureContact(recipient.to);
+    if (created) {
+      await notifyContactSaved(contact, true);
+    }
+    await contactDb.update(contact.id, { status: ContactStatus.OPT_OUT });
+    await upsertPhoneSuppression({
+      phone: recipient.to,
+      reason,
+      source: "workflow",
+      metadata,
+      isActive: true,
+      expiresAt: null,
+    });
+
+    await emitWebhookEvent("contact.opted_out", {
+      phone: recipient.to,
+      source: "workflow",
+      reason,
+      metadata,
+    });
+    await queueCrmContactSync({
+      contactId: contact.id,
+      reason: "opted_out",
+    });
+
+    return {
+      success: true,
+      data: {
+        contactId: contact.id,
+        phone: recipient.to,
+        status: ContactStatus.OPT_OUT,
+      },
+    };
+  });
+}
+optOutStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
@@ -0,0 +1,56 @@
+import "server-only";
+
+import { contactDb } from "@/lib/supabase-db";
+import { parseTagInput, removeTags } from "@/lib/business/workflow";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import {
+  notifyContactSaved,
+  type ContactStepInput,
+  type ContactStepResult,
+} from "./shared";
+
+export type RemoveTagInput = ContactStepInput & {
+  tags?: string;
+};
+
+export async function removeTagStep(
+  input: RemoveTagInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    const tags = parseTagInput(input.tags);
+    if (tags.length === 0) {
+      return { success: false, error: "At least one tag is required" };
+    }
+
+    // Nothing to remove from someone who is not a contact yet
+    const contact = await contactDb.getByPhone(recipient.to);
+    if (!contact) {
+      return {
+        success: true,
+        data: { contactId: null, tags: [], removed: [] },
+      };
+    }
+
+    const result = removeTags(contact.tags || [], tags);
+    if (result.removed.length > 0) {
+      const updated = await contactDb.update(contact.id, { tags: result.tags });
+      await notifyContactSaved(updated ?? contact, false);
+    }
+
+    return {
+      success: true,
+      data: { contactId: contact.id, tags: result.tags, removed: result.removed },
+    };
+  });
+}
+removeTagStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
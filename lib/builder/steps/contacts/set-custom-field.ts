@@ -0,0 +1,65 @@
+import "server-only";
+
+import { contactDb, customFieldDefDb } from "@/lib/supabase-db";
+import { coerceCustomFieldValue } from "@/lib/business/workflow";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import {
+  ensureContact,
+  notifyContactSaved,
+  type ContactStepInput,
+  type ContactStepResult,
+} from "./shared";
+
+export type SetCustomFieldInput = ContactStepInput & {
+  fieldKey?: string;
+  fieldValue?: string;
+};
+
+export async function setCustomFieldStep(
+  input: SetCustomFieldInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    const key = String(input.fieldKey || "").trim();
+    if (!key) {
+      return { success: false, error: "Custom field is required" };
+    }
+
+    // Fields created in Contacts are validated by type; other keys are stored as text
+    const definitions = await customFieldDefDb.getAll("contact");
+    const coerced = coerceCustomFieldValue(
+      definitions.find((definition) => definition.key === key),
+      input.fieldValue
+    );
+    if (!coerced.ok) {
+      return { success: false, error: `${key}: ${coerced.error}` };
+    }
+
+    const { contact, created } = await ensureContact(recipient.to);
+    const previousValue = contact.custom_fields?.[key] ?? null;
+    const updated = await contactDb.update(contact.id, {
+      custom_fields: { ...(contact.custom_fields ?? {}), [key]: coerced.value },
+    });
+    await notifyContactSaved(updated ?? contact, created);
+
+    return {
+      success: true,
+      data: {
+        contactId: contact.id,
+        key,
+        value: coerced.value,
+        previousValue,
+      },
+    };
+  });
+}
+setCustomFieldStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
@@ -0,0 +1,73 @@
+import "server-only";
+
+import { contactDb } from "@/lib/supabase-db";
+import { emitWebhookEvent } from "@/lib/outbound-webhooks";
+import { queueCrmContactSync } from "@/lib/crm/crm-sync";
+import { ContactStatus, type Contact } from "@/types";
+import type { StepInput } from "../step-handler";
+import type { ResolveRecipientInput } from "../whatsapp/shared";
+
+export type ContactStepResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; error: string; details?: unknown };
+
+export type ContactStepInput = StepInput & ResolveRecipientInput;
+
+/**
+ * Contact of the phone, created (opt-in, no name) when the workflow talks to
+ * someone who is not in the contact list yet. The caller notifies the change
+ * with `notifyContactSaved` once it is done with the contact.
+ */
+export async function ensureContact(
+  phone: string
+): Promise<{ contact: Contact; created: boolean }> {
+  const existing = await contactDb.getByPhone(phone);
+  if (existing) {
+    return { contact: existing, created: false };
+  }
+
+  const contact = await contactDb.add({
+    name: "",
+    phone,
+    status: ContactStatus.OPT_IN,
+    tags: [],
+    custom_fields: {},
+  });
+  return { contact, created: true };
+}
+
+/**
+ * Outbound webhook (new contacts only) and CRM sync after a node changes a
+ * contact. Both are best-effort.
+ */
+export async function notifyContactSaved(
+  contact: Contact,
+  created: boolean
+): Promise<void> {
+  if (created) {
+    await emitWebhookEvent("contact.created", {
+      contact_id: contact.id,
+      name: contact.name || null,
+      phone: contact.phone,
+      email: contact.email ?? null,
+      tags: contact.tags || [],
+      source: "workflow",
+    });
+  }
+  await queueCrmContactSync({
+    contactId: contact.id,
+    reason: created ? "created" : "updated",
+  });
+}
+
+export function toContactOutput(contact: Contact): Record<string, unknown> {
+  return {
+    contactId: contact.id,
+    phone: contact.phone,
+    name: contact.name || "",
+    email: contact.email ?? null,
+    status: contact.status,
+    tags: contact.tags || [],
+    customFields: contact.custom_fields ?? {},
+  };
+}
@@ -0,0 +1,66 @@
+import "server-only";
+
+import { contactDb } from "@/lib/supabase-db";
+import { parseCustomFieldsInput, parseTagInput } from "@/lib/business/workflow";
+import { ContactStatus } from "@/types";
+import { withStepLogging } from "../step-handler";
+import { resolveRecipient } from "../whatsapp/shared";
+import {
+  notifyContactSaved,
+  toContactOutput,
+  type ContactStepInput,
+  type ContactStepResult,
+} from "./shared";
+
+export type UpsertContactInput = ContactStepInput & {
+  name?: string;
+  email?: string;
+  tags?: string;
+  customFields?: string;
+};
+
+export async function upsertContactStep(
+  input: UpsertContactInput
+): Promise<ContactStepResult> {
+  "use step";
+
+  return withStepLogging(input, async () => {
+    const recipient = resolveRecipient(input);
+    if (!recipient.ok) {
+      return { success: false, error: recipient.error };
+    }
+
+    const email = String(input.email || "").trim();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return { success: false, error: `Email is invalid: "${email}"` };
+    }
+
+    const customFields = parseCustomFieldsInput(input.customFields);
+    if (!customFields.ok) {
+      return { success: false, error: customFields.error };
+    }
+
+    // Empty values keep what the contact already has
+    const existing = await contactDb.getByPhone(recipient.to);
+    const contact = await contactDb.upsertMergeTagsByPhone(
+      {
+        name: String(input.name || "").trim() || undefined,
+        phone: recipient.to,
+        email: email || undefined,
+        status: existing?.status ?? ContactStatus.OPT_IN,
+        tags: [],
+        custom_fields: customFields.fields,
+      },
+      parseTagInput(input.tags)
+    );
+    await notifyContactSaved(contact, !existing);
+
+    return {
+      success: true,
+      data: { ...toContactOutput(contact), created: !existing },
+    };
+  });
+}
+upsertContactStep.maxRetries = 0;
+
+export const _integrationType = "contacts";
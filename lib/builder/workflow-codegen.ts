@@ -1,4 +1,10 @@
 import { findActionById, flattenConfigFields } from "@/lib/builder/plugins";
+import {
+  collectLoopBody,
+  parseLoopItems,
+  resolveMaxIterations,
+  splitForEachEdges,
+} from "@/lib/business/workflow";
 import {
   analyzeNodeUsage,
   buildAccessPath,
@@ -932,6 +938,10 @@ export function generateWorkflowCode(
         lines.push(
           ...generateConditionBranchCode(node, nodeId, indent, branchVisited)
         );
+      } else if (actionType === "For Each") {
+        lines.push(
+          ...generateForEachBranchCode(node, nodeId, indent, branchVisited)
+        );
       } else {
         // Generate regular action
         lines.push(...generateActionCallCode(node, indent));
@@ -984,6 +994,66 @@ export function generateWorkflowCode(
     return lines;
   }
 
+  /**
+   * Generate For Each as a for...of loop. The loop variable holds the current
+   * item, so templates of the body nodes resolve like in the executor.
+   */
+  function generateForEachBranchCode(
+    node: WorkflowNode,
+    nodeId: string,
+    indent: string,
+    branchVisited: Set<string>
+  ): string[] {
+    const varName = nodeIdToVarName.get(nodeId) || "forEach";
+    const config = node.data.config || {};
+    const rawItems = typeof config.items === "string" ? config.items : "";
+    let itemsExpression = "[]";
+    if (rawItems.includes("{{")) {
+      itemsExpression = convertConditionToJS(rawItems);
+    } else {
+      const parsed = parseLoopItems(rawItems);
+      itemsExpression = JSON.stringify(parsed.ok ? parsed.items : []);
+    }
+
+    const maxIterations = resolveMaxIterations(config.maxIterations);
+    const { item, done } = splitForEachEdges(edges, nodeId);
+    const bodyIds = new Set(collectLoopBody(edges, nodeId).nodeIds);
+
+    const lines: string[] = [
+      `${indent}// For Each: ${node.data.label || "For Each"}`,
+      `${indent}const ${varName}Items = (${itemsExpression}).slice(0, ${maxIterations});`,
+      `${indent}for (const [index, item] of ${varName}Items.entries()) {`,
+      `${indent}  const ${varName} = { item, index, iteration: index + 1, total: ${varName}Items.length };`,
+    ];
+
+    // The body stops where the path after the loop starts
+    const bodyVisited = new Set(branchVisited);
+    for (const other of nodes) {
+      if (!bodyIds.has(other.id)) {
+        bodyVisited.add(other.id);
+      }
+    }
+    lines.push(
+      ...generateChildrenCode(
+        item.map((edge) => edge.target),
+        `${indent}  `,
+        bodyVisited
+      )
+    );
+    lines.push(`${indent}}`);
+
+    for (const bodyId of bodyIds) {
+      branchVisited.add(bodyId);
+    }
+    const doneIds = done.map((edge) => edge.target);
+    if (doneIds.length > 0) {
+      lines.push("");
+      lines.push(...generateChildrenCode(doneIds, indent, branchVisited));
+    }
+
+    return lines;
+  }
+
   /**
    * Generate a single action call with await
    */
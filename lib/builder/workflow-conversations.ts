@@ -7,7 +7,7 @@ export type ConversationState = {
   id: string;
   workflow_id: string;
   phone: string;
-  status: "waiting" | "completed";
+  status: "waiting" | "completed" | "timed_out";
   resume_node_id?: string | null;
   variable_key?: string | null;
   variables?: Record<string, unknown> | null;
@@ -64,17 +64,28 @@ export async function getPendingConversation(
   return data as ConversationState;
 }
 
-export async function completeConversation(
+/**
+ * Encerra a espera da conversa (resposta recebida ou timeout). Só a primeira
+ * chamada vence: retorna null se a conversa já não estava aguardando.
+ */
+export async function settleConversation(
   supabase: SupabaseClient,
   conversationId: string,
-  variables: Record<string, unknown>
-): Promise<void> {
-  await supabase
+  status: "completed" | "timed_out",
+  variables?: Record<string, unknown>
+): Promise<ConversationState | null> {
+  const { data } = await supabase
     .from("workflow_conversations")
     .update({
-      status: "completed",
-      variables,
+      status,
+      ...(variables ? { variables } : {}),
       updated_at: new Date().toISOString(),
     })
-    .eq("id", conversationId);
+    .eq("id", conversationId)
+    .eq("status", "waiting")
+    .select("*")
+    .maybeSingle();
+
+  if (!data) return null;
+  return data as ConversationState;
 }
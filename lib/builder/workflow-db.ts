@@ -143,6 +143,40 @@ export async function fetchWorkflowRecord(
   return { workflow, version };
 }
 
+/**
+ * Latest published version of a workflow (what runs in production), or null
+ * when the workflow does not exist or was never published.
+ */
+export async function fetchPublishedWorkflowRecord(
+  supabase: SupabaseClient,
+  workflowId: string
+): Promise<WorkflowRecord | null> {
+  const { data: workflow } = await supabase
+    .from("workflows")
+    .select("*")
+    .eq("id", workflowId)
+    .maybeSingle<WorkflowRow>();
+
+  if (!workflow) {
+    return null;
+  }
+
+  const { data: version } = await supabase
+    .from("workflow_versions")
+    .select("*")
+    .eq("workflow_id", workflowId)
+    .eq("status", "published")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle<WorkflowVersionRow>();
+
+  if (!version) {
+    return null;
+  }
+
+  return { workflow, version, lastPublishedVersion: version.version };
+}
+
 export async function ensureWorkflowRecord(
   supabase: SupabaseClient,
   workflowId: string,
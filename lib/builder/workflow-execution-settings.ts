@@ -1,5 +1,6 @@
 import { settingsDb } from "@/lib/supabase-db";
 import { isSupabaseConfigured } from "@/lib/supabase";
+import { getCurrentWorkspaceId } from "@/lib/workspace-context";
 
 export type WorkflowExecutionConfig = {
   retryCount: number;
@@ -16,8 +17,9 @@ const DEFAULT_CONFIG: WorkflowExecutionConfig = {
   timeoutMs: 10000,
 };
 
+// Config é por workspace: o cache só vale para o workspace que o preencheu
 let cached:
-  | { config: WorkflowExecutionConfig; source: "db" | "env"; expiresAt: number }
+  | { config: WorkflowExecutionConfig; source: "db" | "env"; expiresAt: number; workspaceId: string }
   | null = null;
 
 function clampInt(value: unknown, min: number, max: number): number {
@@ -47,7 +49,8 @@ export async function getWorkflowExecutionConfig(): Promise<{
   source: "db" | "env";
 }> {
   const now = Date.now();
-  if (cached && cached.expiresAt > now) {
+  const workspaceId = await getCurrentWorkspaceId();
+  if (cached && cached.workspaceId === workspaceId && cached.expiresAt > now) {
     return { config: cached.config, source: cached.source };
   }
 
@@ -78,14 +81,14 @@ export async function getWorkflowExecutionConfig(): Promise<{
             ? clampInt(parsed.timeoutMs, 0, 60_000)
             : envConfig.timeoutMs,
       };
-      cached = { config, source: "db", expiresAt: now + CACHE_TTL_MS };
+      cached = { config, source: "db", expiresAt: now + CACHE_TTL_MS, workspaceId };
       return { config, source: "db" };
     } catch {
       // fall through to env defaults
     }
   }
 
-  cached = { config: envConfig, source: "env", expiresAt: now + CACHE_TTL_MS };
+  cached = { config: envConfig, source: "env", expiresAt: now + CACHE_TTL_MS, workspaceId };
   return { config: envConfig, source: "env" };
 }
 
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/supabase", () => ({ getSupabaseAdmin: () => null }));
+vi.mock("@/lib/builder/workflow-execution-settings", () => ({
+  getWorkflowExecutionConfig: async () => ({
+    config: { retryCount: 0, retryDelayMs: 0, timeoutMs: 0 },
+  }),
+}));
+vi.mock("./steps/trigger", () => ({
+  triggerStep: async (input: { triggerData: unknown }) => ({
+    success: true,
+    data: input.triggerData,
+  }),
+}));
+vi.mock("./steps/step-handler", () => ({
+  withStepLogging: (_input: unknown, fn: () => Promise<unknown>) => fn(),
+}));
+
+import { executeWorkflow } from "./workflow-executor.workflow";
+import type { WorkflowEdge, WorkflowNode } from "./workflow-store";
+
+function actionNode(id: string, config: Record<string, unknown>): WorkflowNode {
+  return {
+    id,
+    type: "action",
+    position: { x: 0, y: 0 },
+    data: { label: id, type: "action", config },
+  } as WorkflowNode;
+}
+
+function edge(source: string, target: string): WorkflowEdge {
+  return { id: `${source}-${target}`, source, target } as WorkflowEdge;
+}
+
+describe("executeWorkflow com Delay", () => {
+  const trigger = {
+    id: "trigger",
+    type: "trigger",
+    position: { x: 0, y: 0 },
+    data: { label: "Gatilho", type: "trigger", config: { triggerType: "Manual" } },
+  } as WorkflowNode;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("executa os ramos paralelos antes de pausar", async () => {
+    const execution = await executeWorkflow({
+      nodes: [
+        trigger,
+        actionNode("a", { actionType: "Set Variable", variableKey: "a", variableValue: "1" }),
+        actionNode("delay", { actionType: "Delay", delayAmount: "1", delayUnit: "hours" }),
+        actionNode("b", { actionType: "Set Variable", variableKey: "b", variableValue: "2" }),
+      ],
+      edges: [edge("trigger", "delay"), edge("trigger", "a"), edge("delay", "b")],
+    });
+
+    expect(execution.paused).toBe(true);
+    expect(execution.results.a).toMatchObject({ success: true, data: { data: { key: "a", value: "1" } } });
+    expect(execution.results.b).toBeUndefined();
+    expect(execution.pause).toMatchObject({
+      kind: "delay",
+      resumeNodeIds: ["b"],
+      variables: { a: "1" },
+    });
+  });
+
+  it("adia para a retomada outro Delay encontrado no ramo paralelo", async () => {
+    const execution = await executeWorkflow({
+      nodes: [
+        trigger,
+        actionNode("delay", { actionType: "Delay", delayAmount: "1", delayUnit: "hours" }),
+        actionNode("b", { actionType: "Set Variable", variableKey: "b", variableValue: "2" }),
+        actionNode("delay2", { actionType: "Delay", delayAmount: "2", delayUnit: "hours" }),
+      ],
+      edges: [edge("trigger", "delay"), edge("delay", "b"), edge("trigger", "delay2")],
+    });
+
+    expect(execution.pause).toMatchObject({ kind: "delay", resumeNodeIds: ["b", "delay2"] });
+    expect(execution.results.delay2).toBeUndefined();
+  });
+});
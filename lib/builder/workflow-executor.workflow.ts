@@ -13,14 +13,29 @@ import {
   type StepImporter,
 } from "./step-registry";
 import { findActionById } from "./plugins";
-import type { StepContext } from "./steps/step-handler";
+import { type StepContext, withStepLogging } from "./steps/step-handler";
 import { triggerStep } from "./steps/trigger";
 import { getSupabaseAdmin } from "@/lib/supabase";
 import { getErrorMessageAsync } from "./utils";
+import { fetchPublishedWorkflowRecord } from "./workflow-db";
 import { createConversation } from "./workflow-conversations";
 import { normalizePhoneNumber } from "@/lib/phone-formatter";
 import type { WorkflowEdge, WorkflowNode } from "./workflow-store";
 import { getWorkflowExecutionConfig } from "@/lib/builder/workflow-execution-settings";
+import {
+  AI_FALLBACK_HANDLE,
+  checkWorkflowCall,
+  collectLoopBody,
+  parseInputMapping,
+  parseLoopItems,
+  resolveDelayResumeAt,
+  resolveForEachErrorMode,
+  resolveMaxIterations,
+  resolveReplyTimeoutAt,
+  splitCategoryEdges,
+  splitForEachEdges,
+  splitReplyTimeoutEdges,
+} from "@/lib/business/workflow";
 
 // System actions that don't have plugins - maps to module import functions
 const SYSTEM_ACTIONS: Record<string, StepImporter> = {
@@ -48,6 +63,11 @@ function isAskQuestionAction(actionType?: string): boolean {
   return action?.slug === "ask-question";
 }
 
+function isAiAction(actionType: string | undefined, slug: string): boolean {
+  const action = findActionById(actionType);
+  return action?.integration === "ai" && action.slug === slug;
+}
+
 function shouldTreatAsAskQuestion(
   actionType: string | undefined,
   config: Record<string, unknown>
@@ -70,6 +90,14 @@ function shouldTreatAsAskQuestion(
   return true;
 }
 
+// Nodes that pause the run can't be resumed inside a loop or a called workflow
+function isPausingNode(node: WorkflowNode): boolean {
+  if (node.data.type !== "action" || node.data.enabled === false) return false;
+  const config = node.data.config || {};
+  const actionType = config.actionType as string | undefined;
+  return actionType === "Delay" || shouldTreatAsAskQuestion(actionType, config);
+}
+
 type ExecutionResult = {
   success: boolean;
   data?: unknown;
@@ -78,6 +106,27 @@ type ExecutionResult = {
 
 type NodeOutputs = Record<string, { label: string; data: unknown }>;
 
+/**
+ * Durable pause returned by the executor. The Upstash route sleeps until the
+ * given time and runs the executor again from the listed nodes.
+ * - delay: Delay node; continues with the variables captured at the pause
+ * - reply_timeout: Ask Question with timeout; continues down the "no reply"
+ *   edges only if the conversation is still waiting by then
+ */
+export type WorkflowPause =
+  | {
+      kind: "delay";
+      resumeAt: string;
+      resumeNodeIds: string[];
+      variables: Record<string, unknown>;
+    }
+  | {
+      kind: "reply_timeout";
+      timeoutAt: string;
+      conversationId: string;
+      timeoutNodeIds: string[];
+    };
+
 export type WorkflowExecutionInput = {
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
@@ -344,16 +393,6 @@ async function executeActionStep(input: {
     executionDefaults?.timeoutMs ?? 0
   );
 
-  if (actionType === "Delay") {
-    const delayMs =
-      typeof stepInput.delayMs === "number"
-        ? stepInput.delayMs
-        : Number(stepInput.delayMs || 0);
-    const safeDelay = Number.isFinite(delayMs) ? Math.max(0, delayMs) : 0;
-    await new Promise((resolve) => setTimeout(resolve, safeDelay));
-    return { success: true, data: { delayMs: safeDelay } };
-  }
-
   if (actionType === "Set Variable") {
     const key = String(stepInput.variableKey || "");
     const value = stepInput.variableValue;
@@ -553,6 +592,227 @@ function processTemplates(
   return processed;
 }
 
+/**
+ * State of the running workflow shared with the nodes that run part of a
+ * graph (For Each body, called workflow) as a nested execution.
+ */
+type NestedRunContext = {
+  node: WorkflowNode;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  outputs: NodeOutputs;
+  variables: Record<string, unknown>;
+  triggerInput: Record<string, unknown>;
+  executionId?: string;
+  stepContext: StepContext;
+  /** Workflows running in this chain, outermost first */
+  callStack: string[];
+};
+
+// Skipped nodes (branches not taken) are not failures of a nested run
+function findRunError(
+  results: Record<string, ExecutionResult>
+): string | undefined {
+  return Object.values(results).find(
+    (result) => !result.success && result.error !== "skipped"
+  )?.error;
+}
+
+function getRunOutput(results: Record<string, ExecutionResult>): unknown {
+  const data = Object.values(results)
+    .filter((result) => result.success)
+    .at(-1)?.data;
+  if (data && typeof data === "object" && "success" in data && "data" in data) {
+    return (data as { data: unknown }).data;
+  }
+  return data ?? null;
+}
+
+/**
+ * Runs the body of a For Each once per item. The current item is the output
+ * of the For Each node while the body runs ({{@forEach:Label.item}}), and each
+ * iteration is logged as a step of the For Each node.
+ */
+async function runForEach(
+  run: NestedRunContext,
+  config: Record<string, unknown>
+): Promise<ExecutionResult> {
+  const parsed = parseLoopItems(config.items);
+  if (!parsed.ok) {
+    return { success: false, error: parsed.error };
+  }
+
+  const body = collectLoopBody(run.edges, run.node.id);
+  const bodyIds = new Set(body.nodeIds);
+  const bodyNodes = run.nodes.filter((node) => bodyIds.has(node.id));
+  const pausingNode = bodyNodes.find(isPausingNode);
+  if (pausingNode) {
+    return {
+      success: false,
+      error: `Node "${pausingNode.data.label || pausingNode.id}" pauses the workflow and can't run inside For Each.`,
+    };
+  }
+  const bodyEdges = run.edges.filter(
+    (edge) => bodyIds.has(edge.source) && bodyIds.has(edge.target)
+  );
+
+  const maxIterations = resolveMaxIterations(config.maxIterations);
+  const items = parsed.items.slice(0, maxIterations);
+  const truncated = parsed.items.length > items.length;
+  if (truncated) {
+    console.warn("[For Each] Items above the iteration limit were skipped:", {
+      nodeId: run.node.id,
+      total: parsed.items.length,
+      maxIterations,
+    });
+  }
+
+  const itemVariable = String(config.itemVariable || "").trim();
+  const errorMode = resolveForEachErrorMode(config.onItemError);
+  const sanitizedNodeId = run.node.id.replace(/[^a-zA-Z0-9]/g, "_");
+  const label = run.node.data.label || run.node.id;
+  const iterations: Array<{ index: number; success: boolean; error?: string }> =
+    [];
+  let lastOutputs: NodeOutputs = {};
+
+  for (const [index, item] of items.entries()) {
+    const current = { item, index, iteration: index + 1, total: items.length };
+    run.outputs[sanitizedNodeId] = { label, data: current };
+    if (itemVariable) {
+      run.variables[itemVariable] = item;
+    }
+
+    const iteration = await withStepLogging(
+      { _context: run.stepContext, ...current, nodeIds: body.nodeIds },
+      async (): Promise<ExecutionResult> => {
+        const execution = await executeWorkflow({
+          nodes: bodyNodes,
+          edges: bodyEdges,
+          triggerInput: run.triggerInput,
+          executionId: run.executionId,
+          workflowId: run.stepContext.workflowId,
+          startNodeIds: body.entryNodeIds,
+          initialVariables: run.variables,
+          initialOutputs: run.outputs,
+          parentRun: { callStack: run.callStack },
+        });
+        Object.assign(run.variables, execution.variables);
+        lastOutputs = execution.outputs;
+        const error = findRunError(execution.results) ?? execution.error;
+        return error ? { success: false, error } : { success: true, data: current };
+      }
+    );
+
+    iterations.push({ index, success: iteration.success, error: iteration.error });
+    if (!iteration.success && errorMode === "stop") {
+      return {
+        success: false,
+        error: `For Each item ${index + 1} of ${items.length} failed: ${iteration.error}`,
+      };
+    }
+  }
+
+  // Nodes after the loop see the outputs of the last iteration
+  Object.assign(run.outputs, lastOutputs);
+  const failed = iterations.filter((iteration) => !iteration.success);
+  return {
+    success: true,
+    data: {
+      total: parsed.items.length,
+      iterations: iterations.length,
+      truncated,
+      succeeded: iterations.length - failed.length,
+      failed: failed.length,
+      errors: failed,
+    },
+  };
+}
+
+/**
+ * Runs the published version of another workflow inside this run (its steps
+ * are logged in the same execution) and returns its last output and variables.
+ */
+async function runCallWorkflow(
+  run: NestedRunContext,
+  config: Record<string, unknown>
+): Promise<ExecutionResult> {
+  const targetWorkflowId = String(config.targetWorkflowId || "").trim();
+  const check = checkWorkflowCall(run.callStack, targetWorkflowId);
+  if (!check.ok) {
+    return { success: false, error: check.error };
+  }
+  const mapping = parseInputMapping(config.inputMapping);
+  if (!mapping.ok) {
+    return { success: false, error: mapping.error };
+  }
+
+  const supabase = getSupabaseAdmin();
+  if (!supabase) {
+    return { success: false, error: "Supabase not configured for workflow calls." };
+  }
+  const record = await fetchPublishedWorkflowRecord(supabase, targetWorkflowId);
+  if (!record) {
+    return {
+      success: false,
+      error: `Workflow "${targetWorkflowId}" not found or never published.`,
+    };
+  }
+
+  const { nodes, edges } = record.version;
+  const workflowName = record.workflow.name;
+  const pausingNode = nodes.find(isPausingNode);
+  if (pausingNode) {
+    return {
+      success: false,
+      error: `Workflow "${workflowName}" can't be called: node "${pausingNode.data.label || pausingNode.id}" pauses the workflow.`,
+    };
+  }
+
+  // By default the called workflow talks to the same contact
+  const triggerInput =
+    config.inheritTrigger === "off"
+      ? mapping.values
+      : { ...run.triggerInput, ...mapping.values };
+
+  return withStepLogging(
+    {
+      _context: run.stepContext,
+      workflowId: targetWorkflowId,
+      workflowName,
+      version: record.version.version,
+      input: mapping.values,
+      nodeIds: nodes.map((node) => node.id),
+    },
+    async (): Promise<ExecutionResult> => {
+      const execution = await executeWorkflow({
+        nodes,
+        edges,
+        triggerInput,
+        executionId: run.executionId,
+        workflowId: targetWorkflowId,
+        parentRun: { callStack: [...run.callStack, targetWorkflowId] },
+      });
+      const error = findRunError(execution.results) ?? execution.error;
+      if (error) {
+        return {
+          success: false,
+          error: `Workflow "${workflowName}" failed: ${error}`,
+        };
+      }
+      return {
+        success: true,
+        data: {
+          workflowId: targetWorkflowId,
+          workflowName,
+          version: record.version.version,
+          output: getRunOutput(execution.results),
+          variables: execution.variables,
+        },
+      };
+    }
+  );
+}
+
 /**
  * Main workflow executor function
  */
@@ -560,6 +820,9 @@ export async function executeWorkflow(
   input: WorkflowExecutionInput & {
     startNodeIds?: string[];
     initialVariables?: Record<string, unknown>;
+    initialOutputs?: NodeOutputs;
+    /** Set for For Each bodies and called workflows: the parent owns the run record */
+    parentRun?: { callStack: string[] };
   }
 ) {
   "use workflow";
@@ -575,11 +838,13 @@ export async function executeWorkflow(
     workflowId: workflowId || "none",
   });
 
-  const outputs: NodeOutputs = {};
+  const outputs: NodeOutputs = { ...(input.initialOutputs || {}) };
   const results: Record<string, ExecutionResult> = {};
   const variables: Record<string, unknown> = {
     ...(input.initialVariables || {}),
   };
+  const callStack =
+    input.parentRun?.callStack ?? (workflowId ? [workflowId] : []);
   const executionDefaults = await getWorkflowExecutionConfig()
     .then((res) => res.config)
     .catch((error) => {
@@ -736,6 +1001,10 @@ export async function executeWorkflow(
       }
     };
 
+    // A Delay that pauses lets the rest of the ready queue (parallel branches)
+    // run first; the run pauses once the queue is empty.
+    let pendingDelay: Extract<WorkflowPause, { kind: "delay" }> | null = null;
+
     while (readyQueue.length > 0) {
       const nodeId = readyQueue.shift();
       if (!nodeId || resolvedNodes.has(nodeId)) {
@@ -752,6 +1021,13 @@ export async function executeWorkflow(
         continue;
       }
 
+      // Only one pause per segment: other pausing nodes run after the resume
+      if (pendingDelay && isPausingNode(node)) {
+        pendingDelay.resumeNodeIds.push(nodeId);
+        resolvedNodes.add(nodeId);
+        continue;
+      }
+
       let result: ExecutionResult;
       try {
         if (node.data.type === "trigger") {
@@ -794,6 +1070,78 @@ export async function executeWorkflow(
           });
 
           result = { success: triggerResult.success, data: triggerResult.data };
+        } else if (
+          node.data.type === "action" &&
+          node.data.config?.actionType === "Delay"
+        ) {
+          const delay = resolveDelayResumeAt(
+            processTemplates(node.data.config || {}, outputs, variables)
+          );
+          const resumeNodeIds = edgesBySource.get(node.id) || [];
+          if (!delay.ok) {
+            result = { success: false, error: delay.error };
+          } else if (
+            resumeNodeIds.length === 0 ||
+            delay.resumeAt.getTime() <= Date.now()
+          ) {
+            result = {
+              success: true,
+              data: { resumeAt: delay.resumeAt.toISOString() },
+            };
+          } else {
+            pendingDelay = {
+              kind: "delay",
+              resumeAt: delay.resumeAt.toISOString(),
+              resumeNodeIds: [...resumeNodeIds],
+              variables: {},
+            };
+            results[nodeId] = {
+              success: true,
+              data: {
+                resumeAt: pendingDelay.resumeAt,
+                resumeNodeIds: pendingDelay.resumeNodeIds,
+              },
+            };
+            resolvedNodes.add(nodeId);
+            outputs[nodeId.replace(/[^a-zA-Z0-9]/g, "_")] = {
+              label: node.data.label || nodeId,
+              data: results[nodeId].data,
+            };
+            // Its targets run when the run resumes
+            continue;
+          }
+        } else if (
+          node.data.type === "action" &&
+          (node.data.config?.actionType === "For Each" ||
+            node.data.config?.actionType === "Call Workflow")
+        ) {
+          const actionType = node.data.config?.actionType as string;
+          const nestedRun: NestedRunContext = {
+            node,
+            nodes,
+            edges,
+            outputs,
+            variables,
+            triggerInput,
+            executionId,
+            callStack,
+            stepContext: {
+              executionId,
+              workflowId,
+              nodeId: node.id,
+              nodeName: getNodeName(node),
+              nodeType: actionType,
+            },
+          };
+          const config = processTemplates(
+            node.data.config || {},
+            outputs,
+            variables
+          );
+          result =
+            actionType === "For Each"
+              ? await runForEach(nestedRun, config)
+              : await runCallWorkflow(nestedRun, config);
         } else if (node.data.type === "action") {
           const config = node.data.config || {};
           const actionType = config.actionType as string | undefined;
@@ -834,6 +1182,11 @@ export async function executeWorkflow(
             };
 
             const nextNodes = edgesBySource.get(node.id) || [];
+            const replyEdges = splitReplyTimeoutEdges(edges, node.id);
+            const replyNodeIds = replyEdges.reply.map((edge) => edge.target);
+            const replyTimeout = isAskQuestion
+              ? resolveReplyTimeoutAt(processedConfig)
+              : null;
             const actionInfo = findActionById(effectiveActionType);
             const shouldDebugAskQuestion =
               Boolean(processedConfig.variableKey) || isAskQuestion;
@@ -890,7 +1243,7 @@ export async function executeWorkflow(
 
             let resumeNodeId: string | null = null;
             if (isAskQuestion) {
-              if (nextNodes.length === 0) {
+              if (replyNodeIds.length === 0) {
                 if (debugAskQuestion) {
                   debugAskQuestion.resumeNodeId = null;
                   console.warn("[AskQuestion] No next node to resume:", {
@@ -910,7 +1263,7 @@ export async function executeWorkflow(
                 };
                 continue;
               }
-              if (nextNodes.length > 1) {
+              if (replyNodeIds.length > 1) {
                 if (debugAskQuestion) {
                   debugAskQuestion.resumeNodeId = null;
                   console.warn("[AskQuestion] Multiple next nodes:", {
@@ -930,7 +1283,17 @@ export async function executeWorkflow(
                 };
                 continue;
               }
-              resumeNodeId = nextNodes[0];
+              if (replyTimeout && !replyTimeout.ok) {
+                result = { success: false, error: replyTimeout.error };
+                results[nodeId] = result;
+                resolvedNodes.add(nodeId);
+                outputs[nodeId.replace(/[^a-zA-Z0-9]/g, "_")] = {
+                  label: node.data.label || nodeId,
+                  data: result.data,
+                };
+                continue;
+              }
+              resumeNodeId = replyNodeIds[0];
               processedConfig.resumeNodeId = resumeNodeId;
               if (debugAskQuestion) {
                 debugAskQuestion.resumeNodeId = resumeNodeId;
@@ -977,6 +1340,14 @@ export async function executeWorkflow(
               result = { success: true, data: stepResult };
             }
 
+            // Extracted fields become run variables ({{var.campo}})
+            if (result.success && isAiAction(effectiveActionType, "extract")) {
+              const values = (
+                stepResult as { data?: { values?: Record<string, unknown> } }
+              )?.data?.values;
+              Object.assign(variables, values ?? {});
+            }
+
             if (isAskQuestion && result.success && resumeNodeId) {
               const variableKey = String(processedConfig.variableKey || "").trim();
               if (!variableKey) {
@@ -1054,6 +1425,16 @@ export async function executeWorkflow(
                       error: "Failed to save conversation.",
                     };
                   } else {
+                    const pause: WorkflowPause | undefined = replyTimeout?.ok
+                      ? {
+                          kind: "reply_timeout",
+                          timeoutAt: replyTimeout.resumeAt.toISOString(),
+                          conversationId: conversation.id,
+                          timeoutNodeIds: replyEdges.timeout.map(
+                            (edge) => edge.target
+                          ),
+                        }
+                      : undefined;
                     result = {
                       success: true,
                       data: {
@@ -1061,6 +1442,7 @@ export async function executeWorkflow(
                         conversationId: conversation.id,
                         resumeNodeId,
                         variableKey,
+                        timeoutAt: pause?.timeoutAt ?? null,
                       },
                     };
                     await supabase
@@ -1072,6 +1454,7 @@ export async function executeWorkflow(
                           conversationId: conversation.id,
                           resumeNodeId,
                           variableKey,
+                          timeoutAt: pause?.timeoutAt ?? null,
                         },
                         finished_at: null,
                       })
@@ -1089,6 +1472,7 @@ export async function executeWorkflow(
                       paused: true,
                       conversationId: conversation.id,
                       resumeNodeId,
+                      pause,
                     };
                   }
                 }
@@ -1124,6 +1508,43 @@ export async function executeWorkflow(
           ?.condition;
         allowOutgoing = conditionResult === true;
       }
+      // Classify runs only the branch of the chosen category
+      const isClassifyNode =
+        node.data.type === "action" &&
+        isAiAction(node.data.config?.actionType as string | undefined, "classify");
+      if (isClassifyNode && allowOutgoing) {
+        const handle =
+          (result.data as { data?: { handle?: string } } | undefined)?.data
+            ?.handle ?? AI_FALLBACK_HANDLE;
+        const branches = splitCategoryEdges(edges, nodeId, handle);
+        for (const edge of branches.taken) {
+          markEdgeResult(edge.target, "satisfied");
+        }
+        for (const edge of branches.skipped) {
+          markEdgeResult(edge.target, "blocked");
+        }
+        continue;
+      }
+      // For Each already ran its body: continue down the "done" path
+      const isForEachNode =
+        node.data.type === "action" &&
+        node.data.config?.actionType === "For Each";
+      if (isForEachNode) {
+        const status = allowOutgoing ? "satisfied" : "blocked";
+        const bodyIds = new Set(collectLoopBody(edges, nodeId).nodeIds);
+        for (const bodyId of bodyIds) {
+          resolvedNodes.add(bodyId);
+        }
+        for (const edge of splitForEachEdges(edges, nodeId).done) {
+          markEdgeResult(edge.target, status);
+        }
+        for (const edge of edges) {
+          if (bodyIds.has(edge.source) && !bodyIds.has(edge.target)) {
+            markEdgeResult(edge.target, status);
+          }
+        }
+        continue;
+      }
       for (const next of nextNodes) {
         markEdgeResult(next, allowOutgoing ? "satisfied" : "blocked");
       }
@@ -1132,6 +1553,32 @@ export async function executeWorkflow(
     const finalSuccess = Object.values(results).every((r) => r.success);
     const duration = Date.now() - workflowStartTime;
 
+    if (pendingDelay) {
+      const pause: WorkflowPause = { ...pendingDelay, variables: { ...variables } };
+      const supabase = getSupabaseAdmin();
+      if (supabase && executionId) {
+        await supabase
+          .from("workflow_runs")
+          .update({
+            status: "waiting",
+            output: {
+              status: "waiting",
+              resumeAt: pause.resumeAt,
+              resumeNodeIds: pause.resumeNodeIds,
+            },
+            finished_at: null,
+          })
+          .eq("id", executionId);
+      }
+      return {
+        success: finalSuccess,
+        results,
+        outputs,
+        paused: true,
+        pause,
+      };
+    }
+
     console.log("[Workflow Executor] Workflow execution completed:", {
       success: finalSuccess,
       resultCount: Object.keys(results).length,
@@ -1139,7 +1586,7 @@ export async function executeWorkflow(
     });
 
     // Update execution record if we have an executionId
-    if (executionId) {
+    if (executionId && !input.parentRun) {
       try {
         await triggerStep({
           triggerData: {},
@@ -1164,6 +1611,7 @@ export async function executeWorkflow(
       success: finalSuccess,
       results,
       outputs,
+      variables,
     };
   } catch (error) {
     console.error(
@@ -1174,7 +1622,7 @@ export async function executeWorkflow(
     const errorMessage = await getErrorMessageAsync(error);
 
     // Update execution record with error if we have an executionId
-    if (executionId) {
+    if (executionId && !input.parentRun) {
       try {
         await triggerStep({
           triggerData: {},
@@ -1194,6 +1642,7 @@ export async function executeWorkflow(
       success: false,
       results,
       outputs,
+      variables,
       error: errorMessage,
     };
   }
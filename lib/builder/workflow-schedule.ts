@@ -2,6 +2,7 @@ import "server-only";
 
 import { Client as QStashClient } from "@upstash/qstash";
 import { getSupabaseAdmin } from "@/lib/supabase";
+import { getWorkspaceHeaders } from "@/lib/workspace-context";
 
 type ScheduleConfig = {
   workflowId: string;
@@ -48,7 +49,10 @@ export async function syncWorkflowSchedule(config: ScheduleConfig) {
       input: { trigger: "schedule" },
     },
     cron: config.cron,
-    headers: config.secret ? { "x-workflow-secret": config.secret } : undefined,
+    headers: {
+      ...(await getWorkspaceHeaders()),
+      ...(config.secret ? { "x-workflow-secret": config.secret } : {}),
+    },
     retries: 3,
     ...(config.timezone ? { timezone: config.timezone } : {}),
   });
@@ -0,0 +1,84 @@
+import "server-only";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { generateJSON } from "@/lib/ai";
+import {
+  buildIntentClassifierPrompt,
+  findKeywordMatch,
+  parseTriggerDefinition,
+  resolveIntentClassification,
+  type KeywordRule,
+  type WorkflowTriggerDefinition,
+} from "@/lib/business/workflow";
+import type { WorkflowNode } from "./workflow-store";
+
+export type WorkflowTriggerMatch =
+  | { workflowId: string; kind: "keywords"; rule: KeywordRule; priority: number }
+  | { workflowId: string; kind: "intent"; confidence: number; reason?: string };
+
+/**
+ * Gatilhos de mensagem (palavras-chave e intenção) dos fluxos publicados.
+ * Só a versão publicada mais recente de cada fluxo conta.
+ */
+export async function loadTriggerDefinitions(
+  supabase: SupabaseClient
+): Promise<WorkflowTriggerDefinition[]> {
+  const { data } = await supabase
+    .from("workflow_versions")
+    .select("workflow_id, nodes, published_at")
+    .eq("status", "published")
+    .order("published_at", { ascending: false });
+
+  const seen = new Set<string>();
+  const definitions: WorkflowTriggerDefinition[] = [];
+  for (const version of (data || []) as Array<{ workflow_id?: string; nodes?: WorkflowNode[] }>) {
+    if (!version?.workflow_id || !version?.nodes || seen.has(version.workflow_id)) continue;
+    seen.add(version.workflow_id);
+
+    const triggerNode = version.nodes.find((node) => node?.data?.type === "trigger");
+    const definition = parseTriggerDefinition(
+      version.workflow_id,
+      triggerNode?.data?.config as Record<string, unknown> | undefined
+    );
+    if (definition) definitions.push(definition);
+  }
+  return definitions;
+}
+
+/**
+ * Classifica a mensagem entre os gatilhos de intenção (uma chamada ao LLM).
+ * Best-effort: sem chave de IA ou com resposta inválida, nenhum fluxo dispara.
+ */
+export async function classifyIntentTrigger(
+  definitions: WorkflowTriggerDefinition[],
+  message: string
+): Promise<WorkflowTriggerMatch | null> {
+  if (!message.trim() || !definitions.some((d) => d.kind === "intent")) {
+    return null;
+  }
+
+  try {
+    const { system, prompt } = buildIntentClassifierPrompt(message, definitions);
+    const answer = await generateJSON({ system, prompt, temperature: 0, maxOutputTokens: 200 });
+    const match = resolveIntentClassification(answer, definitions);
+    return match ? { kind: "intent", ...match } : null;
+  } catch (error) {
+    console.warn("[WorkflowTriggers] Falha ao classificar intenção:", error);
+    return null;
+  }
+}
+
+/**
+ * Fluxo que deve disparar para a mensagem: palavras-chave primeiro (prioridade,
+ * depois o modo mais específico); intenção só quando nenhuma palavra-chave casou.
+ */
+export async function findMatchingWorkflow(
+  definitions: WorkflowTriggerDefinition[],
+  message: string
+): Promise<WorkflowTriggerMatch | null> {
+  const keywordMatch = findKeywordMatch(definitions, message);
+  if (keywordMatch) {
+    return { kind: "keywords", ...keywordMatch };
+  }
+  return classifyIntentTrigger(definitions, message);
+}
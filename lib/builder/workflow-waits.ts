@@ -0,0 +1,151 @@
+import "server-only";
+
+import { Client as WorkflowClient, type WorkflowContext } from "@upstash/workflow";
+import { getSupabaseAdmin } from "@/lib/supabase";
+import { getWorkspaceHeaders } from "@/lib/workspace-context";
+import { settleConversation } from "./workflow-conversations";
+import {
+  executeWorkflow,
+  type WorkflowPause,
+} from "./workflow-executor.workflow";
+import type { WorkflowEdge, WorkflowNode } from "./workflow-store";
+
+type DurableExecutionParams = {
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  triggerInput: Record<string, unknown>;
+  executionId: string;
+  workflowId: string;
+  startNodeIds?: string[];
+  initialVariables?: Record<string, unknown>;
+  /** Pause left by a run outside Upstash (e.g. the builder webhook) */
+  pause?: WorkflowPause;
+};
+
+type Execution = Awaited<ReturnType<typeof executeWorkflow>>;
+
+/**
+ * Sleeps through the pause. Returns where to continue, or null when there is
+ * nothing left to run (reply arrived before the timeout, or no "no reply" path).
+ */
+async function waitForPause(
+  context: WorkflowContext<unknown>,
+  pause: WorkflowPause,
+  segment: number,
+  executionId: string
+): Promise<{ startNodeIds: string[]; variables: Record<string, unknown> } | null> {
+  if (pause.kind === "delay") {
+    await context.sleepUntil(`delay-${segment}`, new Date(pause.resumeAt));
+    return { startNodeIds: pause.resumeNodeIds, variables: pause.variables };
+  }
+
+  await context.sleepUntil(`reply-timeout-${segment}`, new Date(pause.timeoutAt));
+  const expired = await context.run(`reply-timeout-expire-${segment}`, async () => {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return null;
+    const conversation = await settleConversation(
+      supabase,
+      pause.conversationId,
+      "timed_out"
+    );
+    // Nothing else to run: close the run that was left waiting
+    if (!conversation || pause.timeoutNodeIds.length === 0) {
+      await supabase
+        .from("workflow_runs")
+        .update({
+          status: "success",
+          output: {
+            status: conversation ? "timed_out" : "replied",
+            conversationId: pause.conversationId,
+          },
+          finished_at: new Date().toISOString(),
+        })
+        .eq("id", executionId);
+    }
+    return conversation ? { variables: conversation.variables ?? {} } : null;
+  });
+
+  if (!expired || pause.timeoutNodeIds.length === 0) return null;
+  return { startNodeIds: pause.timeoutNodeIds, variables: expired.variables };
+}
+
+/**
+ * Runs the workflow inside an Upstash Workflow route, sleeping through Delay
+ * nodes and Ask Question reply timeouts. Each segment after a pause continues
+ * the same execution (same run and logs).
+ */
+export async function runWorkflowWithWaits(
+  context: WorkflowContext<unknown>,
+  params: DurableExecutionParams
+): Promise<Execution | null> {
+  const { workflowId, executionId } = params;
+  let startNodeIds = params.startNodeIds;
+  let variables = params.initialVariables;
+  let pause = params.pause ?? null;
+  let execution: Execution | null = null;
+
+  for (let segment = 0; ; segment++) {
+    if (pause) {
+      const next = await waitForPause(context, pause, segment, executionId);
+      if (!next) return execution;
+      startNodeIds = next.startNodeIds;
+      variables = next.variables;
+    }
+
+    const stepName = segment === 0
+      ? `execute-workflow-${workflowId}`
+      : `execute-workflow-${workflowId}-${segment}`;
+    execution = await context.run(stepName, () =>
+      executeWorkflow({
+        nodes: params.nodes,
+        edges: params.edges,
+        triggerInput: params.triggerInput,
+        executionId,
+        workflowId,
+        startNodeIds,
+        initialVariables: variables,
+      })
+    );
+
+    pause = execution.pause ?? null;
+    if (!pause) return execution;
+  }
+}
+
+/**
+ * Hands a pause over to the Upstash execute route, for executions that ran
+ * outside it (the builder webhook runs the executor inline). The continuation
+ * reuses `executionId`, so the paused run and its logs carry on.
+ */
+export async function scheduleWorkflowContinuation(params: {
+  workflowId: string;
+  executionId: string;
+  input: Record<string, unknown>;
+  pause: WorkflowPause;
+  origin: string;
+}): Promise<void> {
+  const baseUrl =
+    process.env.NEXT_PUBLIC_APP_URL ||
+    (process.env.VERCEL_PROJECT_PRODUCTION_URL &&
+      `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`) ||
+    (process.env.VERCEL_URL && `https://${process.env.VERCEL_URL}`) ||
+    params.origin;
+
+  const headers: Record<string, string> = await getWorkspaceHeaders();
+  const bypassSecret = process.env.VERCEL_AUTOMATION_BYPASS_SECRET;
+  if (bypassSecret) {
+    headers["x-vercel-protection-bypass"] = bypassSecret;
+  }
+
+  const workflowClient = new WorkflowClient({ token: process.env.QSTASH_TOKEN! });
+  await workflowClient.trigger({
+    url: `${baseUrl}/api/builder/workflow/${params.workflowId}/execute`,
+    body: {
+      workflowId: params.workflowId,
+      executionId: params.executionId,
+      input: params.input,
+      pause: params.pause,
+    },
+    headers,
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * Access Control Business Logic
+ *
+ * @module lib/business/access
+ */
+
+export {
+  USER_ROLES,
+  USER_ROLE_LABELS,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  hasPermission,
+  canManageRole,
+  resolveRoutePermission,
+  type Permission,
+} from './permissions'
+
+export {
+  canAccessWorkspace,
+  resolveSessionWorkspace,
+  type SessionWorkspaceInput,
+} from './workspaces'
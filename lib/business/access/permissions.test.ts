@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { canManageRole, hasPermission, resolveRoutePermission } from './permissions'
+
+describe('hasPermission', () => {
+  it('analista vê relatórios mas não dispara campanhas', () => {
+    expect(hasPermission('analyst', 'reports:view')).toBe(true)
+    expect(hasPermission('analyst', 'campaigns:dispatch')).toBe(false)
+  })
+
+  it('atendente só acessa as próprias conversas', () => {
+    expect(hasPermission('agent', 'inbox:reply')).toBe(true)
+    expect(hasPermission('agent', 'inbox:view_all')).toBe(false)
+  })
+})
+
+describe('canManageRole', () => {
+  it('admin não gerencia o proprietário', () => {
+    expect(canManageRole('admin', 'owner')).toBe(false)
+    expect(canManageRole('admin', 'agent')).toBe(true)
+    expect(canManageRole('owner', 'owner')).toBe(true)
+    expect(canManageRole('campaign_manager', 'agent')).toBe(false)
+  })
+})
+
+describe('resolveRoutePermission', () => {
+  it('separa leitura e escrita pelo método', () => {
+    expect(resolveRoutePermission('/api/campaigns', 'GET')).toBe('campaigns:view')
+    expect(resolveRoutePermission('/api/campaigns', 'POST')).toBe('campaigns:manage')
+    expect(resolveRoutePermission('/api/campaign/c1/pause', 'POST')).toBe('campaigns:dispatch')
+    expect(resolveRoutePermission('/api/campaigns/c1/resend-skipped', 'POST')).toBe('campaigns:dispatch')
+    expect(resolveRoutePermission('/api/conversions', 'GET')).toBe('reports:view')
+    expect(resolveRoutePermission('/api/conversions', 'POST')).toBe('campaigns:manage')
+  })
+
+  it('trata POSTs de consulta como leitura', () => {
+    expect(resolveRoutePermission('/api/contacts/segment-count', 'POST')).toBe('contacts:view')
+    expect(resolveRoutePermission('/api/inbox/conversations/abc/read', 'POST')).toBe('inbox:view')
+  })
+
+  it('libera rotas sem regra e leituras de configurações', () => {
+    expect(resolveRoutePermission('/api/workspaces/current', 'GET')).toBeNull()
+    expect(resolveRoutePermission('/api/settings/credentials', 'GET')).toBeNull()
+    expect(resolveRoutePermission('/api/settings/credentials', 'POST')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/push/subscribe', 'POST')).toBeNull()
+  })
+
+  it('trocar de workspace exige workspaces:manage', () => {
+    expect(resolveRoutePermission('/api/workspaces/current', 'PUT')).toBe('workspaces:manage')
+    expect(hasPermission('agent', 'workspaces:manage')).toBe(false)
+  })
+
+  it('restringe o histórico de auditoria', () => {
+    expect(resolveRoutePermission('/api/audit-log/export', 'GET')).toBe('audit:view')
+    expect(hasPermission('admin', 'audit:view')).toBe(true)
+    expect(hasPermission('campaign_manager', 'audit:view')).toBe(false)
+  })
+
+  it('filas do inbox são geridas por quem gerencia usuários', () => {
+    expect(resolveRoutePermission('/api/inbox/queues', 'GET')).toBe('inbox:view')
+    expect(resolveRoutePermission('/api/inbox/queues/q1', 'PATCH')).toBe('users:manage')
+    expect(resolveRoutePermission('/api/inbox/conversations/c1', 'PATCH')).toBe('inbox:reply')
+  })
+
+  it('relatório de SLA exige reports:view', () => {
+    expect(resolveRoutePermission('/api/inbox/sla/report', 'GET')).toBe('reports:view')
+    expect(resolveRoutePermission('/api/settings/inbox-sla', 'POST')).toBe('settings:manage')
+  })
+
+  it('webhooks de saída e conectores de CRM exigem settings:manage inclusive para leitura', () => {
+    expect(resolveRoutePermission('/api/settings/webhooks', 'GET')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/settings/webhooks/deliveries', 'GET')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/settings/webhooks-legacy', 'GET')).toBeNull()
+    expect(resolveRoutePermission('/api/settings/inbound-webhooks/abc/events', 'GET')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/settings/crm', 'GET')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/settings/crm/logs', 'GET')).toBe('settings:manage')
+  })
+
+  it('flows exigem templates:manage e envio exige campaigns:dispatch', () => {
+    expect(resolveRoutePermission('/api/flows', 'GET')).toBe('templates:view')
+    expect(resolveRoutePermission('/api/flows', 'POST')).toBe('templates:manage')
+    expect(resolveRoutePermission('/api/flows/f1', 'PATCH')).toBe('templates:manage')
+    expect(resolveRoutePermission('/api/flows/f1/meta/publish', 'POST')).toBe('templates:manage')
+    expect(resolveRoutePermission('/api/flows/send', 'POST')).toBe('campaigns:dispatch')
+    expect(resolveRoutePermission('/api/flows/endpoint/keys', 'POST')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/flows/endpoint/keys', 'DELETE')).toBe('settings:manage')
+    expect(hasPermission('agent', 'templates:manage')).toBe(false)
+    expect(hasPermission('analyst', 'campaigns:dispatch')).toBe(false)
+  })
+
+  it('IA e memórias exigem automation:manage para escrita', () => {
+    expect(resolveRoutePermission('/api/ai/generate-utility-templates', 'POST')).toBe('automation:manage')
+    expect(resolveRoutePermission('/api/ai/respond', 'POST')).toBe('automation:manage')
+    expect(resolveRoutePermission('/api/mem0/memories/5511999999999', 'GET')).toBeNull()
+    expect(resolveRoutePermission('/api/mem0/memories/5511999999999/summary', 'POST')).toBe('automation:manage')
+    expect(resolveRoutePermission('/api/mem0/memory/m1', 'DELETE')).toBe('automation:manage')
+  })
+
+  it('push manual e debug exigem settings:manage', () => {
+    expect(resolveRoutePermission('/api/push/send', 'POST')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/push/unsubscribe', 'POST')).toBeNull()
+    expect(resolveRoutePermission('/api/debug/webhook/test', 'POST')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/debug/ai-logs', 'GET')).toBe('settings:manage')
+  })
+
+  it('nega escritas em rotas sem regra', () => {
+    expect(resolveRoutePermission('/api/rota-nova', 'POST')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/rota-nova', 'DELETE')).toBe('settings:manage')
+    expect(resolveRoutePermission('/api/rota-nova', 'GET')).toBeNull()
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Access Control Module
+ *
+ * Roles, permissions and the route → permission map used by the proxy and
+ * `requireSessionOrApiKey`. API keys are not role-bound: environment keys have
+ * full access and workspace keys are limited to their workspace.
+ */
+
+import type { UserRole } from '@/types'
+
+export const USER_ROLES: UserRole[] = ['owner', 'admin', 'campaign_manager', 'agent', 'analyst']
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Proprietário',
+  admin: 'Administrador',
+  campaign_manager: 'Gestor de campanhas',
+  agent: 'Atendente',
+  analyst: 'Analista (somente leitura)',
+}
+
+export const PERMISSIONS = [
+  'reports:view',
+  'campaigns:view',
+  'campaigns:manage',
+  'campaigns:dispatch',
+  'contacts:view',
+  'contacts:manage',
+  'templates:view',
+  'templates:manage',
+  'inbox:view',
+  'inbox:reply',
+  /** Without it, only conversations assigned to the user are visible */
+  'inbox:view_all',
+  'automation:manage',
+  'settings:manage',
+  'users:manage',
+  'audit:view',
+  'workspaces:manage',
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS,
+  campaign_manager: [
+    'reports:view',
+    'campaigns:view',
+    'campaigns:manage',
+    'campaigns:dispatch',
+    'contacts:view',
+    'contacts:manage',
+    'templates:view',
+    'templates:manage',
+    'inbox:view',
+    'inbox:reply',
+    'inbox:view_all',
+    'automation:manage',
+  ],
+  agent: ['inbox:view', 'inbox:reply', 'contacts:view'],
+  analyst: [
+    'reports:view',
+    'campaigns:view',
+    'contacts:view',
+    'templates:view',
+    'inbox:view',
+    'inbox:view_all',
+  ],
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false
+}
+
+/**
+ * Owners manage everyone; admins manage every role except owner.
+ */
+export function canManageRole(actorRole: UserRole, targetRole: UserRole): boolean {
+  if (actorRole === 'owner') return true
+  if (actorRole === 'admin') return targetRole !== 'owner'
+  return false
+}
+
+interface RoutePermissionRule {
+  pattern: RegExp
+  /** GET/HEAD (null = any signed-in user) */
+  view: Permission | null
+  /** POST/PUT/PATCH/DELETE (null = any signed-in user) */
+  manage: Permission | null
+}
+
+// First match wins: specific routes before their prefixes.
+const ROUTE_PERMISSION_RULES: RoutePermissionRule[] = [
+  // Leitura lista só os workspaces do usuário; trocar de workspace exige workspaces:manage
+  { pattern: /^\/api\/workspaces\/current$/, view: null, manage: 'workspaces:manage' },
+  { pattern: /^\/api\/workspaces(\/|$)/, view: 'workspaces:manage', manage: 'workspaces:manage' },
+  { pattern: /^\/api\/users(\/|$)/, view: 'users:manage', manage: 'users:manage' },
+  { pattern: /^\/api\/audit-log(\/|$)/, view: 'audit:view', manage: 'audit:view' },
+  { pattern: /^\/api\/campaign\//, view: 'campaigns:view', manage: 'campaigns:dispatch' },
+  { pattern: /^\/api\/campaigns\/[^/]+\/(resend-skipped|cancel-schedule)$/, view: 'campaigns:view', manage: 'campaigns:dispatch' },
+  { pattern: /^\/api\/campaigns(\/|$)/, view: 'campaigns:view', manage: 'campaigns:manage' },
+  { pattern: /^\/api\/messages\/send-test$/, view: 'campaigns:manage', manage: 'campaigns:manage' },
+  { pattern: /^\/api\/contacts\/(segment|segment-count)$/, view: 'contacts:view', manage: 'contacts:view' },
+  { pattern: /^\/api\/(contacts|custom-fields|segments|phone-suppressions|lead-forms|submissions)(\/|$)/, view: 'contacts:view', manage: 'contacts:manage' },
+  { pattern: /^\/api\/(templates|template-projects)(\/|$)/, view: 'templates:view', manage: 'templates:manage' },
+  { pattern: /^\/api\/flows\/send$/, view: 'campaigns:view', manage: 'campaigns:dispatch' },
+  // Chaves do endpoint de Flows (o data_exchange em si é público, ver lib/auth.ts)
+  { pattern: /^\/api\/flows\/endpoint(\/|$)/, view: 'settings:manage', manage: 'settings:manage' },
+  { pattern: /^\/api\/flows(\/|$)/, view: 'templates:view', manage: 'templates:manage' },
+  { pattern: /^\/api\/inbox\/conversations\/[^/]+\/read$/, view: 'inbox:view', manage: 'inbox:view' },
+  { pattern: /^\/api\/inbox\/queues(\/|$)/, view: 'inbox:view', manage: 'users:manage' },
+  { pattern: /^\/api\/inbox\/sla(\/|$)/, view: 'reports:view', manage: 'reports:view' },
+  { pattern: /^\/api\/inbox(\/|$)/, view: 'inbox:view', manage: 'inbox:reply' },
+  { pattern: /^\/api\/dashboard(\/|$)/, view: 'reports:view', manage: 'reports:view' },
+  { pattern: /^\/api\/conversions(\/|$)/, view: 'reports:view', manage: 'campaigns:manage' },
+  { pattern: /^\/api\/(builder|ai-agents|ai|mem0)(\/|$)/, view: null, manage: 'automation:manage' },
+  { pattern: /^\/api\/push\/(subscribe|unsubscribe)$/, view: null, manage: null },
+  { pattern: /^\/api\/push\/send$/, view: 'settings:manage', manage: 'settings:manage' },
+  { pattern: /^\/api\/debug(\/|$)/, view: 'settings:manage', manage: 'settings:manage' },
+  // Webhooks (saída e entrada) e conectores de CRM expõem segredos: leitura também exige settings:manage
+  { pattern: /^\/api\/settings\/(webhooks|inbound-webhooks|crm)(\/|$)/, view: 'settings:manage', manage: 'settings:manage' },
+  {
+    pattern: /^\/api\/(settings|account|phone-numbers|meta|integrations|updates|attendants|webhooks|vercel)(\/|$)/,
+    view: null,
+    manage: 'settings:manage',
+  },
+]
+
+/** Required by API writes no rule covers: new routes start closed */
+const UNMATCHED_WRITE_PERMISSION: Permission = 'settings:manage'
+
+/**
+ * Permission required for a dashboard API call (null = any signed-in user).
+ * Reads without a rule are open; writes without a rule need
+ * `UNMATCHED_WRITE_PERMISSION`.
+ */
+export function resolveRoutePermission(pathname: string, method: string): Permission | null {
+  const verb = method.toUpperCase()
+  const isRead = verb === 'GET' || verb === 'HEAD'
+
+  const rule = ROUTE_PERMISSION_RULES.find((r) => r.pattern.test(pathname))
+  if (!rule) return !isRead && pathname.startsWith('/api/') ? UNMATCHED_WRITE_PERMISSION : null
+
+  return isRead ? rule.view : rule.manage
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { canAccessWorkspace, resolveSessionWorkspace } from './workspaces'
+
+describe('canAccessWorkspace', () => {
+  it('quem gerencia workspaces acessa todos', () => {
+    expect(canAccessWorkspace('admin', 'ws_acme', [])).toBe(true)
+  })
+
+  it('demais papéis só acessam workspaces dos quais são membros', () => {
+    expect(canAccessWorkspace('agent', 'ws_acme', ['ws_default'])).toBe(false)
+    expect(canAccessWorkspace('agent', 'ws_acme', ['ws_acme'])).toBe(true)
+  })
+})
+
+describe('resolveSessionWorkspace', () => {
+  const base = { defaultWorkspaceId: 'ws_default' }
+
+  it('mantém o workspace selecionado quando o usuário tem acesso', () => {
+    expect(resolveSessionWorkspace({ ...base, role: 'owner', requestedId: 'ws_acme', memberWorkspaceIds: [] })).toBe('ws_acme')
+    expect(
+      resolveSessionWorkspace({ ...base, role: 'analyst', requestedId: 'ws_acme', memberWorkspaceIds: ['ws_x', 'ws_acme'] })
+    ).toBe('ws_acme')
+  })
+
+  it('ignora seleção de workspace alheio e usa a primeira associação', () => {
+    expect(
+      resolveSessionWorkspace({ ...base, role: 'agent', requestedId: 'ws_outro', memberWorkspaceIds: ['ws_acme'] })
+    ).toBe('ws_acme')
+    expect(resolveSessionWorkspace({ ...base, role: 'admin', requestedId: null, memberWorkspaceIds: [] })).toBe('ws_default')
+  })
+
+  it('retorna null para quem não é membro de nenhum workspace', () => {
+    expect(resolveSessionWorkspace({ ...base, role: 'agent', requestedId: 'ws_default', memberWorkspaceIds: [] })).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+/**
+ * Workspace Access Module
+ *
+ * Which workspaces a signed-in user may work in. Users with
+ * `workspaces:manage` access every workspace; everyone else only the ones
+ * they are a member of (`workspace_members`).
+ */
+
+import type { UserRole } from '@/types'
+import { hasPermission } from './permissions'
+
+export interface SessionWorkspaceInput {
+  role: UserRole
+  /** Workspace selected in the dashboard (cookie), if any */
+  requestedId: string | null
+  /** Workspaces the user is a member of, oldest membership first */
+  memberWorkspaceIds: string[]
+  defaultWorkspaceId: string
+}
+
+export function canAccessWorkspace(role: UserRole, workspaceId: string, memberWorkspaceIds: string[]): boolean {
+  return hasPermission(role, 'workspaces:manage') || memberWorkspaceIds.includes(workspaceId)
+}
+
+/**
+ * Workspace of a session request: the selected one when the user may access
+ * it, else the default (managers) or their first membership. null = the user
+ * belongs to no workspace.
+ */
+export function resolveSessionWorkspace(input: SessionWorkspaceInput): string | null {
+  const { role, requestedId, memberWorkspaceIds, defaultWorkspaceId } = input
+  if (requestedId && canAccessWorkspace(role, requestedId, memberWorkspaceIds)) return requestedId
+  if (hasPermission(role, 'workspaces:manage')) return defaultWorkspaceId
+  return memberWorkspaceIds[0] ?? null
+}
@@ -79,3 +79,27 @@ export {
   getPresetOptions,
   presetRequiresOptions,
 } from './presets'
+
+// =============================================================================
+// SEGMENTS
+// =============================================================================
+
+export {
+  // Types
+  type SegmentValidationResult,
+  type LegacySegmentFilters,
+  // Constants
+  SEGMENT_RULES,
+  SEGMENT_FIELD_LABELS,
+  SEGMENT_OPERATOR_LABELS,
+  SEGMENT_FIELD_OPERATORS,
+  SEGMENT_ENGAGEMENT_LABELS,
+  // Functions
+  createEmptySegment,
+  createSegmentCondition,
+  createEngagementCondition,
+  countSegmentConditions,
+  isSegmentEmpty,
+  validateSegment,
+  legacyFiltersToSegment,
+} from './segments'
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import {
+  countSegmentConditions,
+  createEmptySegment,
+  createSegmentCondition,
+  isSegmentEmpty,
+  legacyFiltersToSegment,
+  validateSegment,
+} from './segments'
+import type { SegmentGroup } from '@/types'
+
+const vipInSp: SegmentGroup = {
+  type: 'group',
+  combinator: 'and',
+  rules: [
+    { type: 'condition', field: 'tags', operator: 'contains', value: 'vip' },
+    {
+      type: 'group',
+      combinator: 'or',
+      rules: [
+        { type: 'condition', field: 'uf', operator: 'equals', value: 'SP' },
+        { type: 'engagement', event: 'replied_inbox', withinDays: 30 },
+      ],
+    },
+  ],
+}
+
+describe('countSegmentConditions / isSegmentEmpty', () => {
+  it('conta condições em grupos aninhados', () => {
+    expect(countSegmentConditions(vipInSp)).toBe(3)
+    expect(isSegmentEmpty(vipInSp)).toBe(false)
+  })
+
+  it('trata grupos vazios como "todos os contatos"', () => {
+    expect(isSegmentEmpty(createEmptySegment())).toBe(true)
+    expect(isSegmentEmpty({ type: 'group', combinator: 'or', rules: [createEmptySegment()] })).toBe(true)
+    expect(isSegmentEmpty(null)).toBe(true)
+  })
+})
+
+describe('validateSegment', () => {
+  it('aceita um segmento bem formado', () => {
+    expect(validateSegment(vipInSp)).toEqual({ valid: true, errors: [] })
+  })
+
+  it('rejeita operador que não se aplica ao campo', () => {
+    const result = validateSegment({
+      type: 'group',
+      combinator: 'and',
+      rules: [{ type: 'condition', field: 'created_at', operator: 'contains', value: '2026' }],
+    })
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]).toContain('Condição 1')
+  })
+
+  it('exige valores coerentes com o operador', () => {
+    const result = validateSegment({
+      type: 'group',
+      combinator: 'and',
+      rules: [
+        { type: 'condition', field: 'custom_field', operator: 'greater_than', value: 'abc' },
+        { type: 'condition', field: 'created_at', operator: 'after', value: 'ontem' },
+        { ...createSegmentCondition('status'), operator: 'in_list', value: [] },
+        { type: 'condition', field: 'email', operator: 'exists' },
+      ],
+    })
+    expect(result.errors).toEqual([
+      'Condição 1: selecione o campo personalizado',
+      'Condição 1: informe um número',
+      'Condição 2: data inválida (use AAAA-MM-DD)',
+      'Condição 3: informe ao menos um valor',
+    ])
+  })
+
+  it('limita profundidade e período de engajamento', () => {
+    const deep: SegmentGroup = {
+      type: 'group',
+      combinator: 'and',
+      rules: [{ type: 'group', combinator: 'and', rules: [{ type: 'group', combinator: 'and', rules: [{ type: 'group', combinator: 'and', rules: [createEmptySegment()] }] }] }],
+    }
+    expect(validateSegment(deep).valid).toBe(false)
+
+    const result = validateSegment({
+      type: 'group',
+      combinator: 'and',
+      rules: [{ type: 'engagement', event: 'read_last_campaign', withinDays: 0 }],
+    })
+    expect(result.valid).toBe(false)
+  })
+})
+
+describe('legacyFiltersToSegment', () => {
+  it('converte tags, países e UFs preservando o combinador', () => {
+    expect(legacyFiltersToSegment({ tags: ['vip'], countries: ['pt', 'XX'], states: ['sp'], combine: 'and' })).toEqual({
+      type: 'group',
+      combinator: 'and',
+      rules: [
+        { type: 'condition', field: 'tags', operator: 'contains', value: 'vip' },
+        { type: 'condition', field: 'ddi', operator: 'equals', value: '351' },
+        { type: 'condition', field: 'uf', operator: 'equals', value: 'SP' },
+      ],
+    })
+  })
+
+  it('usa OU por padrão', () => {
+    expect(legacyFiltersToSegment({}).combinator).toBe('or')
+  })
+})
@@ -0,0 +1,325 @@
+/**
+ * Audience Segments
+ *
+ * Pure helpers for the boolean segment builder (nested AND/OR groups).
+ * Segments are evaluated in the database (see `segment_rule_sql` in the migrations);
+ * this module only defines the vocabulary, validation and conversions.
+ *
+ * @module lib/business/audience/segments
+ */
+
+import { getCountryCallingCode, type CountryCode } from 'libphonenumber-js'
+import type {
+  SegmentCondition,
+  SegmentEngagementCondition,
+  SegmentEngagementEvent,
+  SegmentField,
+  SegmentGroup,
+  SegmentOperator,
+  SegmentRule,
+} from '@/types'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Structural limits (mirrored by the SQL compiler).
+ */
+export const SEGMENT_RULES = {
+  /** Maximum nesting depth of groups (root = 1) */
+  MAX_DEPTH: 4,
+  /** Maximum number of leaf conditions in a segment */
+  MAX_CONDITIONS: 50,
+  /** Maximum number of values in an in_list / not_in_list condition */
+  MAX_LIST_VALUES: 500,
+  /** Maximum lookback for engagement conditions (days) */
+  MAX_WITHIN_DAYS: 365,
+} as const
+
+/**
+ * Field labels (Portuguese).
+ */
+export const SEGMENT_FIELD_LABELS: Record<SegmentField, string> = {
+  name: 'Nome',
+  email: 'Email',
+  phone: 'Telefone',
+  status: 'Status',
+  tags: 'Tags',
+  created_at: 'Data de criação',
+  uf: 'UF',
+  ddi: 'DDI',
+  lifecycle_stage: 'Estágio',
+  engagement_score: 'Score de engajamento',
+  custom_field: 'Campo personalizado',
+}
+
+/**
+ * Operator labels (Portuguese).
+ */
+export const SEGMENT_OPERATOR_LABELS: Record<SegmentOperator, string> = {
+  equals: 'é igual a',
+  not_equals: 'é diferente de',
+  contains: 'contém',
+  not_contains: 'não contém',
+  greater_than: 'maior que',
+  less_than: 'menor que',
+  before: 'antes de',
+  after: 'depois de',
+  in_list: 'está na lista',
+  not_in_list: 'não está na lista',
+  exists: 'está preenchido',
+  not_exists: 'está vazio',
+}
+
+/**
+ * Operators allowed per field.
+ * Tags: contains = tem a tag, in_list = tem alguma das tags, exists = tem alguma tag.
+ */
+export const SEGMENT_FIELD_OPERATORS: Record<SegmentField, SegmentOperator[]> = {
+  name: ['equals', 'not_equals', 'contains', 'not_contains', 'exists', 'not_exists'],
+  email: ['equals', 'not_equals', 'contains', 'not_contains', 'exists', 'not_exists'],
+  phone: ['equals', 'contains', 'not_contains'],
+  status: ['equals', 'not_equals', 'in_list', 'not_in_list'],
+  tags: ['contains', 'not_contains', 'in_list', 'not_in_list', 'exists', 'not_exists'],
+  created_at: ['before', 'after'],
+  uf: ['equals', 'not_equals', 'in_list', 'not_in_list'],
+  ddi: ['equals', 'not_equals', 'in_list', 'not_in_list'],
+  lifecycle_stage: ['equals', 'not_equals', 'in_list', 'not_in_list'],
+  engagement_score: ['greater_than', 'less_than'],
+  custom_field: [
+    'equals', 'not_equals', 'contains', 'not_contains',
+    'greater_than', 'less_than', 'before', 'after',
+    'in_list', 'not_in_list', 'exists', 'not_exists',
+  ],
+}
+
+/**
+ * Engagement event labels (Portuguese).
+ */
+export const SEGMENT_ENGAGEMENT_LABELS: Record<SegmentEngagementEvent, string> = {
+  read_last_campaign: 'Leu a última campanha',
+  replied_inbox: 'Respondeu no inbox',
+  submitted_flow: 'Enviou o Flow',
+  clicked_button: 'Clicou em botão',
+  clicked_link: 'Clicou no link da campanha',
+}
+
+const VALUELESS_OPERATORS: SegmentOperator[] = ['exists', 'not_exists']
+const LIST_OPERATORS: SegmentOperator[] = ['in_list', 'not_in_list']
+const DATE_OPERATORS: SegmentOperator[] = ['before', 'after']
+const NUMERIC_OPERATORS: SegmentOperator[] = ['greater_than', 'less_than']
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Result of segment validation.
+ */
+export interface SegmentValidationResult {
+  /** Whether the segment can be evaluated */
+  valid: boolean
+  /** Human-readable errors (Portuguese) */
+  errors: string[]
+}
+
+/**
+ * Legacy wizard filters (chips of tags, countries and states).
+ */
+export interface LegacySegmentFilters {
+  tags?: string[]
+  /** ISO country codes (e.g. 'BR') */
+  countries?: string[]
+  /** Brazilian UFs (e.g. 'SP') */
+  states?: string[]
+  combine?: 'and' | 'or'
+}
+
+// =============================================================================
+// FACTORIES
+// =============================================================================
+
+/**
+ * Creates an empty root group (matches every contact).
+ */
+export function createEmptySegment(combinator: SegmentGroup['combinator'] = 'and'): SegmentGroup {
+  return { type: 'group', combinator, rules: [] }
+}
+
+/**
+ * Creates a default condition for a field (first allowed operator).
+ */
+export function createSegmentCondition(field: SegmentField = 'tags'): SegmentCondition {
+  const operator = SEGMENT_FIELD_OPERATORS[field][0]
+  return { type: 'condition', field, operator, value: LIST_OPERATORS.includes(operator) ? [] : '' }
+}
+
+/**
+ * Creates a default engagement condition.
+ */
+export function createEngagementCondition(event: SegmentEngagementEvent = 'read_last_campaign'): SegmentEngagementCondition {
+  return { type: 'engagement', event, negate: false, withinDays: null }
+}
+
+// =============================================================================
+// INSPECTION
+// =============================================================================
+
+/**
+ * Counts leaf conditions (fields + engagement) in a segment.
+ */
+export function countSegmentConditions(rule: SegmentRule): number {
+  if (rule.type !== 'group') return 1
+  return rule.rules.reduce((acc, child) => acc + countSegmentConditions(child), 0)
+}
+
+/**
+ * Whether the segment has no conditions (i.e. matches every contact).
+ */
+export function isSegmentEmpty(segment: SegmentGroup | null | undefined): boolean {
+  return !segment || countSegmentConditions(segment) === 0
+}
+
+function getDepth(rule: SegmentRule): number {
+  if (rule.type !== 'group') return 0
+  return 1 + rule.rules.reduce((max, child) => Math.max(max, getDepth(child)), 0)
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function isIsoDate(value: unknown): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function validateCondition(condition: SegmentCondition, label: string): string[] {
+  const errors: string[] = []
+  const allowed = SEGMENT_FIELD_OPERATORS[condition.field]
+  if (!allowed) return [`${label}: campo inválido`]
+  if (!allowed.includes(condition.operator)) {
+    return [`${label}: operador "${condition.operator}" não se aplica a ${SEGMENT_FIELD_LABELS[condition.field]}`]
+  }
+
+  if (condition.field === 'custom_field' && !String(condition.key || '').trim()) {
+    errors.push(`${label}: selecione o campo personalizado`)
+  }
+
+  if (VALUELESS_OPERATORS.includes(condition.operator)) return errors
+
+  const value = condition.value
+  if (LIST_OPERATORS.includes(condition.operator)) {
+    if (!Array.isArray(value) || value.filter((v) => String(v).trim()).length === 0) {
+      errors.push(`${label}: informe ao menos um valor`)
+    } else if (value.length > SEGMENT_RULES.MAX_LIST_VALUES) {
+      errors.push(`${label}: máximo de ${SEGMENT_RULES.MAX_LIST_VALUES} valores`)
+    }
+  } else if (DATE_OPERATORS.includes(condition.operator)) {
+    if (!isIsoDate(value)) errors.push(`${label}: data inválida (use AAAA-MM-DD)`)
+  } else if (NUMERIC_OPERATORS.includes(condition.operator)) {
+    if (value === '' || value === null || value === undefined || !Number.isFinite(Number(value))) {
+      errors.push(`${label}: informe um número`)
+    }
+  } else if (Array.isArray(value) || !String(value ?? '').trim()) {
+    errors.push(`${label}: informe um valor`)
+  }
+
+  return errors
+}
+
+function validateEngagement(condition: SegmentEngagementCondition, label: string): string[] {
+  if (!SEGMENT_ENGAGEMENT_LABELS[condition.event]) return [`${label}: evento inválido`]
+
+  const within = condition.withinDays
+  if (within !== null && within !== undefined) {
+    if (!Number.isInteger(within) || within < 1 || within > SEGMENT_RULES.MAX_WITHIN_DAYS) {
+      return [`${label}: período deve ser entre 1 e ${SEGMENT_RULES.MAX_WITHIN_DAYS} dias`]
+    }
+  }
+  return []
+}
+
+/**
+ * Validates a segment definition before saving or evaluating it.
+ *
+ * @param segment - Root group
+ * @returns Validation result with all errors found
+ *
+ * @example
+ * ```typescript
+ * validateSegment({
+ *   type: 'group',
+ *   combinator: 'and',
+ *   rules: [{ type: 'condition', field: 'tags', operator: 'contains', value: 'vip' }],
+ * })
+ * // { valid: true, errors: [] }
+ * ```
+ */
+export function validateSegment(segment: SegmentGroup): SegmentValidationResult {
+  const errors: string[] = []
+
+  if (getDepth(segment) > SEGMENT_RULES.MAX_DEPTH) {
+    errors.push(`Segmento pode ter no máximo ${SEGMENT_RULES.MAX_DEPTH} níveis de grupos`)
+  }
+  if (countSegmentConditions(segment) > SEGMENT_RULES.MAX_CONDITIONS) {
+    errors.push(`Segmento pode ter no máximo ${SEGMENT_RULES.MAX_CONDITIONS} condições`)
+  }
+
+  let index = 0
+  const walk = (group: SegmentGroup) => {
+    for (const rule of group.rules) {
+      if (rule.type === 'group') {
+        walk(rule)
+        continue
+      }
+      index += 1
+      const label = `Condição ${index}`
+      errors.push(...(rule.type === 'engagement' ? validateEngagement(rule, label) : validateCondition(rule, label)))
+    }
+  }
+  walk(segment)
+
+  return { valid: errors.length === 0, errors }
+}
+
+// =============================================================================
+// CONVERSIONS
+// =============================================================================
+
+/**
+ * Converts the wizard's tag/country/state chips into a segment definition,
+ * preserving the original semantics (every chip is one condition; combine = and|or).
+ *
+ * @param filters - Legacy chip filters
+ * @returns Root group (empty when there are no filters)
+ *
+ * @example
+ * ```typescript
+ * legacyFiltersToSegment({ tags: ['vip'], states: ['SP'], combine: 'and' })
+ * // group(and): [tags contains 'vip', uf equals 'SP']
+ * ```
+ */
+export function legacyFiltersToSegment(filters: LegacySegmentFilters): SegmentGroup {
+  const rules: SegmentRule[] = []
+
+  for (const tag of filters.tags || []) {
+    rules.push({ type: 'condition', field: 'tags', operator: 'contains', value: tag })
+  }
+
+  for (const country of filters.countries || []) {
+    let ddi: string
+    try {
+      ddi = String(getCountryCallingCode(country.toUpperCase() as CountryCode))
+    } catch {
+      continue
+    }
+    rules.push({ type: 'condition', field: 'ddi', operator: 'equals', value: ddi })
+  }
+
+  for (const state of filters.states || []) {
+    rules.push({ type: 'condition', field: 'uf', operator: 'equals', value: state.toUpperCase() })
+  }
+
+  return { type: 'group', combinator: filters.combine === 'and' ? 'and' : 'or', rules }
+}
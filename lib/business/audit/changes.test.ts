@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { AUDIT_MASK, diffAuditChanges, isSensitiveAuditField } from './changes'
+
+describe('diffAuditChanges', () => {
+  it('mantém apenas os campos alterados', () => {
+    expect(
+      diffAuditChanges(
+        { name: 'Black Friday', status: 'Enviando', sent: 10 },
+        { name: 'Black Friday', status: 'Pausado', sent: 10 }
+      )
+    ).toEqual({ status: { before: 'Enviando', after: 'Pausado' } })
+  })
+
+  it('trata campos criados e removidos como null', () => {
+    expect(diffAuditChanges(null, { name: 'Novo' })).toEqual({ name: { before: null, after: 'Novo' } })
+    expect(diffAuditChanges({ name: 'Antigo' }, null)).toEqual({ name: { before: 'Antigo', after: null } })
+  })
+
+  it('compara objetos por valor', () => {
+    expect(diffAuditChanges({ tags: ['vip'] }, { tags: ['vip'] })).toBeNull()
+    expect(diffAuditChanges({ tags: ['vip'] }, { tags: ['vip', 'lead'] })).toEqual({
+      tags: { before: ['vip'], after: ['vip', 'lead'] },
+    })
+  })
+
+  it('mascara credenciais sem esconder que mudaram', () => {
+    expect(diffAuditChanges({ accessToken: 'EAAG-old' }, { accessToken: 'EAAG-new' })).toEqual({
+      accessToken: { before: AUDIT_MASK, after: AUDIT_MASK },
+    })
+    expect(diffAuditChanges({}, { api_key: 'sk-1' })).toEqual({ api_key: { before: null, after: AUDIT_MASK } })
+  })
+})
+
+describe('isSensitiveAuditField', () => {
+  it('reconhece nomes de segredos comuns', () => {
+    expect(isSensitiveAuditField('whatsapp_token')).toBe(true)
+    expect(isSensitiveAuditField('appSecret')).toBe(true)
+    expect(isSensitiveAuditField('phoneNumberId')).toBe(false)
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Audit Changes Module
+ *
+ * Before/after diff stored with each audit event. Only changed top-level
+ * fields are kept, and secret-looking fields are masked so credentials never
+ * reach the audit log.
+ */
+
+import type { AuditChanges } from '@/types'
+
+export const AUDIT_MASK = '••••••'
+
+const SENSITIVE_FIELD = /(token|secret|password|passwd|api_?key|access_?key|private_?key|credential)/i
+
+export function isSensitiveAuditField(field: string): boolean {
+  return SENSITIVE_FIELD.test(field)
+}
+
+function maskValue(field: string, value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return value ?? null
+  return isSensitiveAuditField(field) ? AUDIT_MASK : value
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a === undefined || a === null) return b === undefined || b === null
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Changed fields between two snapshots ({ field: { before, after } }).
+ * Returns null when nothing changed.
+ */
+export function diffAuditChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges | null {
+  const prev = before ?? {}
+  const next = after ?? {}
+  const fields = new Set([...Object.keys(prev), ...Object.keys(next)])
+  const changes: AuditChanges = {}
+
+  for (const field of fields) {
+    if (isEqual(prev[field], next[field])) continue
+    changes[field] = {
+      before: maskValue(field, prev[field]),
+      after: maskValue(field, next[field]),
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null
+}
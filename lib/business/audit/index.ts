@@ -0,0 +1,11 @@
+/**
+ * Audit Business Logic
+ *
+ * @module lib/business/audit
+ */
+
+export {
+  AUDIT_MASK,
+  isSensitiveAuditField,
+  diffAuditChanges,
+} from './changes'
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  pickWinningVariant,
+  splitAudienceForAbTest,
+  validateAbTestConfig,
+  computeVariantRates,
+} from './ab-testing'
+import type { CampaignVariantStats } from '@/types'
+
+function stats(partial: Partial<CampaignVariantStats> & { variantId: string }): CampaignVariantStats {
+  return { total: 0, sent: 0, delivered: 0, read: 0, failed: 0, clicked: 0, submitted: 0, ...partial }
+}
+
+describe('validateAbTestConfig', () => {
+  it('aceita config válida com 2 variantes', () => {
+    const r = validateAbTestConfig({ testPercent: 20, waitMinutes: 240, metric: 'read_rate' }, ['a', 'b'])
+    expect(r).toEqual({ valid: true, errors: [] })
+  })
+
+  it('rejeita menos de 2 ou mais de 4 variantes', () => {
+    const cfg = { testPercent: 20, waitMinutes: 240, metric: 'read_rate' as const }
+    expect(validateAbTestConfig(cfg, ['a']).valid).toBe(false)
+    expect(validateAbTestConfig(cfg, ['a', 'b', 'c', 'd', 'e']).valid).toBe(false)
+  })
+
+  it('rejeita percentual e espera fora dos limites', () => {
+    const r = validateAbTestConfig({ testPercent: 100, waitMinutes: 5, metric: 'click_rate' }, ['a', 'b'])
+    expect(r.valid).toBe(false)
+    expect(r.errors).toHaveLength(2)
+  })
+})
+
+describe('splitAudienceForAbTest', () => {
+  const contacts = Array.from({ length: 100 }, (_, i) => ({ phone: `+55119999${String(i).padStart(5, '0')}` }))
+
+  it('divide o slice de teste igualmente e deixa o restante no holdout', () => {
+    const split = splitAudienceForAbTest(contacts, ['cv_a', 'cv_b'], 20, (c) => c.phone, 'c_1')
+    expect(split.test).toHaveLength(20)
+    expect(split.holdout).toHaveLength(80)
+    expect(split.test.filter((t) => t.variantId === 'cv_a')).toHaveLength(10)
+    expect(split.test.filter((t) => t.variantId === 'cv_b')).toHaveLength(10)
+  })
+
+  it('é determinístico para a mesma seed', () => {
+    const a = splitAudienceForAbTest(contacts, ['cv_a', 'cv_b'], 20, (c) => c.phone, 'c_1')
+    const b = splitAudienceForAbTest([...contacts].reverse(), ['cv_a', 'cv_b'], 20, (c) => c.phone, 'c_1')
+    expect(b.test.map((t) => `${t.item.phone}:${t.variantId}`)).toEqual(
+      a.test.map((t) => `${t.item.phone}:${t.variantId}`)
+    )
+  })
+
+  it('garante ao menos um contato por variante em audiências pequenas', () => {
+    const split = splitAudienceForAbTest(contacts.slice(0, 5), ['cv_a', 'cv_b', 'cv_c'], 5, (c) => c.phone, 'c_1')
+    expect(new Set(split.test.map((t) => t.variantId)).size).toBe(3)
+    expect(split.holdout).toHaveLength(2)
+  })
+})
+
+describe('pickWinningVariant', () => {
+  it('escolhe pela métrica configurada', () => {
+    const all = [
+      stats({ variantId: 'cv_a', sent: 10, read: 8, clicked: 1 }),
+      stats({ variantId: 'cv_b', sent: 10, read: 5, clicked: 4 }),
+    ]
+    expect(pickWinningVariant(all, 'read_rate')).toBe('cv_a')
+    expect(pickWinningVariant(all, 'click_rate')).toBe('cv_b')
+  })
+
+  it('desempata pela taxa de leitura e depois pela ordem', () => {
+    const all = [
+      stats({ variantId: 'cv_a', sent: 10, read: 2, submitted: 1 }),
+      stats({ variantId: 'cv_b', sent: 10, read: 6, submitted: 1 }),
+      stats({ variantId: 'cv_c', sent: 10, read: 6, submitted: 1 }),
+    ]
+    expect(pickWinningVariant(all, 'submission_rate')).toBe('cv_b')
+  })
+
+  it('ignora variantes sem envio e retorna null quando nenhuma enviou', () => {
+    expect(pickWinningVariant([stats({ variantId: 'cv_a' })], 'read_rate')).toBeNull()
+    expect(computeVariantRates(stats({ variantId: 'cv_a' })).readRate).toBe(0)
+  })
+})
@@ -0,0 +1,291 @@
+/**
+ * Campaign A/B Testing Rules
+ *
+ * Business rules and utilities for A/B split testing of campaign templates.
+ * Handles config validation, deterministic audience split and winner selection.
+ *
+ * @module lib/business/campaign/ab-testing
+ */
+
+import type {
+  CampaignAbTest,
+  CampaignAbTestMetric,
+  CampaignVariantStats,
+} from '@/types'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * A/B testing constraints for campaigns.
+ */
+export const AB_TEST_RULES = {
+  /** Minimum number of variants in a test */
+  MIN_VARIANTS: 2,
+  /** Maximum number of variants in a test */
+  MAX_VARIANTS: 4,
+  /** Minimum share of the audience used in the test (percent) */
+  MIN_TEST_PERCENT: 5,
+  /** Maximum share of the audience used in the test (percent) */
+  MAX_TEST_PERCENT: 90,
+  /** Default share of the audience used in the test (percent) */
+  DEFAULT_TEST_PERCENT: 20,
+  /** Minimum wait before picking the winner (minutes) */
+  MIN_WAIT_MINUTES: 30,
+  /** Maximum wait before picking the winner (minutes) — 3 days */
+  MAX_WAIT_MINUTES: 72 * 60,
+  /** Default wait before picking the winner (minutes) */
+  DEFAULT_WAIT_MINUTES: 4 * 60,
+  /** Labels assigned to variants, in order */
+  VARIANT_LABELS: ['A', 'B', 'C', 'D'],
+} as const
+
+/**
+ * Human-readable labels for each winner metric (Portuguese).
+ */
+export const AB_TEST_METRIC_LABELS: Record<CampaignAbTestMetric, string> = {
+  read_rate: 'Taxa de leitura',
+  click_rate: 'Cliques em botão',
+  submission_rate: 'Envios de formulário (Flow)',
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Result of A/B config validation.
+ */
+export type AbTestValidationResult = {
+  /** Whether the config is valid */
+  valid: boolean
+  /** Reasons for invalidity (empty if valid) */
+  errors: string[]
+}
+
+/**
+ * Audience split produced by {@link splitAudienceForAbTest}.
+ */
+export type AbTestAudienceSplit<T> = {
+  /** Contacts that receive a variant during the test phase */
+  test: Array<{ item: T; variantId: string }>
+  /** Contacts held back to receive the winning variant */
+  holdout: T[]
+}
+
+/**
+ * Conversion rates for one variant (0..1).
+ */
+export type VariantRates = {
+  deliveryRate: number
+  readRate: number
+  clickRate: number
+  submissionRate: number
+}
+
+// =============================================================================
+// VALIDATION FUNCTIONS
+// =============================================================================
+
+/**
+ * Validates an A/B test config and its variant list.
+ *
+ * @param config - Test config (percent, wait, metric)
+ * @param templateNames - Template name of each variant, in order
+ * @returns Validation result with errors (Portuguese)
+ *
+ * @example
+ * ```ts
+ * validateAbTestConfig({ testPercent: 20, waitMinutes: 240, metric: 'read_rate' }, ['promo_a'])
+ * // { valid: false, errors: ['Teste A/B precisa de pelo menos 2 variantes'] }
+ * ```
+ */
+export function validateAbTestConfig(
+  config: Pick<CampaignAbTest, 'testPercent' | 'waitMinutes' | 'metric'>,
+  templateNames: string[]
+): AbTestValidationResult {
+  const errors: string[] = []
+
+  if (templateNames.length < AB_TEST_RULES.MIN_VARIANTS) {
+    errors.push(`Teste A/B precisa de pelo menos ${AB_TEST_RULES.MIN_VARIANTS} variantes`)
+  }
+  if (templateNames.length > AB_TEST_RULES.MAX_VARIANTS) {
+    errors.push(`Teste A/B aceita no máximo ${AB_TEST_RULES.MAX_VARIANTS} variantes`)
+  }
+  if (templateNames.some((name) => !String(name || '').trim())) {
+    errors.push('Todas as variantes precisam de um template')
+  }
+
+  const percent = Number(config.testPercent)
+  if (
+    !Number.isFinite(percent) ||
+    percent < AB_TEST_RULES.MIN_TEST_PERCENT ||
+    percent > AB_TEST_RULES.MAX_TEST_PERCENT
+  ) {
+    errors.push(
+      `Percentual de teste deve estar entre ${AB_TEST_RULES.MIN_TEST_PERCENT}% e ${AB_TEST_RULES.MAX_TEST_PERCENT}%`
+    )
+  }
+
+  const wait = Number(config.waitMinutes)
+  if (
+    !Number.isFinite(wait) ||
+    wait < AB_TEST_RULES.MIN_WAIT_MINUTES ||
+    wait > AB_TEST_RULES.MAX_WAIT_MINUTES
+  ) {
+    errors.push(
+      `Tempo de espera deve estar entre ${AB_TEST_RULES.MIN_WAIT_MINUTES} minutos e ${AB_TEST_RULES.MAX_WAIT_MINUTES / 60} horas`
+    )
+  }
+
+  if (!(config.metric in AB_TEST_METRIC_LABELS)) {
+    errors.push('Métrica de vencedor inválida')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+// =============================================================================
+// AUDIENCE SPLIT
+// =============================================================================
+
+/**
+ * FNV-1a 32-bit hash. Stable across runtimes (used for deterministic ordering).
+ */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Splits an audience into variant slices and a holdout group.
+ *
+ * The split is deterministic for the same seed and keys, so a retried dispatch
+ * assigns every contact to the same variant. The test slice is
+ * `ceil(total * testPercent / 100)`, but never smaller than the number of
+ * variants (when the audience allows it), and contacts are distributed
+ * round-robin so slices differ by at most one contact.
+ *
+ * @param items - Audience (already deduplicated)
+ * @param variantIds - Variant ids, in order
+ * @param testPercent - Share of the audience used in the test
+ * @param getKey - Stable key per item (e.g. phone)
+ * @param seed - Seed for ordering (e.g. campaign id)
+ *
+ * @example
+ * ```ts
+ * const split = splitAudienceForAbTest(contacts, ['cv_a', 'cv_b'], 20, (c) => c.phone, campaignId)
+ * // 100 contacts → 10 on cv_a, 10 on cv_b, 80 in holdout
+ * ```
+ */
+export function splitAudienceForAbTest<T>(
+  items: T[],
+  variantIds: string[],
+  testPercent: number,
+  getKey: (item: T) => string,
+  seed: string
+): AbTestAudienceSplit<T> {
+  if (variantIds.length === 0 || items.length === 0) {
+    return { test: [], holdout: [...items] }
+  }
+
+  const ordered = items
+    .map((item, index) => ({ item, index, rank: hashString(`${seed}:${getKey(item)}`) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+
+  const percent = Math.min(100, Math.max(0, Number(testPercent) || 0))
+  const testSize = Math.min(
+    ordered.length,
+    Math.max(variantIds.length, Math.ceil((ordered.length * percent) / 100))
+  )
+
+  const test = ordered.slice(0, testSize).map((entry, i) => ({
+    item: entry.item,
+    variantId: variantIds[i % variantIds.length],
+  }))
+  const holdout = ordered.slice(testSize).map((entry) => entry.item)
+
+  return { test, holdout }
+}
+
+// =============================================================================
+// WINNER SELECTION
+// =============================================================================
+
+function ratio(numerator: number, denominator: number): number {
+  if (!denominator || denominator <= 0) return 0
+  return Math.max(0, Number(numerator) || 0) / denominator
+}
+
+/**
+ * Computes funnel rates for a variant. Rates use "sent" as denominator
+ * (delivered/read/click/submission only happen after a successful send).
+ *
+ * @example
+ * ```ts
+ * computeVariantRates({ variantId: 'cv_a', total: 10, sent: 10, delivered: 9, read: 5, failed: 0, clicked: 2, submitted: 1 })
+ * // { deliveryRate: 0.9, readRate: 0.5, clickRate: 0.2, submissionRate: 0.1 }
+ * ```
+ */
+export function computeVariantRates(stats: CampaignVariantStats): VariantRates {
+  const sent = Math.max(0, Number(stats.sent) || 0)
+  return {
+    deliveryRate: ratio(stats.delivered, sent),
+    readRate: ratio(stats.read, sent),
+    clickRate: ratio(stats.clicked, sent),
+    submissionRate: ratio(stats.submitted, sent),
+  }
+}
+
+function rateForMetric(rates: VariantRates, metric: CampaignAbTestMetric): number {
+  if (metric === 'click_rate') return rates.clickRate
+  if (metric === 'submission_rate') return rates.submissionRate
+  return rates.readRate
+}
+
+/**
+ * Picks the winning variant for the given metric.
+ *
+ * Ties are broken by read rate, then by the variant order (first wins).
+ * Variants without any sent message are ignored.
+ *
+ * @param stats - Funnel stats per variant, in variant order
+ * @param metric - Metric that decides the winner
+ * @returns Winning variant id, or null when no variant has sends
+ *
+ * @example
+ * ```ts
+ * pickWinningVariant([statsA, statsB], 'click_rate')
+ * // 'cv_b'
+ * ```
+ */
+export function pickWinningVariant(
+  stats: CampaignVariantStats[],
+  metric: CampaignAbTestMetric
+): string | null {
+  let best: { variantId: string; primary: number; secondary: number } | null = null
+
+  for (const s of stats) {
+    if (!s || (Number(s.sent) || 0) <= 0) continue
+    const rates = computeVariantRates(s)
+    const candidate = {
+      variantId: s.variantId,
+      primary: rateForMetric(rates, metric),
+      secondary: rates.readRate,
+    }
+    if (
+      !best ||
+      candidate.primary > best.primary ||
+      (candidate.primary === best.primary && candidate.secondary > best.secondary)
+    ) {
+      best = candidate
+    }
+  }
+
+  return best?.variantId ?? null
+}
@@ -82,6 +82,8 @@ export {
 export {
   // Constants
   SCHEDULING_RULES,
+  RECURRENCE_RULES,
+  DRIP_CONDITION_LABELS,
   // Types
   type ScheduleValidationResult,
   // Functions
@@ -91,8 +93,36 @@ export {
   formatScheduleDate,
   parseScheduleDate,
   getSuggestedScheduleDate,
+  isValidCronExpression,
+  isValidTimezone,
+  validateRecurrence,
+  toQStashCron,
+  validateDripSteps,
+  getNextDripStep,
+  getDripStepDelaySeconds,
 } from './scheduling'
 
+// =============================================================================
+// SEND WINDOWS
+// =============================================================================
+
+export {
+  // Constants
+  SEND_WINDOW_RULES,
+  DEFAULT_QUIET_HOURS,
+  // Types
+  type SendRestrictions,
+  type SendTimePlan,
+  // Functions
+  resolveContactTimezone,
+  validateSendWindow,
+  validateQuietHours,
+  formatSendWindow,
+  isSendAllowedAt,
+  getNextSendTime,
+  planContactSendTimes,
+} from './send-window'
+
 // =============================================================================
 // MERGING
 // =============================================================================
@@ -120,3 +150,42 @@ export {
   getMessageStatusCounts,
   calculateRealStats,
 } from './message-filtering'
+
+// =============================================================================
+// A/B TESTING
+// =============================================================================
+
+export {
+  // Constants
+  AB_TEST_RULES,
+  AB_TEST_METRIC_LABELS,
+  // Types
+  type AbTestValidationResult,
+  type AbTestAudienceSplit,
+  type VariantRates,
+  // Functions
+  validateAbTestConfig,
+  splitAudienceForAbTest,
+  computeVariantRates,
+  pickWinningVariant,
+} from './ab-testing'
+
+// =============================================================================
+// LINK TRACKING
+// =============================================================================
+
+export {
+  // Constants
+  LINK_TRACKING_RULES,
+  // Types
+  type TrackableUrlButton,
+  type TrackedLinkTarget,
+  // Functions
+  isTrackableButtonUrl,
+  getTrackableUrlButtons,
+  buildTrackedLinkSuffix,
+  parseTrackedLinkSuffix,
+  applyTrackedLinkVariables,
+  validateTrackedLinks,
+  computeClickThroughRate,
+} from './link-tracking'
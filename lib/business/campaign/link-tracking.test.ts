@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyTrackedLinkVariables,
+  buildTrackedLinkSuffix,
+  computeClickThroughRate,
+  getTrackableUrlButtons,
+  isTrackableButtonUrl,
+  parseTrackedLinkSuffix,
+  validateTrackedLinks,
+} from './link-tracking'
+import type { TemplateComponent } from '@/types'
+
+const template: { components: TemplateComponent[] } = {
+  components: [
+    { type: 'BODY', text: 'Olá {{1}}' },
+    {
+      type: 'BUTTONS',
+      buttons: [
+        { type: 'QUICK_REPLY', text: 'Parar' },
+        { type: 'URL', text: 'Ver oferta', url: 'https://app.exemplo.com/r/{{1}}' },
+        { type: 'URL', text: 'Site', url: 'https://loja.com/p/{{1}}' },
+      ],
+    },
+  ],
+}
+
+describe('getTrackableUrlButtons', () => {
+  it('lista só botões de URL que apontam para o redirect, com índice global', () => {
+    expect(isTrackableButtonUrl('https://app.exemplo.com/r/{{1}}')).toBe(true)
+    expect(isTrackableButtonUrl('https://app.exemplo.com/r/fixo')).toBe(false)
+    expect(getTrackableUrlButtons(template)).toEqual([
+      { index: 1, text: 'Ver oferta', url: 'https://app.exemplo.com/r/{{1}}' },
+    ])
+    expect(getTrackableUrlButtons(null)).toEqual([])
+  })
+})
+
+describe('buildTrackedLinkSuffix / parseTrackedLinkSuffix', () => {
+  it('faz o caminho de ida e volta do código + botão', () => {
+    const suffix = buildTrackedLinkSuffix('Ab3_x-9QzK', 2)
+    expect(suffix).toBe('Ab3_x-9QzK2')
+    expect(parseTrackedLinkSuffix(suffix)).toEqual({ code: 'Ab3_x-9QzK', buttonIndex: 2 })
+  })
+
+  it('rejeita sufixos malformados', () => {
+    expect(parseTrackedLinkSuffix('curto1')).toBeNull()
+    expect(parseTrackedLinkSuffix('Ab3_x-9QzK')).toBeNull()
+    expect(parseTrackedLinkSuffix('Ab3_x-9Qz!1')).toBeNull()
+    expect(parseTrackedLinkSuffix('Ab3_x-9QzKab')).toBeNull()
+  })
+})
+
+describe('applyTrackedLinkVariables', () => {
+  it('preenche a variável do botão rastreado e descarta a chave legada', () => {
+    const vars = { header: [], body: ['{{nome}}'], buttons: { button_1_0: 'antigo', button_2_1: 'x' } }
+    const result = applyTrackedLinkVariables(template, vars, [{ buttonIndex: 1, url: 'https://loja.com' }], 'Ab3_x-9QzK')
+    expect(result?.buttons).toEqual({ button_1_1: 'Ab3_x-9QzK1', button_2_1: 'x' })
+    expect(vars.buttons.button_1_0).toBe('antigo')
+  })
+
+  it('ignora botões que não são rastreáveis no template', () => {
+    const vars = { header: [], body: [], buttons: { button_2_1: 'x' } }
+    expect(applyTrackedLinkVariables(template, vars, [{ buttonIndex: 2, url: 'https://loja.com' }], 'Ab3_x-9QzK')).toBe(vars)
+    expect(applyTrackedLinkVariables(template, vars, null, 'Ab3_x-9QzK')).toBe(vars)
+  })
+})
+
+describe('validateTrackedLinks / computeClickThroughRate', () => {
+  it('exige destino http(s) único por botão', () => {
+    expect(validateTrackedLinks([{ buttonIndex: 1, url: 'https://loja.com/oferta' }]).valid).toBe(true)
+    expect(validateTrackedLinks([{ buttonIndex: 1, url: '' }]).valid).toBe(false)
+    expect(validateTrackedLinks([{ buttonIndex: 1, url: 'javascript:alert(1)' }]).valid).toBe(false)
+    expect(
+      validateTrackedLinks([
+        { buttonIndex: 1, url: 'https://a.com' },
+        { buttonIndex: 1, url: 'https://b.com' },
+      ]).valid
+    ).toBe(false)
+  })
+
+  it('calcula o CTR sobre as entregues', () => {
+    expect(computeClickThroughRate(12, 200)).toBe(0.06)
+    expect(computeClickThroughRate(3, 0)).toBe(0)
+  })
+})
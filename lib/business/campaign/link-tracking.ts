@@ -0,0 +1,226 @@
+/**
+ * Campaign Link Tracking
+ *
+ * Business rules for wrapping template URL buttons in a per-contact redirect.
+ * A trackable button is a dynamic URL button whose URL ends with `/r/{{1}}`;
+ * the dynamic suffix carries the contact's link code plus the button index,
+ * and the redirect route resolves it to the destination set on the campaign.
+ *
+ * @module lib/business/campaign/link-tracking
+ */
+
+import type { CampaignTrackedLink, TemplateButton, TemplateComponent } from '@/types'
+import type { ScheduleValidationResult } from './scheduling'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Constraints for tracked links.
+ */
+export const LINK_TRACKING_RULES = {
+  /** Length of the per-contact link code (base64url characters) */
+  CODE_LENGTH: 10,
+  /** Redirect path the template URL must end with (before the {{1}} suffix) */
+  REDIRECT_PATH: '/r/',
+  /** Code used in the wizard preview/precheck; replaced per contact on send */
+  PREVIEW_CODE: 'previewxyz',
+  /** Maximum destination URL length */
+  MAX_URL_LENGTH: 2000,
+} as const
+
+const CODE_PATTERN = /^[A-Za-z0-9_-]+$/
+const TRACKABLE_URL_PATTERN = /\/r\/\{\{\s*1\s*\}\}$/
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * URL button that can be wrapped by the redirect.
+ */
+export interface TrackableUrlButton {
+  /** Global button index in the template (0-based, across BUTTONS components) */
+  index: number
+  text: string
+  url: string
+}
+
+/**
+ * Parsed redirect suffix.
+ */
+export interface TrackedLinkTarget {
+  code: string
+  buttonIndex: number
+}
+
+type TemplateVariablesWithButtons = {
+  header: string[]
+  body: string[]
+  buttons?: Record<string, string>
+}
+
+// =============================================================================
+// TEMPLATE BUTTONS
+// =============================================================================
+
+/**
+ * Checks whether a template button URL points to the click-tracking redirect.
+ *
+ * @example
+ * ```ts
+ * isTrackableButtonUrl('https://app.exemplo.com/r/{{1}}') // true
+ * isTrackableButtonUrl('https://loja.com/produto/{{1}}') // false
+ * ```
+ */
+export function isTrackableButtonUrl(url: string | null | undefined): boolean {
+  return TRACKABLE_URL_PATTERN.test(String(url ?? '').trim())
+}
+
+/**
+ * Lists the template URL buttons that can be tracked, with their global index
+ * (the same index used by `button_{index}_{key}` template variables).
+ *
+ * @param template - Template (or snapshot) with Meta components
+ * @returns Trackable buttons, in template order
+ */
+export function getTrackableUrlButtons(
+  template: { components?: TemplateComponent[] | null } | null | undefined
+): TrackableUrlButton[] {
+  const components = Array.isArray(template?.components) ? template.components : []
+  const result: TrackableUrlButton[] = []
+  let index = 0
+
+  for (const component of components) {
+    if (component?.type !== 'BUTTONS') continue
+    const buttons: TemplateButton[] = Array.isArray(component.buttons) ? component.buttons : []
+    for (const button of buttons) {
+      if (button.type === 'URL' && isTrackableButtonUrl(button.url)) {
+        result.push({ index, text: button.text, url: String(button.url) })
+      }
+      index++
+    }
+  }
+
+  return result
+}
+
+// =============================================================================
+// REDIRECT SUFFIX
+// =============================================================================
+
+/**
+ * Builds the dynamic URL suffix for a contact and button (`{code}{buttonIndex}`).
+ */
+export function buildTrackedLinkSuffix(code: string, buttonIndex: number): string {
+  return `${code}${buttonIndex}`
+}
+
+/**
+ * Parses a redirect suffix back into link code and button index.
+ *
+ * @returns Target, or null when the suffix is malformed
+ */
+export function parseTrackedLinkSuffix(suffix: string | null | undefined): TrackedLinkTarget | null {
+  const raw = String(suffix ?? '').trim()
+  const code = raw.slice(0, LINK_TRACKING_RULES.CODE_LENGTH)
+  const index = raw.slice(LINK_TRACKING_RULES.CODE_LENGTH)
+
+  if (code.length !== LINK_TRACKING_RULES.CODE_LENGTH || !CODE_PATTERN.test(code)) return null
+  if (!/^\d{1,2}$/.test(index)) return null
+
+  return { code, buttonIndex: Number(index) }
+}
+
+/**
+ * Fills the dynamic URL variable of every tracked button with the contact's
+ * redirect suffix. Buttons that are not trackable in this template are left
+ * untouched, so the same config works across A/B variants and drip steps.
+ *
+ * @param template - Template (or snapshot) used for this send
+ * @param templateVariables - Campaign template variables
+ * @param trackedLinks - Tracked links configured on the campaign
+ * @param code - Contact link code
+ * @returns New template variables (input is not mutated)
+ */
+export function applyTrackedLinkVariables<T extends TemplateVariablesWithButtons>(
+  template: { components?: TemplateComponent[] | null } | null | undefined,
+  templateVariables: T | undefined,
+  trackedLinks: CampaignTrackedLink[] | null | undefined,
+  code: string
+): T | undefined {
+  if (!trackedLinks || trackedLinks.length === 0) return templateVariables
+
+  const trackable = new Set(getTrackableUrlButtons(template).map((b) => b.index))
+  const links = trackedLinks.filter((link) => trackable.has(link.buttonIndex))
+  if (links.length === 0) return templateVariables
+
+  const base = (templateVariables ?? { header: [], body: [] }) as T
+  const buttons: Record<string, string> = { ...(base.buttons || {}) }
+  for (const link of links) {
+    // The precheck reads the legacy (0-based) key first: drop it so the code wins
+    delete buttons[`button_${link.buttonIndex}_0`]
+    buttons[`button_${link.buttonIndex}_1`] = buildTrackedLinkSuffix(code, link.buttonIndex)
+  }
+
+  return { ...base, buttons }
+}
+
+// =============================================================================
+// VALIDATION & METRICS
+// =============================================================================
+
+/**
+ * Validates the tracked links configured for a campaign.
+ *
+ * @param links - Tracked links to validate
+ * @returns Validation result with reason if invalid
+ */
+export function validateTrackedLinks(links: CampaignTrackedLink[]): ScheduleValidationResult {
+  const seen = new Set<number>()
+
+  for (const link of links) {
+    if (!Number.isInteger(link.buttonIndex) || link.buttonIndex < 0) {
+      return { valid: false, reason: 'Botão inválido para rastreio' }
+    }
+    if (seen.has(link.buttonIndex)) {
+      return { valid: false, reason: `Botão ${link.buttonIndex + 1} configurado mais de uma vez` }
+    }
+    seen.add(link.buttonIndex)
+
+    const url = String(link.url || '').trim()
+    if (!url) {
+      return { valid: false, reason: `Informe o destino do botão ${link.buttonIndex + 1}` }
+    }
+    if (url.length > LINK_TRACKING_RULES.MAX_URL_LENGTH) {
+      return { valid: false, reason: `Destino do botão ${link.buttonIndex + 1} é muito longo` }
+    }
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return { valid: false, reason: `Destino do botão ${link.buttonIndex + 1} não é uma URL válida` }
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return { valid: false, reason: `Destino do botão ${link.buttonIndex + 1} deve usar http ou https` }
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Computes the click-through rate (unique clickers / delivered).
+ *
+ * @example
+ * ```ts
+ * computeClickThroughRate(12, 200) // 0.06
+ * computeClickThroughRate(3, 0)    // 0
+ * ```
+ */
+export function computeClickThroughRate(clicks: number, delivered: number): number {
+  const total = Math.max(0, Number(delivered) || 0)
+  if (total === 0) return 0
+  return Math.min(1, Math.max(0, Number(clicks) || 0) / total)
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getDripStepDelaySeconds,
+  getNextDripStep,
+  isValidCronExpression,
+  toQStashCron,
+  validateDripSteps,
+  validateRecurrence,
+} from './scheduling'
+import type { CampaignDripStep } from '@/types'
+
+describe('isValidCronExpression', () => {
+  it('aceita expressões de 5 campos com minuto fixo', () => {
+    expect(isValidCronExpression('0 9 * * 1').valid).toBe(true)
+    expect(isValidCronExpression('30 8-18/2 1,15 * 1-5').valid).toBe(true)
+  })
+
+  it('rejeita número de campos incorreto e valores fora do intervalo', () => {
+    expect(isValidCronExpression('0 9 * *').valid).toBe(false)
+    expect(isValidCronExpression('0 24 * * *').valid).toBe(false)
+    expect(isValidCronExpression('0 9 * 13 *').valid).toBe(false)
+    expect(isValidCronExpression('0 18-8 * * *').valid).toBe(false)
+  })
+
+  it('rejeita execução mais de uma vez por hora', () => {
+    const r = isValidCronExpression('*/15 * * * *')
+    expect(r.valid).toBe(false)
+    expect(r.reason).toContain('uma vez por hora')
+  })
+})
+
+describe('validateRecurrence', () => {
+  it('valida o timezone IANA', () => {
+    expect(validateRecurrence({ cron: '0 9 * * 1', timezone: 'America/Sao_Paulo' }).valid).toBe(true)
+    expect(validateRecurrence({ cron: '0 9 * * 1', timezone: 'Mars/Olympus' }).valid).toBe(false)
+  })
+
+  it('fixa o timezone no cron enviado ao QStash', () => {
+    expect(toQStashCron(' 0  9 * * 1 ', 'America/Sao_Paulo')).toBe('CRON_TZ=America/Sao_Paulo 0 9 * * 1')
+  })
+})
+
+describe('drip steps', () => {
+  const steps: CampaignDripStep[] = [
+    { templateName: 'lembrete_1', delayDays: 2, condition: 'not_read' },
+    { templateName: 'lembrete_2', delayDays: 5, condition: 'not_submitted' },
+  ]
+
+  it('valida template, intervalo e condição', () => {
+    expect(validateDripSteps(steps).valid).toBe(true)
+    expect(validateDripSteps([{ ...steps[0], delayDays: 0 }]).valid).toBe(false)
+    expect(validateDripSteps([{ ...steps[0], templateName: ' ' }]).reason).toContain('Etapa 2')
+    expect(validateDripSteps([{ ...steps[0], condition: 'x' as any }]).valid).toBe(false)
+  })
+
+  it('retorna a próxima etapa (1-based) e null ao final', () => {
+    expect(getNextDripStep(steps, 1)).toEqual({ step: 2, config: steps[0] })
+    expect(getNextDripStep(steps, 2)).toEqual({ step: 3, config: steps[1] })
+    expect(getNextDripStep(steps, 3)).toBeNull()
+    expect(getNextDripStep(null, 1)).toBeNull()
+  })
+
+  it('converte dias em segundos', () => {
+    expect(getDripStepDelaySeconds({ delayDays: 2 })).toBe(2 * 24 * 60 * 60)
+  })
+})
@@ -2,11 +2,14 @@
  * Campaign Scheduling Rules
  *
  * Business rules and utilities for campaign scheduling.
- * Defines constraints for when campaigns can be scheduled.
+ * Defines constraints for when campaigns can be scheduled, including
+ * recurring campaigns (cron + timezone) and drip sequences.
  *
  * @module lib/business/campaign/scheduling
  */
 
+import type { CampaignDripCondition, CampaignDripStep } from '@/types'
+
 // =============================================================================
 // CONSTANTS
 // =============================================================================
@@ -21,6 +24,29 @@ export const SCHEDULING_RULES = {
   MAX_FUTURE_DAYS: 30,
 } as const
 
+/**
+ * Constraints for recurring campaigns and drip sequences.
+ */
+export const RECURRENCE_RULES = {
+  /** Default timezone for recurring campaigns */
+  DEFAULT_TIMEZONE: 'America/Sao_Paulo',
+  /** Maximum number of follow-up steps after the first message */
+  MAX_DRIP_STEPS: 5,
+  /** Minimum delay between drip steps (days) */
+  MIN_DRIP_DELAY_DAYS: 1,
+  /** Maximum delay between drip steps (days) */
+  MAX_DRIP_DELAY_DAYS: 30,
+} as const
+
+/**
+ * Human-readable labels for drip step conditions (Portuguese).
+ */
+export const DRIP_CONDITION_LABELS: Record<CampaignDripCondition, string> = {
+  not_read: 'Não leram',
+  not_replied: 'Não responderam',
+  not_submitted: 'Não enviaram o Flow',
+}
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -227,3 +253,188 @@ export function getSuggestedScheduleDate(referenceDate: Date = new Date()): Date
 
   return oneHourFromNow
 }
+
+// =============================================================================
+// RECURRENCE
+// =============================================================================
+
+// Um item de campo cron: "*", "5", "1-5", "*/15", "1-10/2"
+const CRON_ITEM_PATTERN = /^(\*|\d+(-\d+)?)(\/\d+)?$/
+
+// [min, max] de cada campo: minuto, hora, dia do mês, mês, dia da semana
+const CRON_FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+]
+
+/**
+ * Validates a 5-field cron expression for recurring campaigns.
+ *
+ * Rules enforced:
+ * - Exactly 5 fields (minute hour day-of-month month day-of-week)
+ * - Numeric values within each field range
+ * - Minute must be a single fixed value (at most one run per hour)
+ *
+ * @param cron - Cron expression
+ * @returns Validation result with reason if invalid
+ *
+ * @example
+ * ```ts
+ * isValidCronExpression('0 9 * * 1')   // { valid: true } (segundas às 9h)
+ * isValidCronExpression('*\/5 * * * *') // { valid: false, reason: '...' }
+ * ```
+ */
+export function isValidCronExpression(cron: string): ScheduleValidationResult {
+  const fields = String(cron || '').trim().split(/\s+/).filter(Boolean)
+  if (fields.length !== 5) {
+    return { valid: false, reason: 'Expressão cron deve ter 5 campos (minuto hora dia mês dia-da-semana)' }
+  }
+
+  for (let i = 0; i < fields.length; i++) {
+    const [min, max] = CRON_FIELD_RANGES[i]
+    for (const item of fields[i].split(',')) {
+      if (!CRON_ITEM_PATTERN.test(item)) {
+        return { valid: false, reason: `Campo cron inválido: "${fields[i]}"` }
+      }
+      const [base, stepValue] = item.split('/')
+      if (stepValue !== undefined && Number(stepValue) < 1) {
+        return { valid: false, reason: `Campo cron inválido: "${fields[i]}"` }
+      }
+      if (base === '*') continue
+
+      const [start, end] = base.split('-').map(Number)
+      const outOfRange = (n: number) => n < min || n > max
+      if (outOfRange(start) || (end !== undefined && outOfRange(end))) {
+        return { valid: false, reason: `Valor fora do intervalo (${min}-${max}) no campo cron "${fields[i]}"` }
+      }
+      if (end !== undefined && start > end) {
+        return { valid: false, reason: `Intervalo inválido no campo cron "${fields[i]}"` }
+      }
+    }
+  }
+
+  if (!/^\d+$/.test(fields[0])) {
+    return { valid: false, reason: 'Campanhas recorrentes podem rodar no máximo uma vez por hora (minuto fixo)' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Checks whether a timezone is a valid IANA identifier.
+ *
+ * @param timezone - Timezone (ex.: America/Sao_Paulo)
+ * @returns True if the runtime recognizes the timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validates the recurrence config of a campaign (cron + timezone).
+ *
+ * @param recurrence - Cron expression and timezone
+ * @returns Validation result with reason if invalid
+ */
+export function validateRecurrence(recurrence: {
+  cron: string
+  timezone: string
+}): ScheduleValidationResult {
+  const cronResult = isValidCronExpression(recurrence.cron)
+  if (!cronResult.valid) return cronResult
+
+  if (!isValidTimezone(recurrence.timezone)) {
+    return { valid: false, reason: `Fuso horário inválido: "${recurrence.timezone}"` }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Builds the cron string sent to QStash, pinning the timezone via CRON_TZ.
+ *
+ * @example
+ * ```ts
+ * toQStashCron('0 9 * * 1', 'America/Sao_Paulo')
+ * // 'CRON_TZ=America/Sao_Paulo 0 9 * * 1'
+ * ```
+ */
+export function toQStashCron(cron: string, timezone: string): string {
+  const expression = String(cron || '').trim().split(/\s+/).join(' ')
+  return timezone ? `CRON_TZ=${timezone} ${expression}` : expression
+}
+
+// =============================================================================
+// DRIP SEQUENCES
+// =============================================================================
+
+/**
+ * Validates drip steps (follow-ups after the first message).
+ *
+ * @param steps - Follow-up steps, in order
+ * @returns Validation result with the first error found
+ */
+export function validateDripSteps(steps: CampaignDripStep[]): ScheduleValidationResult {
+  if (steps.length > RECURRENCE_RULES.MAX_DRIP_STEPS) {
+    return { valid: false, reason: `Sequência pode ter no máximo ${RECURRENCE_RULES.MAX_DRIP_STEPS} etapas de follow-up` }
+  }
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i]
+    const label = `Etapa ${i + 2}`
+    if (!String(step.templateName || '').trim()) {
+      return { valid: false, reason: `${label}: selecione um template` }
+    }
+    if (
+      !Number.isInteger(step.delayDays) ||
+      step.delayDays < RECURRENCE_RULES.MIN_DRIP_DELAY_DAYS ||
+      step.delayDays > RECURRENCE_RULES.MAX_DRIP_DELAY_DAYS
+    ) {
+      return {
+        valid: false,
+        reason: `${label}: intervalo deve ser entre ${RECURRENCE_RULES.MIN_DRIP_DELAY_DAYS} e ${RECURRENCE_RULES.MAX_DRIP_DELAY_DAYS} dias`,
+      }
+    }
+    if (!(step.condition in DRIP_CONDITION_LABELS)) {
+      return { valid: false, reason: `${label}: condição inválida` }
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Returns the drip step that follows `currentStep` (1-based), or null at the end.
+ *
+ * @example
+ * ```ts
+ * // dripSteps[0] é a etapa 2
+ * getNextDripStep(dripSteps, 1) // { step: 2, config: dripSteps[0] }
+ * ```
+ */
+export function getNextDripStep(
+  dripSteps: CampaignDripStep[] | null | undefined,
+  currentStep: number
+): { step: number; config: CampaignDripStep } | null {
+  const steps = Array.isArray(dripSteps) ? dripSteps : []
+  const index = Math.max(1, Math.floor(currentStep || 1)) - 1
+  const config = steps[index]
+  return config ? { step: index + 2, config } : null
+}
+
+/**
+ * Delay (seconds) before a drip step fires, counted from the previous step completion.
+ */
+export function getDripStepDelaySeconds(step: Pick<CampaignDripStep, 'delayDays'>): number {
+  const days = Math.max(0, Number(step.delayDays) || 0)
+  return Math.floor(days * 24 * 60 * 60)
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getNextSendTime,
+  isSendAllowedAt,
+  planContactSendTimes,
+  resolveContactTimezone,
+  validateQuietHours,
+  validateSendWindow,
+} from './send-window'
+import type { CampaignSendWindow } from '@/types'
+
+const businessHours: CampaignSendWindow = {
+  days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  start: '09:00',
+  end: '19:00',
+}
+
+describe('resolveContactTimezone', () => {
+  it('usa o DDD para telefones brasileiros', () => {
+    expect(resolveContactTimezone('+5511999999999')).toBe('America/Sao_Paulo')
+    expect(resolveContactTimezone('+5592999999999')).toBe('America/Manaus')
+    expect(resolveContactTimezone('+5568999999999')).toBe('America/Rio_Branco')
+  })
+
+  it('usa o DDI fora do Brasil e cai no fallback quando desconhecido', () => {
+    expect(resolveContactTimezone('+351912345678')).toBe('Europe/Lisbon')
+    expect(resolveContactTimezone('+819012345678', null, 'UTC')).toBe('UTC')
+  })
+
+  it('prioriza o campo personalizado quando válido', () => {
+    expect(resolveContactTimezone('+5511999999999', { timezone: 'Europe/Lisbon' })).toBe('Europe/Lisbon')
+    expect(resolveContactTimezone('+5511999999999', { fuso_horario: 'America/Manaus' })).toBe('America/Manaus')
+    expect(resolveContactTimezone('+5511999999999', { timezone: 'Marte/Olympus' })).toBe('America/Sao_Paulo')
+  })
+})
+
+describe('validateSendWindow / validateQuietHours', () => {
+  it('exige dias e início antes do fim', () => {
+    expect(validateSendWindow(businessHours).valid).toBe(true)
+    expect(validateSendWindow({ ...businessHours, days: [] }).valid).toBe(false)
+    expect(validateSendWindow({ ...businessHours, start: '19:00', end: '09:00' }).valid).toBe(false)
+    expect(validateSendWindow({ ...businessHours, start: '9h' }).valid).toBe(false)
+  })
+
+  it('aceita silêncio cruzando a meia-noite', () => {
+    expect(validateQuietHours({ start: '21:00', end: '08:00' }).valid).toBe(true)
+    expect(validateQuietHours({ start: '21:00', end: '21:00' }).valid).toBe(false)
+  })
+})
+
+describe('isSendAllowedAt', () => {
+  it('respeita dia da semana e horário local', () => {
+    // Segunda 10:00 em São Paulo
+    expect(isSendAllowedAt(new Date('2026-10-19T13:00:00Z'), 'America/Sao_Paulo', { window: businessHours })).toBe(true)
+    // Segunda 19:00 (fim exclusivo)
+    expect(isSendAllowedAt(new Date('2026-10-19T22:00:00Z'), 'America/Sao_Paulo', { window: businessHours })).toBe(false)
+    // Sábado 10:00
+    expect(isSendAllowedAt(new Date('2026-10-17T13:00:00Z'), 'America/Sao_Paulo', { window: businessHours })).toBe(false)
+  })
+
+  it('bloqueia o horário de silêncio global', () => {
+    const quietHours = { start: '21:00', end: '08:00' }
+    expect(isSendAllowedAt(new Date('2026-10-17T01:00:00Z'), 'America/Sao_Paulo', { quietHours })).toBe(false)
+    expect(isSendAllowedAt(new Date('2026-10-17T12:00:00Z'), 'America/Sao_Paulo', { quietHours })).toBe(true)
+  })
+})
+
+describe('getNextSendTime', () => {
+  it('retorna o próprio instante quando já está na janela', () => {
+    const now = new Date('2026-10-19T13:00:00Z')
+    expect(getNextSendTime(now, 'America/Sao_Paulo', { window: businessHours })).toEqual(now)
+  })
+
+  it('segura sexta à noite até segunda no início da janela', () => {
+    // Sexta 21:00 em São Paulo → segunda 09:00 (UTC-3)
+    const next = getNextSendTime(new Date('2026-10-17T00:00:00Z'), 'America/Sao_Paulo', { window: businessHours })
+    expect(next?.toISOString()).toBe('2026-10-19T12:00:00.000Z')
+  })
+
+  it('libera no fim do horário de silêncio', () => {
+    // Sexta 22:00 em São Paulo → sábado 08:00
+    const next = getNextSendTime(new Date('2026-10-17T01:00:00Z'), 'America/Sao_Paulo', {
+      quietHours: { start: '21:00', end: '08:00' },
+    })
+    expect(next?.toISOString()).toBe('2026-10-17T11:00:00.000Z')
+  })
+
+  it('considera mudança de horário de verão no fuso do contato', () => {
+    // Sábado 31/10 em Nova York; DST termina em 01/11 → segunda 09:00 EST (UTC-5)
+    const next = getNextSendTime(new Date('2026-10-31T12:00:00Z'), 'America/New_York', { window: businessHours })
+    expect(next?.toISOString()).toBe('2026-11-02T14:00:00.000Z')
+  })
+
+  it('retorna null quando a janela nunca abre', () => {
+    const next = getNextSendTime(new Date('2026-10-19T13:00:00Z'), 'America/Sao_Paulo', {
+      window: { days: ['mon'], start: '22:00', end: '23:00' },
+      quietHours: { start: '21:00', end: '08:00' },
+    })
+    expect(next).toBeNull()
+  })
+})
+
+describe('planContactSendTimes', () => {
+  it('agrupa contatos por horário de liberação', () => {
+    // Segunda 08:30 em São Paulo = 07:30 em Manaus
+    const now = new Date('2026-10-19T11:30:00Z')
+    const contacts = [
+      { id: 'sp', phone: '+5511999999999' },
+      { id: 'am', phone: '+5592999999999' },
+      { id: 'am-override', phone: '+5592988888888', custom_fields: { timezone: 'Europe/Lisbon' } },
+    ]
+
+    const plan = planContactSendTimes(contacts, now, { window: { ...businessHours, start: '08:00' } })
+
+    expect(plan.ready.map((c) => c.id)).toEqual(['sp', 'am-override'])
+    expect(plan.held).toEqual([
+      { releaseAt: '2026-10-19T12:00:00.000Z', contacts: [contacts[1]] },
+    ])
+    expect(plan.unreachable).toEqual([])
+  })
+
+  it('envia tudo quando não há restrições', () => {
+    const contacts = [{ phone: '+5511999999999' }]
+    expect(planContactSendTimes(contacts, new Date(), {}).ready).toEqual(contacts)
+  })
+})
@@ -0,0 +1,372 @@
+/**
+ * Campaign Send Windows
+ *
+ * Business rules for per-contact local send windows and global quiet hours.
+ * Each contact's timezone is inferred from the phone (DDI/DDD) or overridden
+ * by a custom field; contacts outside the window are held until it opens.
+ *
+ * @module lib/business/campaign/send-window
+ */
+
+import type { CampaignSendWindow, QuietHoursConfig, Weekday } from '@/types'
+import { getCountryCallingCodeFromPhone } from '@/lib/phone-formatter'
+import { getBrazilTimezoneFromPhone } from '@/lib/br-geo'
+import { parseTimeToMinutes, WEEKDAY_ORDER, WEEKDAY_SHORT_LABELS } from '@/lib/business/settings/calendar'
+import { isValidTimezone, type ScheduleValidationResult } from './scheduling'
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Constraints and defaults for send windows.
+ */
+export const SEND_WINDOW_RULES = {
+  /** Timezone used when the contact's timezone cannot be inferred */
+  DEFAULT_TIMEZONE: 'America/Sao_Paulo',
+  /** Custom field keys that override the inferred timezone (first match wins) */
+  TIMEZONE_CUSTOM_FIELDS: ['timezone', 'fuso_horario'],
+  /** How many days ahead to look for the next open window */
+  SEARCH_DAYS: 8,
+} as const
+
+/**
+ * Default global quiet hours (disabled until configured in Settings).
+ */
+export const DEFAULT_QUIET_HOURS: QuietHoursConfig = {
+  enabled: false,
+  start: '21:00',
+  end: '08:00',
+  defaultTimezone: SEND_WINDOW_RULES.DEFAULT_TIMEZONE,
+}
+
+/**
+ * Representative timezone per country calling code (outside Brazil).
+ * Countries with several timezones use the most populous one.
+ */
+const CALLING_CODE_TIMEZONES: Record<string, string> = {
+  '1': 'America/New_York',
+  '34': 'Europe/Madrid',
+  '33': 'Europe/Paris',
+  '39': 'Europe/Rome',
+  '44': 'Europe/London',
+  '49': 'Europe/Berlin',
+  '51': 'America/Lima',
+  '52': 'America/Mexico_City',
+  '54': 'America/Argentina/Buenos_Aires',
+  '56': 'America/Santiago',
+  '57': 'America/Bogota',
+  '58': 'America/Caracas',
+  '244': 'Africa/Luanda',
+  '258': 'Africa/Maputo',
+  '351': 'Europe/Lisbon',
+  '591': 'America/La_Paz',
+  '593': 'America/Guayaquil',
+  '595': 'America/Asuncion',
+  '598': 'America/Montevideo',
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Restrictions applied when deciding whether a contact can receive a message now.
+ */
+export interface SendRestrictions {
+  /** Campaign send window (null = any time) */
+  window?: CampaignSendWindow | null
+  /** Global quiet hours (null = disabled) */
+  quietHours?: Pick<QuietHoursConfig, 'start' | 'end'> | null
+}
+
+/**
+ * Contacts split by when they can be sent.
+ */
+export interface SendTimePlan<T> {
+  /** Contacts inside the window right now */
+  ready: T[]
+  /** Contacts held until their window opens, ordered by releaseAt */
+  held: Array<{ releaseAt: string; contacts: T[] }>
+  /** Contacts whose window never opens within the search horizon */
+  unreachable: T[]
+}
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  weekday: Weekday
+  minutes: number
+}
+
+// =============================================================================
+// TIMEZONE RESOLUTION
+// =============================================================================
+
+/**
+ * Resolves the contact's timezone.
+ * Priority: custom field override > Brazilian DDD > country calling code > fallback.
+ *
+ * @param phone - Contact phone (any format)
+ * @param customFields - Contact custom fields
+ * @param fallbackTimezone - Timezone used when nothing else matches
+ * @returns IANA timezone
+ *
+ * @example
+ * ```typescript
+ * resolveContactTimezone('+5592999999999') // 'America/Manaus'
+ * resolveContactTimezone('+5511999999999', { timezone: 'Europe/Lisbon' }) // 'Europe/Lisbon'
+ * ```
+ */
+export function resolveContactTimezone(
+  phone: string,
+  customFields?: Record<string, unknown> | null,
+  fallbackTimezone: string = SEND_WINDOW_RULES.DEFAULT_TIMEZONE
+): string {
+  for (const key of SEND_WINDOW_RULES.TIMEZONE_CUSTOM_FIELDS) {
+    const value = customFields?.[key]
+    if (typeof value === 'string' && value.trim() && isValidTimezone(value.trim())) {
+      return value.trim()
+    }
+  }
+
+  const callingCode = getCountryCallingCodeFromPhone(phone)
+  if (callingCode === '55') {
+    return getBrazilTimezoneFromPhone(phone) || fallbackTimezone
+  }
+
+  return (callingCode && CALLING_CODE_TIMEZONES[callingCode]) || fallbackTimezone
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Validates a campaign send window.
+ *
+ * @param window - Send window to validate
+ * @returns Validation result with reason if invalid
+ */
+export function validateSendWindow(window: CampaignSendWindow): ScheduleValidationResult {
+  if (!window.days || window.days.length === 0) {
+    return { valid: false, reason: 'Selecione ao menos um dia da semana' }
+  }
+  if (window.days.some((day) => !WEEKDAY_ORDER.includes(day))) {
+    return { valid: false, reason: 'Dia da semana inválido' }
+  }
+
+  const start = parseTimeToMinutes(window.start)
+  const end = parseTimeToMinutes(window.end)
+  if (start === null || end === null) {
+    return { valid: false, reason: 'Horário inválido (use HH:mm)' }
+  }
+  if (start >= end) {
+    return { valid: false, reason: 'O início da janela deve ser antes do fim' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validates global quiet hours (the interval may cross midnight).
+ *
+ * @param quietHours - Quiet hours to validate
+ * @returns Validation result with reason if invalid
+ */
+export function validateQuietHours(quietHours: Pick<QuietHoursConfig, 'start' | 'end'>): ScheduleValidationResult {
+  const start = parseTimeToMinutes(quietHours.start)
+  const end = parseTimeToMinutes(quietHours.end)
+  if (start === null || end === null) {
+    return { valid: false, reason: 'Horário inválido (use HH:mm)' }
+  }
+  if (start === end) {
+    return { valid: false, reason: 'Início e fim do horário de silêncio não podem ser iguais' }
+  }
+  return { valid: true }
+}
+
+/**
+ * Formats a send window for display.
+ *
+ * @example
+ * ```typescript
+ * formatSendWindow({ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '19:00' })
+ * // 'Seg, Ter, Qua, Qui, Sex · 09:00–19:00'
+ * ```
+ */
+export function formatSendWindow(window: CampaignSendWindow): string {
+  const days = WEEKDAY_ORDER.filter((day) => window.days.includes(day)).map((day) => WEEKDAY_SHORT_LABELS[day])
+  return `${days.join(', ')} · ${window.start}–${window.end}`
+}
+
+// =============================================================================
+// WINDOW EVALUATION
+// =============================================================================
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  let formatter = formatterCache.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    })
+    formatterCache.set(timezone, formatter)
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((p) => [p.type, p.value]))
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: String(parts.weekday).toLowerCase().slice(0, 3) as Weekday,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  }
+}
+
+// Converte "dia + minutos do dia" no fuso informado para um instante UTC.
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timezone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes)
+  const offsetAt = (instant: number) => {
+    const p = getZonedParts(new Date(instant), timezone)
+    return Date.UTC(p.year, p.month - 1, p.day, 0, p.minutes) - Math.floor(instant / 60_000) * 60_000
+  }
+
+  let instant = wallClock - offsetAt(wallClock)
+  // Segunda passada cobre mudanças de horário de verão entre o palpite e o instante real
+  const offset = offsetAt(instant)
+  if (wallClock - offset !== instant) instant = wallClock - offset
+  return new Date(instant)
+}
+
+function isInQuietHours(minutes: number, start: number, end: number): boolean {
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+/**
+ * Checks whether a message can be sent at the given instant in the contact's timezone.
+ *
+ * @param date - Instant to evaluate
+ * @param timezone - Contact timezone (IANA)
+ * @param restrictions - Campaign window and global quiet hours
+ * @returns true when sending is allowed
+ */
+export function isSendAllowedAt(date: Date, timezone: string, restrictions: SendRestrictions): boolean {
+  const { window, quietHours } = restrictions
+  const local = getZonedParts(date, timezone)
+
+  if (window) {
+    const start = parseTimeToMinutes(window.start)
+    const end = parseTimeToMinutes(window.end)
+    if (start === null || end === null) return false
+    if (!window.days.includes(local.weekday)) return false
+    if (local.minutes < start || local.minutes >= end) return false
+  }
+
+  if (quietHours) {
+    const start = parseTimeToMinutes(quietHours.start)
+    const end = parseTimeToMinutes(quietHours.end)
+    if (start !== null && end !== null && start !== end && isInQuietHours(local.minutes, start, end)) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Returns the first instant (>= date) at which sending is allowed for the timezone.
+ * Only window starts and quiet-hours ends can open a window, so those are the candidates.
+ *
+ * @param date - Reference instant
+ * @param timezone - Contact timezone (IANA)
+ * @param restrictions - Campaign window and global quiet hours
+ * @returns Next allowed instant, or null if none within SEARCH_DAYS
+ *
+ * @example
+ * ```typescript
+ * // Sexta 21:00 em São Paulo, janela Seg–Sex 09:00–19:00
+ * getNextSendTime(friday21h, 'America/Sao_Paulo', { window })
+ * // → segunda 09:00 (12:00 UTC)
+ * ```
+ */
+export function getNextSendTime(date: Date, timezone: string, restrictions: SendRestrictions): Date | null {
+  if (isSendAllowedAt(date, timezone, restrictions)) return date
+
+  const boundaries = [restrictions.window?.start, restrictions.quietHours?.end]
+    .map((time) => (time ? parseTimeToMinutes(time) : null))
+    .filter((minutes): minutes is number => minutes !== null)
+    .sort((a, b) => a - b)
+
+  const today = getZonedParts(date, timezone)
+  for (let offset = 0; offset <= SEND_WINDOW_RULES.SEARCH_DAYS; offset++) {
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset))
+    for (const minutes of boundaries) {
+      const candidate = zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), minutes, timezone)
+      if (candidate.getTime() > date.getTime() && isSendAllowedAt(candidate, timezone, restrictions)) {
+        return candidate
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Splits contacts into "send now" and "hold until <time>" groups.
+ * The next window is computed once per timezone.
+ *
+ * @param contacts - Contacts to plan
+ * @param now - Reference instant
+ * @param restrictions - Campaign window and global quiet hours
+ * @param fallbackTimezone - Timezone for contacts without inferable timezone
+ * @returns Send time plan
+ */
+export function planContactSendTimes<T extends { phone: string; custom_fields?: Record<string, unknown> | null }>(
+  contacts: T[],
+  now: Date,
+  restrictions: SendRestrictions,
+  fallbackTimezone: string = SEND_WINDOW_RULES.DEFAULT_TIMEZONE
+): SendTimePlan<T> {
+  const plan: SendTimePlan<T> = { ready: [], held: [], unreachable: [] }
+  if (!restrictions.window && !restrictions.quietHours) {
+    plan.ready = [...contacts]
+    return plan
+  }
+
+  const nextByTimezone = new Map<string, Date | null>()
+  const heldByTime = new Map<string, T[]>()
+
+  for (const contact of contacts) {
+    const timezone = resolveContactTimezone(contact.phone, contact.custom_fields, fallbackTimezone)
+    if (!nextByTimezone.has(timezone)) {
+      nextByTimezone.set(timezone, getNextSendTime(now, timezone, restrictions))
+    }
+
+    const next = nextByTimezone.get(timezone)
+    if (!next) {
+      plan.unreachable.push(contact)
+    } else if (next.getTime() <= now.getTime()) {
+      plan.ready.push(contact)
+    } else {
+      const key = next.toISOString()
+      if (!heldByTime.has(key)) heldByTime.set(key, [])
+      heldByTime.get(key)!.push(contact)
+    }
+  }
+
+  plan.held = Array.from(heldByTime.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([releaseAt, group]) => ({ releaseAt, contacts: group }))
+
+  return plan
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ENGAGEMENT_RULES,
+  computeEngagementScore,
+  resolveLifecycleStage,
+  shouldSkipForEngagement,
+} from './engagement'
+
+const now = new Date('2026-10-19T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 86_400_000).toISOString()
+
+describe('computeEngagementScore', () => {
+  it('soma os pesos por evento', () => {
+    expect(computeEngagementScore({ delivered: 4, read: 2, replied: 1 })).toBe(18)
+    expect(computeEngagementScore({})).toBe(0)
+  })
+
+  it('limita ao score máximo', () => {
+    expect(computeEngagementScore({ flowSubmitted: 50 })).toBe(ENGAGEMENT_RULES.MAX_SCORE)
+  })
+})
+
+describe('resolveLifecycleStage', () => {
+  it('classifica pelo último engajamento', () => {
+    expect(resolveLifecycleStage({ createdAt: daysAgo(400), lastEngagedAt: daysAgo(3) }, now)).toBe('engaged')
+    expect(resolveLifecycleStage({ createdAt: daysAgo(400), lastEngagedAt: daysAgo(60) }, now)).toBe('dormant')
+    expect(resolveLifecycleStage({ createdAt: daysAgo(400), lastEngagedAt: daysAgo(200) }, now)).toBe('churned')
+  })
+
+  it('usa a data de criação quando o contato nunca engajou', () => {
+    expect(resolveLifecycleStage({ createdAt: daysAgo(5), lastEngagedAt: null }, now)).toBe('new')
+    expect(resolveLifecycleStage({ createdAt: daysAgo(90), lastEngagedAt: null }, now)).toBe('dormant')
+    expect(resolveLifecycleStage({ createdAt: daysAgo(365), lastEngagedAt: null }, now)).toBe('churned')
+  })
+})
+
+describe('shouldSkipForEngagement', () => {
+  it('pula dormentes e perdidos apenas em templates de marketing', () => {
+    const options = { skipDormant: true, templateCategory: 'MARKETING' }
+    expect(shouldSkipForEngagement('dormant', options)).toBe(true)
+    expect(shouldSkipForEngagement('churned', options)).toBe(true)
+    expect(shouldSkipForEngagement('engaged', options)).toBe(false)
+    expect(shouldSkipForEngagement('new', options)).toBe(false)
+    expect(shouldSkipForEngagement('dormant', { skipDormant: true, templateCategory: 'UTILITY' })).toBe(false)
+  })
+
+  it('não pula quando a campanha não optou', () => {
+    expect(shouldSkipForEngagement('churned', { skipDormant: false, templateCategory: 'MARKETING' })).toBe(false)
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Contact Engagement Module
+ *
+ * Engagement score (0-100) and lifecycle stage rules.
+ * The scheduled refresh runs in Postgres (`refresh_contact_engagement`) and
+ * receives ENGAGEMENT_RULES as parameters, so these constants are the single
+ * source of truth for both the database job and the UI.
+ */
+
+import type { ContactLifecycleStage } from '@/types'
+
+/**
+ * Weights, windows and stage thresholds.
+ */
+export const ENGAGEMENT_RULES = {
+  /** Only events inside this window count towards the score */
+  WINDOW_DAYS: 90,
+  /** Score cap */
+  MAX_SCORE: 100,
+  /** Points per event inside the window */
+  WEIGHTS: {
+    delivered: 1,
+    read: 3,
+    clicked: 5,
+    replied: 8,
+    flowSubmitted: 10,
+    leadCaptured: 10,
+  },
+  /** Contacts without engagement created within this period are "new" */
+  NEW_DAYS: 30,
+  /** Last engagement within this period = "engaged" */
+  ENGAGED_DAYS: 30,
+  /** Beyond this period without engagement = "churned" (between ENGAGED_DAYS and this = "dormant") */
+  CHURNED_DAYS: 180,
+  /** Daily refresh (cron, America/Sao_Paulo) */
+  REFRESH_CRON: '0 5 * * *',
+} as const
+
+/**
+ * Engagement event counts inside the scoring window.
+ */
+export interface EngagementSignals {
+  delivered?: number
+  read?: number
+  clicked?: number
+  replied?: number
+  flowSubmitted?: number
+  leadCaptured?: number
+}
+
+/**
+ * Lifecycle stages in display order.
+ */
+export const LIFECYCLE_STAGES: ContactLifecycleStage[] = ['new', 'engaged', 'dormant', 'churned']
+
+/**
+ * Human-readable labels (Portuguese).
+ */
+export const LIFECYCLE_STAGE_LABELS: Record<ContactLifecycleStage, string> = {
+  new: 'Novo',
+  engaged: 'Engajado',
+  dormant: 'Dormente',
+  churned: 'Perdido',
+}
+
+/**
+ * Computes the engagement score from event counts (capped at MAX_SCORE).
+ *
+ * @example
+ * ```ts
+ * computeEngagementScore({ delivered: 4, read: 2, replied: 1 }) // 4 + 6 + 8 = 18
+ * ```
+ */
+export function computeEngagementScore(signals: EngagementSignals): number {
+  const w = ENGAGEMENT_RULES.WEIGHTS
+  const raw =
+    (signals.delivered || 0) * w.delivered +
+    (signals.read || 0) * w.read +
+    (signals.clicked || 0) * w.clicked +
+    (signals.replied || 0) * w.replied +
+    (signals.flowSubmitted || 0) * w.flowSubmitted +
+    (signals.leadCaptured || 0) * w.leadCaptured
+
+  return Math.max(0, Math.min(ENGAGEMENT_RULES.MAX_SCORE, Math.round(raw)))
+}
+
+const daysBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 86_400_000
+
+/**
+ * Resolves the lifecycle stage from the last engagement (read, click, reply,
+ * flow submission or lead capture — delivery alone does not count).
+ *
+ * @param input.createdAt - Contact creation date
+ * @param input.lastEngagedAt - Last engagement date (null = never engaged)
+ * @param now - Reference date
+ */
+export function resolveLifecycleStage(
+  input: { createdAt?: string | Date | null; lastEngagedAt?: string | Date | null },
+  now: Date = new Date()
+): ContactLifecycleStage {
+  const lastEngaged = input.lastEngagedAt ? new Date(input.lastEngagedAt) : null
+
+  if (lastEngaged && !Number.isNaN(lastEngaged.getTime())) {
+    const idle = daysBetween(lastEngaged, now)
+    if (idle <= ENGAGEMENT_RULES.ENGAGED_DAYS) return 'engaged'
+    return idle <= ENGAGEMENT_RULES.CHURNED_DAYS ? 'dormant' : 'churned'
+  }
+
+  const created = input.createdAt ? new Date(input.createdAt) : null
+  const age = created && !Number.isNaN(created.getTime()) ? daysBetween(created, now) : 0
+  if (age <= ENGAGEMENT_RULES.NEW_DAYS) return 'new'
+  return age <= ENGAGEMENT_RULES.CHURNED_DAYS ? 'dormant' : 'churned'
+}
+
+/**
+ * Whether the contact should be skipped when a campaign opts out of dormant contacts.
+ * Only marketing templates are affected (utility/authentication keep flowing).
+ */
+export function shouldSkipForEngagement(
+  stage: ContactLifecycleStage | null | undefined,
+  options: { skipDormant?: boolean; templateCategory?: string | null }
+): boolean {
+  if (!options.skipDormant) return false
+  if (String(options.templateCategory || '').toUpperCase() !== 'MARKETING') return false
+  return stage === 'dormant' || stage === 'churned'
+}
+
+/**
+ * Payload for the `refresh_contact_engagement` RPC.
+ */
+export function buildEngagementRefreshParams() {
+  const w = ENGAGEMENT_RULES.WEIGHTS
+  return {
+    window_days: ENGAGEMENT_RULES.WINDOW_DAYS,
+    max_score: ENGAGEMENT_RULES.MAX_SCORE,
+    new_days: ENGAGEMENT_RULES.NEW_DAYS,
+    engaged_days: ENGAGEMENT_RULES.ENGAGED_DAYS,
+    churned_days: ENGAGEMENT_RULES.CHURNED_DAYS,
+    w_delivered: w.delivered,
+    w_read: w.read,
+    w_clicked: w.clicked,
+    w_replied: w.replied,
+    w_flow: w.flowSubmitted,
+    w_lead: w.leadCaptured,
+  }
+}
@@ -65,3 +65,15 @@ export {
   filterContacts,
   type ContactFilterCriteria,
 } from './filtering'
+
+// Engagement
+export {
+  ENGAGEMENT_RULES,
+  LIFECYCLE_STAGES,
+  LIFECYCLE_STAGE_LABELS,
+  computeEngagementScore,
+  resolveLifecycleStage,
+  shouldSkipForEngagement,
+  buildEngagementRefreshParams,
+  type EngagementSignals,
+} from './engagement'
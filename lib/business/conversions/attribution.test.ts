@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_ATTRIBUTION_CONFIG,
+  attributeConversion,
+  computeConversionMetrics,
+  validateAttributionConfig,
+} from './attribution'
+
+const occurredAt = '2026-10-10T12:00:00.000Z'
+
+describe('attributeConversion', () => {
+  it('atribui à campanha com o toque mais recente dentro da janela', () => {
+    const result = attributeConversion({
+      occurredAt,
+      config: DEFAULT_ATTRIBUTION_CONFIG,
+      campaignTouches: [
+        { campaignId: 'antiga', deliveredAt: '2026-10-05T09:00:00.000Z', clickedAt: '2026-10-06T10:00:00.000Z' },
+        { campaignId: 'recente', deliveredAt: '2026-10-09T09:00:00.000Z', clickedAt: null },
+        { campaignId: 'fora', deliveredAt: '2026-09-01T09:00:00.000Z', clickedAt: null },
+      ],
+    })
+
+    expect(result).toEqual({
+      attribution: 'campaign',
+      touch: 'delivered',
+      touchedAt: '2026-10-09T09:00:00.000Z',
+      campaignId: 'recente',
+      conversationId: null,
+      aiAgentId: null,
+    })
+  })
+
+  it('ignora toques depois da conversão e prefere o clique no empate', () => {
+    const result = attributeConversion({
+      occurredAt,
+      config: DEFAULT_ATTRIBUTION_CONFIG,
+      campaignTouches: [
+        { campaignId: 'depois', deliveredAt: '2026-10-11T09:00:00.000Z', clickedAt: null },
+        { campaignId: 'c1', deliveredAt: '2026-10-08T09:00:00.000Z', clickedAt: '2026-10-08T09:00:00.000Z' },
+      ],
+    })
+
+    expect(result.campaignId).toBe('c1')
+    expect(result.touch).toBe('clicked')
+  })
+
+  it('cai para a conversa do inbox quando não há campanha na janela', () => {
+    const conversationTouches = [
+      { conversationId: 'conv-1', aiAgentId: 'agent-1', lastMessageAt: '2026-10-09T15:00:00.000Z' },
+      { conversationId: 'conv-0', aiAgentId: null, lastMessageAt: '2026-10-04T15:00:00.000Z' },
+    ]
+
+    expect(attributeConversion({ occurredAt, config: DEFAULT_ATTRIBUTION_CONFIG, conversationTouches })).toMatchObject({
+      attribution: 'conversation',
+      touch: 'conversation',
+      conversationId: 'conv-1',
+      aiAgentId: 'agent-1',
+    })
+
+    expect(
+      attributeConversion({
+        occurredAt,
+        config: { ...DEFAULT_ATTRIBUTION_CONFIG, includeConversations: false },
+        conversationTouches,
+      }).attribution
+    ).toBe('none')
+  })
+
+  it('respeita a janela configurada', () => {
+    const campaignTouches = [{ campaignId: 'c1', deliveredAt: '2026-10-08T11:00:00.000Z', clickedAt: null }]
+
+    expect(attributeConversion({ occurredAt, config: { windowDays: 3, includeConversations: true }, campaignTouches }).attribution).toBe('campaign')
+    expect(attributeConversion({ occurredAt, config: { windowDays: 1, includeConversations: true }, campaignTouches }).attribution).toBe('none')
+  })
+})
+
+describe('computeConversionMetrics / validateAttributionConfig', () => {
+  it('calcula ROAS e custo por conversão', () => {
+    expect(computeConversionMetrics({ revenue: 500, conversions: 4, cost: 100 })).toEqual({ roas: 5, costPerConversion: 25 })
+    expect(computeConversionMetrics({ revenue: 500, conversions: 0, cost: 0 })).toEqual({ roas: null, costPerConversion: null })
+  })
+
+  it('limita a janela de atribuição', () => {
+    expect(validateAttributionConfig({ windowDays: 7 }).valid).toBe(true)
+    expect(validateAttributionConfig({ windowDays: 0 }).valid).toBe(false)
+    expect(validateAttributionConfig({ windowDays: 120 }).valid).toBe(false)
+  })
+})
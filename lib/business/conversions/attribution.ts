@@ -0,0 +1,202 @@
+/**
+ * Conversion Attribution Module
+ *
+ * Last-touch attribution of sales/orders. A conversion goes to the campaign
+ * most recently delivered to (or clicked by) the contact within the configured
+ * window; without one, it falls back to the inbox conversation (and AI agent)
+ * that last handled the contact. Also computes revenue metrics (ROAS, cost per
+ * conversion) against the campaign cost.
+ */
+
+import type {
+  ConversionAttribution,
+  ConversionAttributionConfig,
+  ConversionTouch,
+} from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const CONVERSION_RULES = {
+  MIN_WINDOW_DAYS: 1,
+  MAX_WINDOW_DAYS: 90,
+  /** Upper bound for a single conversion value */
+  MAX_VALUE: 1_000_000_000,
+  MAX_ORDER_ID_LENGTH: 200,
+} as const
+
+export const DEFAULT_ATTRIBUTION_CONFIG: ConversionAttributionConfig = {
+  windowDays: 7,
+  includeConversations: true,
+}
+
+export const CONVERSION_ATTRIBUTION_LABELS: Record<ConversionAttribution, string> = {
+  campaign: 'Campanha',
+  conversation: 'Atendimento',
+  none: 'Não atribuída',
+}
+
+export const CONVERSION_TOUCH_LABELS: Record<ConversionTouch, string> = {
+  clicked: 'Clique no link',
+  delivered: 'Mensagem entregue',
+  conversation: 'Conversa no inbox',
+}
+
+/** Campaign message received by the contact (campaign_contacts row) */
+export interface CampaignTouchCandidate {
+  campaignId: string
+  deliveredAt: string | null
+  clickedAt: string | null
+}
+
+/** Inbox conversation with the contact */
+export interface ConversationTouchCandidate {
+  conversationId: string
+  aiAgentId: string | null
+  lastMessageAt: string | null
+}
+
+export interface AttributionResult {
+  attribution: ConversionAttribution
+  touch: ConversionTouch | null
+  touchedAt: string | null
+  campaignId: string | null
+  conversationId: string | null
+  aiAgentId: string | null
+}
+
+export interface ConversionMetrics {
+  /** Revenue / cost (null when the cost is unknown or zero) */
+  roas: number | null
+  /** Cost / conversions (null without conversions) */
+  costPerConversion: number | null
+}
+
+const UNATTRIBUTED: AttributionResult = {
+  attribution: 'none',
+  touch: null,
+  touchedAt: null,
+  campaignId: null,
+  conversationId: null,
+  aiAgentId: null,
+}
+
+function toTime(value: string | null | undefined): number | null {
+  if (!value) return null
+  const t = new Date(value).getTime()
+  return Number.isFinite(t) ? t : null
+}
+
+/**
+ * Validates the attribution settings.
+ */
+export function validateAttributionConfig(
+  config: Partial<ConversionAttributionConfig>
+): { valid: boolean; reason?: string } {
+  const days = Number(config.windowDays)
+  if (
+    !Number.isInteger(days) ||
+    days < CONVERSION_RULES.MIN_WINDOW_DAYS ||
+    days > CONVERSION_RULES.MAX_WINDOW_DAYS
+  ) {
+    return {
+      valid: false,
+      reason: `Janela de atribuição deve ter entre ${CONVERSION_RULES.MIN_WINDOW_DAYS} e ${CONVERSION_RULES.MAX_WINDOW_DAYS} dias`,
+    }
+  }
+  return { valid: true }
+}
+
+/**
+ * Picks the touch that gets credit for a conversion.
+ * Campaign touches win over conversations; within each kind the most recent
+ * touch inside [occurredAt - windowDays, occurredAt] wins (clicks win ties).
+ *
+ * @example
+ * ```ts
+ * attributeConversion({
+ *   occurredAt: '2026-10-10T12:00:00Z',
+ *   config: { windowDays: 7, includeConversations: true },
+ *   campaignTouches: [{ campaignId: 'c1', deliveredAt: '2026-10-08T09:00:00Z', clickedAt: null }],
+ * })
+ * // { attribution: 'campaign', touch: 'delivered', campaignId: 'c1', ... }
+ * ```
+ */
+export function attributeConversion(input: {
+  occurredAt: string
+  config: ConversionAttributionConfig
+  campaignTouches?: CampaignTouchCandidate[]
+  conversationTouches?: ConversationTouchCandidate[]
+}): AttributionResult {
+  const end = toTime(input.occurredAt)
+  if (end === null) return UNATTRIBUTED
+  const start = end - input.config.windowDays * DAY_MS
+  const inWindow = (t: number | null): t is number => t !== null && t >= start && t <= end
+
+  let best: { at: number; touch: ConversionTouch; campaignId: string } | null = null
+  for (const candidate of input.campaignTouches || []) {
+    const touches: Array<[ConversionTouch, number | null]> = [
+      ['clicked', toTime(candidate.clickedAt)],
+      ['delivered', toTime(candidate.deliveredAt)],
+    ]
+    for (const [touch, at] of touches) {
+      if (!inWindow(at)) continue
+      if (!best || at > best.at || (at === best.at && touch === 'clicked' && best.touch !== 'clicked')) {
+        best = { at, touch, campaignId: candidate.campaignId }
+      }
+    }
+  }
+
+  if (best) {
+    return {
+      ...UNATTRIBUTED,
+      attribution: 'campaign',
+      touch: best.touch,
+      touchedAt: new Date(best.at).toISOString(),
+      campaignId: best.campaignId,
+    }
+  }
+
+  if (!input.config.includeConversations) return UNATTRIBUTED
+
+  let conversation: { at: number; candidate: ConversationTouchCandidate } | null = null
+  for (const candidate of input.conversationTouches || []) {
+    const at = toTime(candidate.lastMessageAt)
+    if (!inWindow(at)) continue
+    if (!conversation || at > conversation.at) conversation = { at, candidate }
+  }
+
+  if (!conversation) return UNATTRIBUTED
+
+  return {
+    ...UNATTRIBUTED,
+    attribution: 'conversation',
+    touch: 'conversation',
+    touchedAt: new Date(conversation.at).toISOString(),
+    conversationId: conversation.candidate.conversationId,
+    aiAgentId: conversation.candidate.aiAgentId,
+  }
+}
+
+/**
+ * Revenue metrics for a campaign.
+ *
+ * @example
+ * ```ts
+ * computeConversionMetrics({ revenue: 500, conversions: 4, cost: 100 })
+ * // { roas: 5, costPerConversion: 25 }
+ * ```
+ */
+export function computeConversionMetrics(input: {
+  revenue: number
+  conversions: number
+  cost: number
+}): ConversionMetrics {
+  const revenue = Math.max(0, Number(input.revenue) || 0)
+  const conversions = Math.max(0, Number(input.conversions) || 0)
+  const cost = Math.max(0, Number(input.cost) || 0)
+
+  return {
+    roas: cost > 0 ? revenue / cost : null,
+    costPerConversion: conversions > 0 ? cost / conversions : null,
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Conversions Business Logic
+ *
+ * @module lib/business/conversions
+ */
+
+export {
+  CONVERSION_RULES,
+  DEFAULT_ATTRIBUTION_CONFIG,
+  CONVERSION_ATTRIBUTION_LABELS,
+  CONVERSION_TOUCH_LABELS,
+  validateAttributionConfig,
+  attributeConversion,
+  computeConversionMetrics,
+  type CampaignTouchCandidate,
+  type ConversationTouchCandidate,
+  type AttributionResult,
+  type ConversionMetrics,
+} from './attribution'
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CRM_PROVIDER_IDS,
+  CRM_SYNC_MAX_ATTEMPTS,
+  DEFAULT_CRM_FIELD_MAPPINGS,
+  getCrmSyncRetryDelaySeconds,
+  getCustomFieldKey,
+  isCrmEventType,
+  isCrmProvider,
+  maskCrmToken,
+} from './connectors'
+
+describe('catálogo', () => {
+  it('reconhece provedores e eventos', () => {
+    expect(isCrmProvider('hubspot')).toBe(true)
+    expect(isCrmProvider('salesforce')).toBe(false)
+    expect(isCrmEventType('campaign.read')).toBe(true)
+    expect(isCrmEventType('message.received')).toBe(false)
+  })
+
+  it('todo provedor tem mapeamento padrão', () => {
+    for (const provider of CRM_PROVIDER_IDS) {
+      expect(DEFAULT_CRM_FIELD_MAPPINGS[provider].length).toBeGreaterThan(0)
+    }
+  })
+})
+
+describe('getCrmSyncRetryDelaySeconds', () => {
+  it('multiplica o intervalo e para depois da última tentativa', () => {
+    expect(getCrmSyncRetryDelaySeconds(1)).toBe(60)
+    expect(getCrmSyncRetryDelaySeconds(2)).toBe(300)
+    expect(getCrmSyncRetryDelaySeconds(CRM_SYNC_MAX_ATTEMPTS)).toBeNull()
+    expect(getCrmSyncRetryDelaySeconds(0)).toBeNull()
+  })
+})
+
+describe('getCustomFieldKey', () => {
+  it('extrai a chave dos campos personalizados', () => {
+    expect(getCustomFieldKey('custom:plano')).toBe('plano')
+    expect(getCustomFieldKey('custom:')).toBeNull()
+    expect(getCustomFieldKey('email')).toBeNull()
+  })
+})
+
+describe('maskCrmToken', () => {
+  it('mostra só o final do token', () => {
+    expect(maskCrmToken('pat-na1-abcdef1234')).toBe('••••1234')
+    expect(maskCrmToken('abc')).toBe('••••')
+    expect(maskCrmToken('')).toBe('')
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * CRM Connectors Module
+ *
+ * Provider catalog, pushed event types, default field mappings and the retry
+ * schedule of the CRM sync. API calls live in lib/crm (server only);
+ * everything here is safe to import from the settings page.
+ */
+
+import type { CrmEventType, CrmFieldMapping, CrmProvider, CrmSyncLogStatus } from '@/types'
+
+export interface CrmProviderInfo {
+  label: string
+  /** Production API base URL (a connector may override it, e.g. a local mock server) */
+  defaultBaseUrl: string
+  tokenLabel: string
+  /** What a "list" is on this CRM (target of the tag mapping) */
+  listLabel: string
+  /** Contacts can be imported by polling the CRM for recent changes */
+  supportsImport: boolean
+  /** The CRM can call our inbound webhook when a contact changes */
+  supportsInboundWebhook: boolean
+  /** The CRM identifies contacts by email (contacts without email are skipped) */
+  requiresEmail: boolean
+}
+
+export const CRM_PROVIDERS: Record<CrmProvider, CrmProviderInfo> = {
+  hubspot: {
+    label: 'HubSpot',
+    defaultBaseUrl: 'https://api.hubapi.com',
+    tokenLabel: 'Token do app privado',
+    listLabel: 'ID da lista',
+    supportsImport: true,
+    supportsInboundWebhook: false,
+    requiresEmail: false,
+  },
+  rdstation: {
+    label: 'RD Station Marketing',
+    defaultBaseUrl: 'https://api.rd.services',
+    tokenLabel: 'Access token',
+    listLabel: 'Tag no RD Station',
+    supportsImport: false,
+    supportsInboundWebhook: true,
+    requiresEmail: true,
+  },
+  pipedrive: {
+    label: 'Pipedrive',
+    defaultBaseUrl: 'https://api.pipedrive.com',
+    tokenLabel: 'Token da API',
+    listLabel: 'ID da etiqueta',
+    supportsImport: true,
+    supportsInboundWebhook: true,
+    requiresEmail: false,
+  },
+}
+
+export const CRM_PROVIDER_IDS = Object.keys(CRM_PROVIDERS) as CrmProvider[]
+
+export const CRM_EVENT_TYPES: CrmEventType[] = [
+  'campaign.delivered',
+  'campaign.read',
+  'conversation.summary',
+  'flow.submitted',
+]
+
+export const CRM_EVENT_LABELS: Record<CrmEventType, string> = {
+  'campaign.delivered': 'Campanha entregue',
+  'campaign.read': 'Campanha lida',
+  'conversation.summary': 'Resumo da conversa encerrada no inbox',
+  'flow.submitted': 'Flow respondido',
+}
+
+export const CRM_SYNC_LOG_STATUS_LABELS: Record<CrmSyncLogStatus, string> = {
+  pending: 'Pendente',
+  success: 'Sincronizado',
+  failed: 'Falhou',
+  skipped: 'Ignorado',
+}
+
+/** Contact fields that can be mapped besides custom fields (custom:<key>) */
+export const CRM_CONTACT_FIELDS = [
+  { value: 'name', label: 'Nome' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Telefone' },
+] as const
+
+export const CRM_CUSTOM_FIELD_PREFIX = 'custom:'
+
+export const DEFAULT_CRM_FIELD_MAPPINGS: Record<CrmProvider, CrmFieldMapping[]> = {
+  hubspot: [
+    { field: 'name', crmField: 'firstname', direction: 'both' },
+    { field: 'email', crmField: 'email', direction: 'both' },
+    { field: 'phone', crmField: 'phone', direction: 'push' },
+  ],
+  rdstation: [
+    { field: 'name', crmField: 'name', direction: 'both' },
+    { field: 'phone', crmField: 'mobile_phone', direction: 'push' },
+  ],
+  pipedrive: [
+    { field: 'name', crmField: 'name', direction: 'both' },
+    { field: 'email', crmField: 'email', direction: 'both' },
+    { field: 'phone', crmField: 'phone', direction: 'push' },
+  ],
+}
+
+/** Attempts per sync before it is marked as failed (first try included) */
+export const CRM_SYNC_MAX_ATTEMPTS = 4
+
+/** Base delay of the first retry; each retry waits 5x longer */
+export const CRM_SYNC_RETRY_BASE_SECONDS = 60
+
+export function isCrmProvider(value: unknown): value is CrmProvider {
+  return typeof value === 'string' && value in CRM_PROVIDERS
+}
+
+export function isCrmEventType(value: unknown): value is CrmEventType {
+  return typeof value === 'string' && (CRM_EVENT_TYPES as string[]).includes(value)
+}
+
+/**
+ * Delay before the next attempt, given how many attempts were already made.
+ * Returns null when no retries are left.
+ *
+ * @example getCrmSyncRetryDelaySeconds(1) // 60, then 300, 1500
+ */
+export function getCrmSyncRetryDelaySeconds(attemptsMade: number): number | null {
+  if (attemptsMade < 1 || attemptsMade >= CRM_SYNC_MAX_ATTEMPTS) return null
+  return CRM_SYNC_RETRY_BASE_SECONDS * 5 ** (attemptsMade - 1)
+}
+
+/**
+ * Custom field key of a mapped field (`custom:plano` -> `plano`), or null for
+ * the built-in contact fields.
+ */
+export function getCustomFieldKey(field: string): string | null {
+  if (!field.startsWith(CRM_CUSTOM_FIELD_PREFIX)) return null
+  const key = field.slice(CRM_CUSTOM_FIELD_PREFIX.length).trim()
+  return key || null
+}
+
+/**
+ * Keeps the last 4 characters of a token, for display.
+ */
+export function maskCrmToken(token: string): string {
+  const value = token.trim()
+  if (!value) return ''
+  return value.length <= 4 ? '••••' : `••••${value.slice(-4)}`
+}
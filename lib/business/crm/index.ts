@@ -0,0 +1,35 @@
+/**
+ * CRM Connectors Business Logic
+ *
+ * @module lib/business/crm
+ */
+
+export {
+  CRM_PROVIDERS,
+  CRM_PROVIDER_IDS,
+  CRM_EVENT_TYPES,
+  CRM_EVENT_LABELS,
+  CRM_SYNC_LOG_STATUS_LABELS,
+  CRM_CONTACT_FIELDS,
+  CRM_CUSTOM_FIELD_PREFIX,
+  DEFAULT_CRM_FIELD_MAPPINGS,
+  CRM_SYNC_MAX_ATTEMPTS,
+  CRM_SYNC_RETRY_BASE_SECONDS,
+  isCrmProvider,
+  isCrmEventType,
+  getCrmSyncRetryDelaySeconds,
+  getCustomFieldKey,
+  maskCrmToken,
+  type CrmProviderInfo,
+} from './connectors'
+
+export {
+  parseCrmBoolean,
+  buildCrmContactPayload,
+  readCrmContactRecord,
+  formatCrmTimelineEntry,
+  type CrmContactSource,
+  type CrmContactPayload,
+  type CrmContactUpdate,
+  type CrmTimelineEntry,
+} from './mapping'
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { buildCrmContactPayload, formatCrmTimelineEntry, parseCrmBoolean, readCrmContactRecord } from './mapping'
+import type { CrmFieldMapping } from '@/types'
+
+const fieldMappings: CrmFieldMapping[] = [
+  { field: 'name', crmField: 'firstname', direction: 'both' },
+  { field: 'email', crmField: 'email', direction: 'pull' },
+  { field: 'phone', crmField: 'phone', direction: 'push' },
+  { field: 'custom:plano', crmField: 'plan', direction: 'both' },
+]
+
+const config = {
+  fieldMappings,
+  listMappings: [
+    { tag: 'VIP', list: '12' },
+    { tag: 'lead', list: '34' },
+    { tag: 'cliente', list: '12' },
+  ],
+  optOutField: 'whatsapp_opt_out',
+}
+
+describe('buildCrmContactPayload', () => {
+  it('envia só campos push/both com valor e converte tags em listas', () => {
+    const payload = buildCrmContactPayload(
+      {
+        name: 'Ana',
+        email: 'ana@exemplo.com',
+        phone: '+5511999990000',
+        tags: ['vip', 'Cliente'],
+        custom_fields: { plano: 'Pro' },
+        optedOut: false,
+      },
+      config
+    )
+
+    expect(payload.properties).toEqual({
+      firstname: 'Ana',
+      phone: '+5511999990000',
+      plan: 'Pro',
+      whatsapp_opt_out: 'false',
+    })
+    expect(payload.lists).toEqual(['12'])
+  })
+
+  it('não apaga dados do CRM com campos vazios', () => {
+    const payload = buildCrmContactPayload({ phone: '+5511999990000', tags: [], optedOut: true }, config)
+    expect(payload.properties).toEqual({ phone: '+5511999990000', whatsapp_opt_out: 'true' })
+    expect(payload.lists).toEqual([])
+  })
+})
+
+describe('readCrmContactRecord', () => {
+  const record = {
+    externalId: '901',
+    phone: '+5511999990000',
+    email: 'ana@exemplo.com',
+    properties: { firstname: 'Ana Paula', email: 'ana@exemplo.com', phone: '+5511888880000', plan: 'Enterprise', whatsapp_opt_out: 'true' },
+    updatedAt: null,
+  }
+
+  it('lê só campos pull/both e nunca troca o telefone', () => {
+    expect(readCrmContactRecord(record, config)).toEqual({
+      name: 'Ana Paula',
+      email: 'ana@exemplo.com',
+      customFields: { plano: 'Enterprise' },
+      optedOut: true,
+    })
+  })
+
+  it('opt-in do CRM não reativa o contato', () => {
+    const update = readCrmContactRecord({ ...record, properties: { whatsapp_opt_out: 'false' } }, config)
+    expect(update.optedOut).toBeNull()
+  })
+})
+
+describe('parseCrmBoolean', () => {
+  it('reconhece checkbox e enum comuns', () => {
+    expect(parseCrmBoolean('true')).toBe(true)
+    expect(parseCrmBoolean('Sim')).toBe(true)
+    expect(parseCrmBoolean('0')).toBe(false)
+    expect(parseCrmBoolean('talvez')).toBeNull()
+    expect(parseCrmBoolean(null)).toBeNull()
+  })
+})
+
+describe('formatCrmTimelineEntry', () => {
+  it('descreve entrega e leitura de campanha', () => {
+    const entry = formatCrmTimelineEntry('campaign.read', {
+      campaign_name: 'Black Friday',
+      occurred_at: '2026-10-19T12:00:00Z',
+    })
+    expect(entry.title).toBe('WhatsApp: campanha lida')
+    expect(entry.body).toContain('Campanha "Black Friday" lida')
+  })
+
+  it('lista as respostas do flow sem o flow_token', () => {
+    const entry = formatCrmTimelineEntry('flow.submitted', {
+      flow_name: 'Cadastro',
+      response: { nome: 'Ana', flow_token: 'abc', vazio: '' },
+    })
+    expect(entry.body).toContain('nome: Ana')
+    expect(entry.body).not.toContain('flow_token')
+    expect(entry.body).not.toContain('vazio')
+  })
+
+  it('resume a conversa encerrada', () => {
+    const entry = formatCrmTimelineEntry('conversation.summary', {
+      message_count: 8,
+      assigned_to: 'Carla',
+      labels: ['Suporte'],
+      summary: 'Cliente pediu segunda via',
+    })
+    expect(entry.body).toContain('Mensagens: 8')
+    expect(entry.body).toContain('Atendente: Carla')
+    expect(entry.body).toContain('Etiquetas: Suporte')
+    expect(entry.body).toContain('Resumo: Cliente pediu segunda via')
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * CRM Field Mapping Module
+ *
+ * Turns a contact into CRM properties/lists (push) and a CRM record back into
+ * contact updates (pull), following the connector's mapping. Also builds the
+ * text of the timeline entries for WhatsApp events.
+ */
+
+import type { Contact, CrmConnector, CrmContactRecord, CrmEventType, CrmFieldMapping } from '@/types'
+import { getCustomFieldKey } from './connectors'
+
+type MappingConfig = Pick<CrmConnector, 'fieldMappings' | 'listMappings' | 'optOutField'>
+
+export type CrmContactSource = Pick<Contact, 'phone' | 'tags'> &
+  Partial<Pick<Contact, 'name' | 'email' | 'custom_fields'>> & {
+    /** Contact status is Opt-out or the phone has an active suppression */
+    optedOut: boolean
+  }
+
+export interface CrmContactPayload {
+  properties: Record<string, string>
+  /** CRM lists the contact belongs to (from the tag mapping) */
+  lists: string[]
+}
+
+export interface CrmContactUpdate {
+  name?: string
+  email?: string
+  customFields: Record<string, string>
+  /** true = CRM says opted out; null = unknown (opt-in never comes from the CRM) */
+  optedOut: boolean | null
+}
+
+const TRUTHY = new Set(['true', '1', 'yes', 'sim', 'y', 's', 'opt-out', 'optout'])
+const FALSY = new Set(['false', '0', 'no', 'nao', 'não', 'n', 'opt-in', 'optin'])
+
+const pushes = (mapping: CrmFieldMapping) => mapping.direction !== 'pull'
+const pulls = (mapping: CrmFieldMapping) => mapping.direction !== 'push'
+
+function readContactField(contact: CrmContactSource, field: string): string {
+  const customKey = getCustomFieldKey(field)
+  if (customKey) {
+    const value = contact.custom_fields?.[customKey]
+    return value === undefined || value === null ? '' : String(value).trim()
+  }
+  if (field === 'name') return (contact.name || '').trim()
+  if (field === 'email') return (contact.email || '').trim()
+  if (field === 'phone') return contact.phone.trim()
+  return ''
+}
+
+/**
+ * Parses a CRM checkbox/enum value. Returns null when it is not recognizable.
+ */
+export function parseCrmBoolean(value: string | null | undefined): boolean | null {
+  const normalized = (value ?? '').trim().toLowerCase()
+  if (TRUTHY.has(normalized)) return true
+  if (FALSY.has(normalized)) return false
+  return null
+}
+
+/**
+ * Properties and lists sent to the CRM. Empty values are left out so a blank
+ * field never erases data that only exists on the CRM side.
+ */
+export function buildCrmContactPayload(contact: CrmContactSource, config: MappingConfig): CrmContactPayload {
+  const properties: Record<string, string> = {}
+
+  for (const mapping of config.fieldMappings) {
+    if (!pushes(mapping) || !mapping.crmField.trim()) continue
+    const value = readContactField(contact, mapping.field)
+    if (value) properties[mapping.crmField.trim()] = value
+  }
+
+  if (config.optOutField?.trim()) {
+    properties[config.optOutField.trim()] = contact.optedOut ? 'true' : 'false'
+  }
+
+  const tags = new Set((contact.tags || []).map((tag) => tag.trim().toLowerCase()))
+  const lists = config.listMappings
+    .filter((mapping) => mapping.list.trim() && tags.has(mapping.tag.trim().toLowerCase()))
+    .map((mapping) => mapping.list.trim())
+
+  return { properties, lists: Array.from(new Set(lists)) }
+}
+
+/**
+ * Contact updates read from a CRM record (only fields mapped as pull/both).
+ * The phone is the identity of the contact and is never overwritten.
+ */
+export function readCrmContactRecord(record: CrmContactRecord, config: MappingConfig): CrmContactUpdate {
+  const update: CrmContactUpdate = { customFields: {}, optedOut: null }
+
+  for (const mapping of config.fieldMappings) {
+    if (!pulls(mapping)) continue
+    const value = (record.properties[mapping.crmField.trim()] ?? '').trim()
+    if (!value) continue
+
+    const customKey = getCustomFieldKey(mapping.field)
+    if (customKey) update.customFields[customKey] = value
+    else if (mapping.field === 'name') update.name = value
+    else if (mapping.field === 'email') update.email = value
+  }
+
+  if (config.optOutField?.trim()) {
+    update.optedOut = parseCrmBoolean(record.properties[config.optOutField.trim()]) === true ? true : null
+  }
+
+  return update
+}
+
+export interface CrmTimelineEntry {
+  title: string
+  body: string
+}
+
+const str = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim())
+
+function formatDateTime(value: unknown): string {
+  const date = new Date(str(value) || Date.now())
+  if (Number.isNaN(date.getTime())) return str(value)
+  return date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' })
+}
+
+/**
+ * Title and body of the timeline entry (note/event) created on the CRM.
+ */
+export function formatCrmTimelineEntry(eventType: CrmEventType, data: Record<string, unknown>): CrmTimelineEntry {
+  const at = formatDateTime(data.occurred_at)
+
+  switch (eventType) {
+    case 'campaign.delivered':
+    case 'campaign.read': {
+      const verb = eventType === 'campaign.read' ? 'lida' : 'entregue'
+      const campaign = str(data.campaign_name) || 'sem nome'
+      return {
+        title: `WhatsApp: campanha ${verb}`,
+        body: `Campanha "${campaign}" ${verb} no WhatsApp em ${at}.`,
+      }
+    }
+
+    case 'conversation.summary': {
+      const lines = [`Conversa no WhatsApp encerrada em ${at}.`]
+      if (data.message_count !== undefined) lines.push(`Mensagens: ${str(data.message_count)}`)
+      if (str(data.assigned_to)) lines.push(`Atendente: ${str(data.assigned_to)}`)
+      if (Array.isArray(data.labels) && data.labels.length > 0) lines.push(`Etiquetas: ${data.labels.map(str).join(', ')}`)
+      if (str(data.summary)) lines.push(`Resumo: ${str(data.summary)}`)
+      if (str(data.last_message)) lines.push(`Última mensagem: ${str(data.last_message)}`)
+      return { title: 'WhatsApp: conversa encerrada', body: lines.join('\n') }
+    }
+
+    case 'flow.submitted': {
+      const flow = str(data.flow_name) || str(data.flow_id) || 'Flow'
+      const response = data.response && typeof data.response === 'object' ? (data.response as Record<string, unknown>) : {}
+      const answers = Object.entries(response)
+        .filter(([key, value]) => key !== 'flow_token' && str(value))
+        .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : str(value)}`)
+      return {
+        title: `WhatsApp: ${flow} respondido`,
+        body: [`Flow "${flow}" respondido no WhatsApp em ${at}.`, ...answers].join('\n'),
+      }
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest'
+import { INBOX_QUEUE_STRATEGY_LABELS } from './assignment'
+
+describe('INBOX_QUEUE_STRATEGY_LABELS', () => {
+  it('tem rótulo para cada estratégia de distribuição', () => {
+    expect(INBOX_QUEUE_STRATEGY_LABELS).toEqual({
+      round_robin: 'Rodízio',
+      least_busy: 'Menos ocupado',
+    })
+  })
+})
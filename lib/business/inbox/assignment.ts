@@ -0,0 +1,16 @@
+/**
+ * Inbox Assignment Module
+ *
+ * Queue distribution strategies used when a conversation is handed off to a
+ * human. The pick itself runs in the database (assign_conversation_from_queue)
+ * so it can lock the queue row: round robin starts right after the last
+ * assigned member; least busy picks the fewest open conversations, ties
+ * following the rotation order.
+ */
+
+import type { InboxQueueStrategy } from '@/types'
+
+export const INBOX_QUEUE_STRATEGY_LABELS: Record<InboxQueueStrategy, string> = {
+  round_robin: 'Rodízio',
+  least_busy: 'Menos ocupado',
+}
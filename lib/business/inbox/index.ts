@@ -0,0 +1,70 @@
+/**
+ * Inbox Business Logic
+ *
+ * @module lib/business/inbox
+ */
+
+export { INBOX_QUEUE_STRATEGY_LABELS } from './assignment'
+
+export {
+  SLA_WARNING_RATIO,
+  MAX_SLA_MINUTES,
+  SLA_PRIORITY_ORDER,
+  SLA_STATUS_LABELS,
+  DEFAULT_SLA_CONFIG,
+  validateSlaConfig,
+  getSlaState,
+  isFirstResponseBreached,
+  isResolutionBreached,
+  summarizeSla,
+  type SlaValidationResult,
+  type SlaState,
+  type SlaReportRow,
+} from './sla'
+
+export {
+  MEDIA_ANALYSIS_MAX_CHARS,
+  MEDIA_ANALYSIS_LABELS,
+  ANALYZABLE_MEDIA_TYPES,
+  parseInboundStructuredContent,
+  summarizeStructuredContent,
+  getLocationMapUrl,
+  getMessageStructuredContent,
+  getMessageMediaAnalysis,
+  truncateMediaText,
+  collectReactions,
+  formatMessageForAI,
+  type InboundStructuredContent,
+  type MessageReactionSummary,
+} from './message-content'
+
+export {
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  INBOX_SEARCH_MIN_CHARS,
+  INBOX_SEARCH_MAX_RESULTS,
+  INBOX_SEARCH_SOURCE_LABELS,
+  isSearchableQuery,
+  parseSearchHeadline,
+  toHighlightSegments,
+  type HighlightSegment,
+} from './search'
+
+export {
+  CUSTOMER_SERVICE_WINDOW_MS,
+  INBOX_SCHEDULE_MIN_LEAD_MS,
+  INBOX_SCHEDULE_MAX_DAYS,
+  INBOX_SCHEDULED_MESSAGE_MAX_CHARS,
+  INBOX_SCHEDULED_PROCESSING_TIMEOUT_MS,
+  INBOX_SCHEDULED_STATUS_LABELS,
+  FOLLOW_UP_PRESETS,
+  isSessionWindowOpen,
+  validateScheduledItem,
+  resolveScheduledDelivery,
+  isScheduledItemClaimable,
+  shouldTriggerFollowUp,
+  buildFallbackTemplateVariables,
+  getSchedulePresets,
+  type ScheduledDelivery,
+  type ScheduledItemValidationResult,
+} from './scheduling'
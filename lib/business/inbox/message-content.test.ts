@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+import type { InboxMessage } from '@/types'
+import {
+  collectReactions,
+  formatMessageForAI,
+  getMessageMediaAnalysis,
+  parseInboundStructuredContent,
+  summarizeStructuredContent,
+  truncateMediaText,
+} from './message-content'
+
+function makeMessage(overrides: Partial<InboxMessage>): InboxMessage {
+  return {
+    id: 'm1',
+    conversation_id: 'c1',
+    direction: 'inbound',
+    content: '',
+    message_type: 'text',
+    media_url: null,
+    whatsapp_message_id: null,
+    delivery_status: 'delivered',
+    ai_response_id: null,
+    ai_sentiment: null,
+    ai_sources: null,
+    payload: null,
+    created_at: '2026-10-19T12:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('parseInboundStructuredContent', () => {
+  it('extrai localização, contatos e reação do payload da Meta', () => {
+    expect(
+      parseInboundStructuredContent({
+        type: 'location',
+        location: { latitude: -23.561, longitude: -46.656, name: 'Loja Centro', address: 'Av. Paulista, 1000' },
+      })
+    ).toEqual({
+      location: { latitude: -23.561, longitude: -46.656, name: 'Loja Centro', address: 'Av. Paulista, 1000' },
+    })
+
+    expect(
+      parseInboundStructuredContent({
+        type: 'contacts',
+        contacts: [
+          {
+            name: { formatted_name: 'Maria Souza', first_name: 'Maria' },
+            phones: [{ phone: '+55 11 98888-7777', wa_id: '5511988887777', type: 'CELL' }],
+            emails: [{ email: 'maria@exemplo.com' }],
+            org: { company: 'ACME' },
+          },
+          { name: {} },
+        ],
+      }).contacts
+    ).toEqual([
+      {
+        name: 'Maria Souza',
+        phones: [{ phone: '+55 11 98888-7777', wa_id: '5511988887777', type: 'CELL' }],
+        emails: ['maria@exemplo.com'],
+        organization: 'ACME',
+      },
+    ])
+
+    expect(parseInboundStructuredContent({ type: 'reaction', reaction: { message_id: 'wamid.1' } })).toEqual({
+      reaction: { message_id: 'wamid.1', emoji: '' },
+    })
+  })
+
+  it('gera o texto de prévia de cada tipo', () => {
+    expect(summarizeStructuredContent('location', { location: { latitude: 1, longitude: 2, name: 'Loja' } })).toBe('📍 Loja')
+    expect(summarizeStructuredContent('contacts', { contacts: [{ name: 'Ana', phones: [], emails: [] }] })).toBe('👤 Ana')
+    expect(summarizeStructuredContent('reaction', { reaction: { message_id: 'x', emoji: '👍' } })).toBe('Reagiu com 👍')
+    expect(summarizeStructuredContent('text', {})).toBeNull()
+  })
+})
+
+describe('collectReactions', () => {
+  it('mantém a última reação de cada lado e remove com emoji vazio', () => {
+    const messages = [
+      makeMessage({ id: 'a', message_type: 'reaction', payload: { reaction: { message_id: 'wamid.1', emoji: '👍' } } }),
+      makeMessage({ id: 'b', message_type: 'reaction', payload: { reaction: { message_id: 'wamid.1', emoji: '❤️' } } }),
+      makeMessage({ id: 'c', message_type: 'reaction', payload: { reaction: { message_id: 'wamid.2', emoji: '😂' } } }),
+      makeMessage({ id: 'd', message_type: 'reaction', payload: { reaction: { message_id: 'wamid.2', emoji: '' } } }),
+    ]
+
+    const reactions = collectReactions(messages)
+    expect(reactions.get('wamid.1')).toEqual([{ emoji: '❤️', direction: 'inbound' }])
+    expect(reactions.has('wamid.2')).toBe(false)
+  })
+})
+
+describe('formatMessageForAI', () => {
+  it('descreve localização, contato, figurinha e reação para o agente', () => {
+    expect(
+      formatMessageForAI(
+        makeMessage({
+          message_type: 'location',
+          payload: { location: { latitude: -23.561, longitude: -46.656, name: 'Loja Centro' } },
+        })
+      )
+    ).toBe('[Localização compartilhada: Loja Centro (-23.561, -46.656)]')
+
+    expect(
+      formatMessageForAI(
+        makeMessage({
+          message_type: 'contacts',
+          payload: { contacts: [{ name: 'Maria', phones: [{ phone: '+5511988887777' }], emails: [] }] },
+        })
+      )
+    ).toBe('[Contato compartilhado: Maria (+5511988887777)]')
+
+    expect(formatMessageForAI(makeMessage({ message_type: 'sticker', content: '[Figurinha]' }))).toBe('[Figurinha]')
+
+    const target = makeMessage({ direction: 'outbound', content: 'Seu pedido saiu para entrega', whatsapp_message_id: 'wamid.9' })
+    const reaction = makeMessage({ message_type: 'reaction', payload: { reaction: { message_id: 'wamid.9', emoji: '🎉' } } })
+    expect(formatMessageForAI(reaction, [target, reaction])).toBe(
+      '[Reagiu com 🎉 à mensagem: "Seu pedido saiu para entrega"]'
+    )
+    expect(formatMessageForAI(makeMessage({ content: 'Oi' }))).toBe('Oi')
+  })
+})
+
+describe('análise de mídia', () => {
+  const transcription = {
+    kind: 'transcription',
+    text: 'Oi, queria saber se vocês aceitam boleto',
+    provider: 'gemini',
+    analyzed_at: '2026-10-19T12:00:05.000Z',
+  }
+
+  it('entrega a transcrição do áudio e a descrição da imagem ao agente', () => {
+    expect(
+      formatMessageForAI(makeMessage({ message_type: 'audio', content: '[audio]', payload: { media_analysis: transcription } }))
+    ).toBe('[Áudio transcrito: "Oi, queria saber se vocês aceitam boleto"]')
+
+    expect(
+      formatMessageForAI(
+        makeMessage({
+          message_type: 'image',
+          content: 'Esse modelo tem no azul?',
+          payload: { media_analysis: { ...transcription, kind: 'description', text: 'Foto de um tênis branco' } },
+        })
+      )
+    ).toBe('[Imagem: Foto de um tênis branco]\nLegenda: Esse modelo tem no azul?')
+
+    // Sem análise, mantém o conteúdo original
+    expect(formatMessageForAI(makeMessage({ message_type: 'audio', content: '[audio]' }))).toBe('[audio]')
+  })
+
+  it('ignora análise vazia e limita o tamanho do texto', () => {
+    expect(getMessageMediaAnalysis(makeMessage({ payload: { media_analysis: { ...transcription, text: '  ' } } }))).toBeNull()
+    expect(truncateMediaText('a\n\n\n\nb')).toBe('a\n\nb')
+    expect(truncateMediaText('abcdef', 3)).toBe('abc…')
+  })
+})
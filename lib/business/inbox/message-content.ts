@@ -0,0 +1,273 @@
+/**
+ * Inbox Message Content Module
+ *
+ * Structured inbound messages that are not plain text: shared locations,
+ * shared contacts (vCards), stickers and reactions, plus the text extracted
+ * from inbound media (voice note transcriptions, image descriptions, document
+ * OCR). Parses the Meta webhook payload into the shape stored in
+ * `inbox_messages.payload`, builds the text stored as `content` (conversation
+ * preview and search) and the text form handed to the AI agent.
+ */
+
+import type {
+  InboxLocation,
+  InboxMediaAnalysis,
+  InboxMediaAnalysisKind,
+  InboxMessage,
+  InboxMessageType,
+  InboxReaction,
+  InboxSharedContact,
+  MessageDirection,
+} from '@/types'
+
+/** Structured parts of an inbound message (stored as-is in the message payload) */
+export interface InboundStructuredContent {
+  location?: InboxLocation
+  contacts?: InboxSharedContact[]
+  reaction?: InboxReaction
+}
+
+/** Current reaction of one side of the conversation to a message */
+export interface MessageReactionSummary {
+  emoji: string
+  direction: MessageDirection
+}
+
+/** Upper bound for text extracted from a single media file */
+export const MEDIA_ANALYSIS_MAX_CHARS = 4000
+
+export const MEDIA_ANALYSIS_LABELS: Record<InboxMediaAnalysisKind, string> = {
+  transcription: 'Transcrição',
+  description: 'Descrição da imagem',
+  document: 'Texto do documento',
+}
+
+/** Inbound media types whose content is extracted (transcribed, described or OCR'd) */
+export const ANALYZABLE_MEDIA_TYPES: InboxMessageType[] = ['audio', 'image', 'document']
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null
+}
+
+function asText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function parseLocation(value: unknown): InboxLocation | undefined {
+  const raw = asRecord(value)
+  if (!raw) return undefined
+  const latitude = Number(raw.latitude)
+  const longitude = Number(raw.longitude)
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined
+
+  const location: InboxLocation = { latitude, longitude }
+  const name = asText(raw.name)
+  const address = asText(raw.address)
+  const url = asText(raw.url)
+  if (name) location.name = name
+  if (address) location.address = address
+  if (url) location.url = url
+  return location
+}
+
+function parseSharedContact(value: unknown): InboxSharedContact | null {
+  const raw = asRecord(value)
+  if (!raw) return null
+
+  const nameRaw = asRecord(raw.name)
+  const phones = (Array.isArray(raw.phones) ? raw.phones : [])
+    .map(asRecord)
+    .filter((p): p is Record<string, unknown> => !!p && !!asText(p.phone ?? p.wa_id))
+    .map((p) => {
+      const phone: InboxSharedContact['phones'][number] = { phone: asText(p.phone) ?? String(p.wa_id) }
+      const waId = asText(p.wa_id)
+      const type = asText(p.type)
+      if (waId) phone.wa_id = waId
+      if (type) phone.type = type
+      return phone
+    })
+  const emails = (Array.isArray(raw.emails) ? raw.emails : [])
+    .map((e) => asText(asRecord(e)?.email))
+    .filter((e): e is string => !!e)
+
+  const name =
+    asText(nameRaw?.formatted_name) ||
+    [asText(nameRaw?.first_name), asText(nameRaw?.last_name)].filter(Boolean).join(' ') ||
+    phones[0]?.phone ||
+    emails[0]
+  if (!name) return null
+
+  const contact: InboxSharedContact = { name, phones, emails }
+  const organization = asText(asRecord(raw.org)?.company)
+  if (organization) contact.organization = organization
+  return contact
+}
+
+/**
+ * Extracts the structured content of a Meta webhook message.
+ * Reactions keep an empty emoji when the contact removes the reaction.
+ */
+export function parseInboundStructuredContent(message: Record<string, unknown>): InboundStructuredContent {
+  const content: InboundStructuredContent = {}
+
+  const location = parseLocation(message.location)
+  if (location) content.location = location
+
+  if (Array.isArray(message.contacts)) {
+    const contacts = message.contacts.map(parseSharedContact).filter((c): c is InboxSharedContact => !!c)
+    if (contacts.length > 0) content.contacts = contacts
+  }
+
+  const reaction = asRecord(message.reaction)
+  const targetId = asText(reaction?.message_id)
+  if (targetId) content.reaction = { message_id: targetId, emoji: asText(reaction?.emoji) ?? '' }
+
+  return content
+}
+
+/**
+ * Text stored as the message `content` (conversation preview, search).
+ * Returns null for types without a structured summary.
+ */
+export function summarizeStructuredContent(type: string, content: InboundStructuredContent): string | null {
+  if (type === 'location') {
+    const location = content.location
+    if (!location) return '📍 Localização'
+    const label = [location.name, location.address].filter(Boolean).join(' - ')
+    return `📍 ${label || 'Localização'}`
+  }
+  if (type === 'contacts') {
+    const names = (content.contacts || []).map((c) => c.name)
+    return `👤 ${names.length > 0 ? names.join(', ') : 'Contato'}`
+  }
+  if (type === 'reaction') {
+    const emoji = content.reaction?.emoji
+    return emoji ? `Reagiu com ${emoji}` : 'Removeu a reação'
+  }
+  if (type === 'sticker') return '[Figurinha]'
+  return null
+}
+
+/** Link that opens the location on a map */
+export function getLocationMapUrl(location: InboxLocation): string {
+  return `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`
+}
+
+/** Structured content previously stored in the message payload */
+export function getMessageStructuredContent(message: Pick<InboxMessage, 'payload'>): InboundStructuredContent {
+  const payload = message.payload || {}
+  return {
+    location: parseLocation(payload.location),
+    contacts: Array.isArray(payload.contacts) ? (payload.contacts as InboxSharedContact[]) : undefined,
+    reaction: asRecord(payload.reaction) ? (payload.reaction as InboxReaction) : undefined,
+  }
+}
+
+/**
+ * Text extracted from the message media, if it was analyzed.
+ */
+export function getMessageMediaAnalysis(message: Pick<InboxMessage, 'payload'>): InboxMediaAnalysis | null {
+  const analysis = asRecord(message.payload?.media_analysis)
+  const text = asText(analysis?.text)
+  if (!analysis || !text) return null
+  return analysis as unknown as InboxMediaAnalysis
+}
+
+/**
+ * Normalizes extracted media text: collapses blank lines and caps the size.
+ */
+export function truncateMediaText(text: string, maxChars: number = MEDIA_ANALYSIS_MAX_CHARS): string {
+  const normalized = text.replace(/\n{3,}/g, '\n\n').trim()
+  return normalized.length > maxChars ? `${normalized.slice(0, maxChars).trimEnd()}…` : normalized
+}
+
+/** Content that is only a "[type]" placeholder (media without caption) */
+function isPlaceholderContent(content: string): boolean {
+  return !content.trim() || /^\[.+\]$/.test(content.trim())
+}
+
+/**
+ * Current reactions per target message (keyed by whatsapp_message_id).
+ * Messages must be in chronological order: the latest reaction of each side
+ * wins and an empty emoji removes it.
+ */
+export function collectReactions(messages: InboxMessage[]): Map<string, MessageReactionSummary[]> {
+  const byTarget = new Map<string, Map<MessageDirection, string>>()
+
+  for (const message of messages) {
+    if (message.message_type !== 'reaction') continue
+    const reaction = getMessageStructuredContent(message).reaction
+    if (!reaction?.message_id) continue
+
+    const current = byTarget.get(reaction.message_id) ?? new Map<MessageDirection, string>()
+    if (reaction.emoji) current.set(message.direction, reaction.emoji)
+    else current.delete(message.direction)
+    byTarget.set(reaction.message_id, current)
+  }
+
+  const result = new Map<string, MessageReactionSummary[]>()
+  for (const [target, reactions] of byTarget) {
+    if (reactions.size === 0) continue
+    result.set(
+      target,
+      Array.from(reactions, ([direction, emoji]) => ({ emoji, direction }))
+    )
+  }
+  return result
+}
+
+/**
+ * Text form of a message for the AI agent. Reactions quote the message they
+ * refer to when it is part of the same history.
+ *
+ * @example
+ * ```ts
+ * formatMessageForAI(locationMessage)
+ * // '[Localização compartilhada: Loja Centro - Av. Paulista, 1000 (-23.561, -46.656)]'
+ * ```
+ */
+export function formatMessageForAI(
+  message: InboxMessage,
+  history: InboxMessage[] = []
+): string {
+  const structured = getMessageStructuredContent(message)
+
+  switch (message.message_type) {
+    case 'location': {
+      const location = structured.location
+      if (!location) return '[Localização compartilhada]'
+      const label = [location.name, location.address].filter(Boolean).join(' - ')
+      const coordinates = `(${location.latitude}, ${location.longitude})`
+      return `[Localização compartilhada: ${label ? `${label} ${coordinates}` : coordinates}]`
+    }
+    case 'contacts': {
+      const contacts = (structured.contacts || []).map((c) => {
+        const details = [...c.phones.map((p) => p.phone), ...c.emails]
+        return details.length > 0 ? `${c.name} (${details.join(', ')})` : c.name
+      })
+      return `[Contato compartilhado: ${contacts.join('; ') || 'sem dados'}]`
+    }
+    case 'sticker':
+      return '[Figurinha]'
+    case 'reaction': {
+      const reaction = structured.reaction
+      const target = reaction?.message_id
+        ? history.find((m) => m.whatsapp_message_id === reaction.message_id)
+        : undefined
+      const quoted = target ? ` à mensagem: "${target.content}"` : ''
+      return reaction?.emoji ? `[Reagiu com ${reaction.emoji}${quoted}]` : `[Removeu a reação${quoted}]`
+    }
+    case 'audio':
+    case 'image':
+    case 'document': {
+      const analysis = getMessageMediaAnalysis(message)
+      if (!analysis) return message.content
+      const caption = isPlaceholderContent(message.content) ? '' : `\nLegenda: ${message.content}`
+      if (analysis.kind === 'transcription') return `[Áudio transcrito: "${analysis.text}"]${caption}`
+      if (analysis.kind === 'description') return `[Imagem: ${analysis.text}]${caption}`
+      return `[Documento: ${analysis.text}]${caption}`
+    }
+    default:
+      return message.content
+  }
+}
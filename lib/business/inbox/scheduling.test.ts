@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildFallbackTemplateVariables,
+  getSchedulePresets,
+  isScheduledItemClaimable,
+  isSessionWindowOpen,
+  resolveScheduledDelivery,
+  shouldTriggerFollowUp,
+  validateScheduledItem,
+} from './scheduling'
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+describe('isSessionWindowOpen', () => {
+  it('fica aberta por 24h após a última mensagem do cliente', () => {
+    expect(isSessionWindowOpen('2026-10-18T12:00:01Z', NOW)).toBe(true)
+    expect(isSessionWindowOpen('2026-10-18T12:00:00Z', NOW)).toBe(false)
+  })
+
+  it('fechada quando o cliente nunca escreveu', () => {
+    expect(isSessionWindowOpen(null, NOW)).toBe(false)
+    expect(isSessionWindowOpen('invalida', NOW)).toBe(false)
+  })
+})
+
+describe('validateScheduledItem', () => {
+  it('aceita mensagem para amanhã', () => {
+    expect(
+      validateScheduledItem({ kind: 'message', due_at: '2026-10-20T09:00:00Z', content: 'Bom dia!' }, NOW)
+    ).toEqual({ valid: true, errors: [] })
+  })
+
+  it('rejeita horário no passado ou além do limite', () => {
+    expect(validateScheduledItem({ kind: 'follow_up', due_at: '2026-10-19T11:00:00Z' }, NOW).valid).toBe(false)
+    expect(validateScheduledItem({ kind: 'follow_up', due_at: '2026-10-27T12:00:00Z' }, NOW).valid).toBe(false)
+  })
+
+  it('exige o texto apenas para mensagens', () => {
+    expect(validateScheduledItem({ kind: 'message', due_at: '2026-10-20T09:00:00Z', content: '  ' }, NOW).errors).toEqual([
+      'Digite a mensagem a ser agendada',
+    ])
+    expect(validateScheduledItem({ kind: 'follow_up', due_at: '2026-10-21T12:00:00Z' }, NOW).valid).toBe(true)
+  })
+})
+
+describe('resolveScheduledDelivery', () => {
+  it('envia texto livre com a janela aberta', () => {
+    expect(
+      resolveScheduledDelivery({ lastInboundAt: '2026-10-19T08:00:00Z', fallbackTemplateName: 'retorno', now: NOW })
+    ).toBe('free_form')
+  })
+
+  it('usa o template de fallback com a janela fechada', () => {
+    expect(
+      resolveScheduledDelivery({ lastInboundAt: '2026-10-17T08:00:00Z', fallbackTemplateName: 'retorno', now: NOW })
+    ).toBe('template')
+    expect(resolveScheduledDelivery({ lastInboundAt: null, fallbackTemplateName: null, now: NOW })).toBe('window_closed')
+  })
+})
+
+describe('shouldTriggerFollowUp', () => {
+  it('dispara só se o cliente não respondeu depois do agendamento', () => {
+    expect(shouldTriggerFollowUp('2026-10-18T10:00:00Z', '2026-10-19T10:00:00Z')).toBe(true)
+    expect(shouldTriggerFollowUp(null, '2026-10-19T10:00:00Z')).toBe(true)
+    expect(shouldTriggerFollowUp('2026-10-19T10:30:00Z', '2026-10-19T10:00:00Z')).toBe(false)
+  })
+})
+
+describe('buildFallbackTemplateVariables', () => {
+  it('ordena as chaves posicionais', () => {
+    expect(buildFallbackTemplateVariables('positional', ['2', '1'], { 1: '{{nome}}', 2: 'amanhã' })).toEqual({
+      body: ['{{nome}}', 'amanhã'],
+    })
+  })
+
+  it('mantém o mapa de variáveis nomeadas', () => {
+    expect(buildFallbackTemplateVariables('named', ['first_name'], {})).toEqual({ body: { first_name: '' } })
+  })
+})
+
+describe('getSchedulePresets', () => {
+  it('sugere amanhã e a próxima segunda às 9h', () => {
+    const sunday = new Date(2026, 9, 18, 15, 30)
+    const [inOneHour, tomorrow, monday] = getSchedulePresets(sunday)
+
+    expect(inOneHour.date.getTime() - sunday.getTime()).toBe(60 * 60 * 1000)
+    expect(tomorrow.date).toEqual(new Date(2026, 9, 19, 9, 0))
+    expect(monday.date).toEqual(new Date(2026, 9, 19, 9, 0))
+  })
+
+  it('na segunda, a próxima segunda é a da semana seguinte', () => {
+    const [, , monday] = getSchedulePresets(new Date(2026, 9, 19, 8, 0))
+    expect(monday.date).toEqual(new Date(2026, 9, 26, 9, 0))
+  })
+})
+
+describe('isScheduledItemClaimable', () => {
+  it('itens agendados podem ser reservados', () => {
+    expect(isScheduledItemClaimable({ status: 'scheduled', updated_at: '2026-10-19T11:59:00Z' }, NOW)).toBe(true)
+  })
+
+  it('reserva em andamento só é retomada depois do timeout', () => {
+    expect(isScheduledItemClaimable({ status: 'processing', updated_at: '2026-10-19T11:58:00Z' }, NOW)).toBe(false)
+    expect(isScheduledItemClaimable({ status: 'processing', updated_at: '2026-10-19T11:54:59Z' }, NOW)).toBe(true)
+  })
+
+  it('itens finalizados não voltam a ser processados', () => {
+    expect(isScheduledItemClaimable({ status: 'sent', updated_at: '2026-10-18T12:00:00Z' }, NOW)).toBe(false)
+    expect(isScheduledItemClaimable({ status: 'cancelled', updated_at: '2026-10-18T12:00:00Z' }, NOW)).toBe(false)
+  })
+})
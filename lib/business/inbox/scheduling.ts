@@ -0,0 +1,175 @@
+/**
+ * Inbox Scheduling Module
+ *
+ * Scheduled messages and "no reply" follow-up reminders created from the inbox
+ * composer. WhatsApp only accepts free-form messages within 24h of the last
+ * customer message, so the delivery mode is decided when the item is due, not
+ * when it is created: free-form while the window is open, otherwise the
+ * fallback template chosen by the attendant.
+ */
+
+import type { CreateInboxScheduledItemDTO, InboxScheduledItem, InboxScheduledItemStatus } from '@/types'
+import type { TemplateParameterFormat } from '@/lib/whatsapp/template-contract'
+
+/** WhatsApp customer service window */
+export const CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/** Shortest lead time for a scheduled item */
+export const INBOX_SCHEDULE_MIN_LEAD_MS = 60 * 1000
+
+/** Farthest an item can be scheduled (QStash delay limit) */
+export const INBOX_SCHEDULE_MAX_DAYS = 7
+
+export const INBOX_SCHEDULED_MESSAGE_MAX_CHARS = 4096
+
+/**
+ * A message stuck in `processing` for longer than this was abandoned by its
+ * worker (crash or timeout) and may be claimed again.
+ */
+export const INBOX_SCHEDULED_PROCESSING_TIMEOUT_MS = 5 * 60 * 1000
+
+export const INBOX_SCHEDULED_STATUS_LABELS: Record<InboxScheduledItemStatus, string> = {
+  scheduled: 'Agendado',
+  processing: 'Enviando',
+  sent: 'Enviada',
+  fallback_sent: 'Enviada via template',
+  triggered: 'Lembrete disparado',
+  skipped: 'Cliente respondeu',
+  cancelled: 'Cancelado',
+  failed: 'Falhou',
+}
+
+/** "Remind me if no reply in..." options (hours) */
+export const FOLLOW_UP_PRESETS: Array<{ label: string; hours: number }> = [
+  { label: '4 horas', hours: 4 },
+  { label: '1 dia', hours: 24 },
+  { label: '2 dias', hours: 48 },
+  { label: '3 dias', hours: 72 },
+  { label: '1 semana', hours: 168 },
+]
+
+export type ScheduledDelivery = 'free_form' | 'template' | 'window_closed'
+
+export interface ScheduledItemValidationResult {
+  valid: boolean
+  errors: string[]
+}
+
+/** Whether a free-form message can still be sent (last inbound within 24h) */
+export function isSessionWindowOpen(
+  lastInboundAt: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!lastInboundAt) return false
+  const last = new Date(lastInboundAt).getTime()
+  if (Number.isNaN(last)) return false
+  return now.getTime() - last < CUSTOMER_SERVICE_WINDOW_MS
+}
+
+/**
+ * Validates a new item: due date inside the allowed range and, for messages,
+ * the text to be sent.
+ */
+export function validateScheduledItem(
+  dto: CreateInboxScheduledItemDTO,
+  now: Date = new Date()
+): ScheduledItemValidationResult {
+  const errors: string[] = []
+
+  const due = new Date(dto.due_at).getTime()
+  if (Number.isNaN(due)) {
+    errors.push('Data de agendamento inválida')
+  } else {
+    if (due - now.getTime() < INBOX_SCHEDULE_MIN_LEAD_MS) {
+      errors.push('Escolha um horário pelo menos 1 minuto no futuro')
+    }
+    if (due - now.getTime() > INBOX_SCHEDULE_MAX_DAYS * CUSTOMER_SERVICE_WINDOW_MS) {
+      errors.push(`Agendamentos podem ser feitos para até ${INBOX_SCHEDULE_MAX_DAYS} dias`)
+    }
+  }
+
+  if (dto.kind === 'message') {
+    const content = (dto.content ?? '').trim()
+    if (!content) {
+      errors.push('Digite a mensagem a ser agendada')
+    } else if (content.length > INBOX_SCHEDULED_MESSAGE_MAX_CHARS) {
+      errors.push(`A mensagem deve ter no máximo ${INBOX_SCHEDULED_MESSAGE_MAX_CHARS} caracteres`)
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * How a due message goes out: free-form inside the window, the fallback
+ * template outside it, or nothing when there is no fallback.
+ */
+export function resolveScheduledDelivery(input: {
+  lastInboundAt: string | null | undefined
+  fallbackTemplateName: string | null | undefined
+  now?: Date
+}): ScheduledDelivery {
+  if (isSessionWindowOpen(input.lastInboundAt, input.now)) return 'free_form'
+  return input.fallbackTemplateName ? 'template' : 'window_closed'
+}
+
+/** Whether a worker may claim the item: still pending, or abandoned mid-send */
+export function isScheduledItemClaimable(
+  item: Pick<InboxScheduledItem, 'status' | 'updated_at'>,
+  now: Date = new Date()
+): boolean {
+  if (item.status === 'scheduled') return true
+  if (item.status !== 'processing') return false
+  const claimedAt = new Date(item.updated_at).getTime()
+  return !Number.isNaN(claimedAt) && now.getTime() - claimedAt > INBOX_SCHEDULED_PROCESSING_TIMEOUT_MS
+}
+
+/** A follow-up fires only when the customer has not written since it was created */
+export function shouldTriggerFollowUp(
+  lastInboundAt: string | null | undefined,
+  createdAt: string
+): boolean {
+  if (!lastInboundAt) return true
+  return new Date(lastInboundAt).getTime() <= new Date(createdAt).getTime()
+}
+
+/**
+ * Template variables for the fallback in the shape expected by the template
+ * precheck: positional keys become the ordered body array, named keys a map.
+ *
+ * @example
+ * ```ts
+ * buildFallbackTemplateVariables('positional', ['1', '2'], { 1: '{{nome}}', 2: 'amanhã' })
+ * // { body: ['{{nome}}', 'amanhã'] }
+ * ```
+ */
+export function buildFallbackTemplateVariables(
+  parameterFormat: TemplateParameterFormat,
+  keys: string[],
+  values: Record<string, string>
+): { body: string[] } | { body: Record<string, string> } {
+  if (parameterFormat === 'named') {
+    return { body: Object.fromEntries(keys.map((key) => [key, values[key] ?? ''])) }
+  }
+  const ordered = [...keys].sort((a, b) => Number(a) - Number(b))
+  return { body: ordered.map((key) => values[key] ?? '') }
+}
+
+/** Quick picks for the schedule date (local time) */
+export function getSchedulePresets(now: Date = new Date()): Array<{ label: string; date: Date }> {
+  const inOneHour = new Date(now.getTime() + 60 * 60 * 1000)
+
+  const tomorrowMorning = new Date(now)
+  tomorrowMorning.setDate(now.getDate() + 1)
+  tomorrowMorning.setHours(9, 0, 0, 0)
+
+  const nextMonday = new Date(now)
+  nextMonday.setDate(now.getDate() + (((8 - now.getDay()) % 7) || 7))
+  nextMonday.setHours(9, 0, 0, 0)
+
+  return [
+    { label: 'Em 1 hora', date: inOneHour },
+    { label: 'Amanhã às 9h', date: tomorrowMorning },
+    { label: 'Segunda às 9h', date: nextMonday },
+  ]
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { isSearchableQuery, parseSearchHeadline, toHighlightSegments } from './search'
+
+const S = '\u0002'
+const E = '\u0003'
+
+describe('parseSearchHeadline', () => {
+  it('remove os marcadores e devolve as posições destacadas', () => {
+    expect(parseSearchHeadline(`Posso pagar no ${S}boleto${E}? E no ${S}pix${E}`)).toEqual({
+      snippet: 'Posso pagar no boleto? E no pix',
+      highlights: [
+        { start: 15, end: 21 },
+        { start: 28, end: 31 },
+      ],
+    })
+  })
+
+  it('tolera marcadores desbalanceados e headline vazia', () => {
+    expect(parseSearchHeadline(`${E}fim ${S}aberto`)).toEqual({
+      snippet: 'fim aberto',
+      highlights: [{ start: 4, end: 10 }],
+    })
+    expect(parseSearchHeadline(null)).toEqual({ snippet: '', highlights: [] })
+  })
+})
+
+describe('toHighlightSegments', () => {
+  it('intercala trechos normais e destacados', () => {
+    expect(toHighlightSegments('pagar no boleto hoje', [{ start: 9, end: 15 }])).toEqual([
+      { text: 'pagar no ', highlighted: false },
+      { text: 'boleto', highlighted: true },
+      { text: ' hoje', highlighted: false },
+    ])
+  })
+
+  it('ignora faixas fora do texto ou sobrepostas', () => {
+    expect(
+      toHighlightSegments('boleto', [
+        { start: 0, end: 3 },
+        { start: 1, end: 2 },
+        { start: 10, end: 12 },
+      ])
+    ).toEqual([
+      { text: 'bol', highlighted: true },
+      { text: 'eto', highlighted: false },
+    ])
+  })
+})
+
+describe('isSearchableQuery', () => {
+  it('exige ao menos 3 caracteres', () => {
+    expect(isSearchableQuery(' bo ')).toBe(false)
+    expect(isSearchableQuery('bol')).toBe(true)
+    expect(isSearchableQuery(undefined)).toBe(false)
+  })
+})
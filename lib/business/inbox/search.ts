@@ -0,0 +1,93 @@
+/**
+ * Inbox Search Module
+ *
+ * Full-text search over the inbox history runs in Postgres (`search_inbox`,
+ * Portuguese stemming). The database marks the matched words of each snippet
+ * with control characters; these helpers turn them into plain text plus
+ * highlight ranges (API response) and into renderable segments (UI).
+ */
+
+import type { InboxSearchHighlight, InboxSearchMatchSource } from '@/types'
+
+/** Highlight delimiters used by ts_headline in search_inbox (chr(2) / chr(3)) */
+export const SEARCH_HIGHLIGHT_START = '\u0002'
+export const SEARCH_HIGHLIGHT_END = '\u0003'
+
+/** Shortest query sent to the search */
+export const INBOX_SEARCH_MIN_CHARS = 3
+
+export const INBOX_SEARCH_MAX_RESULTS = 100
+
+export const INBOX_SEARCH_SOURCE_LABELS: Record<InboxSearchMatchSource, string> = {
+  message: 'Mensagem',
+  media: 'Transcrição/mídia',
+  handoff_summary: 'Resumo do handoff',
+  contact: 'Contato',
+}
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+/** Whether the query is long enough to be searched */
+export function isSearchableQuery(query: string | null | undefined): boolean {
+  return (query ?? '').trim().length >= INBOX_SEARCH_MIN_CHARS
+}
+
+/**
+ * Splits a marked headline into plain text and highlight ranges.
+ * Unbalanced markers are dropped; an unclosed highlight runs to the end.
+ *
+ * @example
+ * ```ts
+ * parseSearchHeadline('pagar no \u0002boleto\u0003')
+ * // { snippet: 'pagar no boleto', highlights: [{ start: 9, end: 15 }] }
+ * ```
+ */
+export function parseSearchHeadline(headline: string | null | undefined): {
+  snippet: string
+  highlights: InboxSearchHighlight[]
+} {
+  const highlights: InboxSearchHighlight[] = []
+  let snippet = ''
+  let openAt: number | null = null
+
+  for (const char of headline ?? '') {
+    if (char === SEARCH_HIGHLIGHT_START) {
+      if (openAt === null) openAt = snippet.length
+      continue
+    }
+    if (char === SEARCH_HIGHLIGHT_END) {
+      if (openAt !== null && snippet.length > openAt) highlights.push({ start: openAt, end: snippet.length })
+      openAt = null
+      continue
+    }
+    snippet += char
+  }
+
+  if (openAt !== null && snippet.length > openAt) highlights.push({ start: openAt, end: snippet.length })
+
+  return { snippet, highlights }
+}
+
+/**
+ * Text segments for rendering a snippet with its highlights (ranges outside
+ * the text or overlapping a previous one are ignored).
+ */
+export function toHighlightSegments(snippet: string, highlights: InboxSearchHighlight[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+
+  for (const { start, end } of [...highlights].sort((a, b) => a.start - b.start)) {
+    const from = Math.max(start, cursor)
+    const to = Math.min(end, snippet.length)
+    if (to <= from) continue
+    if (from > cursor) segments.push({ text: snippet.slice(cursor, from), highlighted: false })
+    segments.push({ text: snippet.slice(from, to), highlighted: true })
+    cursor = to
+  }
+
+  if (cursor < snippet.length) segments.push({ text: snippet.slice(cursor), highlighted: false })
+  return segments
+}
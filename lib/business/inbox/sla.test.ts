@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_SLA_CONFIG,
+  getSlaState,
+  isFirstResponseBreached,
+  isResolutionBreached,
+  summarizeSla,
+  validateSlaConfig,
+  type SlaReportRow,
+} from './sla'
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+const row = (overrides: Partial<SlaReportRow> = {}): SlaReportRow => ({
+  sla_started_at: '2026-10-19T10:00:00Z',
+  first_response_at: null,
+  resolved_at: null,
+  sla_first_response_due_at: '2026-10-19T11:00:00Z',
+  sla_resolution_due_at: '2026-10-19T18:00:00Z',
+  ...overrides,
+})
+
+describe('validateSlaConfig', () => {
+  it('aceita a configuração padrão', () => {
+    expect(validateSlaConfig(DEFAULT_SLA_CONFIG)).toEqual({ valid: true, errors: [] })
+  })
+
+  it('rejeita resolução menor que a primeira resposta', () => {
+    const result = validateSlaConfig({
+      ...DEFAULT_SLA_CONFIG,
+      policies: { ...DEFAULT_SLA_CONFIG.policies, urgent: { firstResponseMinutes: 30, resolutionMinutes: 10 } },
+    })
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]).toContain('urgent')
+  })
+
+  it('exige um dia útil apenas quando conta horário comercial', () => {
+    const workingHours = DEFAULT_SLA_CONFIG.workingHours.map((d) => ({ ...d, enabled: false }))
+    expect(validateSlaConfig({ ...DEFAULT_SLA_CONFIG, workingHours }).valid).toBe(false)
+    expect(validateSlaConfig({ ...DEFAULT_SLA_CONFIG, workingHours, businessHoursOnly: false }).valid).toBe(true)
+  })
+})
+
+describe('getSlaState', () => {
+  it('sem relógio ou já resolvida não tem prazo', () => {
+    expect(getSlaState(row({ sla_started_at: null }), NOW)).toEqual({ status: 'ok', target: null, dueAt: null })
+    expect(getSlaState(row({ resolved_at: '2026-10-19T11:30:00Z' }), NOW).target).toBeNull()
+  })
+
+  it('marca primeira resposta atrasada', () => {
+    expect(getSlaState(row(), NOW)).toEqual({
+      status: 'breached',
+      target: 'first_response',
+      dueAt: '2026-10-19T11:00:00Z',
+    })
+  })
+
+  it('avisa perto do prazo de resolução', () => {
+    const conversation = row({
+      first_response_at: '2026-10-19T10:05:00Z',
+      sla_resolution_due_at: '2026-10-19T12:20:00Z',
+    })
+    expect(getSlaState(conversation, NOW)).toMatchObject({ status: 'warning', target: 'resolution' })
+    expect(getSlaState(conversation, new Date('2026-10-19T10:30:00Z')).status).toBe('ok')
+  })
+})
+
+describe('breaches', () => {
+  it('considera respostas e resoluções depois do prazo', () => {
+    expect(isFirstResponseBreached(row({ first_response_at: '2026-10-19T10:59:00Z' }), NOW)).toBe(false)
+    expect(isFirstResponseBreached(row({ first_response_at: '2026-10-19T11:01:00Z' }), NOW)).toBe(true)
+    expect(isResolutionBreached(row(), NOW)).toBe(false)
+    expect(isResolutionBreached(row({ resolved_at: '2026-10-19T19:00:00Z' }), NOW)).toBe(true)
+  })
+
+  it('sem prazo nunca estoura', () => {
+    expect(isFirstResponseBreached(row({ sla_first_response_due_at: null }), NOW)).toBe(false)
+  })
+})
+
+describe('summarizeSla', () => {
+  const rows: SlaReportRow[] = [
+    row({ assigned_user_id: 'usr_a', label_ids: ['vip'], first_response_at: '2026-10-19T10:10:00Z', resolved_at: '2026-10-19T11:00:00Z' }),
+    row({ assigned_user_id: 'usr_a', label_ids: ['vip', 'suporte'], first_response_at: '2026-10-19T11:30:00Z' }),
+    row({ assigned_user_id: 'usr_b', label_ids: [] }),
+    row({ sla_started_at: null, assigned_user_id: 'usr_b' }),
+  ]
+
+  it('agrega por responsável', () => {
+    const summary = summarizeSla(rows, (r) => (r.assigned_user_id ? [r.assigned_user_id] : []), NOW)
+    expect(summary).toEqual([
+      {
+        key: 'usr_a',
+        conversations: 2,
+        avgFirstResponseMinutes: 50,
+        avgResolutionMinutes: 60,
+        firstResponseBreaches: 1,
+        resolutionBreaches: 0,
+      },
+      {
+        key: 'usr_b',
+        conversations: 1,
+        avgFirstResponseMinutes: null,
+        avgResolutionMinutes: null,
+        firstResponseBreaches: 1,
+        resolutionBreaches: 0,
+      },
+    ])
+  })
+
+  it('conta a conversa em cada etiqueta', () => {
+    const summary = summarizeSla(rows, (r) => r.label_ids ?? [], NOW)
+    expect(summary.map((s) => [s.key, s.conversations])).toEqual([
+      ['vip', 2],
+      ['suporte', 1],
+    ])
+  })
+})
@@ -0,0 +1,212 @@
+/**
+ * Inbox SLA Module
+ *
+ * SLA policies for human conversations: first response and resolution targets
+ * per priority. Deadlines are computed in the database (they depend on the
+ * business hours of the workspace); these helpers validate the config, classify
+ * a conversation against its deadlines and aggregate the SLA report.
+ */
+
+import type { ConversationPriority, InboxConversation, SlaConfig, SlaStatus, SlaSummary } from '@/types'
+import { WEEKDAY_LABELS, validateWorkingHoursDay } from '@/lib/business/settings/calendar'
+
+/** Share of the target already elapsed from which the conversation is flagged */
+export const SLA_WARNING_RATIO = 0.8
+
+/** Upper bound for any target (30 days) */
+export const MAX_SLA_MINUTES = 60 * 24 * 30
+
+export const SLA_PRIORITY_ORDER: ConversationPriority[] = ['urgent', 'high', 'normal', 'low']
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  ok: 'No prazo',
+  warning: 'Perto do prazo',
+  breached: 'Atrasada',
+}
+
+export const DEFAULT_SLA_CONFIG: SlaConfig = {
+  enabled: false,
+  businessHoursOnly: true,
+  timezone: 'America/Sao_Paulo',
+  workingHours: [
+    { day: 'mon', enabled: true, start: '09:00', end: '18:00' },
+    { day: 'tue', enabled: true, start: '09:00', end: '18:00' },
+    { day: 'wed', enabled: true, start: '09:00', end: '18:00' },
+    { day: 'thu', enabled: true, start: '09:00', end: '18:00' },
+    { day: 'fri', enabled: true, start: '09:00', end: '18:00' },
+    { day: 'sat', enabled: false, start: '09:00', end: '13:00' },
+    { day: 'sun', enabled: false, start: '09:00', end: '13:00' },
+  ],
+  policies: {
+    urgent: { firstResponseMinutes: 15, resolutionMinutes: 240 },
+    high: { firstResponseMinutes: 30, resolutionMinutes: 480 },
+    normal: { firstResponseMinutes: 60, resolutionMinutes: 1440 },
+    low: { firstResponseMinutes: 240, resolutionMinutes: 2880 },
+  },
+}
+
+export interface SlaValidationResult {
+  valid: boolean
+  errors: string[]
+}
+
+/**
+ * Validates targets (positive, resolution >= first response) and, when only
+ * business hours count, the working hours themselves.
+ */
+export function validateSlaConfig(config: SlaConfig): SlaValidationResult {
+  const errors: string[] = []
+
+  for (const priority of SLA_PRIORITY_ORDER) {
+    const policy = config.policies[priority]
+    if (!policy) {
+      errors.push(`Meta ausente para a prioridade "${priority}"`)
+      continue
+    }
+    const { firstResponseMinutes, resolutionMinutes } = policy
+    if (!Number.isInteger(firstResponseMinutes) || firstResponseMinutes < 1 || firstResponseMinutes > MAX_SLA_MINUTES) {
+      errors.push(`Primeira resposta (${priority}) deve ser entre 1 e ${MAX_SLA_MINUTES} minutos`)
+    }
+    if (!Number.isInteger(resolutionMinutes) || resolutionMinutes < 1 || resolutionMinutes > MAX_SLA_MINUTES) {
+      errors.push(`Resolução (${priority}) deve ser entre 1 e ${MAX_SLA_MINUTES} minutos`)
+    }
+    if (resolutionMinutes < firstResponseMinutes) {
+      errors.push(`Resolução (${priority}) não pode ser menor que a primeira resposta`)
+    }
+  }
+
+  if (config.businessHoursOnly) {
+    for (const day of config.workingHours) {
+      const dayValidation = validateWorkingHoursDay(day)
+      if (!dayValidation.valid) {
+        const label = WEEKDAY_LABELS[day.day] || day.day
+        errors.push(...dayValidation.errors.map((e) => `${label}: ${e}`))
+      }
+    }
+    if (!config.workingHours.some((d) => d.enabled)) {
+      errors.push('Pelo menos um dia deve estar habilitado')
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+type SlaFields = Pick<
+  InboxConversation,
+  | 'sla_started_at'
+  | 'first_response_at'
+  | 'resolved_at'
+  | 'sla_first_response_due_at'
+  | 'sla_resolution_due_at'
+>
+
+export interface SlaState {
+  status: SlaStatus
+  /** Target currently running (null = no SLA or already resolved) */
+  target: 'first_response' | 'resolution' | null
+  dueAt: string | null
+}
+
+const toTime = (value?: string | null): number | null => {
+  if (!value) return null
+  const time = new Date(value).getTime()
+  return Number.isFinite(time) ? time : null
+}
+
+/**
+ * Classifies the pending target of a conversation. The warning threshold uses
+ * wall-clock time between the start and the deadline.
+ */
+export function getSlaState(conversation: SlaFields, now: Date = new Date()): SlaState {
+  const startedAt = toTime(conversation.sla_started_at)
+  if (startedAt === null || conversation.resolved_at) {
+    return { status: 'ok', target: null, dueAt: null }
+  }
+
+  const target = conversation.first_response_at ? 'resolution' : 'first_response'
+  const dueAt = target === 'first_response'
+    ? conversation.sla_first_response_due_at ?? null
+    : conversation.sla_resolution_due_at ?? null
+  const due = toTime(dueAt)
+  if (due === null) return { status: 'ok', target: null, dueAt: null }
+
+  const current = now.getTime()
+  if (current >= due) return { status: 'breached', target, dueAt }
+
+  const total = due - startedAt
+  const ratio = total > 0 ? (current - startedAt) / total : 0
+  return { status: ratio >= SLA_WARNING_RATIO ? 'warning' : 'ok', target, dueAt }
+}
+
+/** First response after the deadline (or still missing past it) */
+export function isFirstResponseBreached(conversation: SlaFields, now: Date = new Date()): boolean {
+  const due = toTime(conversation.sla_first_response_due_at)
+  if (due === null) return false
+  const respondedAt = toTime(conversation.first_response_at)
+  return (respondedAt ?? now.getTime()) > due
+}
+
+/** Resolution after the deadline (or still open past it) */
+export function isResolutionBreached(conversation: SlaFields, now: Date = new Date()): boolean {
+  const due = toTime(conversation.sla_resolution_due_at)
+  if (due === null) return false
+  const resolvedAt = toTime(conversation.resolved_at)
+  return (resolvedAt ?? now.getTime()) > due
+}
+
+// =============================================================================
+// REPORT
+// =============================================================================
+
+export interface SlaReportRow extends SlaFields {
+  assigned_user_id?: string | null
+  label_ids?: string[]
+}
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+
+const minutesBetween = (from: number | null, to: number | null): number | null =>
+  from === null || to === null || to < from ? null : (to - from) / 60_000
+
+/**
+ * Aggregates SLA metrics. `keysOf` returns the groups a row belongs to (a
+ * conversation with several labels counts for each of them); rows without
+ * keys are skipped. Groups are sorted by number of conversations.
+ */
+export function summarizeSla(
+  rows: SlaReportRow[],
+  keysOf: (row: SlaReportRow) => string[],
+  now: Date = new Date()
+): SlaSummary[] {
+  const groups = new Map<string, SlaReportRow[]>()
+  for (const row of rows) {
+    if (!row.sla_started_at) continue
+    for (const key of new Set(keysOf(row))) {
+      const group = groups.get(key)
+      if (group) group.push(row)
+      else groups.set(key, [row])
+    }
+  }
+
+  return Array.from(groups, ([key, group]) => {
+    const firstResponse: number[] = []
+    const resolution: number[] = []
+    for (const row of group) {
+      const startedAt = toTime(row.sla_started_at)
+      const toFirst = minutesBetween(startedAt, toTime(row.first_response_at))
+      const toResolved = minutesBetween(startedAt, toTime(row.resolved_at))
+      if (toFirst !== null) firstResponse.push(toFirst)
+      if (toResolved !== null) resolution.push(toResolved)
+    }
+
+    return {
+      key,
+      conversations: group.length,
+      avgFirstResponseMinutes: average(firstResponse),
+      avgResolutionMinutes: average(resolution),
+      firstResponseBreaches: group.filter((row) => isFirstResponseBreached(row, now)).length,
+      resolutionBreaches: group.filter((row) => isResolutionBreached(row, now)).length,
+    }
+  }).sort((a, b) => b.conversations - a.conversations || a.key.localeCompare(b.key))
+}
@@ -150,3 +150,27 @@ export {
   getAvailableSlotsForDate,
   countSlotsInDay,
 } from './settings'
+
+// Access - Papéis, permissões e mapa de rotas
+export * from './access'
+
+// Audit - Diff antes/depois dos eventos de auditoria
+export * from './audit'
+
+// Inbox - Distribuição de conversas nas filas, SLA, conteúdo estruturado das mensagens, busca textual e agendamentos
+export * from './inbox'
+
+// Webhooks - Eventos/retentativas dos webhooks de saída e mapeamento JSON dos de entrada
+export * from './webhooks'
+
+// WhatsApp - Números do workspace (exibição e ordenação)
+export * from './whatsapp'
+
+// CRM - Provedores, mapeamento de campos e timeline dos conectores de CRM
+export * from './crm'
+
+// Conversions - Atribuição de vendas (último toque) e ROAS por campanha
+export * from './conversions'
+
+// Workflow - Gatilhos dos fluxos (palavras-chave, prioridade, intenção via IA), esperas (delay, timeout de resposta), nós de contato, nós de IA e controle de fluxo (para cada, chamar fluxo)
+export * from './workflow'
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RESPONSE_BODY_LIMIT,
+  WEBHOOK_RETRY_MAX_SECONDS,
+  getWebhookRetryDelaySeconds,
+  isWebhookEventType,
+  truncateWebhookResponse,
+  validateWebhookEndpointUrl,
+} from './events'
+
+describe('isWebhookEventType', () => {
+  it('aceita apenas eventos do catálogo', () => {
+    expect(isWebhookEventType('message.received')).toBe(true)
+    expect(isWebhookEventType('conversation.handoff')).toBe(true)
+    expect(isWebhookEventType('message.deleted')).toBe(false)
+    expect(isWebhookEventType(undefined)).toBe(false)
+  })
+})
+
+describe('getWebhookRetryDelaySeconds', () => {
+  it('multiplica o intervalo a cada tentativa', () => {
+    expect(getWebhookRetryDelaySeconds(1)).toBe(30)
+    expect(getWebhookRetryDelaySeconds(2)).toBe(120)
+    expect(getWebhookRetryDelaySeconds(3)).toBe(480)
+  })
+
+  it('respeita o teto e para depois da última tentativa', () => {
+    for (let attempt = 1; attempt < WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      expect(getWebhookRetryDelaySeconds(attempt)).toBeLessThanOrEqual(WEBHOOK_RETRY_MAX_SECONDS)
+    }
+    expect(getWebhookRetryDelaySeconds(WEBHOOK_MAX_ATTEMPTS)).toBeNull()
+    expect(getWebhookRetryDelaySeconds(0)).toBeNull()
+  })
+})
+
+describe('validateWebhookEndpointUrl', () => {
+  it('exige HTTPS fora do ambiente local', () => {
+    expect(validateWebhookEndpointUrl('https://crm.example.com/hooks/smartzap')).toBeNull()
+    expect(validateWebhookEndpointUrl('http://localhost:4000/hook')).toBeNull()
+    expect(validateWebhookEndpointUrl('http://crm.example.com/hook')).toBe('A URL precisa usar HTTPS')
+    expect(validateWebhookEndpointUrl('ftp://crm.example.com')).toBe('A URL precisa usar HTTPS')
+  })
+
+  it('rejeita texto que não é URL', () => {
+    expect(validateWebhookEndpointUrl('crm.example.com')).toBe('URL inválida')
+  })
+})
+
+describe('truncateWebhookResponse', () => {
+  it('corta respostas longas', () => {
+    expect(truncateWebhookResponse('ok')).toBe('ok')
+    const long = 'x'.repeat(WEBHOOK_RESPONSE_BODY_LIMIT + 10)
+    expect(truncateWebhookResponse(long)).toHaveLength(WEBHOOK_RESPONSE_BODY_LIMIT + 1)
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Outbound Webhook Events Module
+ *
+ * Event catalog, retry schedule and endpoint validation for the outbound
+ * webhooks. Signing and delivery live in lib/outbound-webhooks (server only);
+ * everything here is safe to import from the settings page.
+ */
+
+import type { WebhookDeliveryStatus, WebhookEventType } from '@/types'
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'message.received',
+  'message.status',
+  'campaign.completed',
+  'contact.created',
+  'contact.opted_out',
+  'flow.submitted',
+  'lead_form.submitted',
+  'conversation.handoff',
+  'conversion.created',
+]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'message.received': 'Mensagem recebida',
+  'message.status': 'Status de mensagem (enviada, entregue, lida, falha)',
+  'campaign.completed': 'Campanha concluída',
+  'contact.created': 'Contato criado',
+  'contact.opted_out': 'Contato fez opt-out',
+  'flow.submitted': 'Flow respondido',
+  'lead_form.submitted': 'Formulário de captação enviado',
+  'conversation.handoff': 'Conversa transferida para humano',
+  'conversion.created': 'Conversão (venda) registrada',
+}
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'Pendente',
+  delivering: 'Enviando',
+  success: 'Entregue',
+  failed: 'Falhou',
+}
+
+/** Attempts per delivery before it is marked as failed (first try included) */
+export const WEBHOOK_MAX_ATTEMPTS = 6
+
+/** Base delay of the first retry; each retry waits 4x longer */
+export const WEBHOOK_RETRY_BASE_SECONDS = 30
+
+/** Cap for a single retry delay (6 hours) */
+export const WEBHOOK_RETRY_MAX_SECONDS = 6 * 60 * 60
+
+/** Response bodies kept in the delivery log are cut at this length */
+export const WEBHOOK_RESPONSE_BODY_LIMIT = 2000
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as string[]).includes(value)
+}
+
+/**
+ * Delay before the next attempt, given how many attempts were already made.
+ * Returns null when no retries are left.
+ *
+ * @example getWebhookRetryDelaySeconds(1) // 30, then 120, 480, 1920, 7680
+ */
+export function getWebhookRetryDelaySeconds(attemptsMade: number): number | null {
+  if (attemptsMade < 1 || attemptsMade >= WEBHOOK_MAX_ATTEMPTS) return null
+  const delay = WEBHOOK_RETRY_BASE_SECONDS * 4 ** (attemptsMade - 1)
+  return Math.min(delay, WEBHOOK_RETRY_MAX_SECONDS)
+}
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]'])
+
+/**
+ * Endpoints must be HTTPS; plain HTTP is only accepted for local hosts
+ * (useful while developing the receiver). Returns the error message or null.
+ */
+export function validateWebhookEndpointUrl(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return 'URL inválida'
+  }
+
+  if (url.protocol === 'https:') return null
+  if (url.protocol === 'http:' && LOCAL_HOSTS.has(url.hostname)) return null
+  return 'A URL precisa usar HTTPS'
+}
+
+export function truncateWebhookResponse(body: string): string {
+  return body.length > WEBHOOK_RESPONSE_BODY_LIMIT
+    ? `${body.slice(0, WEBHOOK_RESPONSE_BODY_LIMIT)}…`
+    : body
+}
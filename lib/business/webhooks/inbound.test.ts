@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  listJsonPaths,
+  mapInboundPayload,
+  matchesInboundCondition,
+  parseJsonPath,
+  readJsonPath,
+  readJsonPathText,
+  resolveInboundTemplateVariables,
+  validateInboundWebhookAction,
+} from './inbound'
+
+const hotmart = {
+  event: 'PURCHASE_APPROVED',
+  data: {
+    buyer: { name: 'Ana Souza', email: 'ana@exemplo.com', checkout_phone: '11999990000' },
+    product: { name: 'Curso X' },
+    purchase: { transaction: 'HP123', price: { value: 197.9 }, status: 'APPROVED' },
+    items: [{ sku: 'A1' }, { sku: 'B2' }],
+    'first name': 'Ana',
+  },
+}
+
+describe('parseJsonPath', () => {
+  it('aceita notação com $, sem $, índices e chaves entre colchetes', () => {
+    expect(parseJsonPath('$.data.items[1].sku')).toEqual(['data', 'items', 1, 'sku'])
+    expect(parseJsonPath('data.items.0.sku')).toEqual(['data', 'items', 0, 'sku'])
+    expect(parseJsonPath("$.data['first name']")).toEqual(['data', 'first name'])
+    expect(parseJsonPath('$')).toEqual([])
+  })
+
+  it('rejeita caminhos malformados', () => {
+    expect(parseJsonPath('')).toBeNull()
+    expect(parseJsonPath('$.data[x]')).toBeNull()
+    expect(parseJsonPath('$.data..buyer')).toBeNull()
+  })
+})
+
+describe('readJsonPath', () => {
+  it('lê valores aninhados e em arrays', () => {
+    expect(readJsonPath(hotmart, '$.data.buyer.email')).toBe('ana@exemplo.com')
+    expect(readJsonPath(hotmart, '$.data.items[1].sku')).toBe('B2')
+    expect(readJsonPath(hotmart, "$.data['first name']")).toBe('Ana')
+  })
+
+  it('retorna undefined quando algum passo não existe', () => {
+    expect(readJsonPath(hotmart, '$.data.buyer.phone')).toBeUndefined()
+    expect(readJsonPath(hotmart, '$.data.items[5].sku')).toBeUndefined()
+    expect(readJsonPath(hotmart, '$.data.buyer[0]')).toBeUndefined()
+  })
+
+  it('readJsonPathText converte números e ignora objetos', () => {
+    expect(readJsonPathText(hotmart, '$.data.purchase.price.value')).toBe('197.9')
+    expect(readJsonPathText(hotmart, '$.data.buyer')).toBeNull()
+    expect(readJsonPathText(hotmart, null)).toBeNull()
+  })
+})
+
+describe('mapInboundPayload', () => {
+  it('extrai contato e campos personalizados', () => {
+    const data = mapInboundPayload(hotmart, {
+      phone: '$.data.buyer.checkout_phone',
+      name: '$.data.buyer.name',
+      email: '$.data.buyer.email',
+      customFields: [
+        { key: 'pedido', path: '$.data.purchase.transaction' },
+        { key: 'cupom', path: '$.data.purchase.coupon' },
+      ],
+    })
+
+    expect(data).toEqual({
+      phone: '11999990000',
+      name: 'Ana Souza',
+      email: 'ana@exemplo.com',
+      customFields: { pedido: 'HP123' },
+    })
+  })
+})
+
+describe('matchesInboundCondition', () => {
+  it('sem caminho, todo payload passa', () => {
+    expect(matchesInboundCondition(hotmart, null, null)).toBe(true)
+    expect(matchesInboundCondition(hotmart, '  ', 'x')).toBe(true)
+  })
+
+  it('compara sem diferenciar maiúsculas e aceita lista de valores', () => {
+    expect(matchesInboundCondition(hotmart, '$.event', 'purchase_approved')).toBe(true)
+    expect(matchesInboundCondition(hotmart, '$.event', 'PURCHASE_BILLET_PRINTED, PURCHASE_APPROVED')).toBe(true)
+    expect(matchesInboundCondition(hotmart, '$.event', 'PURCHASE_CANCELED')).toBe(false)
+    expect(matchesInboundCondition(hotmart, '$.missing', 'x')).toBe(false)
+  })
+})
+
+describe('resolveInboundTemplateVariables', () => {
+  it('troca só os caminhos JSON e mantém tokens e texto fixo', () => {
+    const resolved = resolveInboundTemplateVariables(
+      {
+        header: { '1': '$.data.product.name' },
+        body: { '1': '{{nome}}', '2': '$.data.purchase.transaction', '3': 'Obrigado!', '4': '$.data.nope' },
+      },
+      hotmart
+    )
+
+    expect(resolved).toEqual({
+      header: { '1': 'Curso X' },
+      body: { '1': '{{nome}}', '2': 'HP123', '3': 'Obrigado!', '4': '' },
+      buttons: undefined,
+    })
+  })
+})
+
+describe('listJsonPaths', () => {
+  it('lista as folhas com o caminho pronto para o mapeamento', () => {
+    const paths = listJsonPaths(hotmart)
+    expect(paths).toContainEqual({ path: '$.data.buyer.checkout_phone', value: '11999990000' })
+    expect(paths).toContainEqual({ path: '$.data.items[1].sku', value: 'B2' })
+    expect(paths).toContainEqual({ path: "$.data['first name']", value: 'Ana' })
+  })
+
+  it('respeita o limite', () => {
+    expect(listJsonPaths(hotmart, 3)).toHaveLength(3)
+  })
+})
+
+describe('validateInboundWebhookAction', () => {
+  it('exige tag, template ou workflow conforme a ação', () => {
+    expect(validateInboundWebhookAction({ action: 'upsert_contact' })).toBeNull()
+    expect(validateInboundWebhookAction({ action: 'add_tag', tags: [' '] })).toBe('Informe pelo menos uma tag')
+    expect(validateInboundWebhookAction({ action: 'add_tag', tags: ['comprador'] })).toBeNull()
+    expect(validateInboundWebhookAction({ action: 'send_template', templateName: null })).toBe('Selecione o template a enviar')
+    expect(validateInboundWebhookAction({ action: 'start_workflow', workflowId: 'wf_1' })).toBeNull()
+  })
+})
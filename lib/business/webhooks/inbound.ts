@@ -0,0 +1,239 @@
+/**
+ * Inbound Webhooks Module
+ *
+ * JSON path reader, payload -> contact mapping, trigger condition and
+ * template variable resolution of the inbound (generic trigger) webhooks.
+ * Contact upsert and sends live in lib/inbound-webhooks (server only);
+ * everything here is safe to import from the settings page.
+ */
+
+import type {
+  InboundWebhookAction,
+  InboundWebhookEventStatus,
+  InboundWebhookFieldMapping,
+  InboundWebhookTemplateVariables,
+} from '@/types'
+
+export const INBOUND_WEBHOOK_ACTIONS: InboundWebhookAction[] = [
+  'upsert_contact',
+  'add_tag',
+  'send_template',
+  'start_workflow',
+]
+
+export const INBOUND_WEBHOOK_ACTION_LABELS: Record<InboundWebhookAction, string> = {
+  upsert_contact: 'Criar/atualizar contato',
+  add_tag: 'Adicionar tag ao contato',
+  send_template: 'Enviar template aprovado',
+  start_workflow: 'Iniciar workflow do builder',
+}
+
+export const INBOUND_WEBHOOK_EVENT_STATUS_LABELS: Record<InboundWebhookEventStatus, string> = {
+  processed: 'Processado',
+  ignored: 'Ignorado',
+  failed: 'Falhou',
+}
+
+/** Payloads kept per endpoint for the inspector (older ones are pruned) */
+export const INBOUND_WEBHOOK_EVENTS_KEPT = 50
+
+/** Largest payload accepted by the receiver */
+export const INBOUND_WEBHOOK_MAX_PAYLOAD_BYTES = 256 * 1024
+
+/**
+ * Checks that the chosen action has what it needs (tag, template or workflow).
+ * Returns the error message or null.
+ */
+export function validateInboundWebhookAction(config: {
+  action: InboundWebhookAction
+  tags?: string[]
+  templateName?: string | null
+  workflowId?: string | null
+}): string | null {
+  if (config.action === 'add_tag' && !(config.tags || []).some((tag) => tag.trim())) {
+    return 'Informe pelo menos uma tag'
+  }
+  if (config.action === 'send_template' && !config.templateName?.trim()) {
+    return 'Selecione o template a enviar'
+  }
+  if (config.action === 'start_workflow' && !config.workflowId?.trim()) {
+    return 'Selecione o workflow a iniciar'
+  }
+  return null
+}
+
+type PathSegment = string | number
+
+/**
+ * Splits a JSON path into segments. Accepts `$.a.b[0]`, `a.b.0` and
+ * bracket keys (`$['first name']`). Returns null for malformed paths.
+ *
+ * @example parseJsonPath('$.buyer.phones[0]') // ['buyer', 'phones', 0]
+ */
+export function parseJsonPath(path: string): PathSegment[] | null {
+  let rest = path.trim()
+  if (!rest) return null
+  if (rest.startsWith('$')) rest = rest.slice(1)
+
+  const segments: PathSegment[] = []
+  const pattern = /^(?:\.?([A-Za-z0-9_\-:@]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\])/
+  while (rest.length > 0) {
+    const match = rest.match(pattern)
+    if (!match) return null
+    if (match[1] !== undefined) segments.push(/^\d+$/.test(match[1]) ? Number(match[1]) : match[1])
+    else if (match[2] !== undefined) segments.push(Number(match[2]))
+    else segments.push(match[3])
+    rest = rest.slice(match[0].length)
+  }
+  return segments
+}
+
+/**
+ * Reads the value at a JSON path (undefined when any step is missing).
+ */
+export function readJsonPath(payload: unknown, path: string): unknown {
+  const segments = parseJsonPath(path)
+  if (!segments) return undefined
+
+  let current: unknown = payload
+  for (const segment of segments) {
+    if (current === null || current === undefined) return undefined
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current)) return undefined
+      current = current[segment]
+    } else {
+      if (typeof current !== 'object' || Array.isArray(current)) return undefined
+      current = (current as Record<string, unknown>)[segment]
+    }
+  }
+  return current
+}
+
+/**
+ * Value at a JSON path as trimmed text (objects and arrays are ignored).
+ */
+export function readJsonPathText(payload: unknown, path: string | null | undefined): string | null {
+  if (!path) return null
+  const value = readJsonPath(payload, path)
+  if (typeof value === 'string') return value.trim() || null
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return null
+}
+
+/**
+ * Lists the leaf paths of a payload with their values, for the mapping
+ * inspector. Arrays are listed by index; stops after `limit` entries.
+ */
+export function listJsonPaths(
+  payload: unknown,
+  limit = 200
+): Array<{ path: string; value: string }> {
+  const out: Array<{ path: string; value: string }> = []
+
+  const walk = (value: unknown, path: string) => {
+    if (out.length >= limit) return
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, `${path}[${index}]`))
+      return
+    }
+    if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        const segment = /^[A-Za-z_][A-Za-z0-9_\-]*$/.test(key) ? `.${key}` : `['${key}']`
+        walk(child, `${path}${segment}`)
+      }
+      return
+    }
+    out.push({ path, value: value === null || value === undefined ? '' : String(value) })
+  }
+
+  walk(payload, '$')
+  return out
+}
+
+/**
+ * Trims the mapping from the settings form, dropping empty optional paths.
+ */
+export function normalizeInboundFieldMapping(mapping: InboundWebhookFieldMapping): InboundWebhookFieldMapping {
+  return {
+    phone: mapping.phone.trim(),
+    name: mapping.name?.trim() || undefined,
+    email: mapping.email?.trim() || undefined,
+    customFields: (mapping.customFields || [])
+      .map(({ key, path }) => ({ key: key.trim(), path: path.trim() }))
+      .filter(({ key, path }) => key && path),
+  }
+}
+
+export interface InboundContactData {
+  phone: string | null
+  name: string | null
+  email: string | null
+  customFields: Record<string, string>
+}
+
+/**
+ * Applies the field mapping to a payload. The phone comes back raw; the
+ * caller normalizes and validates it.
+ */
+export function mapInboundPayload(payload: unknown, mapping: InboundWebhookFieldMapping): InboundContactData {
+  const customFields: Record<string, string> = {}
+  for (const { key, path } of mapping.customFields || []) {
+    const value = readJsonPathText(payload, path)
+    if (key && value !== null) customFields[key] = value
+  }
+
+  return {
+    phone: readJsonPathText(payload, mapping.phone),
+    name: readJsonPathText(payload, mapping.name),
+    email: readJsonPathText(payload, mapping.email),
+    customFields,
+  }
+}
+
+/**
+ * Trigger condition: without a path every payload passes; otherwise the
+ * value at the path must equal the expected one (case-insensitive).
+ * Several accepted values can be separated by commas (`approved, complete`).
+ */
+export function matchesInboundCondition(
+  payload: unknown,
+  conditionPath: string | null | undefined,
+  conditionValue: string | null | undefined
+): boolean {
+  if (!conditionPath?.trim()) return true
+  const actual = readJsonPathText(payload, conditionPath)
+  if (actual === null) return false
+
+  const expected = String(conditionValue ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean)
+  if (expected.length === 0) return true
+  return expected.includes(actual.toLowerCase())
+}
+
+const isJsonPathValue = (value: string) => /^\$[.[]/.test(value.trim())
+
+/**
+ * Replaces template variables that are JSON paths with the payload values.
+ * Contact tokens ({{nome}}) and fixed text are kept for the template precheck.
+ */
+export function resolveInboundTemplateVariables(
+  variables: InboundWebhookTemplateVariables,
+  payload: unknown
+): InboundWebhookTemplateVariables {
+  const resolve = (map?: Record<string, string>) => {
+    if (!map) return undefined
+    const out: Record<string, string> = {}
+    for (const [key, value] of Object.entries(map)) {
+      out[key] = isJsonPathValue(value) ? readJsonPathText(payload, value) ?? '' : value
+    }
+    return out
+  }
+
+  return {
+    header: resolve(variables.header),
+    body: resolve(variables.body) ?? {},
+    buttons: resolve(variables.buttons),
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Outbound and Inbound Webhooks Business Logic
+ *
+ * @module lib/business/webhooks
+ */
+
+export {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_SECONDS,
+  WEBHOOK_RETRY_MAX_SECONDS,
+  WEBHOOK_RESPONSE_BODY_LIMIT,
+  isWebhookEventType,
+  getWebhookRetryDelaySeconds,
+  validateWebhookEndpointUrl,
+  truncateWebhookResponse,
+} from './events'
+
+export {
+  INBOUND_WEBHOOK_ACTIONS,
+  INBOUND_WEBHOOK_ACTION_LABELS,
+  INBOUND_WEBHOOK_EVENT_STATUS_LABELS,
+  INBOUND_WEBHOOK_EVENTS_KEPT,
+  INBOUND_WEBHOOK_MAX_PAYLOAD_BYTES,
+  parseJsonPath,
+  readJsonPath,
+  readJsonPathText,
+  listJsonPaths,
+  mapInboundPayload,
+  matchesInboundCondition,
+  resolveInboundTemplateVariables,
+  normalizeInboundFieldMapping,
+  validateInboundWebhookAction,
+  type InboundContactData,
+} from './inbound'
@@ -0,0 +1,14 @@
+/**
+ * WhatsApp Phone Numbers Business Logic
+ *
+ * @module lib/business/whatsapp
+ */
+
+export {
+  PHONE_NUMBER_LABEL_MAX_LENGTH,
+  PHONE_NUMBER_QUALITY_LABELS,
+  getPhoneNumberDisplayName,
+  formatPhoneNumberOption,
+  sortPhoneNumbers,
+  findPhoneNumber,
+} from './phone-numbers'
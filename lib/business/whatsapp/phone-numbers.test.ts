@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { findPhoneNumber, formatPhoneNumberOption, getPhoneNumberDisplayName, sortPhoneNumbers } from './phone-numbers'
+
+const number = (phoneNumberId: string, extra: Record<string, unknown> = {}) => ({
+  phoneNumberId,
+  label: null,
+  verifiedName: null,
+  displayPhoneNumber: null,
+  isPrimary: false,
+  ...extra,
+})
+
+describe('getPhoneNumberDisplayName', () => {
+  it('prefere rótulo, depois nome verificado e número', () => {
+    expect(getPhoneNumberDisplayName(number('1', { label: 'Vendas', verifiedName: 'Loja' }))).toBe('Vendas')
+    expect(getPhoneNumberDisplayName(number('1', { label: '  ', verifiedName: 'Loja' }))).toBe('Loja')
+    expect(getPhoneNumberDisplayName(number('1', { displayPhoneNumber: '+55 11 99999-0000' }))).toBe('+55 11 99999-0000')
+    expect(getPhoneNumberDisplayName(number('123'))).toBe('123')
+  })
+})
+
+describe('formatPhoneNumberOption', () => {
+  it('acrescenta o número quando o rótulo não o mostra', () => {
+    expect(formatPhoneNumberOption(number('1', { label: 'Suporte', displayPhoneNumber: '+55 11 3000-0000' }))).toBe(
+      'Suporte · +55 11 3000-0000'
+    )
+    expect(formatPhoneNumberOption(number('1', { displayPhoneNumber: '+55 11 3000-0000' }))).toBe('+55 11 3000-0000')
+  })
+})
+
+describe('sortPhoneNumbers', () => {
+  it('coloca o principal primeiro e ordena o resto pelo nome', () => {
+    const sorted = sortPhoneNumbers([
+      number('3', { label: 'Suporte' }),
+      number('2', { label: 'Atendimento' }),
+      number('1', { label: 'Vendas', isPrimary: true }),
+    ])
+    expect(sorted.map((n) => n.phoneNumberId)).toEqual(['1', '2', '3'])
+  })
+})
+
+describe('findPhoneNumber', () => {
+  const numbers = [number('1', { isPrimary: true }), number('2')]
+
+  it('sem número usa o principal', () => {
+    expect(findPhoneNumber(numbers, null)?.phoneNumberId).toBe('1')
+    expect(findPhoneNumber(numbers, '2')?.phoneNumberId).toBe('2')
+    expect(findPhoneNumber(numbers, '9')).toBeUndefined()
+  })
+})
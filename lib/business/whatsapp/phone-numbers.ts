@@ -0,0 +1,63 @@
+/**
+ * WhatsApp Phone Numbers Module
+ *
+ * Display and ordering helpers for the workspace's registered numbers.
+ * Credentials and per-number routing live in lib/whatsapp-credentials
+ * (server only); everything here is safe to import from client pages.
+ */
+
+import type { WhatsAppPhoneNumber } from '@/types'
+
+export const PHONE_NUMBER_LABEL_MAX_LENGTH = 60
+
+export const PHONE_NUMBER_QUALITY_LABELS: Record<string, string> = {
+  GREEN: 'Alta',
+  YELLOW: 'Média',
+  RED: 'Baixa',
+  UNKNOWN: 'Desconhecida',
+}
+
+type PhoneNumberLike = Pick<WhatsAppPhoneNumber, 'phoneNumberId' | 'label' | 'verifiedName' | 'displayPhoneNumber'>
+
+/**
+ * Name shown in selectors and badges: label > verified name > display number > Meta ID.
+ */
+export function getPhoneNumberDisplayName(number: PhoneNumberLike): string {
+  return (
+    number.label?.trim() ||
+    number.verifiedName?.trim() ||
+    number.displayPhoneNumber?.trim() ||
+    number.phoneNumberId
+  )
+}
+
+/**
+ * Label with the display number appended when the label alone hides it
+ * (e.g. "Vendas · +55 11 99999-0000").
+ */
+export function formatPhoneNumberOption(number: PhoneNumberLike): string {
+  const name = getPhoneNumberDisplayName(number)
+  const display = number.displayPhoneNumber?.trim()
+  return display && display !== name ? `${name} · ${display}` : name
+}
+
+/**
+ * Primary number first, then by display name.
+ */
+export function sortPhoneNumbers<T extends PhoneNumberLike & Pick<WhatsAppPhoneNumber, 'isPrimary'>>(numbers: T[]): T[] {
+  return [...numbers].sort((a, b) => {
+    if (a.isPrimary !== b.isPrimary) return a.isPrimary ? -1 : 1
+    return getPhoneNumberDisplayName(a).localeCompare(getPhoneNumberDisplayName(b), 'pt-BR')
+  })
+}
+
+/**
+ * Finds the registered number of a conversation/campaign (NULL = primary).
+ */
+export function findPhoneNumber<T extends Pick<WhatsAppPhoneNumber, 'phoneNumberId' | 'isPrimary'>>(
+  numbers: T[],
+  phoneNumberId: string | null | undefined
+): T | undefined {
+  if (!phoneNumberId) return numbers.find((number) => number.isPrimary)
+  return numbers.find((number) => number.phoneNumberId === phoneNumberId)
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AI_FALLBACK_HANDLE,
+  buildClassifyPrompt,
+  buildMockResponse,
+  coerceExtractedValues,
+  formatConversationTranscript,
+  getCategoryHandle,
+  isAiMockMode,
+  normalizeAiUsage,
+  parseAiCategories,
+  parseExtractionSchema,
+  resolveClassification,
+  splitCategoryEdges,
+  type AiSchemaField,
+} from './ai-nodes'
+
+const categories = parseAiCategories('Vendas: quer comprar\nSuporte: problema com pedido\nOrçamento')
+
+describe('parseAiCategories', () => {
+  it('lê uma categoria por linha com descrição opcional', () => {
+    expect(categories).toEqual([
+      { name: 'Vendas', description: 'quer comprar', handle: 'category-vendas' },
+      { name: 'Suporte', description: 'problema com pedido', handle: 'category-suporte' },
+      { name: 'Orçamento', description: '', handle: 'category-orcamento' },
+    ])
+  })
+
+  it('ignora linhas vazias e nomes repetidos', () => {
+    expect(parseAiCategories('\nVendas\n vendas \n:sem nome').map((c) => c.name)).toEqual(['Vendas'])
+  })
+})
+
+describe('getCategoryHandle', () => {
+  it('gera um handle estável sem acentos nem símbolos', () => {
+    expect(getCategoryHandle('Pedir orçamento!')).toBe('category-pedir-orcamento')
+  })
+})
+
+describe('buildClassifyPrompt', () => {
+  it('numera as categorias e inclui o texto', () => {
+    const { system, prompt } = buildClassifyPrompt('quero comprar', categories, 'Seja rigoroso')
+    expect(prompt).toContain('1. Vendas - quer comprar')
+    expect(prompt).toContain('3. Orçamento')
+    expect(prompt).toContain('"""quero comprar"""')
+    expect(system).toContain('Seja rigoroso')
+  })
+})
+
+describe('resolveClassification', () => {
+  it('mapeia o índice para a categoria e o handle', () => {
+    expect(resolveClassification({ category: 2, confidence: 0.9, reason: 'pedido' }, categories)).toEqual({
+      category: 'Suporte',
+      handle: 'category-suporte',
+      confidence: 0.9,
+      reason: 'pedido',
+    })
+  })
+
+  it('usa o caminho padrão para null, índice inválido ou confiança baixa', () => {
+    expect(resolveClassification({ category: null, confidence: 1 }, categories).handle).toBe(AI_FALLBACK_HANDLE)
+    expect(resolveClassification({ category: 7, confidence: 1 }, categories).handle).toBe(AI_FALLBACK_HANDLE)
+    expect(resolveClassification({ category: 1, confidence: 0.5 }, categories, '70')).toMatchObject({
+      category: null,
+      handle: AI_FALLBACK_HANDLE,
+      confidence: 0.5,
+    })
+  })
+})
+
+const schema: AiSchemaField[] = [
+  { name: 'nome', type: 'string' },
+  { name: 'valor', type: 'number' },
+  { name: 'urgente', type: 'boolean' },
+  { name: 'itens', type: 'array', itemType: 'number' },
+  { name: 'endereco', type: 'object', fields: [{ name: 'cidade', type: 'string' }] },
+]
+
+describe('parseExtractionSchema', () => {
+  it('aceita o JSON do schema builder e descarta campos sem nome', () => {
+    expect(parseExtractionSchema(JSON.stringify([...schema, { name: ' ', type: 'string' }]))).toHaveLength(5)
+  })
+
+  it('retorna vazio para JSON inválido', () => {
+    expect(parseExtractionSchema('{oops')).toEqual([])
+  })
+})
+
+describe('coerceExtractedValues', () => {
+  it('converte os valores para o tipo de cada campo', () => {
+    expect(
+      coerceExtractedValues(
+        { nome: ' Ana ', valor: '1.500,50', urgente: 'sim', itens: ['1', 'x', 2], endereco: { cidade: 'Recife', cep: '1' } },
+        schema
+      )
+    ).toEqual({
+      values: { nome: 'Ana', valor: 1500.5, urgente: true, itens: [1, 2], endereco: { cidade: 'Recife' } },
+      missing: [],
+    })
+  })
+
+  it('marca como ausentes os campos que o texto não informou', () => {
+    expect(coerceExtractedValues({ nome: '', valor: 'abc' }, schema).missing).toEqual([
+      'nome',
+      'valor',
+      'urgente',
+      'itens',
+      'endereco',
+    ])
+  })
+})
+
+describe('formatConversationTranscript', () => {
+  it('identifica cliente e atendente e ignora mensagens vazias', () => {
+    expect(
+      formatConversationTranscript([
+        { direction: 'inbound', text: 'Oi' },
+        { direction: 'outbound', text: ' ' },
+        { direction: 'outbound', text: 'Olá! Como posso ajudar?' },
+      ])
+    ).toBe('Cliente: Oi\nAtendente: Olá! Como posso ajudar?')
+  })
+})
+
+describe('modo mock', () => {
+  it('reconhece o modo ligado', () => {
+    expect(isAiMockMode('on')).toBe(true)
+    expect(isAiMockMode('off')).toBe(false)
+    expect(isAiMockMode(undefined)).toBe(false)
+  })
+
+  it('gera respostas que passam pelo mesmo parsing do modelo', () => {
+    const classification = resolveClassification(JSON.parse(buildMockResponse('classify', { categories })), categories)
+    expect(classification.category).toBe('Vendas')
+
+    const extracted = coerceExtractedValues(JSON.parse(buildMockResponse('extract', { fields: schema })), schema)
+    expect(extracted.values).toEqual({
+      nome: 'nome (mock)',
+      valor: 0,
+      urgente: false,
+      itens: [],
+      endereco: { cidade: 'cidade (mock)' },
+    })
+    expect(buildMockResponse('summarize')).toContain('mock')
+  })
+})
+
+describe('normalizeAiUsage', () => {
+  it('completa contagens ausentes', () => {
+    expect(normalizeAiUsage({ inputTokens: 10, outputTokens: 5 })).toEqual({
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 15,
+    })
+    expect(normalizeAiUsage(undefined)).toEqual({ inputTokens: 0, outputTokens: 0, totalTokens: 0 })
+  })
+})
+
+describe('splitCategoryEdges', () => {
+  it('segue só o ramo escolhido e as arestas sem handle', () => {
+    const edges = [
+      { source: 'n1', target: 'a', sourceHandle: 'category-vendas' },
+      { source: 'n1', target: 'b', sourceHandle: 'category-suporte' },
+      { source: 'n1', target: 'c', sourceHandle: AI_FALLBACK_HANDLE },
+      { source: 'n1', target: 'd', sourceHandle: null },
+      { source: 'n2', target: 'e', sourceHandle: 'category-vendas' },
+    ]
+    const { taken, skipped } = splitCategoryEdges(edges, 'n1', 'category-vendas')
+    expect(taken.map((edge) => edge.target)).toEqual(['a', 'd'])
+    expect(skipped.map((edge) => edge.target)).toEqual(['b', 'c'])
+  })
+})
@@ -0,0 +1,415 @@
+/**
+ * Workflow AI Nodes Module
+ *
+ * Pure helpers behind the "IA" nodes of the workflow builder: classify a text
+ * into user-defined categories (one canvas branch per category), extract
+ * fields into workflow variables, generate a reply and summarize a
+ * conversation. The steps call the LLM; the prompts, the parsing of the
+ * answers and the canned answers of the mock mode live here.
+ *
+ * Node config (`data.config`, string values):
+ * - All nodes: `aiModel` (`default` = model of the AI settings),
+ *   `mockMode` ('on' | 'off') and `mockResponse` (raw model answer to use)
+ * - Classify: `text`, `categories` (one per line, `Nome: descrição`),
+ *   `minConfidence` (0-100)
+ * - Extract: `text`, `schema` (fields of the schema builder, JSON)
+ */
+
+import type { WaitEdge } from './waits'
+
+export type AiNodeKind = 'classify' | 'extract' | 'generate-reply' | 'summarize'
+
+export interface AiCategory {
+  name: string
+  description: string
+  /** Source handle of the category branch on the canvas */
+  handle: string
+}
+
+export interface AiClassification {
+  category: string | null
+  handle: string
+  confidence: number
+  reason?: string
+}
+
+/** Field of the schema builder (`components/builder/workflow/config/schema-builder`) */
+export interface AiSchemaField {
+  name: string
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object'
+  itemType?: 'string' | 'number' | 'boolean' | 'object'
+  fields?: AiSchemaField[]
+  description?: string
+}
+
+export interface AiUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export interface AiTranscriptLine {
+  direction: 'inbound' | 'outbound'
+  text: string
+}
+
+/** Model select value that uses the model of the AI settings */
+export const AI_MODEL_DEFAULT = 'default'
+
+/** Source handle taken when no category fits (or the confidence is too low) */
+export const AI_FALLBACK_HANDLE = 'fallback'
+
+/** Texts sent to the model are capped (free-text answers, transcripts) */
+export const AI_TEXT_MAX_CHARS = 4000
+
+export const AI_MAX_CATEGORIES = 10
+
+const CATEGORY_HANDLE_PREFIX = 'category-'
+
+const MOCK_TEXT: Record<'generate-reply' | 'summarize', string> = {
+  'generate-reply': 'Resposta de teste (modo mock)',
+  summarize: 'Resumo de teste (modo mock)',
+}
+
+function clip(text: unknown): string {
+  return String(text ?? '').trim().slice(0, AI_TEXT_MAX_CHARS)
+}
+
+/**
+ * Source handle of a category branch: the name without accents or symbols,
+ * so renaming "Orçamento" to "orcamento" keeps the edges connected.
+ *
+ * @example
+ * ```ts
+ * getCategoryHandle('Pedir orçamento') // 'category-pedir-orcamento'
+ * ```
+ */
+export function getCategoryHandle(name: string): string {
+  const slug = String(name || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${CATEGORY_HANDLE_PREFIX}${slug}`
+}
+
+/**
+ * Categories typed in the Classify node, one per line with an optional
+ * description after `:`. Duplicated handles keep the first line.
+ *
+ * @example
+ * ```ts
+ * parseAiCategories('Vendas: quer comprar\nSuporte')
+ * // [{ name: 'Vendas', description: 'quer comprar', handle: 'category-vendas' },
+ * //  { name: 'Suporte', description: '', handle: 'category-suporte' }]
+ * ```
+ */
+export function parseAiCategories(raw: unknown): AiCategory[] {
+  const categories: AiCategory[] = []
+  const seen = new Set<string>()
+  for (const line of String(raw ?? '').split('\n')) {
+    const separator = line.indexOf(':')
+    const name = (separator === -1 ? line : line.slice(0, separator)).trim()
+    if (!name) continue
+    const handle = getCategoryHandle(name)
+    if (handle === CATEGORY_HANDLE_PREFIX || seen.has(handle)) continue
+    seen.add(handle)
+    categories.push({
+      name,
+      description: separator === -1 ? '' : line.slice(separator + 1).trim(),
+      handle,
+    })
+    if (categories.length === AI_MAX_CATEGORIES) break
+  }
+  return categories
+}
+
+/**
+ * Prompt of the Classify node. The model answers
+ * `{ "category": <index|null>, "confidence": 0-1, "reason": "..." }`.
+ */
+export function buildClassifyPrompt(
+  text: string,
+  categories: AiCategory[],
+  instructions?: string
+): { system: string; prompt: string } {
+  const list = categories
+    .map((category, index) =>
+      `${index + 1}. ${category.name}${category.description ? ` - ${category.description}` : ''}`
+    )
+    .join('\n')
+  const extra = instructions?.trim() ? `\n\nInstruções adicionais: ${instructions.trim()}` : ''
+
+  return {
+    system:
+      'Você classifica textos de clientes em uma das categorias listadas. ' +
+      'Escolha a categoria que melhor descreve o texto; se nenhuma se aplicar, use null. ' +
+      'Responda com JSON no formato {"category": número da categoria ou null, "confidence": número entre 0 e 1, "reason": "explicação curta"}.' +
+      extra,
+    prompt: `Categorias:\n${list}\n\nTexto:\n"""${clip(text)}"""`,
+  }
+}
+
+/**
+ * Maps the classifier answer to a category branch. Unknown indexes, `null`
+ * or a confidence below `minConfidence` (0-100) take the fallback branch.
+ */
+export function resolveClassification(
+  raw: unknown,
+  categories: AiCategory[],
+  minConfidence: unknown = 0
+): AiClassification {
+  const answer = (raw ?? {}) as { category?: unknown; confidence?: unknown; reason?: unknown }
+  const confidence = Math.min(1, Math.max(0, Number(answer.confidence) || 0))
+  const reason = typeof answer.reason === 'string' ? answer.reason : undefined
+  const threshold = Math.min(100, Math.max(0, Number(minConfidence) || 0)) / 100
+
+  const index = Number(answer.category)
+  const category =
+    answer.category !== null && Number.isInteger(index) ? categories[index - 1] : undefined
+  if (!category || confidence < threshold) {
+    return { category: null, handle: AI_FALLBACK_HANDLE, confidence, reason }
+  }
+  return { category: category.name, handle: category.handle, confidence, reason }
+}
+
+/** Named top-level fields of the schema builder JSON (invalid JSON = no fields) */
+export function parseExtractionSchema(raw: unknown): AiSchemaField[] {
+  let parsed: unknown = raw
+  if (typeof raw === 'string') {
+    try {
+      parsed = raw.trim() ? JSON.parse(raw) : []
+    } catch {
+      return []
+    }
+  }
+  if (!Array.isArray(parsed)) return []
+  return (parsed as AiSchemaField[]).filter(
+    (field) => field && typeof field.name === 'string' && field.name.trim() !== ''
+  )
+}
+
+function describeSchemaField(field: AiSchemaField): string {
+  switch (field.type) {
+    case 'array':
+      return `lista de ${field.itemType || 'string'}`
+    case 'object':
+      return `objeto com ${(field.fields || []).map((child) => child.name).join(', ') || 'campos livres'}`
+    default:
+      return field.type
+  }
+}
+
+/**
+ * Prompt of the Extract node: one JSON key per schema field, `null` for
+ * what the text does not say (the model must not guess).
+ */
+export function buildExtractPrompt(
+  text: string,
+  fields: AiSchemaField[],
+  instructions?: string
+): { system: string; prompt: string } {
+  const list = fields
+    .map((field) =>
+      `- ${field.name} (${describeSchemaField(field)})${field.description ? `: ${field.description}` : ''}`
+    )
+    .join('\n')
+  const extra = instructions?.trim() ? `\n\nInstruções adicionais: ${instructions.trim()}` : ''
+
+  return {
+    system:
+      'Você extrai dados estruturados de textos livres de clientes. ' +
+      'Responda com um objeto JSON com exatamente as chaves dos campos listados. ' +
+      'Use null quando o texto não informar o campo; não invente valores.' +
+      extra,
+    prompt: `Campos:\n${list}\n\nTexto:\n"""${clip(text)}"""`,
+  }
+}
+
+function coerceValue(
+  value: unknown,
+  type: AiSchemaField['type'],
+  field?: AiSchemaField
+): unknown {
+  if (value === null || value === undefined) return null
+  switch (type) {
+    case 'string': {
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value).trim()
+      return text === '' ? null : text
+    }
+    case 'number': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : null
+      const text = String(value).trim().replace(/\s/g, '')
+      const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text
+      const number = Number(normalized)
+      return normalized !== '' && Number.isFinite(number) ? number : null
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const text = String(value).trim().toLowerCase()
+      if (['true', 'sim', 's', 'yes'].includes(text)) return true
+      if (['false', 'nao', 'não', 'n', 'no'].includes(text)) return false
+      return null
+    }
+    case 'array':
+      return Array.isArray(value)
+        ? value
+            .map((item) => coerceValue(item, field?.itemType || 'string'))
+            .filter((item) => item !== null)
+        : null
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return null
+      const source = value as Record<string, unknown>
+      if (!field?.fields?.length) return source
+      return coerceExtractedValues(source, field.fields).values
+    }
+    default:
+      return value
+  }
+}
+
+/**
+ * Extracted values typed as the schema says: `"1.500,50"` becomes 1500.5,
+ * `"sim"` becomes true, and fields the text did not answer become `null`
+ * (listed in `missing`).
+ */
+export function coerceExtractedValues(
+  raw: unknown,
+  fields: AiSchemaField[]
+): { values: Record<string, unknown>; missing: string[] } {
+  const source =
+    raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {}
+  const values: Record<string, unknown> = {}
+  const missing: string[] = []
+  for (const field of fields) {
+    const name = field.name.trim()
+    const value = coerceValue(source[name], field.type, field)
+    values[name] = value
+    if (value === null) missing.push(name)
+  }
+  return { values, missing }
+}
+
+/** Prompt of the Generate Reply node (knowledge base excerpts, when found, go first) */
+export function buildReplyPrompt(
+  prompt: string,
+  knowledge: string[] = [],
+  instructions?: string
+): { system: string; prompt: string } {
+  const context = knowledge.length
+    ? `Use as informações da base de conhecimento abaixo quando forem relevantes. ` +
+      `Se a resposta não estiver nelas, não invente.\n\n${knowledge
+        .map((chunk, index) => `[${index + 1}] ${chunk}`)
+        .join('\n\n')}\n\n`
+    : ''
+  return {
+    system:
+      'Você escreve respostas curtas e cordiais para clientes no WhatsApp, em português do Brasil. ' +
+      'Responda apenas com o texto da mensagem, sem aspas nem comentários.' +
+      (instructions?.trim() ? `\n\n${instructions.trim()}` : ''),
+    prompt: `${context}${clip(prompt)}`,
+  }
+}
+
+/**
+ * Conversation as plain text for the summary, oldest first.
+ *
+ * @example
+ * ```ts
+ * formatConversationTranscript([{ direction: 'inbound', text: 'Oi' }]) // 'Cliente: Oi'
+ * ```
+ */
+export function formatConversationTranscript(lines: AiTranscriptLine[]): string {
+  const transcript = lines
+    .filter((line) => line.text.trim())
+    .map((line) => `${line.direction === 'inbound' ? 'Cliente' : 'Atendente'}: ${line.text.trim()}`)
+    .join('\n')
+  // Keeps the end of long conversations (the most recent messages matter most)
+  return transcript.length > AI_TEXT_MAX_CHARS ? transcript.slice(-AI_TEXT_MAX_CHARS) : transcript
+}
+
+/** Prompt of the Summarize node */
+export function buildSummaryPrompt(
+  transcript: string,
+  instructions?: string
+): { system: string; prompt: string } {
+  return {
+    system:
+      'Você resume conversas de atendimento via WhatsApp para a equipe, em português do Brasil. ' +
+      'Destaque o que o cliente quer, o que já foi feito e o que falta, em poucas frases.' +
+      (instructions?.trim() ? `\n\n${instructions.trim()}` : ''),
+    prompt: `Conversa:\n${transcript}`,
+  }
+}
+
+/** Whether the node answers with the mock response instead of calling the model */
+export function isAiMockMode(value: unknown): boolean {
+  return value === true || value === 'on' || value === 'true'
+}
+
+function mockValue(field: AiSchemaField): unknown {
+  switch (field.type) {
+    case 'number':
+      return 0
+    case 'boolean':
+      return false
+    case 'array':
+      return []
+    case 'object':
+      return Object.fromEntries((field.fields || []).map((child) => [child.name, mockValue(child)]))
+    default:
+      return `${field.name} (mock)`
+  }
+}
+
+/**
+ * Canned model answer for the mock mode when the node has no `mockResponse`:
+ * the first category, a placeholder per schema field or a fixed text.
+ */
+export function buildMockResponse(
+  kind: AiNodeKind,
+  options: { categories?: AiCategory[]; fields?: AiSchemaField[] } = {}
+): string {
+  switch (kind) {
+    case 'classify':
+      return JSON.stringify({
+        category: options.categories?.length ? 1 : null,
+        confidence: 1,
+        reason: 'modo mock',
+      })
+    case 'extract':
+      return JSON.stringify(
+        Object.fromEntries((options.fields || []).map((field) => [field.name, mockValue(field)]))
+      )
+    default:
+      return MOCK_TEXT[kind]
+  }
+}
+
+/** Token usage as reported by the provider (missing counts become 0) */
+export function normalizeAiUsage(usage: Partial<Record<keyof AiUsage, number | undefined>> | null | undefined): AiUsage {
+  const inputTokens = Number(usage?.inputTokens) || 0
+  const outputTokens = Number(usage?.outputTokens) || 0
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: Number(usage?.totalTokens) || inputTokens + outputTokens,
+  }
+}
+
+/**
+ * Outgoing edges of a Classify node split by the chosen branch. Edges
+ * without a handle (drawn before the categories existed) always run.
+ */
+export function splitCategoryEdges<T extends WaitEdge>(
+  edges: T[],
+  nodeId: string,
+  handle: string
+): { taken: T[]; skipped: T[] } {
+  const outgoing = edges.filter((edge) => edge.source === nodeId)
+  return {
+    taken: outgoing.filter((edge) => !edge.sourceHandle || edge.sourceHandle === handle),
+    skipped: outgoing.filter((edge) => edge.sourceHandle && edge.sourceHandle !== handle),
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { CampaignStatus } from '@/types'
+import {
+  addTags,
+  coerceCustomFieldValue,
+  isCampaignAudienceOpen,
+  parseCustomFieldsInput,
+  parseTagInput,
+  removeTags,
+  resolveHandoffPriority,
+} from './contact-actions'
+
+describe('parseTagInput', () => {
+  it('aceita vírgulas e quebras de linha, sem duplicar', () => {
+    expect(parseTagInput('vip, Lead quente\nVIP\n\n')).toEqual(['vip', 'Lead quente'])
+  })
+
+  it('retorna vazio para entrada vazia', () => {
+    expect(parseTagInput(undefined)).toEqual([])
+    expect(parseTagInput('  ')).toEqual([])
+  })
+})
+
+describe('addTags / removeTags', () => {
+  it('adiciona só as tags que o contato ainda não tem', () => {
+    expect(addTags(['VIP'], ['vip', 'cliente'])).toEqual({ tags: ['VIP', 'cliente'], added: ['cliente'] })
+  })
+
+  it('remove ignorando maiúsculas e informa o que saiu', () => {
+    expect(removeTags(['VIP', 'cliente'], ['vip', 'inexistente'])).toEqual({
+      tags: ['cliente'],
+      removed: ['VIP'],
+    })
+  })
+})
+
+describe('parseCustomFieldsInput', () => {
+  it('converte valores para texto e descarta vazios', () => {
+    expect(parseCustomFieldsInput('{"cidade": "Recife", "idade": 32, "plano": "", "extra": null}')).toEqual({
+      ok: true,
+      fields: { cidade: 'Recife', idade: '32' },
+    })
+  })
+
+  it('rejeita JSON que não é objeto', () => {
+    expect(parseCustomFieldsInput('[1, 2]').ok).toBe(false)
+    expect(parseCustomFieldsInput('{cidade').ok).toBe(false)
+  })
+
+  it('aceita campo vazio como nenhum campo', () => {
+    expect(parseCustomFieldsInput('')).toEqual({ ok: true, fields: {} })
+  })
+})
+
+describe('coerceCustomFieldValue', () => {
+  it('aceita qualquer texto quando o campo não tem definição', () => {
+    expect(coerceCustomFieldValue(null, ' resposta livre ')).toEqual({ ok: true, value: 'resposta livre' })
+  })
+
+  it('rejeita valor vazio', () => {
+    expect(coerceCustomFieldValue(null, '').ok).toBe(false)
+  })
+
+  it('normaliza números com vírgula', () => {
+    expect(coerceCustomFieldValue({ type: 'number' }, '12,5')).toEqual({ ok: true, value: '12.5' })
+    expect(coerceCustomFieldValue({ type: 'number' }, 'doze').ok).toBe(false)
+  })
+
+  it('aceita datas ISO e no formato brasileiro', () => {
+    expect(coerceCustomFieldValue({ type: 'date' }, '2026-10-19T10:00:00Z')).toEqual({ ok: true, value: '2026-10-19' })
+    expect(coerceCustomFieldValue({ type: 'date' }, '19/10/2026')).toEqual({ ok: true, value: '2026-10-19' })
+    expect(coerceCustomFieldValue({ type: 'date' }, 'amanhã').ok).toBe(false)
+  })
+
+  it('usa a grafia da opção no campo de seleção', () => {
+    expect(coerceCustomFieldValue({ type: 'select', options: ['Ouro', 'Prata'] }, 'ouro')).toEqual({
+      ok: true,
+      value: 'Ouro',
+    })
+    expect(coerceCustomFieldValue({ type: 'select', options: ['Ouro'] }, 'Bronze').ok).toBe(false)
+  })
+})
+
+describe('isCampaignAudienceOpen', () => {
+  it('só aceita campanhas que ainda não começaram', () => {
+    expect(isCampaignAudienceOpen(CampaignStatus.DRAFT)).toBe(true)
+    expect(isCampaignAudienceOpen(CampaignStatus.SCHEDULED)).toBe(true)
+    expect(isCampaignAudienceOpen(CampaignStatus.SENDING)).toBe(false)
+    expect(isCampaignAudienceOpen(undefined)).toBe(false)
+  })
+})
+
+describe('resolveHandoffPriority', () => {
+  it('usa alta quando a prioridade não é válida', () => {
+    expect(resolveHandoffPriority('urgent')).toBe('urgent')
+    expect(resolveHandoffPriority('')).toBe('high')
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Workflow Contact Actions Module
+ *
+ * Pure helpers behind the "Contatos" nodes of the workflow builder (upsert
+ * contact, custom fields, tags, opt-out/opt-in, inbox label, handoff and
+ * campaign audience). The steps resolve templates (`{{var.x}}`) before
+ * calling these, so every input arrives as plain text.
+ */
+
+import { CampaignStatus, type ConversationPriority, type CustomFieldDefinition } from '@/types'
+
+export type CustomFieldValueResult = { ok: true; value: string } | { ok: false; error: string }
+
+export type CustomFieldsInputResult = { ok: true; fields: Record<string, string> } | { ok: false; error: string }
+
+/** Campaigns that have not started sending yet (audience can still grow) */
+export const CAMPAIGN_AUDIENCE_OPEN_STATUSES: CampaignStatus[] = [CampaignStatus.DRAFT, CampaignStatus.SCHEDULED]
+
+export const HANDOFF_PRIORITIES: ConversationPriority[] = ['low', 'normal', 'high', 'urgent']
+
+const DEFAULT_HANDOFF_PRIORITY: ConversationPriority = 'high'
+
+/**
+ * Tags typed in a node (comma or one per line), trimmed and without
+ * duplicates (case-insensitive, first spelling wins).
+ *
+ * @example
+ * ```ts
+ * parseTagInput('vip, Lead quente\nVIP') // ['vip', 'Lead quente']
+ * ```
+ */
+export function parseTagInput(raw: unknown): string[] {
+  const seen = new Set<string>()
+  const tags: string[] = []
+  for (const entry of String(raw ?? '').split(/[,\n]/)) {
+    const tag = entry.trim()
+    if (!tag || seen.has(tag.toLowerCase())) continue
+    seen.add(tag.toLowerCase())
+    tags.push(tag)
+  }
+  return tags
+}
+
+/**
+ * Adds tags the contact does not have yet (case-insensitive).
+ */
+export function addTags(current: string[], tags: string[]): { tags: string[]; added: string[] } {
+  const existing = new Set(current.map((tag) => tag.toLowerCase()))
+  const added = tags.filter((tag) => !existing.has(tag.toLowerCase()))
+  return { tags: [...current, ...added], added }
+}
+
+/**
+ * Removes tags from the contact (case-insensitive).
+ */
+export function removeTags(current: string[], tags: string[]): { tags: string[]; removed: string[] } {
+  const toRemove = new Set(tags.map((tag) => tag.toLowerCase()))
+  return {
+    tags: current.filter((tag) => !toRemove.has(tag.toLowerCase())),
+    removed: current.filter((tag) => toRemove.has(tag.toLowerCase())),
+  }
+}
+
+/**
+ * Custom fields typed as a JSON object (`{"cidade": "{{var.cidade}}"}`).
+ * Values become strings; empty values are dropped so a missing variable does
+ * not wipe what the contact already has.
+ */
+export function parseCustomFieldsInput(raw: unknown): CustomFieldsInputResult {
+  const text = String(raw ?? '').trim()
+  if (!text) return { ok: true, fields: {} }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'Custom fields must be a JSON object' }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, error: 'Custom fields must be a JSON object' }
+  }
+
+  const fields: Record<string, string> = {}
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const fieldKey = key.trim()
+    if (!fieldKey || value === null || value === undefined) continue
+    const fieldValue = (typeof value === 'object' ? JSON.stringify(value) : String(value)).trim()
+    if (fieldValue) fields[fieldKey] = fieldValue
+  }
+  return { ok: true, fields }
+}
+
+/**
+ * Checks a value against the custom field definition (when there is one) and
+ * returns it as stored: numbers normalized, dates as `YYYY-MM-DD`, select
+ * options with the option's own spelling.
+ *
+ * @example
+ * ```ts
+ * coerceCustomFieldValue({ type: 'select', options: ['Ouro', 'Prata'] }, 'ouro')
+ * // { ok: true, value: 'Ouro' }
+ * ```
+ */
+export function coerceCustomFieldValue(
+  definition: Pick<CustomFieldDefinition, 'type' | 'options'> | null | undefined,
+  raw: unknown
+): CustomFieldValueResult {
+  const value = String(raw ?? '').trim()
+  if (!value) return { ok: false, error: 'Custom field value is empty' }
+  if (!definition) return { ok: true, value }
+
+  switch (definition.type) {
+    case 'number': {
+      const number = Number(value.replace(',', '.'))
+      return Number.isFinite(number)
+        ? { ok: true, value: String(number) }
+        : { ok: false, error: `"${value}" is not a number` }
+    }
+    case 'date': {
+      const iso = /^(\d{4}-\d{2}-\d{2})/.exec(value)?.[1]
+      const br = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value)
+      const date = iso ?? (br ? `${br[3]}-${br[2]}-${br[1]}` : null)
+      return date && !Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())
+        ? { ok: true, value: date }
+        : { ok: false, error: `"${value}" is not a date` }
+    }
+    case 'select': {
+      const option = (definition.options || []).find((entry) => entry.toLowerCase() === value.toLowerCase())
+      return option
+        ? { ok: true, value: option }
+        : { ok: false, error: `"${value}" is not one of the field options` }
+    }
+    default:
+      return { ok: true, value }
+  }
+}
+
+/** Whether a campaign in this status still accepts new recipients */
+export function isCampaignAudienceOpen(status: CampaignStatus | string | null | undefined): boolean {
+  return CAMPAIGN_AUDIENCE_OPEN_STATUSES.includes(status as CampaignStatus)
+}
+
+/** Handoff priority from the node config (default: high) */
+export function resolveHandoffPriority(raw: unknown): ConversationPriority {
+  return HANDOFF_PRIORITIES.includes(raw as ConversationPriority)
+    ? (raw as ConversationPriority)
+    : DEFAULT_HANDOFF_PRIORITY
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  FOR_EACH_DEFAULT_MAX_ITERATIONS,
+  FOR_EACH_ITEM_HANDLE,
+  FOR_EACH_MAX_ITERATIONS,
+  WORKFLOW_CALL_MAX_DEPTH,
+  checkWorkflowCall,
+  collectLoopBody,
+  parseInputMapping,
+  parseLoopItems,
+  resolveForEachErrorMode,
+  resolveMaxIterations,
+  splitForEachEdges,
+} from './flow-control'
+
+describe('parseLoopItems', () => {
+  it('lê listas JSON vindas dos templates', () => {
+    expect(parseLoopItems('[{"id":1},{"id":2}]')).toEqual({ ok: true, items: [{ id: 1 }, { id: 2 }] })
+    expect(parseLoopItems(['a', 'b'])).toEqual({ ok: true, items: ['a', 'b'] })
+  })
+
+  it('lê texto simples como um item por linha', () => {
+    expect(parseLoopItems(' ana@x.com \n\nbia@x.com')).toEqual({ ok: true, items: ['ana@x.com', 'bia@x.com'] })
+  })
+
+  it('trata vazio como lista vazia', () => {
+    expect(parseLoopItems('  ')).toEqual({ ok: true, items: [] })
+    expect(parseLoopItems(undefined)).toEqual({ ok: true, items: [] })
+  })
+
+  it('recusa objetos e JSON inválido', () => {
+    expect(parseLoopItems('{"id":1}')).toEqual({ ok: false, error: 'For Each items must be a list' })
+    expect(parseLoopItems('[1,')).toEqual({ ok: false, error: 'For Each items are not valid JSON' })
+    expect(parseLoopItems(42).ok).toBe(false)
+  })
+})
+
+describe('resolveMaxIterations', () => {
+  it('usa o padrão quando vazio ou inválido e respeita o teto', () => {
+    expect(resolveMaxIterations('')).toBe(FOR_EACH_DEFAULT_MAX_ITERATIONS)
+    expect(resolveMaxIterations('0')).toBe(FOR_EACH_DEFAULT_MAX_ITERATIONS)
+    expect(resolveMaxIterations('abc')).toBe(FOR_EACH_DEFAULT_MAX_ITERATIONS)
+    expect(resolveMaxIterations('12.9')).toBe(12)
+    expect(resolveMaxIterations('99999')).toBe(FOR_EACH_MAX_ITERATIONS)
+  })
+})
+
+describe('resolveForEachErrorMode', () => {
+  it('para no primeiro erro por padrão', () => {
+    expect(resolveForEachErrorMode(undefined)).toBe('stop')
+    expect(resolveForEachErrorMode('continue')).toBe('continue')
+  })
+})
+
+describe('splitForEachEdges', () => {
+  it('separa as arestas por item das que seguem depois do loop', () => {
+    const edges = [
+      { source: 'loop', target: 'a', sourceHandle: FOR_EACH_ITEM_HANDLE },
+      { source: 'loop', target: 'b', sourceHandle: null },
+      { source: 'x', target: 'c', sourceHandle: FOR_EACH_ITEM_HANDLE },
+    ]
+    const { item, done } = splitForEachEdges(edges, 'loop')
+    expect(item.map((edge) => edge.target)).toEqual(['a'])
+    expect(done.map((edge) => edge.target)).toEqual(['b'])
+  })
+})
+
+describe('collectLoopBody', () => {
+  it('inclui os nós alcançados pelo handle de item', () => {
+    const edges = [
+      { source: 'trigger', target: 'loop' },
+      { source: 'loop', target: 'send', sourceHandle: FOR_EACH_ITEM_HANDLE },
+      { source: 'send', target: 'tag' },
+      { source: 'loop', target: 'summary' },
+    ]
+    expect(collectLoopBody(edges, 'loop')).toEqual({ nodeIds: ['send', 'tag'], entryNodeIds: ['send'] })
+  })
+
+  it('encerra o corpo onde ele encontra o caminho de saída', () => {
+    const edges = [
+      { source: 'loop', target: 'send', sourceHandle: FOR_EACH_ITEM_HANDLE },
+      { source: 'send', target: 'summary' },
+      { source: 'loop', target: 'summary' },
+      { source: 'summary', target: 'end' },
+    ]
+    expect(collectLoopBody(edges, 'loop').nodeIds).toEqual(['send'])
+  })
+
+  it('retorna vazio sem arestas de item', () => {
+    expect(collectLoopBody([{ source: 'loop', target: 'end' }], 'loop')).toEqual({ nodeIds: [], entryNodeIds: [] })
+  })
+})
+
+describe('parseInputMapping', () => {
+  it('aceita uma chave por linha com ":" ou "="', () => {
+    expect(parseInputMapping('cpf: 123.456.789-00\nsite=https://x.com\n\n')).toEqual({
+      ok: true,
+      values: { cpf: '123.456.789-00', site: 'https://x.com' },
+    })
+  })
+
+  it('aceita um objeto JSON', () => {
+    expect(parseInputMapping('{"cpf":"1","tentativas":2}')).toEqual({ ok: true, values: { cpf: '1', tentativas: 2 } })
+  })
+
+  it('recusa linhas sem chave e JSON que não é objeto', () => {
+    expect(parseInputMapping('sem separador')).toEqual({
+      ok: false,
+      error: 'Invalid input mapping line: "sem separador"',
+    })
+    expect(parseInputMapping('{oops')).toEqual({ ok: false, error: 'Input mapping is not valid JSON' })
+    expect(parseInputMapping('{"a":1').ok).toBe(false)
+  })
+})
+
+describe('checkWorkflowCall', () => {
+  it('exige o fluxo de destino', () => {
+    expect(checkWorkflowCall(['wf1'], ' ')).toEqual({ ok: false, error: 'Workflow to call is required' })
+  })
+
+  it('bloqueia chamadas recursivas', () => {
+    expect(checkWorkflowCall(['wf1', 'wf2'], 'wf1').ok).toBe(false)
+  })
+
+  it('limita a profundidade da cadeia', () => {
+    const stack = Array.from({ length: WORKFLOW_CALL_MAX_DEPTH }, (_, index) => `wf${index}`)
+    expect(checkWorkflowCall(stack, 'outro')).toEqual({
+      ok: false,
+      error: `Maximum workflow call depth is ${WORKFLOW_CALL_MAX_DEPTH}`,
+    })
+    expect(checkWorkflowCall(stack.slice(1), 'outro')).toEqual({ ok: true })
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * Workflow Flow Control Module
+ *
+ * Nodes that run other parts of a graph synchronously:
+ * - For Each: runs the nodes connected to its "item" handle once per item of a
+ *   list (e.g. an HTTP Request result), then continues down its other edges.
+ * - Call Workflow: runs the published version of another workflow with the
+ *   mapped input and returns its output.
+ *
+ * Node config (`data.config`, string values):
+ * - For Each: `items` (template or JSON list), `maxIterations`, `itemVariable`,
+ *   `onItemError` ('stop' | 'continue')
+ * - Call Workflow: `targetWorkflowId`, `inputMapping` (JSON object or one
+ *   `key: value` per line), `inheritTrigger` ('on' | 'off')
+ */
+
+import type { WaitEdge } from './waits'
+
+export type ForEachErrorMode = 'stop' | 'continue'
+
+export type LoopItemsResult = { ok: true; items: unknown[] } | { ok: false; error: string }
+
+export type InputMappingResult =
+  | { ok: true; values: Record<string, unknown> }
+  | { ok: false; error: string }
+
+export type WorkflowCallCheck = { ok: true } | { ok: false; error: string }
+
+/** Nodes run once per item: the body of the loop */
+export interface LoopBody {
+  nodeIds: string[]
+  /** Body nodes connected straight to the "item" handle */
+  entryNodeIds: string[]
+}
+
+/** Source handle of the For Each edges that run once per item */
+export const FOR_EACH_ITEM_HANDLE = 'item'
+
+export const FOR_EACH_DEFAULT_MAX_ITERATIONS = 50
+
+/** Hard cap, whatever the node says (each iteration runs the whole body) */
+export const FOR_EACH_MAX_ITERATIONS = 500
+
+/** Longest chain of workflows calling workflows */
+export const WORKFLOW_CALL_MAX_DEPTH = 5
+
+const MAPPING_KEY_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_.-]*$/
+
+/**
+ * Items of a For Each. Templates resolve to strings, so lists arrive as JSON;
+ * plain text is read as one item per line.
+ *
+ * @example
+ * ```ts
+ * parseLoopItems('[{"id":1},{"id":2}]') // { ok: true, items: [{ id: 1 }, { id: 2 }] }
+ * parseLoopItems('ana@x.com\nbia@x.com') // { ok: true, items: ['ana@x.com', 'bia@x.com'] }
+ * ```
+ */
+export function parseLoopItems(raw: unknown): LoopItemsResult {
+  if (Array.isArray(raw)) return { ok: true, items: raw }
+  if (raw === undefined || raw === null) return { ok: true, items: [] }
+  if (typeof raw !== 'string') {
+    return { ok: false, error: 'For Each items must be a list' }
+  }
+
+  const text = raw.trim()
+  if (!text) return { ok: true, items: [] }
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      return { ok: false, error: 'For Each items are not valid JSON' }
+    }
+    return Array.isArray(parsed)
+      ? { ok: true, items: parsed }
+      : { ok: false, error: 'For Each items must be a list' }
+  }
+
+  return {
+    ok: true,
+    items: text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean),
+  }
+}
+
+/** Max iterations of the node: default when empty or invalid, never above the cap */
+export function resolveMaxIterations(raw: unknown): number {
+  const text = String(raw ?? '').trim()
+  const value = text ? Math.floor(Number(text)) : NaN
+  if (!Number.isFinite(value) || value < 1) return FOR_EACH_DEFAULT_MAX_ITERATIONS
+  return Math.min(value, FOR_EACH_MAX_ITERATIONS)
+}
+
+export function resolveForEachErrorMode(raw: unknown): ForEachErrorMode {
+  return raw === 'continue' ? 'continue' : 'stop'
+}
+
+/**
+ * Outgoing edges of a For Each split between the per-item path and the
+ * path that runs once, after the last item.
+ */
+export function splitForEachEdges<T extends WaitEdge>(
+  edges: T[],
+  nodeId: string
+): { item: T[]; done: T[] } {
+  const outgoing = edges.filter((edge) => edge.source === nodeId)
+  return {
+    item: outgoing.filter((edge) => edge.sourceHandle === FOR_EACH_ITEM_HANDLE),
+    done: outgoing.filter((edge) => edge.sourceHandle !== FOR_EACH_ITEM_HANDLE),
+  }
+}
+
+function collectReachable(edges: WaitEdge[], startIds: string[], stopId: string): Set<string> {
+  const reachable = new Set<string>()
+  const stack = [...startIds]
+  while (stack.length > 0) {
+    const current = stack.pop()
+    if (!current || current === stopId || reachable.has(current)) continue
+    reachable.add(current)
+    for (const edge of edges) {
+      if (edge.source === current) stack.push(edge.target)
+    }
+  }
+  return reachable
+}
+
+/**
+ * Body of a For Each: everything reachable from the "item" handle, except the
+ * nodes also reachable after the loop (a branch that joins the "done" path
+ * ends the body there).
+ */
+export function collectLoopBody(edges: WaitEdge[], nodeId: string): LoopBody {
+  const { item, done } = splitForEachEdges(edges, nodeId)
+  const after = collectReachable(
+    edges,
+    done.map((edge) => edge.target),
+    nodeId
+  )
+  const body = [...collectReachable(edges, item.map((edge) => edge.target), nodeId)].filter(
+    (id) => !after.has(id)
+  )
+  const bodyIds = new Set(body)
+  return {
+    nodeIds: body,
+    entryNodeIds: [...new Set(item.map((edge) => edge.target))].filter((id) => bodyIds.has(id)),
+  }
+}
+
+/**
+ * Input passed to a called workflow: a JSON object, or one `key: value`
+ * (or `key=value`) per line. Values are kept as the strings the templates
+ * resolved to.
+ *
+ * @example
+ * ```ts
+ * parseInputMapping('cpf: 123\nemail=ana@x.com')
+ * // { ok: true, values: { cpf: '123', email: 'ana@x.com' } }
+ * ```
+ */
+export function parseInputMapping(raw: unknown): InputMappingResult {
+  const text = String(raw ?? '').trim()
+  if (!text) return { ok: true, values: {} }
+
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text)
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return { ok: true, values: parsed as Record<string, unknown> }
+      }
+    } catch {
+      return { ok: false, error: 'Input mapping is not valid JSON' }
+    }
+    return { ok: false, error: 'Input mapping must be an object' }
+  }
+
+  const values: Record<string, unknown> = {}
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    const separator = line.search(/[:=]/)
+    const key = separator === -1 ? '' : line.slice(0, separator).trim()
+    if (!MAPPING_KEY_PATTERN.test(key)) {
+      return { ok: false, error: `Invalid input mapping line: "${line.trim()}"` }
+    }
+    values[key] = line.slice(separator + 1).trim()
+  }
+  return { ok: true, values }
+}
+
+/**
+ * Whether a workflow may be called from the current chain (`callStack` holds
+ * the running workflows, outermost first). Guards against recursion.
+ */
+export function checkWorkflowCall(callStack: string[], targetWorkflowId: unknown): WorkflowCallCheck {
+  const target = String(targetWorkflowId ?? '').trim()
+  if (!target) {
+    return { ok: false, error: 'Workflow to call is required' }
+  }
+  if (callStack.includes(target)) {
+    return { ok: false, error: `Workflow "${target}" is already running in this call chain` }
+  }
+  if (callStack.length >= WORKFLOW_CALL_MAX_DEPTH) {
+    return { ok: false, error: `Maximum workflow call depth is ${WORKFLOW_CALL_MAX_DEPTH}` }
+  }
+  return { ok: true }
+}
@@ -0,0 +1,108 @@
+/**
+ * Workflow Business Logic
+ *
+ * @module lib/business/workflow
+ */
+
+export {
+  KEYWORD_MATCH_MODES,
+  KEYWORD_MATCH_MODE_LABELS,
+  KEYWORD_MATCH_SPECIFICITY,
+  DEFAULT_INTENT_MIN_CONFIDENCE,
+  TRIGGER_MESSAGE_MAX_CHARS,
+  KEYWORD_REGEX_MAX_CHARS,
+  normalizeTriggerText,
+  isValidKeywordRegex,
+  parseKeywordRules,
+  serializeKeywordRules,
+  fuzzyContains,
+  matchKeywordRule,
+  getTriggerPriority,
+  parseTriggerDefinition,
+  findKeywordMatch,
+  buildIntentClassifierPrompt,
+  resolveIntentClassification,
+  type KeywordMatchMode,
+  type KeywordRule,
+  type WorkflowTriggerKind,
+  type IntentDefinition,
+  type WorkflowTriggerDefinition,
+  type KeywordTriggerMatch,
+  type IntentTriggerMatch,
+} from './triggers'
+
+export {
+  WAIT_UNIT_MS,
+  WAIT_UNIT_LABELS,
+  REPLY_TIMEOUT_UNITS,
+  WORKFLOW_WAIT_MAX_DAYS,
+  REPLY_TIMEOUT_HANDLE,
+  resolveDelayResumeAt,
+  resolveReplyTimeoutAt,
+  splitReplyTimeoutEdges,
+  formatWaitDuration,
+  type WaitUnit,
+  type DelayMode,
+  type WaitResolution,
+  type WaitEdge,
+} from './waits'
+
+export {
+  CAMPAIGN_AUDIENCE_OPEN_STATUSES,
+  HANDOFF_PRIORITIES,
+  parseTagInput,
+  addTags,
+  removeTags,
+  parseCustomFieldsInput,
+  coerceCustomFieldValue,
+  isCampaignAudienceOpen,
+  resolveHandoffPriority,
+  type CustomFieldValueResult,
+  type CustomFieldsInputResult,
+} from './contact-actions'
+
+export {
+  AI_MODEL_DEFAULT,
+  AI_FALLBACK_HANDLE,
+  AI_TEXT_MAX_CHARS,
+  AI_MAX_CATEGORIES,
+  getCategoryHandle,
+  parseAiCategories,
+  buildClassifyPrompt,
+  resolveClassification,
+  parseExtractionSchema,
+  buildExtractPrompt,
+  coerceExtractedValues,
+  buildReplyPrompt,
+  formatConversationTranscript,
+  buildSummaryPrompt,
+  isAiMockMode,
+  buildMockResponse,
+  normalizeAiUsage,
+  splitCategoryEdges,
+  type AiNodeKind,
+  type AiCategory,
+  type AiClassification,
+  type AiSchemaField,
+  type AiUsage,
+  type AiTranscriptLine,
+} from './ai-nodes'
+
+export {
+  FOR_EACH_ITEM_HANDLE,
+  FOR_EACH_DEFAULT_MAX_ITERATIONS,
+  FOR_EACH_MAX_ITERATIONS,
+  WORKFLOW_CALL_MAX_DEPTH,
+  parseLoopItems,
+  resolveMaxIterations,
+  resolveForEachErrorMode,
+  splitForEachEdges,
+  collectLoopBody,
+  parseInputMapping,
+  checkWorkflowCall,
+  type ForEachErrorMode,
+  type LoopItemsResult,
+  type InputMappingResult,
+  type WorkflowCallCheck,
+  type LoopBody,
+} from './flow-control'
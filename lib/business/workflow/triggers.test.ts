@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildIntentClassifierPrompt,
+  findKeywordMatch,
+  fuzzyContains,
+  matchKeywordRule,
+  normalizeTriggerText,
+  parseKeywordRules,
+  parseTriggerDefinition,
+  resolveIntentClassification,
+  type WorkflowTriggerDefinition,
+} from './triggers'
+
+const keywords = (
+  workflowId: string,
+  rules: WorkflowTriggerDefinition['rules'],
+  priority = 0
+): WorkflowTriggerDefinition => ({ workflowId, kind: 'keywords', priority, rules })
+
+const intent = (workflowId: string, description: string, priority = 0, minConfidence = 0.7): WorkflowTriggerDefinition => ({
+  workflowId,
+  kind: 'intent',
+  priority,
+  rules: [],
+  intent: { description, examples: [], minConfidence },
+})
+
+describe('normalizeTriggerText', () => {
+  it('remove acentos, pontuação e espaços extras', () => {
+    expect(normalizeTriggerText('  Quero ver o Cardápio,   por favor!! ')).toBe('quero ver o cardapio por favor')
+  })
+})
+
+describe('matchKeywordRule', () => {
+  const message = 'Quero ver o cardápio por favor'
+
+  it('igual a exige a mensagem inteira', () => {
+    expect(matchKeywordRule({ value: 'cardapio', mode: 'exact' }, message)).toBe(false)
+    expect(matchKeywordRule({ value: 'cardapio', mode: 'exact' }, 'Cardápio!')).toBe(true)
+  })
+
+  it('começa com e contém comparam palavras inteiras', () => {
+    expect(matchKeywordRule({ value: 'quero ver', mode: 'starts_with' }, message)).toBe(true)
+    expect(matchKeywordRule({ value: 'cardapio', mode: 'contains' }, message)).toBe(true)
+    expect(matchKeywordRule({ value: 'oi', mode: 'contains' }, 'quero oito pizzas')).toBe(false)
+  })
+
+  it('regex roda no texto original e ignora padrões inválidos', () => {
+    expect(matchKeywordRule({ value: 'pedido\\s*#?\\d+', mode: 'regex' }, 'Status do PEDIDO #123?')).toBe(true)
+    expect(matchKeywordRule({ value: '([a-z', mode: 'regex' }, 'qualquer')).toBe(false)
+  })
+
+  it('aproximado tolera erros de digitação', () => {
+    expect(fuzzyContains('cardapio', 'me manda o cardapo')).toBe(true)
+    expect(fuzzyContains('segunda via', 'quero a segunda vía do boleto')).toBe(true)
+    expect(fuzzyContains('pix', 'pax')).toBe(false)
+  })
+})
+
+describe('parseKeywordRules', () => {
+  it('lê as regras em JSON', () => {
+    expect(
+      parseKeywordRules({ keywordRules: JSON.stringify([{ value: ' menu ', mode: 'contains' }, { value: '', mode: 'exact' }]) })
+    ).toEqual([{ value: 'menu', mode: 'contains' }])
+  })
+
+  it('converte a lista antiga (uma por linha) em regras exatas', () => {
+    expect(parseKeywordRules({ keywordList: 'preco\n\nvendas' })).toEqual([
+      { value: 'preco', mode: 'exact' },
+      { value: 'vendas', mode: 'exact' },
+    ])
+  })
+})
+
+describe('parseTriggerDefinition', () => {
+  it('ignora gatilhos que não reagem a mensagens', () => {
+    expect(parseTriggerDefinition('w1', { triggerType: 'Webhook' })).toBeNull()
+    expect(parseTriggerDefinition('w1', { triggerType: 'Intent', intentDescription: ' ' })).toBeNull()
+  })
+
+  it('lê prioridade e confiança mínima da intenção', () => {
+    expect(
+      parseTriggerDefinition('w1', {
+        triggerType: 'Intent',
+        intentDescription: 'Cliente quer cancelar',
+        intentExamples: 'quero cancelar\nnão quero mais',
+        intentMinConfidence: '0.8',
+        triggerPriority: '10',
+      })
+    ).toEqual({
+      workflowId: 'w1',
+      name: undefined,
+      kind: 'intent',
+      priority: 10,
+      rules: [],
+      intent: { description: 'Cliente quer cancelar', examples: ['quero cancelar', 'não quero mais'], minConfidence: 0.8 },
+    })
+  })
+})
+
+describe('findKeywordMatch', () => {
+  it('prioridade maior vence', () => {
+    const match = findKeywordMatch(
+      [keywords('geral', [{ value: 'pedido', mode: 'contains' }]), keywords('vip', [{ value: 'pedido', mode: 'fuzzy' }], 5)],
+      'meu pedido atrasou'
+    )
+    expect(match?.workflowId).toBe('vip')
+  })
+
+  it('com a mesma prioridade, vence o modo mais específico', () => {
+    const match = findKeywordMatch(
+      [keywords('contem', [{ value: 'cardapio', mode: 'contains' }]), keywords('exato', [{ value: 'cardapio', mode: 'exact' }])],
+      'Cardápio'
+    )
+    expect(match).toEqual({ workflowId: 'exato', rule: { value: 'cardapio', mode: 'exact' }, priority: 0 })
+  })
+
+  it('null quando nada corresponde', () => {
+    expect(findKeywordMatch([keywords('w1', [{ value: 'menu', mode: 'exact' }])], 'oi')).toBeNull()
+  })
+})
+
+describe('intenções', () => {
+  const definitions = [intent('suporte', 'Problema técnico'), intent('cancelar', 'Quer cancelar', 10, 0.8)]
+
+  it('lista as intenções por prioridade no prompt', () => {
+    const { prompt } = buildIntentClassifierPrompt('quero cancelar', definitions)
+    expect(prompt.indexOf('1. Quer cancelar')).toBeLessThan(prompt.indexOf('2. Problema técnico'))
+  })
+
+  it('respeita a confiança mínima da intenção escolhida', () => {
+    expect(resolveIntentClassification({ intent: 1, confidence: 0.9, reason: 'pediu' }, definitions)).toEqual({
+      workflowId: 'cancelar',
+      confidence: 0.9,
+      reason: 'pediu',
+    })
+    expect(resolveIntentClassification({ intent: 1, confidence: 0.75 }, definitions)).toBeNull()
+    expect(resolveIntentClassification({ intent: 2, confidence: 0.75 }, definitions)?.workflowId).toBe('suporte')
+  })
+
+  it('ignora respostas sem intenção ou fora da lista', () => {
+    expect(resolveIntentClassification({ intent: null, confidence: 1 }, definitions)).toBeNull()
+    expect(resolveIntentClassification({ intent: 3, confidence: 1 }, definitions)).toBeNull()
+    expect(resolveIntentClassification('texto', definitions)).toBeNull()
+  })
+})
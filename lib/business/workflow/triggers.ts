@@ -0,0 +1,355 @@
+/**
+ * Workflow Triggers Module
+ *
+ * Decides which published workflow fires for an inbound WhatsApp message.
+ * Keyword triggers hold a list of rules, each with its own match mode; intent
+ * triggers describe what the customer wants and are classified by an LLM
+ * (only when no keyword matched). When several workflows match, the highest
+ * trigger priority wins, then the most specific match mode.
+ *
+ * Trigger config (node `data.config`, string values):
+ * - `keywordRules`: JSON `KeywordRule[]` (legacy: `keywordList`, one per line, exact)
+ * - `triggerPriority`: integer, higher first (default 0)
+ * - `intentDescription`, `intentExamples` (one per line), `intentMinConfidence`
+ */
+
+export type KeywordMatchMode = 'exact' | 'starts_with' | 'contains' | 'regex' | 'fuzzy'
+
+export interface KeywordRule {
+  value: string
+  mode: KeywordMatchMode
+}
+
+export type WorkflowTriggerKind = 'keywords' | 'intent'
+
+export interface IntentDefinition {
+  description: string
+  examples: string[]
+  minConfidence: number
+}
+
+export interface WorkflowTriggerDefinition {
+  workflowId: string
+  name?: string
+  kind: WorkflowTriggerKind
+  priority: number
+  rules: KeywordRule[]
+  intent?: IntentDefinition
+}
+
+export interface KeywordTriggerMatch {
+  workflowId: string
+  rule: KeywordRule
+  priority: number
+}
+
+export interface IntentTriggerMatch {
+  workflowId: string
+  confidence: number
+  reason?: string
+}
+
+export const KEYWORD_MATCH_MODES: KeywordMatchMode[] = ['exact', 'starts_with', 'contains', 'regex', 'fuzzy']
+
+export const KEYWORD_MATCH_MODE_LABELS: Record<KeywordMatchMode, string> = {
+  exact: 'Igual a',
+  starts_with: 'Começa com',
+  contains: 'Contém',
+  regex: 'Regex',
+  fuzzy: 'Aproximado',
+}
+
+/** Tie-break between workflows with the same priority (higher = more specific) */
+export const KEYWORD_MATCH_SPECIFICITY: Record<KeywordMatchMode, number> = {
+  exact: 5,
+  starts_with: 4,
+  regex: 3,
+  contains: 2,
+  fuzzy: 1,
+}
+
+export const DEFAULT_INTENT_MIN_CONFIDENCE = 0.7
+
+/** Messages and regex patterns are capped before matching */
+export const TRIGGER_MESSAGE_MAX_CHARS = 1000
+export const KEYWORD_REGEX_MAX_CHARS = 200
+
+/**
+ * Lowercase, no accents, punctuation as spaces, single spaces.
+ *
+ * @example
+ * ```ts
+ * normalizeTriggerText('Quero ver o Cardápio, por favor!') // 'quero ver o cardapio por favor'
+ * ```
+ */
+export function normalizeTriggerText(input: string | null | undefined): string {
+  return String(input || '')
+    .slice(0, TRIGGER_MESSAGE_MAX_CHARS)
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function isKeywordMatchMode(value: unknown): value is KeywordMatchMode {
+  return typeof value === 'string' && (KEYWORD_MATCH_MODES as string[]).includes(value)
+}
+
+/** Whether a regex rule compiles (and is short enough to run on every message) */
+export function isValidKeywordRegex(pattern: string): boolean {
+  if (!pattern || pattern.length > KEYWORD_REGEX_MAX_CHARS) return false
+  try {
+    new RegExp(pattern, 'iu')
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Keyword rules of a trigger config. Falls back to the legacy `keywordList`
+ * (one keyword per line, exact match) for workflows saved before the rules.
+ */
+export function parseKeywordRules(config: Record<string, unknown> | null | undefined): KeywordRule[] {
+  const raw = config?.keywordRules
+  if (typeof raw === 'string' && raw.trim()) {
+    try {
+      const parsed = JSON.parse(raw)
+      if (Array.isArray(parsed)) {
+        return parsed
+          .map((entry) => ({
+            value: typeof entry?.value === 'string' ? entry.value.trim() : '',
+            mode: isKeywordMatchMode(entry?.mode) ? entry.mode : 'exact',
+          }))
+          .filter((rule) => rule.value)
+      }
+    } catch {
+      // JSON inválido: cai para a lista antiga
+    }
+  }
+
+  return String(config?.keywordList || '')
+    .split(/\r?\n/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((value) => ({ value, mode: 'exact' as const }))
+}
+
+export function serializeKeywordRules(rules: KeywordRule[]): string {
+  return JSON.stringify(rules.map(({ value, mode }) => ({ value, mode })))
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** Typos tolerated for a keyword of this length */
+function getFuzzyTolerance(length: number): number {
+  if (length <= 3) return 0
+  if (length <= 6) return 1
+  return 2
+}
+
+/**
+ * Typo-tolerant "contains": compares the keyword with every run of the same
+ * number of words in the message.
+ */
+export function fuzzyContains(keyword: string, message: string): boolean {
+  const normalizedKeyword = normalizeTriggerText(keyword)
+  const normalizedMessage = normalizeTriggerText(message)
+  if (!normalizedKeyword || !normalizedMessage) return false
+
+  const keywordWords = normalizedKeyword.split(' ')
+  const messageWords = normalizedMessage.split(' ')
+  const tolerance = getFuzzyTolerance(normalizedKeyword.length)
+
+  for (let i = 0; i + keywordWords.length <= messageWords.length; i++) {
+    const window = messageWords.slice(i, i + keywordWords.length).join(' ')
+    if (levenshtein(window, normalizedKeyword) <= tolerance) return true
+  }
+  return false
+}
+
+/**
+ * Whether one rule matches the message. Text modes compare whole words of the
+ * normalized text; regex runs on the original text (case-insensitive).
+ */
+export function matchKeywordRule(rule: KeywordRule, message: string): boolean {
+  if (rule.mode === 'regex') {
+    if (!isValidKeywordRegex(rule.value)) return false
+    return new RegExp(rule.value, 'iu').test(String(message || '').slice(0, TRIGGER_MESSAGE_MAX_CHARS))
+  }
+  if (rule.mode === 'fuzzy') return fuzzyContains(rule.value, message)
+
+  const keyword = normalizeTriggerText(rule.value)
+  const text = normalizeTriggerText(message)
+  if (!keyword || !text) return false
+
+  switch (rule.mode) {
+    case 'exact':
+      return text === keyword
+    case 'starts_with':
+      return text === keyword || text.startsWith(`${keyword} `)
+    case 'contains':
+      return ` ${text} `.includes(` ${keyword} `)
+    default:
+      return false
+  }
+}
+
+/** Trigger priority from the config (integer, default 0) */
+export function getTriggerPriority(config: Record<string, unknown> | null | undefined): number {
+  const value = Number(config?.triggerPriority)
+  return Number.isFinite(value) ? Math.trunc(value) : 0
+}
+
+/**
+ * Trigger of a workflow that reacts to inbound messages (null for manual,
+ * schedule and webhook triggers, or a trigger without rules/description).
+ */
+export function parseTriggerDefinition(
+  workflowId: string,
+  config: Record<string, unknown> | null | undefined,
+  name?: string
+): WorkflowTriggerDefinition | null {
+  const triggerType = config?.triggerType
+  const priority = getTriggerPriority(config)
+
+  if (triggerType === 'Keywords') {
+    const rules = parseKeywordRules(config)
+    if (rules.length === 0) return null
+    return { workflowId, name, kind: 'keywords', priority, rules }
+  }
+
+  if (triggerType === 'Intent') {
+    const description = String(config?.intentDescription || '').trim()
+    if (!description) return null
+    const minConfidence = Number(config?.intentMinConfidence)
+    return {
+      workflowId,
+      name,
+      kind: 'intent',
+      priority,
+      rules: [],
+      intent: {
+        description,
+        examples: String(config?.intentExamples || '')
+          .split(/\r?\n/)
+          .map((entry) => entry.trim())
+          .filter(Boolean),
+        minConfidence:
+          Number.isFinite(minConfidence) && minConfidence > 0 && minConfidence <= 1
+            ? minConfidence
+            : DEFAULT_INTENT_MIN_CONFIDENCE,
+      },
+    }
+  }
+
+  return null
+}
+
+/**
+ * Best keyword match among the workflows: highest priority, then most
+ * specific mode, then the first in the list (most recently published).
+ */
+export function findKeywordMatch(
+  definitions: WorkflowTriggerDefinition[],
+  message: string
+): KeywordTriggerMatch | null {
+  let best: KeywordTriggerMatch | null = null
+
+  for (const definition of definitions) {
+    if (definition.kind !== 'keywords') continue
+
+    const matchedRules = definition.rules.filter((rule) => matchKeywordRule(rule, message))
+    if (matchedRules.length === 0) continue
+
+    const rule = matchedRules.reduce((a, b) =>
+      KEYWORD_MATCH_SPECIFICITY[b.mode] > KEYWORD_MATCH_SPECIFICITY[a.mode] ? b : a
+    )
+    const candidate = { workflowId: definition.workflowId, rule, priority: definition.priority }
+
+    if (
+      !best ||
+      candidate.priority > best.priority ||
+      (candidate.priority === best.priority &&
+        KEYWORD_MATCH_SPECIFICITY[rule.mode] > KEYWORD_MATCH_SPECIFICITY[best.rule.mode])
+    ) {
+      best = candidate
+    }
+  }
+
+  return best
+}
+
+/** Intent workflows in the order shown to the classifier (priority first) */
+function getIntentDefinitions(definitions: WorkflowTriggerDefinition[]): WorkflowTriggerDefinition[] {
+  return definitions
+    .filter((definition) => definition.kind === 'intent' && definition.intent)
+    .sort((a, b) => b.priority - a.priority)
+}
+
+/**
+ * Prompt for the intent classifier: one call for all intent workflows
+ * (higher priority listed first). The model answers `{ "intent": <index|null>, "confidence": 0-1, "reason": "..." }`.
+ */
+export function buildIntentClassifierPrompt(
+  message: string,
+  definitions: WorkflowTriggerDefinition[]
+): { system: string; prompt: string } {
+  const intents = getIntentDefinitions(definitions)
+    .map((definition, index) => {
+      const examples = definition.intent!.examples.length
+        ? `\n   Exemplos: ${definition.intent!.examples.map((example) => `"${example}"`).join('; ')}`
+        : ''
+      return `${index + 1}. ${definition.intent!.description}${examples}`
+    })
+    .join('\n')
+
+  return {
+    system:
+      'Você classifica mensagens de clientes recebidas no WhatsApp em uma das intenções listadas. ' +
+      'Escolha a intenção que melhor descreve o que o cliente quer; se nenhuma se aplicar, use null. ' +
+      'Responda com JSON no formato {"intent": número da intenção ou null, "confidence": número entre 0 e 1, "reason": "explicação curta"}.',
+    prompt: `Intenções:\n${intents}\n\nMensagem do cliente:\n"""${String(message || '').slice(0, TRIGGER_MESSAGE_MAX_CHARS)}"""`,
+  }
+}
+
+/**
+ * Maps the classifier answer back to a workflow, enforcing the minimum
+ * confidence of the chosen intent.
+ */
+export function resolveIntentClassification(
+  raw: unknown,
+  definitions: WorkflowTriggerDefinition[]
+): IntentTriggerMatch | null {
+  const intents = getIntentDefinitions(definitions)
+  const answer = (raw ?? {}) as { intent?: unknown; confidence?: unknown; reason?: unknown }
+
+  const index = Number(answer.intent)
+  if (answer.intent === null || !Number.isInteger(index) || index < 1 || index > intents.length) return null
+
+  const confidence = Number(answer.confidence)
+  const definition = intents[index - 1]
+  if (!Number.isFinite(confidence) || confidence < definition.intent!.minConfidence) return null
+
+  return {
+    workflowId: definition.workflowId,
+    confidence: Math.min(1, confidence),
+    reason: typeof answer.reason === 'string' ? answer.reason : undefined,
+  }
+}
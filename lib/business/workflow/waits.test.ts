@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import {
+  REPLY_TIMEOUT_HANDLE,
+  formatWaitDuration,
+  resolveDelayResumeAt,
+  resolveReplyTimeoutAt,
+  splitReplyTimeoutEdges,
+} from './waits'
+
+const now = new Date('2026-10-19T12:00:00.000Z')
+const HOUR = 60 * 60 * 1000
+
+describe('resolveDelayResumeAt', () => {
+  it('soma a duração relativa na unidade escolhida', () => {
+    const result = resolveDelayResumeAt({ delayMode: 'duration', delayAmount: '2', delayUnit: 'hours' }, now)
+    expect(result).toEqual({ ok: true, resumeAt: new Date(now.getTime() + 2 * HOUR) })
+  })
+
+  it('usa minutos quando a unidade não é informada', () => {
+    const result = resolveDelayResumeAt({ delayAmount: '15' }, now)
+    expect(result).toEqual({ ok: true, resumeAt: new Date(now.getTime() + 15 * 60 * 1000) })
+  })
+
+  it('mantém compatibilidade com o delayMs antigo', () => {
+    const result = resolveDelayResumeAt({ delayMs: '1500' }, now)
+    expect(result).toEqual({ ok: true, resumeAt: new Date(now.getTime() + 1500) })
+  })
+
+  it('espera até a data informada; data passada continua na hora', () => {
+    expect(resolveDelayResumeAt({ delayMode: 'until', delayUntil: '2026-10-20T09:00:00.000Z' }, now)).toEqual({
+      ok: true,
+      resumeAt: new Date('2026-10-20T09:00:00.000Z'),
+    })
+    expect(resolveDelayResumeAt({ delayMode: 'until', delayUntil: '2026-10-18T09:00:00.000Z' }, now)).toEqual({
+      ok: true,
+      resumeAt: now,
+    })
+  })
+
+  it('rejeita duração ausente, inválida ou acima do limite', () => {
+    expect(resolveDelayResumeAt({}, now).ok).toBe(false)
+    expect(resolveDelayResumeAt({ delayAmount: '-1' }, now).ok).toBe(false)
+    expect(resolveDelayResumeAt({ delayMode: 'until', delayUntil: 'amanhã' }, now).ok).toBe(false)
+    expect(resolveDelayResumeAt({ delayAmount: '8', delayUnit: 'days' }, now).ok).toBe(false)
+  })
+})
+
+describe('resolveReplyTimeoutAt', () => {
+  it('sem valor, a pergunta espera para sempre', () => {
+    expect(resolveReplyTimeoutAt({}, now)).toBeNull()
+    expect(resolveReplyTimeoutAt({ replyTimeoutAmount: '  ' }, now)).toBeNull()
+  })
+
+  it('usa horas por padrão', () => {
+    expect(resolveReplyTimeoutAt({ replyTimeoutAmount: '24' }, now)).toEqual({
+      ok: true,
+      resumeAt: new Date(now.getTime() + 24 * HOUR),
+    })
+  })
+
+  it('rejeita zero e valores inválidos', () => {
+    expect(resolveReplyTimeoutAt({ replyTimeoutAmount: '0' }, now)?.ok).toBe(false)
+    expect(resolveReplyTimeoutAt({ replyTimeoutAmount: 'abc', replyTimeoutUnit: 'minutes' }, now)?.ok).toBe(false)
+  })
+})
+
+describe('splitReplyTimeoutEdges', () => {
+  it('separa as conexões de resposta e de "sem resposta"', () => {
+    const edges = [
+      { id: 'e1', source: 'ask', target: 'thanks', sourceHandle: null },
+      { id: 'e2', source: 'ask', target: 'reminder', sourceHandle: REPLY_TIMEOUT_HANDLE },
+      { id: 'e3', source: 'other', target: 'ask' },
+    ]
+    const { reply, timeout } = splitReplyTimeoutEdges(edges, 'ask')
+    expect(reply.map((edge) => edge.target)).toEqual(['thanks'])
+    expect(timeout.map((edge) => edge.target)).toEqual(['reminder'])
+  })
+})
+
+describe('formatWaitDuration', () => {
+  it('formata de forma curta', () => {
+    expect(formatWaitDuration(90 * 60 * 1000)).toBe('1h30min')
+    expect(formatWaitDuration(2 * 24 * HOUR + HOUR)).toBe('2d1h')
+    expect(formatWaitDuration(45 * 1000)).toBe('45s')
+    expect(formatWaitDuration(0)).toBe('0s')
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Workflow Waits Module
+ *
+ * Durable pauses in builder workflows:
+ * - Delay node: waits a relative duration or until a datetime, then resumes
+ *   from the next nodes (Upstash Workflow sleep, nothing runs meanwhile).
+ * - Ask Question reply timeout: if the customer does not answer in time, the
+ *   workflow resumes down the edges of the "no reply" handle instead.
+ *
+ * Node config (`data.config`, string values):
+ * - Delay: `delayMode` ('duration' | 'until'), `delayAmount` + `delayUnit`,
+ *   `delayUntil` (ISO datetime). Legacy: `delayMs`.
+ * - Ask Question: `replyTimeoutAmount` + `replyTimeoutUnit` (empty = waits forever)
+ */
+
+export type WaitUnit = 'seconds' | 'minutes' | 'hours' | 'days'
+
+export type DelayMode = 'duration' | 'until'
+
+export type WaitResolution = { ok: true; resumeAt: Date } | { ok: false; error: string }
+
+/** Minimal edge shape shared by the canvas (React Flow) and the executor */
+export interface WaitEdge {
+  source: string
+  target: string
+  sourceHandle?: string | null
+}
+
+export const WAIT_UNIT_MS: Record<WaitUnit, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+}
+
+export const WAIT_UNIT_LABELS: Record<WaitUnit, string> = {
+  seconds: 'Segundos',
+  minutes: 'Minutos',
+  hours: 'Horas',
+  days: 'Dias',
+}
+
+/** Units offered for the reply timeout (seconds make no sense for a customer) */
+export const REPLY_TIMEOUT_UNITS: WaitUnit[] = ['minutes', 'hours', 'days']
+
+/** Longest pause accepted (QStash/Upstash delay limit) */
+export const WORKFLOW_WAIT_MAX_DAYS = 7
+
+/** Source handle of the Ask Question "no reply" edges */
+export const REPLY_TIMEOUT_HANDLE = 'timeout'
+
+const MAX_WAIT_MS = WORKFLOW_WAIT_MAX_DAYS * WAIT_UNIT_MS.days
+
+function isWaitUnit(value: unknown): value is WaitUnit {
+  return typeof value === 'string' && value in WAIT_UNIT_MS
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === ''
+}
+
+/** Duration in ms (null when empty, NaN when not a non-negative number) */
+function toDurationMs(amount: unknown, unitMs: number): number | null {
+  if (isBlank(amount)) return null
+  const value = Number(amount)
+  if (!Number.isFinite(value) || value < 0) return NaN
+  return value * unitMs
+}
+
+function checkWaitLimit(resumeAt: Date, now: Date): WaitResolution {
+  if (resumeAt.getTime() - now.getTime() > MAX_WAIT_MS) {
+    return { ok: false, error: `Maximum wait is ${WORKFLOW_WAIT_MAX_DAYS} days` }
+  }
+  return { ok: true, resumeAt }
+}
+
+/**
+ * When a Delay node should resume. A datetime in the past (or a zero duration)
+ * resolves to `now`, so the workflow just continues.
+ *
+ * @example
+ * ```ts
+ * resolveDelayResumeAt({ delayMode: 'duration', delayAmount: '2', delayUnit: 'hours' }, now)
+ * // { ok: true, resumeAt: now + 2h }
+ * ```
+ */
+export function resolveDelayResumeAt(
+  config: Record<string, unknown> | null | undefined,
+  now: Date = new Date()
+): WaitResolution {
+  if (config?.delayMode === 'until') {
+    const raw = String(config?.delayUntil || '').trim()
+    const until = new Date(raw)
+    if (!raw || Number.isNaN(until.getTime())) {
+      return { ok: false, error: 'Delay date is invalid' }
+    }
+    return checkWaitLimit(until.getTime() > now.getTime() ? until : now, now)
+  }
+
+  // Legacy nodes only have `delayMs` (milliseconds)
+  const durationMs = isBlank(config?.delayAmount)
+    ? toDurationMs(config?.delayMs, 1)
+    : toDurationMs(
+        config?.delayAmount,
+        WAIT_UNIT_MS[isWaitUnit(config?.delayUnit) ? config.delayUnit : 'minutes']
+      )
+  if (durationMs === null) {
+    return { ok: false, error: 'Delay duration is required' }
+  }
+  if (Number.isNaN(durationMs)) {
+    return { ok: false, error: 'Delay duration is invalid' }
+  }
+  return checkWaitLimit(new Date(now.getTime() + durationMs), now)
+}
+
+/**
+ * When an Ask Question stops waiting for the reply (null = no timeout).
+ */
+export function resolveReplyTimeoutAt(
+  config: Record<string, unknown> | null | undefined,
+  now: Date = new Date()
+): WaitResolution | null {
+  const durationMs = toDurationMs(
+    config?.replyTimeoutAmount,
+    WAIT_UNIT_MS[isWaitUnit(config?.replyTimeoutUnit) ? config.replyTimeoutUnit : 'hours']
+  )
+  if (durationMs === null) return null
+  if (Number.isNaN(durationMs) || durationMs <= 0) {
+    return { ok: false, error: 'Reply timeout is invalid' }
+  }
+  return checkWaitLimit(new Date(now.getTime() + durationMs), now)
+}
+
+/**
+ * Outgoing edges of an Ask Question split between the reply path and the
+ * "no reply" (timeout) path.
+ */
+export function splitReplyTimeoutEdges<T extends WaitEdge>(
+  edges: T[],
+  nodeId: string
+): { reply: T[]; timeout: T[] } {
+  const outgoing = edges.filter((edge) => edge.source === nodeId)
+  return {
+    reply: outgoing.filter((edge) => edge.sourceHandle !== REPLY_TIMEOUT_HANDLE),
+    timeout: outgoing.filter((edge) => edge.sourceHandle === REPLY_TIMEOUT_HANDLE),
+  }
+}
+
+/**
+ * Short pt-BR description of a wait, for the canvas node.
+ *
+ * @example
+ * ```ts
+ * formatWaitDuration(90 * 60 * 1000) // '1h30min'
+ * ```
+ */
+export function formatWaitDuration(ms: number): string {
+  if (!Number.isFinite(ms) || ms <= 0) return '0s'
+  const days = Math.floor(ms / WAIT_UNIT_MS.days)
+  const hours = Math.floor((ms % WAIT_UNIT_MS.days) / WAIT_UNIT_MS.hours)
+  const minutes = Math.floor((ms % WAIT_UNIT_MS.hours) / WAIT_UNIT_MS.minutes)
+  const seconds = Math.floor((ms % WAIT_UNIT_MS.minutes) / WAIT_UNIT_MS.seconds)
+
+  const parts = [
+    days ? `${days}d` : '',
+    hours ? `${hours}h` : '',
+    minutes ? `${minutes}min` : '',
+    !days && !hours && seconds ? `${seconds}s` : '',
+  ].filter(Boolean)
+  return parts.join('') || '0s'
+}
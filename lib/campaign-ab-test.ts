@@ -0,0 +1,238 @@
+import { Client } from '@upstash/qstash'
+import { supabase } from '@/lib/supabase'
+import { campaignDb, campaignVariantDb } from '@/lib/supabase-db'
+import { fetchWithTimeout, safeText } from '@/lib/server-http'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
+import { pickWinningVariant } from '@/lib/business/campaign/ab-testing'
+import { CampaignStatus } from '@/types'
+import type { CampaignAbTest, CampaignVariant, CampaignVariantStats } from '@/types'
+
+export type AbTestRolloutDecision =
+  | { ok: true; winner: CampaignVariant; abTest: CampaignAbTest }
+  | { ok: false; status: 'ignored' | 'invalid'; message: string }
+
+// Dev local: QStash não alcança localhost, então armamos um timer em memória.
+const localRolloutRegistry = new Map<string, ReturnType<typeof setTimeout>>()
+
+export function getAppBaseUrl(): string {
+  const vercelEnv = (process.env.VERCEL_ENV || '').trim()
+  const deploymentUrl = process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL.trim()}` : null
+  const productionUrl = process.env.VERCEL_PROJECT_PRODUCTION_URL
+    ? `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL.trim()}`
+    : null
+  const explicitAppUrl = process.env.NEXT_PUBLIC_APP_URL?.trim() || null
+
+  // Preview: rollout precisa rodar no MESMO deployment que fez o teste.
+  if (vercelEnv && vercelEnv !== 'production') {
+    return deploymentUrl || explicitAppUrl || 'http://localhost:3000'
+  }
+  return explicitAppUrl || productionUrl || deploymentUrl || 'http://localhost:3000'
+}
+
+function toNumber(v: unknown): number {
+  const n = Number(v)
+  return Number.isFinite(n) ? n : 0
+}
+
+/**
+ * Mescla um patch em campaigns.ab_test (read-modify-write; chamado só em pontos de transição).
+ */
+export async function updateAbTestState(
+  campaignId: string,
+  patch: Partial<CampaignAbTest>
+): Promise<CampaignAbTest | null> {
+  const campaign = await campaignDb.getById(campaignId)
+  if (!campaign?.abTest) return null
+
+  const next: CampaignAbTest = { ...campaign.abTest, ...patch }
+  await campaignDb.updateStatus(campaignId, { abTest: next })
+  return next
+}
+
+/**
+ * Funil por variante (enviado → entregue → lido → clique → submissão), só da fase de teste.
+ * Usa a RPC get_campaign_variant_stats; fallback para agregação em memória.
+ */
+export async function getCampaignVariantStats(campaignId: string): Promise<CampaignVariantStats[]> {
+  const { data, error } = await supabase.rpc('get_campaign_variant_stats', { p_campaign_id: campaignId })
+
+  if (!error && Array.isArray(data)) {
+    return (data as any[]).map((row) => ({
+      variantId: String(row.variant_id),
+      total: toNumber(row.total),
+      sent: toNumber(row.sent),
+      delivered: toNumber(row.delivered),
+      read: toNumber(row.read),
+      failed: toNumber(row.failed),
+      clicked: toNumber(row.clicked),
+      submitted: toNumber(row.submitted),
+    }))
+  }
+
+  if (error) {
+    console.warn('[AbTest] RPC get_campaign_variant_stats indisponível, usando fallback:', error.message)
+  }
+
+  const { data: rows, error: rowsError } = await supabase
+    .from('campaign_contacts')
+    .select('variant_id, status, phone, button_clicked_at')
+    .eq('campaign_id', campaignId)
+    .eq('ab_phase', 'test')
+    .not('variant_id', 'is', null)
+
+  if (rowsError) throw rowsError
+
+  const { data: submissions } = await supabase
+    .from('flow_submissions')
+    .select('from_phone')
+    .eq('campaign_id', campaignId)
+
+  const submittedPhones = new Set((submissions || []).map((s: any) => String(s.from_phone || '')))
+  const byVariant = new Map<string, CampaignVariantStats>()
+
+  for (const row of (rows || []) as any[]) {
+    const variantId = String(row.variant_id)
+    const s = byVariant.get(variantId) || {
+      variantId, total: 0, sent: 0, delivered: 0, read: 0, failed: 0, clicked: 0, submitted: 0,
+    }
+    const status = String(row.status || '')
+    s.total++
+    if (status === 'sent' || status === 'delivered' || status === 'read') s.sent++
+    if (status === 'delivered' || status === 'read') s.delivered++
+    if (status === 'read') s.read++
+    if (status === 'failed') s.failed++
+    if (row.button_clicked_at) s.clicked++
+    if (submittedPhones.has(String(row.phone || ''))) s.submitted++
+    byVariant.set(variantId, s)
+  }
+
+  return Array.from(byVariant.values())
+}
+
+/**
+ * Fim da fase de teste: agenda o envio do vencedor após `waitMinutes`.
+ * O job chama /api/campaign/dispatch com trigger='ab_rollout'.
+ */
+export async function scheduleAbTestRollout(campaignId: string): Promise<void> {
+  const campaign = await campaignDb.getById(campaignId)
+  const abTest = campaign?.abTest
+  if (!abTest || abTest.status !== 'testing') return
+
+  const delaySeconds = Math.max(0, Math.floor(abTest.waitMinutes * 60))
+  const rolloutAt = new Date(Date.now() + delaySeconds * 1000).toISOString()
+  const baseUrl = getAppBaseUrl()
+  const isLocalhost = baseUrl.includes('localhost') || baseUrl.includes('127.0.0.1')
+  const body = { campaignId, trigger: 'ab_rollout' }
+
+  let rolloutMessageId: string | null = null
+
+  if (isLocalhost) {
+    if (process.env.NODE_ENV === 'development') {
+      const existing = localRolloutRegistry.get(campaignId)
+      if (existing) clearTimeout(existing)
+
+      // Captura o workspace agora: o timer roda fora da requisição
+      const workspaceHeaders = await getWorkspaceHeaders()
+      const t = setTimeout(async () => {
+        try {
+          const resp = await fetchWithTimeout(`${baseUrl}/api/campaign/dispatch`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...workspaceHeaders,
+              ...(process.env.SMARTZAP_API_KEY ? { Authorization: `Bearer ${process.env.SMARTZAP_API_KEY}` } : {}),
+            },
+            body: JSON.stringify(body),
+            timeoutMs: 30000,
+          })
+          if (!resp.ok) {
+            console.warn('[AbTest][LocalScheduler] rollout failed:', resp.status, (await safeText(resp)) || '')
+          }
+        } catch (e) {
+          console.warn('[AbTest][LocalScheduler] rollout failed (exception):', e)
+        } finally {
+          localRolloutRegistry.delete(campaignId)
+        }
+      }, delaySeconds * 1000)
+
+      localRolloutRegistry.set(campaignId, t)
+    } else {
+      console.warn('[AbTest] localhost sem NODE_ENV=development; rollout deve ser disparado manualmente.')
+    }
+  } else if (!process.env.QSTASH_TOKEN) {
+    console.warn('[AbTest] QSTASH_TOKEN não configurado; rollout deve ser disparado manualmente.')
+  } else {
+    const qstash = new Client({ token: process.env.QSTASH_TOKEN })
+    const res = await qstash.publishJSON({
+      url: `${baseUrl}/api/campaign/dispatch`,
+      body,
+      headers: await getWorkspaceHeaders(),
+      delay: delaySeconds,
+      retries: 3,
+      deduplicationId: `ab-rollout-${campaignId}`,
+    })
+    rolloutMessageId = res.messageId
+  }
+
+  await updateAbTestState(campaignId, { status: 'waiting', rolloutAt, rolloutMessageId })
+}
+
+/**
+ * Decide o vencedor do teste (ou usa o informado) e marca o rollout como iniciado.
+ * Idempotente: após a decisão, chamadas repetidas reutilizam o mesmo vencedor.
+ */
+export async function resolveAbTestRollout(
+  campaignId: string,
+  forcedVariantId?: string | null
+): Promise<AbTestRolloutDecision> {
+  const campaign = await campaignDb.getById(campaignId)
+  if (!campaign) return { ok: false, status: 'invalid', message: 'Campanha não encontrada' }
+
+  const abTest = campaign.abTest
+  if (!abTest) return { ok: false, status: 'invalid', message: 'Campanha não possui teste A/B' }
+
+  if (campaign.status === CampaignStatus.CANCELLED) {
+    return { ok: false, status: 'ignored', message: 'Campanha cancelada; rollout ignorado.' }
+  }
+  if (abTest.status === 'testing' || abTest.status === 'completed') {
+    return {
+      ok: false,
+      status: 'ignored',
+      message: abTest.status === 'testing'
+        ? 'Teste A/B ainda em andamento; aguarde o envio das variantes.'
+        : 'Rollout do vencedor já concluído.',
+    }
+  }
+
+  const variants = await campaignVariantDb.getByCampaignId(campaignId)
+  if (variants.length === 0) return { ok: false, status: 'invalid', message: 'Campanha sem variantes' }
+
+  // Retry (QStash/falha no enqueue): reaproveita o vencedor já decidido.
+  // O claim pending→sending do workflow impede envio duplicado.
+  if (abTest.status === 'rolling_out') {
+    const decided = variants.find((v) => v.id === abTest.winnerVariantId)
+    if (decided) return { ok: true, winner: decided, abTest }
+  }
+
+  let winner: CampaignVariant | undefined
+  if (forcedVariantId) {
+    winner = variants.find((v) => v.id === forcedVariantId)
+    if (!winner) return { ok: false, status: 'invalid', message: 'Variante não encontrada' }
+  } else {
+    const stats = await getCampaignVariantStats(campaignId)
+    const ordered = variants
+      .map((v) => stats.find((s) => s.variantId === v.id))
+      .filter((s): s is CampaignVariantStats => Boolean(s))
+    const winnerId = pickWinningVariant(ordered, abTest.metric)
+    winner = variants.find((v) => v.id === winnerId) || variants[0]
+  }
+
+  await campaignVariantDb.markWinner(campaignId, winner.id)
+  const next = await updateAbTestState(campaignId, {
+    status: 'rolling_out',
+    winnerVariantId: winner.id,
+    decidedAt: new Date().toISOString(),
+  })
+
+  return { ok: true, winner, abTest: next || abTest }
+}
@@ -0,0 +1,59 @@
+import { supabase } from '@/lib/supabase'
+import { tryParseWebhookTimestampSeconds } from '@/lib/whatsapp-status-events'
+
+export type InboundButtonClick = {
+  // wamid da mensagem de campanha onde o botão foi clicado
+  contextMessageId: string
+  text: string | null
+  payload: string | null
+}
+
+/**
+ * Extrai clique em botão de resposta rápida (template) ou interactive button_reply.
+ * A Meta envia `context.id` com o wamid da mensagem original.
+ */
+export function extractInboundButtonClick(message: any): InboundButtonClick | null {
+  const contextMessageId = String(message?.context?.id || '').trim()
+  if (!contextMessageId) return null
+
+  if (message?.type === 'button' && message?.button) {
+    return {
+      contextMessageId,
+      text: message.button.text ?? null,
+      payload: message.button.payload ?? null,
+    }
+  }
+
+  const reply = message?.interactive?.button_reply
+  if (message?.type === 'interactive' && reply) {
+    return {
+      contextMessageId,
+      text: reply.title ?? null,
+      payload: reply.id ?? null,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Marca campaign_contacts.button_clicked_at/button_clicked_text (primeiro clique apenas).
+ * Best-effort: não deve bloquear o processamento do webhook.
+ */
+export async function recordCampaignButtonClick(message: any): Promise<boolean> {
+  const click = extractInboundButtonClick(message)
+  if (!click) return false
+
+  const clickedAt = tryParseWebhookTimestampSeconds(message?.timestamp).iso || new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from('campaign_contacts')
+    .update({ button_clicked_at: clickedAt, button_clicked_text: click.text })
+    .eq('message_id', click.contextMessageId)
+    .is('button_clicked_at', null)
+    .select('id')
+
+  if (error) throw error
+
+  return Array.isArray(data) && data.length > 0
+}
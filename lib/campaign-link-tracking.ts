@@ -0,0 +1,133 @@
+import { randomBytes } from 'crypto'
+import { supabase } from '@/lib/supabase'
+import { runUnscoped } from '@/lib/workspace-context'
+import { LINK_TRACKING_RULES, parseTrackedLinkSuffix } from '@/lib/business/campaign/link-tracking'
+import type { CampaignLinkStats, CampaignTrackedLink } from '@/types'
+
+export type CampaignLinkTarget = {
+  workspaceId: string
+  campaignId: string
+  campaignContactId: string
+  contactId: string | null
+  phone: string | null
+  buttonIndex: number
+  url: string
+  alreadyClicked: boolean
+}
+
+function toNumber(v: unknown): number {
+  const n = Number(v)
+  return Number.isFinite(n) ? n : 0
+}
+
+/**
+ * Código curto do contato na campanha (vai no sufixo dinâmico do botão de URL).
+ */
+export function generateCampaignLinkCode(): string {
+  return randomBytes(8).toString('base64url').slice(0, LINK_TRACKING_RULES.CODE_LENGTH)
+}
+
+/**
+ * Resolve o sufixo do redirect (/r/{sufixo}) para contato + destino.
+ * Roda fora do workspace: o código é único globalmente e o workspace vem da campanha.
+ */
+export async function findCampaignLinkTarget(suffix: string): Promise<CampaignLinkTarget | null> {
+  const parsed = parseTrackedLinkSuffix(suffix)
+  if (!parsed) return null
+
+  const { data, error } = await runUnscoped(async () => supabase
+    .from('campaign_contacts')
+    .select('id, campaign_id, contact_id, phone, link_clicked_at, campaigns!inner(workspace_id, tracked_links)')
+    .eq('link_code', parsed.code)
+    .maybeSingle())
+
+  if (error || !data) return null
+
+  const campaign = (data as any).campaigns
+  const links = (Array.isArray(campaign?.tracked_links) ? campaign.tracked_links : []) as CampaignTrackedLink[]
+  const link = links.find((l) => l.buttonIndex === parsed.buttonIndex)
+  if (!link?.url) return null
+
+  return {
+    workspaceId: String(campaign.workspace_id),
+    campaignId: String((data as any).campaign_id),
+    campaignContactId: String((data as any).id),
+    contactId: (data as any).contact_id ?? null,
+    phone: (data as any).phone ?? null,
+    buttonIndex: parsed.buttonIndex,
+    url: link.url,
+    alreadyClicked: Boolean((data as any).link_clicked_at),
+  }
+}
+
+/**
+ * Registra o clique (todos ficam em campaign_link_clicks) e marca
+ * campaign_contacts.link_clicked_at no primeiro clique, incrementando campaigns.clicks.
+ */
+export async function recordCampaignLinkClick(
+  target: CampaignLinkTarget,
+  userAgent: string | null
+): Promise<void> {
+  const now = new Date().toISOString()
+
+  const { error: insertError } = await supabase.from('campaign_link_clicks').insert({
+    campaign_id: target.campaignId,
+    campaign_contact_id: target.campaignContactId,
+    contact_id: target.contactId,
+    phone: target.phone,
+    button_index: target.buttonIndex,
+    url: target.url,
+    user_agent: userAgent ? userAgent.slice(0, 500) : null,
+    created_at: now,
+  })
+  if (insertError) throw insertError
+
+  if (target.alreadyClicked) return
+
+  const { data, error } = await supabase
+    .from('campaign_contacts')
+    .update({ link_clicked_at: now })
+    .eq('id', target.campaignContactId)
+    .is('link_clicked_at', null)
+    .select('id')
+
+  if (error) throw error
+
+  if (Array.isArray(data) && data.length > 0) {
+    const { error: rpcError } = await supabase.rpc('increment_campaign_stat', {
+      campaign_id_input: target.campaignId,
+      field: 'clicks',
+    })
+    if (rpcError) console.error('Failed to increment clicks count:', rpcError)
+  }
+}
+
+/**
+ * Cliques por botão rastreado (total e contatos únicos), na ordem dos botões.
+ */
+export async function getCampaignLinkStats(
+  campaignId: string,
+  trackedLinks: CampaignTrackedLink[]
+): Promise<CampaignLinkStats[]> {
+  const { data, error } = await supabase.rpc('get_campaign_link_stats', { p_campaign_id: campaignId })
+  if (error) throw error
+
+  const rows = Array.isArray(data) ? (data as any[]) : []
+  const indexes = new Set<number>([
+    ...trackedLinks.map((l) => l.buttonIndex),
+    ...rows.map((r) => toNumber(r.button_index)),
+  ])
+
+  return Array.from(indexes)
+    .sort((a, b) => a - b)
+    .map((buttonIndex) => {
+      const row = rows.find((r) => toNumber(r.button_index) === buttonIndex)
+      return {
+        buttonIndex,
+        url: trackedLinks.find((l) => l.buttonIndex === buttonIndex)?.url ?? null,
+        clicks: toNumber(row?.clicks),
+        uniqueClickers: toNumber(row?.unique_clickers),
+        lastClickedAt: row?.last_clicked_at ?? null,
+      }
+    })
+}
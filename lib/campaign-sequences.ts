@@ -0,0 +1,383 @@
+import { Client } from '@upstash/qstash'
+import { supabase } from '@/lib/supabase'
+import { campaignContactDb, campaignDb, campaignVariantDb } from '@/lib/supabase-db'
+import { fetchWithTimeout, safeText } from '@/lib/server-http'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
+import { getAppBaseUrl } from '@/lib/campaign-ab-test'
+import {
+  getDripStepDelaySeconds,
+  getNextDripStep,
+  toQStashCron,
+  validateRecurrence,
+} from '@/lib/business/campaign/scheduling'
+import { CampaignStatus } from '@/types'
+import type { Campaign, CampaignRecurrence } from '@/types'
+
+export type SequenceRunResult =
+  | { ok: true; campaign: Campaign }
+  | { ok: false; status: 'ignored' | 'invalid'; message: string }
+
+type SequenceContact = {
+  contactId: string
+  phone: string
+  name: string
+  email?: string | null
+  custom_fields?: Record<string, unknown>
+}
+
+// Dev local: QStash não alcança localhost, então etapas do drip usam timer em memória.
+const localSequenceRegistry = new Map<string, ReturnType<typeof setTimeout>>()
+
+function isUniqueViolation(err: any): boolean {
+  return String(err?.code || '') === '23505'
+}
+
+/**
+ * Enfileira um disparo (one-shot) em /api/campaign/dispatch após `delaySeconds`.
+ * Retorna o messageId do QStash (null no scheduler local).
+ */
+async function enqueueDispatchJob(
+  body: Record<string, unknown>,
+  delaySeconds: number,
+  deduplicationId: string
+): Promise<string | null> {
+  const baseUrl = getAppBaseUrl()
+  const isLocalhost = baseUrl.includes('localhost') || baseUrl.includes('127.0.0.1')
+
+  if (isLocalhost) {
+    if (process.env.NODE_ENV !== 'development') {
+      console.warn('[Sequence] localhost sem NODE_ENV=development; etapa não será disparada automaticamente.')
+      return null
+    }
+
+    const existing = localSequenceRegistry.get(deduplicationId)
+    if (existing) clearTimeout(existing)
+
+    // Captura o workspace agora: o timer roda fora da requisição
+    const workspaceHeaders = await getWorkspaceHeaders()
+    const t = setTimeout(async () => {
+      try {
+        const resp = await fetchWithTimeout(`${baseUrl}/api/campaign/dispatch`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...workspaceHeaders,
+            ...(process.env.SMARTZAP_API_KEY ? { Authorization: `Bearer ${process.env.SMARTZAP_API_KEY}` } : {}),
+          },
+          body: JSON.stringify(body),
+          timeoutMs: 30000,
+        })
+        if (!resp.ok) {
+          console.warn('[Sequence][LocalScheduler] dispatch failed:', resp.status, (await safeText(resp)) || '')
+        }
+      } catch (e) {
+        console.warn('[Sequence][LocalScheduler] dispatch failed (exception):', e)
+      } finally {
+        localSequenceRegistry.delete(deduplicationId)
+      }
+    }, delaySeconds * 1000)
+
+    localSequenceRegistry.set(deduplicationId, t)
+    return null
+  }
+
+  if (!process.env.QSTASH_TOKEN) {
+    console.warn('[Sequence] QSTASH_TOKEN não configurado; etapa não será disparada automaticamente.')
+    return null
+  }
+
+  const qstash = new Client({ token: process.env.QSTASH_TOKEN })
+  const res = await qstash.publishJSON({
+    url: `${baseUrl}/api/campaign/dispatch`,
+    body,
+    headers: await getWorkspaceHeaders(),
+    delay: delaySeconds,
+    retries: 3,
+    deduplicationId,
+  })
+  return res.messageId
+}
+
+/**
+ * Cria a campanha-filha (execução/etapa) com a audiência informada.
+ * Idempotente via `sequenceKey`: retry do job reaproveita a filha ainda não disparada.
+ */
+async function createSequenceChild(
+  input: Parameters<typeof campaignDb.create>[0] & { sequenceKey: string },
+  contacts: SequenceContact[]
+): Promise<SequenceRunResult> {
+  let child: Campaign
+  try {
+    child = await campaignDb.create(input)
+  } catch (err) {
+    if (!isUniqueViolation(err)) throw err
+
+    const { data: existing } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('sequence_key', input.sequenceKey)
+      .maybeSingle()
+    const existingCampaign = existing?.id ? await campaignDb.getById(String(existing.id)) : undefined
+    if (!existingCampaign || existingCampaign.status !== CampaignStatus.DRAFT) {
+      return { ok: false, status: 'ignored', message: 'Execução já disparada; ignorando job duplicado.' }
+    }
+    return { ok: true, campaign: existingCampaign }
+  }
+
+  try {
+    await campaignContactDb.addContacts(child.id, contacts)
+  } catch (err) {
+    // Rollback best-effort: filha sem audiência não pode ser disparada (e bloquearia o retry).
+    await campaignDb.delete(child.id)
+    throw err
+  }
+
+  return { ok: true, campaign: child }
+}
+
+// =============================================================================
+// RECORRÊNCIA (cron + timezone)
+// =============================================================================
+
+/**
+ * Cria/atualiza o schedule (cron) da campanha recorrente no QStash.
+ * Cada disparo do cron chama /api/campaign/dispatch com trigger='recurrence'.
+ */
+export async function syncCampaignRecurrence(
+  campaignId: string,
+  config: { cron: string; timezone: string }
+): Promise<CampaignRecurrence> {
+  const validation = validateRecurrence(config)
+  if (!validation.valid) throw new Error(validation.reason)
+
+  if (!process.env.QSTASH_TOKEN) {
+    throw new Error('QSTASH_TOKEN not configured')
+  }
+
+  const campaign = await campaignDb.getById(campaignId)
+  if (!campaign) throw new Error('Campanha não encontrada')
+
+  const qstash = new Client({ token: process.env.QSTASH_TOKEN })
+  const previous = campaign.recurrence
+
+  if (previous?.scheduleId) {
+    try {
+      await qstash.schedules.delete(previous.scheduleId)
+    } catch {
+      // best-effort cleanup
+    }
+  }
+
+  const { scheduleId } = await qstash.schedules.create({
+    destination: `${getAppBaseUrl()}/api/campaign/dispatch`,
+    cron: toQStashCron(config.cron, config.timezone),
+    body: JSON.stringify({ campaignId, trigger: 'recurrence' }),
+    headers: { 'Content-Type': 'application/json', ...(await getWorkspaceHeaders()) },
+    retries: 3,
+  })
+
+  const recurrence: CampaignRecurrence = {
+    cron: config.cron.trim(),
+    timezone: config.timezone,
+    active: true,
+    scheduleId,
+    lastRunAt: previous?.lastRunAt ?? null,
+    runCount: previous?.runCount ?? 0,
+  }
+
+  await campaignDb.updateStatus(campaignId, { recurrence })
+  return recurrence
+}
+
+/**
+ * Pausa a recorrência (remove o schedule do QStash). A configuração é mantida para retomar depois.
+ */
+export async function clearCampaignRecurrence(campaignId: string): Promise<CampaignRecurrence | null> {
+  const campaign = await campaignDb.getById(campaignId)
+  if (!campaign?.recurrence) return null
+
+  if (campaign.recurrence.scheduleId && process.env.QSTASH_TOKEN) {
+    try {
+      const qstash = new Client({ token: process.env.QSTASH_TOKEN })
+      await qstash.schedules.delete(campaign.recurrence.scheduleId)
+    } catch {
+      // ignore
+    }
+  }
+
+  const recurrence: CampaignRecurrence = { ...campaign.recurrence, active: false, scheduleId: null }
+  await campaignDb.updateStatus(campaignId, { recurrence })
+  return recurrence
+}
+
+/**
+ * Execução da recorrência: cria uma campanha-filha com a audiência (snapshot) da campanha-mãe.
+ * `runKey` identifica o disparo do cron (ex.: Upstash-Message-Id), estável entre retries.
+ */
+export async function spawnRecurrenceRun(parentId: string, runKey: string): Promise<SequenceRunResult> {
+  const parent = await campaignDb.getById(parentId)
+  if (!parent) return { ok: false, status: 'invalid', message: 'Campanha não encontrada' }
+  if (!parent.recurrence?.active || parent.status === CampaignStatus.CANCELLED) {
+    return { ok: false, status: 'ignored', message: 'Recorrência pausada; ignorando disparo do cron.' }
+  }
+
+  const { data: rows, error } = await supabase
+    .from('campaign_contacts')
+    .select('contact_id, phone, name, email, custom_fields')
+    .eq('campaign_id', parentId)
+
+  if (error) throw error
+  if (!rows || rows.length === 0) {
+    return { ok: false, status: 'invalid', message: 'Campanha recorrente sem contatos' }
+  }
+
+  // Teste A/B é repetido em cada execução (mesmas variantes)
+  const variants = parent.abTest ? await campaignVariantDb.getByCampaignId(parentId) : []
+
+  const runAt = new Date()
+  const runLabel = runAt.toLocaleString('pt-BR', {
+    timeZone: parent.recurrence.timezone,
+    dateStyle: 'short',
+    timeStyle: 'short',
+  })
+
+  const result = await createSequenceChild(
+    {
+      name: `${parent.name} — ${runLabel}`,
+      templateName: parent.templateName,
+      templateVariables: parent.templateVariables,
+      recipients: rows.length,
+      flowId: parent.flowId ?? null,
+      flowName: parent.flowName ?? null,
+      abTest: parent.abTest
+        ? { testPercent: parent.abTest.testPercent, waitMinutes: parent.abTest.waitMinutes, metric: parent.abTest.metric }
+        : null,
+      variants: variants.map((v) => ({ templateName: v.templateName, templateVariables: v.templateVariables })),
+      dripSteps: parent.dripSteps ?? null,
+      sendWindow: parent.sendWindow ?? null,
+      skipDormant: parent.skipDormant ?? false,
+      phoneNumberId: parent.phoneNumberId ?? null,
+      trackedLinks: parent.trackedLinks ?? null,
+      parentCampaignId: parentId,
+      sequenceStep: 1,
+      sequenceKey: `recurrence:${parentId}:${runKey}`,
+    },
+    (rows as any[]).map((row) => ({
+      contactId: row.contact_id,
+      phone: row.phone,
+      name: row.name || '',
+      email: row.email || null,
+      custom_fields: row.custom_fields || {},
+    }))
+  )
+
+  if (result.ok) {
+    await campaignDb.updateStatus(parentId, {
+      recurrence: {
+        ...parent.recurrence,
+        lastRunAt: runAt.toISOString(),
+        runCount: (parent.recurrence.runCount ?? 0) + 1,
+      },
+    })
+  }
+
+  return result
+}
+
+// =============================================================================
+// SEQUÊNCIA (drip)
+// =============================================================================
+
+/**
+ * Fim de uma etapa: agenda a próxima (se houver) após `delayDays`.
+ * Chamado no complete-campaign do workflow.
+ */
+export async function scheduleNextDripStep(campaignId: string): Promise<void> {
+  const campaign = await campaignDb.getById(campaignId)
+  const currentStep = campaign?.sequenceStep
+  if (!campaign || !currentStep) return
+
+  // Etapa 1 guarda a configuração; etapas 2+ apontam para ela.
+  const root = currentStep >= 2 && campaign.parentCampaignId
+    ? await campaignDb.getById(campaign.parentCampaignId)
+    : campaign
+  if (!root) return
+
+  const next = getNextDripStep(root.dripSteps, currentStep)
+  if (!next) return
+
+  await enqueueDispatchJob(
+    { campaignId: root.id, trigger: 'drip_step', step: next.step },
+    getDripStepDelaySeconds(next.config),
+    `drip-${root.id}-${next.step}`
+  )
+}
+
+/**
+ * Etapa N da sequência: cria a campanha-filha só com quem não engajou na etapa anterior.
+ */
+export async function spawnDripStep(rootId: string, step: number): Promise<SequenceRunResult> {
+  const root = await campaignDb.getById(rootId)
+  if (!root) return { ok: false, status: 'invalid', message: 'Campanha não encontrada' }
+
+  const next = getNextDripStep(root.dripSteps, step - 1)
+  if (!next || next.step !== step) {
+    return { ok: false, status: 'invalid', message: `Etapa ${step} não existe nesta sequência` }
+  }
+
+  let previous: Campaign | undefined = root
+  if (step > 2) {
+    const { data: prevRow } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('parent_campaign_id', rootId)
+      .eq('sequence_step', step - 1)
+      .maybeSingle()
+    previous = prevRow?.id ? await campaignDb.getById(String(prevRow.id)) : undefined
+  }
+
+  if (!previous) {
+    return { ok: false, status: 'ignored', message: `Etapa ${step - 1} não foi enviada; sequência encerrada.` }
+  }
+  if (root.status === CampaignStatus.CANCELLED || previous.status === CampaignStatus.CANCELLED) {
+    return { ok: false, status: 'ignored', message: 'Sequência cancelada; ignorando etapa.' }
+  }
+
+  const { data: audience, error } = await supabase.rpc('get_campaign_drip_audience', {
+    p_campaign_id: previous.id,
+    p_condition: next.config.condition,
+  })
+
+  if (error) throw error
+
+  const contacts = ((audience || []) as any[])
+    .filter((row) => row.contact_id)
+    .map((row) => ({
+      contactId: String(row.contact_id),
+      phone: String(row.phone),
+      name: row.name || '',
+      email: row.email || null,
+      custom_fields: row.custom_fields || {},
+    }))
+
+  if (contacts.length === 0) {
+    return { ok: false, status: 'ignored', message: `Nenhum contato elegível para a etapa ${step}; sequência encerrada.` }
+  }
+
+  return createSequenceChild(
+    {
+      name: `${root.name} — Etapa ${step}`,
+      templateName: next.config.templateName,
+      templateVariables: next.config.templateVariables ?? undefined,
+      recipients: contacts.length,
+      sendWindow: root.sendWindow ?? null,
+      skipDormant: root.skipDormant ?? false,
+      phoneNumberId: root.phoneNumberId ?? null,
+      trackedLinks: root.trackedLinks ?? null,
+      parentCampaignId: root.id,
+      sequenceStep: step,
+      sequenceKey: `drip:${root.id}:${step}`,
+    },
+    contacts
+  )
+}
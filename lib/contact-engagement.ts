@@ -0,0 +1,94 @@
+import { Client } from '@upstash/qstash'
+import { supabase } from '@/lib/supabase'
+import { settingsDb } from '@/lib/supabase-db'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
+import { getWorkerSecret } from '@/lib/worker-auth'
+import { getAppBaseUrl } from '@/lib/campaign-ab-test'
+import { toQStashCron } from '@/lib/business/campaign/scheduling'
+import { ENGAGEMENT_RULES, buildEngagementRefreshParams } from '@/lib/business/contact/engagement'
+
+/**
+ * Score de engajamento e estágio do ciclo de vida dos contatos.
+ *
+ * O cálculo é set-based no Postgres (`refresh_contact_engagement`); aqui ficam
+ * o disparo do recálculo e o schedule diário no QStash (criado sob demanda).
+ */
+
+const STATE_KEY = 'contact_engagement_state'
+const REFRESH_TIMEZONE = 'America/Sao_Paulo'
+
+export type ContactEngagementState = {
+  lastRunAt: string | null
+  lastUpdated: number | null
+  scheduleId: string | null
+}
+
+const EMPTY_STATE: ContactEngagementState = { lastRunAt: null, lastUpdated: null, scheduleId: null }
+
+export async function getContactEngagementState(): Promise<ContactEngagementState> {
+  const raw = await settingsDb.get(STATE_KEY).catch(() => null)
+  if (!raw) return EMPTY_STATE
+  try {
+    return { ...EMPTY_STATE, ...JSON.parse(raw) }
+  } catch {
+    return EMPTY_STATE
+  }
+}
+
+async function saveContactEngagementState(state: ContactEngagementState): Promise<void> {
+  await settingsDb.set(STATE_KEY, JSON.stringify(state))
+}
+
+/**
+ * Recalcula score/estágio de todos os contatos. Retorna quantos contatos mudaram.
+ */
+export async function refreshContactEngagement(): Promise<{ updated: number; ranAt: string }> {
+  const { data, error } = await supabase.rpc('refresh_contact_engagement', {
+    p_rules: buildEngagementRefreshParams(),
+  })
+  if (error) throw error
+
+  const ranAt = new Date().toISOString()
+  const updated = Number(data ?? 0)
+  const state = await getContactEngagementState()
+  await saveContactEngagementState({ ...state, lastRunAt: ranAt, lastUpdated: updated })
+
+  return { updated, ranAt }
+}
+
+/**
+ * Garante o schedule diário do recálculo no QStash (idempotente, um por workspace).
+ * O job autentica com o segredo do worker (Bearer), como os demais jobs do QStash.
+ * Sem QSTASH_TOKEN/segredo (ou em localhost) o recálculo fica apenas manual.
+ */
+export async function ensureContactEngagementSchedule(): Promise<string | null> {
+  const state = await getContactEngagementState()
+  if (state.scheduleId) return state.scheduleId
+
+  const baseUrl = getAppBaseUrl()
+  const workerSecret = getWorkerSecret()
+  if (
+    !process.env.QSTASH_TOKEN ||
+    !workerSecret ||
+    baseUrl.includes('localhost') ||
+    baseUrl.includes('127.0.0.1')
+  ) {
+    return null
+  }
+
+  const qstash = new Client({ token: process.env.QSTASH_TOKEN })
+  const { scheduleId } = await qstash.schedules.create({
+    destination: `${baseUrl}/api/contacts/engagement`,
+    cron: toQStashCron(ENGAGEMENT_RULES.REFRESH_CRON, REFRESH_TIMEZONE),
+    body: JSON.stringify({ trigger: 'schedule' }),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(await getWorkspaceHeaders()),
+      Authorization: `Bearer ${workerSecret}`,
+    },
+    retries: 3,
+  })
+
+  await saveContactEngagementState({ ...state, scheduleId })
+  return scheduleId
+}
@@ -0,0 +1,219 @@
+/**
+ * Conversões (vendas/pedidos) e atribuição
+ *
+ * Lojas/ERPs enviam a venda por POST /api/conversions (chave de API do workspace).
+ * O comprador é resolvido por contactId, telefone ou email e a venda vai para a
+ * última campanha entregue/clicada dentro da janela; sem campanha, para a conversa
+ * do inbox (e o agente de IA) que atendeu o contato. Regras em lib/business/conversions.
+ *
+ * A janela fica na tabela `settings` (conversion_attribution_config).
+ */
+
+import { contactDb, conversionDb, settingsDb } from '@/lib/supabase-db'
+import { isSupabaseConfigured, supabase } from '@/lib/supabase'
+import { getCurrentWorkspaceId } from '@/lib/workspace-context'
+import { boolFromUnknown, clampInt } from '@/lib/validation-utils'
+import { emitWebhookEvent } from '@/lib/outbound-webhooks'
+import {
+  CONVERSION_RULES,
+  DEFAULT_ATTRIBUTION_CONFIG,
+  attributeConversion,
+  type CampaignTouchCandidate,
+  type ConversationTouchCandidate,
+} from '@/lib/business/conversions'
+import type { Contact, Conversion, ConversionAttributionConfig } from '@/types'
+
+const CONFIG_KEY = 'conversion_attribution_config'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Toques considerados por conversão (mais recentes primeiro) */
+const MAX_TOUCH_CANDIDATES = 50
+
+export type AttributionConfigSource = 'db' | 'default'
+
+export interface ConversionInput {
+  value: number
+  currency: string
+  phone?: string
+  email?: string
+  contactId?: string
+  orderId?: string
+  occurredAt?: string
+  metadata?: Record<string, unknown>
+}
+
+export function parseAttributionConfig(
+  input: unknown,
+  base: ConversionAttributionConfig = DEFAULT_ATTRIBUTION_CONFIG
+): ConversionAttributionConfig {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  return {
+    windowDays:
+      raw.windowDays !== undefined
+        ? clampInt(raw.windowDays, CONVERSION_RULES.MIN_WINDOW_DAYS, CONVERSION_RULES.MAX_WINDOW_DAYS, base.windowDays)
+        : base.windowDays,
+    includeConversations:
+      raw.includeConversations !== undefined ? boolFromUnknown(raw.includeConversations) : base.includeConversations,
+  }
+}
+
+export async function getAttributionConfigWithSource(): Promise<{
+  config: ConversionAttributionConfig
+  source: AttributionConfigSource
+}> {
+  if (!isSupabaseConfigured()) return { config: DEFAULT_ATTRIBUTION_CONFIG, source: 'default' }
+
+  const raw = await settingsDb.get(CONFIG_KEY).catch(() => null)
+  if (raw) {
+    try {
+      return { config: parseAttributionConfig(JSON.parse(raw)), source: 'db' }
+    } catch {
+      // fallthrough
+    }
+  }
+  return { config: DEFAULT_ATTRIBUTION_CONFIG, source: 'default' }
+}
+
+export async function saveAttributionConfig(config: ConversionAttributionConfig): Promise<void> {
+  await settingsDb.set(CONFIG_KEY, JSON.stringify(config))
+}
+
+function isUniqueViolation(err: any): boolean {
+  return String(err?.code || '') === '23505'
+}
+
+/**
+ * Busca case-insensitive por email exato: `%`, `_` e `\` do email não viram curinga no ILIKE.
+ */
+async function findContactByEmail(email: string): Promise<Contact | undefined> {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('id')
+    .ilike('email', email.replace(/[\\%_]/g, (char) => `\\${char}`))
+    .limit(1)
+    .maybeSingle()
+
+  if (error || !data) return undefined
+  return contactDb.getById(String((data as any).id))
+}
+
+async function resolveBuyer(input: ConversionInput): Promise<Contact | undefined> {
+  if (input.contactId) {
+    const contact = await contactDb.getById(input.contactId)
+    if (contact) return contact
+  }
+  if (input.phone) {
+    const contact = await contactDb.getByPhone(input.phone)
+    if (contact) return contact
+  }
+  if (input.email) return findContactByEmail(input.email)
+  return undefined
+}
+
+/**
+ * campaign_contacts não tem workspace_id: filtra pelo workspace da campanha.
+ */
+async function findCampaignTouches(phone: string, since: string): Promise<CampaignTouchCandidate[]> {
+  const workspaceId = await getCurrentWorkspaceId()
+  const { data, error } = await supabase
+    .from('campaign_contacts')
+    .select('campaign_id, delivered_at, read_at, link_clicked_at, campaigns!inner(workspace_id)')
+    .eq('phone', phone)
+    .eq('campaigns.workspace_id', workspaceId)
+    .or(`delivered_at.gte.${since},read_at.gte.${since},link_clicked_at.gte.${since}`)
+    .order('delivered_at', { ascending: false, nullsFirst: false })
+    .limit(MAX_TOUCH_CANDIDATES)
+
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({
+    campaignId: String(row.campaign_id),
+    // Sem status de entrega (webhook perdido), a leitura também comprova a entrega
+    deliveredAt: row.delivered_at ?? row.read_at ?? null,
+    clickedAt: row.link_clicked_at ?? null,
+  }))
+}
+
+async function findConversationTouches(
+  contact: Contact,
+  since: string
+): Promise<ConversationTouchCandidate[]> {
+  const { data, error } = await supabase
+    .from('inbox_conversations')
+    .select('id, ai_agent_id, last_message_at')
+    .or(`contact_id.eq.${contact.id},phone.eq.${contact.phone}`)
+    .gte('last_message_at', since)
+    .order('last_message_at', { ascending: false })
+    .limit(MAX_TOUCH_CANDIDATES)
+
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({
+    conversationId: String(row.id),
+    aiAgentId: row.ai_agent_id ?? null,
+    lastMessageAt: row.last_message_at ?? null,
+  }))
+}
+
+/**
+ * Registra a conversão já atribuída. Com orderId repetido, devolve a existente
+ * (lojas costumam reenviar o mesmo pedido, às vezes em paralelo: o índice único
+ * idx_conversions_workspace_order decide a corrida).
+ */
+export async function recordConversion(
+  input: ConversionInput
+): Promise<{ conversion: Conversion; duplicate: boolean }> {
+  if (input.orderId) {
+    const existing = await conversionDb.getByOrderId(input.orderId)
+    if (existing) return { conversion: existing, duplicate: true }
+  }
+
+  const occurredAt = input.occurredAt ? new Date(input.occurredAt).toISOString() : new Date().toISOString()
+  const [contact, { config }] = await Promise.all([resolveBuyer(input), getAttributionConfigWithSource()])
+
+  const since = new Date(new Date(occurredAt).getTime() - config.windowDays * DAY_MS).toISOString()
+  const phone = contact?.phone || input.phone || null
+
+  const [campaignTouches, conversationTouches] = await Promise.all([
+    phone ? findCampaignTouches(phone, since) : Promise.resolve([]),
+    contact && config.includeConversations ? findConversationTouches(contact, since) : Promise.resolve([]),
+  ])
+
+  const attribution = attributeConversion({ occurredAt, config, campaignTouches, conversationTouches })
+
+  let conversion: Conversion
+  try {
+    conversion = await conversionDb.create({
+      contactId: contact?.id ?? null,
+      phone,
+      email: input.email || contact?.email || null,
+      orderId: input.orderId ?? null,
+      value: input.value,
+      currency: input.currency,
+      occurredAt,
+      ...attribution,
+      metadata: input.metadata ?? {},
+    })
+  } catch (err) {
+    if (!input.orderId || !isUniqueViolation(err)) throw err
+    const existing = await conversionDb.getByOrderId(input.orderId)
+    if (!existing) throw err
+    return { conversion: existing, duplicate: true }
+  }
+
+  await emitWebhookEvent('conversion.created', {
+    conversion_id: conversion.id,
+    order_id: conversion.orderId,
+    value: conversion.value,
+    currency: conversion.currency,
+    contact_id: conversion.contactId,
+    phone: conversion.phone,
+    attribution: conversion.attribution,
+    campaign_id: conversion.campaignId,
+    conversation_id: conversion.conversationId,
+    ai_agent_id: conversion.aiAgentId,
+    occurred_at: conversion.occurredAt,
+  })
+
+  return { conversion, duplicate: false }
+}
@@ -0,0 +1,310 @@
+// @vitest-environment node
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { CrmApiError, createCrmAdapter } from './crm-providers'
+import type { CrmConnector, CrmProvider } from '@/types'
+
+type RecordedRequest = {
+  method: string
+  path: string
+  query: Record<string, string>
+  headers: IncomingMessage['headers']
+  body: any
+}
+
+type MockRoute = (req: RecordedRequest) => { status?: number; body?: unknown } | undefined
+
+// Servidor mock local: o mesmo caminho usado para testar um conector pela URL da API
+let server: Server
+let baseUrl = ''
+let requests: RecordedRequest[] = []
+let route: MockRoute = () => undefined
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  const raw = Buffer.concat(chunks).toString('utf8')
+  return raw ? JSON.parse(raw) : null
+}
+
+beforeAll(async () => {
+  server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const recorded: RecordedRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: req.headers,
+      body: await readBody(req),
+    }
+    requests.push(recorded)
+
+    const reply = route(recorded) ?? { status: 404, body: { message: 'not found' } }
+    res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(reply.body ?? {}))
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+})
+
+beforeEach(() => {
+  requests = []
+  route = () => undefined
+})
+
+const connector = (provider: CrmProvider): CrmConnector => ({
+  id: 'crm-1',
+  provider,
+  name: 'Teste',
+  apiToken: 'token-123456',
+  baseUrl,
+  fieldMappings: [],
+  listMappings: [],
+  optOutField: null,
+  eventTypes: [],
+  syncContacts: true,
+  importContacts: true,
+  inboundToken: 'crm_x',
+  isActive: true,
+  lastImportAt: null,
+  createdAt: '2026-10-01T00:00:00Z',
+})
+
+const timelineEntry = {
+  eventType: 'campaign.read' as const,
+  title: 'WhatsApp: campanha lida',
+  body: 'Campanha: Black Friday\nLida em 01/10',
+  occurredAt: '2026-10-01T12:00:00.000Z',
+  email: 'ana@exemplo.com',
+}
+
+describe('HubSpot adapter', () => {
+  it('procura pelo telefone e cria o contato quando não encontra', async () => {
+    route = (req) => {
+      if (req.path === '/crm/v3/objects/contacts/search') return { body: { results: [] } }
+      if (req.method === 'POST' && req.path === '/crm/v3/objects/contacts') return { status: 201, body: { id: '901' } }
+      if (req.path === '/crm/v3/lists/12/memberships/add') return { body: {} }
+      return undefined
+    }
+
+    const id = await createCrmAdapter(connector('hubspot')).upsertContact({
+      externalId: null,
+      phone: '+5511999990000',
+      email: null,
+      properties: { firstname: 'Ana' },
+      lists: ['12'],
+    })
+
+    expect(id).toBe('901')
+    expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'POST /crm/v3/objects/contacts/search',
+      'POST /crm/v3/objects/contacts',
+      'PUT /crm/v3/lists/12/memberships/add',
+    ])
+    expect(requests[0].headers.authorization).toBe('Bearer token-123456')
+    expect(requests[1].body).toEqual({ properties: { phone: '+5511999990000', firstname: 'Ana' } })
+    expect(requests[2].body).toEqual(['901'])
+  })
+
+  it('volta a procurar quando o vínculo salvo não existe mais (404)', async () => {
+    route = (req) => {
+      if (req.path === '/crm/v3/objects/contacts/old') return { status: 404, body: { message: 'gone' } }
+      if (req.path === '/crm/v3/objects/contacts/search') return { body: { results: [{ id: '77' }] } }
+      if (req.method === 'PATCH' && req.path === '/crm/v3/objects/contacts/77') return { body: { id: '77' } }
+      return undefined
+    }
+
+    const id = await createCrmAdapter(connector('hubspot')).upsertContact({
+      externalId: 'old',
+      phone: '+5511999990000',
+      email: 'ana@exemplo.com',
+      properties: { firstname: 'Ana' },
+      lists: [],
+    })
+
+    expect(id).toBe('77')
+    expect(requests[1].body.filterGroups).toHaveLength(2)
+  })
+
+  it('cria nota associada ao contato', async () => {
+    route = (req) => (req.path === '/crm/v3/objects/notes' ? { status: 201, body: { id: 'n1' } } : undefined)
+
+    await createCrmAdapter(connector('hubspot')).addTimelineEntry('901', timelineEntry)
+
+    const body = requests[0].body
+    expect(body.properties.hs_note_body).toBe('<strong>WhatsApp: campanha lida</strong><br>Campanha: Black Friday<br>Lida em 01/10')
+    expect(body.associations[0].to).toEqual({ id: '901' })
+  })
+
+  it('importa páginas até acabar o cursor', async () => {
+    route = (req) => {
+      if (req.path !== '/crm/v3/objects/contacts/search') return undefined
+      return req.body.after
+        ? { body: { results: [{ id: '2', properties: { phone: '+552', lastmodifieddate: '2026-10-02T00:00:00Z' } }] } }
+        : {
+          body: {
+            results: [{ id: '1', properties: { mobilephone: '+551', email: 'a@b.com' } }],
+            paging: { next: { after: 'cursor-1' } },
+          },
+        }
+    }
+
+    const page = await createCrmAdapter(connector('hubspot')).listUpdatedContacts!('2026-10-01T00:00:00Z', ['plan'])
+
+    expect(page.hasMore).toBe(false)
+    expect(page.records.map((r) => [r.externalId, r.phone])).toEqual([['1', '+551'], ['2', '+552']])
+    expect(page.records[1].updatedAt).toBe('2026-10-02T00:00:00Z')
+    expect(requests[0].body.properties).toContain('plan')
+    expect(requests[0].body.filterGroups[0].filters[0].value).toBe(String(Date.parse('2026-10-01T00:00:00Z')))
+  })
+
+  it('converte respostas de erro em CrmApiError com o status', async () => {
+    route = () => ({ status: 429, body: { message: 'rate limit' } })
+
+    const error = await createCrmAdapter(connector('hubspot')).testConnection().catch((e) => e)
+
+    expect(error).toBeInstanceOf(CrmApiError)
+    expect(error.status).toBe(429)
+    expect(error.message).toContain('rate limit')
+  })
+})
+
+describe('RD Station adapter', () => {
+  it('atualiza pelo email e aplica as tags', async () => {
+    route = (req) => {
+      if (req.path === '/platform/contacts/email:ana%40exemplo.com') {
+        return req.method === 'PATCH' ? { body: { uuid: 'uuid-1' } } : undefined
+      }
+      if (req.path === '/platform/contacts/email:ana%40exemplo.com/tag') return { body: {} }
+      return undefined
+    }
+
+    const id = await createCrmAdapter(connector('rdstation')).upsertContact({
+      externalId: null,
+      phone: '+5511999990000',
+      email: 'ana@exemplo.com',
+      properties: { mobile_phone: '+5511999990000' },
+      lists: ['vip'],
+    })
+
+    expect(id).toBe('uuid-1')
+    expect(requests[1].body).toEqual({ tags: ['vip'] })
+  })
+
+  it('exige email para identificar o contato', async () => {
+    const error = await createCrmAdapter(connector('rdstation'))
+      .upsertContact({ externalId: null, phone: '+5511999990000', email: null, properties: {}, lists: [] })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(CrmApiError)
+    expect(error.status).toBe(422)
+    expect(requests).toHaveLength(0)
+  })
+
+  it('registra o evento como conversão', async () => {
+    route = (req) => (req.path === '/platform/events' ? { body: {} } : undefined)
+
+    await createCrmAdapter(connector('rdstation')).addTimelineEntry('uuid-1', timelineEntry)
+
+    expect(requests[0].body.payload).toMatchObject({
+      conversion_identifier: 'smartzap-campaign-read',
+      email: 'ana@exemplo.com',
+    })
+  })
+
+  it('lê os leads do webhook', () => {
+    const records = createCrmAdapter(connector('rdstation')).parseInboundWebhook!({
+      leads: [{ uuid: 'uuid-1', email: 'ana@exemplo.com', mobile_phone: '+5511999990000', custom_fields: { plano: 'Pro' } }],
+    })
+
+    expect(records).toHaveLength(1)
+    expect(records[0]).toMatchObject({ externalId: 'uuid-1', phone: '+5511999990000', email: 'ana@exemplo.com' })
+    expect(records[0].properties.plano).toBe('Pro')
+  })
+})
+
+describe('Pipedrive adapter', () => {
+  it('encontra a pessoa pelo telefone e atualiza com as etiquetas', async () => {
+    route = (req) => {
+      if (req.path === '/v1/persons/search') return { body: { data: { items: [{ item: { id: 55 } }] } } }
+      if (req.method === 'PUT' && req.path === '/v1/persons/55') return { body: { data: { id: 55 } } }
+      return undefined
+    }
+
+    const id = await createCrmAdapter(connector('pipedrive')).upsertContact({
+      externalId: null,
+      phone: '+5511999990000',
+      email: null,
+      properties: { name: 'Ana' },
+      lists: ['7', 'x'],
+    })
+
+    expect(id).toBe('55')
+    expect(requests[0].headers['x-api-token']).toBe('token-123456')
+    expect(requests[0].query).toMatchObject({ term: '+5511999990000', fields: 'phone' })
+    expect(requests[1].body).toEqual({
+      name: 'Ana',
+      phone: [{ value: '+5511999990000', primary: true }],
+      label_ids: [7],
+    })
+  })
+
+  it('cria a pessoa quando não encontra', async () => {
+    route = (req) => {
+      if (req.path === '/v1/persons/search') return { body: { data: { items: [] } } }
+      if (req.method === 'POST' && req.path === '/v1/persons') return { status: 201, body: { data: { id: 56 } } }
+      return undefined
+    }
+
+    const id = await createCrmAdapter(connector('pipedrive')).upsertContact({
+      externalId: null,
+      phone: '+5511999990000',
+      email: 'ana@exemplo.com',
+      properties: {},
+      lists: [],
+    })
+
+    expect(id).toBe('56')
+    expect(requests[1].body).toMatchObject({
+      name: '+5511999990000',
+      email: [{ value: 'ana@exemplo.com', primary: true }],
+    })
+  })
+
+  it('importa pessoas alteradas pelo /recents', async () => {
+    route = (req) =>
+      req.path === '/v1/recents'
+        ? {
+          body: {
+            data: [
+              { item: 'person', data: { id: 9, name: 'Bia', phone: [{ value: '+5521988887777', primary: true }], update_time: '2026-10-02 10:00:00' } },
+            ],
+            additional_data: { pagination: { more_items_in_collection: false } },
+          },
+        }
+        : undefined
+
+    const page = await createCrmAdapter(connector('pipedrive')).listUpdatedContacts!('2026-10-01T00:00:00.000Z', [])
+
+    expect(requests[0].query.since_timestamp).toBe('2026-10-01 00:00:00')
+    expect(page).toEqual({
+      hasMore: false,
+      records: [
+        expect.objectContaining({ externalId: '9', phone: '+5521988887777', updatedAt: '2026-10-02T10:00:00Z' }),
+      ],
+    })
+  })
+
+  it('lê webhooks v1 e v2 de pessoa', () => {
+    const adapter = createCrmAdapter(connector('pipedrive'))
+
+    expect(adapter.parseInboundWebhook!({ current: { id: 1, phone: [{ value: '+551' }] } })[0].phone).toBe('+551')
+    expect(adapter.parseInboundWebhook!({ meta: { entity: 'person' }, data: { id: 2, name: 'Caio' } })[0].externalId).toBe('2')
+    expect(adapter.parseInboundWebhook!({ meta: { entity: 'deal' }, data: { id: 3 } })).toEqual([])
+  })
+})
@@ -0,0 +1,432 @@
+/**
+ * CRM Providers
+ * Adaptadores das APIs de HubSpot, RD Station Marketing e Pipedrive.
+ *
+ * Todos falam com `connector.baseUrl` quando informado (ex.: http://localhost:4010
+ * de um servidor mock) e com a API de produção do provedor caso contrário.
+ * Erros HTTP viram CrmApiError com o status, para o worker decidir se retenta.
+ */
+
+import { fetchWithTimeout, safeJson } from '@/lib/server-http'
+import { CRM_PROVIDERS, type CrmTimelineEntry } from '@/lib/business/crm'
+import type { CrmConnector, CrmContactRecord, CrmEventType } from '@/types'
+
+const REQUEST_TIMEOUT_MS = 10000
+
+/** Páginas lidas por importação (o restante fica para a próxima) */
+const IMPORT_MAX_PAGES = 10
+
+export class CrmApiError extends Error {
+  status: number
+  data: unknown
+
+  constructor(message: string, status: number, data: unknown) {
+    super(message)
+    this.name = 'CrmApiError'
+    this.status = status
+    this.data = data
+  }
+}
+
+export interface CrmContactUpsert {
+  /** ID já conhecido no CRM (vínculo salvo); vazio = procura por telefone/email */
+  externalId: string | null
+  phone: string
+  email: string | null
+  properties: Record<string, string>
+  lists: string[]
+}
+
+export interface CrmTimelineInput extends CrmTimelineEntry {
+  eventType: CrmEventType
+  occurredAt: string
+  email: string | null
+}
+
+export interface CrmImportPage {
+  records: CrmContactRecord[]
+  /** Ainda há alterações depois do último registro lido */
+  hasMore: boolean
+}
+
+export interface CrmAdapter {
+  /** Valida token e URL (lança CrmApiError) */
+  testConnection(): Promise<void>
+  /** Cria ou atualiza o contato e retorna o ID dele no CRM */
+  upsertContact(input: CrmContactUpsert): Promise<string>
+  addTimelineEntry(externalId: string, entry: CrmTimelineInput): Promise<void>
+  /** Contatos alterados desde `since` (ordem crescente de alteração) */
+  listUpdatedContacts?(since: string | null, properties: string[]): Promise<CrmImportPage>
+  /** Contatos enviados pelo webhook do CRM */
+  parseInboundWebhook?(body: unknown): CrmContactRecord[]
+}
+
+type RequestOptions = {
+  method?: string
+  body?: unknown
+  query?: Record<string, string>
+}
+
+function errorMessage(data: any, fallback: string): string {
+  const message =
+    data?.message ||
+    data?.error?.message ||
+    (typeof data?.error === 'string' ? data.error : null) ||
+    data?.errors?.[0]?.error_message ||
+    data?.errors?.[0]?.message ||
+    data?.error_info
+  return message ? `${fallback}: ${String(message)}` : fallback
+}
+
+function createClient(connector: CrmConnector, authHeaders: Record<string, string>) {
+  const provider = CRM_PROVIDERS[connector.provider]
+  const baseUrl = (connector.baseUrl?.trim() || provider.defaultBaseUrl).replace(/\/+$/, '')
+
+  return async function request<T = any>(path: string, options: RequestOptions = {}): Promise<T> {
+    const url = new URL(`${baseUrl}${path}`)
+    for (const [key, value] of Object.entries(options.query || {})) url.searchParams.set(key, value)
+
+    const res = await fetchWithTimeout(url, {
+      method: options.method || 'GET',
+      headers: {
+        Accept: 'application/json',
+        ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...authHeaders,
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+    })
+
+    const data = await safeJson<any>(res)
+    if (!res.ok) {
+      throw new CrmApiError(errorMessage(data, `${provider.label} respondeu HTTP ${res.status}`), res.status, data)
+    }
+    return data as T
+  }
+}
+
+const isNotFound = (error: unknown) => error instanceof CrmApiError && error.status === 404
+
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return null
+}
+
+// =============================================================================
+// HubSpot (CRM API v3)
+// =============================================================================
+
+const HUBSPOT_NOTE_TO_CONTACT = 202
+
+function hubspotAdapter(connector: CrmConnector): CrmAdapter {
+  const request = createClient(connector, { Authorization: `Bearer ${connector.apiToken}` })
+
+  const findContactId = async (phone: string, email: string | null): Promise<string | null> => {
+    const filterGroups = [{ filters: [{ propertyName: 'phone', operator: 'EQ', value: phone }] }]
+    if (email) filterGroups.push({ filters: [{ propertyName: 'email', operator: 'EQ', value: email }] })
+
+    const data = await request('/crm/v3/objects/contacts/search', {
+      method: 'POST',
+      body: { filterGroups, properties: ['phone', 'email'], limit: 1 },
+    })
+    return toText(data?.results?.[0]?.id)
+  }
+
+  const toRecord = (row: any): CrmContactRecord => {
+    const properties: Record<string, string | null> = {}
+    for (const [key, value] of Object.entries(row?.properties || {})) properties[key] = toText(value)
+    return {
+      externalId: String(row.id),
+      phone: properties.mobilephone || properties.phone || null,
+      email: properties.email || null,
+      properties,
+      updatedAt: properties.lastmodifieddate || row.updatedAt || null,
+    }
+  }
+
+  return {
+    async testConnection() {
+      await request('/crm/v3/objects/contacts', { query: { limit: '1' } })
+    },
+
+    async upsertContact(input) {
+      let id = input.externalId
+      if (id) {
+        try {
+          await request(`/crm/v3/objects/contacts/${encodeURIComponent(id)}`, {
+            method: 'PATCH',
+            body: { properties: input.properties },
+          })
+        } catch (error) {
+          if (!isNotFound(error)) throw error
+          id = null
+        }
+      }
+
+      if (!id) {
+        id = await findContactId(input.phone, input.email)
+        if (id) {
+          await request(`/crm/v3/objects/contacts/${encodeURIComponent(id)}`, {
+            method: 'PATCH',
+            body: { properties: input.properties },
+          })
+        } else {
+          const created = await request('/crm/v3/objects/contacts', {
+            method: 'POST',
+            body: { properties: { phone: input.phone, ...(input.email ? { email: input.email } : {}), ...input.properties } },
+          })
+          id = String(created.id)
+        }
+      }
+
+      for (const listId of input.lists) {
+        await request(`/crm/v3/lists/${encodeURIComponent(listId)}/memberships/add`, {
+          method: 'PUT',
+          body: [id],
+        })
+      }
+
+      return id
+    },
+
+    async addTimelineEntry(externalId, entry) {
+      await request('/crm/v3/objects/notes', {
+        method: 'POST',
+        body: {
+          properties: {
+            hs_timestamp: entry.occurredAt,
+            hs_note_body: `<strong>${entry.title}</strong><br>${entry.body.replace(/\n/g, '<br>')}`,
+          },
+          associations: [
+            {
+              to: { id: externalId },
+              types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: HUBSPOT_NOTE_TO_CONTACT }],
+            },
+          ],
+        },
+      })
+    },
+
+    async listUpdatedContacts(since, properties) {
+      const records: CrmContactRecord[] = []
+      const filterGroups = since
+        ? [{ filters: [{ propertyName: 'lastmodifieddate', operator: 'GTE', value: String(new Date(since).getTime()) }] }]
+        : []
+      let after: string | null = null
+
+      for (let page = 0; page < IMPORT_MAX_PAGES; page++) {
+        const data: any = await request('/crm/v3/objects/contacts/search', {
+          method: 'POST',
+          body: {
+            filterGroups,
+            sorts: [{ propertyName: 'lastmodifieddate', direction: 'ASCENDING' }],
+            properties: Array.from(new Set(['phone', 'mobilephone', 'email', 'lastmodifieddate', ...properties])),
+            limit: 100,
+            ...(after ? { after } : {}),
+          },
+        })
+        records.push(...(data?.results || []).map(toRecord))
+        after = toText(data?.paging?.next?.after)
+        if (!after) return { records, hasMore: false }
+      }
+
+      return { records, hasMore: true }
+    },
+  }
+}
+
+// =============================================================================
+// RD Station Marketing (contatos identificados por email)
+// =============================================================================
+
+function rdStationAdapter(connector: CrmConnector): CrmAdapter {
+  const request = createClient(connector, { Authorization: `Bearer ${connector.apiToken}` })
+
+  const contactPath = (input: { externalId: string | null; email: string | null }) => {
+    if (input.externalId) return `/platform/contacts/uuid:${encodeURIComponent(input.externalId)}`
+    if (input.email) return `/platform/contacts/email:${encodeURIComponent(input.email)}`
+    throw new CrmApiError('RD Station exige email para identificar o contato', 422, null)
+  }
+
+  return {
+    async testConnection() {
+      await request('/marketing/account_info')
+    },
+
+    async upsertContact(input) {
+      let path = contactPath(input)
+      let data: any
+      try {
+        data = await request(path, { method: 'PATCH', body: { ...input.properties } })
+      } catch (error) {
+        if (!isNotFound(error) || !input.externalId || !input.email) throw error
+        path = contactPath({ externalId: null, email: input.email })
+        data = await request(path, { method: 'PATCH', body: { ...input.properties } })
+      }
+
+      if (input.lists.length > 0) {
+        await request(`${path}/tag`, { method: 'POST', body: { tags: input.lists } })
+      }
+
+      return String(data?.uuid || input.externalId || input.email)
+    },
+
+    async addTimelineEntry(_externalId, entry) {
+      if (!entry.email) throw new CrmApiError('RD Station exige email para registrar conversões', 422, null)
+      await request('/platform/events', {
+        method: 'POST',
+        body: {
+          event_type: 'CONVERSION',
+          event_family: 'CDP',
+          payload: {
+            conversion_identifier: `smartzap-${entry.eventType.replace('.', '-')}`,
+            email: entry.email,
+            cf_smartzap_evento: entry.title,
+            cf_smartzap_detalhes: entry.body,
+          },
+        },
+      })
+    },
+
+    // Webhook "conversão"/"oportunidade" do RD: { leads: [...] }
+    parseInboundWebhook(body) {
+      const leads = Array.isArray((body as any)?.leads) ? (body as any).leads : []
+      return leads.map((lead: any): CrmContactRecord => {
+        const properties: Record<string, string | null> = {}
+        for (const [key, value] of Object.entries(lead || {})) properties[key] = toText(value)
+        for (const [key, value] of Object.entries(lead?.custom_fields || {})) properties[key] = toText(value)
+        return {
+          externalId: String(lead?.uuid || lead?.id || lead?.email || ''),
+          phone: properties.mobile_phone || properties.personal_phone || null,
+          email: properties.email || null,
+          properties,
+          updatedAt: properties.last_conversion_date || null,
+        }
+      }).filter((record: CrmContactRecord) => record.externalId)
+    },
+  }
+}
+
+// =============================================================================
+// Pipedrive (API v1, pessoas)
+// =============================================================================
+
+function pipedriveRecord(person: any): CrmContactRecord {
+  const properties: Record<string, string | null> = {}
+  for (const [key, value] of Object.entries(person || {})) {
+    if (Array.isArray(value)) {
+      const primary = value.find((item: any) => item?.primary) ?? value[0]
+      properties[key] = toText(primary?.value ?? primary)
+    } else {
+      properties[key] = toText(value)
+    }
+  }
+  return {
+    externalId: String(person?.id ?? ''),
+    phone: properties.phone || null,
+    email: properties.email || null,
+    properties,
+    updatedAt: properties.update_time ? `${properties.update_time.replace(' ', 'T')}Z` : null,
+  }
+}
+
+function toPipedriveTimestamp(iso: string): string {
+  return new Date(iso).toISOString().slice(0, 19).replace('T', ' ')
+}
+
+function pipedriveAdapter(connector: CrmConnector): CrmAdapter {
+  const request = createClient(connector, { 'x-api-token': connector.apiToken })
+
+  const buildPerson = (input: CrmContactUpsert, creating: boolean) => {
+    const { phone, email, name, ...rest } = input.properties
+    return {
+      ...rest,
+      ...(name || creating ? { name: name || input.phone } : {}),
+      phone: [{ value: phone || input.phone, primary: true }],
+      ...(email || input.email ? { email: [{ value: email || input.email, primary: true }] } : {}),
+      ...(input.lists.length > 0 ? { label_ids: input.lists.map(Number).filter(Number.isFinite) } : {}),
+    }
+  }
+
+  return {
+    async testConnection() {
+      await request('/v1/users/me')
+    },
+
+    async upsertContact(input) {
+      let id = input.externalId
+      if (!id) {
+        const found = await request('/v1/persons/search', {
+          query: { term: input.phone, fields: 'phone', exact_match: 'true', limit: '1' },
+        })
+        id = toText(found?.data?.items?.[0]?.item?.id)
+      }
+
+      if (id) {
+        try {
+          await request(`/v1/persons/${encodeURIComponent(id)}`, { method: 'PUT', body: buildPerson(input, false) })
+          return id
+        } catch (error) {
+          if (!isNotFound(error)) throw error
+        }
+      }
+
+      const created = await request('/v1/persons', { method: 'POST', body: buildPerson(input, true) })
+      return String(created?.data?.id)
+    },
+
+    async addTimelineEntry(externalId, entry) {
+      await request('/v1/notes', {
+        method: 'POST',
+        body: {
+          person_id: Number(externalId),
+          content: `<b>${entry.title}</b><br>${entry.body.replace(/\n/g, '<br>')}`,
+        },
+      })
+    },
+
+    async listUpdatedContacts(since) {
+      const records: CrmContactRecord[] = []
+      let start = 0
+
+      for (let page = 0; page < IMPORT_MAX_PAGES; page++) {
+        const data: any = await request('/v1/recents', {
+          query: {
+            since_timestamp: toPipedriveTimestamp(since || '1970-01-01T00:00:00Z'),
+            items: 'person',
+            start: String(start),
+            limit: '100',
+          },
+        })
+        for (const item of data?.data || []) {
+          if (item?.data?.id) records.push(pipedriveRecord(item.data))
+        }
+        const pagination = data?.additional_data?.pagination
+        if (!pagination?.more_items_in_collection) return { records, hasMore: false }
+        start = Number(pagination.next_start) || start + 100
+      }
+
+      return { records, hasMore: true }
+    },
+
+    // Webhook v1 ({ current }) ou v2 ({ data, meta.entity })
+    parseInboundWebhook(body) {
+      const payload = body as any
+      const person = payload?.current ?? (payload?.meta?.entity === 'person' ? payload?.data : null)
+      return person?.id ? [pipedriveRecord(person)] : []
+    },
+  }
+}
+
+export function createCrmAdapter(connector: CrmConnector): CrmAdapter {
+  switch (connector.provider) {
+    case 'hubspot':
+      return hubspotAdapter(connector)
+    case 'rdstation':
+      return rdStationAdapter(connector)
+    case 'pipedrive':
+      return pipedriveAdapter(connector)
+  }
+}
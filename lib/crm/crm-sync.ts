@@ -0,0 +1,531 @@
+/**
+ * CRM Sync
+ * Sincronização de contatos e eventos do WhatsApp com os conectores de CRM.
+ *
+ * - Envio (push): cada contato/evento vira uma linha pendente em crm_sync_logs
+ *   por conector; o worker /api/webhook/crm-sync processa via QStash (timer em
+ *   memória no dev local) e retenta com backoff (CRM_SYNC_MAX_ATTEMPTS).
+ * - Recebimento (pull): importação dos contatos alterados no CRM (manual) e
+ *   webhook de entrada /api/webhook/crm/[connectorId]?token=...
+ *
+ * Opt-out só viaja do CRM para cá como opt-out: opt-in nunca é reativado pelo CRM.
+ */
+
+import { randomBytes } from 'crypto'
+import { Client } from '@upstash/qstash'
+import { supabase, isSupabaseConfigured } from '@/lib/supabase'
+import { contactDb, crmConnectorDb, crmContactLinkDb, crmSyncLogDb } from '@/lib/supabase-db'
+import { getActiveSuppressionsByPhone } from '@/lib/phone-suppressions'
+import { normalizePhoneNumber } from '@/lib/phone-formatter'
+import { fetchWithTimeout, safeText } from '@/lib/server-http'
+import { getCurrentWorkspaceId, getWorkspaceHeaders } from '@/lib/workspace-context'
+import { getWorkerSecret } from '@/lib/worker-auth'
+import { getAppBaseUrl } from '@/lib/campaign-ab-test'
+import { CrmApiError, createCrmAdapter } from './crm-providers'
+import {
+  CRM_PROVIDERS,
+  buildCrmContactPayload,
+  formatCrmTimelineEntry,
+  getCrmSyncRetryDelaySeconds,
+  maskCrmToken,
+  readCrmContactRecord,
+} from '@/lib/business/crm'
+import {
+  ContactStatus,
+  type Contact,
+  type CrmConnector,
+  type CrmContactRecord,
+  type CrmEventType,
+  type CrmSyncLog,
+  type CrmSyncLogDirection,
+  type CrmSyncLogFilters,
+  type CrmSyncLogStatus,
+} from '@/types'
+
+const LOG_STATUSES: CrmSyncLogStatus[] = ['pending', 'success', 'failed', 'skipped']
+const LOG_DIRECTIONS: CrmSyncLogDirection[] = ['push', 'pull']
+
+// Cache curto: o webhook da Meta enfileira eventos de CRM a cada entrega/leitura
+const ACTIVE_CONNECTORS_CACHE_TTL_MS = 60_000
+const activeConnectorsCache = new Map<string, { connectors: CrmConnector[]; expiresAt: number }>()
+
+// Dev local: QStash não alcança localhost, então o worker é chamado por timer em memória.
+const localSyncRegistry = new Map<string, ReturnType<typeof setTimeout>>()
+
+export function generateCrmInboundToken(): string {
+  return `crm_${randomBytes(24).toString('base64url')}`
+}
+
+/**
+ * Agenda o processamento de uma sincronização em /api/webhook/crm-sync após `delaySeconds`.
+ */
+async function enqueueCrmSync(log: CrmSyncLog, delaySeconds: number): Promise<void> {
+  const baseUrl = getAppBaseUrl()
+  const isLocalhost = baseUrl.includes('localhost') || baseUrl.includes('127.0.0.1')
+  const workerSecret = getWorkerSecret()
+  const url = `${baseUrl}/api/webhook/crm-sync`
+  const body = { logId: log.id }
+
+  if (isLocalhost) {
+    if (process.env.NODE_ENV !== 'development') {
+      console.warn('[CrmSync] localhost sem NODE_ENV=development; sincronização não será feita automaticamente.')
+      return
+    }
+
+    const existing = localSyncRegistry.get(log.id)
+    if (existing) clearTimeout(existing)
+
+    // Captura o workspace agora: o timer roda fora da requisição
+    const workspaceHeaders = await getWorkspaceHeaders()
+    const t = setTimeout(async () => {
+      try {
+        const resp = await fetchWithTimeout(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...workspaceHeaders,
+            ...(workerSecret ? { Authorization: `Bearer ${workerSecret}` } : {}),
+          },
+          body: JSON.stringify(body),
+          timeoutMs: 30000,
+        })
+        if (!resp.ok) {
+          console.warn('[CrmSync][LocalScheduler] sync failed:', resp.status, (await safeText(resp)) || '')
+        }
+      } catch (e) {
+        console.warn('[CrmSync][LocalScheduler] sync failed (exception):', e)
+      } finally {
+        localSyncRegistry.delete(log.id)
+      }
+    }, delaySeconds * 1000)
+
+    localSyncRegistry.set(log.id, t)
+    return
+  }
+
+  if (!process.env.QSTASH_TOKEN || !workerSecret) {
+    console.warn('[CrmSync] QSTASH_TOKEN ou SMARTZAP_API_KEY não configurado; sincronização não será feita.')
+    return
+  }
+
+  const qstash = new Client({ token: process.env.QSTASH_TOKEN })
+  await qstash.publishJSON({
+    url,
+    body,
+    headers: {
+      ...(await getWorkspaceHeaders()),
+      Authorization: `Bearer ${workerSecret}`,
+    },
+    delay: delaySeconds,
+    retries: 3,
+    deduplicationId: `crm-sync-${log.id}-${log.attempts}`,
+  })
+}
+
+/**
+ * Conectores ativos do workspace atual (cache por workspace; vazio na maioria dos workspaces).
+ */
+async function getActiveConnectors(): Promise<CrmConnector[]> {
+  const workspaceId = await getCurrentWorkspaceId()
+  const cached = activeConnectorsCache.get(workspaceId)
+  if (cached && cached.expiresAt > Date.now()) return cached.connectors
+
+  const connectors = await crmConnectorDb.getActive()
+  activeConnectorsCache.set(workspaceId, { connectors, expiresAt: Date.now() + ACTIVE_CONNECTORS_CACHE_TTL_MS })
+  return connectors
+}
+
+/**
+ * Invalida o cache de conectores (após criar, editar ou remover um conector).
+ */
+export function clearCrmConnectorCache(): void {
+  activeConnectorsCache.clear()
+}
+
+async function queueForConnectors(
+  connectors: CrmConnector[],
+  input: Pick<CrmSyncLog, 'kind'> & Partial<Pick<CrmSyncLog, 'eventType' | 'contactId' | 'phone' | 'payload'>>
+): Promise<void> {
+  await Promise.all(
+    connectors.map(async (connector) => {
+      const log = await crmSyncLogDb.create({ connectorId: connector.id, direction: 'push', ...input })
+      await enqueueCrmSync(log, 0)
+    })
+  )
+}
+
+/**
+ * Envia o contato (criado, alterado ou com opt-out) para os CRMs que sincronizam contatos.
+ * Best-effort: nunca lança (não pode derrubar o fluxo que alterou o contato).
+ */
+export async function queueCrmContactSync(input: {
+  contactId?: string | null
+  phone?: string | null
+  reason: string
+}): Promise<void> {
+  try {
+    if (!isSupabaseConfigured() || (!input.contactId && !input.phone)) return
+
+    const connectors = (await getActiveConnectors()).filter((connector) => connector.syncContacts)
+    if (connectors.length === 0) return
+
+    await queueForConnectors(connectors, {
+      kind: 'contact',
+      contactId: input.contactId ?? null,
+      phone: input.phone ?? null,
+      payload: { reason: input.reason },
+    })
+  } catch (e) {
+    console.warn('[CrmSync] Falha ao enfileirar contato (best-effort):', e)
+  }
+}
+
+/**
+ * Registra um evento do WhatsApp na timeline do contato nos CRMs que o assinam.
+ * Best-effort: nunca lança.
+ */
+export async function queueCrmEvent(
+  eventType: CrmEventType,
+  input: { contactId?: string | null; phone?: string | null; data: Record<string, unknown> }
+): Promise<void> {
+  try {
+    if (!isSupabaseConfigured() || (!input.contactId && !input.phone)) return
+
+    const connectors = (await getActiveConnectors()).filter((connector) => connector.eventTypes.includes(eventType))
+    if (connectors.length === 0) return
+
+    await queueForConnectors(connectors, {
+      kind: 'event',
+      eventType,
+      contactId: input.contactId ?? null,
+      phone: input.phone ?? null,
+      payload: { occurred_at: new Date().toISOString(), ...input.data },
+    })
+  } catch (e) {
+    console.warn(`[CrmSync] Falha ao enfileirar ${eventType} (best-effort):`, e)
+  }
+}
+
+async function resolveContact(log: CrmSyncLog): Promise<Contact | undefined> {
+  if (log.contactId) {
+    const contact = await contactDb.getById(log.contactId)
+    if (contact) return contact
+  }
+  return log.phone ? contactDb.getByPhone(log.phone) : undefined
+}
+
+async function resolveEventData(log: CrmSyncLog): Promise<Record<string, unknown>> {
+  const data = { ...log.payload }
+  if (typeof data.campaign_id === 'string' && !data.campaign_name) {
+    const { data: campaign } = await supabase
+      .from('campaigns')
+      .select('name')
+      .eq('id', data.campaign_id)
+      .maybeSingle()
+    data.campaign_name = campaign?.name ?? null
+  }
+  return data
+}
+
+type SyncOutcome = { status: 'success' | 'skipped'; externalId: string | null; summary: string }
+
+async function pushToCrm(connector: CrmConnector, log: CrmSyncLog): Promise<SyncOutcome> {
+  const contact = await resolveContact(log)
+  if (!contact && log.kind === 'contact') {
+    return { status: 'skipped', externalId: null, summary: 'Contato não encontrado' }
+  }
+
+  const phone = contact?.phone || log.phone || ''
+  const email = contact?.email?.trim() || null
+  if (CRM_PROVIDERS[connector.provider].requiresEmail && !email) {
+    return { status: 'skipped', externalId: null, summary: `${CRM_PROVIDERS[connector.provider].label} exige email` }
+  }
+
+  const suppressions = await getActiveSuppressionsByPhone([phone])
+  const payload = buildCrmContactPayload(
+    {
+      name: contact?.name,
+      email,
+      phone,
+      tags: contact?.tags || [],
+      custom_fields: contact?.custom_fields,
+      optedOut: contact?.status === ContactStatus.OPT_OUT || suppressions.has(phone),
+    },
+    connector
+  )
+
+  const adapter = createCrmAdapter(connector)
+  const knownId = contact ? await crmContactLinkDb.getExternalId(connector.id, contact.id) : null
+  const externalId = await adapter.upsertContact({ externalId: knownId, phone, email, ...payload })
+  if (contact) await crmContactLinkDb.save(connector.id, contact.id, externalId)
+
+  if (log.kind === 'event' && log.eventType) {
+    const data = await resolveEventData(log)
+    const entry = formatCrmTimelineEntry(log.eventType, data)
+    await adapter.addTimelineEntry(externalId, {
+      ...entry,
+      eventType: log.eventType,
+      occurredAt: String(data.occurred_at || log.createdAt),
+      email,
+    })
+    return { status: 'success', externalId, summary: entry.title }
+  }
+
+  const fields = Object.keys(payload.properties).length
+  return {
+    status: 'success',
+    externalId,
+    summary: `${fields} campo(s)${payload.lists.length > 0 ? `, ${payload.lists.length} lista(s)` : ''}`,
+  }
+}
+
+/** 4xx (exceto 408/429) não melhora com retentativa */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof CrmApiError)) return true
+  return error.status >= 500 || error.status === 408 || error.status === 429
+}
+
+export type CrmSyncAttemptResult =
+  | { ok: true; log: CrmSyncLog }
+  | { ok: false; status: 'not_found' | 'ignored'; message: string }
+
+/**
+ * Executa uma tentativa de envio (chamado pelo worker).
+ * Falha temporária com tentativas restantes volta para a fila com backoff.
+ */
+export async function processCrmSyncLog(logId: string): Promise<CrmSyncAttemptResult> {
+  const log = await crmSyncLogDb.getById(logId)
+  if (!log) return { ok: false, status: 'not_found', message: 'Sincronização não encontrada' }
+  if (log.status !== 'pending' || log.direction !== 'push') {
+    return { ok: false, status: 'ignored', message: `Sincronização já finalizada (${log.status})` }
+  }
+
+  const connector = await crmConnectorDb.getById(log.connectorId)
+  if (!connector) return { ok: false, status: 'not_found', message: 'Conector não encontrado' }
+
+  const attempts = log.attempts + 1
+  let outcome: SyncOutcome | null = null
+  let error: string | null = null
+  let retryable = false
+
+  if (!connector.isActive) {
+    error = 'Conector desativado'
+  } else {
+    try {
+      outcome = await pushToCrm(connector, log)
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e)
+      retryable = isRetryable(e)
+    }
+  }
+
+  const delay = error && retryable ? getCrmSyncRetryDelaySeconds(attempts) : null
+  const updated: CrmSyncLog = {
+    ...log,
+    attempts,
+    externalId: outcome?.externalId ?? log.externalId,
+    summary: outcome?.summary ?? null,
+    error,
+    status: outcome ? outcome.status : delay !== null ? 'pending' : 'failed',
+    nextRetryAt: delay !== null ? new Date(Date.now() + delay * 1000).toISOString() : null,
+  }
+
+  await crmSyncLogDb.recordResult(log.id, updated)
+
+  if (delay !== null) {
+    try {
+      await enqueueCrmSync(updated, delay)
+    } catch (e) {
+      console.warn('[CrmSync] Falha ao reagendar sincronização (best-effort):', e)
+    }
+  }
+
+  return { ok: true, log: updated }
+}
+
+/**
+ * Reenvia uma sincronização: cria uma nova linha com tentativas zeradas.
+ */
+export async function retryCrmSyncLog(logId: string): Promise<CrmSyncLog | null> {
+  const original = await crmSyncLogDb.getById(logId)
+  if (!original || original.direction !== 'push') return null
+
+  const log = await crmSyncLogDb.create({
+    connectorId: original.connectorId,
+    direction: 'push',
+    kind: original.kind,
+    eventType: original.eventType,
+    contactId: original.contactId,
+    phone: original.phone,
+    payload: original.payload,
+  })
+  await enqueueCrmSync(log, 0)
+  return log
+}
+
+export type CrmApplyCounts = { created: number; updated: number; skipped: number }
+
+/**
+ * Aplica contatos lidos do CRM: atualiza pelo vínculo/telefone ou cria o contato.
+ * Não enfileira envio de volta (evita pingue-pongue entre os sistemas).
+ */
+export async function applyCrmContactRecords(
+  connector: CrmConnector,
+  records: CrmContactRecord[]
+): Promise<CrmApplyCounts> {
+  const counts: CrmApplyCounts = { created: 0, updated: 0, skipped: 0 }
+
+  for (const record of records) {
+    const phone = record.phone ? normalizePhoneNumber(record.phone) : ''
+    if (!phone) {
+      counts.skipped++
+      continue
+    }
+
+    const update = readCrmContactRecord(record, connector)
+    const linkedId = await crmContactLinkDb.getContactId(connector.id, record.externalId)
+    const existing = (linkedId ? await contactDb.getById(linkedId) : undefined) ?? (await contactDb.getByPhone(phone))
+
+    let contactId: string
+    if (existing) {
+      await contactDb.update(existing.id, {
+        ...(update.name ? { name: update.name } : {}),
+        ...(update.email ? { email: update.email } : {}),
+        ...(Object.keys(update.customFields).length > 0
+          ? { custom_fields: { ...(existing.custom_fields || {}), ...update.customFields } }
+          : {}),
+        ...(update.optedOut ? { status: ContactStatus.OPT_OUT } : {}),
+      })
+      contactId = existing.id
+      counts.updated++
+    } else {
+      const created = await contactDb.add({
+        name: update.name || '',
+        phone,
+        email: update.email ?? record.email ?? null,
+        status: update.optedOut ? ContactStatus.OPT_OUT : ContactStatus.OPT_IN,
+        tags: [],
+        custom_fields: update.customFields,
+      })
+      contactId = created.id
+      counts.created++
+    }
+
+    await crmContactLinkDb.save(connector.id, contactId, record.externalId)
+  }
+
+  return counts
+}
+
+const formatCounts = (counts: CrmApplyCounts) =>
+  `${counts.created} criado(s), ${counts.updated} atualizado(s), ${counts.skipped} sem telefone`
+
+/**
+ * Importa os contatos alterados no CRM desde a última importação.
+ * Quando há mais alterações do que cabem numa rodada, o cursor para no último
+ * registro lido e a próxima importação continua dali.
+ */
+export async function importCrmContacts(connector: CrmConnector): Promise<CrmSyncLog> {
+  const adapter = createCrmAdapter(connector)
+  if (!adapter.listUpdatedContacts) {
+    throw new Error(`${CRM_PROVIDERS[connector.provider].label} não permite importação; use o webhook de entrada`)
+  }
+
+  const startedAt = new Date().toISOString()
+  const log = await crmSyncLogDb.create({
+    connectorId: connector.id,
+    direction: 'pull',
+    kind: 'import',
+    payload: { since: connector.lastImportAt },
+  })
+
+  try {
+    const properties = connector.fieldMappings.map((mapping) => mapping.crmField.trim()).filter(Boolean)
+    if (connector.optOutField) properties.push(connector.optOutField)
+
+    const page = await adapter.listUpdatedContacts(connector.lastImportAt, properties)
+    const counts = await applyCrmContactRecords(connector, page.records)
+    const cursor = page.hasMore ? page.records[page.records.length - 1]?.updatedAt || startedAt : startedAt
+    await crmConnectorDb.update(connector.id, { lastImportAt: cursor })
+
+    const result: CrmSyncLog = {
+      ...log,
+      attempts: 1,
+      status: 'success',
+      summary: `${formatCounts(counts)}${page.hasMore ? ' (continua na próxima importação)' : ''}`,
+      error: null,
+    }
+    await crmSyncLogDb.recordResult(log.id, result)
+    return result
+  } catch (e) {
+    const result: CrmSyncLog = {
+      ...log,
+      attempts: 1,
+      status: 'failed',
+      error: e instanceof Error ? e.message : String(e),
+    }
+    await crmSyncLogDb.recordResult(log.id, result)
+    return result
+  }
+}
+
+/**
+ * Webhook de entrada do CRM: aplica os contatos recebidos e registra no log.
+ */
+export async function handleCrmInboundWebhook(connector: CrmConnector, body: unknown): Promise<CrmSyncLog> {
+  const adapter = createCrmAdapter(connector)
+  const records = adapter.parseInboundWebhook?.(body) ?? []
+
+  const log = await crmSyncLogDb.create({
+    connectorId: connector.id,
+    direction: 'pull',
+    kind: 'contact',
+    phone: records[0]?.phone ?? null,
+    payload: { records: records.length },
+  })
+
+  try {
+    const counts = await applyCrmContactRecords(connector, records)
+    const result: CrmSyncLog = {
+      ...log,
+      attempts: 1,
+      externalId: records[0]?.externalId ?? null,
+      status: records.length > 0 ? 'success' : 'skipped',
+      summary: records.length > 0 ? formatCounts(counts) : 'Nenhum contato no payload',
+      error: null,
+    }
+    await crmSyncLogDb.recordResult(log.id, result)
+    return result
+  } catch (e) {
+    const result: CrmSyncLog = {
+      ...log,
+      attempts: 1,
+      status: 'failed',
+      error: e instanceof Error ? e.message : String(e),
+    }
+    await crmSyncLogDb.recordResult(log.id, result)
+    return result
+  }
+}
+
+export function parseCrmSyncLogFilters(searchParams: URLSearchParams): CrmSyncLogFilters {
+  const status = searchParams.get('status') as CrmSyncLogStatus | null
+  const direction = searchParams.get('direction') as CrmSyncLogDirection | null
+  const limitRaw = Number(searchParams.get('limit'))
+  const offsetRaw = Number(searchParams.get('offset'))
+
+  return {
+    connectorId: searchParams.get('connectorId') || undefined,
+    status: status && LOG_STATUSES.includes(status) ? status : undefined,
+    direction: direction && LOG_DIRECTIONS.includes(direction) ? direction : undefined,
+    limit: Math.max(1, Math.min(200, Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50)),
+    offset: Math.max(0, Number.isFinite(offsetRaw) ? offsetRaw : 0),
+  }
+}
+
+/**
+ * Conector como vai para o navegador (token da API mascarado).
+ */
+export function serializeCrmConnector(connector: CrmConnector): CrmConnector {
+  return { ...connector, apiToken: maskCrmToken(connector.apiToken) }
+}
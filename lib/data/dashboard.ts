@@ -10,7 +10,7 @@ export async function getDashboardStatsServer(): Promise<{ stats: DashboardStats
             // Supabase.from calls getSupabaseAdmin which might throw if keys are missing
             (async () => {
                 try {
-                   return await supabase.from('campaigns').select('sent, delivered, read, failed, status')
+                   return await supabase.from('campaigns').select('sent, delivered, read, failed, clicks, tracked_links, status')
                 } catch (e) {
                    if (e instanceof Error && e.message.includes('Supabase not configured')) {
                        return { data: [], error: null }
@@ -39,6 +39,7 @@ export async function getDashboardStatsServer(): Promise<{ stats: DashboardStats
                 deliveryRate: '0%',
                 activeCampaigns: '0',
                 failedMessages: '0',
+                clickThroughRate: '0%',
                 chartData: []
             },
             recentCampaigns: []
@@ -49,6 +50,8 @@ export async function getDashboardStatsServer(): Promise<{ stats: DashboardStats
     let totalDelivered = 0
     // let totalRead = 0 // Unused in summary but used in chart
     let totalFailed = 0
+    let totalClicks = 0
+    let trackedDelivered = 0
     let activeCampaignsCount = 0
 
         ; (data || []).forEach(row => {
@@ -56,6 +59,10 @@ export async function getDashboardStatsServer(): Promise<{ stats: DashboardStats
             totalDelivered += row.delivered || 0
             // totalRead += row.read || 0
             totalFailed += row.failed || 0
+            if (Array.isArray(row.tracked_links) && row.tracked_links.length > 0) {
+                totalClicks += row.clicks || 0
+                trackedDelivered += row.delivered || 0
+            }
             if (row.status === 'Enviando' || row.status === 'Agendado') {
                 activeCampaignsCount++
             }
@@ -64,6 +71,9 @@ export async function getDashboardStatsServer(): Promise<{ stats: DashboardStats
     const deliveryRate = totalSent > 0
         ? Math.round((totalDelivered / totalSent) * 100)
         : 0
+    const clickThroughRate = trackedDelivered > 0
+        ? Math.round((totalClicks / trackedDelivered) * 100)
+        : 0
 
     const campaigns = campaignsResult.data || []
 
@@ -86,6 +96,7 @@ export async function getDashboardStatsServer(): Promise<{ stats: DashboardStats
             deliveryRate: `${deliveryRate}%`,
             activeCampaigns: activeCampaignsCount.toString(),
             failedMessages: totalFailed.toString(),
+            clickThroughRate: `${clickThroughRate}%`,
             chartData
         },
         recentCampaigns
@@ -99,6 +110,7 @@ export async function getDashboardStatsServer(): Promise<{ stats: DashboardStats
                 deliveryRate: '0%',
                 activeCampaigns: '0',
                 failedMessages: '0',
+                clickThroughRate: '0%',
                 chartData: []
             },
             recentCampaigns: []
@@ -0,0 +1,228 @@
+/**
+ * Inbound Webhooks
+ * Gatilho genérico: plataformas externas (Hotmart, Kiwify, lojas) enviam JSON para
+ * /api/webhook/inbound/[id]?token=..., que vira contato + ação configurada.
+ *
+ * - O mapeamento usa caminhos JSON ($.buyer.phone) definidos no endpoint
+ * - A condição opcional filtra o evento (ex.: $.event = PURCHASE_APPROVED)
+ * - Toda chamada fica em inbound_webhook_events (inspetor dos últimos payloads)
+ */
+
+import { randomBytes } from 'crypto'
+import { Client as WorkflowClient } from '@upstash/workflow'
+import { contactDb, inboundWebhookDb, inboundWebhookEventDb, templateDb } from '@/lib/supabase-db'
+import { getSupabaseAdmin } from '@/lib/supabase'
+import { processPhoneNumber } from '@/lib/phone-formatter'
+import { getActiveSuppressionsByPhone } from '@/lib/phone-suppressions'
+import { precheckContactForTemplate } from '@/lib/whatsapp/template-contract'
+import { sendTemplateMessage } from '@/lib/whatsapp-send'
+import { emitWebhookEvent } from '@/lib/outbound-webhooks'
+import { queueCrmContactSync } from '@/lib/crm/crm-sync'
+import { fetchWorkflowRecord } from '@/lib/builder/workflow-db'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
+import { getAppBaseUrl } from '@/lib/campaign-ab-test'
+import {
+  INBOUND_WEBHOOK_EVENTS_KEPT,
+  mapInboundPayload,
+  matchesInboundCondition,
+  resolveInboundTemplateVariables,
+} from '@/lib/business/webhooks'
+import { ContactStatus } from '@/types'
+import type { Contact, InboundWebhook, InboundWebhookEvent, InboundWebhookEventStatus } from '@/types'
+
+type ActionOutcome = {
+  status: InboundWebhookEventStatus
+  summary?: string
+  error?: string
+}
+
+export function generateInboundWebhookToken(): string {
+  return `iwh_${randomBytes(24).toString('base64url')}`
+}
+
+async function sendTemplateAction(
+  webhook: InboundWebhook,
+  contact: Contact,
+  payload: unknown
+): Promise<ActionOutcome> {
+  const suppressions = await getActiveSuppressionsByPhone([contact.phone])
+  if (contact.status === ContactStatus.OPT_OUT || suppressions.has(contact.phone)) {
+    return { status: 'ignored', summary: 'Contato com opt-out: template não enviado' }
+  }
+
+  const template = webhook.templateName ? await templateDb.getByName(webhook.templateName) : undefined
+  if (!template) {
+    return { status: 'failed', error: `Template "${webhook.templateName || ''}" não encontrado` }
+  }
+  if (template.status !== 'APPROVED') {
+    return { status: 'failed', error: `Template "${template.name}" não está aprovado (${template.status})` }
+  }
+
+  const variables = resolveInboundTemplateVariables(webhook.templateVariables, payload)
+  const precheck = precheckContactForTemplate(
+    {
+      phone: contact.phone,
+      name: contact.name,
+      email: contact.email,
+      custom_fields: contact.custom_fields,
+      contactId: contact.id,
+    },
+    template,
+    variables as any
+  )
+  if (!precheck.ok) {
+    return { status: 'failed', error: precheck.reason }
+  }
+
+  const result = await sendTemplateMessage({
+    to: precheck.normalizedPhone,
+    template,
+    values: precheck.values,
+  })
+  if (!result.success) {
+    return { status: 'failed', error: result.error || 'Falha ao enviar template' }
+  }
+
+  return { status: 'processed', summary: `Template "${template.name}" enviado (${result.messageId || 'sem ID'})` }
+}
+
+async function startWorkflowAction(
+  webhook: InboundWebhook,
+  contact: Contact,
+  payload: unknown
+): Promise<ActionOutcome> {
+  const supabaseAdmin = getSupabaseAdmin()
+  if (!supabaseAdmin) {
+    return { status: 'failed', error: 'Supabase não configurado' }
+  }
+  if (!process.env.QSTASH_TOKEN) {
+    return { status: 'failed', error: 'QSTASH_TOKEN não configurado' }
+  }
+
+  const workflowId = webhook.workflowId || ''
+  const record = workflowId ? await fetchWorkflowRecord(supabaseAdmin, workflowId) : null
+  if (!record) {
+    return { status: 'failed', error: 'Workflow não encontrado ou sem versão publicada' }
+  }
+
+  // Workspace do endpoint + bypass de proteção Vercel se necessário
+  const headers: Record<string, string> = await getWorkspaceHeaders()
+  const bypassSecret = process.env.VERCEL_AUTOMATION_BYPASS_SECRET
+  if (bypassSecret) {
+    headers['x-vercel-protection-bypass'] = bypassSecret
+  }
+
+  const workflowClient = new WorkflowClient({ token: process.env.QSTASH_TOKEN })
+  await workflowClient.trigger({
+    url: `${getAppBaseUrl()}/api/builder/workflow/${workflowId}/execute`,
+    body: {
+      workflowId,
+      input: {
+        from: contact.phone,
+        to: contact.phone,
+        contactId: contact.id,
+        name: contact.name || '',
+        webhook: payload,
+      },
+    },
+    headers,
+  })
+
+  return { status: 'processed', summary: `Workflow "${record.workflow.name || workflowId}" iniciado` }
+}
+
+/**
+ * Processa um payload recebido e registra o resultado no inspetor.
+ * Nunca lança: erros viram um evento com status failed.
+ */
+export async function processInboundWebhook(
+  webhook: InboundWebhook,
+  payload: unknown
+): Promise<InboundWebhookEvent> {
+  let outcome: ActionOutcome
+  let contactId: string | null = null
+  let phone: string | null = null
+
+  try {
+    if (!webhook.isActive) {
+      outcome = { status: 'ignored', summary: 'Endpoint desativado: payload guardado só para o inspetor' }
+    } else if (!matchesInboundCondition(payload, webhook.conditionPath, webhook.conditionValue)) {
+      outcome = { status: 'ignored', summary: `Condição não atendida (${webhook.conditionPath})` }
+    } else {
+      const data = mapInboundPayload(payload, webhook.fieldMapping)
+      const { normalized, validation } = processPhoneNumber(data.phone || '')
+      phone = data.phone ? normalized : null
+
+      if (!data.phone || !validation.isValid) {
+        outcome = {
+          status: 'failed',
+          error: data.phone
+            ? `Telefone inválido em ${webhook.fieldMapping.phone}: ${validation.error || data.phone}`
+            : `Telefone não encontrado em ${webhook.fieldMapping.phone || '(caminho não configurado)'}`,
+        }
+      } else {
+        const existing = await contactDb.getByPhone(normalized)
+        const contact = await contactDb.upsertMergeTagsByPhone(
+          {
+            name: data.name || undefined,
+            phone: normalized,
+            email: data.email ?? undefined,
+            status: existing?.status ?? ContactStatus.OPT_IN,
+            tags: [],
+            custom_fields: data.customFields,
+          },
+          webhook.tags
+        )
+        contactId = contact.id
+
+        if (!existing) {
+          await emitWebhookEvent('contact.created', {
+            contact_id: contact.id,
+            name: contact.name || null,
+            phone: contact.phone,
+            email: contact.email ?? null,
+            tags: contact.tags || [],
+            source: 'inbound_webhook',
+          })
+        }
+        await queueCrmContactSync({ contactId: contact.id, reason: existing ? 'updated' : 'created' })
+
+        const contactSummary = [
+          existing ? 'Contato atualizado' : 'Contato criado',
+          webhook.tags.length > 0 ? `tags: ${webhook.tags.join(', ')}` : null,
+        ].filter(Boolean).join('; ')
+
+        if (webhook.action === 'send_template') {
+          const result = await sendTemplateAction(webhook, contact, payload)
+          outcome = { ...result, summary: [contactSummary, result.summary].filter(Boolean).join('. ') }
+        } else if (webhook.action === 'start_workflow') {
+          const result = await startWorkflowAction(webhook, contact, payload)
+          outcome = { ...result, summary: [contactSummary, result.summary].filter(Boolean).join('. ') }
+        } else {
+          outcome = { status: 'processed', summary: contactSummary }
+        }
+      }
+    }
+  } catch (e) {
+    outcome = { status: 'failed', error: e instanceof Error ? e.message : String(e) }
+  }
+
+  const event = await inboundWebhookEventDb.create({
+    webhookId: webhook.id,
+    payload,
+    status: outcome.status,
+    contactId,
+    phone,
+    summary: outcome.summary ?? null,
+    error: outcome.error ?? null,
+  })
+
+  try {
+    await inboundWebhookDb.update(webhook.id, { lastReceivedAt: event.createdAt })
+    await inboundWebhookEventDb.prune(webhook.id, INBOUND_WEBHOOK_EVENTS_KEPT)
+  } catch (e) {
+    console.warn('[InboundWebhook] Falha ao atualizar histórico (best-effort):', e)
+  }
+
+  return event
+}
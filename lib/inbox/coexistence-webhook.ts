@@ -14,6 +14,7 @@ import { getSupabaseAdmin } from '@/lib/supabase'
 import { normalizePhoneNumber } from '@/lib/phone-formatter'
 import { inboxDb } from './inbox-db'
 import { settingsDb } from '@/lib/supabase-db'
+import { parseInboundStructuredContent, summarizeStructuredContent } from '@/lib/business/inbox'
 import type { InboxConversation } from '@/types'
 import type { MessageDirection, DeliveryStatus, InboxMessageType } from '@/types'
 
@@ -60,7 +61,11 @@ export async function handleSmbMessageEchoes(
         message_type: mapMessageType(echo.type),
         whatsapp_message_id: echo.id,
         delivery_status: 'sent' as DeliveryStatus,
-        payload: { source: 'whatsapp_business_app', raw_type: echo.type },
+        payload: {
+          source: 'whatsapp_business_app',
+          raw_type: echo.type,
+          ...parseInboundStructuredContent(echo as unknown as Record<string, unknown>),
+        },
       })
 
       // Atualizar last_message_at da conversa
@@ -242,6 +247,7 @@ export async function handleHistorySync(
               source: 'history_sync',
               phase,
               raw_type: msg.type,
+              ...parseInboundStructuredContent(msg as unknown as Record<string, unknown>),
             },
             created_at: new Date(parseInt(msg.timestamp) * 1000).toISOString(),
           })
@@ -337,24 +343,13 @@ function extractMessageContent(msg: Record<string, unknown>): string {
     const doc = msg.document as { filename?: string; caption?: string }
     return doc.caption || doc.filename || '[Documento]'
   }
-  if (type === 'sticker') {
-    return '[Figurinha]'
-  }
-  if (type === 'location') {
-    return '[Localização]'
-  }
-  if (type === 'contacts') {
-    return '[Contato]'
+  if (type === 'sticker' || type === 'location' || type === 'contacts' || type === 'reaction') {
+    return summarizeStructuredContent(type, parseInboundStructuredContent(msg)) || `[${type}]`
   }
   if (type === 'interactive') {
     const interactive = msg.interactive as { body?: { text?: string } } | undefined
     return interactive?.body?.text || '[Interativo]'
   }
-  if (type === 'reaction') {
-    const reaction = msg.reaction as { emoji?: string } | undefined
-    return reaction?.emoji || '[Reação]'
-  }
-
   return `[${type}]`
 }
 
@@ -368,6 +363,10 @@ function mapMessageType(waType: string): InboxMessageType {
     document: 'document',
     interactive: 'interactive',
     template: 'template',
+    location: 'location',
+    contacts: 'contacts',
+    sticker: 'sticker',
+    reaction: 'reaction',
   }
   return typeMap[waType] || 'text'
 }
@@ -0,0 +1,39 @@
+/**
+ * Inbox Access
+ * Papéis sem `inbox:view_all` (ex.: atendente) só acessam conversas atribuídas a eles.
+ * Chaves de API e a MASTER_PASSWORD não têm restrição.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { getRequestUser } from '@/lib/request-auth'
+import { hasPermission } from '@/lib/business/access'
+
+/**
+ * Usuário cujas conversas devem ser listadas (undefined = todas)
+ */
+export async function getAssignedUserScope(request: NextRequest): Promise<string | undefined> {
+  const user = await getRequestUser(request)
+  if (!user?.id || hasPermission(user.role, 'inbox:view_all')) return undefined
+  return user.id
+}
+
+/**
+ * 404 quando a conversa não está atribuída ao usuário da requisição
+ */
+export async function requireConversationAccess(
+  request: NextRequest,
+  conversationId: string
+): Promise<NextResponse | null> {
+  const assignedUserId = await getAssignedUserScope(request)
+  if (!assignedUserId) return null
+
+  const { data } = await supabase
+    .from('inbox_conversations')
+    .select('assigned_user_id')
+    .eq('id', conversationId)
+    .maybeSingle()
+
+  if (data?.assigned_user_id === assignedUserId) return null
+  return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest'
+
+const rpc = vi.fn()
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: () => ({ rpc }),
+  supabase: {},
+}))
+vi.mock('@/lib/audit', () => ({ recordAuditEvent: vi.fn() }))
+vi.mock('@/lib/push-notifications', () => ({ sendAssignmentNotification: vi.fn() }))
+vi.mock('@/lib/outbound-webhooks', () => ({ emitWebhookEvent: vi.fn() }))
+
+// Só as leituras são mockadas: assignConversationFromQueue chama a RPC de verdade
+vi.mock('./inbox-db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./inbox-db')>()),
+  getConversationById: vi.fn(),
+  getQueueById: vi.fn(),
+  getDefaultQueue: vi.fn(),
+}))
+
+import { autoAssignConversation } from './inbox-assignment'
+import { getConversationById, getDefaultQueue, getQueueById } from './inbox-db'
+import { recordAuditEvent } from '@/lib/audit'
+import { sendAssignmentNotification } from '@/lib/push-notifications'
+import type { InboxConversation, InboxQueue } from '@/types'
+
+const mockGetConversationById = getConversationById as Mock
+const mockGetQueueById = getQueueById as Mock
+const mockGetDefaultQueue = getDefaultQueue as Mock
+const mockRecordAuditEvent = recordAuditEvent as Mock
+const mockSendAssignmentNotification = sendAssignmentNotification as Mock
+
+const queue = {
+  id: 'queue_suporte',
+  name: 'Suporte',
+  strategy: 'round_robin',
+  member_user_ids: ['usr_a', 'usr_b'],
+  is_default: false,
+  last_assigned_user_id: 'usr_a',
+} as InboxQueue
+
+function conversation(overrides: Partial<InboxConversation> = {}): InboxConversation {
+  return {
+    id: 'conv_1',
+    phone: '+5511999999999',
+    assigned_user_id: null,
+    queue_id: null,
+    contact: { name: 'Maria' },
+    ...overrides,
+  } as InboxConversation
+}
+
+describe('autoAssignConversation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockGetDefaultQueue.mockResolvedValue({ ...queue, id: 'queue_padrao', is_default: true })
+    mockGetQueueById.mockResolvedValue(queue)
+  })
+
+  it('atribui pela RPC da fila da conversa e avisa o responsável', async () => {
+    mockGetConversationById.mockResolvedValue(conversation({ queue_id: 'queue_suporte' }))
+    rpc.mockResolvedValue({ data: 'usr_b', error: null })
+
+    const userId = await autoAssignConversation('conv_1')
+
+    expect(userId).toBe('usr_b')
+    expect(rpc).toHaveBeenCalledWith('assign_conversation_from_queue', {
+      p_conversation_id: 'conv_1',
+      p_queue_id: 'queue_suporte',
+    })
+    expect(mockSendAssignmentNotification).toHaveBeenCalledWith('usr_b', 'Maria', 'conv_1')
+    expect(mockRecordAuditEvent).toHaveBeenCalledWith(
+      null,
+      expect.objectContaining({
+        action: 'conversation.assign',
+        after: { assigned_user_id: 'usr_b' },
+        metadata: expect.objectContaining({ queueId: 'queue_suporte', strategy: 'round_robin' }),
+      }),
+      expect.anything()
+    )
+  })
+
+  it('usa a fila padrão quando a conversa não tem fila', async () => {
+    mockGetConversationById.mockResolvedValue(conversation())
+    rpc.mockResolvedValue({ data: 'usr_a', error: null })
+
+    await autoAssignConversation('conv_1')
+
+    expect(mockGetQueueById).not.toHaveBeenCalled()
+    expect(rpc).toHaveBeenCalledWith('assign_conversation_from_queue', {
+      p_conversation_id: 'conv_1',
+      p_queue_id: 'queue_padrao',
+    })
+  })
+
+  it('mantém o responsável atual sem chamar a RPC', async () => {
+    mockGetConversationById.mockResolvedValue(conversation({ assigned_user_id: 'usr_x' }))
+
+    expect(await autoAssignConversation('conv_1')).toBe('usr_x')
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('sem fila, não atribui', async () => {
+    mockGetConversationById.mockResolvedValue(conversation())
+    mockGetDefaultQueue.mockResolvedValue(null)
+
+    expect(await autoAssignConversation('conv_1')).toBeNull()
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('quando outra requisição atribuiu antes, devolve o responsável dela sem avisar nem auditar', async () => {
+    mockGetConversationById
+      .mockResolvedValueOnce(conversation())
+      .mockResolvedValueOnce(conversation({ assigned_user_id: 'usr_a' }))
+    rpc.mockResolvedValue({ data: null, error: null })
+
+    expect(await autoAssignConversation('conv_1')).toBe('usr_a')
+    expect(mockSendAssignmentNotification).not.toHaveBeenCalled()
+    expect(mockRecordAuditEvent).not.toHaveBeenCalled()
+  })
+
+  it('erro na RPC não interrompe o handoff', async () => {
+    mockGetConversationById.mockResolvedValue(conversation())
+    rpc.mockResolvedValue({ data: null, error: { message: 'deadlock detected' } })
+
+    expect(await autoAssignConversation('conv_1')).toBeNull()
+    expect(mockSendAssignmentNotification).not.toHaveBeenCalled()
+  })
+})
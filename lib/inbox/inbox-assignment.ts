@@ -0,0 +1,131 @@
+/**
+ * Inbox Assignment
+ * Atribuição de conversas a usuários e distribuição automática pelas filas
+ * (rodízio ou menos ocupado) quando a conversa é transferida para humano.
+ */
+
+import { recordAuditEvent } from '@/lib/audit'
+import { sendAssignmentNotification } from '@/lib/push-notifications'
+import { emitWebhookEvent } from '@/lib/outbound-webhooks'
+import {
+  getConversationById,
+  updateConversation,
+  getQueueById,
+  getDefaultQueue,
+  assignConversationFromQueue,
+} from './inbox-db'
+import type { InboxConversation } from '@/types'
+
+export interface AssignConversationOptions {
+  /** Notifica o novo responsável via push (default: true) */
+  notify?: boolean
+}
+
+/**
+ * Atribui (ou remove, com null) o responsável da conversa.
+ * O novo responsável é avisado por push (best-effort).
+ */
+export async function assignConversation(
+  conversationId: string,
+  userId: string | null,
+  options: AssignConversationOptions = {}
+): Promise<InboxConversation> {
+  const conversation = await updateConversation(conversationId, {
+    assigned_user_id: userId,
+    assigned_at: userId ? new Date().toISOString() : null,
+  })
+
+  if (userId && options.notify !== false) {
+    await notifyAssignee(conversation, userId)
+  }
+
+  return conversation
+}
+
+async function notifyAssignee(conversation: InboxConversation, userId: string): Promise<void> {
+  try {
+    await sendAssignmentNotification(
+      userId,
+      conversation.contact?.name || conversation.phone,
+      conversation.id
+    )
+  } catch (error) {
+    console.warn('[Inbox] Falha ao notificar atribuição (best-effort):', error)
+  }
+}
+
+/**
+ * Distribui a conversa pela fila dela (ou pela fila padrão do workspace).
+ * A escolha do membro e a atribuição rodam numa única transação no banco
+ * (assign_conversation_from_queue), então handoffs simultâneos não quebram o
+ * rodízio nem sobrescrevem um responsável. Conversas que já têm responsável
+ * são mantidas. Best-effort: retorna o usuário atribuído ou null, sem
+ * interromper o handoff.
+ */
+export async function autoAssignConversation(conversationId: string): Promise<string | null> {
+  try {
+    const conversation = await getConversationById(conversationId)
+    if (!conversation) return null
+    if (conversation.assigned_user_id) return conversation.assigned_user_id
+
+    const queue = conversation.queue_id
+      ? await getQueueById(conversation.queue_id)
+      : await getDefaultQueue()
+    if (!queue) return null
+
+    const userId = await assignConversationFromQueue(conversationId, queue.id)
+    if (!userId) {
+      // Fila sem membros ativos, ou outra requisição atribuiu a conversa nesse meio-tempo
+      const current = await getConversationById(conversationId)
+      return current?.assigned_user_id ?? null
+    }
+
+    await notifyAssignee(conversation, userId)
+
+    await recordAuditEvent(
+      null,
+      {
+        action: 'conversation.assign',
+        entityType: 'conversation',
+        entityId: conversationId,
+        metadata: { queueId: queue.id, queueName: queue.name, strategy: queue.strategy, trigger: 'handoff' },
+        before: { assigned_user_id: null },
+        after: { assigned_user_id: userId },
+      },
+      { type: 'system', label: 'Distribuição automática' }
+    )
+
+    return userId
+  } catch (error) {
+    console.warn('[Inbox] Falha na atribuição automática (best-effort):', error)
+    return null
+  }
+}
+
+export type HandoffSource = 'ai' | 'ai_fallback' | 'manual' | 'workflow'
+
+/**
+ * Conclusão do handoff (conversa já em modo humano): distribui pela fila e
+ * publica conversation.handoff nos webhooks de saída.
+ */
+export async function completeHandoff(
+  conversationId: string,
+  details: { source: HandoffSource; reason?: string | null; summary?: string | null }
+): Promise<string | null> {
+  const assignedUserId = await autoAssignConversation(conversationId)
+  const conversation = await getConversationById(conversationId).catch(() => null)
+
+  await emitWebhookEvent('conversation.handoff', {
+    conversation_id: conversationId,
+    contact_id: conversation?.contact_id ?? null,
+    phone: conversation?.phone ?? null,
+    priority: conversation?.priority ?? null,
+    queue_id: conversation?.queue_id ?? null,
+    assigned_user_id: assignedUserId,
+    source: details.source,
+    reason: details.reason ?? null,
+    summary: details.summary ?? null,
+  })
+
+  return assignedUserId
+}
@@ -8,6 +8,8 @@
  */
 
 import { getSupabaseAdmin } from '@/lib/supabase'
+import { getCurrentWorkspaceId } from '@/lib/workspace-context'
+import { INBOX_SEARCH_MAX_RESULTS, parseSearchHeadline } from '@/lib/business/inbox'
 import type {
   InboxConversation,
   InboxMessage,
@@ -18,9 +20,16 @@ import type {
   CreateInboxMessageDTO,
   CreateInboxLabelDTO,
   CreateInboxQuickReplyDTO,
+  InboxQueue,
+  CreateInboxQueueDTO,
+  UpdateInboxQueueDTO,
   ConversationStatus,
   ConversationMode,
   DeliveryStatus,
+  InboxSearchMatchSource,
+  InboxSearchResult,
+  InboxScheduledItem,
+  CreateInboxScheduledItemDTO,
 } from '@/types'
 
 /**
@@ -44,10 +53,19 @@ export interface ConversationFilters {
   mode?: ConversationMode
   labelId?: string
   search?: string
+  /** Restringe às conversas atribuídas ao usuário (papéis sem inbox:view_all ou filtro "minhas") */
+  assignedUserId?: string
+  /** Apenas conversas sem responsável */
+  unassigned?: boolean
+  queueId?: string
+  /** recent (padrão): última mensagem; sla: prazo de SLA mais próximo (atrasadas primeiro) */
+  sort?: ConversationSort
   page?: number
   limit?: number
 }
 
+export type ConversationSort = 'recent' | 'sla'
+
 export interface PaginatedConversations {
   conversations: InboxConversation[]
   total: number
@@ -55,6 +73,33 @@ export interface PaginatedConversations {
   totalPages: number
 }
 
+/** Conversas consideradas na busca por texto de mensagem */
+const MESSAGE_SEARCH_LIMIT = 200
+
+/**
+ * Conversation IDs with messages matching the text (conteúdo ou texto extraído da mídia).
+ * Usa o índice de busca textual (search_vector, stemming em português).
+ */
+async function findConversationIdsByMessageText(search: string): Promise<string[]> {
+  const supabase = getClient()
+
+  // inbox_messages não tem workspace_id: filtra pelo workspace da conversa
+  const { data, error } = await supabase
+    .from('inbox_messages')
+    .select('conversation_id, inbox_conversations!inner(workspace_id)')
+    .eq('inbox_conversations.workspace_id', await getCurrentWorkspaceId())
+    .textSearch('search_vector', search, { config: 'portuguese', type: 'websearch' })
+    .order('created_at', { ascending: false })
+    .limit(MESSAGE_SEARCH_LIMIT)
+
+  if (error) {
+    console.warn('[inbox-db] Message text search failed:', error.message)
+    return []
+  }
+
+  return Array.from(new Set((data || []).map((row: any) => String(row.conversation_id))))
+}
+
 /**
  * Get all conversations with optional filters and pagination
  */
@@ -62,7 +107,7 @@ export async function getConversations(
   filters: ConversationFilters = {}
 ): Promise<PaginatedConversations> {
   const supabase = getClient()
-  const { status, mode, labelId, search, page = 1, limit = 20 } = filters
+  const { status, mode, labelId, search, assignedUserId, unassigned, queueId, sort = 'recent', page = 1, limit = 20 } = filters
 
   let query = supabase
     .from('inbox_conversations')
@@ -74,7 +119,11 @@ export async function getConversations(
       ),
       ai_agent:ai_agents(id, name, is_active)
     `, { count: 'exact' })
-    .order('last_message_at', { ascending: false, nullsFirst: false })
+
+  if (sort === 'sla') {
+    query = query.order('sla_next_due_at', { ascending: true, nullsFirst: false })
+  }
+  query = query.order('last_message_at', { ascending: false, nullsFirst: false })
 
   // Apply filters
   if (status) {
@@ -83,8 +132,20 @@ export async function getConversations(
   if (mode) {
     query = query.eq('mode', mode)
   }
+  if (assignedUserId) {
+    query = query.eq('assigned_user_id', assignedUserId)
+  }
+  if (unassigned) {
+    query = query.is('assigned_user_id', null)
+  }
+  if (queueId) {
+    query = query.eq('queue_id', queueId)
+  }
   if (search) {
-    query = query.or(`phone.ilike.%${search}%,contact.name.ilike.%${search}%`)
+    // Também encontra conversas pelo texto das mensagens e das mídias (transcrições)
+    const matchedIds = await findConversationIdsByMessageText(search)
+    const idFilter = matchedIds.length > 0 ? `,id.in.(${matchedIds.join(',')})` : ''
+    query = query.or(`phone.ilike.%${search}%,contact.name.ilike.%${search}%${idFilter}`)
   }
 
   // Pagination
@@ -120,6 +181,50 @@ export async function getConversations(
   }
 }
 
+export interface InboxSearchFilters {
+  query: string
+  limit?: number
+  offset?: number
+  /** Restringe às conversas atribuídas ao usuário (atendentes) */
+  assignedUserId?: string
+}
+
+/**
+ * Full-text search over messages, media text, handoff summaries and contacts
+ * (RPC search_inbox, ranked by relevance)
+ */
+export async function searchInbox(filters: InboxSearchFilters): Promise<InboxSearchResult> {
+  const supabase = getClient()
+  const { query, limit = 20, offset = 0, assignedUserId } = filters
+
+  const { data, error } = await supabase.rpc('search_inbox', {
+    p_query: query,
+    p_limit: Math.min(Math.max(limit, 1), INBOX_SEARCH_MAX_RESULTS),
+    p_offset: Math.max(offset, 0),
+    p_assigned_user_id: assignedUserId ?? null,
+  })
+
+  if (error) {
+    throw new Error(`Failed to search inbox: ${error.message}`)
+  }
+
+  const rows = (data || []) as any[]
+  return {
+    query,
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    results: rows.map((row) => ({
+      conversation_id: String(row.conversation_id),
+      message_id: row.message_id ? String(row.message_id) : null,
+      source: row.source as InboxSearchMatchSource,
+      ...parseSearchHeadline(row.headline),
+      rank: Number(row.rank) || 0,
+      matched_at: row.matched_at,
+      phone: row.phone,
+      contact_name: row.contact_name ?? null,
+    })),
+  }
+}
+
 /**
  * Get a single conversation by ID
  */
@@ -201,16 +306,17 @@ export async function findConversationByPhone(
  * @returns Conversa com campos essenciais ou null se não encontrada
  */
 export async function findConversationByPhoneLightweight(
-  phone: string
+  phone: string,
+  phoneNumberId?: string | null
 ): Promise<Pick<
   InboxConversation,
-  'id' | 'phone' | 'status' | 'mode' | 'ai_agent_id' | 'contact_id' |
+  'id' | 'phone' | 'status' | 'mode' | 'ai_agent_id' | 'contact_id' | 'phone_number_id' |
   'human_mode_expires_at' | 'automation_paused_until' | 'total_messages' | 'unread_count'
 > | null> {
   const supabase = getClient()
 
   // Query direta sem JOINs - usa índice idx_inbox_conversations_phone_status
-  const { data, error } = await supabase
+  let query = supabase
     .from('inbox_conversations')
     .select(`
       id,
@@ -219,22 +325,29 @@ export async function findConversationByPhoneLightweight(
       mode,
       ai_agent_id,
       contact_id,
+      phone_number_id,
       human_mode_expires_at,
       automation_paused_until,
       total_messages,
       unread_count
     `)
     .eq('phone', phone)
+
+  // Mesmo contato em outro número é outra conversa (legadas sem número são adotadas)
+  if (phoneNumberId) {
+    query = query.or(`phone_number_id.is.null,phone_number_id.eq.${phoneNumberId}`)
+  }
+
+  const { data, error } = await query
     .order('last_message_at', { ascending: false, nullsFirst: false })
-    .limit(1)
-    .single()
+    .limit(5)
 
   if (error) {
-    if (error.code === 'PGRST116') return null // Not found
     throw new Error(`Failed to find conversation: ${error.message}`)
   }
 
-  return data
+  const rows = data || []
+  return rows.find((row) => phoneNumberId && row.phone_number_id === phoneNumberId) ?? rows[0] ?? null
 }
 
 /**
@@ -243,24 +356,39 @@ export async function findConversationByPhoneLightweight(
 export async function getOrCreateConversation(
   phone: string,
   contactId?: string,
-  aiAgentId?: string
+  aiAgentId?: string,
+  phoneNumberId?: string | null
 ): Promise<InboxConversation> {
   const supabase = getClient()
 
-  // Try to find existing open conversation
-  const { data: existing } = await supabase
+  // Try to find existing open conversation (no mesmo número, quando informado)
+  let existingQuery = supabase
     .from('inbox_conversations')
     .select('*')
     .eq('phone', phone)
     .eq('status', 'open')
-    .single()
+
+  if (phoneNumberId) {
+    existingQuery = existingQuery.or(`phone_number_id.is.null,phone_number_id.eq.${phoneNumberId}`)
+  }
+
+  const { data: existing } = await existingQuery.limit(1).maybeSingle()
 
   if (existing) {
     return existing as InboxConversation
   }
 
-  // Get default AI agent if not provided
+  // Agente vinculado ao número, depois o agente padrão
   let agentId = aiAgentId
+  if (!agentId && phoneNumberId) {
+    const { data: number } = await supabase
+      .from('whatsapp_phone_numbers')
+      .select('ai_agent_id')
+      .eq('phone_number_id', phoneNumberId)
+      .maybeSingle()
+
+    agentId = number?.ai_agent_id ?? undefined
+  }
   if (!agentId) {
     const { data: defaultAgent } = await supabase
       .from('ai_agents')
@@ -283,6 +411,7 @@ export async function getOrCreateConversation(
       phone,
       contact_id: contactId,
       ai_agent_id: agentId,
+      phone_number_id: phoneNumberId ?? null,
       status: 'open',
       mode,
     })
@@ -302,7 +431,7 @@ export async function getOrCreateConversation(
 export async function createConversation(
   dto: CreateInboxConversationDTO
 ): Promise<InboxConversation> {
-  return getOrCreateConversation(dto.phone, dto.contact_id, dto.ai_agent_id)
+  return getOrCreateConversation(dto.phone, dto.contact_id, dto.ai_agent_id, dto.phone_number_id)
 }
 
 /**
@@ -522,6 +651,28 @@ export async function updateMessageWithAIAnalysis(
   }
 }
 
+/**
+ * Merge keys into the message payload (preserva o restante do JSON)
+ */
+export async function mergeMessagePayload(
+  messageId: string,
+  patch: Record<string, unknown>
+): Promise<void> {
+  const supabase = getClient()
+
+  const current = await getMessageById(messageId)
+  if (!current) return
+
+  const { error } = await supabase
+    .from('inbox_messages')
+    .update({ payload: { ...(current.payload || {}), ...patch } })
+    .eq('id', messageId)
+
+  if (error) {
+    throw new Error(`Failed to update message payload: ${error.message}`)
+  }
+}
+
 // =============================================================================
 // T016: Conversation Counter Functions (ATOMIC via RPC)
 // =============================================================================
@@ -860,6 +1011,367 @@ export async function deleteQuickReply(id: string): Promise<void> {
   }
 }
 
+// =============================================================================
+// Queues (filas de atendimento)
+// =============================================================================
+
+/**
+ * Get all queues
+ */
+export async function getQueues(): Promise<InboxQueue[]> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_queues')
+    .select('*')
+    .order('name')
+
+  if (error) {
+    throw new Error(`Failed to fetch queues: ${error.message}`)
+  }
+
+  return (data || []) as InboxQueue[]
+}
+
+/**
+ * Get a queue by ID
+ */
+export async function getQueueById(id: string): Promise<InboxQueue | null> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_queues')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch queue: ${error.message}`)
+  }
+
+  return data as InboxQueue | null
+}
+
+/**
+ * Get the default queue of the workspace (used when the conversation has no queue)
+ */
+export async function getDefaultQueue(): Promise<InboxQueue | null> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_queues')
+    .select('*')
+    .eq('is_default', true)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch default queue: ${error.message}`)
+  }
+
+  return data as InboxQueue | null
+}
+
+/**
+ * Only one default queue per workspace: unset the current one before setting another
+ */
+async function clearDefaultQueue(exceptId?: string): Promise<void> {
+  const supabase = getClient()
+
+  let query = supabase
+    .from('inbox_queues')
+    .update({ is_default: false })
+    .eq('is_default', true)
+  if (exceptId) {
+    query = query.neq('id', exceptId)
+  }
+
+  const { error } = await query
+
+  if (error) {
+    throw new Error(`Failed to update default queue: ${error.message}`)
+  }
+}
+
+/**
+ * Create a queue
+ */
+export async function createQueue(dto: CreateInboxQueueDTO): Promise<InboxQueue> {
+  const supabase = getClient()
+
+  if (dto.is_default) {
+    await clearDefaultQueue()
+  }
+
+  const { data, error } = await supabase
+    .from('inbox_queues')
+    .insert(dto)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create queue: ${error.message}`)
+  }
+
+  return data as InboxQueue
+}
+
+/**
+ * Update a queue
+ */
+export async function updateQueue(
+  id: string,
+  dto: UpdateInboxQueueDTO
+): Promise<InboxQueue> {
+  const supabase = getClient()
+
+  if (dto.is_default) {
+    await clearDefaultQueue(id)
+  }
+
+  const { data, error } = await supabase
+    .from('inbox_queues')
+    .update(dto)
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update queue: ${error.message}`)
+  }
+
+  return data as InboxQueue
+}
+
+/**
+ * Delete a queue (conversations keep running without a queue)
+ */
+export async function deleteQueue(id: string): Promise<void> {
+  const supabase = getClient()
+
+  const { error } = await supabase
+    .from('inbox_queues')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete queue: ${error.message}`)
+  }
+}
+
+/**
+ * Assigns an unassigned conversation to the next member of the queue
+ * (RPC assign_conversation_from_queue: pick and queue update under a row lock).
+ * Returns null when the queue has no active members or the conversation already has an assignee.
+ */
+export async function assignConversationFromQueue(
+  conversationId: string,
+  queueId: string
+): Promise<string | null> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase.rpc('assign_conversation_from_queue', {
+    p_conversation_id: conversationId,
+    p_queue_id: queueId,
+  })
+
+  if (error) {
+    throw new Error(`Failed to assign conversation from queue: ${error.message}`)
+  }
+
+  return (data as string | null) ?? null
+}
+
+// =============================================================================
+// SLA
+// =============================================================================
+
+export interface SlaConversationRow {
+  id: string
+  assigned_user_id: string | null
+  priority: InboxConversation['priority']
+  sla_started_at: string
+  first_response_at: string | null
+  resolved_at: string | null
+  sla_first_response_due_at: string | null
+  sla_resolution_due_at: string | null
+  label_ids: string[]
+}
+
+/**
+ * Conversas cujo relógio de SLA começou no período (base do relatório)
+ */
+export async function getSlaConversations(
+  from: string,
+  to: string,
+  limit = 5000
+): Promise<SlaConversationRow[]> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_conversations')
+    .select(`
+      id, assigned_user_id, priority, sla_started_at, first_response_at, resolved_at,
+      sla_first_response_due_at, sla_resolution_due_at,
+      labels:inbox_conversation_labels(label_id)
+    `)
+    .gte('sla_started_at', from)
+    .lte('sla_started_at', to)
+    .order('sla_started_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch SLA conversations: ${error.message}`)
+  }
+
+  return (data || []).map(({ labels, ...row }) => ({
+    ...row,
+    label_ids: (labels as Array<{ label_id: string }> | null)?.map((l) => l.label_id) || [],
+  })) as SlaConversationRow[]
+}
+
+// =============================================================================
+// Scheduled Items (mensagens agendadas e lembretes)
+// =============================================================================
+
+/**
+ * Scheduled items of a conversation (pending first, then by due date)
+ */
+export async function getScheduledItems(
+  conversationId: string
+): Promise<InboxScheduledItem[]> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_scheduled_items')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('due_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled items: ${error.message}`)
+  }
+
+  const items = (data || []) as InboxScheduledItem[]
+  return [
+    ...items.filter((item) => item.status === 'scheduled'),
+    ...items.filter((item) => item.status !== 'scheduled').reverse(),
+  ]
+}
+
+/**
+ * Get a scheduled item by ID
+ */
+export async function getScheduledItemById(id: string): Promise<InboxScheduledItem | null> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_scheduled_items')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled item: ${error.message}`)
+  }
+
+  return data as InboxScheduledItem | null
+}
+
+/**
+ * Create a scheduled item
+ */
+export async function createScheduledItem(
+  conversationId: string,
+  dto: CreateInboxScheduledItemDTO,
+  createdBy: string | null
+): Promise<InboxScheduledItem> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_scheduled_items')
+    .insert({ ...dto, conversation_id: conversationId, created_by: createdBy })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create scheduled item: ${error.message}`)
+  }
+
+  return data as InboxScheduledItem
+}
+
+/**
+ * Moves a pending item (or one claimed for sending) to its final status.
+ * Returns null when it was no longer in `fromStatus` (cancelled or already processed).
+ */
+export async function settleScheduledItem(
+  id: string,
+  patch: Pick<InboxScheduledItem, 'status'> &
+    Partial<Pick<InboxScheduledItem, 'message_id' | 'error' | 'processed_at'>>,
+  fromStatus: 'scheduled' | 'processing' = 'scheduled'
+): Promise<InboxScheduledItem | null> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_scheduled_items')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', fromStatus)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update scheduled item: ${error.message}`)
+  }
+
+  return data as InboxScheduledItem | null
+}
+
+/**
+ * Claims an item for sending (scheduled -> processing). An item left in
+ * `processing` since before `staleBefore` (abandoned worker) is claimed again.
+ * Returns false when another delivery of the job holds it or it was cancelled.
+ */
+export async function claimScheduledItem(id: string, staleBefore: string): Promise<boolean> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_scheduled_items')
+    .update({ status: 'processing', updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .or(`status.eq.scheduled,and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to claim scheduled item: ${error.message}`)
+  }
+
+  return !!data
+}
+
+/**
+ * When the customer last wrote in the conversation (24h window / follow-ups)
+ */
+export async function getLastInboundMessageAt(conversationId: string): Promise<string | null> {
+  const supabase = getClient()
+
+  const { data, error } = await supabase
+    .from('inbox_messages')
+    .select('created_at')
+    .eq('conversation_id', conversationId)
+    .eq('direction', 'inbound')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch last inbound message: ${error.message}`)
+  }
+
+  return (data?.created_at as string | undefined) ?? null
+}
+
 // =============================================================================
 // Human Mode Expiration (Auto-timeout)
 // =============================================================================
@@ -935,6 +1447,7 @@ export async function switchToBotMode(conversationId: string): Promise<void> {
 export const inboxDb = {
   // Conversations
   getConversations,
+  searchInbox,
   getConversation: getConversationById,
   getConversationById,
   findConversationByPhone,
@@ -957,6 +1470,7 @@ export const inboxDb = {
   findMessageByWhatsAppId,
   updateMessageDeliveryStatus,
   updateMessageWithAIAnalysis,
+  mergeMessagePayload,
 
   // Labels
   getLabels,
@@ -970,4 +1484,24 @@ export const inboxDb = {
   createQuickReply,
   updateQuickReply,
   deleteQuickReply,
+
+  // Queues
+  getQueues,
+  getQueueById,
+  getDefaultQueue,
+  createQueue,
+  updateQueue,
+  deleteQueue,
+  assignConversationFromQueue,
+
+  // SLA
+  getSlaConversations,
+
+  // Scheduled Items
+  getScheduledItems,
+  getScheduledItemById,
+  createScheduledItem,
+  claimScheduledItem,
+  settleScheduledItem,
+  getLastInboundMessageAt,
 }
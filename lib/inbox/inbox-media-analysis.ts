@@ -0,0 +1,148 @@
+/**
+ * Inbox Media Analysis
+ * Extrai texto das mídias recebidas no inbox para atendentes e agentes de IA:
+ * - Áudio (notas de voz): transcrição (lib/ai/transcription)
+ * - Imagem: descrição + texto visível (lib/ai/ocr com prompt de descrição)
+ * - Documento: OCR (lib/ai/ocr)
+ *
+ * O resultado fica em inbox_messages.payload.media_analysis. Best-effort: falhas
+ * não impedem o recebimento da mensagem nem a resposta do agente.
+ *
+ * Liga/desliga na tabela `settings` (inbox_media_analysis_enabled, default ligado).
+ */
+
+import { settingsDb } from '@/lib/supabase-db'
+import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
+import { fetchWithTimeout } from '@/lib/server-http'
+import { transcribeAudio, needsTranscription } from '@/lib/ai/transcription'
+import { getOCRProvider, needsOCR } from '@/lib/ai/ocr'
+import { ANALYZABLE_MEDIA_TYPES, truncateMediaText } from '@/lib/business/inbox'
+import { mergeMessagePayload } from './inbox-db'
+import type { InboxMediaAnalysis, InboxMediaAnalysisKind, InboxMessageType } from '@/types'
+
+const ENABLED_KEY = 'inbox_media_analysis_enabled'
+
+/** Limite de download (Meta aceita até 16MB em áudio/vídeo e 100MB em documentos) */
+const MAX_MEDIA_BYTES = 20 * 1024 * 1024
+
+const MEDIA_FETCH_TIMEOUT_MS = 15000
+
+const IMAGE_PROMPT = `Descreva esta imagem enviada por um cliente em um atendimento via WhatsApp.
+
+Regras:
+- Em português, em até 3 frases objetivas (produto, documento, comprovante, print de tela etc.)
+- Se houver texto visível (valores, códigos, nomes, datas), transcreva-o literalmente após a descrição
+- Não invente informações que não estejam na imagem
+- Responda apenas com a descrição, sem comentários`
+
+export interface InboundMediaInput {
+  /** ID da mensagem no inbox */
+  messageId: string
+  /** Tipo da mensagem (audio, image, document) */
+  type: InboxMessageType
+  /** URL da mídia na Meta (expira) */
+  mediaUrl: string
+  /** MIME type informado pelo webhook */
+  mimeType?: string | null
+  /** Nome do arquivo (documentos) */
+  fileName?: string | null
+  /** Número que recebeu a mensagem (credenciais da WABA) */
+  phoneNumberId?: string | null
+}
+
+export async function isMediaAnalysisEnabled(): Promise<boolean> {
+  const raw = await settingsDb.get(ENABLED_KEY).catch(() => null)
+  return raw !== 'false'
+}
+
+async function downloadMedia(
+  input: InboundMediaInput
+): Promise<{ content: ArrayBuffer; mimeType: string } | null> {
+  const credentials = await getWhatsAppCredentials(input.phoneNumberId)
+  if (!credentials?.accessToken) return null
+
+  const response = await fetchWithTimeout(input.mediaUrl, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${credentials.accessToken}` },
+    timeoutMs: MEDIA_FETCH_TIMEOUT_MS,
+  })
+
+  if (!response.ok) {
+    console.warn(`[inbox-media] Meta media fetch failed: ${response.status} for message ${input.messageId}`)
+    return null
+  }
+
+  const declaredSize = Number(response.headers.get('content-length') || 0)
+  if (declaredSize > MAX_MEDIA_BYTES) return null
+
+  const content = await response.arrayBuffer()
+  if (content.byteLength > MAX_MEDIA_BYTES) return null
+
+  return {
+    content,
+    mimeType: input.mimeType || response.headers.get('content-type') || 'application/octet-stream',
+  }
+}
+
+async function extractText(
+  input: InboundMediaInput,
+  media: { content: ArrayBuffer; mimeType: string }
+): Promise<{ kind: InboxMediaAnalysisKind; text: string; provider: string; model?: string } | null> {
+  const fileName = input.fileName || `${input.type}-${input.messageId}`
+
+  if (input.type === 'audio' && needsTranscription(media.mimeType)) {
+    const result = await transcribeAudio(media.content, media.mimeType, fileName, { language: 'pt' })
+    return result ? { kind: 'transcription', text: result.text, provider: result.provider, model: result.model } : null
+  }
+
+  if ((input.type === 'image' || input.type === 'document') && needsOCR(media.mimeType)) {
+    const provider = await getOCRProvider()
+    if (!provider) return null
+
+    const isImage = input.type === 'image'
+    const result = await provider.process({
+      content: media.content,
+      mimeType: media.mimeType,
+      fileName,
+      prompt: isImage ? IMAGE_PROMPT : undefined,
+    })
+    return { kind: isImage ? 'description' : 'document', text: result.markdown, provider: result.provider, model: result.model }
+  }
+
+  return null
+}
+
+/**
+ * Transcreve/descreve a mídia de uma mensagem recebida e grava no payload.
+ * Retorna null quando desabilitado, sem provider ou em caso de falha.
+ */
+export async function analyzeInboundMedia(input: InboundMediaInput): Promise<InboxMediaAnalysis | null> {
+  if (!ANALYZABLE_MEDIA_TYPES.includes(input.type) || !input.mediaUrl) return null
+
+  try {
+    if (!(await isMediaAnalysisEnabled())) return null
+
+    const media = await downloadMedia(input)
+    if (!media) return null
+
+    const extracted = await extractText(input, media)
+    const text = extracted ? truncateMediaText(extracted.text) : ''
+    if (!extracted || !text) return null
+
+    const analysis: InboxMediaAnalysis = {
+      kind: extracted.kind,
+      text,
+      provider: extracted.provider,
+      ...(extracted.model ? { model: extracted.model } : {}),
+      analyzed_at: new Date().toISOString(),
+    }
+
+    await mergeMessagePayload(input.messageId, { media_analysis: analysis })
+    console.log(`[inbox-media] ${analysis.kind} (${analysis.provider}) saved for message ${input.messageId}`)
+
+    return analysis
+  } catch (error) {
+    console.warn(`[inbox-media] Failed to analyze media for message ${input.messageId}:`, error)
+    return null
+  }
+}
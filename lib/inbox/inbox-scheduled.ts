@@ -0,0 +1,367 @@
+/**
+ * Inbox Scheduled Items
+ * Mensagens agendadas e lembretes de follow-up criados no compositor do inbox.
+ *
+ * - Cada item vira um job com delay no QStash (timer em memória no dev local)
+ *   que chama o worker /api/webhook/inbox-scheduled no horário marcado.
+ * - Mensagem: a janela de 24h é verificada no envio, não no agendamento. Aberta,
+ *   vai como texto livre; fechada, vai o template de fallback (se houver).
+ * - Follow-up: se o cliente não respondeu desde o agendamento, a conversa volta
+ *   aberta, com prioridade alta e não lida, e quem agendou é avisado por push.
+ */
+
+import { Client } from '@upstash/qstash'
+import { templateDb } from '@/lib/supabase-db'
+import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
+import { sendTemplateMessage } from '@/lib/whatsapp-send'
+import { precheckContactForTemplate, renderTemplatePreviewText } from '@/lib/whatsapp/template-contract'
+import { getActiveSuppressionsByPhone } from '@/lib/phone-suppressions'
+import { sendFollowUpNotification } from '@/lib/push-notifications'
+import { fetchWithTimeout, safeText } from '@/lib/server-http'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
+import { getWorkerSecret } from '@/lib/worker-auth'
+import { getAppBaseUrl } from '@/lib/campaign-ab-test'
+import {
+  INBOX_SCHEDULED_PROCESSING_TIMEOUT_MS,
+  isScheduledItemClaimable,
+  resolveScheduledDelivery,
+  shouldTriggerFollowUp,
+} from '@/lib/business/inbox'
+import {
+  claimScheduledItem,
+  createMessage,
+  createScheduledItem,
+  getConversationById,
+  getLastInboundMessageAt,
+  getScheduledItemById,
+  getScheduledItems,
+  incrementUnreadCount,
+  settleScheduledItem,
+  updateConversation,
+} from './inbox-db'
+import { sendMessage } from './inbox-service'
+import { ContactStatus } from '@/types'
+import type {
+  CreateInboxScheduledItemDTO,
+  InboxConversation,
+  InboxMessage,
+  InboxScheduledItem,
+} from '@/types'
+
+// Dev local: QStash não alcança localhost, então o worker é chamado por timer em memória.
+const localScheduleRegistry = new Map<string, ReturnType<typeof setTimeout>>()
+
+/**
+ * Agenda o processamento do item em /api/webhook/inbox-scheduled no due_at
+ * (ou em `runAt`, para retomar um envio abandonado).
+ */
+async function enqueueScheduledItem(item: InboxScheduledItem, runAt: string = item.due_at): Promise<void> {
+  const baseUrl = getAppBaseUrl()
+  const isLocalhost = baseUrl.includes('localhost') || baseUrl.includes('127.0.0.1')
+  const workerSecret = getWorkerSecret()
+  const url = `${baseUrl}/api/webhook/inbox-scheduled`
+  const body = { itemId: item.id }
+  const delaySeconds = Math.max(0, Math.ceil((new Date(runAt).getTime() - Date.now()) / 1000))
+
+  if (isLocalhost) {
+    if (process.env.NODE_ENV !== 'development') {
+      console.warn('[InboxScheduled] localhost sem NODE_ENV=development; agendamento não será processado automaticamente.')
+      return
+    }
+
+    const existing = localScheduleRegistry.get(item.id)
+    if (existing) clearTimeout(existing)
+
+    // Captura o workspace agora: o timer roda fora da requisição
+    const workspaceHeaders = await getWorkspaceHeaders()
+    const t = setTimeout(async () => {
+      try {
+        const resp = await fetchWithTimeout(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...workspaceHeaders,
+            ...(workerSecret ? { Authorization: `Bearer ${workerSecret}` } : {}),
+          },
+          body: JSON.stringify(body),
+          timeoutMs: 30000,
+        })
+        if (!resp.ok) {
+          console.warn('[InboxScheduled][LocalScheduler] processing failed:', resp.status, (await safeText(resp)) || '')
+        }
+      } catch (e) {
+        console.warn('[InboxScheduled][LocalScheduler] processing failed (exception):', e)
+      } finally {
+        localScheduleRegistry.delete(item.id)
+      }
+    }, delaySeconds * 1000)
+
+    localScheduleRegistry.set(item.id, t)
+    return
+  }
+
+  if (!process.env.QSTASH_TOKEN || !workerSecret) {
+    throw new Error('QSTASH_TOKEN ou SMARTZAP_API_KEY não configurado; não é possível agendar')
+  }
+
+  const qstash = new Client({ token: process.env.QSTASH_TOKEN })
+  await qstash.publishJSON({
+    url,
+    body,
+    headers: {
+      ...(await getWorkspaceHeaders()),
+      Authorization: `Bearer ${workerSecret}`,
+    },
+    delay: delaySeconds,
+    retries: 3,
+    deduplicationId:
+      runAt === item.due_at
+        ? `inbox-scheduled-${item.id}`
+        : `inbox-scheduled-${item.id}-${new Date(runAt).getTime()}`,
+  })
+}
+
+export async function listScheduledItems(conversationId: string) {
+  return getScheduledItems(conversationId)
+}
+
+/**
+ * Cria o item e agenda o processamento. Se o job não puder ser agendado,
+ * o item é marcado como falho (não fica "agendado" para sempre).
+ */
+export async function scheduleItem(
+  conversationId: string,
+  dto: CreateInboxScheduledItemDTO,
+  createdBy: string | null
+): Promise<InboxScheduledItem> {
+  const item = await createScheduledItem(conversationId, dto, createdBy)
+
+  try {
+    await enqueueScheduledItem(item)
+  } catch (error) {
+    await settleScheduledItem(item.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Falha ao agendar',
+      processed_at: new Date().toISOString(),
+    })
+    throw error
+  }
+
+  return item
+}
+
+/**
+ * Cancela um item pendente da conversa (null quando já foi processado ou não existe)
+ */
+export async function cancelScheduledItem(
+  conversationId: string,
+  itemId: string
+): Promise<InboxScheduledItem | null> {
+  const item = await getScheduledItemById(itemId)
+  if (!item || item.conversation_id !== conversationId) return null
+
+  const cancelled = await settleScheduledItem(itemId, {
+    status: 'cancelled',
+    processed_at: new Date().toISOString(),
+  })
+
+  const timer = localScheduleRegistry.get(itemId)
+  if (cancelled && timer) {
+    clearTimeout(timer)
+    localScheduleRegistry.delete(itemId)
+  }
+
+  return cancelled
+}
+
+export type ProcessScheduledItemResult =
+  | { ok: true; item: InboxScheduledItem }
+  | { ok: false; status: 'not_found' | 'not_pending' | 'not_due'; message: string }
+
+/**
+ * Worker: processa o item no horário agendado (idempotente: só itens pendentes)
+ */
+export async function processScheduledItem(itemId: string): Promise<ProcessScheduledItemResult> {
+  const item = await getScheduledItemById(itemId)
+  if (!item) return { ok: false, status: 'not_found', message: 'Item agendado não encontrado' }
+  if (item.status === 'processing' && !isScheduledItemClaimable(item)) {
+    // Outro worker está enviando: se ele morrer, o item é retomado após o timeout
+    const retryAt = new Date(new Date(item.updated_at).getTime() + INBOX_SCHEDULED_PROCESSING_TIMEOUT_MS + 1000)
+    await enqueueScheduledItem(item, retryAt.toISOString())
+    return { ok: false, status: 'not_pending', message: 'Item em processamento' }
+  }
+  if (!isScheduledItemClaimable(item)) {
+    return { ok: false, status: 'not_pending', message: `Item já processado (${item.status})` }
+  }
+  if (new Date(item.due_at).getTime() > Date.now() + 5000) {
+    return { ok: false, status: 'not_due', message: 'Item ainda não venceu' }
+  }
+
+  const conversation = await getConversationById(item.conversation_id)
+  const settled = !conversation
+    ? await settleScheduledItem(item.id, {
+        status: 'failed',
+        error: 'Conversa não encontrada',
+        processed_at: new Date().toISOString(),
+      })
+    : item.kind === 'follow_up'
+      ? await processFollowUp(item, conversation)
+      : await processScheduledMessage(item, conversation)
+
+  if (!settled) {
+    return { ok: false, status: 'not_pending', message: 'Item cancelado ou já em processamento' }
+  }
+  return { ok: true, item: settled }
+}
+
+/**
+ * Envia a mensagem agendada. O item é reservado (scheduled -> processing) antes
+ * do envio, então uma entrega repetida do job não envia a mensagem de novo.
+ * Uma reserva abandonada (worker morreu) pode ser retomada após o timeout.
+ */
+async function processScheduledMessage(
+  item: InboxScheduledItem,
+  conversation: InboxConversation
+): Promise<InboxScheduledItem | null> {
+  const staleBefore = new Date(Date.now() - INBOX_SCHEDULED_PROCESSING_TIMEOUT_MS).toISOString()
+  if (!(await claimScheduledItem(item.id, staleBefore))) return null
+
+  const processedAt = new Date().toISOString()
+  const settle = (patch: Parameters<typeof settleScheduledItem>[1]) =>
+    settleScheduledItem(item.id, patch, 'processing')
+
+  // Tudo após a reserva fica no try: qualquer falha encerra o item como 'failed'
+  try {
+    const delivery = resolveScheduledDelivery({
+      lastInboundAt: await getLastInboundMessageAt(conversation.id),
+      fallbackTemplateName: item.fallback_template_name,
+    })
+
+    if (delivery === 'window_closed') {
+      return settle({
+        status: 'failed',
+        error: 'Janela de 24h fechada e nenhum template de fallback definido',
+        processed_at: processedAt,
+      })
+    }
+
+    if (delivery === 'free_form') {
+      const message = await sendMessage(conversation.id, item.content || '')
+      return settle({
+        status: message.delivery_status === 'failed' ? 'failed' : 'sent',
+        message_id: message.id,
+        error: message.delivery_status === 'failed' ? 'Falha ao enviar a mensagem pelo WhatsApp' : null,
+        processed_at: processedAt,
+      })
+    }
+
+    const message = await sendFallbackTemplate(item, conversation)
+    return settle({
+      status: 'fallback_sent',
+      message_id: message.id,
+      processed_at: processedAt,
+    })
+  } catch (error) {
+    return settle({
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Falha ao enviar a mensagem agendada',
+      processed_at: processedAt,
+    })
+  }
+}
+
+/**
+ * Envia o template de fallback (janela fechada) e registra no histórico da conversa
+ */
+async function sendFallbackTemplate(
+  item: InboxScheduledItem,
+  conversation: InboxConversation
+): Promise<InboxMessage> {
+  const contact = conversation.contact
+  const suppressions = await getActiveSuppressionsByPhone([conversation.phone])
+  if (contact?.status === ContactStatus.OPT_OUT || suppressions.has(conversation.phone)) {
+    throw new Error('Contato com opt-out: template não enviado')
+  }
+
+  const template = await templateDb.getByName(item.fallback_template_name || '')
+  if (!template) {
+    throw new Error(`Template "${item.fallback_template_name || ''}" não encontrado`)
+  }
+  if (template.status !== 'APPROVED') {
+    throw new Error(`Template "${template.name}" não está aprovado (${template.status})`)
+  }
+
+  const precheck = precheckContactForTemplate(
+    {
+      phone: conversation.phone,
+      name: contact?.name,
+      email: contact?.email,
+      custom_fields: contact?.custom_fields,
+      contactId: contact?.id ?? conversation.contact_id,
+    },
+    template,
+    (item.fallback_template_variables ?? { body: [] }) as any
+  )
+  if (!precheck.ok) {
+    throw new Error(precheck.reason)
+  }
+
+  const credentials = await getWhatsAppCredentials(conversation.phone_number_id)
+  const result = await sendTemplateMessage({
+    to: precheck.normalizedPhone,
+    template,
+    values: precheck.values,
+    credentials: credentials ?? undefined,
+  })
+  if (!result.success) {
+    throw new Error(result.error || 'Falha ao enviar template')
+  }
+
+  return createMessage({
+    conversation_id: conversation.id,
+    direction: 'outbound',
+    content: renderTemplatePreviewText(template, precheck.values),
+    message_type: 'template',
+    whatsapp_message_id: result.messageId ?? null,
+    delivery_status: 'sent',
+    payload: {
+      type: 'scheduled_fallback_template',
+      scheduled_item_id: item.id,
+      template_name: template.name,
+      template_language: template.language,
+      resolved_values: precheck.values,
+    },
+  })
+}
+
+async function processFollowUp(
+  item: InboxScheduledItem,
+  conversation: InboxConversation
+): Promise<InboxScheduledItem | null> {
+  const processedAt = new Date().toISOString()
+  const lastInboundAt = await getLastInboundMessageAt(conversation.id)
+
+  if (!shouldTriggerFollowUp(lastInboundAt, item.created_at)) {
+    return settleScheduledItem(item.id, { status: 'skipped', processed_at: processedAt })
+  }
+
+  const settled = await settleScheduledItem(item.id, { status: 'triggered', processed_at: processedAt })
+  if (!settled) return null
+
+  // Volta para o topo da fila de quem atende: aberta, prioridade alta e não lida
+  await updateConversation(conversation.id, {
+    status: 'open',
+    priority: conversation.priority === 'urgent' ? 'urgent' : 'high',
+  })
+  await incrementUnreadCount(conversation.id)
+
+  const notifyUserId = conversation.assigned_user_id || item.created_by
+  if (notifyUserId) {
+    const contactName = conversation.contact?.name || conversation.phone
+    await sendFollowUpNotification(notifyUserId, contactName, conversation.id, item.note).catch((e) => {
+      console.warn('[InboxScheduled] Falha ao enviar push do follow-up (best-effort):', e)
+    })
+  }
+
+  return settled
+}
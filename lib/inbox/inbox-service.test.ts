@@ -80,6 +80,7 @@ describe('syncCampaignTemplateToInbox', () => {
     expect(mockGetOrCreateConversation).toHaveBeenCalledWith(
       '+5511999999999',
       'contact_123',
+      undefined,
       undefined
     )
     expect(mockCreateMessage).toHaveBeenCalledWith({
@@ -176,6 +177,7 @@ describe('syncCampaignTemplateToInbox', () => {
     expect(mockGetOrCreateConversation).toHaveBeenCalledWith(
       '+5511999999999',
       undefined, // contactId null vira undefined
+      undefined,
       undefined
     )
   })
@@ -5,6 +5,7 @@
 
 import {
   getConversations,
+  searchInbox,
   getConversationById,
   getOrCreateConversation,
   updateConversation,
@@ -23,11 +24,19 @@ import {
   createQuickReply,
   updateQuickReply,
   deleteQuickReply,
+  getQueues,
+  createQueue,
+  updateQueue,
+  deleteQueue,
   type ConversationFilters,
+  type InboxSearchFilters,
   type MessageFilters,
 } from './inbox-db'
+import { completeHandoff, type HandoffSource } from './inbox-assignment'
 import { sendWhatsAppMessage } from '@/lib/whatsapp-send'
 import { getWhatsAppCredentials } from '@/lib/whatsapp-credentials'
+import { userDb } from '@/lib/supabase-db'
+import { queueCrmEvent } from '@/lib/crm/crm-sync'
 import type {
   InboxConversation,
   InboxMessage,
@@ -36,6 +45,8 @@ import type {
   UpdateInboxConversationDTO,
   CreateInboxLabelDTO,
   CreateInboxQuickReplyDTO,
+  CreateInboxQueueDTO,
+  UpdateInboxQueueDTO,
   ConversationMode,
   ConversationPriority,
   Template,
@@ -50,6 +61,13 @@ export async function listConversations(filters: ConversationFilters = {}) {
   return getConversations(filters)
 }
 
+/**
+ * Busca textual no histórico do inbox (mensagens, transcrições, resumos, contatos)
+ */
+export async function searchConversations(filters: InboxSearchFilters) {
+  return searchInbox(filters)
+}
+
 export async function getConversation(id: string) {
   return getConversationById(id)
 }
@@ -73,6 +91,36 @@ export async function closeConversation(id: string) {
   return updateConversation(id, { status: 'closed' })
 }
 
+/**
+ * Conversa encerrada: registra o resumo (mensagens, atendente, etiquetas)
+ * na timeline do contato nos CRMs conectados. Best-effort.
+ */
+export async function publishConversationSummary(id: string) {
+  try {
+    const conversation = await getConversationById(id)
+    if (!conversation) return
+
+    const assignee = conversation.assigned_user_id
+      ? await userDb.getById(conversation.assigned_user_id)
+      : undefined
+
+    await queueCrmEvent('conversation.summary', {
+      contactId: conversation.contact_id,
+      phone: conversation.phone,
+      data: {
+        conversation_id: conversation.id,
+        message_count: conversation.total_messages,
+        assigned_to: assignee?.name ?? null,
+        labels: (conversation.labels || []).map((label) => label.name),
+        summary: conversation.handoff_summary,
+        last_message: conversation.last_message_preview,
+      },
+    })
+  } catch (e) {
+    console.warn('[Inbox] Falha ao publicar resumo da conversa (best-effort):', e)
+  }
+}
+
 export async function reopenConversation(id: string) {
   return updateConversation(id, { status: 'open' })
 }
@@ -154,8 +202,8 @@ export async function sendMessage(
     throw new Error('Conversation not found')
   }
 
-  // Get WhatsApp credentials
-  const credentials = await getWhatsAppCredentials()
+  // Get WhatsApp credentials (responde pelo número da conversa)
+  const credentials = await getWhatsAppCredentials(conversation.phone_number_id)
   if (!credentials) {
     throw new Error('WhatsApp credentials not configured')
   }
@@ -323,6 +371,26 @@ export async function removeQuickReply(id: string) {
   return deleteQuickReply(id)
 }
 
+// =============================================================================
+// Queues Service
+// =============================================================================
+
+export async function listQueues() {
+  return getQueues()
+}
+
+export async function createNewQueue(dto: CreateInboxQueueDTO) {
+  return createQueue(dto)
+}
+
+export async function updateExistingQueue(id: string, dto: UpdateInboxQueueDTO) {
+  return updateQueue(id, dto)
+}
+
+export async function removeQueue(id: string) {
+  return deleteQueue(id)
+}
+
 // =============================================================================
 // Automation Control
 // =============================================================================
@@ -392,19 +460,26 @@ export async function isAutomationPaused(
 
 /**
  * Execute handoff to human operator
+ * The conversation is then routed to an attendant of its queue (round-robin / least busy)
  */
 export async function executeHandoff(
   conversationId: string,
   reason: string,
   summary: string,
-  priority: ConversationPriority = 'high'
+  priority: ConversationPriority = 'high',
+  source: HandoffSource = 'ai'
 ): Promise<InboxConversation> {
-  return updateConversation(conversationId, {
+  const conversation = await updateConversation(conversationId, {
     mode: 'human',
     priority,
     // @ts-expect-error - This field exists but isn't in the DTO
     handoff_summary: `**Motivo:** ${reason}\n\n**Resumo:** ${summary}`,
   })
+
+  const assignedUserId = await completeHandoff(conversationId, { source, reason, summary })
+  return assignedUserId && assignedUserId !== conversation.assigned_user_id
+    ? { ...conversation, assigned_user_id: assignedUserId }
+    : conversation
 }
 
 // =============================================================================
@@ -420,6 +495,8 @@ export interface SyncCampaignTemplateParams {
   resolvedValues: ResolvedTemplateValues
   campaignId: string
   template: Template
+  /** Número remetente da campanha (conversa do mesmo número) */
+  phoneNumberId?: string | null
 }
 
 /**
@@ -449,6 +526,7 @@ export async function syncCampaignTemplateToInbox(
     resolvedValues,
     campaignId,
     template,
+    phoneNumberId,
   } = params
 
   try {
@@ -463,7 +541,8 @@ export async function syncCampaignTemplateToInbox(
     const conversation = await getOrCreateConversation(
       phone,
       contactId || undefined,
-      undefined // aiAgentId - usar default
+      undefined, // aiAgentId - usar o do número ou o default
+      phoneNumberId
     )
 
     // Cria a mensagem no inbox
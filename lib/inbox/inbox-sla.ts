@@ -0,0 +1,132 @@
+/**
+ * Inbox SLA
+ * Política de SLA do atendimento humano (settings) e relatório de
+ * primeira resposta, resolução e estouros por responsável e por etiqueta.
+ *
+ * Os prazos de cada conversa são calculados no banco (trigger), lendo esta
+ * mesma config: alterações valem para os próximos handoffs.
+ */
+
+import { settingsDb, userDb } from '@/lib/supabase-db'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { boolFromUnknown, clampInt } from '@/lib/validation-utils'
+import { isValidTimezone } from '@/lib/business/campaign/scheduling'
+import { DEFAULT_SLA_CONFIG, MAX_SLA_MINUTES, SLA_PRIORITY_ORDER, summarizeSla } from '@/lib/business/inbox'
+import { getLabels, getSlaConversations } from './inbox-db'
+import type { CalendarBookingConfig, SlaConfig, SlaPolicy, SlaReport, WorkingHoursDay } from '@/types'
+
+const CONFIG_KEY = 'inbox_sla_config'
+const CALENDAR_CONFIG_KEY = 'calendar_booking_config'
+
+export type SlaConfigSource = 'db' | 'default'
+
+const WEEKDAYS = new Set(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])
+
+function parseWorkingHours(input: unknown): WorkingHoursDay[] | null {
+  if (!Array.isArray(input)) return null
+  const days = input.filter(
+    (d): d is WorkingHoursDay =>
+      !!d && typeof d === 'object' && WEEKDAYS.has(d.day) && typeof d.start === 'string' && typeof d.end === 'string'
+  )
+  if (days.length === 0) return null
+  return days.map((d) => ({
+    day: d.day,
+    enabled: boolFromUnknown(d.enabled),
+    start: d.start,
+    end: d.end,
+    ...(Array.isArray(d.slots) && d.slots.length > 0 ? { slots: d.slots } : {}),
+  }))
+}
+
+export function parseSlaConfig(input: unknown, base: SlaConfig = DEFAULT_SLA_CONFIG): SlaConfig {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const rawPolicies = (raw.policies && typeof raw.policies === 'object' ? raw.policies : {}) as Record<string, Partial<SlaPolicy>>
+
+  const policies = { ...base.policies }
+  for (const priority of SLA_PRIORITY_ORDER) {
+    const policy = rawPolicies[priority]
+    if (!policy) continue
+    policies[priority] = {
+      firstResponseMinutes: clampInt(policy.firstResponseMinutes, 1, MAX_SLA_MINUTES, base.policies[priority].firstResponseMinutes),
+      resolutionMinutes: clampInt(policy.resolutionMinutes, 1, MAX_SLA_MINUTES, base.policies[priority].resolutionMinutes),
+    }
+  }
+
+  return {
+    enabled: raw.enabled !== undefined ? boolFromUnknown(raw.enabled) : base.enabled,
+    businessHoursOnly: raw.businessHoursOnly !== undefined ? boolFromUnknown(raw.businessHoursOnly) : base.businessHoursOnly,
+    timezone:
+      typeof raw.timezone === 'string' && isValidTimezone(raw.timezone.trim())
+        ? raw.timezone.trim()
+        : base.timezone,
+    workingHours: parseWorkingHours(raw.workingHours) ?? base.workingHours,
+    policies,
+  }
+}
+
+/**
+ * Sem config salva, o horário comercial parte do agendamento (mesmo expediente)
+ */
+async function getDefaultSlaConfig(): Promise<SlaConfig> {
+  const raw = await settingsDb.get(CALENDAR_CONFIG_KEY).catch(() => null)
+  if (!raw) return DEFAULT_SLA_CONFIG
+  try {
+    const calendar = JSON.parse(raw) as Partial<CalendarBookingConfig>
+    return parseSlaConfig({ timezone: calendar.timezone, workingHours: calendar.workingHours })
+  } catch {
+    return DEFAULT_SLA_CONFIG
+  }
+}
+
+export async function getSlaConfigWithSource(): Promise<{ config: SlaConfig; source: SlaConfigSource }> {
+  if (!isSupabaseConfigured()) return { config: DEFAULT_SLA_CONFIG, source: 'default' }
+
+  const raw = await settingsDb.get(CONFIG_KEY).catch(() => null)
+  if (raw) {
+    try {
+      return { config: parseSlaConfig(JSON.parse(raw)), source: 'db' }
+    } catch {
+      // fallthrough
+    }
+  }
+  return { config: await getDefaultSlaConfig(), source: 'default' }
+}
+
+export async function saveSlaConfig(config: SlaConfig): Promise<void> {
+  await settingsDb.set(CONFIG_KEY, JSON.stringify(config))
+}
+
+// =============================================================================
+// Relatório
+// =============================================================================
+
+/** Chave das conversas sem responsável no agrupamento por atendente */
+export const UNASSIGNED_KEY = 'unassigned'
+
+export async function getSlaReport(from: string, to: string): Promise<SlaReport> {
+  const [rows, users, labels] = await Promise.all([
+    getSlaConversations(from, to),
+    userDb.getAll(),
+    getLabels(),
+  ])
+
+  const userNames = new Map(users.map((user) => [user.id, user.name]))
+  const labelsById = new Map(labels.map((label) => [label.id, label]))
+
+  const byAttendant = summarizeSla(rows, (row) => [row.assigned_user_id || UNASSIGNED_KEY]).map((summary) => ({
+    ...summary,
+    name: summary.key === UNASSIGNED_KEY
+      ? 'Sem responsável'
+      : userNames.get(summary.key) || 'Usuário removido',
+  }))
+
+  const byLabel = summarizeSla(rows, (row) => (row.label_ids ?? []).filter((id) => labelsById.has(id))).map((summary) => ({
+    ...summary,
+    name: labelsById.get(summary.key)?.name || summary.key,
+    color: labelsById.get(summary.key)?.color,
+  }))
+
+  const [total] = summarizeSla(rows, () => ['total'])
+
+  return { from, to, total: total ?? null, byAttendant, byLabel }
+}
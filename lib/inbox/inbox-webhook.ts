@@ -13,10 +13,14 @@
 import { getSupabaseAdmin } from '@/lib/supabase'
 import { normalizePhoneNumber } from '@/lib/phone-formatter'
 import { inboxDb, isHumanModeExpired, switchToBotMode, findConversationByPhoneLightweight } from './inbox-db'
+import { completeHandoff } from './inbox-assignment'
+import { analyzeInboundMedia } from './inbox-media-analysis'
 import { cancelDebounce } from '@/lib/ai/agents/chat-agent'
 import { sendWhatsAppMessage } from '@/lib/whatsapp-send'
 import { Client } from '@upstash/qstash'
 import { redis } from '@/lib/redis'
+import { getWorkspaceHeaders } from '@/lib/workspace-context'
+import { summarizeStructuredContent, type InboundStructuredContent } from '@/lib/business/inbox'
 import type {
   InboxConversation,
   InboxMessage,
@@ -34,6 +38,7 @@ interface ProcessInboundMessageResult {
   conversation_status: string
   conversation_mode: string
   ai_agent_id: string | null
+  phone_number_id?: string | null
   human_mode_expires_at: string | null
   automation_paused_until: string | null
 }
@@ -52,7 +57,7 @@ const getQStashClient = () => {
 // Types
 // =============================================================================
 
-export interface InboundMessagePayload {
+export interface InboundMessagePayload extends InboundStructuredContent {
   /** WhatsApp message ID */
   messageId: string
   /** Sender phone number (raw format from webhook) */
@@ -65,6 +70,10 @@ export interface InboundMessagePayload {
   timestamp?: string
   /** Media URL if applicable */
   mediaUrl?: string | null
+  /** Media MIME type (audio/ogg; codecs=opus, image/jpeg...) */
+  mimeType?: string | null
+  /** Original file name (documents) */
+  fileName?: string | null
   /** Phone number ID that received the message */
   phoneNumberId?: string
 }
@@ -108,15 +117,11 @@ export async function handleInboundMessage(
     try {
       const { data, error } = await supabase.rpc('process_inbound_message', {
         p_phone: normalizedPhone,
-        p_content: payload.text || `[${payload.type}]`,
+        p_content: buildMessageContent(payload),
         p_whatsapp_message_id: payload.messageId || null,
         p_message_type: mapMessageType(payload.type),
         p_media_url: payload.mediaUrl || null,
-        p_payload: {
-          raw_type: payload.type,
-          timestamp: payload.timestamp,
-          phone_number_id: payload.phoneNumberId,
-        },
+        p_payload: buildMessagePayload(payload),
         p_contact_id: null, // Contact lookup done inside RPC if needed
       })
 
@@ -124,6 +129,8 @@ export async function handleInboundMessage(
         const result = data as ProcessInboundMessageResult
         console.log(`⚡ [INBOX] RPC process_inbound_message OK: conv=${result.conversation_id}, msg=${result.message_id}, new=${result.is_new_conversation}`)
 
+        await analyzeMediaBeforeAI(result.message_id, payload)
+
         // Trigger AI se necessário
         let triggeredAI = false
         let currentMode = result.conversation_mode
@@ -137,7 +144,8 @@ export async function handleInboundMessage(
           }
         }
 
-        if (currentMode === 'bot') {
+        // Reações ficam presas à mensagem reagida: não pedem resposta do agente
+        if (currentMode === 'bot' && payload.type !== 'reaction') {
           if (isAutomationPaused(result.automation_paused_until)) {
             console.log(`[Inbox] Automation paused until ${result.automation_paused_until}, skipping AI`)
           } else {
@@ -148,6 +156,7 @@ export async function handleInboundMessage(
               status: result.conversation_status,
               mode: currentMode,
               ai_agent_id: result.ai_agent_id,
+              phone_number_id: result.phone_number_id ?? payload.phoneNumberId ?? null,
               human_mode_expires_at: result.human_mode_expires_at,
               automation_paused_until: result.automation_paused_until,
             } as InboxConversation
@@ -196,7 +205,7 @@ async function handleInboundMessageLegacy(
   triggeredAI: boolean
 }> {
   // 1. Busca conversa existente (versão LIGHTWEIGHT - sem JOINs)
-  let conversation = await findConversationByPhoneLightweight(normalizedPhone)
+  let conversation = await findConversationByPhoneLightweight(normalizedPhone, payload.phoneNumberId)
 
   if (!conversation) {
     // Paraleliza: busca contato enquanto prepara criação da conversa
@@ -204,6 +213,7 @@ async function handleInboundMessageLegacy(
     const fullConversation = await inboxDb.createConversation({
       phone: normalizedPhone,
       contact_id: contactId || undefined,
+      phone_number_id: payload.phoneNumberId,
       mode: 'bot',
     })
     conversation = {
@@ -213,31 +223,33 @@ async function handleInboundMessageLegacy(
       mode: fullConversation.mode,
       ai_agent_id: fullConversation.ai_agent_id,
       contact_id: fullConversation.contact_id,
+      phone_number_id: fullConversation.phone_number_id ?? null,
       human_mode_expires_at: fullConversation.human_mode_expires_at,
       automation_paused_until: fullConversation.automation_paused_until,
       total_messages: fullConversation.total_messages,
       unread_count: fullConversation.unread_count,
     }
-  } else if (conversation.status === 'closed') {
-    await inboxDb.updateConversation(conversation.id, { status: 'open' })
+  } else if (conversation.status === 'closed' || (!conversation.phone_number_id && payload.phoneNumberId)) {
+    await inboxDb.updateConversation(conversation.id, {
+      ...(conversation.status === 'closed' ? { status: 'open' as const } : {}),
+      ...(!conversation.phone_number_id && payload.phoneNumberId ? { phone_number_id: payload.phoneNumberId } : {}),
+    })
   }
 
   // 2. Cria mensagem
   const message = await inboxDb.createMessage({
     conversation_id: conversation.id,
     direction: 'inbound',
-    content: payload.text || `[${payload.type}]`,
+    content: buildMessageContent(payload),
     message_type: mapMessageType(payload.type),
     whatsapp_message_id: payload.messageId || undefined,
     media_url: payload.mediaUrl || undefined,
     delivery_status: 'delivered',
-    payload: {
-      raw_type: payload.type,
-      timestamp: payload.timestamp,
-      phone_number_id: payload.phoneNumberId,
-    },
+    payload: buildMessagePayload(payload),
   })
 
+  await analyzeMediaBeforeAI(message.id, payload)
+
   // 3. Trigger AI
   let triggeredAI = false
   let currentMode = conversation.mode
@@ -247,7 +259,7 @@ async function handleInboundMessageLegacy(
     currentMode = 'bot'
   }
 
-  if (currentMode === 'bot' && !isAutomationPaused(conversation.automation_paused_until)) {
+  if (currentMode === 'bot' && payload.type !== 'reaction' && !isAutomationPaused(conversation.automation_paused_until)) {
     triggeredAI = await triggerAIProcessing(conversation as InboxConversation, message)
   }
 
@@ -351,9 +363,10 @@ async function dispatchToQStash(
   console.log(`🔥 [TRIGGER] Dispatching to ${aiRespondUrl} with delay=${delaySeconds}s, messageId=${messageId}`)
 
   try {
-    // Headers para autenticação e bypass
+    // Headers para autenticação, workspace da conversa e bypass
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      ...(await getWorkspaceHeaders()),
     }
 
     // Adiciona API key para passar pelo middleware de autenticação
@@ -458,8 +471,9 @@ async function handleAIHandoff(
     `[Inbox] AI handoff for conversation ${conversation.id}: ${reason}`
   )
 
-  // Switch to human mode
+  // Switch to human mode and route to an attendant of the queue
   await inboxDb.updateConversation(conversation.id, { mode: 'human' })
+  await completeHandoff(conversation.id, { source: 'ai', reason, summary })
 
   // Cancel any pending debounce
   cancelDebounce(conversation.id)
@@ -486,6 +500,7 @@ async function handleAIHandoff(
 
 /**
  * Update message delivery status in inbox
+ * Returns true only when the stored status changed.
  */
 export async function handleDeliveryStatus(
   payload: StatusUpdatePayload
@@ -508,6 +523,10 @@ export async function handleDeliveryStatus(
     return false
   }
 
+  if (message.delivery_status === payload.status) {
+    return false
+  }
+
   // Update delivery status
   const updates: Record<string, unknown> = {
     delivery_status: payload.status,
@@ -574,14 +593,53 @@ function mapMessageType(waType: string): InboxMessage['message_type'] {
     template: 'template',
     interactive: 'interactive',
     button: 'interactive',
-    location: 'text',
-    contacts: 'text',
-    sticker: 'image',
+    location: 'location',
+    contacts: 'contacts',
+    sticker: 'sticker',
+    reaction: 'reaction',
   }
 
   return typeMap[waType] || 'text'
 }
 
+/**
+ * Conteúdo textual da mensagem (prévia da conversa e busca).
+ * Localização, contatos e reações ganham um resumo legível em vez de "[tipo]".
+ */
+function buildMessageContent(payload: InboundMessagePayload): string {
+  return payload.text || summarizeStructuredContent(payload.type, payload) || `[${payload.type}]`
+}
+
+/**
+ * Transcreve/descreve a mídia antes de acionar a IA: o agente responde com base
+ * no texto extraído. Best-effort (erros são logados em analyzeInboundMedia).
+ */
+async function analyzeMediaBeforeAI(messageId: string, payload: InboundMessagePayload): Promise<void> {
+  if (!payload.mediaUrl) return
+  await analyzeInboundMedia({
+    messageId,
+    type: mapMessageType(payload.type),
+    mediaUrl: payload.mediaUrl,
+    mimeType: payload.mimeType,
+    fileName: payload.fileName,
+    phoneNumberId: payload.phoneNumberId,
+  })
+}
+
+/**
+ * Payload persistido com a mensagem: metadados do webhook + conteúdo estruturado
+ */
+function buildMessagePayload(payload: InboundMessagePayload): Record<string, unknown> {
+  return {
+    raw_type: payload.type,
+    timestamp: payload.timestamp,
+    phone_number_id: payload.phoneNumberId,
+    ...(payload.location ? { location: payload.location } : {}),
+    ...(payload.contacts ? { contacts: payload.contacts } : {}),
+    ...(payload.reaction ? { reaction: payload.reaction } : {}),
+  }
+}
+
 /**
  * T066: Check if automation is paused for a conversation
  * Returns true if pause timestamp exists and is in the future
@@ -0,0 +1,285 @@
+/**
+ * Outbound Webhooks
+ * Entrega de eventos do SmartZap para endpoints externos assinados pelo workspace.
+ *
+ * - Cada evento vira uma linha em webhook_deliveries por endpoint assinante
+ * - A entrega roda em /api/webhook/outbound via QStash (timer em memória no dev local)
+ * - Falhas são reenfileiradas com backoff (WEBHOOK_MAX_ATTEMPTS tentativas)
+ *
+ * Assinatura: X-SmartZap-Signature = sha256=HMAC(secret, `${timestamp}.${body}`),
+ * com o timestamp (segundos) em X-SmartZap-Timestamp.
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { Client } from '@upstash/qstash'
+import { webhookDeliveryDb, webhookEndpointDb } from '@/lib/supabase-db'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { fetchWithTimeout, safeText } from '@/lib/server-http'
+import { getCurrentWorkspaceId, getWorkspaceHeaders } from '@/lib/workspace-context'
+import { getWorkerSecret } from '@/lib/worker-auth'
+import { getAppBaseUrl } from '@/lib/campaign-ab-test'
+import { getWebhookRetryDelaySeconds, isWebhookEventType, truncateWebhookResponse } from '@/lib/business/webhooks'
+import type {
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventEnvelope,
+  WebhookEventType,
+} from '@/types'
+
+const DELIVERY_TIMEOUT_MS = 10000
+// Reserva mais antiga que isso é de um worker que morreu no meio da tentativa
+const DELIVERY_CLAIM_TIMEOUT_MS = 60_000
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivering', 'success', 'failed']
+
+// Cache curto: o webhook da Meta publica um evento por status recebido
+const ACTIVE_ENDPOINTS_CACHE_TTL_MS = 60_000
+const activeEndpointsCache = new Map<string, { endpoints: WebhookEndpoint[]; expiresAt: number }>()
+
+// Dev local: QStash não alcança localhost, então as entregas usam timer em memória.
+const localDeliveryRegistry = new Map<string, ReturnType<typeof setTimeout>>()
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Agenda uma tentativa de entrega em /api/webhook/outbound após `delaySeconds`.
+ */
+async function enqueueDelivery(delivery: WebhookDelivery, delaySeconds: number): Promise<void> {
+  const baseUrl = getAppBaseUrl()
+  const isLocalhost = baseUrl.includes('localhost') || baseUrl.includes('127.0.0.1')
+  const workerSecret = getWorkerSecret()
+  const url = `${baseUrl}/api/webhook/outbound`
+  const body = { deliveryId: delivery.id }
+
+  if (isLocalhost) {
+    if (process.env.NODE_ENV !== 'development') {
+      console.warn('[OutboundWebhook] localhost sem NODE_ENV=development; entrega não será feita automaticamente.')
+      return
+    }
+
+    const existing = localDeliveryRegistry.get(delivery.id)
+    if (existing) clearTimeout(existing)
+
+    // Captura o workspace agora: o timer roda fora da requisição
+    const workspaceHeaders = await getWorkspaceHeaders()
+    const t = setTimeout(async () => {
+      try {
+        const resp = await fetchWithTimeout(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...workspaceHeaders,
+            ...(workerSecret ? { Authorization: `Bearer ${workerSecret}` } : {}),
+          },
+          body: JSON.stringify(body),
+          timeoutMs: 30000,
+        })
+        if (!resp.ok) {
+          console.warn('[OutboundWebhook][LocalScheduler] delivery failed:', resp.status, (await safeText(resp)) || '')
+        }
+      } catch (e) {
+        console.warn('[OutboundWebhook][LocalScheduler] delivery failed (exception):', e)
+      } finally {
+        localDeliveryRegistry.delete(delivery.id)
+      }
+    }, delaySeconds * 1000)
+
+    localDeliveryRegistry.set(delivery.id, t)
+    return
+  }
+
+  if (!process.env.QSTASH_TOKEN || !workerSecret) {
+    console.warn('[OutboundWebhook] QSTASH_TOKEN ou SMARTZAP_API_KEY não configurado; entrega não será feita.')
+    return
+  }
+
+  const qstash = new Client({ token: process.env.QSTASH_TOKEN })
+  await qstash.publishJSON({
+    url,
+    body,
+    headers: {
+      ...(await getWorkspaceHeaders()),
+      Authorization: `Bearer ${workerSecret}`,
+    },
+    delay: delaySeconds,
+    retries: 3,
+    deduplicationId: `webhook-delivery-${delivery.id}-${delivery.attempts}`,
+  })
+}
+
+/**
+ * Endpoints ativos do workspace atual (cache por workspace).
+ */
+async function getActiveEndpoints(): Promise<WebhookEndpoint[]> {
+  const workspaceId = await getCurrentWorkspaceId()
+  const cached = activeEndpointsCache.get(workspaceId)
+  if (cached && cached.expiresAt > Date.now()) return cached.endpoints
+
+  const endpoints = await webhookEndpointDb.getActive()
+  activeEndpointsCache.set(workspaceId, { endpoints, expiresAt: Date.now() + ACTIVE_ENDPOINTS_CACHE_TTL_MS })
+  return endpoints
+}
+
+/**
+ * Invalida o cache de endpoints (após criar, editar ou remover um endpoint).
+ */
+export function clearWebhookEndpointCache(): void {
+  activeEndpointsCache.clear()
+}
+
+/**
+ * Publica um evento para todos os endpoints ativos que o assinam.
+ * Best-effort: nunca lança (não pode derrubar o fluxo que originou o evento).
+ */
+export async function emitWebhookEvent(type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+  try {
+    if (!isSupabaseConfigured()) return
+
+    const endpoints = (await getActiveEndpoints()).filter((endpoint) => endpoint.eventTypes.includes(type))
+    if (endpoints.length === 0) return
+
+    const envelope: WebhookEventEnvelope = {
+      id: randomUUID(),
+      type,
+      created_at: new Date().toISOString(),
+      data,
+    }
+
+    await Promise.all(
+      endpoints.map(async (endpoint) => {
+        const delivery = await webhookDeliveryDb.create({
+          endpointId: endpoint.id,
+          eventId: envelope.id,
+          eventType: type,
+          payload: envelope,
+        })
+        await enqueueDelivery(delivery, 0)
+      })
+    )
+  } catch (e) {
+    console.warn(`[OutboundWebhook] Falha ao publicar ${type} (best-effort):`, e)
+  }
+}
+
+export type DeliveryAttemptResult =
+  | { ok: true; delivery: WebhookDelivery }
+  | { ok: false; status: 'not_found' | 'ignored'; message: string }
+
+/**
+ * Executa uma tentativa de entrega (chamado pelo worker).
+ * A entrega é reservada (pending -> delivering) antes do POST, então o mesmo
+ * evento não é enviado duas vezes. Falha com tentativas restantes volta para
+ * a fila com backoff.
+ */
+export async function attemptWebhookDelivery(deliveryId: string): Promise<DeliveryAttemptResult> {
+  const delivery = await webhookDeliveryDb.getById(deliveryId)
+  if (!delivery) return { ok: false, status: 'not_found', message: 'Entrega não encontrada' }
+  if (delivery.status === 'success' || delivery.status === 'failed') {
+    return { ok: false, status: 'ignored', message: `Entrega já finalizada (${delivery.status})` }
+  }
+
+  const endpoint = await webhookEndpointDb.getById(delivery.endpointId)
+  if (!endpoint) return { ok: false, status: 'not_found', message: 'Endpoint não encontrado' }
+
+  // Job repetido ou concorrente do QStash: só quem reserva a entrega faz o POST
+  const staleBefore = new Date(Date.now() - DELIVERY_CLAIM_TIMEOUT_MS).toISOString()
+  if (!(await webhookDeliveryDb.claim(delivery.id, staleBefore))) {
+    return { ok: false, status: 'ignored', message: 'Entrega já em andamento' }
+  }
+
+  const attempts = delivery.attempts + 1
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let error: string | null = null
+
+  if (!endpoint.isActive) {
+    error = 'Endpoint desativado'
+  } else {
+    try {
+      const resp = await fetchWithTimeout(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SmartZap-Webhooks/1.0',
+          'X-SmartZap-Event': delivery.eventType,
+          'X-SmartZap-Delivery': delivery.id,
+          'X-SmartZap-Timestamp': String(timestamp),
+          'X-SmartZap-Signature': `sha256=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+        },
+        body,
+        timeoutMs: DELIVERY_TIMEOUT_MS,
+      })
+      responseStatus = resp.status
+      responseBody = truncateWebhookResponse((await safeText(resp)) || '')
+      if (!resp.ok) error = `HTTP ${resp.status}`
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e)
+    }
+  }
+
+  const delay = error && endpoint.isActive ? getWebhookRetryDelaySeconds(attempts) : null
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    responseStatus,
+    responseBody,
+    error,
+    status: !error ? 'success' : delay !== null ? 'pending' : 'failed',
+    nextRetryAt: delay !== null ? new Date(Date.now() + delay * 1000).toISOString() : null,
+    deliveredAt: !error ? new Date().toISOString() : null,
+  }
+
+  await webhookDeliveryDb.recordAttempt(delivery.id, updated)
+
+  if (delay !== null) {
+    try {
+      await enqueueDelivery(updated, delay)
+    } catch (e) {
+      console.warn('[OutboundWebhook] Falha ao reagendar entrega (best-effort):', e)
+    }
+  }
+
+  return { ok: true, delivery: updated }
+}
+
+/**
+ * Reenvia um evento: cria uma nova entrega (mesmo event_id) com tentativas zeradas.
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookDelivery | null> {
+  const original = await webhookDeliveryDb.getById(deliveryId)
+  if (!original) return null
+
+  const delivery = await webhookDeliveryDb.create({
+    endpointId: original.endpointId,
+    eventId: original.eventId,
+    eventType: original.eventType,
+    payload: original.payload,
+  })
+  await enqueueDelivery(delivery, 0)
+  return delivery
+}
+
+export function parseWebhookDeliveryFilters(searchParams: URLSearchParams): WebhookDeliveryFilters {
+  const eventType = searchParams.get('eventType')
+  const status = searchParams.get('status') as WebhookDeliveryStatus | null
+  const limitRaw = Number(searchParams.get('limit'))
+  const offsetRaw = Number(searchParams.get('offset'))
+
+  return {
+    endpointId: searchParams.get('endpointId') || undefined,
+    eventType: isWebhookEventType(eventType) ? eventType : undefined,
+    status: status && DELIVERY_STATUSES.includes(status) ? status : undefined,
+    limit: Math.max(1, Math.min(200, Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 50)),
+    offset: Math.max(0, Number.isFinite(offsetRaw) ? offsetRaw : 0),
+  }
+}
@@ -10,6 +10,7 @@
 
 import webpush from 'web-push'
 import { createClient } from '@/lib/supabase-server'
+import { supabase as adminClient } from '@/lib/supabase'
 
 // =============================================================================
 // Configuration
@@ -165,6 +166,88 @@ export async function sendNewMessageNotification(
   })
 }
 
+/**
+ * Envia notificação para as subscriptions de um usuário (todos os dispositivos dele)
+ */
+export async function sendPushToUser(
+  userId: string,
+  payload: PushPayload
+): Promise<{ sent: number; failed: number }> {
+  if (!setupWebPush()) {
+    return { sent: 0, failed: 0 }
+  }
+
+  // Client admin: também é chamado fora de requisições do navegador (webhook, handoff da IA)
+  const { data: subscriptions } = await adminClient
+    .from('push_subscriptions')
+    .select('endpoint, keys')
+    .eq('user_id', userId)
+
+  if (!subscriptions || subscriptions.length === 0) {
+    return { sent: 0, failed: 0 }
+  }
+
+  const results = await Promise.allSettled(
+    subscriptions.map((sub) =>
+      sendPushNotification(sub as PushSubscriptionData, payload)
+    )
+  )
+
+  const sent = results.filter((r) => r.status === 'fulfilled' && r.value.success).length
+  return { sent, failed: results.length - sent }
+}
+
+/**
+ * Avisa o usuário que uma conversa foi atribuída a ele
+ */
+export async function sendAssignmentNotification(
+  userId: string,
+  contactName: string,
+  conversationId: string
+): Promise<{ sent: number; failed: number }> {
+  return sendPushToUser(userId, {
+    title: 'Nova conversa atribuída a você',
+    body: contactName,
+    icon: '/icons/icon-192.png',
+    badge: '/icons/icon-192.png',
+    tag: `assignment-${conversationId}`,
+    data: {
+      url: `/inbox?c=${conversationId}`,
+      conversationId,
+    },
+    actions: [
+      { action: 'open', title: 'Abrir' },
+      { action: 'dismiss', title: 'Dispensar' },
+    ],
+  })
+}
+
+/**
+ * Lembrete de follow-up: o cliente não respondeu até o prazo combinado
+ */
+export async function sendFollowUpNotification(
+  userId: string,
+  contactName: string,
+  conversationId: string,
+  note?: string | null
+): Promise<{ sent: number; failed: number }> {
+  return sendPushToUser(userId, {
+    title: `Sem resposta de ${contactName}`,
+    body: note?.slice(0, 100) || 'Lembrete de follow-up: a conversa voltou para o topo do inbox',
+    icon: '/icons/icon-192.png',
+    badge: '/icons/icon-192.png',
+    tag: `follow-up-${conversationId}`,
+    data: {
+      url: `/inbox?c=${conversationId}`,
+      conversationId,
+    },
+    actions: [
+      { action: 'open', title: 'Abrir' },
+      { action: 'dismiss', title: 'Dispensar' },
+    ],
+  })
+}
+
 /**
  * Remove subscription inválida do banco
  */
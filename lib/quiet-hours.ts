@@ -0,0 +1,58 @@
+import { settingsDb } from '@/lib/supabase-db'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { boolFromUnknown } from '@/lib/validation-utils'
+import { DEFAULT_QUIET_HOURS, validateQuietHours } from '@/lib/business/campaign/send-window'
+import { isValidTimezone } from '@/lib/business/campaign/scheduling'
+import type { QuietHoursConfig } from '@/types'
+
+/**
+ * Horário de silêncio global (quiet hours) para disparos de campanha.
+ *
+ * Persistido na tabela `settings`. Avaliado no fuso de cada contato:
+ * o dispatch lê a config e repassa ao workflow (sem dependência de DB no QStash).
+ */
+
+const CONFIG_KEY = 'quiet_hours_config'
+
+export type QuietHoursConfigSource = 'db' | 'default'
+
+export function parseQuietHoursConfig(input: unknown, base: QuietHoursConfig = DEFAULT_QUIET_HOURS): QuietHoursConfig {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const next: QuietHoursConfig = {
+    enabled: raw.enabled !== undefined ? boolFromUnknown(raw.enabled) : base.enabled,
+    start: typeof raw.start === 'string' ? raw.start.trim() : base.start,
+    end: typeof raw.end === 'string' ? raw.end.trim() : base.end,
+    defaultTimezone:
+      typeof raw.defaultTimezone === 'string' && isValidTimezone(raw.defaultTimezone.trim())
+        ? raw.defaultTimezone.trim()
+        : base.defaultTimezone,
+  }
+
+  if (!validateQuietHours(next).valid) {
+    return { ...next, start: base.start, end: base.end }
+  }
+  return next
+}
+
+export async function getQuietHoursConfigWithSource(): Promise<{ config: QuietHoursConfig; source: QuietHoursConfigSource }> {
+  if (!isSupabaseConfigured()) return { config: DEFAULT_QUIET_HOURS, source: 'default' }
+
+  const raw = await settingsDb.get(CONFIG_KEY).catch(() => null)
+  if (raw) {
+    try {
+      return { config: parseQuietHoursConfig(JSON.parse(raw)), source: 'db' }
+    } catch {
+      // fallthrough
+    }
+  }
+  return { config: DEFAULT_QUIET_HOURS, source: 'default' }
+}
+
+export async function getQuietHoursConfig(): Promise<QuietHoursConfig> {
+  const res = await getQuietHoursConfigWithSource()
+  return res.config
+}
+
+export async function saveQuietHoursConfig(config: QuietHoursConfig): Promise<void> {
+  await settingsDb.set(CONFIG_KEY, JSON.stringify(config))
+}
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi, Mock } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }))
+vi.mock('@/lib/user-auth', () => ({ getSessionUser: vi.fn() }))
+
+import { getSessionUser } from '@/lib/user-auth'
+import { getRequestUser } from '@/lib/request-auth'
+
+const mockGetSessionUser = getSessionUser as Mock
+
+const agent = { id: 'usr_agent', name: 'Atendente', email: 'agente@exemplo.com', role: 'agent' }
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost/api/inbox/conversations', { headers })
+}
+
+describe('getRequestUser', () => {
+  const originalApiKey = process.env.SMARTZAP_API_KEY
+
+  beforeEach(() => {
+    process.env.SMARTZAP_API_KEY = 'chave-valida'
+    mockGetSessionUser.mockResolvedValue(agent)
+  })
+
+  afterEach(() => {
+    process.env.SMARTZAP_API_KEY = originalApiKey
+    vi.clearAllMocks()
+  })
+
+  it('retorna o usuário da sessão sem chave de API', async () => {
+    expect(await getRequestUser(request())).toEqual(agent)
+  })
+
+  it('chave de API válida não tem restrição de usuário', async () => {
+    expect(await getRequestUser(request({ authorization: 'Bearer chave-valida' }))).toBeNull()
+    expect(await getRequestUser(request({ 'x-api-key': 'chave-valida' }))).toBeNull()
+    expect(mockGetSessionUser).not.toHaveBeenCalled()
+  })
+
+  it('sessão de atendente com chave inválida continua restrita', async () => {
+    expect(await getRequestUser(request({ authorization: 'Bearer x' }))).toEqual(agent)
+    expect(await getRequestUser(request({ 'x-api-key': 'x' }))).toEqual(agent)
+  })
+})
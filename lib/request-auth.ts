@@ -1,6 +1,7 @@
 import type { NextRequest } from 'next/server'
-import { type AuthResult, unauthorizedResponse, verifyApiKey } from '@/lib/auth'
-import { validateSession } from '@/lib/user-auth'
+import { type AuthResult, forbiddenResponse, unauthorizedResponse, verifyApiKey } from '@/lib/auth'
+import { type SessionUser, getSessionUser } from '@/lib/user-auth'
+import { type Permission, hasPermission, resolveRoutePermission } from '@/lib/business/access'
 
 /**
  * Require either:
@@ -9,8 +10,11 @@ import { validateSession } from '@/lib/user-auth'
  *
  * Security goal: defense-in-depth for critical endpoints (PII, destructive actions),
  * even if Proxy rules change or a route is accidentally exposed.
+ *
+ * Sessions are also checked against the user's role: `permission` defaults to
+ * the route map in lib/business/access (API keys are not role-bound).
  */
-export async function requireSessionOrApiKey(request: NextRequest) {
+export async function requireSessionOrApiKey(request: NextRequest, permission?: Permission) {
   const hasApiKeyHeader =
     !!request.headers.get('authorization') || !!request.headers.get('x-api-key')
 
@@ -21,8 +25,24 @@ export async function requireSessionOrApiKey(request: NextRequest) {
   }
 
   // Fall back to session-based access for browser UI.
-  const ok = await validateSession()
-  if (!ok) return unauthorizedResponse('Missing session or API key')
+  const user = await getSessionUser()
+  if (!user) return unauthorizedResponse('Missing session or API key')
+
+  const required = permission ?? resolveRoutePermission(new URL(request.url).pathname, request.method)
+  if (required && !hasPermission(user.role, required)) {
+    return forbiddenResponse(`Permission required: ${required}`)
+  }
   return null
 }
 
+/**
+ * Signed-in user of the request (null for valid API keys, which have full access).
+ * An invalid key never lifts the session's restrictions.
+ */
+export async function getRequestUser(request: NextRequest): Promise<SessionUser | null> {
+  const hasApiKeyHeader =
+    !!request.headers.get('authorization') || !!request.headers.get('x-api-key')
+  if (hasApiKeyHeader && (await verifyApiKey(request)).valid) return null
+
+  return getSessionUser()
+}
@@ -24,6 +24,7 @@ export const WorkflowEdgeSchema = z.object({
   id: z.string().min(1),
   source: z.string().min(1),
   target: z.string().min(1),
+  sourceHandle: z.string().nullable().optional(),
   type: z.string().optional(),
 });
 
@@ -6,6 +6,7 @@
 
 import { supabase } from './supabase'
 import { redis } from './redis'
+import { DEFAULT_WORKSPACE_ID, getCurrentWorkspaceId, runUnscoped } from './workspace-context'
 import {
     Campaign,
     Contact,
@@ -28,6 +29,39 @@ import {
     CreateCampaignFolderDTO,
     UpdateCampaignFolderDTO,
     CreateCampaignTagDTO,
+    CampaignAbTest,
+    CampaignVariant,
+    CampaignRecurrence,
+    CampaignDripStep,
+    CampaignSendWindow,
+    CampaignTrackedLink,
+    ContactSegment,
+    CreateContactSegmentDTO,
+    UpdateContactSegmentDTO,
+    SegmentGroup,
+    Workspace,
+    WorkspaceApiKey,
+    DashboardUser,
+    UserRole,
+    UserInvite,
+    AuditLogEntry,
+    AuditActorType,
+    AuditLogFilters,
+    WebhookEndpoint,
+    WebhookEventType,
+    WebhookDelivery,
+    WebhookDeliveryFilters,
+    WebhookEventEnvelope,
+    WhatsAppPhoneNumber,
+    CrmConnector,
+    CrmSyncLog,
+    CrmSyncLogFilters,
+    InboundWebhook,
+    InboundWebhookEvent,
+    InboundWebhookEventStatus,
+    Conversion,
+    ConversionFilters,
+    CampaignConversionStats,
 } from '../types'
 import { isSuppressionActive } from '@/lib/phone-suppressions'
 import { canonicalTemplateCategory } from '@/lib/template-category'
@@ -284,9 +318,51 @@ export const campaignDb = {
             cancelledAt: (data as any).cancelled_at ?? null,
             flowId: (data as any).flow_id ?? null,
             flowName: (data as any).flow_name ?? null,
+            abTest: ((data as any).ab_test as CampaignAbTest | null) ?? null,
+            parentCampaignId: (data as any).parent_campaign_id ?? null,
+            sequenceStep: (data as any).sequence_step ?? null,
+            recurrence: ((data as any).recurrence as CampaignRecurrence | null) ?? null,
+            dripSteps: ((data as any).drip_steps as CampaignDripStep[] | null) ?? null,
+            sendWindow: ((data as any).send_window as CampaignSendWindow | null) ?? null,
+            skipDormant: Boolean((data as any).skip_dormant),
+            phoneNumberId: (data as any).phone_number_id ?? null,
+            trackedLinks: ((data as any).tracked_links as CampaignTrackedLink[] | null) ?? null,
+            clicks: (data as any).clicks || 0,
         }
     },
 
+    /**
+     * Campanhas-filhas (execuções da recorrência ou etapas da sequência), mais recentes primeiro.
+     */
+    getChildren: async (parentId: string): Promise<Campaign[]> => {
+        const { data, error } = await supabase
+            .from('campaigns')
+            .select('id,name,status,template_name,total_recipients,sent,delivered,read,skipped,failed,created_at,scheduled_date,started_at,completed_at,parent_campaign_id,sequence_step')
+            .eq('parent_campaign_id', parentId)
+            .order('created_at', { ascending: false })
+
+        if (error) throw error
+
+        return (data || []).map((row: any) => ({
+            id: row.id,
+            name: row.name,
+            status: row.status as CampaignStatus,
+            templateName: row.template_name,
+            recipients: row.total_recipients,
+            sent: row.sent,
+            delivered: row.delivered,
+            read: row.read,
+            skipped: row.skipped || 0,
+            failed: row.failed,
+            createdAt: row.created_at,
+            scheduledAt: row.scheduled_date,
+            startedAt: row.started_at,
+            completedAt: row.completed_at,
+            parentCampaignId: row.parent_campaign_id ?? null,
+            sequenceStep: row.sequence_step ?? null,
+        }))
+    },
+
     create: async (campaign: {
         name: string
         templateName: string
@@ -296,6 +372,21 @@ export const campaignDb = {
         flowId?: string | null
         flowName?: string | null
         folderId?: string | null
+        // Teste A/B: a variante A é sempre o template principal da campanha
+        abTest?: Pick<CampaignAbTest, 'testPercent' | 'waitMinutes' | 'metric'> | null
+        variants?: Array<{ templateName: string; templateVariables?: CampaignVariant['templateVariables'] }>
+        // Recorrência / sequência (drip)
+        recurrence?: CampaignRecurrence | null
+        dripSteps?: CampaignDripStep[] | null
+        parentCampaignId?: string | null
+        sequenceStep?: number | null
+        sequenceKey?: string | null
+        // Janela de envio no horário local do contato
+        sendWindow?: CampaignSendWindow | null
+        skipDormant?: boolean
+        phoneNumberId?: string | null
+        // Destinos dos botões de URL rastreados (/r/{{1}})
+        trackedLinks?: CampaignTrackedLink[] | null
     }): Promise<Campaign> => {
         const id = generateId()
         const now = new Date().toISOString()
@@ -304,7 +395,12 @@ export const campaignDb = {
         // O envio só começa quando o workflow é enfileirado (dispatch) e o worker inicia.
         // Caso o dispatch falhe (ex.: QSTASH_TOKEN ausente em preview), a campanha ficava
         // eternamente em "Enviando" com tudo em pending.
-        const status = campaign.scheduledAt ? CampaignStatus.SCHEDULED : CampaignStatus.DRAFT
+        // Campanha recorrente fica "Agendado": cada execução vira uma campanha-filha.
+        const status = campaign.scheduledAt || campaign.recurrence ? CampaignStatus.SCHEDULED : CampaignStatus.DRAFT
+        const dripSteps = campaign.dripSteps && campaign.dripSteps.length > 0 ? campaign.dripSteps : null
+        const abTest: CampaignAbTest | null = campaign.abTest && campaign.variants && campaign.variants.length > 1
+            ? { ...campaign.abTest, status: 'testing' }
+            : null
 
         const { data, error } = await supabase
             .from('campaigns')
@@ -327,12 +423,34 @@ export const campaignDb = {
                 flow_id: campaign.flowId ?? null,
                 flow_name: campaign.flowName ?? null,
                 folder_id: campaign.folderId ?? null,
+                ab_test: abTest,
+                recurrence: campaign.recurrence ?? null,
+                drip_steps: dripSteps,
+                parent_campaign_id: campaign.parentCampaignId ?? null,
+                sequence_step: campaign.sequenceStep ?? (dripSteps ? 1 : null),
+                sequence_key: campaign.sequenceKey ?? null,
+                send_window: campaign.sendWindow ?? null,
+                skip_dormant: campaign.skipDormant ?? false,
+                phone_number_id: campaign.phoneNumberId ?? null,
+                tracked_links: campaign.trackedLinks && campaign.trackedLinks.length > 0 ? campaign.trackedLinks : null,
+                clicks: 0,
             })
             .select()
             .single()
 
         if (error) throw error
 
+        let variants: CampaignVariant[] | undefined
+        if (abTest && campaign.variants) {
+            try {
+                variants = await campaignVariantDb.createMany(id, campaign.variants)
+            } catch (variantsError) {
+                // Rollback best-effort: campanha A/B sem variantes não pode ser disparada.
+                await supabase.from('campaigns').delete().eq('id', id)
+                throw variantsError
+            }
+        }
+
         return {
             id,
             name: campaign.name,
@@ -351,6 +469,17 @@ export const campaignDb = {
             cancelledAt: undefined,
             flowId: campaign.flowId ?? null,
             flowName: campaign.flowName ?? null,
+            abTest,
+            variants,
+            recurrence: campaign.recurrence ?? null,
+            dripSteps,
+            parentCampaignId: campaign.parentCampaignId ?? null,
+            sequenceStep: campaign.sequenceStep ?? (dripSteps ? 1 : null),
+            sendWindow: campaign.sendWindow ?? null,
+            skipDormant: campaign.skipDormant ?? false,
+            phoneNumberId: campaign.phoneNumberId ?? null,
+            trackedLinks: campaign.trackedLinks && campaign.trackedLinks.length > 0 ? campaign.trackedLinks : null,
+            clicks: 0,
         }
     },
 
@@ -406,10 +535,35 @@ export const campaignDb = {
                 completed_at: null,
                 flow_id: original.flowId ?? null,
                 flow_name: original.flowName ?? null,
+                ab_test: original.abTest
+                    ? {
+                        testPercent: original.abTest.testPercent,
+                        waitMinutes: original.abTest.waitMinutes,
+                        metric: original.abTest.metric,
+                        status: 'testing',
+                    }
+                    : null,
+                // Sequência é copiada; recorrência não (a cópia precisa de um novo agendamento)
+                drip_steps: original.dripSteps ?? null,
+                sequence_step: original.dripSteps ? 1 : null,
+                send_window: original.sendWindow ?? null,
+                skip_dormant: original.skipDormant ?? false,
+                phone_number_id: original.phoneNumberId ?? null,
+                tracked_links: original.trackedLinks ?? null,
             })
 
         if (error) throw error
 
+        if (original.abTest) {
+            const originalVariants = await campaignVariantDb.getByCampaignId(id)
+            if (originalVariants.length > 1) {
+                await campaignVariantDb.createMany(
+                    newId,
+                    originalVariants.map(v => ({ templateName: v.templateName, templateVariables: v.templateVariables }))
+                )
+            }
+        }
+
         if (existingContacts && existingContacts.length > 0) {
             const newContacts = existingContacts.map(c => ({
                 id: generateId(),
@@ -458,6 +612,8 @@ export const campaignDb = {
         if (updates.templateParameterFormat !== undefined) updateData.template_parameter_format = updates.templateParameterFormat
         if (updates.templateFetchedAt !== undefined) updateData.template_fetched_at = updates.templateFetchedAt
         if (updates.folderId !== undefined) updateData.folder_id = updates.folderId
+        if (updates.abTest !== undefined) updateData.ab_test = updates.abTest
+        if (updates.recurrence !== undefined) updateData.recurrence = updates.recurrence
 
         updateData.updated_at = new Date().toISOString()
 
@@ -490,6 +646,84 @@ export const campaignDb = {
     },
 }
 
+// ============================================================================
+// CAMPAIGN VARIANTS (A/B testing)
+// ============================================================================
+
+const VARIANT_LABELS = ['A', 'B', 'C', 'D']
+
+const mapCampaignVariantRow = (row: any): CampaignVariant => ({
+    id: row.id,
+    campaignId: row.campaign_id,
+    label: row.label,
+    templateName: row.template_name,
+    templateVariables: row.template_variables ?? null,
+    isWinner: Boolean(row.is_winner),
+    createdAt: row.created_at,
+})
+
+export const campaignVariantDb = {
+    getByCampaignId: async (campaignId: string): Promise<CampaignVariant[]> => {
+        const { data, error } = await supabase
+            .from('campaign_variants')
+            .select('*')
+            .eq('campaign_id', campaignId)
+            .order('label', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map(mapCampaignVariantRow)
+    },
+
+    createMany: async (
+        campaignId: string,
+        variants: Array<{ templateName: string; templateVariables?: CampaignVariant['templateVariables'] }>
+    ): Promise<CampaignVariant[]> => {
+        const rows = variants.slice(0, VARIANT_LABELS.length).map((v, i) => ({
+            campaign_id: campaignId,
+            label: VARIANT_LABELS[i],
+            template_name: v.templateName,
+            template_variables: v.templateVariables ?? null,
+            is_winner: false,
+        }))
+
+        const { data, error } = await supabase
+            .from('campaign_variants')
+            .insert(rows)
+            .select('*')
+
+        if (error) throw error
+
+        return (data || []).map(mapCampaignVariantRow)
+    },
+
+    markWinner: async (campaignId: string, variantId: string): Promise<void> => {
+        const { error: resetError } = await supabase
+            .from('campaign_variants')
+            .update({ is_winner: false })
+            .eq('campaign_id', campaignId)
+
+        if (resetError) throw resetError
+
+        const { error } = await supabase
+            .from('campaign_variants')
+            .update({ is_winner: true })
+            .eq('campaign_id', campaignId)
+            .eq('id', variantId)
+
+        if (error) throw error
+    },
+
+    updateSnapshot: async (variantId: string, templateSnapshot: unknown): Promise<void> => {
+        const { error } = await supabase
+            .from('campaign_variants')
+            .update({ template_snapshot: templateSnapshot })
+            .eq('id', variantId)
+
+        if (error) throw error
+    },
+}
+
 // ============================================================================
 // CONTACTS
 // ============================================================================
@@ -516,6 +750,9 @@ export const contactDb = {
             createdAt: row.created_at,
             updatedAt: row.updated_at,
             custom_fields: row.custom_fields,
+            engagementScore: row.engagement_score ?? 0,
+            lifecycleStage: row.lifecycle_stage ?? 'new',
+            lastEngagedAt: row.last_engaged_at ?? null,
         }))
     },
 
@@ -525,12 +762,14 @@ export const contactDb = {
         search?: string | null
         status?: string | null
         tag?: string | null
+        stage?: string | null
     }): Promise<{ data: Contact[]; total: number }> => {
         const limit = Math.max(1, Math.min(100, Math.floor(params.limit || 10)))
         const offset = Math.max(0, Math.floor(params.offset || 0))
         const search = (params.search || '').trim()
         const status = (params.status || '').trim()
         const tag = (params.tag || '').trim()
+        const stage = (params.stage || '').trim()
 
         const buildContactSearchOr = (raw: string) => {
             const term = String(raw || '').trim()
@@ -570,6 +809,10 @@ export const contactDb = {
             query = query.filter('tags', 'cs', JSON.stringify([tag]))
         }
 
+        if (stage && stage !== 'ALL') {
+            query = query.eq('lifecycle_stage', stage)
+        }
+
         let suppressionMap = new Map<string, { reason: string | null; source: string | null; expiresAt: string | null }>()
         if (status === 'SUPPRESSED') {
             // Optimized: Filter active suppressions at database level instead of fetching all
@@ -623,6 +866,9 @@ export const contactDb = {
                 createdAt: row.created_at,
                 updatedAt: row.updated_at,
                 custom_fields: row.custom_fields,
+                engagementScore: row.engagement_score ?? 0,
+                lifecycleStage: row.lifecycle_stage ?? 'new',
+                lastEngagedAt: row.last_engaged_at ?? null,
                 suppressionReason: suppression?.reason ?? null,
                 suppressionSource: suppression?.source ?? null,
                 suppressionExpiresAt: suppression?.expiresAt ?? null,
@@ -636,10 +882,12 @@ export const contactDb = {
         search?: string | null
         status?: string | null
         tag?: string | null
+        stage?: string | null
     }): Promise<string[]> => {
         const search = (params.search || '').trim()
         const status = (params.status || '').trim()
         const tag = (params.tag || '').trim()
+        const stage = (params.stage || '').trim()
 
         const buildContactSearchOr = (raw: string) => {
             const term = String(raw || '').trim()
@@ -676,6 +924,10 @@ export const contactDb = {
             query = query.filter('tags', 'cs', JSON.stringify([tag]))
         }
 
+        if (stage && stage !== 'ALL') {
+            query = query.eq('lifecycle_stage', stage)
+        }
+
         if (status === 'SUPPRESSED') {
             // Optimized: Filter active suppressions at database level
             const { data: suppressionRows, error: suppressionError } = await supabase
@@ -726,6 +978,9 @@ export const contactDb = {
             createdAt: data.created_at,
             updatedAt: data.updated_at,
             custom_fields: data.custom_fields,
+            engagementScore: data.engagement_score ?? 0,
+            lifecycleStage: data.lifecycle_stage ?? 'new',
+            lastEngagedAt: data.last_engaged_at ?? null,
         }
     },
 
@@ -751,9 +1006,22 @@ export const contactDb = {
             createdAt: data.created_at,
             updatedAt: data.updated_at,
             custom_fields: data.custom_fields,
+            engagementScore: data.engagement_score ?? 0,
+            lifecycleStage: data.lifecycle_stage ?? 'new',
+            lastEngagedAt: data.last_engaged_at ?? null,
         }
     },
 
+    // Registra captação por formulário (entra no score de engajamento)
+    markLeadCapture: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('contacts')
+            .update({ last_lead_capture_at: new Date().toISOString() })
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
     upsertMergeTagsByPhone: async (
         contact: Omit<Contact, 'id' | 'lastActive'>,
         tagsToMerge: string[]
@@ -1199,12 +1467,13 @@ export const leadFormDb = {
         }
     },
 
+    // Slug é público e único entre workspaces: busca sem filtro de workspace
     getBySlug: async (slug: string): Promise<LeadForm | undefined> => {
-        const { data, error } = await supabase
+        const { data, error } = await runUnscoped(async () => supabase
             .from('lead_forms')
             .select('*')
             .eq('slug', slug)
-            .single()
+            .single())
 
         if (error || !data) return undefined
 
@@ -1218,6 +1487,7 @@ export const leadFormDb = {
             successMessage: (data as any).success_message ?? null,
             webhookToken: (data as any).webhook_token ?? null,
             fields: Array.isArray((data as any).fields) ? (data as any).fields : [],
+            workspaceId: (data as any).workspace_id,
             createdAt: (data as any).created_at,
             updatedAt: (data as any).updated_at ?? null,
         }
@@ -1332,6 +1602,52 @@ export const campaignContactDb = {
         if (error) throw error
     },
 
+    // Inclui um contato no público de uma campanha que ainda não começou (ex.: nó de fluxo).
+    // Idempotente: contato que já está no público não é duplicado (added = false).
+    addToAudience: async (
+        campaignId: string,
+        contact: { contactId: string, phone: string, name: string, email?: string | null, custom_fields?: Record<string, unknown> }
+    ): Promise<{ added: boolean; recipients: number }> => {
+        const { data, error } = await supabase
+            .from('campaign_contacts')
+            .upsert(
+                {
+                    id: generateId(),
+                    campaign_id: campaignId,
+                    contact_id: contact.contactId,
+                    phone: contact.phone,
+                    name: contact.name,
+                    email: contact.email || null,
+                    custom_fields: contact.custom_fields || {},
+                    status: 'pending',
+                },
+                { onConflict: 'campaign_id,contact_id', ignoreDuplicates: true }
+            )
+            .select('id')
+
+        if (error) throw error
+
+        const { count, error: countError } = await supabase
+            .from('campaign_contacts')
+            .select('id', { count: 'exact', head: true })
+            .eq('campaign_id', campaignId)
+
+        if (countError) throw countError
+
+        const added = (data || []).length > 0
+        const recipients = count ?? 0
+        if (added) {
+            const { error: updateError } = await supabase
+                .from('campaigns')
+                .update({ total_recipients: recipients })
+                .eq('id', campaignId)
+
+            if (updateError) throw updateError
+        }
+
+        return { added, recipients }
+    },
+
     getContacts: async (campaignId: string) => {
         const { data, error } = await supabase
             .from('campaign_contacts')
@@ -1719,9 +2035,12 @@ export const customFieldDefDb = {
 const SETTINGS_CACHE_PREFIX = 'settings:'
 const SETTINGS_CACHE_TTL = 60 // segundos
 
+// Settings são por workspace: a chave do cache inclui o workspace ativo
+const getSettingsCacheKey = async (key: string) => `${SETTINGS_CACHE_PREFIX}${await getCurrentWorkspaceId()}:${key}`
+
 export const settingsDb = {
     get: async (key: string): Promise<string | null> => {
-        const cacheKey = `${SETTINGS_CACHE_PREFIX}${key}`
+        const cacheKey = await getSettingsCacheKey(key)
 
         // 1. Tenta buscar do cache Redis
         if (redis) {
@@ -1774,7 +2093,7 @@ export const settingsDb = {
         // Invalida cache após update
         if (redis) {
             try {
-                const cacheKey = `${SETTINGS_CACHE_PREFIX}${key}`
+                const cacheKey = await getSettingsCacheKey(key)
                 await redis.del(cacheKey)
             } catch (e) {
                 // Ignore cache invalidation errors
@@ -2293,3 +2612,1548 @@ export const campaignTagDb = {
         if (error) throw error
     },
 }
+
+// ============================================================================
+// CONTACT SEGMENTS
+// ============================================================================
+
+const mapContactSegment = (row: any): ContactSegment => ({
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    definition: row.definition as SegmentGroup,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+})
+
+export const segmentDb = {
+    getAll: async (): Promise<ContactSegment[]> => {
+        const { data, error } = await supabase
+            .from('contact_segments')
+            .select('*')
+            .order('name', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map(mapContactSegment)
+    },
+
+    getById: async (id: string): Promise<ContactSegment | undefined> => {
+        const { data, error } = await supabase
+            .from('contact_segments')
+            .select('*')
+            .eq('id', id)
+            .single()
+
+        if (error || !data) return undefined
+
+        return mapContactSegment(data)
+    },
+
+    create: async (dto: CreateContactSegmentDTO): Promise<ContactSegment> => {
+        const { data, error } = await supabase
+            .from('contact_segments')
+            .insert({
+                name: dto.name,
+                description: dto.description ?? null,
+                definition: dto.definition,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapContactSegment(data)
+    },
+
+    update: async (id: string, dto: UpdateContactSegmentDTO): Promise<ContactSegment | undefined> => {
+        const updateData: Record<string, unknown> = {}
+
+        if (dto.name !== undefined) updateData.name = dto.name
+        if (dto.description !== undefined) updateData.description = dto.description
+        if (dto.definition !== undefined) updateData.definition = dto.definition
+
+        const { error } = await supabase
+            .from('contact_segments')
+            .update(updateData)
+            .eq('id', id)
+
+        if (error) throw error
+
+        return segmentDb.getById(id)
+    },
+
+    delete: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('contact_segments')
+            .delete()
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
+    // Contagem avaliada no Postgres (segment_rule_sql); não carrega contatos no app
+    count: async (definition: SegmentGroup): Promise<{ total: number; matched: number }> => {
+        const { data, error } = await supabase.rpc('count_contacts_by_segment', { p_definition: definition })
+
+        if (error) throw error
+
+        const row = Array.isArray(data) ? data[0] : data
+        return {
+            total: Number(row?.total ?? 0),
+            matched: Number(row?.matched ?? 0),
+        }
+    },
+
+    // Contatos do segmento, paginando por keyset (id) em lotes de 1000
+    getContacts: async (definition: SegmentGroup, options?: { limit?: number }): Promise<Contact[]> => {
+        const pageSize = 1000
+        const max = options?.limit ?? Number.POSITIVE_INFINITY
+        const contacts: Contact[] = []
+        let afterId: string | null = null
+
+        while (contacts.length < max) {
+            const { data, error } = await supabase.rpc('get_contacts_by_segment', {
+                p_definition: definition,
+                p_limit: Math.min(pageSize, max - contacts.length),
+                p_after_id: afterId,
+            })
+
+            if (error) throw error
+
+            const rows = (data || []) as any[]
+            for (const row of rows) {
+                contacts.push({
+                    id: row.id,
+                    name: row.name,
+                    phone: row.phone,
+                    email: row.email,
+                    status: (row.status as ContactStatus) || ContactStatus.OPT_IN,
+                    tags: row.tags || [],
+                    lastActive: row.updated_at
+                        ? new Date(row.updated_at).toLocaleDateString()
+                        : (row.created_at ? new Date(row.created_at).toLocaleDateString() : '-'),
+                    createdAt: row.created_at,
+                    updatedAt: row.updated_at,
+                    custom_fields: row.custom_fields,
+                    engagementScore: row.engagement_score ?? 0,
+                    lifecycleStage: row.lifecycle_stage ?? 'new',
+                    lastEngagedAt: row.last_engaged_at ?? null,
+                })
+            }
+
+            if (rows.length < pageSize) break
+            afterId = rows[rows.length - 1].id
+        }
+
+        return contacts
+    },
+}
+
+// ============================================================================
+// WORKSPACES
+// ============================================================================
+
+const mapWorkspace = (row: any): Workspace => ({
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+})
+
+const mapWorkspaceApiKey = (row: any): WorkspaceApiKey => ({
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+})
+
+export const workspaceDb = {
+    getAll: async (): Promise<Workspace[]> => {
+        const { data, error } = await supabase
+            .from('workspaces')
+            .select('*')
+            .order('created_at', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map(mapWorkspace)
+    },
+
+    getById: async (id: string): Promise<Workspace | undefined> => {
+        const { data, error } = await supabase
+            .from('workspaces')
+            .select('*')
+            .eq('id', id)
+            .single()
+
+        if (error || !data) return undefined
+
+        return mapWorkspace(data)
+    },
+
+    create: async (name: string): Promise<Workspace> => {
+        const { data, error } = await supabase
+            .from('workspaces')
+            .insert({ name })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapWorkspace(data)
+    },
+
+    rename: async (id: string, name: string): Promise<Workspace | undefined> => {
+        const { error } = await supabase
+            .from('workspaces')
+            .update({ name })
+            .eq('id', id)
+
+        if (error) throw error
+
+        return workspaceDb.getById(id)
+    },
+
+    // Remove o workspace e, em cascata, todos os dados dele
+    delete: async (id: string): Promise<void> => {
+        if (id === DEFAULT_WORKSPACE_ID) throw new Error('O workspace principal não pode ser removido')
+
+        const { error } = await supabase
+            .from('workspaces')
+            .delete()
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
+    /**
+     * Descobre o workspace dono de uma setting (ex.: businessAccountId do webhook da Meta).
+     * Consulta todas as settings, ignorando o workspace da requisição.
+     */
+    findBySetting: async (key: string, value: string): Promise<string | null> => {
+        const { data, error } = await runUnscoped(async () => supabase
+            .from('settings')
+            .select('workspace_id')
+            .eq('key', key)
+            .eq('value', value)
+            .limit(1)
+            .maybeSingle())
+
+        if (error || !data) return null
+
+        return data.workspace_id as string
+    },
+}
+
+export const workspaceApiKeyDb = {
+    list: async (workspaceId: string): Promise<WorkspaceApiKey[]> => {
+        const { data, error } = await supabase
+            .from('workspace_api_keys')
+            .select('id, workspace_id, name, key_prefix, created_at, last_used_at, revoked_at')
+            .eq('workspace_id', workspaceId)
+            .order('created_at', { ascending: false })
+
+        if (error) throw error
+
+        return (data || []).map(mapWorkspaceApiKey)
+    },
+
+    create: async (input: { workspaceId: string; name: string; keyHash: string; keyPrefix: string }): Promise<WorkspaceApiKey> => {
+        const { data, error } = await supabase
+            .from('workspace_api_keys')
+            .insert({
+                workspace_id: input.workspaceId,
+                name: input.name,
+                key_hash: input.keyHash,
+                key_prefix: input.keyPrefix,
+            })
+            .select('id, workspace_id, name, key_prefix, created_at, last_used_at, revoked_at')
+            .single()
+
+        if (error) throw error
+
+        return mapWorkspaceApiKey(data)
+    },
+
+    revoke: async (workspaceId: string, id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('workspace_api_keys')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('workspace_id', workspaceId)
+            .eq('id', id)
+
+        if (error) throw error
+    },
+}
+
+// ============================================================================
+// USERS, INVITES & AUDIT LOG (da instalação, fora do escopo de workspace)
+// ============================================================================
+
+const USER_COLUMNS = 'id, email, name, role, is_active, last_login_at, created_at'
+const INVITE_COLUMNS = 'id, email, role, workspace_id, invited_by, expires_at, accepted_at, revoked_at, created_at'
+
+const mapUser = (row: any): DashboardUser => ({
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    isActive: row.is_active,
+    lastLoginAt: row.last_login_at,
+    createdAt: row.created_at,
+})
+
+const mapUserInvite = (row: any): UserInvite => ({
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    workspaceId: row.workspace_id,
+    invitedBy: row.invited_by,
+    expiresAt: row.expires_at,
+    acceptedAt: row.accepted_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+})
+
+const mapAuditLogEntry = (row: any): AuditLogEntry => ({
+    id: row.id,
+    workspaceId: row.workspace_id,
+    actorType: row.actor_type,
+    actorId: row.actor_id,
+    actorLabel: row.actor_label,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    metadata: row.metadata || {},
+    changes: row.changes ?? null,
+    ip: row.ip,
+    createdAt: row.created_at,
+})
+
+export const userDb = {
+    getAll: async (): Promise<DashboardUser[]> => {
+        const { data, error } = await supabase
+            .from('users')
+            .select(USER_COLUMNS)
+            .order('created_at', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map(mapUser)
+    },
+
+    getById: async (id: string): Promise<DashboardUser | undefined> => {
+        const { data, error } = await supabase
+            .from('users')
+            .select(USER_COLUMNS)
+            .eq('id', id)
+            .maybeSingle()
+
+        if (error || !data) return undefined
+
+        return mapUser(data)
+    },
+
+    /**
+     * Usuário + hash da senha para o login (nunca expor o hash fora do servidor).
+     */
+    getCredentialsByEmail: async (email: string): Promise<{ user: DashboardUser; passwordHash: string } | undefined> => {
+        const { data, error } = await supabase
+            .from('users')
+            .select(`${USER_COLUMNS}, password_hash`)
+            .eq('email', email.trim().toLowerCase())
+            .maybeSingle()
+
+        if (error || !data) return undefined
+
+        return { user: mapUser(data), passwordHash: data.password_hash }
+    },
+
+    create: async (input: { email: string; name: string; role: UserRole; passwordHash: string }): Promise<DashboardUser> => {
+        const { data, error } = await supabase
+            .from('users')
+            .insert({
+                email: input.email.trim().toLowerCase(),
+                name: input.name.trim(),
+                role: input.role,
+                password_hash: input.passwordHash,
+            })
+            .select(USER_COLUMNS)
+            .single()
+
+        if (error) throw error
+
+        return mapUser(data)
+    },
+
+    update: async (id: string, updates: { name?: string; role?: UserRole; isActive?: boolean }): Promise<DashboardUser | undefined> => {
+        const row: Record<string, unknown> = {}
+        if (updates.name !== undefined) row.name = updates.name.trim()
+        if (updates.role !== undefined) row.role = updates.role
+        if (updates.isActive !== undefined) row.is_active = updates.isActive
+
+        const { error } = await supabase
+            .from('users')
+            .update(row)
+            .eq('id', id)
+
+        if (error) throw error
+
+        return userDb.getById(id)
+    },
+
+    touchLastLogin: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('users')
+            .update({ last_login_at: new Date().toISOString() })
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
+    delete: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('users')
+            .delete()
+            .eq('id', id)
+
+        if (error) throw error
+    },
+}
+
+export const userInviteDb = {
+    // Convites pendentes (não aceitos, não revogados e dentro da validade)
+    listPending: async (): Promise<UserInvite[]> => {
+        const { data, error } = await supabase
+            .from('user_invites')
+            .select(INVITE_COLUMNS)
+            .is('accepted_at', null)
+            .is('revoked_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false })
+
+        if (error) throw error
+
+        return (data || []).map(mapUserInvite)
+    },
+
+    create: async (input: {
+        email: string
+        role: UserInvite['role']
+        workspaceId: string
+        tokenHash: string
+        invitedBy: string | null
+        expiresAt: string
+    }): Promise<UserInvite> => {
+        const { data, error } = await supabase
+            .from('user_invites')
+            .insert({
+                email: input.email.trim().toLowerCase(),
+                role: input.role,
+                workspace_id: input.workspaceId,
+                token_hash: input.tokenHash,
+                invited_by: input.invitedBy,
+                expires_at: input.expiresAt,
+            })
+            .select(INVITE_COLUMNS)
+            .single()
+
+        if (error) throw error
+
+        return mapUserInvite(data)
+    },
+
+    getPendingByTokenHash: async (tokenHash: string): Promise<UserInvite | undefined> => {
+        const { data, error } = await supabase
+            .from('user_invites')
+            .select(INVITE_COLUMNS)
+            .eq('token_hash', tokenHash)
+            .is('accepted_at', null)
+            .is('revoked_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .maybeSingle()
+
+        if (error || !data) return undefined
+
+        return mapUserInvite(data)
+    },
+
+    markAccepted: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('user_invites')
+            .update({ accepted_at: new Date().toISOString() })
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
+    revoke: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('user_invites')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('id', id)
+            .is('accepted_at', null)
+
+        if (error) throw error
+    },
+}
+
+// Associação usuário ↔ workspace (owner/admin acessam todos sem associação)
+export const workspaceMemberDb = {
+    listWorkspaceIds: async (userId: string): Promise<string[]> => {
+        const { data, error } = await supabase
+            .from('workspace_members')
+            .select('workspace_id')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map((row) => row.workspace_id as string)
+    },
+
+    listUserIds: async (workspaceId: string): Promise<string[]> => {
+        const { data, error } = await supabase
+            .from('workspace_members')
+            .select('user_id')
+            .eq('workspace_id', workspaceId)
+            .order('created_at', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map((row) => row.user_id as string)
+    },
+
+    add: async (workspaceId: string, userId: string): Promise<void> => {
+        const { error } = await supabase
+            .from('workspace_members')
+            .upsert({ workspace_id: workspaceId, user_id: userId }, { onConflict: 'workspace_id,user_id', ignoreDuplicates: true })
+
+        if (error) throw error
+    },
+
+    remove: async (workspaceId: string, userId: string): Promise<void> => {
+        const { error } = await supabase
+            .from('workspace_members')
+            .delete()
+            .eq('workspace_id', workspaceId)
+            .eq('user_id', userId)
+
+        if (error) throw error
+    },
+}
+
+export const auditLogDb = {
+    // Append-only: não há update/delete
+    insert: async (entry: Omit<AuditLogEntry, 'id' | 'createdAt'>): Promise<void> => {
+        const { error } = await supabase
+            .from('audit_log')
+            .insert({
+                workspace_id: entry.workspaceId ?? null,
+                actor_type: entry.actorType,
+                actor_id: entry.actorId ?? null,
+                actor_label: entry.actorLabel ?? null,
+                action: entry.action,
+                entity_type: entry.entityType ?? null,
+                entity_id: entry.entityId ?? null,
+                metadata: entry.metadata,
+                changes: entry.changes ?? null,
+                ip: entry.ip ?? null,
+            })
+
+        if (error) throw error
+    },
+
+    /**
+     * Eventos do workspace atual e da instalação (workspace_id nulo),
+     * mais recentes primeiro.
+     */
+    list: async (filters: AuditLogFilters = {}): Promise<{ data: AuditLogEntry[]; total: number }> => {
+        const { action, actorType, entityType, entityId, from, to, limit = 50, offset = 0 } = filters
+        const workspaceId = await getCurrentWorkspaceId()
+
+        let query = supabase
+            .from('audit_log')
+            .select('*', { count: 'exact' })
+            .or(`workspace_id.eq.${workspaceId},workspace_id.is.null`)
+
+        // Prefixo: "campaign" filtra campaign.dispatch, campaign.pause...
+        if (action) query = query.like('action', `${action.replace(/[%_]/g, '')}%`)
+        if (actorType) query = query.eq('actor_type', actorType)
+        if (entityType) query = query.eq('entity_type', entityType)
+        if (entityId) query = query.eq('entity_id', entityId)
+        if (from) query = query.gte('created_at', from)
+        if (to) query = query.lte('created_at', to)
+
+        const { data, error, count } = await query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) throw error
+
+        return { data: (data || []).map(mapAuditLogEntry), total: count || 0 }
+    },
+
+    listByActor: async (actorType: AuditActorType, actorId: string, limit = 100): Promise<AuditLogEntry[]> => {
+        const { data, error } = await supabase
+            .from('audit_log')
+            .select('*')
+            .eq('actor_type', actorType)
+            .eq('actor_id', actorId)
+            .order('created_at', { ascending: false })
+            .limit(limit)
+
+        if (error) throw error
+
+        return (data || []).map(mapAuditLogEntry)
+    },
+}
+
+// ============================================================================
+// OUTBOUND WEBHOOKS (endpoints e log de entregas)
+// ============================================================================
+
+const mapWebhookEndpoint = (row: any): WebhookEndpoint => ({
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    secret: row.secret,
+    eventTypes: row.event_types || [],
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+})
+
+const mapWebhookDelivery = (row: any): WebhookDelivery => ({
+    id: row.id,
+    endpointId: row.endpoint_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    responseBody: row.response_body,
+    error: row.error,
+    lastAttemptAt: row.last_attempt_at,
+    nextRetryAt: row.next_retry_at,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at,
+})
+
+export const webhookEndpointDb = {
+    getAll: async (): Promise<WebhookEndpoint[]> => {
+        const { data, error } = await supabase
+            .from('webhook_endpoints')
+            .select('*')
+            .order('created_at', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map(mapWebhookEndpoint)
+    },
+
+    getById: async (id: string): Promise<WebhookEndpoint | undefined> => {
+        const { data, error } = await supabase
+            .from('webhook_endpoints')
+            .select('*')
+            .eq('id', id)
+            .single()
+
+        if (error || !data) return undefined
+
+        return mapWebhookEndpoint(data)
+    },
+
+    // Endpoints ativos do workspace (o filtro por evento é feito por quem publica)
+    getActive: async (): Promise<WebhookEndpoint[]> => {
+        const { data, error } = await supabase
+            .from('webhook_endpoints')
+            .select('*')
+            .eq('is_active', true)
+
+        if (error) throw error
+
+        return (data || []).map(mapWebhookEndpoint)
+    },
+
+    create: async (input: { name: string; url: string; secret: string; eventTypes: WebhookEventType[] }): Promise<WebhookEndpoint> => {
+        const { data, error } = await supabase
+            .from('webhook_endpoints')
+            .insert({
+                name: input.name,
+                url: input.url,
+                secret: input.secret,
+                event_types: input.eventTypes,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapWebhookEndpoint(data)
+    },
+
+    update: async (
+        id: string,
+        input: Partial<Pick<WebhookEndpoint, 'name' | 'url' | 'secret' | 'eventTypes' | 'isActive'>>
+    ): Promise<WebhookEndpoint | undefined> => {
+        const updateData: Record<string, unknown> = {}
+
+        if (input.name !== undefined) updateData.name = input.name
+        if (input.url !== undefined) updateData.url = input.url
+        if (input.secret !== undefined) updateData.secret = input.secret
+        if (input.eventTypes !== undefined) updateData.event_types = input.eventTypes
+        if (input.isActive !== undefined) updateData.is_active = input.isActive
+
+        const { error } = await supabase
+            .from('webhook_endpoints')
+            .update(updateData)
+            .eq('id', id)
+
+        if (error) throw error
+
+        return webhookEndpointDb.getById(id)
+    },
+
+    delete: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('webhook_endpoints')
+            .delete()
+            .eq('id', id)
+
+        if (error) throw error
+    },
+}
+
+export const webhookDeliveryDb = {
+    create: async (input: { endpointId: string; eventId: string; eventType: WebhookEventType; payload: WebhookEventEnvelope }): Promise<WebhookDelivery> => {
+        const { data, error } = await supabase
+            .from('webhook_deliveries')
+            .insert({
+                endpoint_id: input.endpointId,
+                event_id: input.eventId,
+                event_type: input.eventType,
+                payload: input.payload,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapWebhookDelivery(data)
+    },
+
+    getById: async (id: string): Promise<WebhookDelivery | undefined> => {
+        const { data, error } = await supabase
+            .from('webhook_deliveries')
+            .select('*')
+            .eq('id', id)
+            .single()
+
+        if (error || !data) return undefined
+
+        return mapWebhookDelivery(data)
+    },
+
+    // Reserva a entrega para uma tentativa (pending -> delivering); uma reserva
+    // anterior a staleBefore (worker que morreu no meio) pode ser retomada
+    claim: async (id: string, staleBefore: string): Promise<boolean> => {
+        const { data, error } = await supabase
+            .from('webhook_deliveries')
+            .update({ status: 'delivering', last_attempt_at: new Date().toISOString() })
+            .eq('id', id)
+            .or(`status.eq.pending,and(status.eq.delivering,last_attempt_at.lt.${staleBefore})`)
+            .select('id')
+            .maybeSingle()
+
+        if (error) throw error
+
+        return !!data
+    },
+
+    // Resultado de uma tentativa
+    recordAttempt: async (
+        id: string,
+        result: Pick<WebhookDelivery, 'status' | 'attempts' | 'responseStatus' | 'responseBody' | 'error' | 'nextRetryAt' | 'deliveredAt'>
+    ): Promise<void> => {
+        const { error } = await supabase
+            .from('webhook_deliveries')
+            .update({
+                status: result.status,
+                attempts: result.attempts,
+                response_status: result.responseStatus ?? null,
+                response_body: result.responseBody ?? null,
+                error: result.error ?? null,
+                last_attempt_at: new Date().toISOString(),
+                next_retry_at: result.nextRetryAt ?? null,
+                delivered_at: result.deliveredAt ?? null,
+            })
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
+    // Mais recentes primeiro
+    list: async (filters: WebhookDeliveryFilters = {}): Promise<{ data: WebhookDelivery[]; total: number }> => {
+        const { endpointId, eventType, status, limit = 50, offset = 0 } = filters
+
+        let query = supabase
+            .from('webhook_deliveries')
+            .select('*', { count: 'exact' })
+
+        if (endpointId) query = query.eq('endpoint_id', endpointId)
+        if (eventType) query = query.eq('event_type', eventType)
+        if (status) query = query.eq('status', status)
+
+        const { data, error, count } = await query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) throw error
+
+        return { data: (data || []).map(mapWebhookDelivery), total: count || 0 }
+    },
+}
+
+// ============================================================================
+// WHATSAPP PHONE NUMBERS (múltiplos números por workspace)
+// ============================================================================
+
+const mapWhatsAppPhoneNumber = (row: any, primaryPhoneNumberId: string | null): WhatsAppPhoneNumber => ({
+    id: row.id,
+    phoneNumberId: row.phone_number_id,
+    displayPhoneNumber: row.display_phone_number ?? null,
+    verifiedName: row.verified_name ?? null,
+    label: row.label ?? null,
+    aiAgentId: row.ai_agent_id ?? null,
+    qualityRating: row.quality_rating ?? null,
+    messagingLimitTier: row.messaging_limit_tier ?? null,
+    limitsUpdatedAt: row.limits_updated_at ?? null,
+    isPrimary: !!primaryPhoneNumberId && row.phone_number_id === primaryPhoneNumberId,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+})
+
+export const phoneNumberDb = {
+    getAll: async (): Promise<WhatsAppPhoneNumber[]> => {
+        const [{ data, error }, primary] = await Promise.all([
+            supabase
+                .from('whatsapp_phone_numbers')
+                .select('*')
+                .order('created_at', { ascending: true }),
+            settingsDb.get('phoneNumberId'),
+        ])
+
+        if (error) throw error
+
+        return (data || []).map((row) => mapWhatsAppPhoneNumber(row, primary))
+    },
+
+    getByPhoneNumberId: async (phoneNumberId: string): Promise<WhatsAppPhoneNumber | undefined> => {
+        const [{ data, error }, primary] = await Promise.all([
+            supabase
+                .from('whatsapp_phone_numbers')
+                .select('*')
+                .eq('phone_number_id', phoneNumberId)
+                .maybeSingle(),
+            settingsDb.get('phoneNumberId'),
+        ])
+
+        if (error || !data) return undefined
+
+        return mapWhatsAppPhoneNumber(data, primary)
+    },
+
+    // Registra (ou atualiza os dados da Meta de) um número da WABA
+    upsert: async (input: {
+        phoneNumberId: string
+        displayPhoneNumber?: string | null
+        verifiedName?: string | null
+        qualityRating?: string | null
+        label?: string | null
+    }): Promise<WhatsAppPhoneNumber> => {
+        const row: Record<string, unknown> = { phone_number_id: input.phoneNumberId }
+
+        if (input.displayPhoneNumber !== undefined) row.display_phone_number = input.displayPhoneNumber
+        if (input.verifiedName !== undefined) row.verified_name = input.verifiedName
+        if (input.qualityRating !== undefined) row.quality_rating = input.qualityRating
+        if (input.label !== undefined) row.label = input.label
+
+        const { error } = await supabase
+            .from('whatsapp_phone_numbers')
+            .upsert(row, { onConflict: 'phone_number_id' })
+
+        if (error) throw error
+
+        const saved = await phoneNumberDb.getByPhoneNumberId(input.phoneNumberId)
+        if (!saved) throw new Error('Falha ao registrar número')
+        return saved
+    },
+
+    update: async (
+        phoneNumberId: string,
+        input: Partial<Pick<WhatsAppPhoneNumber, 'label' | 'aiAgentId'>>
+    ): Promise<WhatsAppPhoneNumber | undefined> => {
+        const updateData: Record<string, unknown> = {}
+
+        if (input.label !== undefined) updateData.label = input.label
+        if (input.aiAgentId !== undefined) updateData.ai_agent_id = input.aiAgentId
+
+        const { error } = await supabase
+            .from('whatsapp_phone_numbers')
+            .update(updateData)
+            .eq('phone_number_id', phoneNumberId)
+
+        if (error) throw error
+
+        return phoneNumberDb.getByPhoneNumberId(phoneNumberId)
+    },
+
+    // Última leitura de qualidade/tier (GET /api/account/limits)
+    recordLimits: async (
+        phoneNumberId: string,
+        input: { qualityRating: string | null; messagingLimitTier: string | null }
+    ): Promise<void> => {
+        const { error } = await supabase
+            .from('whatsapp_phone_numbers')
+            .update({
+                quality_rating: input.qualityRating,
+                messaging_limit_tier: input.messagingLimitTier,
+                limits_updated_at: new Date().toISOString(),
+            })
+            .eq('phone_number_id', phoneNumberId)
+
+        if (error) throw error
+    },
+
+    delete: async (phoneNumberId: string): Promise<void> => {
+        const { error } = await supabase
+            .from('whatsapp_phone_numbers')
+            .delete()
+            .eq('phone_number_id', phoneNumberId)
+
+        if (error) throw error
+    },
+
+    // Webhook da Meta: descobre o workspace pelo número que recebeu o evento
+    findWorkspaceId: async (phoneNumberId: string): Promise<string | null> => {
+        const { data, error } = await runUnscoped(async () => supabase
+            .from('whatsapp_phone_numbers')
+            .select('workspace_id')
+            .eq('phone_number_id', phoneNumberId)
+            .limit(1)
+            .maybeSingle())
+
+        if (error || !data) return null
+
+        return data.workspace_id as string
+    },
+}
+
+// ============================================================================
+// CRM CONNECTORS (conectores, vínculos de contato e log de sincronização)
+// ============================================================================
+
+const mapCrmConnector = (row: any): CrmConnector => ({
+    id: row.id,
+    provider: row.provider,
+    name: row.name,
+    apiToken: row.api_token,
+    baseUrl: row.base_url ?? null,
+    fieldMappings: Array.isArray(row.field_mappings) ? row.field_mappings : [],
+    listMappings: Array.isArray(row.list_mappings) ? row.list_mappings : [],
+    optOutField: row.opt_out_field ?? null,
+    eventTypes: row.event_types || [],
+    syncContacts: row.sync_contacts,
+    importContacts: row.import_contacts,
+    inboundToken: row.inbound_token,
+    isActive: row.is_active,
+    lastImportAt: row.last_import_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+})
+
+const mapCrmSyncLog = (row: any): CrmSyncLog => ({
+    id: row.id,
+    connectorId: row.connector_id,
+    direction: row.direction,
+    kind: row.kind,
+    eventType: row.event_type ?? null,
+    contactId: row.contact_id ?? null,
+    phone: row.phone ?? null,
+    externalId: row.external_id ?? null,
+    payload: row.payload || {},
+    status: row.status,
+    attempts: row.attempts,
+    summary: row.summary ?? null,
+    error: row.error ?? null,
+    nextRetryAt: row.next_retry_at ?? null,
+    completedAt: row.completed_at ?? null,
+    createdAt: row.created_at,
+})
+
+type CrmConnectorInput = Pick<
+    CrmConnector,
+    'provider' | 'name' | 'apiToken' | 'baseUrl' | 'fieldMappings' | 'listMappings' | 'optOutField' | 'eventTypes' | 'syncContacts' | 'importContacts' | 'inboundToken'
+>
+
+export const crmConnectorDb = {
+    getAll: async (): Promise<CrmConnector[]> => {
+        const { data, error } = await supabase
+            .from('crm_connectors')
+            .select('*')
+            .order('created_at', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map(mapCrmConnector)
+    },
+
+    getById: async (id: string): Promise<CrmConnector | undefined> => {
+        const { data, error } = await supabase
+            .from('crm_connectors')
+            .select('*')
+            .eq('id', id)
+            .single()
+
+        if (error || !data) return undefined
+
+        return mapCrmConnector(data)
+    },
+
+    // Conectores ativos (opcionalmente só os que enviam o evento)
+    getActive: async (): Promise<CrmConnector[]> => {
+        const { data, error } = await supabase
+            .from('crm_connectors')
+            .select('*')
+            .eq('is_active', true)
+
+        if (error) throw error
+
+        return (data || []).map(mapCrmConnector)
+    },
+
+    create: async (input: CrmConnectorInput): Promise<CrmConnector> => {
+        const { data, error } = await supabase
+            .from('crm_connectors')
+            .insert({
+                provider: input.provider,
+                name: input.name,
+                api_token: input.apiToken,
+                base_url: input.baseUrl,
+                field_mappings: input.fieldMappings,
+                list_mappings: input.listMappings,
+                opt_out_field: input.optOutField,
+                event_types: input.eventTypes,
+                sync_contacts: input.syncContacts,
+                import_contacts: input.importContacts,
+                inbound_token: input.inboundToken,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapCrmConnector(data)
+    },
+
+    update: async (
+        id: string,
+        input: Partial<Omit<CrmConnectorInput, 'provider'> & Pick<CrmConnector, 'isActive' | 'lastImportAt'>>
+    ): Promise<CrmConnector | undefined> => {
+        const updateData: Record<string, unknown> = {}
+
+        if (input.name !== undefined) updateData.name = input.name
+        if (input.apiToken !== undefined) updateData.api_token = input.apiToken
+        if (input.baseUrl !== undefined) updateData.base_url = input.baseUrl
+        if (input.fieldMappings !== undefined) updateData.field_mappings = input.fieldMappings
+        if (input.listMappings !== undefined) updateData.list_mappings = input.listMappings
+        if (input.optOutField !== undefined) updateData.opt_out_field = input.optOutField
+        if (input.eventTypes !== undefined) updateData.event_types = input.eventTypes
+        if (input.syncContacts !== undefined) updateData.sync_contacts = input.syncContacts
+        if (input.importContacts !== undefined) updateData.import_contacts = input.importContacts
+        if (input.inboundToken !== undefined) updateData.inbound_token = input.inboundToken
+        if (input.isActive !== undefined) updateData.is_active = input.isActive
+        if (input.lastImportAt !== undefined) updateData.last_import_at = input.lastImportAt
+
+        const { error } = await supabase
+            .from('crm_connectors')
+            .update(updateData)
+            .eq('id', id)
+
+        if (error) throw error
+
+        return crmConnectorDb.getById(id)
+    },
+
+    delete: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('crm_connectors')
+            .delete()
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
+    // Webhook de entrada do CRM: descobre o workspace pelo conector
+    findWorkspaceId: async (id: string): Promise<string | null> => {
+        const { data, error } = await runUnscoped(async () => supabase
+            .from('crm_connectors')
+            .select('workspace_id')
+            .eq('id', id)
+            .maybeSingle())
+
+        if (error || !data) return null
+
+        return data.workspace_id as string
+    },
+}
+
+export const crmContactLinkDb = {
+    getExternalId: async (connectorId: string, contactId: string): Promise<string | null> => {
+        const { data, error } = await supabase
+            .from('crm_contact_links')
+            .select('external_id')
+            .eq('connector_id', connectorId)
+            .eq('contact_id', contactId)
+            .maybeSingle()
+
+        if (error || !data) return null
+
+        return data.external_id as string
+    },
+
+    getContactId: async (connectorId: string, externalId: string): Promise<string | null> => {
+        const { data, error } = await supabase
+            .from('crm_contact_links')
+            .select('contact_id')
+            .eq('connector_id', connectorId)
+            .eq('external_id', externalId)
+            .limit(1)
+            .maybeSingle()
+
+        if (error || !data) return null
+
+        return data.contact_id as string
+    },
+
+    save: async (connectorId: string, contactId: string, externalId: string): Promise<void> => {
+        const { error } = await supabase
+            .from('crm_contact_links')
+            .upsert(
+                {
+                    connector_id: connectorId,
+                    contact_id: contactId,
+                    external_id: externalId,
+                    synced_at: new Date().toISOString(),
+                },
+                { onConflict: 'connector_id,contact_id' }
+            )
+
+        if (error) throw error
+    },
+}
+
+export const crmSyncLogDb = {
+    create: async (input: Pick<CrmSyncLog, 'connectorId' | 'direction' | 'kind'> &
+        Partial<Pick<CrmSyncLog, 'eventType' | 'contactId' | 'phone' | 'payload' | 'status' | 'summary' | 'error'>>
+    ): Promise<CrmSyncLog> => {
+        const { data, error } = await supabase
+            .from('crm_sync_logs')
+            .insert({
+                connector_id: input.connectorId,
+                direction: input.direction,
+                kind: input.kind,
+                event_type: input.eventType ?? null,
+                contact_id: input.contactId ?? null,
+                phone: input.phone ?? null,
+                payload: input.payload ?? {},
+                status: input.status ?? 'pending',
+                summary: input.summary ?? null,
+                error: input.error ?? null,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapCrmSyncLog(data)
+    },
+
+    getById: async (id: string): Promise<CrmSyncLog | undefined> => {
+        const { data, error } = await supabase
+            .from('crm_sync_logs')
+            .select('*')
+            .eq('id', id)
+            .single()
+
+        if (error || !data) return undefined
+
+        return mapCrmSyncLog(data)
+    },
+
+    // Resultado de uma tentativa (ou da importação)
+    recordResult: async (
+        id: string,
+        result: Pick<CrmSyncLog, 'status' | 'attempts' | 'externalId' | 'summary' | 'error' | 'nextRetryAt'>
+    ): Promise<void> => {
+        const { error } = await supabase
+            .from('crm_sync_logs')
+            .update({
+                status: result.status,
+                attempts: result.attempts,
+                external_id: result.externalId ?? null,
+                summary: result.summary ?? null,
+                error: result.error ?? null,
+                next_retry_at: result.nextRetryAt ?? null,
+                completed_at: result.status === 'pending' ? null : new Date().toISOString(),
+            })
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
+    // Mais recentes primeiro
+    list: async (filters: CrmSyncLogFilters = {}): Promise<{ data: CrmSyncLog[]; total: number }> => {
+        const { connectorId, direction, status, limit = 50, offset = 0 } = filters
+
+        let query = supabase
+            .from('crm_sync_logs')
+            .select('*', { count: 'exact' })
+
+        if (connectorId) query = query.eq('connector_id', connectorId)
+        if (direction) query = query.eq('direction', direction)
+        if (status) query = query.eq('status', status)
+
+        const { data, error, count } = await query
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) throw error
+
+        return { data: (data || []).map(mapCrmSyncLog), total: count || 0 }
+    },
+}
+
+// ============================================================================
+// INBOUND WEBHOOKS (gatilho genérico e payloads recebidos)
+// ============================================================================
+
+const mapInboundWebhook = (row: any): InboundWebhook => ({
+    id: row.id,
+    name: row.name,
+    token: row.token,
+    fieldMapping: {
+        phone: row.field_mapping?.phone || '',
+        name: row.field_mapping?.name || undefined,
+        email: row.field_mapping?.email || undefined,
+        customFields: Array.isArray(row.field_mapping?.customFields) ? row.field_mapping.customFields : [],
+    },
+    conditionPath: row.condition_path ?? null,
+    conditionValue: row.condition_value ?? null,
+    action: row.action,
+    tags: row.tags || [],
+    templateName: row.template_name ?? null,
+    templateVariables: row.template_variables || {},
+    workflowId: row.workflow_id ?? null,
+    isActive: row.is_active,
+    lastReceivedAt: row.last_received_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+})
+
+const mapInboundWebhookEvent = (row: any): InboundWebhookEvent => ({
+    id: row.id,
+    webhookId: row.webhook_id,
+    payload: row.payload ?? {},
+    status: row.status,
+    contactId: row.contact_id ?? null,
+    phone: row.phone ?? null,
+    summary: row.summary ?? null,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+})
+
+type InboundWebhookInput = Pick<
+    InboundWebhook,
+    'name' | 'token' | 'fieldMapping' | 'conditionPath' | 'conditionValue' | 'action' | 'tags' | 'templateName' | 'templateVariables' | 'workflowId'
+>
+
+export const inboundWebhookDb = {
+    getAll: async (): Promise<InboundWebhook[]> => {
+        const { data, error } = await supabase
+            .from('inbound_webhooks')
+            .select('*')
+            .order('created_at', { ascending: true })
+
+        if (error) throw error
+
+        return (data || []).map(mapInboundWebhook)
+    },
+
+    getById: async (id: string): Promise<InboundWebhook | undefined> => {
+        const { data, error } = await supabase
+            .from('inbound_webhooks')
+            .select('*')
+            .eq('id', id)
+            .single()
+
+        if (error || !data) return undefined
+
+        return mapInboundWebhook(data)
+    },
+
+    create: async (input: InboundWebhookInput): Promise<InboundWebhook> => {
+        const { data, error } = await supabase
+            .from('inbound_webhooks')
+            .insert({
+                name: input.name,
+                token: input.token,
+                field_mapping: input.fieldMapping,
+                condition_path: input.conditionPath,
+                condition_value: input.conditionValue,
+                action: input.action,
+                tags: input.tags,
+                template_name: input.templateName,
+                template_variables: input.templateVariables,
+                workflow_id: input.workflowId,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapInboundWebhook(data)
+    },
+
+    update: async (
+        id: string,
+        input: Partial<InboundWebhookInput & Pick<InboundWebhook, 'isActive' | 'lastReceivedAt'>>
+    ): Promise<InboundWebhook | undefined> => {
+        const updateData: Record<string, unknown> = {}
+
+        if (input.name !== undefined) updateData.name = input.name
+        if (input.token !== undefined) updateData.token = input.token
+        if (input.fieldMapping !== undefined) updateData.field_mapping = input.fieldMapping
+        if (input.conditionPath !== undefined) updateData.condition_path = input.conditionPath
+        if (input.conditionValue !== undefined) updateData.condition_value = input.conditionValue
+        if (input.action !== undefined) updateData.action = input.action
+        if (input.tags !== undefined) updateData.tags = input.tags
+        if (input.templateName !== undefined) updateData.template_name = input.templateName
+        if (input.templateVariables !== undefined) updateData.template_variables = input.templateVariables
+        if (input.workflowId !== undefined) updateData.workflow_id = input.workflowId
+        if (input.isActive !== undefined) updateData.is_active = input.isActive
+        if (input.lastReceivedAt !== undefined) updateData.last_received_at = input.lastReceivedAt
+
+        const { error } = await supabase
+            .from('inbound_webhooks')
+            .update(updateData)
+            .eq('id', id)
+
+        if (error) throw error
+
+        return inboundWebhookDb.getById(id)
+    },
+
+    delete: async (id: string): Promise<void> => {
+        const { error } = await supabase
+            .from('inbound_webhooks')
+            .delete()
+            .eq('id', id)
+
+        if (error) throw error
+    },
+
+    // Receptor público: descobre o workspace pelo endpoint
+    findWorkspaceId: async (id: string): Promise<string | null> => {
+        const { data, error } = await runUnscoped(async () => supabase
+            .from('inbound_webhooks')
+            .select('workspace_id')
+            .eq('id', id)
+            .maybeSingle())
+
+        if (error || !data) return null
+
+        return data.workspace_id as string
+    },
+}
+
+export const inboundWebhookEventDb = {
+    create: async (input: {
+        webhookId: string
+        payload: unknown
+        status: InboundWebhookEventStatus
+        contactId?: string | null
+        phone?: string | null
+        summary?: string | null
+        error?: string | null
+    }): Promise<InboundWebhookEvent> => {
+        const { data, error } = await supabase
+            .from('inbound_webhook_events')
+            .insert({
+                webhook_id: input.webhookId,
+                payload: input.payload ?? {},
+                status: input.status,
+                contact_id: input.contactId ?? null,
+                phone: input.phone ?? null,
+                summary: input.summary ?? null,
+                error: input.error ?? null,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapInboundWebhookEvent(data)
+    },
+
+    getById: async (id: string): Promise<InboundWebhookEvent | undefined> => {
+        const { data, error } = await supabase
+            .from('inbound_webhook_events')
+            .select('*')
+            .eq('id', id)
+            .single()
+
+        if (error || !data) return undefined
+
+        return mapInboundWebhookEvent(data)
+    },
+
+    // Mais recentes primeiro
+    listByWebhook: async (webhookId: string, limit = 20): Promise<InboundWebhookEvent[]> => {
+        const { data, error } = await supabase
+            .from('inbound_webhook_events')
+            .select('*')
+            .eq('webhook_id', webhookId)
+            .order('created_at', { ascending: false })
+            .limit(limit)
+
+        if (error) throw error
+
+        return (data || []).map(mapInboundWebhookEvent)
+    },
+
+    // Mantém só os `keep` payloads mais recentes do endpoint
+    prune: async (webhookId: string, keep: number): Promise<void> => {
+        const { data, error } = await supabase
+            .from('inbound_webhook_events')
+            .select('id')
+            .eq('webhook_id', webhookId)
+            .order('created_at', { ascending: false })
+            .range(keep, keep + 99)
+
+        if (error) throw error
+        if (!data || data.length === 0) return
+
+        const { error: deleteError } = await supabase
+            .from('inbound_webhook_events')
+            .delete()
+            .in('id', data.map((row: any) => row.id))
+
+        if (deleteError) throw deleteError
+    },
+}
+
+// ============================================================================
+// CONVERSIONS (vendas/pedidos atribuídos a campanhas e conversas)
+// ============================================================================
+
+const mapConversion = (row: any): Conversion => ({
+    id: row.id,
+    contactId: row.contact_id ?? null,
+    phone: row.phone ?? null,
+    email: row.email ?? null,
+    orderId: row.order_id ?? null,
+    value: Number(row.value) || 0,
+    currency: row.currency,
+    occurredAt: row.occurred_at,
+    attribution: row.attribution,
+    touch: row.touch ?? null,
+    touchedAt: row.touched_at ?? null,
+    campaignId: row.campaign_id ?? null,
+    conversationId: row.conversation_id ?? null,
+    aiAgentId: row.ai_agent_id ?? null,
+    metadata: row.metadata ?? {},
+    createdAt: row.created_at,
+})
+
+export const conversionDb = {
+    create: async (input: Omit<Conversion, 'id' | 'createdAt'>): Promise<Conversion> => {
+        const { data, error } = await supabase
+            .from('conversions')
+            .insert({
+                contact_id: input.contactId,
+                phone: input.phone,
+                email: input.email,
+                order_id: input.orderId,
+                value: input.value,
+                currency: input.currency,
+                occurred_at: input.occurredAt,
+                attribution: input.attribution,
+                touch: input.touch,
+                touched_at: input.touchedAt,
+                campaign_id: input.campaignId,
+                conversation_id: input.conversationId,
+                ai_agent_id: input.aiAgentId,
+                metadata: input.metadata,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        return mapConversion(data)
+    },
+
+    getByOrderId: async (orderId: string): Promise<Conversion | undefined> => {
+        const { data, error } = await supabase
+            .from('conversions')
+            .select('*')
+            .eq('order_id', orderId)
+            .maybeSingle()
+
+        if (error || !data) return undefined
+
+        return mapConversion(data)
+    },
+
+    // Mais recentes primeiro
+    list: async (filters: ConversionFilters = {}): Promise<{ data: Conversion[]; total: number }> => {
+        const { campaignId, aiAgentId, attribution, limit = 50, offset = 0 } = filters
+
+        let query = supabase
+            .from('conversions')
+            .select('*', { count: 'exact' })
+
+        if (campaignId) query = query.eq('campaign_id', campaignId)
+        if (aiAgentId) query = query.eq('ai_agent_id', aiAgentId)
+        if (attribution) query = query.eq('attribution', attribution)
+
+        const { data, error, count } = await query
+            .order('occurred_at', { ascending: false })
+            .range(offset, offset + limit - 1)
+
+        if (error) throw error
+
+        return { data: (data || []).map(mapConversion), total: count || 0 }
+    },
+
+    // Receita agrupada por moeda (maior receita primeiro)
+    getCampaignStats: async (campaignId: string): Promise<CampaignConversionStats[]> => {
+        const { data, error } = await supabase.rpc('get_campaign_conversion_stats', { p_campaign_id: campaignId })
+
+        if (error) throw error
+
+        return (Array.isArray(data) ? data : []).map((row: any) => ({
+            currency: row.currency,
+            conversions: Number(row.conversions) || 0,
+            revenue: Number(row.revenue) || 0,
+            lastConvertedAt: row.last_converted_at ?? null,
+        }))
+    },
+}
@@ -35,6 +35,21 @@ function getSupabaseServiceRoleKey(): string | undefined {
 // Use this for API routes and server components
 let _supabaseAdmin: SupabaseClient | null = null
 
+// fetch customizado do client admin (escopo de workspace, registrado no boot do servidor).
+// Fica no globalThis porque instrumentation e rotas podem ter instâncias distintas deste módulo.
+const ADMIN_FETCH_KEY = Symbol.for('smartzap.supabaseAdminFetch')
+type GlobalWithAdminFetch = typeof globalThis & { [ADMIN_FETCH_KEY]?: typeof fetch }
+
+/**
+ * Substitui o fetch usado pelo client admin (ex.: escopo de workspace).
+ */
+export function setSupabaseAdminFetch(adminFetch: typeof fetch | null): void {
+    (globalThis as GlobalWithAdminFetch)[ADMIN_FETCH_KEY] = adminFetch ?? undefined
+}
+
+const adminFetch: typeof fetch = (input, init) =>
+    ((globalThis as GlobalWithAdminFetch)[ADMIN_FETCH_KEY] ?? fetch)(input, init)
+
 /**
  * Retorna um client Supabase server-side com Service Role (bypassa RLS).
  *
@@ -76,6 +91,7 @@ export function getSupabaseAdmin(): SupabaseClient | null {
                 autoRefreshToken: false,
                 persistSession: false,
             },
+            global: { fetch: adminFetch },
         })
     }
     return _supabaseAdmin
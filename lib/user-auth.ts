@@ -5,12 +5,20 @@
  * - No password hashing needed (password stored in Vercel env)
  * - httpOnly + Secure cookies for sessions
  * - Rate limiting for brute force protection
+ * - Contas de usuário (e-mail + senha, com papel) criadas por convite;
+ *   o login por MASTER_PASSWORD equivale ao papel owner
  * 
  * Usa Supabase (PostgreSQL) como banco de dados
  */
 
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
 import { cookies } from 'next/headers'
 import { supabase } from './supabase'
+import { userDb, userInviteDb, workspaceMemberDb } from './supabase-db'
+import type { UserRole } from '../types'
+import { resolveSessionWorkspace } from './business/access'
+import { DEFAULT_WORKSPACE_ID, runWithWorkspace } from './workspace-context'
 import { normalizePhoneNumber, validateAnyPhoneNumber } from './phone-formatter'
 
 function getFirstName(fullName: string): string {
@@ -34,6 +42,8 @@ const LOCKOUT_DURATION = 15 * 60 * 1000 // 15 minutes
 type StoredSession = {
   token: string
   createdAt: string
+  /** Ausente = login pela MASTER_PASSWORD (owner) */
+  userId?: string
 }
 
 // ============================================================================
@@ -52,20 +62,33 @@ export interface UserAuthResult {
   success: boolean
   error?: string
   company?: Company
+  user?: SessionUser
+}
+
+export interface SessionUser {
+  /** null = login pela MASTER_PASSWORD */
+  id: string | null
+  name: string
+  email: string | null
+  role: UserRole
 }
 
 // ============================================================================
 // DATABASE HELPERS
 // ============================================================================
 
+// Login, sessões e empresa são da instalação (não de um workspace):
+// ficam sempre nas settings do workspace padrão.
+const instanceScope = <T>(fn: () => Promise<T>): Promise<T> => runWithWorkspace(DEFAULT_WORKSPACE_ID, fn)
+
 /**
  * Upsert a setting in the database
  */
 async function upsertSetting(key: string, value: string): Promise<void> {
   const now = new Date().toISOString()
-  const { error } = await supabase
+  const { error } = await instanceScope(async () => supabase
     .from('settings')
-    .upsert({ key, value, updated_at: now }, { onConflict: 'key' })
+    .upsert({ key, value, updated_at: now }, { onConflict: 'key' }))
 
   if (error) {
     // Não silencie erros de permissão/RLS — isso causa loops e estados falsos.
@@ -77,11 +100,11 @@ async function upsertSetting(key: string, value: string): Promise<void> {
  * Get a setting from the database
  */
 async function getSetting(key: string): Promise<{ value: string; updated_at: string } | null> {
-  const { data, error } = await supabase
+  const { data, error } = await instanceScope(async () => supabase
     .from('settings')
     .select('value, updated_at')
     .eq('key', key)
-    .single()
+    .single())
 
   if (error || !data) return null
   return data
@@ -91,7 +114,7 @@ async function getSetting(key: string): Promise<{ value: string; updated_at: str
  * Delete a setting from the database
  */
 async function deleteSetting(key: string): Promise<void> {
-  const { error } = await supabase.from('settings').delete().eq('key', key)
+  const { error } = await instanceScope(async () => supabase.from('settings').delete().eq('key', key))
   if (error) {
     throw new Error(`Falha ao remover setting "${key}": ${error.message}`)
   }
@@ -107,9 +130,10 @@ function parseStoredSessions(raw: string): StoredSession[] {
       if (!item || typeof item !== 'object') continue
       const token = (item as any).token
       const createdAt = (item as any).createdAt
+      const userId = (item as any).userId
       if (typeof token !== 'string' || token.length < 10) continue
       if (typeof createdAt !== 'string' || !createdAt) continue
-      sessions.push({ token, createdAt })
+      sessions.push(typeof userId === 'string' && userId ? { token, createdAt, userId } : { token, createdAt })
     }
     return sessions
   } catch {
@@ -147,11 +171,11 @@ export async function isSetupComplete(): Promise<boolean> {
   // Então consideramos "setup completo" se a empresa já foi gravada no banco.
   if (process.env.NODE_ENV !== 'production') {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await instanceScope(async () => supabase
         .from('settings')
         .select('key, value')
         .eq('key', 'company_name')
-        .single()
+        .single())
 
       if (error) {
         // Ajuda a diagnosticar "isSetup:false" causado por permissão negada.
@@ -172,10 +196,10 @@ export async function isSetupComplete(): Promise<boolean> {
  */
 export async function getCompany(): Promise<Company | null> {
   try {
-    const { data, error } = await supabase
+    const { data, error } = await instanceScope(async () => supabase
       .from('settings')
       .select('key, value')
-      .in('key', ['company_id', 'company_name', 'company_email', 'company_phone', 'company_created_at'])
+      .in('key', ['company_id', 'company_name', 'company_email', 'company_phone', 'company_created_at']))
 
     if (error || !data || data.length === 0) return null
 
@@ -357,6 +381,27 @@ function isHashFormat(value: string): boolean {
   return value.length === 64 && /^[a-f0-9]+$/i.test(value)
 }
 
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+const USER_PASSWORD_MIN_LENGTH = 8
+
+/**
+ * Hash das senhas de usuários (formato: scrypt$<salt>$<hash>)
+ */
+export async function hashUserPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex')
+  const derived = await scryptAsync(password, salt, 64)
+  return `scrypt$${salt}$${derived.toString('hex')}`
+}
+
+async function verifyUserPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const derived = await scryptAsync(password, salt, expected.length)
+  return derived.length === expected.length && timingSafeEqual(derived, expected)
+}
+
 /**
  * Attempt login with password
  * Validates against MASTER_PASSWORD env var
@@ -364,12 +409,18 @@ function isHashFormat(value: string): boolean {
  * Aceita dois formatos de MASTER_PASSWORD:
  * - Hash SHA-256 (64 chars hex): compara com hash da senha digitada (retrocompatível)
  * - Texto puro: compara diretamente (mais simples para reset)
+ *
+ * Com e-mail, autentica a conta de usuário (convidada) em vez da MASTER_PASSWORD.
  */
-export async function loginUser(password: string): Promise<UserAuthResult> {
+export async function loginUser(password: string, email?: string): Promise<UserAuthResult> {
   if (!password) {
     return { success: false, error: 'Senha é obrigatória' }
   }
 
+  if (email) {
+    return loginWithAccount(email, password)
+  }
+
   // Check if MASTER_PASSWORD is configured
   const masterPassword = process.env.MASTER_PASSWORD
   if (!masterPassword) {
@@ -416,6 +467,40 @@ export async function loginUser(password: string): Promise<UserAuthResult> {
   }
 }
 
+async function loginWithAccount(email: string, password: string): Promise<UserAuthResult> {
+  const isLocked = await checkRateLimiting()
+  if (isLocked) {
+    return { success: false, error: 'Muitas tentativas. Tente novamente em 15 minutos.' }
+  }
+
+  try {
+    const account = await userDb.getCredentialsByEmail(email)
+    const isValid = !!account && account.user.isActive && await verifyUserPassword(password, account.passwordHash)
+
+    if (!account || !isValid) {
+      await recordFailedAttempt()
+      return { success: false, error: 'E-mail ou senha incorretos' }
+    }
+
+    await clearFailedAttempts()
+    await createSession(account.user.id)
+    await userDb.touchLastLogin(account.user.id).catch((e) => {
+      console.warn('[auth] Falha ao registrar último login (best-effort):', e)
+    })
+
+    const { user } = account
+    const company = await getCompany()
+    return {
+      success: true,
+      company: company || undefined,
+      user: { id: user.id, name: user.name, email: user.email, role: user.role },
+    }
+  } catch (error) {
+    console.error('Login error:', error)
+    return { success: false, error: 'Erro ao fazer login' }
+  }
+}
+
 /**
  * Logout - destroy session
  */
@@ -427,6 +512,7 @@ export async function logoutUser(): Promise<void> {
 
   // Best-effort: remove o token atual da lista de sessões para revogar imediatamente.
   if (sessionToken) {
+    sessionUserCache.delete(sessionToken)
     try {
       const now = new Date()
       const stored = await getStoredSessions()
@@ -444,6 +530,81 @@ export async function logoutUser(): Promise<void> {
   }
 }
 
+// ============================================================================
+// INVITES
+// ============================================================================
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Token de convite (só o hash é salvo; o link com o token é exibido uma vez).
+ */
+export function createInviteToken(): { token: string; tokenHash: string; expiresAt: string } {
+  const token = randomBytes(24).toString('base64url')
+  return {
+    token,
+    tokenHash: hashInviteToken(token),
+    expiresAt: new Date(Date.now() + INVITE_TTL_MS).toISOString(),
+  }
+}
+
+function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Convite pendente pelo token do link
+ */
+export async function getInviteByToken(token: string) {
+  if (!token) return undefined
+  return userInviteDb.getPendingByTokenHash(hashInviteToken(token))
+}
+
+/**
+ * Aceita o convite: cria a conta com o papel do convite e já inicia a sessão.
+ */
+export async function acceptInvite(token: string, name: string, password: string): Promise<UserAuthResult> {
+  if (!name || name.trim().length < 2) {
+    return { success: false, error: 'Nome deve ter pelo menos 2 caracteres' }
+  }
+
+  if (!password || password.length < USER_PASSWORD_MIN_LENGTH) {
+    return { success: false, error: `A senha deve ter pelo menos ${USER_PASSWORD_MIN_LENGTH} caracteres` }
+  }
+
+  const invite = await getInviteByToken(token)
+  if (!invite) {
+    return { success: false, error: 'Convite inválido ou expirado' }
+  }
+
+  try {
+    const existing = await userDb.getCredentialsByEmail(invite.email)
+    if (existing) {
+      return { success: false, error: 'Já existe uma conta com este e-mail' }
+    }
+
+    const user = await userDb.create({
+      email: invite.email,
+      name,
+      role: invite.role,
+      passwordHash: await hashUserPassword(password),
+    })
+    await workspaceMemberDb.add(invite.workspaceId || DEFAULT_WORKSPACE_ID, user.id)
+    await userInviteDb.markAccepted(invite.id)
+    await createSession(user.id)
+
+    const company = await getCompany()
+    return {
+      success: true,
+      company: company || undefined,
+      user: { id: user.id, name: user.name, email: user.email, role: user.role },
+    }
+  } catch (error) {
+    console.error('Accept invite error:', error)
+    return { success: false, error: 'Erro ao aceitar convite' }
+  }
+}
+
 // ============================================================================
 // SESSION MANAGEMENT
 // ============================================================================
@@ -451,7 +612,7 @@ export async function logoutUser(): Promise<void> {
 /**
  * Create a new session
  */
-async function createSession(): Promise<void> {
+async function createSession(userId?: string): Promise<void> {
   const cookieStore = await cookies()
   const sessionToken = crypto.randomUUID()
 
@@ -462,7 +623,10 @@ async function createSession(): Promise<void> {
   const existing = await getStoredSessions()
   const now = new Date()
   const pruned = pruneExpiredSessions(existing || [], now)
-  const nextSessions = [...pruned, { token: sessionToken, createdAt: nowIso }].slice(-50)
+  const session: StoredSession = userId
+    ? { token: sessionToken, createdAt: nowIso, userId }
+    : { token: sessionToken, createdAt: nowIso }
+  const nextSessions = [...pruned, session].slice(-50)
   await setStoredSessions(nextSessions)
 
   // Backward-compat: ainda grava o token legado para instâncias antigas (se houver).
@@ -480,56 +644,133 @@ async function createSession(): Promise<void> {
 }
 
 /**
- * Validate current session
+ * Find the stored session for a token (null = invalid/expired)
  */
-export async function validateSession(): Promise<boolean> {
-  try {
-    const cookieStore = await cookies()
-    const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value
+async function findSession(sessionToken: string): Promise<StoredSession | null> {
+  const now = new Date()
 
-    if (!sessionToken) return false
+  // Prefer multi-session list when available
+  const storedSessions = await getStoredSessions()
+  if (storedSessions) {
+    const pruned = pruneExpiredSessions(storedSessions, now)
+    const found = pruned.find(s => s.token === sessionToken)
+
+    // Best-effort: se havia sessões expiradas, compacta a lista.
+    if (pruned.length !== storedSessions.length) {
+      try {
+        await setStoredSessions(pruned.slice(-50))
+      } catch {
+        // ignore
+      }
+    }
 
-    const now = new Date()
+    return found || null
+  }
 
-    // Prefer multi-session list when available
-    const storedSessions = await getStoredSessions()
-    if (storedSessions) {
-      const pruned = pruneExpiredSessions(storedSessions, now)
-      const found = pruned.some(s => s.token === sessionToken)
+  // Legacy fallback: single token
+  const setting = await getSetting('session_token')
+  if (!setting) return null
 
-      // Best-effort: se havia sessões expiradas, compacta a lista.
-      if (pruned.length !== storedSessions.length) {
-        try {
-          await setStoredSessions(pruned.slice(-50))
-        } catch {
-          // ignore
-        }
-      }
+  const storedToken = setting.value
+  const updatedAt = new Date(setting.updated_at)
 
-      if (!found) return false
-      return true
-    }
+  // Check if session is expired
+  const sessionAge = (now.getTime() - updatedAt.getTime()) / 1000
+  if (!Number.isNaN(sessionAge) && sessionAge > SESSION_MAX_AGE) return null
 
-    // Legacy fallback: single token
-    const setting = await getSetting('session_token')
-    if (!setting) return false
+  return sessionToken === storedToken ? { token: storedToken, createdAt: setting.updated_at } : null
+}
 
-    const storedToken = setting.value
-    const updatedAt = new Date(setting.updated_at)
+// Cache curto: o proxy resolve o usuário a cada chamada de API.
+// Mudanças de papel/desativação valem em até SESSION_USER_CACHE_TTL_MS.
+const SESSION_USER_CACHE_TTL_MS = 30_000
+const sessionUserCache = new Map<string, { user: SessionUser | null; expiresAt: number }>()
 
-    // Check if session is expired
-    const sessionAge = (now.getTime() - updatedAt.getTime()) / 1000
-    if (!Number.isNaN(sessionAge) && sessionAge > SESSION_MAX_AGE) {
-      await logoutUser()
-      return false
+const memberWorkspacesCache = new Map<string, { workspaceIds: string[]; expiresAt: number }>()
+
+/**
+ * Invalida o cache de sessões (após alterar papel, desativar, remover usuário
+ * ou mudar os workspaces dele).
+ */
+export function clearSessionUserCache(): void {
+  sessionUserCache.clear()
+  memberWorkspacesCache.clear()
+}
+
+async function getMemberWorkspaceIds(userId: string): Promise<string[]> {
+  const cached = memberWorkspacesCache.get(userId)
+  if (cached && cached.expiresAt > Date.now()) return cached.workspaceIds
+
+  const workspaceIds = await workspaceMemberDb.listWorkspaceIds(userId)
+  memberWorkspacesCache.set(userId, { workspaceIds, expiresAt: Date.now() + SESSION_USER_CACHE_TTL_MS })
+  return workspaceIds
+}
+
+/**
+ * Workspace em que a sessão trabalha: o selecionado (cookie) se o usuário tiver
+ * acesso, senão o padrão (owner/admin) ou o primeiro do qual é membro.
+ * null = o usuário não é membro de nenhum workspace.
+ */
+export async function resolveSessionWorkspaceId(user: SessionUser, requestedId: string | null): Promise<string | null> {
+  return resolveSessionWorkspace({
+    role: user.role,
+    requestedId,
+    // Login pela MASTER_PASSWORD não tem conta (é owner)
+    memberWorkspaceIds: user.id ? await getMemberWorkspaceIds(user.id) : [],
+    defaultWorkspaceId: DEFAULT_WORKSPACE_ID,
+  })
+}
+
+/**
+ * Resolve the user behind a session token (without reading cookies, usable in the proxy)
+ */
+export async function getSessionUserByToken(sessionToken: string): Promise<SessionUser | null> {
+  const cached = sessionUserCache.get(sessionToken)
+  if (cached && cached.expiresAt > Date.now()) return cached.user
+
+  let user: SessionUser | null = null
+  try {
+    const session = await findSession(sessionToken)
+    if (session?.userId) {
+      const account = await userDb.getById(session.userId)
+      if (account?.isActive) {
+        user = { id: account.id, name: account.name, email: account.email, role: account.role }
+      }
+    } else if (session) {
+      const adminName = await getSetting('company_admin')
+      user = { id: null, name: adminName?.value || 'Proprietário', email: null, role: 'owner' }
     }
+  } catch {
+    return null
+  }
+
+  sessionUserCache.set(sessionToken, { user, expiresAt: Date.now() + SESSION_USER_CACHE_TTL_MS })
+  return user
+}
+
+/**
+ * Current session user (null = not signed in)
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  try {
+    const cookieStore = await cookies()
+    const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value
+
+    if (!sessionToken) return null
 
-    return sessionToken === storedToken
+    return await getSessionUserByToken(sessionToken)
   } catch {
-    return false
+    return null
   }
 }
 
+/**
+ * Validate current session
+ */
+export async function validateSession(): Promise<boolean> {
+  return !!(await getSessionUser())
+}
+
 /**
  * Get auth status for client
  * OPTIMIZED: Parallelized queries for better performance
@@ -538,17 +779,18 @@ export async function getUserAuthStatus(): Promise<{
   isSetup: boolean
   isAuthenticated: boolean
   company: Company | null
+  user: SessionUser | null
 }> {
   // Run in parallel for better performance
-  const [isSetup, isAuthenticated] = await Promise.all([
+  const [isSetup, user] = await Promise.all([
     isSetupComplete(),
-    validateSession()
+    getSessionUser()
   ])
 
   // Only fetch company if authenticated 
-  const company = isAuthenticated ? await getCompany() : null
+  const company = user ? await getCompany() : null
 
-  return { isSetup, isAuthenticated, company }
+  return { isSetup, isAuthenticated: !!user, company, user }
 }
 
 // ============================================================================
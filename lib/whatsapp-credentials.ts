@@ -1,4 +1,4 @@
-import { settingsDb } from '@/lib/supabase-db'
+import { phoneNumberDb, settingsDb } from '@/lib/supabase-db'
 
 /**
  * WhatsApp Credentials Helper
@@ -19,16 +19,29 @@ export interface WhatsAppCredentials {
  * Get WhatsApp credentials from database
  *
  * Fonte única: Supabase Settings (configurado via UI)
+ *
+ * @param phoneNumberId - Número remetente (campanha/conversa). Os números da mesma WABA
+ * compartilham o token; números não registrados no workspace caem no principal.
  */
-export async function getWhatsAppCredentials(): Promise<WhatsAppCredentials | null> {
+export async function getWhatsAppCredentials(phoneNumberId?: string | null): Promise<WhatsAppCredentials | null> {
   try {
     const settings = await settingsDb.getAll()
 
-    const { phoneNumberId, businessAccountId, accessToken } = settings
+    const { businessAccountId, accessToken } = settings
+    let resolvedPhoneNumberId = settings.phoneNumberId
+
+    if (phoneNumberId && phoneNumberId !== resolvedPhoneNumberId) {
+      const registered = await phoneNumberDb.getByPhoneNumberId(phoneNumberId)
+      if (registered) {
+        resolvedPhoneNumberId = registered.phoneNumberId
+      } else {
+        console.warn(`[WhatsAppCredentials] Número ${phoneNumberId} não registrado; usando o principal`)
+      }
+    }
 
-    if (phoneNumberId && businessAccountId && accessToken) {
+    if (resolvedPhoneNumberId && businessAccountId && accessToken) {
       return {
-        phoneNumberId,
+        phoneNumberId: resolvedPhoneNumberId,
         businessAccountId,
         accessToken,
       }
@@ -41,6 +54,22 @@ export async function getWhatsAppCredentials(): Promise<WhatsAppCredentials | nu
   }
 }
 
+/**
+ * Números do workspace: principal primeiro, depois os registrados (sem repetição)
+ */
+export async function listWhatsAppPhoneNumberIds(): Promise<string[]> {
+  try {
+    const [primary, registered] = await Promise.all([
+      settingsDb.get('phoneNumberId'),
+      phoneNumberDb.getAll(),
+    ])
+    return Array.from(new Set([primary, ...registered.map((n) => n.phoneNumberId)].filter((id): id is string => !!id)))
+  } catch (error) {
+    console.error('Error listing WhatsApp phone numbers:', error)
+    return []
+  }
+}
+
 /**
  * Check if WhatsApp is configured
  */
@@ -13,6 +13,8 @@ import {
 } from '@/lib/whatsapp/media'
 import { fetchWithTimeout, safeJson, safeText } from '@/lib/server-http'
 import { normalizePhoneNumber } from '@/lib/phone-formatter'
+import { buildMetaTemplatePayload, type ResolvedTemplateValues } from '@/lib/whatsapp/template-contract'
+import type { Template } from '@/types'
 
 export type SendWhatsAppMessageType =
   | 'text'
@@ -215,6 +217,93 @@ function extractMessageId(data: unknown): string | undefined {
   return response.messages?.[0]?.id
 }
 
+// =============================================================================
+// TEMPLATE MESSAGE (contrato completo: header de mídia, botões, named params)
+// =============================================================================
+
+export interface SendTemplateMessageOptions {
+  to: string
+  template: Template
+  /** Valores já resolvidos pelo precheckContactForTemplate */
+  values: ResolvedTemplateValues
+  credentials?: WhatsAppCredentials
+}
+
+/**
+ * Send an approved template using the same payload contract as campaigns
+ *
+ * @param options - Template, resolved values and recipient
+ * @returns Result with messageId on success or error on failure
+ */
+export async function sendTemplateMessage(
+  options: SendTemplateMessageOptions
+): Promise<SendWhatsAppMessageResult> {
+  const credentials = options.credentials || (await getWhatsAppCredentials())
+  if (!credentials?.accessToken || !credentials?.phoneNumberId) {
+    return { success: false, error: 'WhatsApp credentials not configured' }
+  }
+
+  const normalizedTo = normalizePhoneNumber(options.to)
+  if (!normalizedTo || !/^\+\d{8,15}$/.test(normalizedTo)) {
+    return { success: false, error: `Invalid phone number: ${options.to}` }
+  }
+
+  let payload: Record<string, unknown>
+  try {
+    payload = buildMetaTemplatePayload({
+      to: normalizedTo,
+      templateName: options.template.name,
+      language: options.template.language || 'pt_BR',
+      parameterFormat: options.template.parameterFormat || 'positional',
+      values: options.values,
+      template: options.template,
+    })
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build template payload',
+    }
+  }
+
+  try {
+    const response = await fetchWithTimeout(
+      `https://graph.facebook.com/v24.0/${credentials.phoneNumberId}/messages`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${credentials.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+        timeoutMs: 8000,
+      }
+    )
+
+    const data = await safeJson(response)
+
+    if (!response.ok) {
+      const details = data ?? (await safeText(response))
+      const metaError =
+        typeof details === 'object' && details !== null && 'error' in details
+          ? (details as { error?: { message?: string; code?: number } }).error
+          : undefined
+
+      return {
+        success: false,
+        error: metaError?.message || 'WhatsApp template send failed',
+        details,
+      }
+    }
+
+    return { success: true, messageId: extractMessageId(data) }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send template',
+    }
+  }
+}
+
 // =============================================================================
 // TYPING INDICATOR
 // =============================================================================
@@ -0,0 +1,32 @@
+/**
+ * Worker Auth
+ * Autenticação dos workers internos (/api/webhook/*) chamados pelo QStash ou
+ * pelo timer em memória do dev local: Authorization: Bearer <segredo do worker>.
+ */
+
+import type { NextRequest } from 'next/server'
+
+/**
+ * Segredo enviado pelos jobs agendados (admin key, com fallback para a API key).
+ */
+export function getWorkerSecret(): string {
+  return (process.env.SMARTZAP_ADMIN_KEY || process.env.SMARTZAP_API_KEY || '').trim()
+}
+
+function getBearerToken(req: NextRequest): string | null {
+  const h = req.headers.get('authorization')
+  if (!h) return null
+  const m = h.match(/^Bearer\s+(.+)$/i)
+  return m?.[1]?.trim() || null
+}
+
+/**
+ * A requisição traz o segredo do worker (false quando nenhum segredo está configurado).
+ */
+export function isWorkerRequestAuthorized(req: NextRequest): boolean {
+  const secret = getWorkerSecret()
+  if (!secret) return false
+
+  const token = getBearerToken(req)
+  return !!token && token === secret
+}
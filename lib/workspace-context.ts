@@ -0,0 +1,76 @@
+/**
+ * Workspace Context (server-only)
+ *
+ * Resolve o workspace ativo da requisição. Ordem:
+ * 1. Escopo explícito (`runWithWorkspace`) — webhooks, jobs e rotas públicas
+ * 2. Header `x-workspace-id` — chamadas do QStash/Workflow, chaves de API de workspace
+ *    e sessões do dashboard (o proxy troca o header da sessão pelo workspace do cookie
+ *    `smartzap_workspace`, validado contra os workspaces do usuário)
+ * 3. Workspace padrão
+ *
+ * O escopo no banco é aplicado pelo client admin (ver lib/workspace-scope.ts).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { headers } from 'next/headers'
+
+export const DEFAULT_WORKSPACE_ID = 'ws_default'
+export const WORKSPACE_COOKIE = 'smartzap_workspace'
+export const WORKSPACE_HEADER = 'x-workspace-id'
+
+const WORKSPACE_ID_PATTERN = /^ws_[\w-]{1,64}$/
+
+type WorkspaceScope = { workspaceId: string | null }
+
+const storage = new AsyncLocalStorage<WorkspaceScope>()
+
+export function isValidWorkspaceId(value: unknown): value is string {
+  return typeof value === 'string' && WORKSPACE_ID_PATTERN.test(value)
+}
+
+/**
+ * Executa `fn` com o workspace fixado (ignora header/cookie da requisição).
+ */
+export function runWithWorkspace<T>(workspaceId: string, fn: () => T): T {
+  return storage.run({ workspaceId: isValidWorkspaceId(workspaceId) ? workspaceId : DEFAULT_WORKSPACE_ID }, fn)
+}
+
+/**
+ * Executa `fn` sem filtro de workspace (lookups globais: webhook da Meta,
+ * slug de formulário público, token de atendente).
+ */
+export function runUnscoped<T>(fn: () => T): T {
+  return storage.run({ workspaceId: null }, fn)
+}
+
+/**
+ * Indica se o código está rodando dentro de `runUnscoped`.
+ */
+export function isUnscoped(): boolean {
+  const scope = storage.getStore()
+  return !!scope && scope.workspaceId === null
+}
+
+/**
+ * Workspace ativo da requisição atual (nunca lança; cai no padrão).
+ */
+export async function getCurrentWorkspaceId(): Promise<string> {
+  const scope = storage.getStore()
+  if (scope?.workspaceId) return scope.workspaceId
+
+  try {
+    const fromHeader = (await headers()).get(WORKSPACE_HEADER)
+    if (isValidWorkspaceId(fromHeader)) return fromHeader
+  } catch {
+    // Fora de uma requisição (scripts, testes, build)
+  }
+
+  return DEFAULT_WORKSPACE_ID
+}
+
+/**
+ * Headers para repassar o workspace em chamadas assíncronas (QStash, Workflow, fetch interno).
+ */
+export async function getWorkspaceHeaders(): Promise<Record<string, string>> {
+  return { [WORKSPACE_HEADER]: await getCurrentWorkspaceId() }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { scopePostgrestUrl } from './workspace-scope'
+
+const base = 'https://abc.supabase.co/rest/v1'
+
+describe('scopePostgrestUrl', () => {
+  it('filtra leituras, updates e deletes de tabelas escopadas', () => {
+    const url = scopePostgrestUrl(`${base}/contacts?select=*&phone=eq.%2B5511999999999`, 'GET', 'ws_a')
+    expect(new URL(url).searchParams.get('workspace_id')).toBe('eq.ws_a')
+    expect(new URL(url).searchParams.get('phone')).toBe('eq.+5511999999999')
+
+    expect(new URL(scopePostgrestUrl(`${base}/campaigns?id=eq.c1`, 'PATCH', 'ws_a')).searchParams.get('workspace_id')).toBe('eq.ws_a')
+    expect(new URL(scopePostgrestUrl(`${base}/settings?key=eq.x`, 'DELETE', 'ws_a')).searchParams.get('workspace_id')).toBe('eq.ws_a')
+  })
+
+  it('não mexe em tabelas filhas, RPCs ou filtros explícitos', () => {
+    const child = `${base}/campaign_contacts?campaign_id=eq.c1`
+    expect(scopePostgrestUrl(child, 'GET', 'ws_a')).toBe(child)
+
+    const rpc = `${base}/rpc/get_contact_stats`
+    expect(scopePostgrestUrl(rpc, 'POST', 'ws_a')).toBe(rpc)
+
+    const explicit = `${base}/contacts?workspace_id=eq.ws_b`
+    expect(scopePostgrestUrl(explicit, 'GET', 'ws_a')).toBe(explicit)
+  })
+
+  it('troca o on_conflict de upserts pela constraint do workspace', () => {
+    const settings = scopePostgrestUrl(`${base}/settings?on_conflict=key`, 'POST', 'ws_a')
+    expect(new URL(settings).searchParams.get('on_conflict')).toBe('workspace_id,key')
+
+    const templates = scopePostgrestUrl(`${base}/templates?on_conflict=name%2Clanguage`, 'POST', 'ws_a')
+    expect(new URL(templates).searchParams.get('on_conflict')).toBe('workspace_id,name,language')
+
+    const insert = `${base}/contacts?columns=%22name%22`
+    expect(scopePostgrestUrl(insert, 'POST', 'ws_a')).toBe(insert)
+    expect(scopePostgrestUrl(`${base}/contacts?on_conflict=id`, 'POST', 'ws_a')).toBe(`${base}/contacts?on_conflict=id`)
+  })
+})
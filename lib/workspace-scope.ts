@@ -0,0 +1,122 @@
+/**
+ * Workspace Scope (server-only)
+ *
+ * Aplica o workspace ativo em todas as chamadas PostgREST do client admin,
+ * sem precisar repetir `.eq('workspace_id', ...)` em cada query:
+ * - leituras/updates/deletes em tabelas escopadas recebem `workspace_id=eq.<id>`
+ * - upserts têm o `on_conflict` trocado pela constraint composta do workspace
+ * - inserts usam o DEFAULT da coluna (current_workspace_id() lê o header abaixo)
+ * - RPCs filtram via current_workspace_id()
+ *
+ * Registrado no boot do servidor (instrumentation.ts).
+ */
+
+import { setSupabaseAdminFetch } from '@/lib/supabase'
+import { WORKSPACE_HEADER, getCurrentWorkspaceId, isUnscoped } from '@/lib/workspace-context'
+
+/**
+ * Tabelas com coluna workspace_id (filhas herdam o escopo pela FK do pai).
+ */
+export const WORKSPACE_SCOPED_TABLES = new Set([
+  'settings',
+  'contacts',
+  'campaigns',
+  'templates',
+  'custom_field_definitions',
+  'phone_suppressions',
+  'campaign_folders',
+  'campaign_tags',
+  'contact_segments',
+  'inbox_conversations',
+  'inbox_labels',
+  'inbox_quick_replies',
+  'inbox_queues',
+  'inbox_scheduled_items',
+  'lead_forms',
+  'flows',
+  'workflows',
+  'ai_agents',
+  'attendant_tokens',
+  'template_projects',
+  'account_alerts',
+  'webhook_endpoints',
+  'webhook_deliveries',
+  'whatsapp_phone_numbers',
+  'crm_connectors',
+  'crm_contact_links',
+  'crm_sync_logs',
+  'inbound_webhooks',
+  'inbound_webhook_events',
+  'conversions',
+])
+
+/**
+ * on_conflict antigo -> constraint composta (ver migration de workspaces).
+ */
+const SCOPED_CONFLICT_TARGETS: Record<string, Record<string, string>> = {
+  settings: { key: 'workspace_id,key' },
+  contacts: { phone: 'workspace_id,phone' },
+  templates: { 'name,language': 'workspace_id,name,language' },
+  custom_field_definitions: { 'entity_type,key': 'workspace_id,entity_type,key' },
+  phone_suppressions: { phone: 'workspace_id,phone' },
+  campaign_folders: { name: 'workspace_id,name' },
+  campaign_tags: { name: 'workspace_id,name' },
+  inbox_labels: { name: 'workspace_id,name' },
+  inbox_quick_replies: { shortcut: 'workspace_id,shortcut' },
+  whatsapp_phone_numbers: { phone_number_id: 'workspace_id,phone_number_id' },
+}
+
+const REST_PATH = '/rest/v1/'
+
+/**
+ * Reescreve a URL de uma chamada PostgREST para o workspace informado.
+ * Retorna a URL original quando a tabela não é escopada.
+ */
+export function scopePostgrestUrl(url: string, method: string, workspaceId: string): string {
+  const index = url.indexOf(REST_PATH)
+  if (index === -1) return url
+
+  const parsed = new URL(url)
+  const resource = parsed.pathname.slice(parsed.pathname.indexOf(REST_PATH) + REST_PATH.length)
+  if (!WORKSPACE_SCOPED_TABLES.has(resource)) return url
+
+  const verb = method.toUpperCase()
+  if (verb === 'POST') {
+    const conflict = parsed.searchParams.get('on_conflict')
+    const scoped = conflict ? SCOPED_CONFLICT_TARGETS[resource]?.[conflict.replace(/\s/g, '')] : undefined
+    if (!scoped) return url
+    parsed.searchParams.set('on_conflict', scoped)
+    return parsed.toString()
+  }
+
+  if (parsed.searchParams.has('workspace_id')) return url
+  parsed.searchParams.append('workspace_id', `eq.${workspaceId}`)
+  return parsed.toString()
+}
+
+function resolveUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input
+  if (input instanceof URL) return input.href
+  return input.url
+}
+
+/**
+ * fetch usado pelo client admin: injeta o workspace atual nas chamadas PostgREST.
+ */
+export function createWorkspaceScopedFetch(baseFetch: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    const url = resolveUrl(input)
+    if (!url.includes(REST_PATH) || isUnscoped()) return baseFetch(input, init)
+
+    const workspaceId = await getCurrentWorkspaceId()
+    const headers = new Headers(init?.headers)
+    headers.set(WORKSPACE_HEADER, workspaceId)
+
+    // postgrest-js sempre chama fetch(url: string, init)
+    return baseFetch(scopePostgrestUrl(url, init?.method ?? 'GET', workspaceId), { ...init, headers })
+  }
+}
+
+export function registerWorkspaceScope(): void {
+  setSupabaseAdminFetch(createWorkspaceScopedFetch())
+}
@@ -7,6 +7,9 @@ import {
     unauthorizedResponse,
     forbiddenResponse
 } from '@/lib/auth'
+import { WORKSPACE_COOKIE, WORKSPACE_HEADER, isValidWorkspaceId } from '@/lib/workspace-context'
+import { type SessionUser, getSessionUserByToken, resolveSessionWorkspaceId } from '@/lib/user-auth'
+import { hasPermission, resolveRoutePermission } from '@/lib/business/access'
 
 export const config = {
     matcher: [
@@ -17,7 +20,7 @@ export const config = {
 }
 
 // Routes that don't require user authentication
-const PUBLIC_PAGES = ['/login', '/install', '/debug-auth', '/f', '/atendimento', '/docs']
+const PUBLIC_PAGES = ['/login', '/invite', '/install', '/debug-auth', '/f', '/r/', '/atendimento', '/docs']
 // Rotas que NÃO precisam de autenticação
 // CUIDADO: adicionar rotas aqui expõe elas publicamente!
 const PUBLIC_API_ROUTES = [
@@ -30,6 +33,24 @@ const PUBLIC_API_ROUTES = [
     '/api/public',            // Rotas explicitamente públicas (lead forms, etc)
 ]
 
+/**
+ * Headers de uma requisição de sessão: o workspace vem do cookie validado contra
+ * os workspaces do usuário, nunca do x-workspace-id enviado pelo cliente.
+ * null = o usuário não é membro de nenhum workspace.
+ */
+async function getSessionRequestHeaders(request: NextRequest, user: SessionUser | null): Promise<Headers | null> {
+    const headers = new Headers(request.headers)
+    headers.delete(WORKSPACE_HEADER)
+    if (!user) return headers
+
+    const requested = request.cookies.get(WORKSPACE_COOKIE)?.value
+    const workspaceId = await resolveSessionWorkspaceId(user, isValidWorkspaceId(requested) ? requested : null)
+    if (!workspaceId) return null
+
+    headers.set(WORKSPACE_HEADER, workspaceId)
+    return headers
+}
+
 export async function proxy(request: NextRequest) {
     const pathname = request.nextUrl.pathname
 
@@ -121,14 +142,25 @@ export async function proxy(request: NextRequest) {
     // API Routes - Use API Key authentication
     // ==========================================================================
     if (pathname.startsWith('/api/')) {
+        // Chaves de API de workspace só enxergam o próprio workspace:
+        // sobrescreve o x-workspace-id recebido antes de qualquer rota (inclusive públicas).
+        const hasApiKeyHeader = !!request.headers.get('authorization') || !!request.headers.get('x-api-key')
+        const keyAuth = hasApiKeyHeader ? await verifyApiKey(request) : null
+        const next = () => {
+            if (!keyAuth?.workspaceId) return NextResponse.next()
+            const headers = new Headers(request.headers)
+            headers.set(WORKSPACE_HEADER, keyAuth.workspaceId)
+            return NextResponse.next({ request: { headers } })
+        }
+
         // Auth endpoints are always public
         if (PUBLIC_API_ROUTES.some(route => pathname.startsWith(route))) {
-            return NextResponse.next()
+            return next()
         }
 
         // Public endpoints don't require authentication
         if (isPublicEndpoint(pathname)) {
-            return NextResponse.next()
+            return next()
         }
 
         // Admin endpoints require admin-level access
@@ -144,20 +176,36 @@ export async function proxy(request: NextRequest) {
             return NextResponse.next()
         }
 
+        // Chaves de workspace não gerenciam workspaces (nem criam outras chaves)
+        if (keyAuth?.workspaceId && pathname.startsWith('/api/workspaces')) {
+            return forbiddenResponse('Workspace API keys cannot manage workspaces')
+        }
+
         // Check for user session cookie (for browser API calls)
         if (sessionCookie?.value) {
-            // Session exists, allow request (validation happens in API route)
-            return NextResponse.next()
+            if (keyAuth?.valid) return next()
+
+            // Papel do usuário: bloqueia rotas fora das permissões dele
+            // (sessão inválida segue adiante; a validação acontece na API route)
+            const user = await getSessionUserByToken(sessionCookie.value)
+            const permission = resolveRoutePermission(pathname, request.method)
+            if (user && permission && !hasPermission(user.role, permission)) {
+                return forbiddenResponse(`Permission required: ${permission}`)
+            }
+
+            const headers = await getSessionRequestHeaders(request, user)
+            if (!headers) return forbiddenResponse('User is not a member of any workspace')
+            return NextResponse.next({ request: { headers } })
         }
 
         // All other API endpoints require at least API key
-        const authResult = await verifyApiKey(request)
+        const authResult = keyAuth ?? await verifyApiKey(request)
 
         if (!authResult.valid) {
             return unauthorizedResponse(authResult.error)
         }
 
-        return NextResponse.next()
+        return next()
     }
 
     // ==========================================================================
@@ -177,5 +225,10 @@ export async function proxy(request: NextRequest) {
     }
 
     // Session cookie exists - allow access (validation happens in layout)
-    return NextResponse.next()
+    const user = await getSessionUserByToken(sessionCookie.value)
+    const headers = await getSessionRequestHeaders(request, user)
+    if (!headers) {
+        return new NextResponse('Seu usuário não tem acesso a nenhum workspace.', { status: 403 })
+    }
+    return NextResponse.next({ request: { headers } })
 }
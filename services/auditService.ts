@@ -0,0 +1,35 @@
+import type { AuditLogEntry, AuditLogFilters } from '../types'
+
+export interface AuditLogPage {
+  data: AuditLogEntry[]
+  total: number
+  limit: number
+  offset: number
+}
+
+const toQuery = (filters: AuditLogFilters) => {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== null && value !== '') params.set(key, String(value))
+  }
+  return params.toString()
+}
+
+/**
+ * Audit Service
+ * Histórico de auditoria (listagem filtrável e exportação CSV)
+ */
+export const auditService = {
+  list: async (filters: AuditLogFilters = {}): Promise<AuditLogPage> => {
+    const response = await fetch(`/api/audit-log?${toQuery(filters)}`, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar histórico de auditoria')
+    }
+    return response.json()
+  },
+
+  /** URL de download do CSV com os mesmos filtros da listagem */
+  getExportUrl: (filters: AuditLogFilters = {}): string => {
+    return `/api/audit-log/export?${toQuery({ ...filters, limit: undefined, offset: undefined })}`
+  },
+}
@@ -474,6 +474,71 @@ describe('campaignService', () => {
     })
   })
 
+  // =============================================================================
+  // A/B TEST ROLLOUT
+  // =============================================================================
+  describe('rolloutAbTestWinner', () => {
+    it('deve disparar rollout do vencedor via dispatch', async () => {
+      const mockResult = { status: 'queued', count: 80 }
+      mockFetch.mockResolvedValueOnce(createMockResponse(mockResult))
+
+      const result = await campaignService.rolloutAbTestWinner('campaign-123', 'cv_b')
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/campaign/dispatch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ campaignId: 'campaign-123', trigger: 'ab_rollout', variantId: 'cv_b' }),
+      })
+      expect(result).toEqual(mockResult)
+    })
+
+    it('deve lancar erro quando falha', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(
+        { status: 'invalid', message: 'Variante não encontrada' },
+        { ok: false, status: 400 }
+      ))
+
+      await expect(campaignService.rolloutAbTestWinner('campaign-123', 'cv_x'))
+        .rejects.toThrow('Variante não encontrada')
+    })
+  })
+
+  describe('recurrence', () => {
+    it('deve atualizar o cron da campanha recorrente', async () => {
+      const recurrence = { cron: '0 9 * * 1', timezone: 'America/Sao_Paulo', active: true, scheduleId: 'scd_1' }
+      mockFetch.mockResolvedValueOnce(createMockResponse({ ok: true, recurrence }))
+
+      const result = await campaignService.updateRecurrence('campaign-123', { cron: '0 9 * * 1', timezone: 'America/Sao_Paulo' })
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/campaigns/campaign-123/recurrence', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cron: '0 9 * * 1', timezone: 'America/Sao_Paulo' }),
+      })
+      expect(result).toEqual(recurrence)
+    })
+
+    it('deve pausar a recorrência', async () => {
+      const recurrence = { cron: '0 9 * * 1', timezone: 'America/Sao_Paulo', active: false, scheduleId: null }
+      mockFetch.mockResolvedValueOnce(createMockResponse({ ok: true, recurrence }))
+
+      const result = await campaignService.pauseRecurrence('campaign-123')
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/campaigns/campaign-123/recurrence', { method: 'DELETE' })
+      expect(result.active).toBe(false)
+    })
+
+    it('deve lancar erro com detalhes quando o agendamento falha', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(
+        { error: 'Falha ao atualizar recorrência', details: 'QSTASH_TOKEN not configured' },
+        { ok: false, status: 502 }
+      ))
+
+      await expect(campaignService.updateRecurrence('campaign-123', { cron: '0 9 * * 1', timezone: 'America/Sao_Paulo' }))
+        .rejects.toThrow('Falha ao atualizar recorrência: QSTASH_TOKEN not configured')
+    })
+  })
+
   // =============================================================================
   // DELETE
   // =============================================================================
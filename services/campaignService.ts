@@ -8,6 +8,11 @@ import {
   CreateCampaignFolderDTO,
   UpdateCampaignFolderDTO,
   CreateCampaignTagDTO,
+  CampaignAbTest,
+  CampaignDripStep,
+  CampaignSendWindow,
+  CampaignRecurrence,
+  CampaignTrackedLink,
 } from '../types';
 import type { MissingParamDetail } from '../lib/whatsapp/template-contract';
 
@@ -32,6 +37,17 @@ interface CreateCampaignInput {
   flowName?: string | null;
   // Organização
   folderId?: string | null;
+  // Teste A/B: variants[0] é o template principal (variante A)
+  abTest?: Pick<CampaignAbTest, 'testPercent' | 'waitMinutes' | 'metric'> | null;
+  variants?: { templateName: string; templateVariables?: { header: string[], body: string[], buttons?: Record<string, string> } | null }[];
+  // Recorrência (cron + timezone) e sequência (drip)
+  recurrence?: { cron: string; timezone: string } | null;
+  dripSteps?: CampaignDripStep[] | null;
+  sendWindow?: CampaignSendWindow | null;
+  skipDormant?: boolean;
+  phoneNumberId?: string | null;
+  // Rastreio de cliques nos botões de URL que apontam para /r/{{1}}
+  trackedLinks?: CampaignTrackedLink[] | null;
   // Se true, salva como rascunho sem disparar
   isDraft?: boolean;
 }
@@ -216,7 +232,7 @@ export const campaignService = {
   },
 
   create: async (input: CreateCampaignInput): Promise<Campaign> => {
-    const { name, templateName, recipients, selectedContacts, selectedContactIds, scheduledAt, templateVariables, flowId, flowName, folderId, isDraft } = input;
+    const { name, templateName, recipients, selectedContacts, selectedContactIds, scheduledAt, templateVariables, flowId, flowName, folderId, abTest, variants, recurrence, dripSteps, sendWindow, skipDormant, phoneNumberId, trackedLinks, isDraft } = input;
 
     // 1. Create campaign in Database (source of truth) with contacts
     const response = await fetch('/api/campaigns', {
@@ -234,6 +250,14 @@ export const campaignService = {
         flowId,   // Flow/MiniApp ID (se template usar Flow)
         flowName, // Flow name para exibição
         folderId, // Organização por pasta
+        abTest,   // Teste A/B (opcional)
+        variants,
+        recurrence, // Recorrência (opcional)
+        dripSteps,  // Sequência (opcional)
+        sendWindow,  // Janela de envio no horário local do contato (opcional)
+        skipDormant, // Pula contatos dormentes/perdidos em templates de marketing
+        phoneNumberId, // Número remetente (opcional; padrão = principal)
+        trackedLinks,  // Destinos dos botões de URL rastreados (opcional)
       }),
     });
 
@@ -255,6 +279,12 @@ export const campaignService = {
       return newCampaign;
     }
 
+    // 3.1 Recorrente: cada execução do cron dispara uma campanha-filha
+    if (recurrence) {
+      console.log(`Campaign ${newCampaign.id} recurring (${recurrence.cron})`);
+      return newCampaign;
+    }
+
     // 4. Dispatch to Backend immediately (Execution)
     // Se o dispatch falhar (ex.: QSTASH_TOKEN ausente), precisamos falhar visivelmente
     // para o usuário não ficar com campanha "Enviando" sem nada sair.
@@ -340,6 +370,50 @@ export const campaignService = {
     return payload
   },
 
+  // Teste A/B: envia o vencedor ao restante da audiência agora (sem esperar o prazo).
+  // Sem variantId, o backend escolhe o vencedor pela métrica configurada.
+  rolloutAbTestWinner: async (campaignId: string, variantId?: string): Promise<{ status: string; count?: number; message?: string }> => {
+    const response = await fetch('/api/campaign/dispatch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ campaignId, trigger: 'ab_rollout', variantId }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      const base = payload?.error || payload?.message || 'Falha ao enviar vencedor do teste A/B'
+      const details = payload?.details ? String(payload.details) : ''
+      throw new Error(details ? `${base}: ${details}` : base)
+    }
+    return payload
+  },
+
+  updateRecurrence: async (campaignId: string, config: { cron: string; timezone: string }): Promise<CampaignRecurrence> => {
+    const response = await fetch(`/api/campaigns/${campaignId}/recurrence`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(config),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      const base = payload?.error || 'Falha ao atualizar recorrência'
+      const details = payload?.details ? String(typeof payload.details === 'string' ? payload.details : JSON.stringify(payload.details)) : ''
+      throw new Error(details ? `${base}: ${details}` : base)
+    }
+    return payload.recurrence
+  },
+
+  pauseRecurrence: async (campaignId: string): Promise<CampaignRecurrence> => {
+    const response = await fetch(`/api/campaigns/${campaignId}/recurrence`, { method: 'DELETE' })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao pausar recorrência')
+    }
+    return payload.recurrence
+  },
+
   delete: async (id: string): Promise<void> => {
     const response = await fetch(`/api/campaigns/${id}`, { method: 'DELETE' });
     if (!response.ok) {
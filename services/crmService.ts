@@ -0,0 +1,143 @@
+import type {
+  CrmConnector,
+  CrmEventType,
+  CrmFieldMapping,
+  CrmListMapping,
+  CrmProvider,
+  CrmSyncLog,
+  CrmSyncLogFilters,
+} from '../types'
+
+export interface CrmSyncLogPage {
+  data: CrmSyncLog[]
+  total: number
+}
+
+export interface CrmConnectorInput {
+  provider: CrmProvider
+  name: string
+  apiToken: string
+  baseUrl?: string | null
+  fieldMappings?: CrmFieldMapping[]
+  listMappings?: CrmListMapping[]
+  optOutField?: string | null
+  eventTypes?: CrmEventType[]
+  syncContacts?: boolean
+  importContacts?: boolean
+}
+
+export type CrmConnectorUpdate = Partial<Omit<CrmConnectorInput, 'provider'>> & {
+  isActive?: boolean
+  rotateInboundToken?: boolean
+}
+
+const toQuery = (filters: CrmSyncLogFilters) => {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== null && value !== '') params.set(key, String(value))
+  }
+  return params.toString()
+}
+
+/**
+ * CRM Service
+ * Conectores de CRM (HubSpot, RD Station, Pipedrive): cadastro, teste,
+ * importação e log de sincronização
+ */
+export const crmService = {
+  getAll: async (): Promise<CrmConnector[]> => {
+    const response = await fetch('/api/settings/crm', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar conectores')
+    }
+    return response.json()
+  },
+
+  create: async (input: CrmConnectorInput): Promise<CrmConnector> => {
+    const response = await fetch('/api/settings/crm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao cadastrar conector')
+    }
+
+    return payload
+  },
+
+  update: async (id: string, input: CrmConnectorUpdate): Promise<CrmConnector> => {
+    const response = await fetch(`/api/settings/crm/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao atualizar conector')
+    }
+
+    return payload
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/settings/crm/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao remover conector')
+    }
+  },
+
+  test: async (id: string): Promise<{ ok: boolean; error?: string }> => {
+    const response = await fetch(`/api/settings/crm/${encodeURIComponent(id)}/test`, {
+      method: 'POST',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao testar conexão')
+    }
+
+    return payload
+  },
+
+  importContacts: async (id: string): Promise<CrmSyncLog> => {
+    const response = await fetch(`/api/settings/crm/${encodeURIComponent(id)}/import`, {
+      method: 'POST',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok && !payload?.id) {
+      throw new Error(payload?.error || 'Falha ao importar contatos')
+    }
+
+    return payload
+  },
+
+  getLogs: async (filters: CrmSyncLogFilters = {}): Promise<CrmSyncLogPage> => {
+    const response = await fetch(`/api/settings/crm/logs?${toQuery(filters)}`, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar log de sincronização')
+    }
+    return response.json()
+  },
+
+  retry: async (logId: string): Promise<CrmSyncLog> => {
+    const response = await fetch(`/api/settings/crm/logs/${encodeURIComponent(logId)}/retry`, {
+      method: 'POST',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao reenviar')
+    }
+
+    return payload
+  },
+}
@@ -15,6 +15,7 @@ export interface DashboardStats {
   deliveryRate: string;
   activeCampaigns: string;
   failedMessages: string;
+  clickThroughRate: string;
   chartData: ChartDataPoint[];
 }
 
@@ -26,6 +27,8 @@ interface StatsAPIResponse {
   totalFailed: number;
   activeCampaigns: number;
   deliveryRate: number;
+  totalClicks?: number;
+  clickThroughRate?: number;
 }
 
 export const dashboardService = {
@@ -104,6 +107,7 @@ export const dashboardService = {
       deliveryRate: `${stats.deliveryRate}%`,
       activeCampaigns: stats.activeCampaigns.toString(),
       failedMessages: stats.totalFailed.toString(),
+      clickThroughRate: `${stats.clickThroughRate ?? 0}%`,
       chartData
     };
   },
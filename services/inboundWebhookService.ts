@@ -0,0 +1,102 @@
+import type {
+  InboundWebhook,
+  InboundWebhookAction,
+  InboundWebhookEvent,
+  InboundWebhookFieldMapping,
+  InboundWebhookTemplateVariables,
+} from '../types'
+
+export interface InboundWebhookInput {
+  name: string
+  fieldMapping: InboundWebhookFieldMapping
+  conditionPath?: string | null
+  conditionValue?: string | null
+  action: InboundWebhookAction
+  tags?: string[]
+  templateName?: string | null
+  templateVariables?: InboundWebhookTemplateVariables
+  workflowId?: string | null
+}
+
+/**
+ * Inbound Webhook Service
+ * Webhooks de entrada: endpoints com mapeamento, últimos payloads e reprocessamento
+ */
+export const inboundWebhookService = {
+  getAll: async (): Promise<InboundWebhook[]> => {
+    const response = await fetch('/api/settings/inbound-webhooks', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar webhooks de entrada')
+    }
+    return response.json()
+  },
+
+  create: async (input: InboundWebhookInput): Promise<InboundWebhook> => {
+    const response = await fetch('/api/settings/inbound-webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao criar webhook de entrada')
+    }
+
+    return payload
+  },
+
+  update: async (
+    id: string,
+    input: Partial<InboundWebhookInput> & { isActive?: boolean; rotateToken?: boolean }
+  ): Promise<InboundWebhook> => {
+    const response = await fetch(`/api/settings/inbound-webhooks/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao atualizar webhook de entrada')
+    }
+
+    return payload
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/settings/inbound-webhooks/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao remover webhook de entrada')
+    }
+  },
+
+  getEvents: async (id: string, limit = 20): Promise<InboundWebhookEvent[]> => {
+    const response = await fetch(
+      `/api/settings/inbound-webhooks/${encodeURIComponent(id)}/events?limit=${limit}`,
+      { cache: 'no-store' }
+    )
+    if (!response.ok) {
+      throw new Error('Falha ao buscar payloads recebidos')
+    }
+    return response.json()
+  },
+
+  replay: async (id: string, eventId: string): Promise<InboundWebhookEvent> => {
+    const response = await fetch(
+      `/api/settings/inbound-webhooks/${encodeURIComponent(id)}/events/${encodeURIComponent(eventId)}/replay`,
+      { method: 'POST' }
+    )
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao reprocessar payload')
+    }
+
+    return payload
+  },
+}
@@ -31,6 +31,14 @@ describe('inboxService', () => {
     expect(mockFetch).toHaveBeenCalledWith('/api/inbox/conversations?page=2&limit=10&status=open&search=ana')
   })
 
+  it('searchInbox deve enviar a busca e a paginação', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({ query: 'boleto', results: [], total: 0 }))
+
+    await inboxService.searchInbox({ query: 'boleto semana passada', limit: 20, offset: 40 })
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/inbox/search?q=boleto+semana+passada&limit=20&offset=40')
+  })
+
   it('getConversation deve lançar erro com status', async () => {
     mockFetch.mockResolvedValueOnce(createMockResponse({ error: 'Not found' }, { ok: false, status: 404 }))
 
@@ -43,6 +51,16 @@ describe('inboxService', () => {
     await expect(inboxService.sendMessage('c1', { content: 'oi' })).rejects.toThrow('Falhou')
   })
 
+  it('scheduleItem deve enviar o agendamento da conversa', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({ id: 's1', status: 'scheduled' }))
+
+    await inboxService.scheduleItem('c1', { kind: 'follow_up', due_at: '2026-10-21T12:00:00.000Z', note: 'cobrar proposta' })
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('/api/inbox/conversations/c1/scheduled')
+    expect(JSON.parse(init.body)).toEqual({ kind: 'follow_up', due_at: '2026-10-21T12:00:00.000Z', note: 'cobrar proposta' })
+  })
+
   it('createLabel deve enviar payload', async () => {
     mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'l1', name: 'VIP' }))
 
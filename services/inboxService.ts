@@ -8,9 +8,17 @@ import type {
   InboxMessage,
   InboxLabel,
   InboxQuickReply,
+  InboxQueue,
+  InboxQueueStrategy,
+  InboxAssignee,
+  InboxSearchResult,
+  InboxScheduledItem,
+  CreateInboxScheduledItemDTO,
   ConversationStatus,
   ConversationMode,
   ConversationPriority,
+  SlaConfig,
+  SlaReport,
 } from '@/types'
 
 // =============================================================================
@@ -24,8 +32,17 @@ export interface ConversationListParams {
   mode?: ConversationMode
   labelId?: string
   search?: string
+  /** me = atribuídas a mim; unassigned = sem responsável */
+  assigned?: ConversationAssignmentFilter
+  queueId?: string
+  /** sla = atrasadas/prazo mais próximo primeiro */
+  sort?: ConversationSort
 }
 
+export type ConversationAssignmentFilter = 'me' | 'unassigned'
+
+export type ConversationSort = 'recent' | 'sla'
+
 export interface ConversationListResult {
   conversations: InboxConversation[]
   total: number
@@ -33,6 +50,12 @@ export interface ConversationListResult {
   totalPages: number
 }
 
+export interface InboxSearchParams {
+  query: string
+  limit?: number
+  offset?: number
+}
+
 export interface MessageListParams {
   before?: string
   limit?: number
@@ -61,6 +84,9 @@ export interface UpdateConversationParams {
   labels?: string[]
   /** When human mode should auto-expire (ISO string). Set when switching to human mode. */
   human_mode_expires_at?: string | null
+  /** Responsável (null = sem responsável). O novo responsável é notificado por push. */
+  assigned_user_id?: string | null
+  queue_id?: string | null
 }
 
 export interface CreateLabelParams {
@@ -68,6 +94,13 @@ export interface CreateLabelParams {
   color?: string
 }
 
+export interface QueueParams {
+  name: string
+  strategy?: InboxQueueStrategy
+  member_user_ids?: string[]
+  is_default?: boolean
+}
+
 export interface CreateQuickReplyParams {
   title: string
   content: string
@@ -86,6 +119,9 @@ async function listConversations(params: ConversationListParams = {}): Promise<C
   if (params.mode) searchParams.set('mode', params.mode)
   if (params.labelId) searchParams.set('label', params.labelId)
   if (params.search) searchParams.set('search', params.search)
+  if (params.assigned) searchParams.set('assigned', params.assigned)
+  if (params.queueId) searchParams.set('queue', params.queueId)
+  if (params.sort && params.sort !== 'recent') searchParams.set('sort', params.sort)
 
   const response = await fetch(`/api/inbox/conversations?${searchParams.toString()}`)
   if (!response.ok) {
@@ -137,6 +173,19 @@ async function markAsRead(conversationId: string): Promise<void> {
   }
 }
 
+async function searchInbox(params: InboxSearchParams): Promise<InboxSearchResult> {
+  const searchParams = new URLSearchParams({ q: params.query })
+  if (params.limit) searchParams.set('limit', String(params.limit))
+  if (params.offset) searchParams.set('offset', String(params.offset))
+
+  const response = await fetch(`/api/inbox/search?${searchParams.toString()}`)
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to search inbox' }))
+    throw new Error(error.error || 'Failed to search inbox')
+  }
+  return response.json()
+}
+
 // =============================================================================
 // Message API
 // =============================================================================
@@ -173,9 +222,10 @@ export interface UploadMediaResult {
   filename?: string
 }
 
-async function uploadMedia(file: File): Promise<UploadMediaResult> {
+async function uploadMedia(file: File, conversationId?: string | null): Promise<UploadMediaResult> {
   const formData = new FormData()
   formData.append('file', file)
+  if (conversationId) formData.append('conversationId', conversationId)
 
   const response = await fetch('/api/inbox/media/upload', {
     method: 'POST',
@@ -195,6 +245,43 @@ async function uploadMedia(file: File): Promise<UploadMediaResult> {
   }
 }
 
+// =============================================================================
+// Scheduled Items API
+// =============================================================================
+
+async function listScheduledItems(conversationId: string): Promise<InboxScheduledItem[]> {
+  const response = await fetch(`/api/inbox/conversations/${conversationId}/scheduled`)
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch scheduled items' }))
+    throw new Error(error.error || 'Failed to fetch scheduled items')
+  }
+  return response.json()
+}
+
+async function scheduleItem(conversationId: string, params: CreateInboxScheduledItemDTO): Promise<InboxScheduledItem> {
+  const response = await fetch(`/api/inbox/conversations/${conversationId}/scheduled`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  })
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to schedule' }))
+    throw new Error(error.error || 'Failed to schedule')
+  }
+  return response.json()
+}
+
+async function cancelScheduledItem(conversationId: string, itemId: string): Promise<InboxScheduledItem> {
+  const response = await fetch(`/api/inbox/conversations/${conversationId}/scheduled/${itemId}`, {
+    method: 'DELETE',
+  })
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to cancel scheduled item' }))
+    throw new Error(error.error || 'Failed to cancel scheduled item')
+  }
+  return response.json()
+}
+
 // =============================================================================
 // Labels API
 // =============================================================================
@@ -280,6 +367,108 @@ async function deleteQuickReply(id: string): Promise<void> {
   }
 }
 
+// =============================================================================
+// Assignment & Queues API
+// =============================================================================
+
+async function listAssignees(): Promise<InboxAssignee[]> {
+  const response = await fetch('/api/inbox/assignees')
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch assignees' }))
+    throw new Error(error.error || 'Failed to fetch assignees')
+  }
+  return response.json()
+}
+
+async function listQueues(): Promise<InboxQueue[]> {
+  const response = await fetch('/api/inbox/queues')
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch queues' }))
+    throw new Error(error.error || 'Failed to fetch queues')
+  }
+  return response.json()
+}
+
+async function createQueue(params: QueueParams): Promise<InboxQueue> {
+  const response = await fetch('/api/inbox/queues', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  })
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to create queue' }))
+    throw new Error(error.error || 'Failed to create queue')
+  }
+  return response.json()
+}
+
+async function updateQueue(id: string, params: Partial<QueueParams>): Promise<InboxQueue> {
+  const response = await fetch(`/api/inbox/queues/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  })
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to update queue' }))
+    throw new Error(error.error || 'Failed to update queue')
+  }
+  return response.json()
+}
+
+async function deleteQueue(id: string): Promise<void> {
+  const response = await fetch(`/api/inbox/queues/${id}`, {
+    method: 'DELETE',
+  })
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to delete queue' }))
+    throw new Error(error.error || 'Failed to delete queue')
+  }
+}
+
+// =============================================================================
+// SLA API
+// =============================================================================
+
+export interface SlaConfigResult {
+  config: SlaConfig
+  source: 'db' | 'default'
+}
+
+async function getSlaConfig(): Promise<SlaConfigResult> {
+  const response = await fetch('/api/settings/inbox-sla')
+  if (!response.ok) {
+    throw new Error('Failed to fetch SLA config')
+  }
+  const data = await response.json()
+  return { config: data.config, source: data.source }
+}
+
+async function saveSlaConfig(config: SlaConfig): Promise<SlaConfig> {
+  const response = await fetch('/api/settings/inbox-sla', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(config),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || data.ok === false) {
+    throw new Error(data.error || 'Failed to save SLA config')
+  }
+  return data.config
+}
+
+async function getSlaReport(params: { from?: string; to?: string } = {}): Promise<SlaReport> {
+  const searchParams = new URLSearchParams()
+  if (params.from) searchParams.set('from', params.from)
+  if (params.to) searchParams.set('to', params.to)
+
+  const response = await fetch(`/api/inbox/sla/report?${searchParams.toString()}`)
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to fetch SLA report' }))
+    throw new Error(error.error || 'Failed to fetch SLA report')
+  }
+  return response.json()
+}
+
 // =============================================================================
 // T050: Handoff Operations
 // =============================================================================
@@ -391,12 +580,18 @@ export const inboxService = {
   updateConversation,
   deleteConversation,
   markAsRead,
+  searchInbox,
 
   // Messages
   listMessages,
   sendMessage,
   uploadMedia,
 
+  // Scheduled Items
+  listScheduledItems,
+  scheduleItem,
+  cancelScheduledItem,
+
   // Labels
   listLabels,
   createLabel,
@@ -408,6 +603,18 @@ export const inboxService = {
   updateQuickReply,
   deleteQuickReply,
 
+  // Assignment & Queues
+  listAssignees,
+  listQueues,
+  createQueue,
+  updateQueue,
+  deleteQueue,
+
+  // SLA
+  getSlaConfig,
+  saveSlaConfig,
+  getSlaReport,
+
   // Handoff
   handoffToHuman,
   returnToBot,
@@ -10,6 +10,14 @@ export { campaignService } from './campaignService';
 export { contactService } from './contactService';
 export { templateService } from './templateService';
 export { leadFormService } from './leadFormService';
+export { segmentService } from './segmentService';
+export { workspaceService } from './workspaceService';
+export { userService } from './userService';
+export { auditService } from './auditService';
+export { webhookService } from './webhookService';
+export { inboundWebhookService } from './inboundWebhookService';
+export { phoneNumberService, type MetaPhoneNumber } from './phoneNumberService';
+export { crmService } from './crmService';
 // ============================================================================
 // SETTINGS SERVICE (usa credenciais salvas no Supabase/env)
 // ============================================================================
@@ -0,0 +1,77 @@
+import type { WhatsAppPhoneNumber } from '../types'
+
+/** Número listado pela Meta para a WABA (GET /api/phone-numbers) */
+export interface MetaPhoneNumber {
+  id: string
+  display_phone_number?: string
+  verified_name?: string
+  quality_rating?: string
+}
+
+/**
+ * Phone Number Service
+ * Números de WhatsApp do workspace: registro, rótulo e agente de IA por número
+ */
+export const phoneNumberService = {
+  getAll: async (): Promise<WhatsAppPhoneNumber[]> => {
+    const response = await fetch('/api/settings/phone-numbers', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar números')
+    }
+    return response.json()
+  },
+
+  // Números da WABA na Meta (inclui os ainda não registrados)
+  getAvailable: async (): Promise<MetaPhoneNumber[]> => {
+    const response = await fetch('/api/phone-numbers', { cache: 'no-store' })
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao buscar números da Meta')
+    }
+    return Array.isArray(payload) ? payload : []
+  },
+
+  register: async (input: { phoneNumberId: string; label?: string | null }): Promise<WhatsAppPhoneNumber> => {
+    const response = await fetch('/api/settings/phone-numbers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao registrar número')
+    }
+
+    return payload
+  },
+
+  update: async (
+    phoneNumberId: string,
+    input: { label?: string | null; aiAgentId?: string | null }
+  ): Promise<WhatsAppPhoneNumber> => {
+    const response = await fetch(`/api/settings/phone-numbers/${encodeURIComponent(phoneNumberId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao atualizar número')
+    }
+
+    return payload
+  },
+
+  remove: async (phoneNumberId: string): Promise<void> => {
+    const response = await fetch(`/api/settings/phone-numbers/${encodeURIComponent(phoneNumberId)}`, {
+      method: 'DELETE',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao remover número')
+    }
+  },
+}
@@ -0,0 +1,86 @@
+import type { Contact, ContactSegment, CreateContactSegmentDTO, SegmentGroup, UpdateContactSegmentDTO } from '../types'
+
+/**
+ * Segment Service
+ * Segmentos salvos + avaliação (contagem/contatos) feita no servidor
+ */
+export const segmentService = {
+  getAll: async (): Promise<ContactSegment[]> => {
+    const response = await fetch('/api/segments', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar segmentos')
+    }
+    return response.json()
+  },
+
+  create: async (dto: CreateContactSegmentDTO): Promise<ContactSegment> => {
+    const response = await fetch('/api/segments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(dto),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao salvar segmento')
+    }
+
+    return payload
+  },
+
+  update: async (id: string, dto: UpdateContactSegmentDTO): Promise<ContactSegment> => {
+    const response = await fetch(`/api/segments/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(dto),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao atualizar segmento')
+    }
+
+    return payload
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/segments/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao deletar segmento')
+    }
+  },
+
+  count: async (definition: SegmentGroup): Promise<{ total: number; matched: number }> => {
+    const response = await fetch('/api/contacts/segment-count', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ definition }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao calcular contagem')
+    }
+
+    return payload
+  },
+
+  getContacts: async (definition: SegmentGroup): Promise<Contact[]> => {
+    const response = await fetch('/api/contacts/segment', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ definition }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao buscar contatos do segmento')
+    }
+
+    return payload
+  },
+}
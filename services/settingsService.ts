@@ -18,6 +18,19 @@ export interface OCRConfig {
   }
 }
 
+// =============================================================================
+// TRANSCRIPTION / INBOX MEDIA CONFIGURATION TYPES
+// =============================================================================
+
+export type TranscriptionProviderType = 'gemini' | 'openai'
+
+export interface TranscriptionConfig {
+  provider: TranscriptionProviderType
+  geminiModel: string
+  /** Transcrever áudios e descrever imagens/documentos recebidos no inbox */
+  mediaAnalysisEnabled: boolean
+}
+
 // =============================================================================
 // CONSOLIDATED SETTINGS - Fetch all independent settings in one request
 // =============================================================================
@@ -336,6 +349,10 @@ export const settingsService = {
     ocr_provider?: OCRProviderType;
     ocr_gemini_model?: string;
     mistral_api_key?: string;
+    // Transcription / inbox media fields
+    transcription_provider?: TranscriptionProviderType;
+    transcription_gemini_model?: string;
+    media_analysis_enabled?: boolean;
   }) => {
     const response = await fetch('/api/settings/ai', {
       method: 'POST',
@@ -476,6 +493,56 @@ export const settingsService = {
     return json
   },
 
+  // =============================================================================
+  // HORÁRIO DE SILÊNCIO (Quiet hours) - Persisted in Supabase settings
+  // =============================================================================
+
+  getQuietHours: async (): Promise<any> => {
+    const response = await fetch('/api/settings/quiet-hours')
+    if (!response.ok) throw new Error('Failed to fetch quiet hours config')
+    return response.json()
+  },
+
+  saveQuietHours: async (data: any): Promise<any> => {
+    const response = await fetch('/api/settings/quiet-hours', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+
+    const json = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error((json as any)?.error || 'Failed to save quiet hours config')
+    }
+
+    return json
+  },
+
+  // =============================================================================
+  // ATRIBUIÇÃO DE CONVERSÕES - Persisted in Supabase settings
+  // =============================================================================
+
+  getConversionAttribution: async (): Promise<any> => {
+    const response = await fetch('/api/settings/conversions')
+    if (!response.ok) throw new Error('Failed to fetch conversion attribution config')
+    return response.json()
+  },
+
+  saveConversionAttribution: async (data: any): Promise<any> => {
+    const response = await fetch('/api/settings/conversions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    })
+
+    const json = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error((json as any)?.error || 'Failed to save conversion attribution config')
+    }
+
+    return json
+  },
+
   // =============================================================================
   // CALENDAR BOOKING CONFIG (Google Calendar)
   // =============================================================================
@@ -0,0 +1,87 @@
+import type { AuditLogEntry, DashboardUser, UserInvite, UserRole } from '../types'
+
+/**
+ * User Service
+ * Usuários do painel, convites e histórico de atividade
+ */
+export const userService = {
+  getAll: async (): Promise<DashboardUser[]> => {
+    const response = await fetch('/api/users', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar usuários')
+    }
+    return response.json()
+  },
+
+  update: async (
+    id: string,
+    updates: { name?: string; role?: UserRole; isActive?: boolean }
+  ): Promise<DashboardUser> => {
+    const response = await fetch(`/api/users/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao atualizar usuário')
+    }
+
+    return payload
+  },
+
+  remove: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/users/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao remover usuário')
+    }
+  },
+
+  getActivity: async (id: string): Promise<AuditLogEntry[]> => {
+    const response = await fetch(`/api/users/${encodeURIComponent(id)}/activity`, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar atividade do usuário')
+    }
+    return response.json()
+  },
+
+  getInvites: async (): Promise<UserInvite[]> => {
+    const response = await fetch('/api/users/invites', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar convites')
+    }
+    return response.json()
+  },
+
+  /** Retorna o link do convite apenas nesta chamada */
+  invite: async (email: string, role: Exclude<UserRole, 'owner'>): Promise<UserInvite & { inviteUrl: string }> => {
+    const response = await fetch('/api/users/invites', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, role }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao criar convite')
+    }
+
+    return payload
+  },
+
+  revokeInvite: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/users/invites/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao revogar convite')
+    }
+  },
+}
@@ -0,0 +1,99 @@
+import type { WebhookDelivery, WebhookDeliveryFilters, WebhookEndpoint, WebhookEventType } from '../types'
+
+export interface WebhookDeliveryPage {
+  data: WebhookDelivery[]
+  total: number
+}
+
+export interface WebhookEndpointInput {
+  name: string
+  url: string
+  eventTypes: WebhookEventType[]
+}
+
+const toQuery = (filters: WebhookDeliveryFilters) => {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== null && value !== '') params.set(key, String(value))
+  }
+  return params.toString()
+}
+
+/**
+ * Webhook Service
+ * Webhooks de saída: endpoints assinantes, log de entregas e reenvio
+ */
+export const webhookService = {
+  getAll: async (): Promise<WebhookEndpoint[]> => {
+    const response = await fetch('/api/settings/webhooks', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar webhooks')
+    }
+    return response.json()
+  },
+
+  create: async (input: WebhookEndpointInput): Promise<WebhookEndpoint> => {
+    const response = await fetch('/api/settings/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao cadastrar webhook')
+    }
+
+    return payload
+  },
+
+  update: async (
+    id: string,
+    input: Partial<WebhookEndpointInput> & { isActive?: boolean; rotateSecret?: boolean }
+  ): Promise<WebhookEndpoint> => {
+    const response = await fetch(`/api/settings/webhooks/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao atualizar webhook')
+    }
+
+    return payload
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/settings/webhooks/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao remover webhook')
+    }
+  },
+
+  getDeliveries: async (filters: WebhookDeliveryFilters = {}): Promise<WebhookDeliveryPage> => {
+    const response = await fetch(`/api/settings/webhooks/deliveries?${toQuery(filters)}`, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar entregas')
+    }
+    return response.json()
+  },
+
+  redeliver: async (deliveryId: string): Promise<WebhookDelivery> => {
+    const response = await fetch(`/api/settings/webhooks/deliveries/${encodeURIComponent(deliveryId)}/redeliver`, {
+      method: 'POST',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao reenviar evento')
+    }
+
+    return payload
+  },
+}
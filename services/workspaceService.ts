@@ -0,0 +1,149 @@
+import type { DashboardUser, Workspace, WorkspaceApiKey } from '../types'
+
+/**
+ * Workspace Service
+ * Workspaces da instalação, workspace ativo (cookie), membros e chaves de API por workspace
+ */
+export const workspaceService = {
+  getAll: async (): Promise<Workspace[]> => {
+    const response = await fetch('/api/workspaces', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar workspaces')
+    }
+    return response.json()
+  },
+
+  /** `canSwitch`: o usuário pode trocar de workspace (workspaces:manage) */
+  getCurrent: async (): Promise<{ current: Workspace | null; workspaces: Workspace[]; canSwitch: boolean }> => {
+    const response = await fetch('/api/workspaces/current', { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar workspace atual')
+    }
+    return response.json()
+  },
+
+  select: async (workspaceId: string): Promise<void> => {
+    const response = await fetch('/api/workspaces/current', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workspaceId }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao trocar de workspace')
+    }
+  },
+
+  create: async (name: string): Promise<Workspace> => {
+    const response = await fetch('/api/workspaces', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao criar workspace')
+    }
+
+    return payload
+  },
+
+  rename: async (id: string, name: string): Promise<Workspace> => {
+    const response = await fetch(`/api/workspaces/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao renomear workspace')
+    }
+
+    return payload
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/workspaces/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao remover workspace')
+    }
+  },
+
+  getApiKeys: async (workspaceId: string): Promise<WorkspaceApiKey[]> => {
+    const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceId)}/api-keys`, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar chaves de API')
+    }
+    return response.json()
+  },
+
+  /** Retorna a chave completa apenas nesta chamada */
+  createApiKey: async (workspaceId: string, name: string): Promise<WorkspaceApiKey & { key: string }> => {
+    const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceId)}/api-keys`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao gerar chave de API')
+    }
+
+    return payload
+  },
+
+  revokeApiKey: async (workspaceId: string, keyId: string): Promise<void> => {
+    const response = await fetch(
+      `/api/workspaces/${encodeURIComponent(workspaceId)}/api-keys/${encodeURIComponent(keyId)}`,
+      { method: 'DELETE' }
+    )
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao revogar chave de API')
+    }
+  },
+
+  getMembers: async (workspaceId: string): Promise<DashboardUser[]> => {
+    const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceId)}/members`, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error('Falha ao buscar membros')
+    }
+    return response.json()
+  },
+
+  addMember: async (workspaceId: string, userId: string): Promise<DashboardUser> => {
+    const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceId)}/members`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId }),
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao adicionar membro')
+    }
+
+    return payload
+  },
+
+  removeMember: async (workspaceId: string, userId: string): Promise<void> => {
+    const response = await fetch(
+      `/api/workspaces/${encodeURIComponent(workspaceId)}/members/${encodeURIComponent(userId)}`,
+      { method: 'DELETE' }
+    )
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload?.error || 'Falha ao remover membro')
+    }
+  },
+}
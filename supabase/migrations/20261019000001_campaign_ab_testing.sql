@@ -0,0 +1,66 @@
+/**
+ * MIGRATION: CAMPAIGN A/B TESTING
+ * Variantes de template por campanha + rollout automático do vencedor.
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Configuração do teste na campanha (null = campanha sem A/B)
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS ab_test jsonb;
+
+-- 2. Variantes (2–4 por campanha)
+CREATE TABLE IF NOT EXISTS public.campaign_variants (
+    id text DEFAULT concat('cv_', replace((extensions.uuid_generate_v4())::text, '-'::text, ''::text)) NOT NULL PRIMARY KEY,
+    campaign_id text NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    label text NOT NULL,
+    template_name text NOT NULL,
+    template_variables jsonb,
+    template_snapshot jsonb,
+    is_winner boolean DEFAULT false NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_variants_campaign_id ON public.campaign_variants USING btree (campaign_id);
+
+ALTER TABLE public.campaign_variants ENABLE ROW LEVEL SECURITY;
+
+-- 3. Atribuição de variante por contato + clique em botão
+ALTER TABLE public.campaign_contacts ADD COLUMN IF NOT EXISTS variant_id text;
+ALTER TABLE public.campaign_contacts ADD COLUMN IF NOT EXISTS ab_phase text;
+ALTER TABLE public.campaign_contacts ADD COLUMN IF NOT EXISTS button_clicked_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_campaign_variant ON public.campaign_contacts USING btree (campaign_id, variant_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_message_id ON public.campaign_contacts USING btree (message_id);
+
+-- 4. Funil por variante (enviado → entregue → lido → clique → submissão de flow)
+--    Só a fase de teste: o rollout do vencedor não pode inflar as taxas comparadas
+CREATE OR REPLACE FUNCTION public.get_campaign_variant_stats(p_campaign_id text) RETURNS json
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    result JSON;
+BEGIN
+    SELECT COALESCE(json_agg(row_to_json(s)), '[]'::json) INTO result
+    FROM (
+        SELECT
+            cc.variant_id,
+            COUNT(*) AS total,
+            COUNT(*) FILTER (WHERE cc.status IN ('sent', 'delivered', 'read')) AS sent,
+            COUNT(*) FILTER (WHERE cc.status IN ('delivered', 'read')) AS delivered,
+            COUNT(*) FILTER (WHERE cc.status = 'read') AS read,
+            COUNT(*) FILTER (WHERE cc.status = 'failed') AS failed,
+            COUNT(*) FILTER (WHERE cc.button_clicked_at IS NOT NULL) AS clicked,
+            COUNT(*) FILTER (WHERE EXISTS (
+                SELECT 1 FROM flow_submissions fs
+                WHERE fs.campaign_id = cc.campaign_id AND fs.from_phone = cc.phone
+            )) AS submitted
+        FROM campaign_contacts cc
+        WHERE cc.campaign_id = p_campaign_id
+          AND cc.variant_id IS NOT NULL
+          AND cc.ab_phase = 'test'
+        GROUP BY cc.variant_id
+    ) s;
+
+    RETURN result;
+END;
+$$;
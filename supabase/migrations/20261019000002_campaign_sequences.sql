@@ -0,0 +1,53 @@
+/**
+ * MIGRATION: CAMPAIGN RECURRENCE & DRIP SEQUENCES
+ * Campanhas recorrentes (cron + timezone) e sequências multi-etapa.
+ * Cada execução/etapa vira uma campanha-filha com contadores e trace próprios.
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Configuração (na campanha-mãe) e vínculo das filhas
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS recurrence jsonb;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS drip_steps jsonb;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS parent_campaign_id text REFERENCES public.campaigns(id) ON DELETE SET NULL;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS sequence_step integer;
+-- Chave de idempotência da filha (retries do QStash não criam execuções duplicadas)
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS sequence_key text;
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_parent_campaign_id ON public.campaigns USING btree (parent_campaign_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaigns_sequence_key ON public.campaigns USING btree (sequence_key) WHERE sequence_key IS NOT NULL;
+
+-- 2. Audiência da próxima etapa: contatos que receberam a etapa anterior e NÃO engajaram
+CREATE OR REPLACE FUNCTION public.get_campaign_drip_audience(p_campaign_id text, p_condition text)
+    RETURNS TABLE(contact_id text, phone text, name text, email text, custom_fields jsonb)
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+    RETURN QUERY
+    SELECT cc.contact_id, cc.phone, cc.name, cc.email, cc.custom_fields
+    FROM campaign_contacts cc
+    WHERE cc.campaign_id = p_campaign_id
+      AND cc.status IN ('sent', 'delivered', 'read')
+      AND CASE p_condition
+        WHEN 'not_read' THEN
+            cc.status <> 'read' AND cc.read_at IS NULL
+        WHEN 'not_replied' THEN
+            cc.button_clicked_at IS NULL
+            AND NOT EXISTS (
+                SELECT 1
+                FROM inbox_messages m
+                JOIN inbox_conversations c ON c.id = m.conversation_id
+                WHERE c.phone = cc.phone
+                  AND c.workspace_id = (SELECT workspace_id FROM campaigns WHERE id = p_campaign_id)
+                  AND m.direction = 'inbound'
+                  AND m.created_at >= COALESCE(cc.sent_at, cc.sending_at, '-infinity'::timestamptz)
+            )
+        WHEN 'not_submitted' THEN
+            NOT EXISTS (
+                SELECT 1 FROM flow_submissions fs
+                WHERE fs.campaign_id = cc.campaign_id AND fs.from_phone = cc.phone
+            )
+        ELSE false
+      END;
+END;
+$$;
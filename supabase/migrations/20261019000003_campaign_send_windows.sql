@@ -0,0 +1,9 @@
+/**
+ * MIGRATION: CAMPAIGN SEND WINDOWS
+ * Janela de envio por campanha, avaliada no horário local de cada contato.
+ * O horário de silêncio global fica na tabela settings (quiet_hours_config).
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- { days: ['mon'..'sun'], start: 'HH:mm', end: 'HH:mm' }
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS send_window jsonb;
@@ -0,0 +1,316 @@
+/**
+ * MIGRATION: CONTACT SEGMENTS
+ * Segmentos booleanos (grupos E/OU aninhados) salvos e reutilizáveis.
+ * A definição (jsonb) é compilada para um WHERE no próprio Postgres,
+ * então contagem e listagem escalam para bases grandes sem trazer contatos para o app.
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Segmentos salvos
+CREATE TABLE IF NOT EXISTS public.contact_segments (
+    id text DEFAULT concat('seg_', replace((extensions.uuid_generate_v4())::text, '-'::text, ''::text)) NOT NULL PRIMARY KEY,
+    name text NOT NULL,
+    description text,
+    definition jsonb DEFAULT '{"type":"group","combinator":"and","rules":[]}'::jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone
+);
+
+ALTER TABLE public.contact_segments ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.contact_segments;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.contact_segments FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Texto do botão clicado (condição "clicou no botão Y")
+ALTER TABLE public.campaign_contacts ADD COLUMN IF NOT EXISTS button_clicked_text text;
+
+-- 3. Índices usados pelas condições
+CREATE INDEX IF NOT EXISTS idx_contacts_tags ON public.contacts USING gin (tags);
+CREATE INDEX IF NOT EXISTS idx_contacts_created_at ON public.contacts USING btree (created_at);
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_contact_sent ON public.campaign_contacts USING btree (contact_id, sent_at DESC);
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_contact_clicked ON public.campaign_contacts USING btree (contact_id) WHERE (button_clicked_at IS NOT NULL);
+
+-- 4. Helpers
+-- UF a partir do DDD (mesmo mapa de lib/br-geo.ts)
+CREATE OR REPLACE FUNCTION public.contact_phone_uf(p_phone text)
+    RETURNS text
+    LANGUAGE sql IMMUTABLE
+    AS $$
+    SELECT CASE
+        WHEN d !~ '^55\d{10,}$' THEN NULL
+        ELSE CASE substr(d, 3, 2)
+            WHEN '11' THEN 'SP' WHEN '12' THEN 'SP' WHEN '13' THEN 'SP' WHEN '14' THEN 'SP' WHEN '15' THEN 'SP'
+            WHEN '16' THEN 'SP' WHEN '17' THEN 'SP' WHEN '18' THEN 'SP' WHEN '19' THEN 'SP'
+            WHEN '21' THEN 'RJ' WHEN '22' THEN 'RJ' WHEN '24' THEN 'RJ'
+            WHEN '27' THEN 'ES' WHEN '28' THEN 'ES'
+            WHEN '31' THEN 'MG' WHEN '32' THEN 'MG' WHEN '33' THEN 'MG' WHEN '34' THEN 'MG' WHEN '35' THEN 'MG'
+            WHEN '37' THEN 'MG' WHEN '38' THEN 'MG'
+            WHEN '41' THEN 'PR' WHEN '42' THEN 'PR' WHEN '43' THEN 'PR' WHEN '44' THEN 'PR' WHEN '45' THEN 'PR' WHEN '46' THEN 'PR'
+            WHEN '47' THEN 'SC' WHEN '48' THEN 'SC' WHEN '49' THEN 'SC'
+            WHEN '51' THEN 'RS' WHEN '53' THEN 'RS' WHEN '54' THEN 'RS' WHEN '55' THEN 'RS'
+            WHEN '61' THEN 'DF'
+            WHEN '62' THEN 'GO' WHEN '64' THEN 'GO'
+            WHEN '63' THEN 'TO'
+            WHEN '65' THEN 'MT' WHEN '66' THEN 'MT'
+            WHEN '67' THEN 'MS'
+            WHEN '68' THEN 'AC'
+            WHEN '69' THEN 'RO'
+            WHEN '71' THEN 'BA' WHEN '73' THEN 'BA' WHEN '74' THEN 'BA' WHEN '75' THEN 'BA' WHEN '77' THEN 'BA'
+            WHEN '79' THEN 'SE'
+            WHEN '81' THEN 'PE' WHEN '87' THEN 'PE'
+            WHEN '82' THEN 'AL'
+            WHEN '83' THEN 'PB'
+            WHEN '84' THEN 'RN'
+            WHEN '85' THEN 'CE' WHEN '88' THEN 'CE'
+            WHEN '86' THEN 'PI' WHEN '89' THEN 'PI'
+            WHEN '91' THEN 'PA' WHEN '93' THEN 'PA' WHEN '94' THEN 'PA'
+            WHEN '92' THEN 'AM' WHEN '97' THEN 'AM'
+            WHEN '95' THEN 'RR'
+            WHEN '96' THEN 'AP'
+            WHEN '98' THEN 'MA' WHEN '99' THEN 'MA'
+        END
+    END
+    FROM (SELECT regexp_replace(coalesce(p_phone, ''), '\D', '', 'g') AS d) s;
+$$;
+
+-- Conversões tolerantes para campos personalizados (valor inválido = não casa)
+CREATE OR REPLACE FUNCTION public.segment_try_numeric(p_value text)
+    RETURNS numeric
+    LANGUAGE plpgsql IMMUTABLE
+    AS $$
+BEGIN
+    RETURN replace(btrim(p_value), ',', '.')::numeric;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.segment_try_timestamptz(p_value text)
+    RETURNS timestamp with time zone
+    LANGUAGE plpgsql STABLE
+    AS $$
+BEGIN
+    IF p_value ~ '^\s*\d{2}/\d{2}/\d{4}' THEN
+        RETURN to_timestamp(btrim(p_value), 'DD/MM/YYYY');
+    END IF;
+    RETURN btrim(p_value)::timestamp with time zone;
+EXCEPTION WHEN others THEN
+    RETURN NULL;
+END;
+$$;
+
+-- 5. Compilador: definição jsonb -> expressão SQL sobre o alias "c" (contacts)
+-- Campos e operadores são whitelisted; valores entram sempre via format(%L).
+CREATE OR REPLACE FUNCTION public.segment_rule_sql(p_rule jsonb, p_depth integer DEFAULT 1)
+    RETURNS text
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_type text := p_rule->>'type';
+    v_field text;
+    v_op text;
+    v_value text;
+    v_list text[];
+    v_expr text;
+    v_parts text[];
+    v_child jsonb;
+    v_sql text;
+    v_since text := '';
+BEGIN
+    IF v_type = 'group' THEN
+        IF p_depth > 4 THEN
+            RAISE EXCEPTION 'segment: profundidade máxima excedida';
+        END IF;
+        v_parts := ARRAY[]::text[];
+        FOR v_child IN SELECT * FROM jsonb_array_elements(coalesce(p_rule->'rules', '[]'::jsonb)) LOOP
+            v_parts := v_parts || public.segment_rule_sql(v_child, p_depth + 1);
+        END LOOP;
+        IF coalesce(array_length(v_parts, 1), 0) = 0 THEN
+            RETURN 'TRUE';
+        END IF;
+        RETURN '(' || array_to_string(v_parts, CASE WHEN p_rule->>'combinator' = 'or' THEN ' OR ' ELSE ' AND ' END) || ')';
+    END IF;
+
+    IF v_type = 'engagement' THEN
+        IF (p_rule->>'withinDays') ~ '^\d+$' THEN
+            v_since := format(' >= now() - make_interval(days => %s)', (p_rule->>'withinDays')::integer);
+        END IF;
+
+        CASE p_rule->>'event'
+            WHEN 'read_last_campaign' THEN
+                -- Última campanha recebida pelo contato (ou a campanha indicada)
+                v_sql := format(
+                    'coalesce((SELECT (cc.read_at IS NOT NULL OR cc.status = ''read'') FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.sent_at IS NOT NULL%s%s ORDER BY cc.sent_at DESC LIMIT 1), false)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.sent_at' || v_since ELSE '' END
+                );
+            WHEN 'replied_inbox' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM inbox_conversations ic JOIN inbox_messages im ON im.conversation_id = ic.id WHERE (ic.contact_id = c.id OR ic.phone = c.phone) AND im.direction = ''inbound''%s)',
+                    CASE WHEN v_since <> '' THEN ' AND im.created_at' || v_since ELSE '' END
+                );
+            WHEN 'submitted_flow' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM flow_submissions fs WHERE (fs.contact_id = c.id OR fs.from_phone = c.phone)%s%s)',
+                    CASE WHEN nullif(p_rule->>'flowId', '') IS NOT NULL THEN format(' AND (fs.flow_id = %1$L OR fs.flow_local_id = %1$L)', p_rule->>'flowId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND fs.created_at' || v_since ELSE '' END
+                );
+            WHEN 'clicked_button' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.button_clicked_at IS NOT NULL%s%s%s)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN nullif(p_rule->>'buttonText', '') IS NOT NULL THEN format(' AND lower(cc.button_clicked_text) = lower(%L)', p_rule->>'buttonText') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.button_clicked_at' || v_since ELSE '' END
+                );
+            ELSE
+                RAISE EXCEPTION 'segment: evento desconhecido %', p_rule->>'event';
+        END CASE;
+
+        IF coalesce((p_rule->>'negate')::boolean, false) THEN
+            RETURN '(NOT ' || v_sql || ')';
+        END IF;
+        RETURN v_sql;
+    END IF;
+
+    IF v_type <> 'condition' THEN
+        RAISE EXCEPTION 'segment: tipo de regra desconhecido %', v_type;
+    END IF;
+
+    v_field := p_rule->>'field';
+    v_op := p_rule->>'operator';
+    v_value := CASE WHEN jsonb_typeof(p_rule->'value') IN ('string', 'number') THEN p_rule->>'value' END;
+    IF jsonb_typeof(p_rule->'value') = 'array' THEN
+        SELECT array_agg(btrim(x)) INTO v_list FROM jsonb_array_elements_text(p_rule->'value') x WHERE btrim(x) <> '';
+    END IF;
+
+    -- Tags (jsonb array): usa o índice GIN via ? / ?|
+    IF v_field = 'tags' THEN
+        CASE v_op
+            WHEN 'contains' THEN v_sql := format('coalesce(c.tags ? %L, false)', v_value);
+            WHEN 'not_contains' THEN v_sql := format('NOT coalesce(c.tags ? %L, false)', v_value);
+            WHEN 'in_list' THEN v_sql := format('coalesce(c.tags ?| %L::text[], false)', coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'not_in_list' THEN v_sql := format('NOT coalesce(c.tags ?| %L::text[], false)', coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'exists' THEN v_sql := '(jsonb_typeof(c.tags) = ''array'' AND jsonb_array_length(c.tags) > 0)';
+            WHEN 'not_exists' THEN v_sql := 'NOT (jsonb_typeof(c.tags) = ''array'' AND jsonb_array_length(c.tags) > 0)';
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para tags', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    -- DDI: prefixo dos dígitos do telefone (E.164)
+    IF v_field = 'ddi' THEN
+        v_value := regexp_replace(coalesce(v_value, ''), '\D', '', 'g');
+        SELECT array_agg(regexp_replace(x, '\D', '', 'g') || '%') INTO v_list FROM unnest(coalesce(v_list, ARRAY[]::text[])) x;
+        v_expr := 'regexp_replace(c.phone, ''\D'', '''', ''g'')';
+        CASE v_op
+            WHEN 'equals' THEN v_sql := format('%s LIKE %L', v_expr, v_value || '%');
+            WHEN 'not_equals' THEN v_sql := format('%s NOT LIKE %L', v_expr, v_value || '%');
+            WHEN 'in_list' THEN v_sql := format('%s LIKE ANY (%L::text[])', v_expr, coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'not_in_list' THEN v_sql := format('NOT (%s LIKE ANY (%L::text[]))', v_expr, coalesce(v_list, ARRAY[]::text[]));
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para ddi', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    -- Data de criação
+    IF v_field = 'created_at' THEN
+        IF public.segment_try_timestamptz(v_value) IS NULL THEN
+            RAISE EXCEPTION 'segment: data inválida %', v_value;
+        END IF;
+        CASE v_op
+            WHEN 'before' THEN v_sql := format('c.created_at < %L::timestamptz', v_value);
+            WHEN 'after' THEN v_sql := format('c.created_at > %L::timestamptz', v_value);
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para created_at', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    v_expr := CASE v_field
+        WHEN 'name' THEN 'c.name'
+        WHEN 'email' THEN 'c.email'
+        WHEN 'phone' THEN 'c.phone'
+        WHEN 'status' THEN 'c.status'
+        WHEN 'uf' THEN 'public.contact_phone_uf(c.phone)'
+        WHEN 'custom_field' THEN format('(c.custom_fields ->> %L)', p_rule->>'key')
+    END;
+    IF v_expr IS NULL THEN
+        RAISE EXCEPTION 'segment: campo desconhecido %', v_field;
+    END IF;
+    IF v_field = 'custom_field' AND nullif(p_rule->>'key', '') IS NULL THEN
+        RAISE EXCEPTION 'segment: campo personalizado sem chave';
+    END IF;
+
+    CASE v_op
+        WHEN 'equals' THEN
+            v_sql := format('coalesce(lower(%s) = lower(%L), false)', v_expr, v_value);
+        WHEN 'not_equals' THEN
+            v_sql := format('NOT coalesce(lower(%s) = lower(%L), false)', v_expr, v_value);
+        WHEN 'contains' THEN
+            v_sql := format('coalesce(%s ILIKE %L, false)', v_expr, '%' || replace(replace(replace(coalesce(v_value, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+        WHEN 'not_contains' THEN
+            v_sql := format('NOT coalesce(%s ILIKE %L, false)', v_expr, '%' || replace(replace(replace(coalesce(v_value, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+        WHEN 'in_list' THEN
+            v_sql := format('coalesce(lower(%s) = ANY (%L::text[]), false)', v_expr, (SELECT array_agg(lower(x)) FROM unnest(coalesce(v_list, ARRAY[]::text[])) x));
+        WHEN 'not_in_list' THEN
+            v_sql := format('NOT coalesce(lower(%s) = ANY (%L::text[]), false)', v_expr, (SELECT array_agg(lower(x)) FROM unnest(coalesce(v_list, ARRAY[]::text[])) x));
+        WHEN 'exists' THEN
+            v_sql := format('(nullif(btrim(%s), '''') IS NOT NULL)', v_expr);
+        WHEN 'not_exists' THEN
+            v_sql := format('(nullif(btrim(%s), '''') IS NULL)', v_expr);
+        WHEN 'greater_than', 'less_than' THEN
+            IF v_field <> 'custom_field' OR public.segment_try_numeric(v_value) IS NULL THEN
+                RAISE EXCEPTION 'segment: comparação numérica inválida';
+            END IF;
+            v_sql := format('coalesce(public.segment_try_numeric(%s) %s %s, false)', v_expr, CASE v_op WHEN 'greater_than' THEN '>' ELSE '<' END, public.segment_try_numeric(v_value));
+        WHEN 'before', 'after' THEN
+            IF v_field <> 'custom_field' OR public.segment_try_timestamptz(v_value) IS NULL THEN
+                RAISE EXCEPTION 'segment: comparação de data inválida';
+            END IF;
+            v_sql := format('coalesce(public.segment_try_timestamptz(%s) %s %L::timestamptz, false)', v_expr, CASE v_op WHEN 'before' THEN '<' ELSE '>' END, v_value);
+        ELSE
+            RAISE EXCEPTION 'segment: operador desconhecido %', v_op;
+    END CASE;
+
+    RETURN v_sql;
+END;
+$$;
+
+-- 6. RPCs de avaliação (total da base + quantidade que casa com o segmento)
+CREATE OR REPLACE FUNCTION public.count_contacts_by_segment(p_definition jsonb)
+    RETURNS TABLE(total bigint, matched bigint)
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+    RETURN QUERY EXECUTE format(
+        'SELECT count(*)::bigint, count(*) FILTER (WHERE %s)::bigint FROM contacts c',
+        public.segment_rule_sql(coalesce(p_definition, '{"type":"group","rules":[]}'::jsonb))
+    );
+END;
+$$;
+
+-- Paginação por keyset (id) para não degradar com OFFSET em bases grandes
+CREATE OR REPLACE FUNCTION public.get_contacts_by_segment(p_definition jsonb, p_limit integer DEFAULT 1000, p_after_id text DEFAULT NULL)
+    RETURNS SETOF public.contacts
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+    RETURN QUERY EXECUTE format(
+        'SELECT c.* FROM contacts c WHERE %s AND ($1 IS NULL OR c.id > $1) ORDER BY c.id LIMIT %s',
+        public.segment_rule_sql(coalesce(p_definition, '{"type":"group","rules":[]}'::jsonb)),
+        greatest(1, least(coalesce(p_limit, 1000), 5000))
+    ) USING p_after_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.count_contacts_by_segment(jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.count_contacts_by_segment(jsonb) FROM anon;
+REVOKE ALL ON FUNCTION public.count_contacts_by_segment(jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.count_contacts_by_segment(jsonb) TO service_role;
+
+REVOKE ALL ON FUNCTION public.get_contacts_by_segment(jsonb, integer, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_contacts_by_segment(jsonb, integer, text) FROM anon;
+REVOKE ALL ON FUNCTION public.get_contacts_by_segment(jsonb, integer, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_contacts_by_segment(jsonb, integer, text) TO service_role;
@@ -0,0 +1,311 @@
+/**
+ * MIGRATION: CONTACT ENGAGEMENT & LIFECYCLE
+ * Score de engajamento (0-100) e estágio do ciclo de vida (new, engaged, dormant, churned).
+ * Recalculados por job agendado (QStash -> refresh_contact_engagement); pesos e
+ * limites vêm do app (lib/business/contact/engagement.ts) como parâmetro.
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Colunas calculadas
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS engagement_score integer DEFAULT 0 NOT NULL;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS lifecycle_stage text DEFAULT 'new'::text NOT NULL;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS last_engaged_at timestamp with time zone;
+-- Captação por formulário (não existe tabela de submissões de lead forms)
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS last_lead_capture_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_lifecycle_stage ON public.contacts USING btree (lifecycle_stage);
+CREATE INDEX IF NOT EXISTS idx_contacts_engagement_score ON public.contacts USING btree (engagement_score);
+
+-- Campanhas de marketing podem pular contatos dormentes/perdidos
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS skip_dormant boolean DEFAULT false NOT NULL;
+
+-- 2. Recalcular engajamento não é "atividade" do contato: preserva updated_at (lastActive)
+CREATE OR REPLACE FUNCTION public.contacts_set_updated_at() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO ''
+    AS $$
+BEGIN
+  IF (to_jsonb(NEW) - ARRAY['engagement_score', 'lifecycle_stage', 'last_engaged_at', 'updated_at'])
+     = (to_jsonb(OLD) - ARRAY['engagement_score', 'lifecycle_stage', 'last_engaged_at', 'updated_at']) THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.contacts;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.contacts FOR EACH ROW EXECUTE FUNCTION public.contacts_set_updated_at();
+
+-- 3. Recálculo em lote (set-based). Só grava linhas que mudaram.
+CREATE OR REPLACE FUNCTION public.refresh_contact_engagement(p_rules jsonb)
+    RETURNS integer
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_since timestamp with time zone := now() - make_interval(days => coalesce((p_rules->>'window_days')::integer, 90));
+    v_max numeric := coalesce((p_rules->>'max_score')::numeric, 100);
+    v_new interval := make_interval(days => coalesce((p_rules->>'new_days')::integer, 30));
+    v_engaged interval := make_interval(days => coalesce((p_rules->>'engaged_days')::integer, 30));
+    v_churned interval := make_interval(days => coalesce((p_rules->>'churned_days')::integer, 180));
+    v_updated integer;
+BEGIN
+    WITH cc AS (
+        SELECT contact_id,
+            count(*) FILTER (WHERE delivered_at >= v_since OR read_at >= v_since) AS delivered,
+            count(*) FILTER (WHERE read_at >= v_since) AS reads,
+            count(*) FILTER (WHERE button_clicked_at >= v_since) AS clicks,
+            max(greatest(read_at, button_clicked_at)) AS last_engaged
+        FROM campaign_contacts
+        WHERE contact_id IS NOT NULL
+        GROUP BY contact_id
+    ),
+    ib AS (
+        SELECT ic.contact_id,
+            count(*) FILTER (WHERE im.created_at >= v_since) AS replies,
+            max(im.created_at) AS last_engaged
+        FROM inbox_conversations ic
+        JOIN inbox_messages im ON im.conversation_id = ic.id AND im.direction = 'inbound'
+        WHERE ic.contact_id IS NOT NULL
+        GROUP BY ic.contact_id
+    ),
+    fs AS (
+        SELECT contact_id,
+            count(*) FILTER (WHERE created_at >= v_since) AS submissions,
+            max(created_at) AS last_engaged
+        FROM flow_submissions
+        WHERE contact_id IS NOT NULL
+        GROUP BY contact_id
+    ),
+    computed AS (
+        SELECT c.id,
+            c.created_at,
+            least(v_max, round(
+                coalesce(cc.delivered, 0) * coalesce((p_rules->>'w_delivered')::numeric, 1)
+                + coalesce(cc.reads, 0) * coalesce((p_rules->>'w_read')::numeric, 3)
+                + coalesce(cc.clicks, 0) * coalesce((p_rules->>'w_clicked')::numeric, 5)
+                + coalesce(ib.replies, 0) * coalesce((p_rules->>'w_replied')::numeric, 8)
+                + coalesce(fs.submissions, 0) * coalesce((p_rules->>'w_flow')::numeric, 10)
+                + (CASE WHEN c.last_lead_capture_at >= v_since THEN 1 ELSE 0 END) * coalesce((p_rules->>'w_lead')::numeric, 10)
+            ))::integer AS score,
+            -- greatest() ignora NULLs
+            greatest(cc.last_engaged, ib.last_engaged, fs.last_engaged, c.last_lead_capture_at) AS last_engaged
+        FROM contacts c
+        LEFT JOIN cc ON cc.contact_id = c.id
+        LEFT JOIN ib ON ib.contact_id = c.id
+        LEFT JOIN fs ON fs.contact_id = c.id
+    ),
+    staged AS (
+        SELECT id, score, last_engaged,
+            CASE
+                WHEN last_engaged IS NOT NULL THEN
+                    CASE
+                        WHEN last_engaged >= now() - v_engaged THEN 'engaged'
+                        WHEN last_engaged >= now() - v_churned THEN 'dormant'
+                        ELSE 'churned'
+                    END
+                WHEN created_at >= now() - v_new THEN 'new'
+                WHEN created_at >= now() - v_churned THEN 'dormant'
+                ELSE 'churned'
+            END AS stage
+        FROM computed
+    )
+    UPDATE contacts c
+    SET engagement_score = s.score,
+        lifecycle_stage = s.stage,
+        last_engaged_at = s.last_engaged
+    FROM staged s
+    WHERE c.id = s.id
+      AND (c.engagement_score IS DISTINCT FROM s.score
+        OR c.lifecycle_stage IS DISTINCT FROM s.stage
+        OR c.last_engaged_at IS DISTINCT FROM s.last_engaged);
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refresh_contact_engagement(jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.refresh_contact_engagement(jsonb) FROM anon;
+REVOKE ALL ON FUNCTION public.refresh_contact_engagement(jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_contact_engagement(jsonb) TO service_role;
+
+-- 4. Segmentos: estágio e score como critérios de audiência (recompila o segment_rule_sql)
+CREATE OR REPLACE FUNCTION public.segment_rule_sql(p_rule jsonb, p_depth integer DEFAULT 1)
+    RETURNS text
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_type text := p_rule->>'type';
+    v_field text;
+    v_op text;
+    v_value text;
+    v_list text[];
+    v_expr text;
+    v_parts text[];
+    v_child jsonb;
+    v_sql text;
+    v_since text := '';
+BEGIN
+    IF v_type = 'group' THEN
+        IF p_depth > 4 THEN
+            RAISE EXCEPTION 'segment: profundidade máxima excedida';
+        END IF;
+        v_parts := ARRAY[]::text[];
+        FOR v_child IN SELECT * FROM jsonb_array_elements(coalesce(p_rule->'rules', '[]'::jsonb)) LOOP
+            v_parts := v_parts || public.segment_rule_sql(v_child, p_depth + 1);
+        END LOOP;
+        IF coalesce(array_length(v_parts, 1), 0) = 0 THEN
+            RETURN 'TRUE';
+        END IF;
+        RETURN '(' || array_to_string(v_parts, CASE WHEN p_rule->>'combinator' = 'or' THEN ' OR ' ELSE ' AND ' END) || ')';
+    END IF;
+
+    IF v_type = 'engagement' THEN
+        IF (p_rule->>'withinDays') ~ '^\d+$' THEN
+            v_since := format(' >= now() - make_interval(days => %s)', (p_rule->>'withinDays')::integer);
+        END IF;
+
+        CASE p_rule->>'event'
+            WHEN 'read_last_campaign' THEN
+                -- Última campanha recebida pelo contato (ou a campanha indicada)
+                v_sql := format(
+                    'coalesce((SELECT (cc.read_at IS NOT NULL OR cc.status = ''read'') FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.sent_at IS NOT NULL%s%s ORDER BY cc.sent_at DESC LIMIT 1), false)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.sent_at' || v_since ELSE '' END
+                );
+            WHEN 'replied_inbox' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM inbox_conversations ic JOIN inbox_messages im ON im.conversation_id = ic.id WHERE (ic.contact_id = c.id OR ic.phone = c.phone) AND im.direction = ''inbound''%s)',
+                    CASE WHEN v_since <> '' THEN ' AND im.created_at' || v_since ELSE '' END
+                );
+            WHEN 'submitted_flow' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM flow_submissions fs WHERE (fs.contact_id = c.id OR fs.from_phone = c.phone)%s%s)',
+                    CASE WHEN nullif(p_rule->>'flowId', '') IS NOT NULL THEN format(' AND (fs.flow_id = %1$L OR fs.flow_local_id = %1$L)', p_rule->>'flowId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND fs.created_at' || v_since ELSE '' END
+                );
+            WHEN 'clicked_button' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.button_clicked_at IS NOT NULL%s%s%s)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN nullif(p_rule->>'buttonText', '') IS NOT NULL THEN format(' AND lower(cc.button_clicked_text) = lower(%L)', p_rule->>'buttonText') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.button_clicked_at' || v_since ELSE '' END
+                );
+            ELSE
+                RAISE EXCEPTION 'segment: evento desconhecido %', p_rule->>'event';
+        END CASE;
+
+        IF coalesce((p_rule->>'negate')::boolean, false) THEN
+            RETURN '(NOT ' || v_sql || ')';
+        END IF;
+        RETURN v_sql;
+    END IF;
+
+    IF v_type <> 'condition' THEN
+        RAISE EXCEPTION 'segment: tipo de regra desconhecido %', v_type;
+    END IF;
+
+    v_field := p_rule->>'field';
+    v_op := p_rule->>'operator';
+    v_value := CASE WHEN jsonb_typeof(p_rule->'value') IN ('string', 'number') THEN p_rule->>'value' END;
+    IF jsonb_typeof(p_rule->'value') = 'array' THEN
+        SELECT array_agg(btrim(x)) INTO v_list FROM jsonb_array_elements_text(p_rule->'value') x WHERE btrim(x) <> '';
+    END IF;
+
+    -- Tags (jsonb array): usa o índice GIN via ? / ?|
+    IF v_field = 'tags' THEN
+        CASE v_op
+            WHEN 'contains' THEN v_sql := format('coalesce(c.tags ? %L, false)', v_value);
+            WHEN 'not_contains' THEN v_sql := format('NOT coalesce(c.tags ? %L, false)', v_value);
+            WHEN 'in_list' THEN v_sql := format('coalesce(c.tags ?| %L::text[], false)', coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'not_in_list' THEN v_sql := format('NOT coalesce(c.tags ?| %L::text[], false)', coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'exists' THEN v_sql := '(jsonb_typeof(c.tags) = ''array'' AND jsonb_array_length(c.tags) > 0)';
+            WHEN 'not_exists' THEN v_sql := 'NOT (jsonb_typeof(c.tags) = ''array'' AND jsonb_array_length(c.tags) > 0)';
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para tags', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    -- DDI: prefixo dos dígitos do telefone (E.164)
+    IF v_field = 'ddi' THEN
+        v_value := regexp_replace(coalesce(v_value, ''), '\D', '', 'g');
+        SELECT array_agg(regexp_replace(x, '\D', '', 'g') || '%') INTO v_list FROM unnest(coalesce(v_list, ARRAY[]::text[])) x;
+        v_expr := 'regexp_replace(c.phone, ''\D'', '''', ''g'')';
+        CASE v_op
+            WHEN 'equals' THEN v_sql := format('%s LIKE %L', v_expr, v_value || '%');
+            WHEN 'not_equals' THEN v_sql := format('%s NOT LIKE %L', v_expr, v_value || '%');
+            WHEN 'in_list' THEN v_sql := format('%s LIKE ANY (%L::text[])', v_expr, coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'not_in_list' THEN v_sql := format('NOT (%s LIKE ANY (%L::text[]))', v_expr, coalesce(v_list, ARRAY[]::text[]));
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para ddi', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    -- Data de criação
+    IF v_field = 'created_at' THEN
+        IF public.segment_try_timestamptz(v_value) IS NULL THEN
+            RAISE EXCEPTION 'segment: data inválida %', v_value;
+        END IF;
+        CASE v_op
+            WHEN 'before' THEN v_sql := format('c.created_at < %L::timestamptz', v_value);
+            WHEN 'after' THEN v_sql := format('c.created_at > %L::timestamptz', v_value);
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para created_at', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    v_expr := CASE v_field
+        WHEN 'name' THEN 'c.name'
+        WHEN 'email' THEN 'c.email'
+        WHEN 'phone' THEN 'c.phone'
+        WHEN 'status' THEN 'c.status'
+        WHEN 'uf' THEN 'public.contact_phone_uf(c.phone)'
+        WHEN 'lifecycle_stage' THEN 'c.lifecycle_stage'
+        WHEN 'engagement_score' THEN 'c.engagement_score::text'
+        WHEN 'custom_field' THEN format('(c.custom_fields ->> %L)', p_rule->>'key')
+    END;
+    IF v_expr IS NULL THEN
+        RAISE EXCEPTION 'segment: campo desconhecido %', v_field;
+    END IF;
+    IF v_field = 'custom_field' AND nullif(p_rule->>'key', '') IS NULL THEN
+        RAISE EXCEPTION 'segment: campo personalizado sem chave';
+    END IF;
+
+    CASE v_op
+        WHEN 'equals' THEN
+            v_sql := format('coalesce(lower(%s) = lower(%L), false)', v_expr, v_value);
+        WHEN 'not_equals' THEN
+            v_sql := format('NOT coalesce(lower(%s) = lower(%L), false)', v_expr, v_value);
+        WHEN 'contains' THEN
+            v_sql := format('coalesce(%s ILIKE %L, false)', v_expr, '%' || replace(replace(replace(coalesce(v_value, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+        WHEN 'not_contains' THEN
+            v_sql := format('NOT coalesce(%s ILIKE %L, false)', v_expr, '%' || replace(replace(replace(coalesce(v_value, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+        WHEN 'in_list' THEN
+            v_sql := format('coalesce(lower(%s) = ANY (%L::text[]), false)', v_expr, (SELECT array_agg(lower(x)) FROM unnest(coalesce(v_list, ARRAY[]::text[])) x));
+        WHEN 'not_in_list' THEN
+            v_sql := format('NOT coalesce(lower(%s) = ANY (%L::text[]), false)', v_expr, (SELECT array_agg(lower(x)) FROM unnest(coalesce(v_list, ARRAY[]::text[])) x));
+        WHEN 'exists' THEN
+            v_sql := format('(nullif(btrim(%s), '''') IS NOT NULL)', v_expr);
+        WHEN 'not_exists' THEN
+            v_sql := format('(nullif(btrim(%s), '''') IS NULL)', v_expr);
+        WHEN 'greater_than', 'less_than' THEN
+            IF v_field NOT IN ('custom_field', 'engagement_score') OR public.segment_try_numeric(v_value) IS NULL THEN
+                RAISE EXCEPTION 'segment: comparação numérica inválida';
+            END IF;
+            v_sql := format('coalesce(public.segment_try_numeric(%s) %s %s, false)', v_expr, CASE v_op WHEN 'greater_than' THEN '>' ELSE '<' END, public.segment_try_numeric(v_value));
+        WHEN 'before', 'after' THEN
+            IF v_field <> 'custom_field' OR public.segment_try_timestamptz(v_value) IS NULL THEN
+                RAISE EXCEPTION 'segment: comparação de data inválida';
+            END IF;
+            v_sql := format('coalesce(public.segment_try_timestamptz(%s) %s %L::timestamptz, false)', v_expr, CASE v_op WHEN 'before' THEN '<' ELSE '>' END, v_value);
+        ELSE
+            RAISE EXCEPTION 'segment: operador desconhecido %', v_op;
+    END CASE;
+
+    RETURN v_sql;
+END;
+$$;
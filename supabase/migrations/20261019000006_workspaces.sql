@@ -0,0 +1,663 @@
+/**
+ * MIGRATION: WORKSPACES (MULTI-TENANT)
+ * Cada workspace tem seu próprio número do WhatsApp, configurações, contatos,
+ * campanhas, inbox e chaves de API. As tabelas de topo ganham workspace_id;
+ * tabelas filhas (campaign_contacts, inbox_messages, workflow_runs...) herdam o
+ * escopo pela FK do pai.
+ *
+ * O app envia o workspace ativo no header `x-workspace-id` (PostgREST expõe em
+ * request.headers); current_workspace_id() lê esse header para os DEFAULTs e RPCs.
+ * Sem header, tudo cai no workspace padrão (instalações single-tenant seguem iguais).
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Workspaces
+CREATE TABLE IF NOT EXISTS public.workspaces (
+    id text DEFAULT concat('ws_', replace((extensions.uuid_generate_v4())::text, '-'::text, ''::text)) NOT NULL PRIMARY KEY,
+    name text NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone
+);
+
+INSERT INTO public.workspaces (id, name) VALUES ('ws_default', 'Principal') ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.workspaces;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.workspaces FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Chaves de API por workspace (apenas o hash é salvo; a chave é exibida uma única vez)
+CREATE TABLE IF NOT EXISTS public.workspace_api_keys (
+    id text DEFAULT concat('wak_', replace((extensions.uuid_generate_v4())::text, '-'::text, ''::text)) NOT NULL PRIMARY KEY,
+    workspace_id text NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    key_hash text NOT NULL UNIQUE,
+    key_prefix text NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    last_used_at timestamp with time zone,
+    revoked_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_api_keys_workspace_id ON public.workspace_api_keys USING btree (workspace_id);
+
+ALTER TABLE public.workspace_api_keys ENABLE ROW LEVEL SECURITY;
+
+-- 3. Workspace da requisição atual (header x-workspace-id repassado pelo PostgREST)
+CREATE OR REPLACE FUNCTION public.current_workspace_id() RETURNS text
+    LANGUAGE sql STABLE
+    SET search_path TO ''
+    AS $$
+    SELECT coalesce(
+        nullif(nullif(current_setting('request.headers', true), '')::json->>'x-workspace-id', ''),
+        'ws_default'
+    );
+$$;
+
+-- 4. workspace_id nas tabelas de topo (linhas existentes vão para o workspace padrão)
+DO $$
+DECLARE
+    v_table text;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY[
+        'settings', 'contacts', 'campaigns', 'templates', 'custom_field_definitions',
+        'phone_suppressions', 'campaign_folders', 'campaign_tags', 'contact_segments',
+        'inbox_conversations', 'inbox_labels', 'inbox_quick_replies', 'lead_forms',
+        'flows', 'workflows', 'ai_agents', 'attendant_tokens', 'template_projects',
+        'account_alerts'
+    ] LOOP
+        EXECUTE format(
+            'ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE',
+            v_table
+        );
+        EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I USING btree (workspace_id)', 'idx_' || v_table || '_workspace_id', v_table);
+    END LOOP;
+END;
+$$;
+
+-- 5. Unicidade passa a ser por workspace (o mesmo telefone pode existir em dois workspaces)
+ALTER TABLE public.settings DROP CONSTRAINT IF EXISTS settings_pkey;
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'settings_workspace_key_pkey') THEN
+        ALTER TABLE public.settings ADD CONSTRAINT settings_workspace_key_pkey PRIMARY KEY (workspace_id, key);
+    END IF;
+END;
+$$;
+
+DO $$
+DECLARE
+    v_item text[];
+BEGIN
+    -- {tabela, constraint antiga, constraint nova, colunas}
+    FOREACH v_item SLICE 1 IN ARRAY ARRAY[
+        ['contacts', 'contacts_phone_key', 'contacts_workspace_phone_key', 'workspace_id, phone'],
+        ['templates', 'templates_name_language_key', 'templates_workspace_name_language_key', 'workspace_id, name, language'],
+        ['custom_field_definitions', 'custom_field_definitions_entity_type_key_key', 'custom_field_definitions_workspace_entity_type_key_key', 'workspace_id, entity_type, key'],
+        ['phone_suppressions', 'phone_suppressions_phone_key', 'phone_suppressions_workspace_phone_key', 'workspace_id, phone'],
+        ['campaign_folders', 'campaign_folders_name_unique', 'campaign_folders_workspace_name_unique', 'workspace_id, name'],
+        ['campaign_tags', 'campaign_tags_name_unique', 'campaign_tags_workspace_name_unique', 'workspace_id, name'],
+        ['inbox_labels', 'inbox_labels_name_key', 'inbox_labels_workspace_name_key', 'workspace_id, name'],
+        ['inbox_quick_replies', 'inbox_quick_replies_shortcut_key', 'inbox_quick_replies_workspace_shortcut_key', 'workspace_id, shortcut']
+    ] LOOP
+        EXECUTE format('ALTER TABLE public.%I DROP CONSTRAINT IF EXISTS %I', v_item[1], v_item[2]);
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = v_item[3]) THEN
+            EXECUTE format('ALTER TABLE public.%I ADD CONSTRAINT %I UNIQUE (%s)', v_item[1], v_item[3], v_item[4]);
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- 6. Um agente de IA padrão por workspace
+DROP INDEX IF EXISTS public.idx_ai_agents_single_default;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_agents_single_default_per_workspace ON public.ai_agents USING btree (workspace_id) WHERE (is_default = true);
+
+CREATE OR REPLACE FUNCTION public.ensure_default_ai_agent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $$
+BEGIN
+  -- Primeiro agente do workspace vira o padrão
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ai_agents WHERE id != NEW.id AND workspace_id = NEW.workspace_id
+  ) THEN
+    NEW.is_default := true;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 7. RPCs de leitura agregada passam a filtrar pelo workspace atual
+CREATE OR REPLACE FUNCTION public.get_contact_stats() RETURNS json
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    result JSON;
+BEGIN
+    SELECT json_build_object(
+        'total', COUNT(*),
+        'optIn', COUNT(*) FILTER (WHERE status = 'Opt-in'),
+        'optOut', COUNT(*) FILTER (WHERE status = 'Opt-out')
+    ) INTO result
+    FROM contacts
+    WHERE workspace_id = public.current_workspace_id();
+
+    RETURN COALESCE(result, '{"total":0,"optIn":0,"optOut":0}'::json);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_contact_tags() RETURNS json
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    result JSON;
+BEGIN
+    SELECT COALESCE(json_agg(DISTINCT tag ORDER BY tag), '[]'::json) INTO result
+    FROM contacts, jsonb_array_elements_text(tags) AS tag
+    WHERE workspace_id = public.current_workspace_id()
+      AND tags IS NOT NULL AND jsonb_array_length(tags) > 0;
+
+    RETURN COALESCE(result, '[]'::json);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_dashboard_stats() RETURNS TABLE(total_campaigns bigint, total_contacts bigint, total_sent bigint, total_delivered bigint, total_read bigint, total_failed bigint)
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO ''
+    AS $$
+DECLARE
+  v_workspace_id text := public.current_workspace_id();
+BEGIN
+  RETURN QUERY
+  SELECT
+    (SELECT COUNT(*) FROM public.campaigns WHERE workspace_id = v_workspace_id)::bigint,
+    (SELECT COUNT(*) FROM public.contacts WHERE workspace_id = v_workspace_id)::bigint,
+    COALESCE((SELECT SUM(sent) FROM public.campaigns WHERE workspace_id = v_workspace_id), 0)::bigint,
+    COALESCE((SELECT SUM(delivered) FROM public.campaigns WHERE workspace_id = v_workspace_id), 0)::bigint,
+    COALESCE((SELECT SUM(read) FROM public.campaigns WHERE workspace_id = v_workspace_id), 0)::bigint,
+    COALESCE((SELECT SUM(failed) FROM public.campaigns WHERE workspace_id = v_workspace_id), 0)::bigint;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.process_inbound_message(
+  p_phone TEXT,
+  p_content TEXT,
+  p_whatsapp_message_id TEXT DEFAULT NULL,
+  p_message_type TEXT DEFAULT 'text',
+  p_media_url TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL,
+  p_contact_id TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_conversation_id UUID;
+  v_message_id UUID;
+  v_conversation_status TEXT;
+  v_conversation_mode TEXT;
+  v_ai_agent_id UUID;
+  v_human_mode_expires_at TIMESTAMPTZ;
+  v_automation_paused_until TIMESTAMPTZ;
+  v_is_new_conversation BOOLEAN := FALSE;
+  v_message_preview TEXT;
+  -- FIX: Mudado de UUID para TEXT (contacts.id usa prefixo 'ct_')
+  v_contact_id TEXT;
+  v_current_contact_id TEXT;
+BEGIN
+  -- Auto-lookup contact by phone if not provided
+  IF p_contact_id IS NULL THEN
+    SELECT id INTO v_contact_id FROM contacts WHERE phone = p_phone AND workspace_id = public.current_workspace_id() LIMIT 1;
+  ELSE
+    v_contact_id := p_contact_id;  -- Já é TEXT, não precisa de cast
+  END IF;
+
+  -- Trunca preview para 100 chars
+  v_message_preview := CASE
+    WHEN LENGTH(p_content) > 100 THEN SUBSTRING(p_content, 1, 100) || '...'
+    ELSE p_content
+  END;
+
+  -- 1. Busca conversa existente pelo telefone no workspace atual
+  SELECT
+    id, status, mode, ai_agent_id, human_mode_expires_at, automation_paused_until, contact_id
+  INTO
+    v_conversation_id, v_conversation_status, v_conversation_mode,
+    v_ai_agent_id, v_human_mode_expires_at, v_automation_paused_until, v_current_contact_id
+  FROM inbox_conversations
+  WHERE phone = p_phone
+    AND workspace_id = public.current_workspace_id()
+  ORDER BY last_message_at DESC NULLS LAST
+  LIMIT 1;
+
+  -- 2. Se não existe, cria nova conversa
+  IF v_conversation_id IS NULL THEN
+    INSERT INTO inbox_conversations (
+      phone,
+      contact_id,
+      mode,
+      status,
+      total_messages,
+      unread_count,
+      last_message_at,
+      last_message_preview
+    ) VALUES (
+      p_phone,
+      v_contact_id,
+      'bot',
+      'open',
+      1,
+      1,
+      NOW(),
+      v_message_preview
+    )
+    RETURNING id, mode, ai_agent_id, human_mode_expires_at, automation_paused_until
+    INTO v_conversation_id, v_conversation_mode, v_ai_agent_id,
+         v_human_mode_expires_at, v_automation_paused_until;
+
+    v_is_new_conversation := TRUE;
+    v_conversation_status := 'open';
+  ELSE
+    -- 3. Se existe, atualiza contadores e reabre se fechada
+    -- Auto-link contact if conversation has no contact but we found one
+    UPDATE inbox_conversations
+    SET
+      total_messages = total_messages + 1,
+      unread_count = unread_count + 1,
+      last_message_at = NOW(),
+      last_message_preview = v_message_preview,
+      status = CASE WHEN status = 'closed' THEN 'open' ELSE status END,
+      contact_id = COALESCE(contact_id, v_contact_id),  -- Agora ambos são TEXT
+      updated_at = NOW()
+    WHERE id = v_conversation_id
+    RETURNING status INTO v_conversation_status;
+  END IF;
+
+  -- 4. Cria mensagem
+  INSERT INTO inbox_messages (
+    conversation_id,
+    direction,
+    content,
+    message_type,
+    whatsapp_message_id,
+    media_url,
+    delivery_status,
+    payload
+  ) VALUES (
+    v_conversation_id,
+    'inbound',
+    p_content,
+    p_message_type,
+    p_whatsapp_message_id,
+    p_media_url,
+    'delivered',
+    p_payload
+  )
+  RETURNING id INTO v_message_id;
+
+  -- 5. Retorna resultado completo
+  RETURN json_build_object(
+    'conversation_id', v_conversation_id,
+    'message_id', v_message_id,
+    'is_new_conversation', v_is_new_conversation,
+    'conversation_status', v_conversation_status,
+    'conversation_mode', v_conversation_mode,
+    'ai_agent_id', v_ai_agent_id,
+    'human_mode_expires_at', v_human_mode_expires_at,
+    'automation_paused_until', v_automation_paused_until
+  );
+END;
+$$;
+
+CREATE OR REPLACE VIEW public.campaign_stats_summary WITH (security_invoker='true') AS
+ SELECT (count(*))::integer AS total_campaigns,
+    (COALESCE(sum(sent), (0)::bigint))::integer AS total_sent,
+    (COALESCE(sum(delivered), (0)::bigint))::integer AS total_delivered,
+    (COALESCE(sum(read), (0)::bigint))::integer AS total_read,
+    (COALESCE(sum(failed), (0)::bigint))::integer AS total_failed,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['enviando'::text, 'sending'::text, 'SENDING'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS active_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['concluida'::text, 'completed'::text, 'COMPLETED'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS completed_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['rascunho'::text, 'draft'::text, 'DRAFT'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS draft_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['pausado'::text, 'paused'::text, 'PAUSED'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS paused_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['agendado'::text, 'scheduled'::text, 'SCHEDULED'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS scheduled_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['falhou'::text, 'failed'::text, 'FAILED'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS failed_campaigns,
+    (COALESCE(sum(
+        CASE
+            WHEN (created_at > (now() - '24:00:00'::interval)) THEN sent
+            ELSE 0
+        END), (0)::bigint))::integer AS sent_24h,
+    (COALESCE(sum(
+        CASE
+            WHEN (created_at > (now() - '24:00:00'::interval)) THEN delivered
+            ELSE 0
+        END), (0)::bigint))::integer AS delivered_24h,
+    (COALESCE(sum(
+        CASE
+            WHEN (created_at > (now() - '24:00:00'::interval)) THEN failed
+            ELSE 0
+        END), (0)::bigint))::integer AS failed_24h
+   FROM public.campaigns
+  WHERE (workspace_id = public.current_workspace_id());
+
+-- 8. Engajamento e segmentos restritos ao workspace atual
+CREATE OR REPLACE FUNCTION public.refresh_contact_engagement(p_rules jsonb)
+    RETURNS integer
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_since timestamp with time zone := now() - make_interval(days => coalesce((p_rules->>'window_days')::integer, 90));
+    v_max numeric := coalesce((p_rules->>'max_score')::numeric, 100);
+    v_new interval := make_interval(days => coalesce((p_rules->>'new_days')::integer, 30));
+    v_engaged interval := make_interval(days => coalesce((p_rules->>'engaged_days')::integer, 30));
+    v_churned interval := make_interval(days => coalesce((p_rules->>'churned_days')::integer, 180));
+    v_updated integer;
+BEGIN
+    WITH cc AS (
+        SELECT contact_id,
+            count(*) FILTER (WHERE delivered_at >= v_since OR read_at >= v_since) AS delivered,
+            count(*) FILTER (WHERE read_at >= v_since) AS reads,
+            count(*) FILTER (WHERE button_clicked_at >= v_since) AS clicks,
+            max(greatest(read_at, button_clicked_at)) AS last_engaged
+        FROM campaign_contacts
+        WHERE contact_id IS NOT NULL
+        GROUP BY contact_id
+    ),
+    ib AS (
+        SELECT ic.contact_id,
+            count(*) FILTER (WHERE im.created_at >= v_since) AS replies,
+            max(im.created_at) AS last_engaged
+        FROM inbox_conversations ic
+        JOIN inbox_messages im ON im.conversation_id = ic.id AND im.direction = 'inbound'
+        WHERE ic.contact_id IS NOT NULL
+        GROUP BY ic.contact_id
+    ),
+    fs AS (
+        SELECT contact_id,
+            count(*) FILTER (WHERE created_at >= v_since) AS submissions,
+            max(created_at) AS last_engaged
+        FROM flow_submissions
+        WHERE contact_id IS NOT NULL
+        GROUP BY contact_id
+    ),
+    computed AS (
+        SELECT c.id,
+            c.created_at,
+            least(v_max, round(
+                coalesce(cc.delivered, 0) * coalesce((p_rules->>'w_delivered')::numeric, 1)
+                + coalesce(cc.reads, 0) * coalesce((p_rules->>'w_read')::numeric, 3)
+                + coalesce(cc.clicks, 0) * coalesce((p_rules->>'w_clicked')::numeric, 5)
+                + coalesce(ib.replies, 0) * coalesce((p_rules->>'w_replied')::numeric, 8)
+                + coalesce(fs.submissions, 0) * coalesce((p_rules->>'w_flow')::numeric, 10)
+                + (CASE WHEN c.last_lead_capture_at >= v_since THEN 1 ELSE 0 END) * coalesce((p_rules->>'w_lead')::numeric, 10)
+            ))::integer AS score,
+            -- greatest() ignora NULLs
+            greatest(cc.last_engaged, ib.last_engaged, fs.last_engaged, c.last_lead_capture_at) AS last_engaged
+        FROM contacts c
+        LEFT JOIN cc ON cc.contact_id = c.id
+        LEFT JOIN ib ON ib.contact_id = c.id
+        LEFT JOIN fs ON fs.contact_id = c.id
+        WHERE c.workspace_id = public.current_workspace_id()
+    ),
+    staged AS (
+        SELECT id, score, last_engaged,
+            CASE
+                WHEN last_engaged IS NOT NULL THEN
+                    CASE
+                        WHEN last_engaged >= now() - v_engaged THEN 'engaged'
+                        WHEN last_engaged >= now() - v_churned THEN 'dormant'
+                        ELSE 'churned'
+                    END
+                WHEN created_at >= now() - v_new THEN 'new'
+                WHEN created_at >= now() - v_churned THEN 'dormant'
+                ELSE 'churned'
+            END AS stage
+        FROM computed
+    )
+    UPDATE contacts c
+    SET engagement_score = s.score,
+        lifecycle_stage = s.stage,
+        last_engaged_at = s.last_engaged
+    FROM staged s
+    WHERE c.id = s.id
+      AND (c.engagement_score IS DISTINCT FROM s.score
+        OR c.lifecycle_stage IS DISTINCT FROM s.stage
+        OR c.last_engaged_at IS DISTINCT FROM s.last_engaged);
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.segment_rule_sql(p_rule jsonb, p_depth integer DEFAULT 1)
+    RETURNS text
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_type text := p_rule->>'type';
+    v_field text;
+    v_op text;
+    v_value text;
+    v_list text[];
+    v_expr text;
+    v_parts text[];
+    v_child jsonb;
+    v_sql text;
+    v_since text := '';
+BEGIN
+    IF v_type = 'group' THEN
+        IF p_depth > 4 THEN
+            RAISE EXCEPTION 'segment: profundidade máxima excedida';
+        END IF;
+        v_parts := ARRAY[]::text[];
+        FOR v_child IN SELECT * FROM jsonb_array_elements(coalesce(p_rule->'rules', '[]'::jsonb)) LOOP
+            v_parts := v_parts || public.segment_rule_sql(v_child, p_depth + 1);
+        END LOOP;
+        IF coalesce(array_length(v_parts, 1), 0) = 0 THEN
+            RETURN 'TRUE';
+        END IF;
+        RETURN '(' || array_to_string(v_parts, CASE WHEN p_rule->>'combinator' = 'or' THEN ' OR ' ELSE ' AND ' END) || ')';
+    END IF;
+
+    IF v_type = 'engagement' THEN
+        IF (p_rule->>'withinDays') ~ '^\d+$' THEN
+            v_since := format(' >= now() - make_interval(days => %s)', (p_rule->>'withinDays')::integer);
+        END IF;
+
+        CASE p_rule->>'event'
+            WHEN 'read_last_campaign' THEN
+                -- Última campanha recebida pelo contato (ou a campanha indicada)
+                v_sql := format(
+                    'coalesce((SELECT (cc.read_at IS NOT NULL OR cc.status = ''read'') FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.sent_at IS NOT NULL%s%s ORDER BY cc.sent_at DESC LIMIT 1), false)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.sent_at' || v_since ELSE '' END
+                );
+            WHEN 'replied_inbox' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM inbox_conversations ic JOIN inbox_messages im ON im.conversation_id = ic.id WHERE ic.workspace_id = c.workspace_id AND (ic.contact_id = c.id OR ic.phone = c.phone) AND im.direction = ''inbound''%s)',
+                    CASE WHEN v_since <> '' THEN ' AND im.created_at' || v_since ELSE '' END
+                );
+            WHEN 'submitted_flow' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM flow_submissions fs WHERE (fs.contact_id = c.id OR fs.from_phone = c.phone)%s%s)',
+                    CASE WHEN nullif(p_rule->>'flowId', '') IS NOT NULL THEN format(' AND (fs.flow_id = %1$L OR fs.flow_local_id = %1$L)', p_rule->>'flowId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND fs.created_at' || v_since ELSE '' END
+                );
+            WHEN 'clicked_button' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.button_clicked_at IS NOT NULL%s%s%s)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN nullif(p_rule->>'buttonText', '') IS NOT NULL THEN format(' AND lower(cc.button_clicked_text) = lower(%L)', p_rule->>'buttonText') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.button_clicked_at' || v_since ELSE '' END
+                );
+            ELSE
+                RAISE EXCEPTION 'segment: evento desconhecido %', p_rule->>'event';
+        END CASE;
+
+        IF coalesce((p_rule->>'negate')::boolean, false) THEN
+            RETURN '(NOT ' || v_sql || ')';
+        END IF;
+        RETURN v_sql;
+    END IF;
+
+    IF v_type <> 'condition' THEN
+        RAISE EXCEPTION 'segment: tipo de regra desconhecido %', v_type;
+    END IF;
+
+    v_field := p_rule->>'field';
+    v_op := p_rule->>'operator';
+    v_value := CASE WHEN jsonb_typeof(p_rule->'value') IN ('string', 'number') THEN p_rule->>'value' END;
+    IF jsonb_typeof(p_rule->'value') = 'array' THEN
+        SELECT array_agg(btrim(x)) INTO v_list FROM jsonb_array_elements_text(p_rule->'value') x WHERE btrim(x) <> '';
+    END IF;
+
+    -- Tags (jsonb array): usa o índice GIN via ? / ?|
+    IF v_field = 'tags' THEN
+        CASE v_op
+            WHEN 'contains' THEN v_sql := format('coalesce(c.tags ? %L, false)', v_value);
+            WHEN 'not_contains' THEN v_sql := format('NOT coalesce(c.tags ? %L, false)', v_value);
+            WHEN 'in_list' THEN v_sql := format('coalesce(c.tags ?| %L::text[], false)', coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'not_in_list' THEN v_sql := format('NOT coalesce(c.tags ?| %L::text[], false)', coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'exists' THEN v_sql := '(jsonb_typeof(c.tags) = ''array'' AND jsonb_array_length(c.tags) > 0)';
+            WHEN 'not_exists' THEN v_sql := 'NOT (jsonb_typeof(c.tags) = ''array'' AND jsonb_array_length(c.tags) > 0)';
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para tags', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    -- DDI: prefixo dos dígitos do telefone (E.164)
+    IF v_field = 'ddi' THEN
+        v_value := regexp_replace(coalesce(v_value, ''), '\D', '', 'g');
+        SELECT array_agg(regexp_replace(x, '\D', '', 'g') || '%') INTO v_list FROM unnest(coalesce(v_list, ARRAY[]::text[])) x;
+        v_expr := 'regexp_replace(c.phone, ''\D'', '''', ''g'')';
+        CASE v_op
+            WHEN 'equals' THEN v_sql := format('%s LIKE %L', v_expr, v_value || '%');
+            WHEN 'not_equals' THEN v_sql := format('%s NOT LIKE %L', v_expr, v_value || '%');
+            WHEN 'in_list' THEN v_sql := format('%s LIKE ANY (%L::text[])', v_expr, coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'not_in_list' THEN v_sql := format('NOT (%s LIKE ANY (%L::text[]))', v_expr, coalesce(v_list, ARRAY[]::text[]));
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para ddi', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    -- Data de criação
+    IF v_field = 'created_at' THEN
+        IF public.segment_try_timestamptz(v_value) IS NULL THEN
+            RAISE EXCEPTION 'segment: data inválida %', v_value;
+        END IF;
+        CASE v_op
+            WHEN 'before' THEN v_sql := format('c.created_at < %L::timestamptz', v_value);
+            WHEN 'after' THEN v_sql := format('c.created_at > %L::timestamptz', v_value);
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para created_at', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    v_expr := CASE v_field
+        WHEN 'name' THEN 'c.name'
+        WHEN 'email' THEN 'c.email'
+        WHEN 'phone' THEN 'c.phone'
+        WHEN 'status' THEN 'c.status'
+        WHEN 'uf' THEN 'public.contact_phone_uf(c.phone)'
+        WHEN 'lifecycle_stage' THEN 'c.lifecycle_stage'
+        WHEN 'engagement_score' THEN 'c.engagement_score::text'
+        WHEN 'custom_field' THEN format('(c.custom_fields ->> %L)', p_rule->>'key')
+    END;
+    IF v_expr IS NULL THEN
+        RAISE EXCEPTION 'segment: campo desconhecido %', v_field;
+    END IF;
+    IF v_field = 'custom_field' AND nullif(p_rule->>'key', '') IS NULL THEN
+        RAISE EXCEPTION 'segment: campo personalizado sem chave';
+    END IF;
+
+    CASE v_op
+        WHEN 'equals' THEN
+            v_sql := format('coalesce(lower(%s) = lower(%L), false)', v_expr, v_value);
+        WHEN 'not_equals' THEN
+            v_sql := format('NOT coalesce(lower(%s) = lower(%L), false)', v_expr, v_value);
+        WHEN 'contains' THEN
+            v_sql := format('coalesce(%s ILIKE %L, false)', v_expr, '%' || replace(replace(replace(coalesce(v_value, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+        WHEN 'not_contains' THEN
+            v_sql := format('NOT coalesce(%s ILIKE %L, false)', v_expr, '%' || replace(replace(replace(coalesce(v_value, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+        WHEN 'in_list' THEN
+            v_sql := format('coalesce(lower(%s) = ANY (%L::text[]), false)', v_expr, (SELECT array_agg(lower(x)) FROM unnest(coalesce(v_list, ARRAY[]::text[])) x));
+        WHEN 'not_in_list' THEN
+            v_sql := format('NOT coalesce(lower(%s) = ANY (%L::text[]), false)', v_expr, (SELECT array_agg(lower(x)) FROM unnest(coalesce(v_list, ARRAY[]::text[])) x));
+        WHEN 'exists' THEN
+            v_sql := format('(nullif(btrim(%s), '''') IS NOT NULL)', v_expr);
+        WHEN 'not_exists' THEN
+            v_sql := format('(nullif(btrim(%s), '''') IS NULL)', v_expr);
+        WHEN 'greater_than', 'less_than' THEN
+            IF v_field NOT IN ('custom_field', 'engagement_score') OR public.segment_try_numeric(v_value) IS NULL THEN
+                RAISE EXCEPTION 'segment: comparação numérica inválida';
+            END IF;
+            v_sql := format('coalesce(public.segment_try_numeric(%s) %s %s, false)', v_expr, CASE v_op WHEN 'greater_than' THEN '>' ELSE '<' END, public.segment_try_numeric(v_value));
+        WHEN 'before', 'after' THEN
+            IF v_field <> 'custom_field' OR public.segment_try_timestamptz(v_value) IS NULL THEN
+                RAISE EXCEPTION 'segment: comparação de data inválida';
+            END IF;
+            v_sql := format('coalesce(public.segment_try_timestamptz(%s) %s %L::timestamptz, false)', v_expr, CASE v_op WHEN 'before' THEN '<' ELSE '>' END, v_value);
+        ELSE
+            RAISE EXCEPTION 'segment: operador desconhecido %', v_op;
+    END CASE;
+
+    RETURN v_sql;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_contacts_by_segment(p_definition jsonb)
+    RETURNS TABLE(total bigint, matched bigint)
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+    RETURN QUERY EXECUTE format(
+        'SELECT count(*)::bigint, count(*) FILTER (WHERE %s)::bigint FROM contacts c WHERE c.workspace_id = public.current_workspace_id()',
+        public.segment_rule_sql(coalesce(p_definition, '{"type":"group","rules":[]}'::jsonb))
+    );
+END;
+$$;
+
+-- Paginação por keyset (id) para não degradar com OFFSET em bases grandes
+CREATE OR REPLACE FUNCTION public.get_contacts_by_segment(p_definition jsonb, p_limit integer DEFAULT 1000, p_after_id text DEFAULT NULL)
+    RETURNS SETOF public.contacts
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+    RETURN QUERY EXECUTE format(
+        'SELECT c.* FROM contacts c WHERE c.workspace_id = public.current_workspace_id() AND %s AND ($1 IS NULL OR c.id > $1) ORDER BY c.id LIMIT %s',
+        public.segment_rule_sql(coalesce(p_definition, '{"type":"group","rules":[]}'::jsonb)),
+        greatest(1, least(coalesce(p_limit, 1000), 5000))
+    ) USING p_after_id;
+END;
+$$;
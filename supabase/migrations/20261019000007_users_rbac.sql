@@ -0,0 +1,77 @@
+/**
+ * MIGRATION: USUÁRIOS, PAPÉIS E CONVITES
+ * Contas de usuário da instalação (não pertencem a um workspace) com papel:
+ * owner, admin, campaign_manager, agent, analyst. O login por MASTER_PASSWORD
+ * continua valendo e equivale ao papel owner.
+ *
+ * - user_invites: convites com token de uso único (apenas o hash é salvo)
+ * - audit_log: histórico de ações por ator (usuário, chave de API, sistema)
+ * - inbox_conversations.assigned_user_id: agentes só enxergam conversas atribuídas a eles
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Usuários
+CREATE TABLE IF NOT EXISTS public.users (
+    id text DEFAULT concat('usr_', replace((extensions.uuid_generate_v4())::text, '-'::text, ''::text)) NOT NULL PRIMARY KEY,
+    email text NOT NULL,
+    name text NOT NULL,
+    role text NOT NULL,
+    password_hash text NOT NULL,
+    is_active boolean DEFAULT true NOT NULL,
+    last_login_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone,
+    CONSTRAINT users_role_check CHECK ((role = ANY (ARRAY['owner'::text, 'admin'::text, 'campaign_manager'::text, 'agent'::text, 'analyst'::text])))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email ON public.users USING btree (lower(email));
+
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.users;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Convites
+CREATE TABLE IF NOT EXISTS public.user_invites (
+    id text DEFAULT concat('inv_', replace((extensions.uuid_generate_v4())::text, '-'::text, ''::text)) NOT NULL PRIMARY KEY,
+    email text NOT NULL,
+    role text NOT NULL,
+    token_hash text NOT NULL UNIQUE,
+    invited_by text REFERENCES public.users(id) ON DELETE SET NULL,
+    expires_at timestamp with time zone NOT NULL,
+    accepted_at timestamp with time zone,
+    revoked_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT user_invites_role_check CHECK ((role = ANY (ARRAY['admin'::text, 'campaign_manager'::text, 'agent'::text, 'analyst'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_invites_email ON public.user_invites USING btree (lower(email));
+
+ALTER TABLE public.user_invites ENABLE ROW LEVEL SECURITY;
+
+-- 3. Histórico de ações (append-only)
+CREATE TABLE IF NOT EXISTS public.audit_log (
+    id uuid DEFAULT extensions.uuid_generate_v4() NOT NULL PRIMARY KEY,
+    workspace_id text REFERENCES public.workspaces(id) ON DELETE SET NULL,
+    actor_type text NOT NULL,
+    actor_id text,
+    actor_label text,
+    action text NOT NULL,
+    entity_type text,
+    entity_id text,
+    metadata jsonb DEFAULT '{}'::jsonb NOT NULL,
+    ip text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT audit_log_actor_type_check CHECK ((actor_type = ANY (ARRAY['user'::text, 'api_key'::text, 'attendant'::text, 'system'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log USING btree (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log USING btree (actor_type, actor_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- 4. Atribuição de conversas a usuários
+ALTER TABLE public.inbox_conversations
+    ADD COLUMN IF NOT EXISTS assigned_user_id text REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inbox_conversations_assigned_user_id ON public.inbox_conversations USING btree (assigned_user_id) WHERE (assigned_user_id IS NOT NULL);
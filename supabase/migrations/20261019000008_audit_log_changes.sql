@@ -0,0 +1,14 @@
+/**
+ * MIGRATION: AUDIT LOG - DIFF E FILTROS
+ * Cada evento passa a guardar o diff antes/depois dos campos alterados
+ * ({ campo: { before, after } }) e ganha índices para os filtros da tela
+ * de auditoria (ação, entidade, workspace).
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+ALTER TABLE public.audit_log
+    ADD COLUMN IF NOT EXISTS changes jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON public.audit_log USING btree (action, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON public.audit_log USING btree (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_workspace ON public.audit_log USING btree (workspace_id, created_at DESC);
@@ -0,0 +1,123 @@
+/**
+ * MIGRATION: FILAS E ATRIBUIÇÃO DE CONVERSAS
+ * Filas de atendimento por workspace com a estratégia de distribuição
+ * (round_robin ou least_busy) usada na atribuição automática após o handoff.
+ *
+ * - inbox_queues: membros (ids de usuários), estratégia e último atribuído (rodízio)
+ * - inbox_conversations.queue_id / assigned_at: fila da conversa e data da atribuição
+ * - push_subscriptions.user_id: notifica o usuário quando uma conversa é atribuída a ele
+ * - assign_conversation_from_queue: escolha do próximo membro + atribuição numa transação
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Filas
+CREATE TABLE IF NOT EXISTS public.inbox_queues (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    strategy text DEFAULT 'round_robin'::text NOT NULL,
+    member_user_ids text[] DEFAULT '{}'::text[] NOT NULL,
+    is_default boolean DEFAULT false NOT NULL,
+    last_assigned_user_id text REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone,
+    CONSTRAINT inbox_queues_strategy_check CHECK ((strategy = ANY (ARRAY['round_robin'::text, 'least_busy'::text])))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inbox_queues_workspace_name ON public.inbox_queues USING btree (workspace_id, name);
+-- No máximo uma fila padrão por workspace
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inbox_queues_workspace_default ON public.inbox_queues USING btree (workspace_id) WHERE is_default;
+
+ALTER TABLE public.inbox_queues ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.inbox_queues;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.inbox_queues FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Fila e data da atribuição nas conversas
+ALTER TABLE public.inbox_conversations
+    ADD COLUMN IF NOT EXISTS queue_id uuid REFERENCES public.inbox_queues(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS assigned_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_inbox_conversations_queue_id ON public.inbox_conversations USING btree (queue_id) WHERE (queue_id IS NOT NULL);
+CREATE INDEX IF NOT EXISTS idx_inbox_conversations_open_assigned ON public.inbox_conversations USING btree (assigned_user_id) WHERE (status = 'open'::text AND assigned_user_id IS NOT NULL);
+
+-- 3. Dono da subscription de push
+ALTER TABLE public.push_subscriptions
+    ADD COLUMN IF NOT EXISTS user_id text REFERENCES public.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions USING btree (user_id) WHERE (user_id IS NOT NULL);
+
+-- 4. Atribuição automática pela fila (rodízio ou menos ocupado)
+--    A linha da fila fica travada (FOR UPDATE) da escolha até gravar o último atribuído:
+--    handoffs simultâneos na mesma fila não recebem o mesmo membro. Só atribui conversas
+--    ainda sem responsável; retorna o usuário atribuído ou NULL.
+CREATE OR REPLACE FUNCTION public.assign_conversation_from_queue(p_conversation_id uuid, p_queue_id uuid) RETURNS text
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_queue inbox_queues%ROWTYPE;
+    v_members text[];
+    v_last_index integer;
+    v_ordered text[];
+    v_user_id text;
+BEGIN
+    SELECT * INTO v_queue FROM inbox_queues WHERE id = p_queue_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Membros ativos, sem duplicados, na ordem cadastrada
+    SELECT array_agg(m.user_id ORDER BY m.ord) INTO v_members
+    FROM (
+        SELECT DISTINCT ON (member.user_id) member.user_id, member.ord
+        FROM unnest(v_queue.member_user_ids) WITH ORDINALITY AS member(user_id, ord)
+        ORDER BY member.user_id, member.ord
+    ) m
+    JOIN users u ON u.id = m.user_id AND u.is_active;
+
+    IF v_members IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Rodízio: começa logo após o último atribuído (ou do início, se ele saiu da fila)
+    v_last_index := array_position(v_members, v_queue.last_assigned_user_id);
+    v_ordered := CASE
+        WHEN v_last_index IS NULL THEN v_members
+        ELSE v_members[v_last_index + 1:] || v_members[:v_last_index]
+    END;
+
+    IF v_queue.strategy = 'least_busy' THEN
+        -- Menos conversas abertas; empate segue a ordem do rodízio
+        SELECT o.user_id INTO v_user_id
+        FROM unnest(v_ordered) WITH ORDINALITY AS o(user_id, ord)
+        ORDER BY (
+            SELECT COUNT(*) FROM inbox_conversations c
+            WHERE c.workspace_id = v_queue.workspace_id
+              AND c.assigned_user_id = o.user_id
+              AND c.status = 'open'
+        ), o.ord
+        LIMIT 1;
+    ELSE
+        v_user_id := v_ordered[1];
+    END IF;
+
+    UPDATE inbox_conversations
+    SET assigned_user_id = v_user_id, assigned_at = now()
+    WHERE id = p_conversation_id
+      AND assigned_user_id IS NULL;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE inbox_queues SET last_assigned_user_id = v_user_id WHERE id = p_queue_id;
+
+    RETURN v_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.assign_conversation_from_queue(uuid, uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.assign_conversation_from_queue(uuid, uuid) FROM anon;
+REVOKE ALL ON FUNCTION public.assign_conversation_from_queue(uuid, uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.assign_conversation_from_queue(uuid, uuid) TO service_role;
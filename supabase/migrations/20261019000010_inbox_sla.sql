@@ -0,0 +1,177 @@
+/**
+ * MIGRATION: SLA DO ATENDIMENTO HUMANO
+ * Relógio de SLA das conversas em modo humano: início (entrada em modo humano),
+ * primeira resposta do atendente, resolução (fechamento) e os prazos de cada meta.
+ *
+ * - A política fica na tabela settings (chave inbox_sla_config, por workspace):
+ *   metas por prioridade e, opcionalmente, contagem apenas em horário comercial
+ *   (workingHours no mesmo formato do agendamento: WorkingHoursDay[])
+ * - Os triggers mantêm os timestamps em todos os caminhos (handoff da IA, manual, takeover)
+ * - sla_next_due_at: próximo prazo pendente, usado para ordenar as atrasadas primeiro
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Colunas
+ALTER TABLE public.inbox_conversations
+    ADD COLUMN IF NOT EXISTS sla_started_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS first_response_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS resolved_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS sla_first_response_due_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS sla_resolution_due_at timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS sla_next_due_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_inbox_conversations_sla_next_due ON public.inbox_conversations USING btree (sla_next_due_at) WHERE (sla_next_due_at IS NOT NULL);
+CREATE INDEX IF NOT EXISTS idx_inbox_conversations_sla_started ON public.inbox_conversations USING btree (sla_started_at DESC) WHERE (sla_started_at IS NOT NULL);
+
+-- 2. Prazo somando minutos (corridos ou apenas em horário comercial)
+CREATE OR REPLACE FUNCTION public.sla_deadline(p_start timestamp with time zone, p_minutes integer, p_config jsonb)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  v_tz text := COALESCE(NULLIF(p_config->>'timezone', ''), 'America/Sao_Paulo');
+  v_weekdays text[] := ARRAY['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+  v_remaining integer := p_minutes;
+  v_local timestamp;
+  v_date date;
+  v_day jsonb;
+  v_slot jsonb;
+  v_slot_start timestamp;
+  v_slot_end timestamp;
+  v_from timestamp;
+  v_available integer;
+BEGIN
+  IF p_start IS NULL OR p_minutes IS NULL OR p_minutes <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT COALESCE((p_config->>'businessHoursOnly')::boolean, false) THEN
+    RETURN p_start + make_interval(mins => p_minutes);
+  END IF;
+
+  v_local := p_start AT TIME ZONE v_tz;
+  v_date := v_local::date;
+
+  -- Procura até 60 dias à frente (sem horário comercial configurado = sem prazo)
+  FOR i IN 0..59 LOOP
+    v_day := NULL;
+    SELECT d INTO v_day
+    FROM jsonb_array_elements(COALESCE(p_config->'workingHours', '[]'::jsonb)) d
+    WHERE d->>'day' = v_weekdays[EXTRACT(DOW FROM v_date)::integer + 1]
+    LIMIT 1;
+
+    IF v_day IS NOT NULL AND COALESCE((v_day->>'enabled')::boolean, false) THEN
+      FOR v_slot IN
+        SELECT s
+        FROM jsonb_array_elements(
+          CASE
+            WHEN jsonb_typeof(v_day->'slots') = 'array' AND jsonb_array_length(v_day->'slots') > 0 THEN v_day->'slots'
+            ELSE jsonb_build_array(jsonb_build_object('start', v_day->>'start', 'end', v_day->>'end'))
+          END
+        ) s
+        ORDER BY s->>'start'
+      LOOP
+        v_slot_start := v_date + (v_slot->>'start')::time;
+        v_slot_end := v_date + (v_slot->>'end')::time;
+        v_from := GREATEST(v_slot_start, v_local);
+
+        IF v_from < v_slot_end THEN
+          v_available := floor(EXTRACT(EPOCH FROM (v_slot_end - v_from)) / 60)::integer;
+          IF v_available >= v_remaining THEN
+            RETURN (v_from + make_interval(mins => v_remaining)) AT TIME ZONE v_tz;
+          END IF;
+          v_remaining := v_remaining - v_available;
+        END IF;
+      END LOOP;
+    END IF;
+
+    v_date := v_date + 1;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- 3. Relógio de SLA da conversa
+CREATE OR REPLACE FUNCTION public.inbox_conversations_sla_clock()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_config jsonb;
+  v_policy jsonb;
+BEGIN
+  -- Entrou em modo humano (ou foi reaberta em modo humano): reinicia o relógio
+  IF NEW.mode = 'human' AND NEW.status = 'open'
+     AND (TG_OP = 'INSERT' OR OLD.mode IS DISTINCT FROM 'human' OR OLD.status = 'closed') THEN
+    NEW.sla_started_at := now();
+    NEW.first_response_at := NULL;
+    NEW.resolved_at := NULL;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'closed' AND OLD.status = 'open'
+     AND NEW.sla_started_at IS NOT NULL AND NEW.resolved_at IS NULL THEN
+    NEW.resolved_at := now();
+  END IF;
+
+  -- Prazos: recalculados quando o relógio reinicia ou a prioridade muda
+  IF NEW.sla_started_at IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.sla_started_at IS DISTINCT FROM OLD.sla_started_at OR NEW.priority IS DISTINCT FROM OLD.priority) THEN
+    BEGIN
+      SELECT value::jsonb INTO v_config
+      FROM public.settings
+      WHERE key = 'inbox_sla_config' AND workspace_id = NEW.workspace_id;
+    EXCEPTION WHEN others THEN
+      v_config := NULL;
+    END;
+
+    v_policy := v_config->'policies'->NEW.priority;
+    IF COALESCE((v_config->>'enabled')::boolean, false) AND v_policy IS NOT NULL THEN
+      NEW.sla_first_response_due_at := public.sla_deadline(NEW.sla_started_at, (v_policy->>'firstResponseMinutes')::integer, v_config);
+      NEW.sla_resolution_due_at := public.sla_deadline(NEW.sla_started_at, (v_policy->>'resolutionMinutes')::integer, v_config);
+    ELSE
+      NEW.sla_first_response_due_at := NULL;
+      NEW.sla_resolution_due_at := NULL;
+    END IF;
+  END IF;
+
+  NEW.sla_next_due_at := CASE
+    WHEN NEW.status = 'closed' OR NEW.resolved_at IS NOT NULL THEN NULL
+    WHEN NEW.first_response_at IS NULL THEN COALESCE(NEW.sla_first_response_due_at, NEW.sla_resolution_due_at)
+    ELSE NEW.sla_resolution_due_at
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inbox_conversations_sla_clock ON public.inbox_conversations;
+CREATE TRIGGER inbox_conversations_sla_clock
+    BEFORE INSERT OR UPDATE ON public.inbox_conversations
+    FOR EACH ROW EXECUTE FUNCTION public.inbox_conversations_sla_clock();
+
+-- 4. Primeira resposta: mensagem enviada pelo atendente em modo humano
+--    (ignora notas internas e templates sincronizados de campanhas)
+CREATE OR REPLACE FUNCTION public.inbox_messages_sla_first_response()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.direction = 'outbound'
+     AND NEW.message_type <> 'internal_note'
+     AND COALESCE(NEW.payload->>'type', '') <> 'campaign_template' THEN
+    UPDATE public.inbox_conversations
+    SET first_response_at = NEW.created_at
+    WHERE id = NEW.conversation_id
+      AND mode = 'human'
+      AND sla_started_at IS NOT NULL
+      AND first_response_at IS NULL
+      AND NEW.created_at >= sla_started_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inbox_messages_sla_first_response ON public.inbox_messages;
+CREATE TRIGGER inbox_messages_sla_first_response
+    AFTER INSERT ON public.inbox_messages
+    FOR EACH ROW EXECUTE FUNCTION public.inbox_messages_sla_first_response();
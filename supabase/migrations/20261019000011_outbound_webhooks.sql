@@ -0,0 +1,55 @@
+/**
+ * MIGRATION: WEBHOOKS DE SAÍDA
+ * Endpoints externos assinam tipos de evento (message.received, campaign.completed, ...)
+ * e recebem POSTs assinados com HMAC-SHA256. Cada tentativa fica registrada no log.
+ *
+ * - webhook_endpoints: URL, segredo de assinatura e eventos assinados (por workspace)
+ * - webhook_deliveries: uma linha por entrega (redelivery cria nova linha com o mesmo event_id)
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Endpoints
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    url text NOT NULL,
+    secret text NOT NULL,
+    event_types text[] DEFAULT '{}'::text[] NOT NULL,
+    is_active boolean DEFAULT true NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_workspace ON public.webhook_endpoints USING btree (workspace_id) WHERE is_active;
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.webhook_endpoints;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.webhook_endpoints FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Log de entregas
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    endpoint_id uuid NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    event_id uuid NOT NULL,
+    event_type text NOT NULL,
+    payload jsonb NOT NULL,
+    status text DEFAULT 'pending'::text NOT NULL,
+    attempts integer DEFAULT 0 NOT NULL,
+    response_status integer,
+    response_body text,
+    error text,
+    last_attempt_at timestamp with time zone,
+    next_retry_at timestamp with time zone,
+    delivered_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT webhook_deliveries_status_check CHECK ((status = ANY (ARRAY['pending'::text, 'delivering'::text, 'success'::text, 'failed'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_workspace ON public.webhook_deliveries USING btree (workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON public.webhook_deliveries USING btree (endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event ON public.webhook_deliveries USING btree (event_id);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
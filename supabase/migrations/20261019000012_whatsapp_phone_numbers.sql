@@ -0,0 +1,224 @@
+/**
+ * MIGRATION: MÚLTIPLOS NÚMEROS DE WHATSAPP
+ * Vários números da mesma WABA gerenciados no workspace, com roteamento por número.
+ *
+ * - whatsapp_phone_numbers: números registrados (rótulo, agente de IA vinculado,
+ *   última qualidade/tier lidos da Meta). O número principal continua em settings.phoneNumberId
+ * - inbox_conversations.phone_number_id: número que recebeu a conversa (respostas saem por ele)
+ * - campaigns.phone_number_id: número remetente escolhido na campanha (NULL = principal)
+ * - process_inbound_message: separa conversas do mesmo contato por número e
+ *   cria novas conversas com o agente de IA vinculado ao número
+ * - get_agent_config: conversa sem agente usa o agente do número
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Números registrados
+CREATE TABLE IF NOT EXISTS public.whatsapp_phone_numbers (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    phone_number_id text NOT NULL,
+    display_phone_number text,
+    verified_name text,
+    label text,
+    ai_agent_id uuid REFERENCES public.ai_agents(id) ON DELETE SET NULL,
+    quality_rating text,
+    messaging_limit_tier text,
+    limits_updated_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone,
+    CONSTRAINT whatsapp_phone_numbers_workspace_phone_key UNIQUE (workspace_id, phone_number_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_phone_numbers_phone ON public.whatsapp_phone_numbers USING btree (phone_number_id);
+
+ALTER TABLE public.whatsapp_phone_numbers ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.whatsapp_phone_numbers;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.whatsapp_phone_numbers FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Número da conversa e da campanha
+ALTER TABLE public.inbox_conversations ADD COLUMN IF NOT EXISTS phone_number_id text;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS phone_number_id text;
+
+CREATE INDEX IF NOT EXISTS idx_inbox_conversations_phone_number ON public.inbox_conversations USING btree (phone, phone_number_id);
+
+-- 3. Inbound: conversa por (telefone, número). Conversas antigas (sem número) são adotadas
+CREATE OR REPLACE FUNCTION public.process_inbound_message(
+  p_phone TEXT,
+  p_content TEXT,
+  p_whatsapp_message_id TEXT DEFAULT NULL,
+  p_message_type TEXT DEFAULT 'text',
+  p_media_url TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL,
+  p_contact_id TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_conversation_id UUID;
+  v_message_id UUID;
+  v_conversation_status TEXT;
+  v_conversation_mode TEXT;
+  v_ai_agent_id UUID;
+  v_human_mode_expires_at TIMESTAMPTZ;
+  v_automation_paused_until TIMESTAMPTZ;
+  v_is_new_conversation BOOLEAN := FALSE;
+  v_message_preview TEXT;
+  v_contact_id TEXT;
+  v_current_contact_id TEXT;
+  v_phone_number_id TEXT := NULLIF(p_payload->>'phone_number_id', '');
+  v_number_agent_id UUID;
+BEGIN
+  -- Auto-lookup contact by phone if not provided
+  IF p_contact_id IS NULL THEN
+    SELECT id INTO v_contact_id FROM contacts WHERE phone = p_phone AND workspace_id = public.current_workspace_id() LIMIT 1;
+  ELSE
+    v_contact_id := p_contact_id;
+  END IF;
+
+  -- Trunca preview para 100 chars
+  v_message_preview := CASE
+    WHEN LENGTH(p_content) > 100 THEN SUBSTRING(p_content, 1, 100) || '...'
+    ELSE p_content
+  END;
+
+  -- 1. Busca conversa existente pelo telefone + número no workspace atual
+  --    (mesmo número primeiro; depois conversas legadas sem número)
+  SELECT
+    id, status, mode, ai_agent_id, human_mode_expires_at, automation_paused_until, contact_id
+  INTO
+    v_conversation_id, v_conversation_status, v_conversation_mode,
+    v_ai_agent_id, v_human_mode_expires_at, v_automation_paused_until, v_current_contact_id
+  FROM inbox_conversations
+  WHERE phone = p_phone
+    AND workspace_id = public.current_workspace_id()
+    AND (
+      v_phone_number_id IS NULL
+      OR phone_number_id IS NULL
+      OR phone_number_id = v_phone_number_id
+    )
+  ORDER BY (phone_number_id IS NOT DISTINCT FROM v_phone_number_id) DESC, last_message_at DESC NULLS LAST
+  LIMIT 1;
+
+  -- 2. Se não existe, cria nova conversa (com o agente vinculado ao número, se houver)
+  IF v_conversation_id IS NULL THEN
+    IF v_phone_number_id IS NOT NULL THEN
+      SELECT ai_agent_id INTO v_number_agent_id
+      FROM whatsapp_phone_numbers
+      WHERE phone_number_id = v_phone_number_id
+        AND workspace_id = public.current_workspace_id()
+      LIMIT 1;
+    END IF;
+
+    INSERT INTO inbox_conversations (
+      phone,
+      phone_number_id,
+      ai_agent_id,
+      contact_id,
+      mode,
+      status,
+      total_messages,
+      unread_count,
+      last_message_at,
+      last_message_preview
+    ) VALUES (
+      p_phone,
+      v_phone_number_id,
+      v_number_agent_id,
+      v_contact_id,
+      'bot',
+      'open',
+      1,
+      1,
+      NOW(),
+      v_message_preview
+    )
+    RETURNING id, mode, ai_agent_id, human_mode_expires_at, automation_paused_until
+    INTO v_conversation_id, v_conversation_mode, v_ai_agent_id,
+         v_human_mode_expires_at, v_automation_paused_until;
+
+    v_is_new_conversation := TRUE;
+    v_conversation_status := 'open';
+  ELSE
+    -- 3. Se existe, atualiza contadores, reabre se fechada e fixa o número
+    UPDATE inbox_conversations
+    SET
+      total_messages = total_messages + 1,
+      unread_count = unread_count + 1,
+      last_message_at = NOW(),
+      last_message_preview = v_message_preview,
+      status = CASE WHEN status = 'closed' THEN 'open' ELSE status END,
+      contact_id = COALESCE(contact_id, v_contact_id),
+      phone_number_id = COALESCE(phone_number_id, v_phone_number_id),
+      updated_at = NOW()
+    WHERE id = v_conversation_id
+    RETURNING status INTO v_conversation_status;
+  END IF;
+
+  -- 4. Cria mensagem
+  INSERT INTO inbox_messages (
+    conversation_id,
+    direction,
+    content,
+    message_type,
+    whatsapp_message_id,
+    media_url,
+    delivery_status,
+    payload
+  ) VALUES (
+    v_conversation_id,
+    'inbound',
+    p_content,
+    p_message_type,
+    p_whatsapp_message_id,
+    p_media_url,
+    'delivered',
+    p_payload
+  )
+  RETURNING id INTO v_message_id;
+
+  -- 5. Retorna resultado completo
+  RETURN json_build_object(
+    'conversation_id', v_conversation_id,
+    'message_id', v_message_id,
+    'is_new_conversation', v_is_new_conversation,
+    'conversation_status', v_conversation_status,
+    'conversation_mode', v_conversation_mode,
+    'ai_agent_id', v_ai_agent_id,
+    'phone_number_id', v_phone_number_id,
+    'human_mode_expires_at', v_human_mode_expires_at,
+    'automation_paused_until', v_automation_paused_until
+  );
+END;
+$$;
+
+-- 4. Debounce do agente: conversa sem agente usa o agente do número
+CREATE OR REPLACE FUNCTION public.get_agent_config(
+  p_conversation_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_result JSON;
+BEGIN
+  SELECT json_build_object(
+    'ai_agent_id', COALESCE(c.ai_agent_id, n.ai_agent_id),
+    'debounce_ms', COALESCE(a.debounce_ms, 3000),
+    'agent_name', a.name
+  )
+  INTO v_result
+  FROM inbox_conversations c
+  LEFT JOIN whatsapp_phone_numbers n
+    ON n.phone_number_id = c.phone_number_id AND n.workspace_id = c.workspace_id
+  LEFT JOIN ai_agents a ON a.id = COALESCE(c.ai_agent_id, n.ai_agent_id)
+  WHERE c.id = p_conversation_id;
+
+  RETURN v_result;
+END;
+$$;
@@ -0,0 +1,83 @@
+/**
+ * MIGRATION: CONECTORES DE CRM (HubSpot, RD Station, Pipedrive)
+ * Sincronização de contatos nos dois sentidos (campos, tags -> listas, opt-out)
+ * e eventos do WhatsApp na timeline do CRM.
+ *
+ * - crm_connectors: provedor, token, mapeamento de campos/listas e eventos enviados
+ * - crm_contact_links: ID do contato no CRM por conector (evita buscar por telefone a cada envio)
+ * - crm_sync_logs: uma linha por sincronização; as pendentes são a fila do worker
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Conectores
+CREATE TABLE IF NOT EXISTS public.crm_connectors (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    provider text NOT NULL,
+    name text NOT NULL,
+    api_token text NOT NULL,
+    base_url text,
+    field_mappings jsonb DEFAULT '[]'::jsonb NOT NULL,
+    list_mappings jsonb DEFAULT '[]'::jsonb NOT NULL,
+    opt_out_field text,
+    event_types text[] DEFAULT '{}'::text[] NOT NULL,
+    sync_contacts boolean DEFAULT true NOT NULL,
+    import_contacts boolean DEFAULT false NOT NULL,
+    inbound_token text NOT NULL,
+    is_active boolean DEFAULT true NOT NULL,
+    last_import_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone,
+    CONSTRAINT crm_connectors_provider_check CHECK ((provider = ANY (ARRAY['hubspot'::text, 'rdstation'::text, 'pipedrive'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_connectors_workspace ON public.crm_connectors USING btree (workspace_id) WHERE is_active;
+
+ALTER TABLE public.crm_connectors ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.crm_connectors;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.crm_connectors FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Vínculo contato <-> registro no CRM
+CREATE TABLE IF NOT EXISTS public.crm_contact_links (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    connector_id uuid NOT NULL REFERENCES public.crm_connectors(id) ON DELETE CASCADE,
+    contact_id text NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+    external_id text NOT NULL,
+    synced_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT crm_contact_links_connector_contact_key UNIQUE (connector_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_contact_links_external ON public.crm_contact_links USING btree (connector_id, external_id);
+
+ALTER TABLE public.crm_contact_links ENABLE ROW LEVEL SECURITY;
+
+-- 3. Log de sincronização (também é a fila do worker)
+CREATE TABLE IF NOT EXISTS public.crm_sync_logs (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    connector_id uuid NOT NULL REFERENCES public.crm_connectors(id) ON DELETE CASCADE,
+    direction text NOT NULL,
+    kind text NOT NULL,
+    event_type text,
+    contact_id text,
+    phone text,
+    external_id text,
+    payload jsonb DEFAULT '{}'::jsonb NOT NULL,
+    status text DEFAULT 'pending'::text NOT NULL,
+    attempts integer DEFAULT 0 NOT NULL,
+    summary text,
+    error text,
+    next_retry_at timestamp with time zone,
+    completed_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT crm_sync_logs_direction_check CHECK ((direction = ANY (ARRAY['push'::text, 'pull'::text]))),
+    CONSTRAINT crm_sync_logs_kind_check CHECK ((kind = ANY (ARRAY['contact'::text, 'event'::text, 'import'::text]))),
+    CONSTRAINT crm_sync_logs_status_check CHECK ((status = ANY (ARRAY['pending'::text, 'success'::text, 'failed'::text, 'skipped'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_sync_logs_workspace ON public.crm_sync_logs USING btree (workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_crm_sync_logs_connector ON public.crm_sync_logs USING btree (connector_id, created_at DESC);
+
+ALTER TABLE public.crm_sync_logs ENABLE ROW LEVEL SECURITY;
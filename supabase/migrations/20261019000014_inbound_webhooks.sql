@@ -0,0 +1,56 @@
+/**
+ * MIGRATION: WEBHOOKS DE ENTRADA (gatilho genérico)
+ * Endpoints com token que recebem JSON de plataformas externas (Hotmart, Kiwify,
+ * lojas) e mapeiam o payload para contato + ação (tag, template ou workflow).
+ *
+ * - inbound_webhooks: token, mapeamento de campos (caminhos JSON), condição e ação
+ * - inbound_webhook_events: últimos payloads recebidos (inspetor) e o resultado de cada um
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Endpoints
+CREATE TABLE IF NOT EXISTS public.inbound_webhooks (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    token text NOT NULL,
+    field_mapping jsonb DEFAULT '{}'::jsonb NOT NULL,
+    condition_path text,
+    condition_value text,
+    action text DEFAULT 'upsert_contact'::text NOT NULL,
+    tags text[] DEFAULT '{}'::text[] NOT NULL,
+    template_name text,
+    template_variables jsonb DEFAULT '{}'::jsonb NOT NULL,
+    workflow_id text,
+    is_active boolean DEFAULT true NOT NULL,
+    last_received_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone,
+    CONSTRAINT inbound_webhooks_action_check CHECK ((action = ANY (ARRAY['upsert_contact'::text, 'add_tag'::text, 'send_template'::text, 'start_workflow'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_webhooks_workspace ON public.inbound_webhooks USING btree (workspace_id);
+
+ALTER TABLE public.inbound_webhooks ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS set_updated_at ON public.inbound_webhooks;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.inbound_webhooks FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Payloads recebidos (mantidos só os mais recentes de cada endpoint)
+CREATE TABLE IF NOT EXISTS public.inbound_webhook_events (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    webhook_id uuid NOT NULL REFERENCES public.inbound_webhooks(id) ON DELETE CASCADE,
+    payload jsonb DEFAULT '{}'::jsonb NOT NULL,
+    status text NOT NULL,
+    contact_id text,
+    phone text,
+    summary text,
+    error text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT inbound_webhook_events_status_check CHECK ((status = ANY (ARRAY['processed'::text, 'ignored'::text, 'failed'::text])))
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_webhook_events_webhook ON public.inbound_webhook_events USING btree (webhook_id, created_at DESC);
+
+ALTER TABLE public.inbound_webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,334 @@
+/**
+ * MIGRATION: RASTREIO DE CLIQUES EM BOTÕES DE URL
+ * Botões de URL dinâmicos apontando para /r/{{1}} recebem um código curto por
+ * contato; o redirect registra o clique e leva ao destino configurado na campanha.
+ *
+ * - campaigns.tracked_links: destino por botão ([{ buttonIndex, url }])
+ * - campaigns.clicks: contatos que clicaram ao menos uma vez (CTR)
+ * - campaign_contacts.link_code / link_clicked_at: código do contato e primeiro clique
+ * - campaign_link_clicks: todos os cliques (botão, destino, user agent)
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Configuração e contador na campanha
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS tracked_links jsonb;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS clicks integer DEFAULT 0 NOT NULL;
+
+-- 2. Código curto por contato (gerado no envio) + primeiro clique
+ALTER TABLE public.campaign_contacts ADD COLUMN IF NOT EXISTS link_code text;
+ALTER TABLE public.campaign_contacts ADD COLUMN IF NOT EXISTS link_clicked_at timestamp with time zone;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaign_contacts_link_code ON public.campaign_contacts USING btree (link_code) WHERE (link_code IS NOT NULL);
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_contact_link_clicked ON public.campaign_contacts USING btree (contact_id) WHERE (link_clicked_at IS NOT NULL);
+
+-- 3. Cliques (filha da campanha: herda o workspace pela FK)
+CREATE TABLE IF NOT EXISTS public.campaign_link_clicks (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    campaign_id text NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    campaign_contact_id text NOT NULL,
+    contact_id text,
+    phone text,
+    button_index integer NOT NULL,
+    url text NOT NULL,
+    user_agent text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_link_clicks_campaign ON public.campaign_link_clicks USING btree (campaign_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_campaign_link_clicks_campaign_contact ON public.campaign_link_clicks USING btree (campaign_contact_id);
+
+ALTER TABLE public.campaign_link_clicks ENABLE ROW LEVEL SECURITY;
+
+-- 4. Contador de cliques via increment_campaign_stat (mesmo caminho de delivered/read)
+CREATE OR REPLACE FUNCTION public.increment_campaign_stat(campaign_id_input text, field text) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF field = 'sent' THEN
+    UPDATE campaigns SET sent = COALESCE(sent, 0) + 1 WHERE id = campaign_id_input;
+  ELSIF field = 'delivered' THEN
+    UPDATE campaigns SET delivered = COALESCE(delivered, 0) + 1 WHERE id = campaign_id_input;
+  ELSIF field = 'read' THEN
+    UPDATE campaigns SET read = COALESCE(read, 0) + 1 WHERE id = campaign_id_input;
+  ELSIF field = 'failed' THEN
+    UPDATE campaigns SET failed = COALESCE(failed, 0) + 1 WHERE id = campaign_id_input;
+  ELSIF field = 'clicks' THEN
+    UPDATE campaigns SET clicks = COALESCE(clicks, 0) + 1 WHERE id = campaign_id_input;
+  END IF;
+END;
+$$;
+
+-- 5. Cliques por botão (total e contatos únicos)
+CREATE OR REPLACE FUNCTION public.get_campaign_link_stats(p_campaign_id text) RETURNS json
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    result JSON;
+BEGIN
+    SELECT COALESCE(json_agg(row_to_json(s) ORDER BY s.button_index), '[]'::json) INTO result
+    FROM (
+        SELECT
+            lc.button_index,
+            COUNT(*) AS clicks,
+            COUNT(DISTINCT lc.campaign_contact_id) AS unique_clickers,
+            MAX(lc.created_at) AS last_clicked_at
+        FROM campaign_link_clicks lc
+        WHERE lc.campaign_id = p_campaign_id
+        GROUP BY lc.button_index
+    ) s;
+
+    RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_campaign_link_stats(text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_campaign_link_stats(text) FROM anon;
+REVOKE ALL ON FUNCTION public.get_campaign_link_stats(text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_campaign_link_stats(text) TO service_role;
+
+-- 6. Dashboard: cliques e entregas das campanhas com rastreio (CTR)
+CREATE OR REPLACE VIEW public.campaign_stats_summary WITH (security_invoker='true') AS
+ SELECT (count(*))::integer AS total_campaigns,
+    (COALESCE(sum(sent), (0)::bigint))::integer AS total_sent,
+    (COALESCE(sum(delivered), (0)::bigint))::integer AS total_delivered,
+    (COALESCE(sum(read), (0)::bigint))::integer AS total_read,
+    (COALESCE(sum(failed), (0)::bigint))::integer AS total_failed,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['enviando'::text, 'sending'::text, 'SENDING'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS active_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['concluida'::text, 'completed'::text, 'COMPLETED'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS completed_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['rascunho'::text, 'draft'::text, 'DRAFT'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS draft_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['pausado'::text, 'paused'::text, 'PAUSED'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS paused_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['agendado'::text, 'scheduled'::text, 'SCHEDULED'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS scheduled_campaigns,
+    (count(
+        CASE
+            WHEN (status = ANY (ARRAY['falhou'::text, 'failed'::text, 'FAILED'::text])) THEN 1
+            ELSE NULL::integer
+        END))::integer AS failed_campaigns,
+    (COALESCE(sum(
+        CASE
+            WHEN (created_at > (now() - '24:00:00'::interval)) THEN sent
+            ELSE 0
+        END), (0)::bigint))::integer AS sent_24h,
+    (COALESCE(sum(
+        CASE
+            WHEN (created_at > (now() - '24:00:00'::interval)) THEN delivered
+            ELSE 0
+        END), (0)::bigint))::integer AS delivered_24h,
+    (COALESCE(sum(
+        CASE
+            WHEN (created_at > (now() - '24:00:00'::interval)) THEN failed
+            ELSE 0
+        END), (0)::bigint))::integer AS failed_24h,
+    (COALESCE(sum(clicks), (0)::bigint))::integer AS total_clicks,
+    (COALESCE(sum(
+        CASE
+            WHEN (jsonb_typeof(tracked_links) = 'array' AND jsonb_array_length(tracked_links) > 0) THEN delivered
+            ELSE 0
+        END), (0)::bigint))::integer AS tracked_delivered
+   FROM public.campaigns
+  WHERE (workspace_id = public.current_workspace_id());
+
+-- 7. Segmentos: "clicou no link" como critério de audiência (recompila o segment_rule_sql)
+CREATE OR REPLACE FUNCTION public.segment_rule_sql(p_rule jsonb, p_depth integer DEFAULT 1)
+    RETURNS text
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_type text := p_rule->>'type';
+    v_field text;
+    v_op text;
+    v_value text;
+    v_list text[];
+    v_expr text;
+    v_parts text[];
+    v_child jsonb;
+    v_sql text;
+    v_since text := '';
+BEGIN
+    IF v_type = 'group' THEN
+        IF p_depth > 4 THEN
+            RAISE EXCEPTION 'segment: profundidade máxima excedida';
+        END IF;
+        v_parts := ARRAY[]::text[];
+        FOR v_child IN SELECT * FROM jsonb_array_elements(coalesce(p_rule->'rules', '[]'::jsonb)) LOOP
+            v_parts := v_parts || public.segment_rule_sql(v_child, p_depth + 1);
+        END LOOP;
+        IF coalesce(array_length(v_parts, 1), 0) = 0 THEN
+            RETURN 'TRUE';
+        END IF;
+        RETURN '(' || array_to_string(v_parts, CASE WHEN p_rule->>'combinator' = 'or' THEN ' OR ' ELSE ' AND ' END) || ')';
+    END IF;
+
+    IF v_type = 'engagement' THEN
+        IF (p_rule->>'withinDays') ~ '^\d+$' THEN
+            v_since := format(' >= now() - make_interval(days => %s)', (p_rule->>'withinDays')::integer);
+        END IF;
+
+        CASE p_rule->>'event'
+            WHEN 'read_last_campaign' THEN
+                -- Última campanha recebida pelo contato (ou a campanha indicada)
+                v_sql := format(
+                    'coalesce((SELECT (cc.read_at IS NOT NULL OR cc.status = ''read'') FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.sent_at IS NOT NULL%s%s ORDER BY cc.sent_at DESC LIMIT 1), false)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.sent_at' || v_since ELSE '' END
+                );
+            WHEN 'replied_inbox' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM inbox_conversations ic JOIN inbox_messages im ON im.conversation_id = ic.id WHERE ic.workspace_id = c.workspace_id AND (ic.contact_id = c.id OR ic.phone = c.phone) AND im.direction = ''inbound''%s)',
+                    CASE WHEN v_since <> '' THEN ' AND im.created_at' || v_since ELSE '' END
+                );
+            WHEN 'submitted_flow' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM flow_submissions fs WHERE (fs.contact_id = c.id OR fs.from_phone = c.phone)%s%s)',
+                    CASE WHEN nullif(p_rule->>'flowId', '') IS NOT NULL THEN format(' AND (fs.flow_id = %1$L OR fs.flow_local_id = %1$L)', p_rule->>'flowId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND fs.created_at' || v_since ELSE '' END
+                );
+            WHEN 'clicked_button' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.button_clicked_at IS NOT NULL%s%s%s)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN nullif(p_rule->>'buttonText', '') IS NOT NULL THEN format(' AND lower(cc.button_clicked_text) = lower(%L)', p_rule->>'buttonText') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.button_clicked_at' || v_since ELSE '' END
+                );
+            WHEN 'clicked_link' THEN
+                v_sql := format(
+                    'EXISTS (SELECT 1 FROM campaign_contacts cc WHERE cc.contact_id = c.id AND cc.link_clicked_at IS NOT NULL%s%s)',
+                    CASE WHEN nullif(p_rule->>'campaignId', '') IS NOT NULL THEN format(' AND cc.campaign_id = %L', p_rule->>'campaignId') ELSE '' END,
+                    CASE WHEN v_since <> '' THEN ' AND cc.link_clicked_at' || v_since ELSE '' END
+                );
+            ELSE
+                RAISE EXCEPTION 'segment: evento desconhecido %', p_rule->>'event';
+        END CASE;
+
+        IF coalesce((p_rule->>'negate')::boolean, false) THEN
+            RETURN '(NOT ' || v_sql || ')';
+        END IF;
+        RETURN v_sql;
+    END IF;
+
+    IF v_type <> 'condition' THEN
+        RAISE EXCEPTION 'segment: tipo de regra desconhecido %', v_type;
+    END IF;
+
+    v_field := p_rule->>'field';
+    v_op := p_rule->>'operator';
+    v_value := CASE WHEN jsonb_typeof(p_rule->'value') IN ('string', 'number') THEN p_rule->>'value' END;
+    IF jsonb_typeof(p_rule->'value') = 'array' THEN
+        SELECT array_agg(btrim(x)) INTO v_list FROM jsonb_array_elements_text(p_rule->'value') x WHERE btrim(x) <> '';
+    END IF;
+
+    -- Tags (jsonb array): usa o índice GIN via ? / ?|
+    IF v_field = 'tags' THEN
+        CASE v_op
+            WHEN 'contains' THEN v_sql := format('coalesce(c.tags ? %L, false)', v_value);
+            WHEN 'not_contains' THEN v_sql := format('NOT coalesce(c.tags ? %L, false)', v_value);
+            WHEN 'in_list' THEN v_sql := format('coalesce(c.tags ?| %L::text[], false)', coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'not_in_list' THEN v_sql := format('NOT coalesce(c.tags ?| %L::text[], false)', coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'exists' THEN v_sql := '(jsonb_typeof(c.tags) = ''array'' AND jsonb_array_length(c.tags) > 0)';
+            WHEN 'not_exists' THEN v_sql := 'NOT (jsonb_typeof(c.tags) = ''array'' AND jsonb_array_length(c.tags) > 0)';
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para tags', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    -- DDI: prefixo dos dígitos do telefone (E.164)
+    IF v_field = 'ddi' THEN
+        v_value := regexp_replace(coalesce(v_value, ''), '\D', '', 'g');
+        SELECT array_agg(regexp_replace(x, '\D', '', 'g') || '%') INTO v_list FROM unnest(coalesce(v_list, ARRAY[]::text[])) x;
+        v_expr := 'regexp_replace(c.phone, ''\D'', '''', ''g'')';
+        CASE v_op
+            WHEN 'equals' THEN v_sql := format('%s LIKE %L', v_expr, v_value || '%');
+            WHEN 'not_equals' THEN v_sql := format('%s NOT LIKE %L', v_expr, v_value || '%');
+            WHEN 'in_list' THEN v_sql := format('%s LIKE ANY (%L::text[])', v_expr, coalesce(v_list, ARRAY[]::text[]));
+            WHEN 'not_in_list' THEN v_sql := format('NOT (%s LIKE ANY (%L::text[]))', v_expr, coalesce(v_list, ARRAY[]::text[]));
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para ddi', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    -- Data de criação
+    IF v_field = 'created_at' THEN
+        IF public.segment_try_timestamptz(v_value) IS NULL THEN
+            RAISE EXCEPTION 'segment: data inválida %', v_value;
+        END IF;
+        CASE v_op
+            WHEN 'before' THEN v_sql := format('c.created_at < %L::timestamptz', v_value);
+            WHEN 'after' THEN v_sql := format('c.created_at > %L::timestamptz', v_value);
+            ELSE RAISE EXCEPTION 'segment: operador % inválido para created_at', v_op;
+        END CASE;
+        RETURN v_sql;
+    END IF;
+
+    v_expr := CASE v_field
+        WHEN 'name' THEN 'c.name'
+        WHEN 'email' THEN 'c.email'
+        WHEN 'phone' THEN 'c.phone'
+        WHEN 'status' THEN 'c.status'
+        WHEN 'uf' THEN 'public.contact_phone_uf(c.phone)'
+        WHEN 'lifecycle_stage' THEN 'c.lifecycle_stage'
+        WHEN 'engagement_score' THEN 'c.engagement_score::text'
+        WHEN 'custom_field' THEN format('(c.custom_fields ->> %L)', p_rule->>'key')
+    END;
+    IF v_expr IS NULL THEN
+        RAISE EXCEPTION 'segment: campo desconhecido %', v_field;
+    END IF;
+    IF v_field = 'custom_field' AND nullif(p_rule->>'key', '') IS NULL THEN
+        RAISE EXCEPTION 'segment: campo personalizado sem chave';
+    END IF;
+
+    CASE v_op
+        WHEN 'equals' THEN
+            v_sql := format('coalesce(lower(%s) = lower(%L), false)', v_expr, v_value);
+        WHEN 'not_equals' THEN
+            v_sql := format('NOT coalesce(lower(%s) = lower(%L), false)', v_expr, v_value);
+        WHEN 'contains' THEN
+            v_sql := format('coalesce(%s ILIKE %L, false)', v_expr, '%' || replace(replace(replace(coalesce(v_value, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+        WHEN 'not_contains' THEN
+            v_sql := format('NOT coalesce(%s ILIKE %L, false)', v_expr, '%' || replace(replace(replace(coalesce(v_value, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%');
+        WHEN 'in_list' THEN
+            v_sql := format('coalesce(lower(%s) = ANY (%L::text[]), false)', v_expr, (SELECT array_agg(lower(x)) FROM unnest(coalesce(v_list, ARRAY[]::text[])) x));
+        WHEN 'not_in_list' THEN
+            v_sql := format('NOT coalesce(lower(%s) = ANY (%L::text[]), false)', v_expr, (SELECT array_agg(lower(x)) FROM unnest(coalesce(v_list, ARRAY[]::text[])) x));
+        WHEN 'exists' THEN
+            v_sql := format('(nullif(btrim(%s), '''') IS NOT NULL)', v_expr);
+        WHEN 'not_exists' THEN
+            v_sql := format('(nullif(btrim(%s), '''') IS NULL)', v_expr);
+        WHEN 'greater_than', 'less_than' THEN
+            IF v_field NOT IN ('custom_field', 'engagement_score') OR public.segment_try_numeric(v_value) IS NULL THEN
+                RAISE EXCEPTION 'segment: comparação numérica inválida';
+            END IF;
+            v_sql := format('coalesce(public.segment_try_numeric(%s) %s %s, false)', v_expr, CASE v_op WHEN 'greater_than' THEN '>' ELSE '<' END, public.segment_try_numeric(v_value));
+        WHEN 'before', 'after' THEN
+            IF v_field <> 'custom_field' OR public.segment_try_timestamptz(v_value) IS NULL THEN
+                RAISE EXCEPTION 'segment: comparação de data inválida';
+            END IF;
+            v_sql := format('coalesce(public.segment_try_timestamptz(%s) %s %L::timestamptz, false)', v_expr, CASE v_op WHEN 'before' THEN '<' ELSE '>' END, v_value);
+        ELSE
+            RAISE EXCEPTION 'segment: operador desconhecido %', v_op;
+    END CASE;
+
+    RETURN v_sql;
+END;
+$$;
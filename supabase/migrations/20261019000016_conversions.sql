@@ -0,0 +1,68 @@
+/**
+ * MIGRATION: CONVERSÕES E ATRIBUIÇÃO
+ * Vendas/pedidos enviados por API (POST /api/conversions) e atribuídos à última
+ * campanha entregue/clicada dentro da janela configurada ou, na falta dela,
+ * à conversa do inbox (e agente de IA) que atendeu o contato.
+ *
+ * - conversions: valor, moeda, pedido (idempotência por order_id) e o toque atribuído
+ * - get_campaign_conversion_stats: conversões e receita por moeda de uma campanha
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Conversões
+CREATE TABLE IF NOT EXISTS public.conversions (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    contact_id text,
+    phone text,
+    email text,
+    order_id text,
+    value numeric(14,2) DEFAULT 0 NOT NULL,
+    currency text DEFAULT 'BRL'::text NOT NULL,
+    occurred_at timestamp with time zone DEFAULT now() NOT NULL,
+    attribution text DEFAULT 'none'::text NOT NULL,
+    touch text,
+    touched_at timestamp with time zone,
+    campaign_id text REFERENCES public.campaigns(id) ON DELETE SET NULL,
+    conversation_id uuid REFERENCES public.inbox_conversations(id) ON DELETE SET NULL,
+    ai_agent_id uuid,
+    metadata jsonb DEFAULT '{}'::jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT conversions_value_check CHECK ((value >= (0)::numeric)),
+    CONSTRAINT conversions_attribution_check CHECK ((attribution = ANY (ARRAY['campaign'::text, 'conversation'::text, 'none'::text]))),
+    CONSTRAINT conversions_touch_check CHECK ((touch IS NULL OR touch = ANY (ARRAY['clicked'::text, 'delivered'::text, 'conversation'::text])))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversions_workspace_order ON public.conversions USING btree (workspace_id, order_id) WHERE (order_id IS NOT NULL);
+CREATE INDEX IF NOT EXISTS idx_conversions_workspace_occurred ON public.conversions USING btree (workspace_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversions_campaign ON public.conversions USING btree (campaign_id) WHERE (campaign_id IS NOT NULL);
+CREATE INDEX IF NOT EXISTS idx_conversions_ai_agent ON public.conversions USING btree (ai_agent_id) WHERE (ai_agent_id IS NOT NULL);
+
+ALTER TABLE public.conversions ENABLE ROW LEVEL SECURITY;
+
+-- 2. Toques de campanha: busca por contato/telefone na janela de atribuição
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_phone_delivered ON public.campaign_contacts USING btree (phone, delivered_at DESC) WHERE (delivered_at IS NOT NULL);
+
+-- 3. Resumo por campanha (receita agrupada por moeda)
+CREATE OR REPLACE FUNCTION public.get_campaign_conversion_stats(p_campaign_id text)
+RETURNS json
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(json_agg(row_to_json(s) ORDER BY s.revenue DESC), '[]'::json)
+    FROM (
+        SELECT
+            currency,
+            COUNT(*)::int AS conversions,
+            COALESCE(SUM(value), 0)::numeric AS revenue,
+            MAX(occurred_at) AS last_converted_at
+        FROM conversions
+        WHERE campaign_id = p_campaign_id
+          AND workspace_id = public.current_workspace_id()
+        GROUP BY currency
+    ) s
+$$;
+
+REVOKE ALL ON FUNCTION public.get_campaign_conversion_stats(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_campaign_conversion_stats(text) TO service_role;
@@ -0,0 +1,27 @@
+/**
+ * MIGRATION: MENSAGENS ESTRUTURADAS NO INBOX
+ * Localização, contatos (vCard), figurinhas e reações deixam de ser gravadas
+ * como texto/imagem e ganham tipo próprio, com os dados em inbox_messages.payload
+ * (location, contacts, reaction).
+ *
+ * - chk_inbox_messages_type: novos tipos location, contacts, sticker, reaction
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Novos tipos de mensagem
+ALTER TABLE public.inbox_messages DROP CONSTRAINT IF EXISTS chk_inbox_messages_type;
+ALTER TABLE public.inbox_messages ADD CONSTRAINT chk_inbox_messages_type CHECK ((message_type = ANY (ARRAY[
+    'text'::text,
+    'image'::text,
+    'audio'::text,
+    'video'::text,
+    'document'::text,
+    'template'::text,
+    'interactive'::text,
+    'internal_note'::text,
+    'location'::text,
+    'contacts'::text,
+    'sticker'::text,
+    'reaction'::text
+])));
+
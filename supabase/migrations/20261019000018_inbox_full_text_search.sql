@@ -0,0 +1,149 @@
+/**
+ * MIGRATION: BUSCA TEXTUAL NO INBOX
+ * Full-text search (Postgres FTS, stemming em português) sobre o histórico do inbox:
+ * conteúdo das mensagens, texto extraído das mídias (transcrições, descrições,
+ * OCR), resumos de handoff e nome/telefone do contato.
+ *
+ * - inbox_messages.search_vector: coluna gerada + índice GIN
+ * - índices GIN de expressão para handoff_summary e nome do contato
+ * - search_inbox(): resultados ranqueados com trecho destacado (ts_headline).
+ *   Os destaques vêm entre chr(2) e chr(3) (nunca presentes em mensagens);
+ *   o app converte em posições (lib/business/inbox/search.ts).
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Vetor de busca das mensagens (conteúdo + texto extraído da mídia)
+ALTER TABLE public.inbox_messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('portuguese'::regconfig, coalesce(content, '') || ' ' || coalesce(payload->'media_analysis'->>'text', ''))
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_search_vector ON public.inbox_messages USING gin (search_vector);
+
+-- 2. Resumo de handoff e nome do contato
+CREATE INDEX IF NOT EXISTS idx_inbox_conversations_handoff_summary_fts ON public.inbox_conversations
+    USING gin (to_tsvector('portuguese'::regconfig, coalesce(handoff_summary, '')));
+
+CREATE INDEX IF NOT EXISTS idx_contacts_name_fts ON public.contacts
+    USING gin (to_tsvector('portuguese'::regconfig, coalesce(name, '')));
+
+-- 3. Busca (workspace atual; p_assigned_user_id restringe às conversas do atendente)
+CREATE OR REPLACE FUNCTION public.search_inbox(
+    p_query text,
+    p_limit integer DEFAULT 20,
+    p_offset integer DEFAULT 0,
+    p_assigned_user_id text DEFAULT NULL
+)
+    RETURNS TABLE(
+        conversation_id uuid,
+        message_id uuid,
+        source text,
+        headline text,
+        rank real,
+        matched_at timestamp with time zone,
+        phone text,
+        contact_name text,
+        total_count bigint
+    )
+    LANGUAGE plpgsql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+#variable_conflict use_column
+DECLARE
+    v_query tsquery := websearch_to_tsquery('portuguese'::regconfig, coalesce(p_query, ''));
+    v_digits text := regexp_replace(coalesce(p_query, ''), '\D', '', 'g');
+    v_options text := format(
+        'StartSel=%s, StopSel=%s, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "',
+        chr(2), chr(3)
+    );
+BEGIN
+    -- Só stopwords e sem telefone: nada a buscar
+    IF numnode(v_query) = 0 AND length(v_digits) < 4 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH convs AS (
+        SELECT ic.id, ic.phone, ic.handoff_summary, coalesce(ic.last_message_at, ic.created_at) AS last_at, c.name AS contact_name
+        FROM inbox_conversations ic
+        LEFT JOIN contacts c ON c.id = ic.contact_id
+        WHERE ic.workspace_id = public.current_workspace_id()
+          AND (p_assigned_user_id IS NULL OR ic.assigned_user_id = p_assigned_user_id)
+    ),
+    message_hits AS (
+        SELECT
+            m.conversation_id,
+            m.id AS message_id,
+            to_tsvector('portuguese'::regconfig, m.content) @@ v_query AS in_content,
+            m.content,
+            m.payload->'media_analysis'->>'text' AS media_text,
+            ts_rank(m.search_vector, v_query) AS rank,
+            m.created_at
+        FROM inbox_messages m
+        JOIN convs cv ON cv.id = m.conversation_id
+        WHERE numnode(v_query) > 0 AND m.search_vector @@ v_query
+    ),
+    hits AS (
+        -- Mensagens: conteúdo ou texto extraído da mídia
+        SELECT
+            mh.conversation_id,
+            mh.message_id,
+            CASE WHEN mh.in_content THEN 'message' ELSE 'media' END AS source,
+            ts_headline('portuguese'::regconfig, CASE WHEN mh.in_content THEN mh.content ELSE mh.media_text END, v_query, v_options) AS headline,
+            mh.rank,
+            mh.created_at AS matched_at
+        FROM message_hits mh
+
+        UNION ALL
+
+        -- Resumo do handoff
+        SELECT
+            cv.id,
+            NULL::uuid,
+            'handoff_summary',
+            ts_headline('portuguese'::regconfig, cv.handoff_summary, v_query, v_options),
+            ts_rank(to_tsvector('portuguese'::regconfig, coalesce(cv.handoff_summary, '')), v_query),
+            cv.last_at
+        FROM convs cv
+        WHERE numnode(v_query) > 0
+          AND to_tsvector('portuguese'::regconfig, coalesce(cv.handoff_summary, '')) @@ v_query
+
+        UNION ALL
+
+        -- Contato: nome (FTS) ou telefone (dígitos)
+        SELECT
+            cv.id,
+            NULL::uuid,
+            'contact',
+            CASE
+                WHEN length(v_digits) >= 4 AND cv.phone LIKE '%' || v_digits || '%' THEN chr(2) || cv.phone || chr(3)
+                ELSE ts_headline('portuguese'::regconfig, cv.contact_name, v_query, v_options)
+            END,
+            1::real,
+            cv.last_at
+        FROM convs cv
+        WHERE (length(v_digits) >= 4 AND cv.phone LIKE '%' || v_digits || '%')
+           OR (numnode(v_query) > 0 AND to_tsvector('portuguese'::regconfig, coalesce(cv.contact_name, '')) @@ v_query)
+    )
+    SELECT
+        h.conversation_id,
+        h.message_id,
+        h.source,
+        h.headline,
+        h.rank,
+        h.matched_at,
+        cv.phone,
+        cv.contact_name,
+        count(*) OVER () AS total_count
+    FROM hits h
+    JOIN convs cv ON cv.id = h.conversation_id
+    ORDER BY h.rank DESC, h.matched_at DESC
+    LIMIT greatest(1, least(coalesce(p_limit, 20), 100))
+    OFFSET greatest(coalesce(p_offset, 0), 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.search_inbox(text, integer, integer, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.search_inbox(text, integer, integer, text) FROM anon;
+REVOKE ALL ON FUNCTION public.search_inbox(text, integer, integer, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.search_inbox(text, integer, integer, text) TO service_role;
@@ -0,0 +1,41 @@
+/**
+ * MIGRATION: MENSAGENS AGENDADAS E LEMBRETES DO INBOX
+ * Itens agendados pelo atendente a partir do compositor do inbox:
+ *
+ * - message: mensagem enviada em due_at. Se a janela de 24h já fechou no envio,
+ *   usa o template de fallback escolhido (ou falha, se não houver)
+ * - follow_up: lembrete "se o cliente não responder até due_at", que reabre a
+ *   conversa com prioridade alta quando não houve resposta
+ *
+ * O processamento é feito pelo worker /api/webhook/inbox-scheduled (QStash com delay).
+ * Mensagens passam por 'processing' antes do envio: entregas repetidas do job não reenviam.
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Itens agendados
+CREATE TABLE IF NOT EXISTS public.inbox_scheduled_items (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    workspace_id text DEFAULT public.current_workspace_id() NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    conversation_id uuid NOT NULL REFERENCES public.inbox_conversations(id) ON DELETE CASCADE,
+    kind text NOT NULL,
+    status text DEFAULT 'scheduled'::text NOT NULL,
+    due_at timestamp with time zone NOT NULL,
+    content text,
+    fallback_template_name text,
+    fallback_template_variables jsonb,
+    note text,
+    created_by text REFERENCES public.users(id) ON DELETE SET NULL,
+    message_id uuid REFERENCES public.inbox_messages(id) ON DELETE SET NULL,
+    error text,
+    processed_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT inbox_scheduled_items_kind_check CHECK ((kind = ANY (ARRAY['message'::text, 'follow_up'::text]))),
+    CONSTRAINT inbox_scheduled_items_status_check CHECK ((status = ANY (ARRAY['scheduled'::text, 'processing'::text, 'sent'::text, 'fallback_sent'::text, 'triggered'::text, 'skipped'::text, 'cancelled'::text, 'failed'::text]))),
+    CONSTRAINT inbox_scheduled_items_content_check CHECK ((kind <> 'message'::text OR length(btrim(coalesce(content, ''))) > 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_scheduled_items_conversation ON public.inbox_scheduled_items USING btree (conversation_id, due_at);
+CREATE INDEX IF NOT EXISTS idx_inbox_scheduled_items_pending ON public.inbox_scheduled_items USING btree (workspace_id, due_at) WHERE (status = 'scheduled'::text);
+
+ALTER TABLE public.inbox_scheduled_items ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,30 @@
+/**
+ * MIGRATION: MEMBROS DE WORKSPACE
+ * Vincula usuários aos workspaces que podem acessar. Quem tem workspaces:manage
+ * (owner/admin) acessa todos; os demais só os workspaces dos quais são membros.
+ * O proxy valida o workspace da sessão contra esta tabela.
+ *
+ * - Usuários existentes entram no workspace padrão
+ * - user_invites.workspace_id: o convite aceito vira membro do workspace de origem
+ * Idempotente: pode ser reaplicada pelo installer sem efeitos colaterais.
+ */
+
+-- 1. Membros
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+    workspace_id text NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    user_id text NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members USING btree (user_id);
+
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.workspace_members (workspace_id, user_id)
+SELECT 'ws_default', id FROM public.users
+ON CONFLICT DO NOTHING;
+
+-- 2. Workspace de origem do convite
+ALTER TABLE public.user_invites
+    ADD COLUMN IF NOT EXISTS workspace_id text DEFAULT public.current_workspace_id() REFERENCES public.workspaces(id) ON DELETE CASCADE;
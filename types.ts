@@ -122,8 +122,179 @@ export interface Campaign {
   folderId?: string | null;
   folder?: CampaignFolder | null;
   tags?: CampaignTag[];
+  // Teste A/B (null/undefined = campanha com variante única)
+  abTest?: CampaignAbTest | null;
+  variants?: CampaignVariant[];
+  // Recorrência e sequências (drip)
+  parentCampaignId?: string | null; // Campanha-mãe (recorrência ou 1ª etapa da sequência)
+  sequenceStep?: number | null;     // 1 = primeira etapa; 2+ = etapas de follow-up
+  recurrence?: CampaignRecurrence | null;
+  dripSteps?: CampaignDripStep[] | null;
+  // Janela de envio no horário local do contato (null = envia a qualquer hora)
+  sendWindow?: CampaignSendWindow | null;
+  // Templates de marketing pulam contatos dormentes/perdidos (protege a qualidade do número)
+  skipDormant?: boolean;
+  // Número remetente (phone_number_id da Meta; null = número principal)
+  phoneNumberId?: string | null;
+  // Rastreio de cliques: destino de cada botão de URL que aponta para /r/{{1}}
+  trackedLinks?: CampaignTrackedLink[] | null;
+  clicks?: number;              // Contatos que clicaram em algum link rastreado
+  // Somente no detalhe da campanha
+  children?: Campaign[];
+  parentCampaign?: { id: string; name: string } | null;
 }
 
+// =============================================================================
+// CAMPAIGN A/B TESTING
+// =============================================================================
+
+export type CampaignAbTestMetric = 'read_rate' | 'click_rate' | 'submission_rate';
+
+// testing → disparo das variantes; waiting → aguardando janela de avaliação;
+// rolling_out → vencedor sendo enviado ao restante; completed → finalizado
+export type CampaignAbTestStatus = 'testing' | 'waiting' | 'rolling_out' | 'completed';
+
+export interface CampaignAbTest {
+  testPercent: number;          // % da audiência dividida entre as variantes
+  waitMinutes: number;          // Tempo de espera antes de escolher o vencedor
+  metric: CampaignAbTestMetric; // Critério de escolha do vencedor
+  status?: CampaignAbTestStatus;
+  rolloutAt?: string | null;    // Quando o vencedor será enviado (ISO)
+  rolloutMessageId?: string | null; // QStash message id do rollout agendado
+  winnerVariantId?: string | null;
+  decidedAt?: string | null;
+}
+
+export interface CampaignVariant {
+  id: string;
+  campaignId: string;
+  label: string;                // "A", "B", "C", "D"
+  templateName: string;
+  templateVariables?: { header: string[], body: string[], buttons?: Record<string, string> } | null;
+  isWinner: boolean;
+  createdAt?: string;
+}
+
+export interface CampaignVariantStats {
+  variantId: string;
+  total: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  clicked: number;
+  submitted: number;
+}
+
+// =============================================================================
+// CAMPAIGN LINK TRACKING
+// =============================================================================
+
+// Botão de URL do template com sufixo dinâmico apontando para o redirect /r/{{1}}
+export interface CampaignTrackedLink {
+  buttonIndex: number;          // Índice global do botão no template (0-based)
+  url: string;                  // Destino real (http/https)
+}
+
+export interface CampaignLinkStats {
+  buttonIndex: number;
+  url: string | null;
+  clicks: number;               // Total de cliques (inclui repetidos)
+  uniqueClickers: number;       // Contatos distintos
+  lastClickedAt: string | null;
+}
+
+// =============================================================================
+// CONVERSIONS & ATTRIBUTION
+// =============================================================================
+
+// campaign = última campanha entregue/clicada na janela; conversation = conversa do inbox (e agente de IA)
+export type ConversionAttribution = 'campaign' | 'conversation' | 'none';
+export type ConversionTouch = 'clicked' | 'delivered' | 'conversation';
+
+export interface Conversion {
+  id: string;
+  contactId: string | null;
+  phone: string | null;
+  email: string | null;
+  orderId: string | null;       // Id do pedido na loja/ERP (idempotência)
+  value: number;
+  currency: string;             // ISO 4217 (ex.: BRL)
+  occurredAt: string;
+  attribution: ConversionAttribution;
+  touch: ConversionTouch | null;
+  touchedAt: string | null;     // Quando aconteceu o toque atribuído
+  campaignId: string | null;
+  conversationId: string | null;
+  aiAgentId: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface ConversionAttributionConfig {
+  windowDays: number;           // Janela entre o toque (entrega/clique/conversa) e a conversão
+  includeConversations: boolean; // Sem campanha na janela, atribui à conversa do inbox
+}
+
+export interface ConversionFilters {
+  campaignId?: string;
+  aiAgentId?: string;
+  attribution?: ConversionAttribution;
+  limit?: number;
+  offset?: number;
+}
+
+export interface CampaignConversionStats {
+  currency: string;
+  conversions: number;
+  revenue: number;
+  lastConvertedAt: string | null;
+}
+
+// =============================================================================
+// CAMPAIGN RECURRENCE & DRIP SEQUENCES
+// =============================================================================
+
+export interface CampaignRecurrence {
+  cron: string;                 // Expressão cron (5 campos), avaliada no timezone abaixo
+  timezone: string;             // IANA (ex.: America/Sao_Paulo)
+  active: boolean;
+  scheduleId?: string | null;   // QStash schedule id
+  lastRunAt?: string | null;
+  runCount?: number;
+}
+
+// Quem recebe a etapa seguinte: contatos da etapa anterior que NÃO leram / responderam / enviaram o Flow
+export type CampaignDripCondition = 'not_read' | 'not_replied' | 'not_submitted';
+
+export interface CampaignDripStep {
+  templateName: string;
+  templateVariables?: { header: string[], body: string[], buttons?: Record<string, string> } | null;
+  delayDays: number;            // Dias após a conclusão da etapa anterior
+  condition: CampaignDripCondition;
+}
+
+// =============================================================================
+// CAMPAIGN SEND WINDOWS & QUIET HOURS
+// =============================================================================
+
+// Horários avaliados no fuso do contato (DDI/DDD do telefone ou campo personalizado)
+export interface CampaignSendWindow {
+  days: Weekday[];
+  start: string;                // HH:mm
+  end: string;                  // HH:mm (exclusivo)
+}
+
+// Configuração global: nenhuma campanha envia dentro deste intervalo (pode cruzar a meia-noite)
+export interface QuietHoursConfig {
+  enabled: boolean;
+  start: string;                // HH:mm
+  end: string;                  // HH:mm
+  defaultTimezone: string;      // Usado quando o fuso do contato não pode ser inferido
+}
+
+export type ContactLifecycleStage = 'new' | 'engaged' | 'dormant' | 'churned';
+
 export interface Contact {
   id: string;
   name?: string;
@@ -138,6 +309,421 @@ export interface Contact {
   suppressionReason?: string | null;
   suppressionSource?: string | null;
   suppressionExpiresAt?: string | null;
+  engagementScore?: number;            // 0-100, recalculado diariamente
+  lifecycleStage?: ContactLifecycleStage;
+  lastEngagedAt?: string | null;
+}
+
+// =============================================================================
+// CONTACT SEGMENTS (grupos E/OU avaliados no banco)
+// =============================================================================
+
+export type SegmentField =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'status'
+  | 'tags'
+  | 'created_at'
+  | 'uf'            // Derivado do DDD (Brasil)
+  | 'ddi'           // Código do país (ex.: "55")
+  | 'lifecycle_stage'
+  | 'engagement_score'
+  | 'custom_field'; // Usa SegmentCondition.key
+
+export type SegmentOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'before'
+  | 'after'
+  | 'in_list'
+  | 'not_in_list'
+  | 'exists'
+  | 'not_exists';
+
+export type SegmentEngagementEvent =
+  | 'read_last_campaign' // Leu a última campanha (ou campaignId)
+  | 'replied_inbox'      // Enviou mensagem no inbox
+  | 'submitted_flow'     // Enviou o Flow (flowId opcional)
+  | 'clicked_button'     // Clicou em botão de campanha (buttonText opcional)
+  | 'clicked_link';      // Clicou em link rastreado de campanha (campaignId opcional)
+
+export interface SegmentCondition {
+  type: 'condition';
+  field: SegmentField;
+  key?: string;                 // Chave do campo personalizado (field = custom_field)
+  operator: SegmentOperator;
+  value?: string | number | string[] | null;
+}
+
+export interface SegmentEngagementCondition {
+  type: 'engagement';
+  event: SegmentEngagementEvent;
+  negate?: boolean;             // true = NÃO fez a ação
+  withinDays?: number | null;   // Janela de tempo (null = qualquer data)
+  campaignId?: string | null;
+  flowId?: string | null;
+  buttonText?: string | null;
+}
+
+export interface SegmentGroup {
+  type: 'group';
+  combinator: 'and' | 'or';
+  rules: SegmentRule[];
+}
+
+export type SegmentRule = SegmentCondition | SegmentEngagementCondition | SegmentGroup;
+
+export interface ContactSegment {
+  id: string;
+  name: string;
+  description?: string | null;
+  definition: SegmentGroup;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export interface CreateContactSegmentDTO {
+  name: string;
+  description?: string | null;
+  definition: SegmentGroup;
+}
+
+export interface UpdateContactSegmentDTO {
+  name?: string;
+  description?: string | null;
+  definition?: SegmentGroup;
+}
+
+// =============================================================================
+// WORKSPACES
+// =============================================================================
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export interface WorkspaceApiKey {
+  id: string;
+  workspaceId: string;
+  name: string;
+  /** Início da chave (ex.: szap_AbCd) para identificação na UI */
+  keyPrefix: string;
+  createdAt: string;
+  lastUsedAt?: string | null;
+  revokedAt?: string | null;
+}
+
+// =============================================================================
+// USERS & ROLES
+// =============================================================================
+
+export type UserRole = 'owner' | 'admin' | 'campaign_manager' | 'agent' | 'analyst';
+
+export interface DashboardUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  isActive: boolean;
+  lastLoginAt?: string | null;
+  createdAt: string;
+}
+
+export interface UserInvite {
+  id: string;
+  email: string;
+  role: Exclude<UserRole, 'owner'>;
+  /** Workspace que o usuário passa a acessar ao aceitar */
+  workspaceId?: string | null;
+  invitedBy?: string | null;
+  expiresAt: string;
+  acceptedAt?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+}
+
+export type AuditActorType = 'user' | 'api_key' | 'attendant' | 'system';
+
+export interface AuditLogEntry {
+  id: string;
+  workspaceId?: string | null;
+  actorType: AuditActorType;
+  actorId?: string | null;
+  actorLabel?: string | null;
+  action: string;
+  entityType?: string | null;
+  entityId?: string | null;
+  metadata: Record<string, unknown>;
+  /** Campos alterados pela ação (valores sensíveis mascarados) */
+  changes?: AuditChanges | null;
+  ip?: string | null;
+  createdAt: string;
+}
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLogFilters {
+  action?: string;
+  actorType?: AuditActorType;
+  entityType?: string;
+  entityId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// =============================================================================
+// OUTBOUND WEBHOOKS
+// =============================================================================
+
+export type WebhookEventType =
+  | 'message.received'
+  | 'message.status'
+  | 'campaign.completed'
+  | 'contact.created'
+  | 'contact.opted_out'
+  | 'flow.submitted'
+  | 'lead_form.submitted'
+  | 'conversation.handoff'
+  | 'conversion.created';
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  /** Segredo HMAC (whsec_...) usado em X-SmartZap-Signature */
+  secret: string;
+  eventTypes: WebhookEventType[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'success' | 'failed';
+
+/** Corpo enviado ao endpoint */
+export interface WebhookEventEnvelope {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEventEnvelope;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+  lastAttemptAt?: string | null;
+  nextRetryAt?: string | null;
+  deliveredAt?: string | null;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryFilters {
+  endpointId?: string;
+  eventType?: WebhookEventType;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+// =============================================================================
+// WHATSAPP PHONE NUMBERS (múltiplos números por workspace)
+// =============================================================================
+
+/** Número da WABA registrado no workspace (o principal fica em settings.phoneNumberId) */
+export interface WhatsAppPhoneNumber {
+  id: string;
+  /** ID do número na Meta (phone_number_id) */
+  phoneNumberId: string;
+  displayPhoneNumber: string | null;
+  verifiedName: string | null;
+  /** Rótulo interno (ex: "Vendas", "Suporte") */
+  label: string | null;
+  /** Agente de IA que atende as conversas deste número (NULL = agente padrão) */
+  aiAgentId: string | null;
+  /** Última leitura de qualidade/tier na Meta */
+  qualityRating: string | null;
+  messagingLimitTier: string | null;
+  limitsUpdatedAt: string | null;
+  /** Calculado: número usado quando nenhum é escolhido */
+  isPrimary: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+// =============================================================================
+// CRM CONNECTORS (HubSpot, RD Station, Pipedrive)
+// =============================================================================
+
+export type CrmProvider = 'hubspot' | 'rdstation' | 'pipedrive';
+
+/** Eventos do WhatsApp enviados para a timeline do contato no CRM */
+export type CrmEventType =
+  | 'campaign.delivered'
+  | 'campaign.read'
+  | 'conversation.summary'
+  | 'flow.submitted';
+
+/** push = SmartZap -> CRM, pull = CRM -> SmartZap */
+export type CrmMappingDirection = 'both' | 'push' | 'pull';
+
+export interface CrmFieldMapping {
+  /** Campo do contato: name, email, phone ou custom:<chave do campo personalizado> */
+  field: string;
+  /** Propriedade no CRM (ex: firstname, mobile_phone) */
+  crmField: string;
+  direction: CrmMappingDirection;
+}
+
+/** Tag do contato -> lista do CRM (HubSpot: ID da lista, RD Station: tag, Pipedrive: ID da etiqueta) */
+export interface CrmListMapping {
+  tag: string;
+  list: string;
+}
+
+export interface CrmConnector {
+  id: string;
+  provider: CrmProvider;
+  name: string;
+  /** Token da API do CRM (nunca volta inteiro para o navegador) */
+  apiToken: string;
+  /** URL base da API (vazio = padrão do provedor; útil para servidor mock local) */
+  baseUrl: string | null;
+  fieldMappings: CrmFieldMapping[];
+  listMappings: CrmListMapping[];
+  /** Propriedade do CRM que recebe/informa o opt-out do WhatsApp */
+  optOutField: string | null;
+  eventTypes: CrmEventType[];
+  /** Envia contatos criados/alterados para o CRM */
+  syncContacts: boolean;
+  /** Importa contatos alterados no CRM */
+  importContacts: boolean;
+  /** Token da URL de webhook de entrada (/api/webhook/crm/[id]?token=) */
+  inboundToken: string;
+  isActive: boolean;
+  lastImportAt: string | null;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+/** Contato como lido do CRM (propriedades já achatadas em texto) */
+export interface CrmContactRecord {
+  externalId: string;
+  phone: string | null;
+  email: string | null;
+  properties: Record<string, string | null>;
+  /** Última alteração no CRM (cursor da importação) */
+  updatedAt: string | null;
+}
+
+export type CrmSyncLogDirection = 'push' | 'pull';
+export type CrmSyncLogKind = 'contact' | 'event' | 'import';
+export type CrmSyncLogStatus = 'pending' | 'success' | 'failed' | 'skipped';
+
+export interface CrmSyncLog {
+  id: string;
+  connectorId: string;
+  direction: CrmSyncLogDirection;
+  kind: CrmSyncLogKind;
+  eventType: CrmEventType | null;
+  contactId: string | null;
+  phone: string | null;
+  externalId: string | null;
+  payload: Record<string, unknown>;
+  status: CrmSyncLogStatus;
+  attempts: number;
+  /** Resumo legível do que foi sincronizado */
+  summary: string | null;
+  error: string | null;
+  nextRetryAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface CrmSyncLogFilters {
+  connectorId?: string;
+  direction?: CrmSyncLogDirection;
+  status?: CrmSyncLogStatus;
+  limit?: number;
+  offset?: number;
+}
+
+// =============================================================================
+// INBOUND WEBHOOKS (gatilho genérico: JSON externo -> contato + ação)
+// =============================================================================
+
+export type InboundWebhookAction = 'upsert_contact' | 'add_tag' | 'send_template' | 'start_workflow';
+
+/** Caminhos JSON ($.buyer.phone) de onde saem os dados do contato */
+export interface InboundWebhookFieldMapping {
+  phone: string;
+  name?: string;
+  email?: string;
+  /** Campo personalizado (chave) <- caminho no payload */
+  customFields?: Array<{ key: string; path: string }>;
+}
+
+/**
+ * Variáveis do template por componente (chave = {{1}} ou {{nome}} do template).
+ * O valor pode ser um caminho JSON ($.order.id), um token do contato ({{nome}}) ou texto fixo.
+ */
+export interface InboundWebhookTemplateVariables {
+  header?: Record<string, string>;
+  body?: Record<string, string>;
+  buttons?: Record<string, string>;
+}
+
+export interface InboundWebhook {
+  id: string;
+  name: string;
+  /** Token da URL (/api/webhook/inbound/[id]?token=) */
+  token: string;
+  fieldMapping: InboundWebhookFieldMapping;
+  /** Só processa quando o valor em conditionPath for igual a conditionValue (ex.: status = approved) */
+  conditionPath: string | null;
+  conditionValue: string | null;
+  action: InboundWebhookAction;
+  /** Tags aplicadas ao contato (obrigatória na ação add_tag) */
+  tags: string[];
+  templateName: string | null;
+  templateVariables: InboundWebhookTemplateVariables;
+  workflowId: string | null;
+  isActive: boolean;
+  lastReceivedAt: string | null;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export type InboundWebhookEventStatus = 'processed' | 'ignored' | 'failed';
+
+export interface InboundWebhookEvent {
+  id: string;
+  webhookId: string;
+  payload: unknown;
+  status: InboundWebhookEventStatus;
+  contactId: string | null;
+  phone: string | null;
+  /** Resumo legível do que foi feito */
+  summary: string | null;
+  error: string | null;
+  createdAt: string;
 }
 
 // =============================================================================
@@ -154,6 +740,8 @@ export interface LeadForm {
   successMessage?: string | null;
   webhookToken?: string | null;
   fields?: LeadFormField[];
+  /** Workspace dono do formulário (slug é único entre workspaces) */
+  workspaceId?: string;
   createdAt?: string;
   updatedAt?: string | null;
 }
@@ -535,7 +1123,19 @@ export type ConversationStatus = 'open' | 'closed';
 export type ConversationMode = 'bot' | 'human';
 export type ConversationPriority = 'low' | 'normal' | 'high' | 'urgent';
 export type MessageDirection = 'inbound' | 'outbound';
-export type InboxMessageType = 'text' | 'image' | 'audio' | 'video' | 'document' | 'template' | 'interactive' | 'internal_note';
+export type InboxMessageType =
+  | 'text'
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'document'
+  | 'template'
+  | 'interactive'
+  | 'internal_note'
+  | 'location'
+  | 'contacts'
+  | 'sticker'
+  | 'reaction';
 export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
 export type Sentiment = 'positive' | 'neutral' | 'negative' | 'frustrated';
 
@@ -557,6 +1157,24 @@ export interface InboxConversation {
   handoff_summary: string | null;
   /** When human mode should auto-expire back to bot mode. NULL = never expires. */
   human_mode_expires_at: string | null;
+  /** Usuário responsável (agentes só veem conversas atribuídas a eles) */
+  assigned_user_id?: string | null;
+  /** Quando a conversa foi atribuída ao responsável atual */
+  assigned_at?: string | null;
+  /** Fila de atendimento (NULL = fila padrão do workspace) */
+  queue_id?: string | null;
+  /** SLA: início do relógio (entrada em modo humano), mantido por trigger */
+  sla_started_at?: string | null;
+  /** Primeira mensagem do atendente após o início do relógio */
+  first_response_at?: string | null;
+  /** Fechamento da conversa após o início do relógio */
+  resolved_at?: string | null;
+  sla_first_response_due_at?: string | null;
+  sla_resolution_due_at?: string | null;
+  /** Próximo prazo pendente (NULL = sem SLA ou resolvida) */
+  sla_next_due_at?: string | null;
+  /** Número de WhatsApp que recebeu a conversa (NULL = principal) */
+  phone_number_id?: string | null;
   created_at: string;
   updated_at: string;
   // Joined fields
@@ -582,6 +1200,114 @@ export interface InboxMessage {
   created_at: string;
 }
 
+/** Localização compartilhada pelo contato (payload.location) */
+export interface InboxLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+/** Cartão de contato (vCard) compartilhado (payload.contacts) */
+export interface InboxSharedContact {
+  name: string;
+  phones: Array<{ phone: string; wa_id?: string; type?: string }>;
+  emails: string[];
+  organization?: string;
+}
+
+/** Reação a outra mensagem (payload.reaction). emoji vazio = reação removida */
+export interface InboxReaction {
+  /** whatsapp_message_id da mensagem reagida */
+  message_id: string;
+  emoji: string;
+}
+
+/** Origem do texto extraído de uma mídia recebida */
+export type InboxMediaAnalysisKind = 'transcription' | 'description' | 'document';
+
+/** Texto extraído de áudio/imagem/documento recebido (payload.media_analysis) */
+export interface InboxMediaAnalysis {
+  kind: InboxMediaAnalysisKind;
+  text: string;
+  provider: string;
+  model?: string;
+  analyzed_at: string;
+}
+
+/** Onde o termo buscado foi encontrado (busca textual do inbox) */
+export type InboxSearchMatchSource = 'message' | 'media' | 'handoff_summary' | 'contact';
+
+/** Trecho destacado: posições [start, end) em `snippet` */
+export interface InboxSearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface InboxSearchHit {
+  conversation_id: string;
+  /** Mensagem encontrada (null para contato e resumo de handoff) */
+  message_id: string | null;
+  source: InboxSearchMatchSource;
+  snippet: string;
+  highlights: InboxSearchHighlight[];
+  rank: number;
+  matched_at: string;
+  phone: string;
+  contact_name: string | null;
+}
+
+export interface InboxSearchResult {
+  query: string;
+  results: InboxSearchHit[];
+  total: number;
+}
+
+/** Item agendado no compositor: mensagem futura ou lembrete de "sem resposta" */
+export type InboxScheduledItemKind = 'message' | 'follow_up';
+
+export type InboxScheduledItemStatus =
+  | 'scheduled'
+  | 'processing'
+  | 'sent'
+  | 'fallback_sent'
+  | 'triggered'
+  | 'skipped'
+  | 'cancelled'
+  | 'failed';
+
+export interface InboxScheduledItem {
+  id: string;
+  conversation_id: string;
+  kind: InboxScheduledItemKind;
+  status: InboxScheduledItemStatus;
+  due_at: string;
+  /** Texto da mensagem (kind = message) */
+  content: string | null;
+  /** Template enviado quando a janela de 24h estiver fechada no horário agendado */
+  fallback_template_name: string | null;
+  fallback_template_variables: Record<string, unknown> | null;
+  /** Observação do lembrete (kind = follow_up) */
+  note: string | null;
+  created_by: string | null;
+  /** Mensagem enviada pelo agendamento */
+  message_id: string | null;
+  error: string | null;
+  processed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateInboxScheduledItemDTO {
+  kind: InboxScheduledItemKind;
+  due_at: string;
+  content?: string | null;
+  fallback_template_name?: string | null;
+  fallback_template_variables?: Record<string, unknown> | null;
+  note?: string | null;
+}
+
 // T004: AIAgent interface
 export type EmbeddingProvider = 'google' | 'openai' | 'voyage' | 'cohere';
 export type RerankProvider = 'cohere' | 'together';
@@ -689,11 +1415,76 @@ export interface InboxQuickReply {
   created_at: string;
 }
 
+// Filas de atendimento: distribuição automática das conversas após o handoff
+export type InboxQueueStrategy = 'round_robin' | 'least_busy';
+
+export interface InboxQueue {
+  id: string;
+  name: string;
+  strategy: InboxQueueStrategy;
+  member_user_ids: string[];
+  /** Fila usada quando a conversa não tem fila definida */
+  is_default: boolean;
+  last_assigned_user_id: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+/** Usuário que pode receber conversas (lista de responsáveis do inbox) */
+export interface InboxAssignee {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+// SLA do atendimento humano: metas por prioridade, opcionalmente em horário comercial
+export interface SlaPolicy {
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+}
+
+export interface SlaConfig {
+  enabled: boolean;
+  /** Conta apenas o tempo dentro de workingHours (mesmo formato do agendamento) */
+  businessHoursOnly: boolean;
+  timezone: string;
+  workingHours: WorkingHoursDay[];
+  policies: Record<ConversationPriority, SlaPolicy>;
+}
+
+export type SlaStatus = 'ok' | 'warning' | 'breached';
+
+/** Métricas de SLA de um grupo (responsável, etiqueta ou total) */
+export interface SlaSummary {
+  key: string;
+  conversations: number;
+  /** Média em minutos corridos até a primeira resposta (apenas respondidas) */
+  avgFirstResponseMinutes: number | null;
+  /** Média em minutos corridos até a resolução (apenas resolvidas) */
+  avgResolutionMinutes: number | null;
+  firstResponseBreaches: number;
+  resolutionBreaches: number;
+}
+
+export interface SlaReportEntry extends SlaSummary {
+  name: string;
+  color?: string;
+}
+
+export interface SlaReport {
+  from: string;
+  to: string;
+  total: SlaSummary | null;
+  byAttendant: SlaReportEntry[];
+  byLabel: SlaReportEntry[];
+}
+
 // DTO types for API operations
 export interface CreateInboxConversationDTO {
   phone: string;
   contact_id?: string;
   ai_agent_id?: string;
+  phone_number_id?: string | null;
   mode?: ConversationMode;
 }
 
@@ -703,8 +1494,21 @@ export interface UpdateInboxConversationDTO {
   priority?: ConversationPriority;
   ai_agent_id?: string;
   labels?: string[]; // label IDs
+  assigned_user_id?: string | null;
+  assigned_at?: string | null;
+  queue_id?: string | null;
+  phone_number_id?: string | null;
 }
 
+export interface CreateInboxQueueDTO {
+  name: string;
+  strategy?: InboxQueueStrategy;
+  member_user_ids?: string[];
+  is_default?: boolean;
+}
+
+export type UpdateInboxQueueDTO = Partial<CreateInboxQueueDTO>;
+
 export interface CreateInboxMessageDTO {
   conversation_id: string;
   direction: MessageDirection;
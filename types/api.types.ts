@@ -334,6 +334,8 @@ export interface DashboardStats {
   activeCampaigns: string;
   /** Number of failed messages */
   failedMessages: string;
+  /** Click-through rate percentage (tracked links) */
+  clickThroughRate: string;
   /** Chart data points */
   chartData: ChartDataPoint[];
 }
@@ -25,6 +25,8 @@ export default defineConfig({
     resolve: {
         alias: {
             '@': path.resolve(__dirname, './'),
+            // Módulos do servidor podem ser testados (o Next resolve assim no servidor)
+            'server-only': 'next/dist/compiled/server-only/empty.js',
         },
     },
 });